@@ -0,0 +1,107 @@
+/**
+ * Offline Eval Runner - Node.js
+ * Bundles src/ai/evals with esbuild and runs the scenarios without a browser or network
+ * Run with: pnpm eval [scenario name filter]
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// esbuild ships with plasmo, so no extra dependency is needed
+const esbuild = require(require.resolve('esbuild', { paths: [path.dirname(require.resolve('plasmo/package.json'))] }));
+
+const root = path.resolve(__dirname, '..');
+const realModelFactory = path.join(root, 'src/ai/core/modelFactory.ts');
+const evalModelFactory = path.join(root, 'src/ai/evals/modelFactory.ts');
+
+/**
+ * Swap the provider-backed model factory for the scripted one
+ */
+const evalModelFactoryPlugin = {
+    name: 'eval-model-factory',
+    setup(build) {
+        build.onResolve({ filter: /modelFactory$/ }, async (args) => {
+            if (args.importer === evalModelFactory || args.pluginData?.skipEvalModelFactory) return undefined;
+            const result = await build.resolve(args.path, {
+                importer: args.importer,
+                resolveDir: args.resolveDir,
+                kind: args.kind,
+                pluginData: { skipEvalModelFactory: true },
+            });
+            return result.path === realModelFactory ? { path: evalModelFactory } : result;
+        });
+    },
+};
+
+/**
+ * Plasmo resolves `data-text:`, `url:` and similar imports at build time;
+ * the side panel code reached by evals doesn't need their contents
+ */
+const plasmoSchemePlugin = {
+    name: 'plasmo-schemes',
+    setup(build) {
+        build.onResolve({ filter: /^(data-[a-z0-9]+|url|raw|raw-env):/ }, (args) => ({ path: args.path, namespace: 'plasmo-scheme' }));
+        build.onLoad({ filter: /.*/, namespace: 'plasmo-scheme' }, () => ({ contents: 'export default ""', loader: 'js' }));
+    },
+};
+
+/**
+ * `ai/test` loads provider-utils' test server, which imports msw and vitest
+ * at module load. Evals only use the mock models, so those imports resolve
+ * to empty modules.
+ */
+const testServerImportsPlugin = {
+    name: 'ai-test-server-imports',
+    setup(build) {
+        build.onResolve({ filter: /^(msw|msw\/node|vitest)$/ }, (args) => ({ path: args.path, namespace: 'unused-test-server' }));
+        build.onLoad({ filter: /.*/, namespace: 'unused-test-server' }, () => ({ contents: 'module.exports = {}', loader: 'js' }));
+    },
+};
+
+async function main() {
+    const filter = process.argv[2];
+    const outfile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'evals-')), 'evals.cjs');
+
+    await esbuild.build({
+        entryPoints: [path.join(root, 'src/ai/evals/index.ts')],
+        outfile,
+        bundle: true,
+        platform: 'node',
+        format: 'cjs',
+        target: 'node18',
+        jsx: 'automatic',
+        tsconfig: path.join(root, 'tsconfig.json'),
+        plugins: [evalModelFactoryPlugin, plasmoSchemePlugin, testServerImportsPlugin],
+        loader: {
+            '.css': 'empty',
+            '.svg': 'dataurl',
+            '.png': 'dataurl',
+            '.jpg': 'dataurl',
+            '.gif': 'dataurl',
+            '.webp': 'dataurl',
+            '.woff': 'empty',
+            '.woff2': 'empty',
+        },
+        define: {
+            'process.env.NODE_ENV': '"test"',
+        },
+        logLevel: 'error',
+    });
+
+    try {
+        const { runEvals } = require(outfile);
+        const results = await runEvals(filter);
+        process.exitCode = results.every((result) => result.passed) ? 0 : 1;
+    } finally {
+        fs.rmSync(path.dirname(outfile), { recursive: true, force: true });
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    // Side panel hooks leave timers and listeners behind
+    .finally(() => setTimeout(() => process.exit(), 100));
@@ -0,0 +1,103 @@
+/**
+ * Click By Ref Tool
+ * Clicks an element from an accessibility snapshot by its ref
+ */
+
+import { useEffect } from "react";
+import { z } from "zod";
+import { createLogger } from '~logger';
+import { registerTool } from "@/ai/tools";
+import { useToolUI } from "@/ai/tools/components";
+import { getInjectionError, runWithAccessibilityAgent } from "./pageAgent";
+import type { AccessibilityAgent, ElementDescription } from "./pageAgent";
+
+const log = createLogger("Actions-Accessibility-ClickByRef");
+
+type ClickResult =
+    | { success: true; ref: string; clicked: ElementDescription; reResolved: boolean }
+    | { success: false; error: string };
+
+export function useClickByRefTool() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering clickByRef tool...');
+
+        registerTool({
+            name: "clickByRef",
+            description: `Click an element by its ref from getAccessibilitySnapshot. Works for icon-only buttons, elements in shadow DOM and same-origin iframes.
+
+PRECONDITIONS:
+- Take a snapshot with getAccessibilitySnapshot first; refs look like "e12"
+
+PROCESS: Resolves the ref (re-finding it by role and name if the page re-rendered) → scrolls into view → highlights → pointer/mouse events → click
+
+RETURNS: The clicked element's role and name, and reResolved: true when the original element had been replaced
+
+LIMITATIONS:
+- Refs reset when the page navigates; take a new snapshot afterwards
+- Disabled elements are not clicked
+
+EXAMPLE: clickByRef(ref="e4")`,
+            parameters: z.object({
+                ref: z.string().describe('Element ref from getAccessibilitySnapshot, e.g. "e4"'),
+            }),
+            execute: async ({ ref }) => {
+                try {
+                    log.info("TOOL CALL: clickByRef", { ref });
+                    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+                    if (!tab || !tab.id) return { error: "No active tab" };
+
+                    const result = await runWithAccessibilityAgent(tab.id, (elementRef: string): ClickResult => {
+                        const agent = (window as unknown as { __aiAccessibilityAgent?: AccessibilityAgent }).__aiAccessibilityAgent;
+                        if (!agent) return { success: false, error: 'Accessibility agent is not available on this page' };
+
+                        const resolved = agent.resolve(elementRef);
+                        if ('error' in resolved) return { success: false, error: resolved.error };
+
+                        const element = resolved.element as HTMLElement;
+                        if (agent.isDisabled(element)) {
+                            return { success: false, error: `${elementRef} (${resolved.description.role} "${resolved.description.name}") is disabled` };
+                        }
+
+                        element.scrollIntoView({ block: 'center', inline: 'center' });
+                        agent.flash(element);
+
+                        const rect = element.getBoundingClientRect();
+                        const init: MouseEventInit = {
+                            bubbles: true,
+                            cancelable: true,
+                            composed: true,
+                            button: 0,
+                            clientX: rect.left + rect.width / 2,
+                            clientY: rect.top + rect.height / 2,
+                        };
+                        // Many SPA widgets listen for pointer or mouse down rather than click
+                        element.dispatchEvent(new PointerEvent('pointerdown', { ...init, pointerType: 'mouse', isPrimary: true }));
+                        element.dispatchEvent(new MouseEvent('mousedown', init));
+                        element.focus?.({ preventScroll: true });
+                        element.dispatchEvent(new PointerEvent('pointerup', { ...init, pointerType: 'mouse', isPrimary: true }));
+                        element.dispatchEvent(new MouseEvent('mouseup', init));
+                        element.click();
+
+                        return { success: true, ref: elementRef, clicked: resolved.description, reResolved: resolved.reResolved };
+                    }, [ref]);
+
+                    if (result?.success) log.info("✅ clickByRef success", result);
+                    else log.warn("❌ clickByRef failed", result);
+                    return result || { error: "Failed to click element" };
+                } catch (error) {
+                    log.error('[Tool] Error clicking by ref:', error);
+                    return getInjectionError(error, 'click element');
+                }
+            },
+        });
+
+        log.info('✅ clickByRef tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up clickByRef tool');
+            unregisterToolUI('clickByRef');
+        };
+    }, []);
+}
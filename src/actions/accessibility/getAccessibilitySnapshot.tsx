@@ -0,0 +1,92 @@
+/**
+ * Accessibility Snapshot Tool
+ * Lists the page as an accessibility tree with element refs for the ref-based interaction tools
+ */
+
+import { useEffect } from "react";
+import { z } from "zod";
+import { createLogger } from '~logger';
+import { registerTool } from "@/ai/tools";
+import { useToolUI } from "@/ai/tools/components";
+import { getInjectionError, runWithAccessibilityAgent } from "./pageAgent";
+import type { AccessibilityAgent, PageSnapshot, SnapshotOptions } from "./pageAgent";
+
+const log = createLogger("Actions-Accessibility-Snapshot");
+
+const DEFAULT_MAX_NODES = 300;
+const MAX_NODES_LIMIT = 1000;
+
+export function useGetAccessibilitySnapshotTool() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering getAccessibilitySnapshot tool...');
+
+        registerTool({
+            name: "getAccessibilitySnapshot",
+            description: `Snapshot the active page as an accessibility tree: roles, names, states and an element ref for every node. Use the refs with clickByRef, typeByRef and selectByRef.
+
+WHEN TO USE:
+- Before interacting with apps where clickByText struggles: icon-only buttons, shadow DOM, iframes, repeated labels
+- To see which controls exist and their state (checked, expanded, disabled, current value)
+- After an action changed the page, to get fresh refs and state
+
+RETURNS:
+- tree: one line per node, indented by nesting, e.g.
+  - navigation "Main"
+    - link "Inbox" [current] [ref=e3]
+    - button "Compose" [ref=e4]
+  - textbox "Search mail" [value="invoices"] [ref=e7]
+- truncated: true when maxNodes was reached; raise maxNodes or use interactiveOnly
+- crossOriginFrames: embedded frames from other sites, whose content is not included
+
+REFS:
+- Stay valid until the page navigates; a ref whose element was re-rendered is matched again by role and name
+- Unnamed buttons (icon-only) still get refs; use their position in the tree to tell them apart
+
+EXAMPLE: getAccessibilitySnapshot(interactiveOnly=true) -> button "Compose" [ref=e4], then clickByRef(ref="e4")`,
+            parameters: z.object({
+                interactiveOnly: z.boolean().optional().default(false).describe('Only list controls (buttons, links, fields, tabs, options). Default: false, which also lists headings, landmarks and dialogs for context.'),
+                maxNodes: z.number().optional().default(DEFAULT_MAX_NODES).describe(`Maximum number of nodes to list. Default: ${DEFAULT_MAX_NODES}, max: ${MAX_NODES_LIMIT}.`),
+            }),
+            execute: async ({ interactiveOnly = false, maxNodes = DEFAULT_MAX_NODES }) => {
+                try {
+                    const options: SnapshotOptions = {
+                        interactiveOnly,
+                        maxNodes: Math.min(Math.max(Math.round(maxNodes), 1), MAX_NODES_LIMIT),
+                    };
+                    log.info("TOOL CALL: getAccessibilitySnapshot", options);
+
+                    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+                    if (!tab || !tab.id) return { error: "No active tab" };
+
+                    const snapshot = await runWithAccessibilityAgent(tab.id, (snapshotOptions: SnapshotOptions): PageSnapshot | { error: string } => {
+                        const agent = (window as unknown as { __aiAccessibilityAgent?: AccessibilityAgent }).__aiAccessibilityAgent;
+                        if (!agent) return { error: 'Accessibility agent is not available on this page' };
+                        return agent.snapshot(snapshotOptions);
+                    }, [options]);
+
+                    if (!snapshot) return { error: "Failed to snapshot the page" };
+                    if ('error' in snapshot) return { success: false, error: snapshot.error };
+
+                    log.info("✅ Accessibility snapshot taken", { nodes: snapshot.nodeCount, truncated: snapshot.truncated });
+                    return {
+                        success: true,
+                        ...snapshot,
+                        ...(snapshot.nodeCount === 0 && { message: "No accessible elements found; the page may still be loading" }),
+                    };
+                } catch (error) {
+                    log.error('[Tool] Error taking accessibility snapshot:', error);
+                    return getInjectionError(error, 'snapshot the page');
+                }
+            },
+        });
+
+        log.info('✅ getAccessibilitySnapshot tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up getAccessibilitySnapshot tool');
+            unregisterToolUI('getAccessibilitySnapshot');
+        };
+    }, []);
+}
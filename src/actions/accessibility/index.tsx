@@ -0,0 +1,16 @@
+/**
+ * Accessibility Actions
+ * Page snapshots as an accessibility tree, and interactions that target its element refs
+ */
+
+import { useGetAccessibilitySnapshotTool } from "./getAccessibilitySnapshot";
+import { useClickByRefTool } from "./clickByRef";
+import { useTypeByRefTool } from "./typeByRef";
+import { useSelectByRefTool } from "./selectByRef";
+
+export function registerAccessibilityActions() {
+    useGetAccessibilitySnapshotTool();
+    useClickByRefTool();
+    useTypeByRefTool();
+    useSelectByRefTool();
+}
@@ -0,0 +1,500 @@
+/**
+ * Accessibility Page Agent
+ * Builds a compact accessibility tree of the active page and hands out
+ * element refs ("e12") that the ref-based interaction tools resolve later.
+ *
+ * The agent is injected into the page's isolated world once and kept on
+ * window, so refs stay valid across tool calls until the page navigates.
+ * It walks open shadow roots and same-origin iframes from the top frame.
+ * When a re-render replaces a referenced element, the ref is re-resolved
+ * to the element with the same role and name.
+ */
+
+export const ACCESSIBILITY_AGENT_VERSION = 1;
+
+export interface SnapshotOptions {
+    /** Only list elements the user can act on (buttons, links, fields, ...) */
+    interactiveOnly: boolean;
+    maxNodes: number;
+}
+
+export interface PageSnapshot {
+    url: string;
+    title: string;
+    /** One line per node, indented by nesting, e.g. `- button "Save" [disabled] [ref=e4]` */
+    tree: string;
+    nodeCount: number;
+    truncated: boolean;
+    /** Frames whose content could not be read because they are cross-origin */
+    crossOriginFrames: number;
+}
+
+export interface ElementDescription {
+    role: string;
+    name: string;
+}
+
+export type RefResolution =
+    | { element: Element; reResolved: boolean; description: ElementDescription }
+    | { error: string };
+
+export interface AccessibilityAgent {
+    version: number;
+    snapshot(options: SnapshotOptions): PageSnapshot;
+    resolve(ref: string): RefResolution;
+    describe(element: Element): ElementDescription;
+    isDisabled(element: Element): boolean;
+    /** Briefly outline an element before acting on it */
+    flash(element: Element): void;
+}
+
+/**
+ * Install the agent on window
+ *
+ * Injected with chrome.scripting.executeScript, so it must be self-contained:
+ * no imports or references to anything outside this function.
+ */
+export function installAccessibilityAgent(version: number): void {
+    const host = window as unknown as { __aiAccessibilityAgent?: AccessibilityAgent };
+    if (host.__aiAccessibilityAgent?.version === version) return;
+
+    const INTERACTIVE_ROLES = new Set([
+        'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'switch', 'combobox',
+        'listbox', 'option', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'slider',
+        'spinbutton', 'treeitem', 'focusable',
+    ]);
+    const STRUCTURAL_ROLES = new Set([
+        'heading', 'banner', 'navigation', 'main', 'complementary', 'contentinfo', 'region',
+        'form', 'search', 'dialog', 'alertdialog', 'alert', 'status', 'img', 'tablist',
+        'tabpanel', 'menu', 'menubar', 'toolbar', 'tree', 'grid', 'table', 'group', 'iframe',
+    ]);
+    // Controls whose content is their name; their subtree isn't listed separately
+    const LEAF_ROLES = new Set([
+        'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'switch', 'combobox',
+        'option', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'slider', 'spinbutton',
+    ]);
+    // Only worth listing when they have a name
+    const NAMED_ONLY_ROLES = new Set(['img', 'group', 'region', 'focusable', 'table', 'grid']);
+    const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'META', 'LINK', 'SVG']);
+
+    const MAX_NAME_LENGTH = 100;
+    const MAX_VALUE_LENGTH = 60;
+    const MAX_OPTIONS = 20;
+    // Bounds the walk on huge pages
+    const MAX_VISITED_ELEMENTS = 30000;
+    const RESOLVE_MAX_NODES = 5000;
+
+    interface RefEntry {
+        element: WeakRef<Element>;
+        role: string;
+        name: string;
+        /** Position among nodes with the same role and name, used to re-resolve */
+        occurrence: number;
+    }
+
+    interface CollectedNode {
+        element: Element;
+        role: string;
+        name: string;
+        depth: number;
+        note?: string;
+    }
+
+    const refs = new Map<string, RefEntry>();
+    const refByElement = new WeakMap<Element, string>();
+    let nextRef = 1;
+
+    function collapse(text: string | null | undefined): string {
+        return (text ?? '').replace(/\s+/g, ' ').trim();
+    }
+
+    function truncate(text: string, max: number): string {
+        return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+    }
+
+    function getInputRole(input: HTMLInputElement): string | null {
+        const type = (input.getAttribute('type') ?? '').toLowerCase();
+        if (type === 'hidden') return null;
+        if (type === 'checkbox') return input.getAttribute('role') === 'switch' ? 'switch' : 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return 'searchbox';
+        if (['button', 'submit', 'reset', 'image', 'file'].includes(type)) return 'button';
+        if (input.list) return 'combobox';
+        return 'textbox';
+    }
+
+    function getRole(element: Element): string | null {
+        const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+        if (explicit && explicit !== 'presentation' && explicit !== 'none' && explicit !== 'generic') {
+            return explicit;
+        }
+
+        switch (element.tagName) {
+            case 'A':
+            case 'AREA':
+                if (element.hasAttribute('href')) return 'link';
+                break;
+            case 'BUTTON':
+                return 'button';
+            case 'SUMMARY':
+                return 'button';
+            case 'INPUT':
+                return getInputRole(element as HTMLInputElement);
+            case 'TEXTAREA':
+                return 'textbox';
+            case 'SELECT': {
+                const select = element as HTMLSelectElement;
+                return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+            }
+            case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+                return 'heading';
+            case 'IMG':
+                return element.getAttribute('alt') === '' ? null : 'img';
+            case 'NAV':
+                return 'navigation';
+            case 'MAIN':
+                return 'main';
+            case 'HEADER':
+                return element.closest('article, aside, main, nav, section') ? null : 'banner';
+            case 'FOOTER':
+                return element.closest('article, aside, main, nav, section') ? null : 'contentinfo';
+            case 'ASIDE':
+                return 'complementary';
+            case 'SECTION':
+                return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+            case 'FORM':
+                return 'form';
+            case 'SEARCH':
+                return 'search';
+            case 'DIALOG':
+                return 'dialog';
+            case 'TABLE':
+                return 'table';
+            case 'FIELDSET':
+            case 'DETAILS':
+                return 'group';
+            case 'IFRAME':
+                return 'iframe';
+        }
+
+        if ((element as HTMLElement).isContentEditable && !element.parentElement?.isContentEditable) {
+            return 'textbox';
+        }
+        // Custom widgets built from divs are only recognizable by being focusable or clickable
+        const tabIndex = element.getAttribute('tabindex');
+        if ((tabIndex !== null && Number(tabIndex) >= 0) || element.hasAttribute('onclick')) {
+            return 'focusable';
+        }
+        return null;
+    }
+
+    function getTextByIds(element: Element, ids: string): string {
+        const root = element.getRootNode() as Document | ShadowRoot;
+        return ids.split(/\s+/)
+            .map(id => collapse(root.getElementById?.(id)?.textContent))
+            .filter(Boolean)
+            .join(' ');
+    }
+
+    // Icon-only controls often carry their name on a nested svg or image
+    function getIconName(element: Element): string {
+        const labelled = element.querySelector('[aria-label]');
+        if (labelled) return collapse(labelled.getAttribute('aria-label'));
+        const svgTitle = element.querySelector('svg title');
+        if (svgTitle) return collapse(svgTitle.textContent);
+        const image = element.querySelector('img[alt]');
+        return image ? collapse(image.getAttribute('alt')) : '';
+    }
+
+    function computeName(element: Element, role: string): string {
+        const labelledBy = element.getAttribute('aria-labelledby');
+        if (labelledBy) {
+            const text = getTextByIds(element, labelledBy);
+            if (text) return text;
+        }
+        const ariaLabel = collapse(element.getAttribute('aria-label'));
+        if (ariaLabel) return ariaLabel;
+
+        const tag = element.tagName;
+        if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') {
+            const field = element as HTMLInputElement;
+            const type = field.type;
+            if (tag === 'INPUT' && ['button', 'submit', 'reset'].includes(type)) {
+                return collapse(field.value) || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+            }
+            if (tag === 'INPUT' && type === 'image') return collapse(field.alt);
+            const label = field.labels?.[0];
+            if (label) return collapse(label.innerText || label.textContent);
+            return collapse(field.placeholder) || collapse(field.title);
+        }
+        if (tag === 'IMG') return collapse(element.getAttribute('alt')) || collapse(element.getAttribute('title'));
+        if (tag === 'IFRAME') return collapse(element.getAttribute('title'));
+        if (tag === 'FIELDSET') {
+            const legend = element.querySelector('legend');
+            if (legend) return collapse(legend.textContent);
+        }
+
+        if (LEAF_ROLES.has(role) || role === 'heading' || role === 'treeitem' || role === 'focusable') {
+            const text = collapse((element as HTMLElement).innerText ?? element.textContent);
+            if (text) return text;
+            const icon = getIconName(element);
+            if (icon) return icon;
+        }
+        return collapse(element.getAttribute('title')) || collapse(element.getAttribute('data-tooltip'));
+    }
+
+    function describe(element: Element): ElementDescription {
+        const role = getRole(element) ?? element.tagName.toLowerCase();
+        return { role, name: truncate(computeName(element, role), MAX_NAME_LENGTH) };
+    }
+
+    function isDisabled(element: Element): boolean {
+        return (element as HTMLButtonElement).disabled === true ||
+            element.getAttribute('aria-disabled') === 'true' ||
+            !!element.closest('fieldset[disabled]');
+    }
+
+    function getValue(element: Element, role: string): string | null {
+        if (element.tagName === 'SELECT') {
+            const select = element as HTMLSelectElement;
+            return collapse(select.selectedOptions[0]?.textContent) || null;
+        }
+        if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
+            const field = element as HTMLInputElement;
+            if (['checkbox', 'radio', 'button', 'submit', 'reset', 'image'].includes(field.type)) return null;
+            if (field.type === 'password') return field.value ? '••••' : null;
+            return field.value || null;
+        }
+        if (role === 'textbox' && (element as HTMLElement).isContentEditable) {
+            return collapse((element as HTMLElement).innerText) || null;
+        }
+        return element.getAttribute('aria-valuetext') ?? element.getAttribute('aria-valuenow');
+    }
+
+    function getStates(element: Element, role: string): string[] {
+        const states: string[] = [];
+        const field = element as HTMLInputElement;
+
+        if (role === 'heading') {
+            const level = /^H([1-6])$/.exec(element.tagName)?.[1] ?? element.getAttribute('aria-level');
+            if (level) states.push(`level=${level}`);
+        }
+
+        const ariaChecked = element.getAttribute('aria-checked');
+        if (ariaChecked === 'true' || (element.tagName === 'INPUT' && field.checked)) states.push('checked');
+        else if (ariaChecked === 'mixed' || (element.tagName === 'INPUT' && field.indeterminate)) states.push('mixed');
+
+        const expanded = element.getAttribute('aria-expanded');
+        if (expanded === 'true' || (element.tagName === 'DETAILS' && (element as HTMLDetailsElement).open)) states.push('expanded');
+        else if (expanded === 'false') states.push('collapsed');
+
+        if (element.getAttribute('aria-selected') === 'true') states.push('selected');
+        if (element.getAttribute('aria-pressed') === 'true') states.push('pressed');
+        if (element.getAttribute('aria-current') && element.getAttribute('aria-current') !== 'false') states.push('current');
+        if (isDisabled(element)) states.push('disabled');
+        if (field.required || element.getAttribute('aria-required') === 'true') states.push('required');
+        if ((element.getRootNode() as Document | ShadowRoot).activeElement === element) states.push('focused');
+
+        const value = getValue(element, role);
+        if (value) states.push(`value="${truncate(collapse(value), MAX_VALUE_LENGTH)}"`);
+
+        if (element.tagName === 'SELECT') {
+            const options = Array.from((element as HTMLSelectElement).options).map(option => collapse(option.textContent));
+            const listed = options.slice(0, MAX_OPTIONS).map(option => `"${option}"`).join(', ');
+            states.push(`options=[${listed}${options.length > MAX_OPTIONS ? `, +${options.length - MAX_OPTIONS} more` : ''}]`);
+        }
+        return states;
+    }
+
+    /**
+     * 'hidden' skips the whole subtree; 'self-hidden' skips only the element,
+     * since children of visibility:hidden parents can still be visible
+     */
+    function getVisibility(element: Element): 'visible' | 'self-hidden' | 'hidden' {
+        if (element.getAttribute('aria-hidden') === 'true') return 'hidden';
+        if (element.checkVisibility?.({ checkVisibilityCSS: true }) !== false) return 'visible';
+
+        const style = (element.ownerDocument.defaultView ?? window).getComputedStyle(element);
+        // display: contents has no box of its own, but its children render normally
+        if (style.display === 'contents') return 'self-hidden';
+        if (style.display !== 'none' && style.visibility === 'hidden') return 'self-hidden';
+        return 'hidden';
+    }
+
+    function collect(interactiveOnly: boolean, maxNodes: number) {
+        const nodes: CollectedNode[] = [];
+        let truncated = false;
+        let crossOriginFrames = 0;
+        let visited = 0;
+
+        const visitChildren = (parent: Element, depth: number) => {
+            // Shadow content renders in place of the light children it slots in
+            const children = parent.shadowRoot
+                ? [...Array.from(parent.shadowRoot.children), ...Array.from(parent.children)]
+                : Array.from(parent.children);
+            for (const child of children) {
+                if (truncated) return;
+                visit(child, depth);
+            }
+        };
+
+        const visit = (element: Element, depth: number) => {
+            if (++visited > MAX_VISITED_ELEMENTS) {
+                truncated = true;
+                return;
+            }
+            if (SKIPPED_TAGS.has(element.tagName.toUpperCase())) return;
+            const visibility = getVisibility(element);
+            if (visibility === 'hidden') return;
+
+            const role = visibility === 'visible' ? getRole(element) : null;
+            const name = role ? truncate(computeName(element, role), MAX_NAME_LENGTH) : '';
+            const listed = !!role &&
+                (INTERACTIVE_ROLES.has(role) || (!interactiveOnly && STRUCTURAL_ROLES.has(role))) &&
+                (!NAMED_ONLY_ROLES.has(role) || !!name);
+
+            let childDepth = depth;
+            let node: CollectedNode | undefined;
+            if (listed && role) {
+                if (nodes.length >= maxNodes) {
+                    truncated = true;
+                    return;
+                }
+                node = { element, role, name, depth };
+                nodes.push(node);
+                childDepth = depth + 1;
+                if (LEAF_ROLES.has(role)) return;
+            }
+
+            if (element.tagName === 'IFRAME') {
+                let frameDocument: Document | null = null;
+                try {
+                    frameDocument = (element as HTMLIFrameElement).contentDocument;
+                } catch {
+                    frameDocument = null;
+                }
+                if (frameDocument?.body) {
+                    visitChildren(frameDocument.body, childDepth);
+                } else {
+                    crossOriginFrames++;
+                    if (node) node.note = 'cross-origin, content not included';
+                }
+                return;
+            }
+
+            visitChildren(element, childDepth);
+        };
+
+        const root = document.body ?? document.documentElement;
+        visitChildren(root, 0);
+        return { nodes, truncated, crossOriginFrames };
+    }
+
+    function assignRef(element: Element, role: string, name: string, occurrence: number): string {
+        let ref = refByElement.get(element);
+        if (!ref) {
+            ref = `e${nextRef++}`;
+            refByElement.set(element, ref);
+        }
+        refs.set(ref, { element: new WeakRef(element), role, name, occurrence });
+        return ref;
+    }
+
+    function snapshot(options: SnapshotOptions): PageSnapshot {
+        const { nodes, truncated, crossOriginFrames } = collect(options.interactiveOnly, options.maxNodes);
+        const occurrences = new Map<string, number>();
+
+        const lines = nodes.map(node => {
+            const key = `${node.role}\u0000${node.name}`;
+            const occurrence = occurrences.get(key) ?? 0;
+            occurrences.set(key, occurrence + 1);
+
+            const ref = assignRef(node.element, node.role, node.name, occurrence);
+            const name = node.name ? ` "${node.name.replace(/"/g, '\\"')}"` : '';
+            const states = getStates(node.element, node.role).map(state => ` [${state}]`).join('');
+            const note = node.note ? ` (${node.note})` : '';
+            return `${'  '.repeat(node.depth)}- ${node.role}${name}${states} [ref=${ref}]${note}`;
+        });
+
+        return {
+            url: location.href,
+            title: document.title,
+            tree: lines.join('\n'),
+            nodeCount: nodes.length,
+            truncated,
+            crossOriginFrames,
+        };
+    }
+
+    function resolve(ref: string): RefResolution {
+        const entry = refs.get(ref);
+        if (!entry) {
+            return { error: `Unknown element ref "${ref}". Refs reset when the page navigates; take a new snapshot with getAccessibilitySnapshot.` };
+        }
+
+        const current = entry.element.deref();
+        if (current?.isConnected && getRole(current) === entry.role) {
+            return { element: current, reResolved: false, description: describe(current) };
+        }
+
+        // The element was replaced by a re-render; find its counterpart by role and name
+        const candidates = collect(false, RESOLVE_MAX_NODES).nodes
+            .filter(node => node.role === entry.role && node.name === entry.name);
+        const match = candidates.length === 1 ? candidates[0] : candidates[entry.occurrence];
+        if (!match) {
+            const label = entry.name ? `${entry.role} "${entry.name}"` : entry.role;
+            return { error: `Element ${ref} (${label}) is no longer on the page. Take a new snapshot with getAccessibilitySnapshot.` };
+        }
+
+        entry.element = new WeakRef(match.element);
+        refByElement.set(match.element, ref);
+        return { element: match.element, reResolved: true, description: describe(match.element) };
+    }
+
+    function flash(element: Element): void {
+        const target = element as HTMLElement;
+        if (!target.style) return;
+        const previous = { outline: target.style.outline, offset: target.style.outlineOffset };
+        target.style.outline = '2px solid #FFD700';
+        target.style.outlineOffset = '2px';
+        setTimeout(() => {
+            target.style.outline = previous.outline;
+            target.style.outlineOffset = previous.offset;
+        }, 600);
+    }
+
+    host.__aiAccessibilityAgent = { version, snapshot, resolve, describe, isDisabled, flash };
+}
+
+/**
+ * Make sure the agent is installed in the tab, then run a function that uses it
+ * The function is injected too, so it must be self-contained and read the agent
+ * from window.__aiAccessibilityAgent
+ */
+export async function runWithAccessibilityAgent<Args extends unknown[], Result>(
+    tabId: number,
+    func: (...args: Args) => Result,
+    args: Args
+): Promise<Awaited<Result> | undefined> {
+    await chrome.scripting.executeScript({
+        target: { tabId },
+        func: installAccessibilityAgent,
+        args: [ACCESSIBILITY_AGENT_VERSION],
+    });
+    const [injection] = await chrome.scripting.executeScript({ target: { tabId }, func, args });
+    return injection?.result as Awaited<Result> | undefined;
+}
+
+/**
+ * Error result for failures of the injection itself
+ */
+export function getInjectionError(error: unknown, action: string): { error: string; frameRemoved?: boolean } {
+    const message = (error as Error)?.message || String(error);
+    // The page navigated mid-call; the agent and its refs are gone with it
+    if (message.includes('Frame with ID') || message.includes('was removed')) {
+        return { error: 'Page is navigating - take a new snapshot once it has loaded', frameRemoved: true };
+    }
+    return { error: `Failed to ${action}. Make sure you have permission to access this page.` };
+}
@@ -0,0 +1,104 @@
+/**
+ * Select By Ref Tool
+ * Chooses an option of a native dropdown from an accessibility snapshot by its ref
+ */
+
+import { useEffect } from "react";
+import { z } from "zod";
+import { createLogger } from '~logger';
+import { registerTool } from "@/ai/tools";
+import { useToolUI } from "@/ai/tools/components";
+import { getInjectionError, runWithAccessibilityAgent } from "./pageAgent";
+import type { AccessibilityAgent } from "./pageAgent";
+
+const log = createLogger("Actions-Accessibility-SelectByRef");
+
+type SelectResult =
+    | { success: true; ref: string; selected: string; reResolved: boolean }
+    | { success: false; error: string; options?: string[] };
+
+export function useSelectByRefTool() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering selectByRef tool...');
+
+        registerTool({
+            name: "selectByRef",
+            description: `Choose an option in a dropdown (<select>) by its ref from getAccessibilitySnapshot. The snapshot lists each dropdown's options.
+
+PRECONDITIONS:
+- Take a snapshot with getAccessibilitySnapshot first; refs look like "e12"
+
+LIMITATIONS:
+- Only native dropdowns; for custom ones, clickByRef the combobox, take a new snapshot and clickByRef the option
+
+EXAMPLE: selectByRef(ref="e9", option="Canada")`,
+            parameters: z.object({
+                ref: z.string().describe('Ref of the dropdown from getAccessibilitySnapshot, e.g. "e9"'),
+                option: z.string().describe('Option text or value to choose'),
+            }),
+            execute: async ({ ref, option }) => {
+                try {
+                    log.info("TOOL CALL: selectByRef", { ref, option });
+                    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+                    if (!tab || !tab.id) return { error: "No active tab" };
+
+                    const result = await runWithAccessibilityAgent(tab.id, (elementRef: string, wanted: string): SelectResult => {
+                        const agent = (window as unknown as { __aiAccessibilityAgent?: AccessibilityAgent }).__aiAccessibilityAgent;
+                        if (!agent) return { success: false, error: 'Accessibility agent is not available on this page' };
+
+                        const resolved = agent.resolve(elementRef);
+                        if ('error' in resolved) return { success: false, error: resolved.error };
+
+                        const { role, name } = resolved.description;
+                        if (resolved.element.tagName !== 'SELECT') {
+                            return {
+                                success: false,
+                                error: `${elementRef} is a ${role}${name ? ` "${name}"` : ''}, not a native dropdown. Click it with clickByRef, take a new snapshot and click the option.`,
+                            };
+                        }
+
+                        const select = resolved.element as HTMLSelectElement;
+                        if (agent.isDisabled(select)) {
+                            return { success: false, error: `${elementRef} (${role} "${name}") is disabled` };
+                        }
+
+                        const options = Array.from(select.options);
+                        const label = (item: HTMLOptionElement) => (item.textContent ?? '').replace(/\s+/g, ' ').trim();
+                        const query = wanted.trim().toLowerCase();
+                        const match = options.find(item => label(item).toLowerCase() === query || item.value.toLowerCase() === query) ??
+                            options.find(item => label(item).toLowerCase().includes(query));
+                        if (!match) {
+                            return { success: false, error: `No option matching "${wanted}" in ${elementRef}`, options: options.map(label) };
+                        }
+
+                        select.scrollIntoView({ block: 'center' });
+                        agent.flash(select);
+                        select.focus();
+                        select.value = match.value;
+                        match.selected = true;
+                        select.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+                        select.dispatchEvent(new Event('change', { bubbles: true }));
+
+                        return { success: true, ref: elementRef, selected: label(match), reResolved: resolved.reResolved };
+                    }, [ref, option]);
+
+                    if (result?.success) log.info("✅ selectByRef success", result);
+                    else log.warn("❌ selectByRef failed", result);
+                    return result || { error: "Failed to select option" };
+                } catch (error) {
+                    log.error('[Tool] Error selecting by ref:', error);
+                    return getInjectionError(error, 'select option');
+                }
+            },
+        });
+
+        log.info('✅ selectByRef tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up selectByRef tool');
+            unregisterToolUI('selectByRef');
+        };
+    }, []);
+}
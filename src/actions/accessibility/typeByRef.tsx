@@ -0,0 +1,146 @@
+/**
+ * Type By Ref Tool
+ * Types into a text field from an accessibility snapshot by its ref
+ */
+
+import { useEffect } from "react";
+import { z } from "zod";
+import { createLogger } from '~logger';
+import { registerTool } from "@/ai/tools";
+import { useToolUI } from "@/ai/tools/components";
+import { getInjectionError, runWithAccessibilityAgent } from "./pageAgent";
+import type { AccessibilityAgent, ElementDescription } from "./pageAgent";
+
+const log = createLogger("Actions-Accessibility-TypeByRef");
+
+type TypeResult =
+    | { success: true; ref: string; field: ElementDescription; typed: number; submitted: boolean; reResolved: boolean }
+    | { success: false; error: string };
+
+export function useTypeByRefTool() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering typeByRef tool...');
+
+        registerTool({
+            name: "typeByRef",
+            description: `Type text into a field by its ref from getAccessibilitySnapshot (textbox, searchbox, combobox, or a rich text editor).
+
+PRECONDITIONS:
+- Take a snapshot with getAccessibilitySnapshot first; refs look like "e12"
+
+PROCESS: Resolves the ref → focuses the field → replaces (or appends to) its text → fires input/change events (React/Vue compatible) → presses Enter if requested
+
+LIMITATIONS:
+- Refs reset when the page navigates; take a new snapshot afterwards
+- Disabled and read-only fields are not changed
+- Types instantly rather than key by key
+
+EXAMPLE: typeByRef(ref="e7", text="quarterly invoices", pressEnter=true)`,
+            parameters: z.object({
+                ref: z.string().describe('Element ref from getAccessibilitySnapshot, e.g. "e7"'),
+                text: z.string().describe('Text to type'),
+                clearFirst: z.boolean().optional().default(true).describe('Replace the current content. Default: true. Set false to append.'),
+                pressEnter: z.boolean().optional().default(false).describe('Press Enter after typing, e.g. to submit a search. Default: false.'),
+            }),
+            execute: async ({ ref, text, clearFirst = true, pressEnter = false }) => {
+                try {
+                    log.info("TOOL CALL: typeByRef", { ref, textLength: text.length, clearFirst, pressEnter });
+                    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+                    if (!tab || !tab.id) return { error: "No active tab" };
+
+                    const result = await runWithAccessibilityAgent(tab.id, (elementRef: string, value: string, clear: boolean, enter: boolean): TypeResult => {
+                        const agent = (window as unknown as { __aiAccessibilityAgent?: AccessibilityAgent }).__aiAccessibilityAgent;
+                        if (!agent) return { success: false, error: 'Accessibility agent is not available on this page' };
+
+                        const resolved = agent.resolve(elementRef);
+                        if ('error' in resolved) return { success: false, error: resolved.error };
+
+                        // Custom comboboxes wrap the input they type into
+                        const isField = (element: Element) => element.tagName === 'INPUT' ||
+                            element.tagName === 'TEXTAREA' ||
+                            (element as HTMLElement).isContentEditable;
+                        const field = (isField(resolved.element)
+                            ? resolved.element
+                            : resolved.element.querySelector('input, textarea, [contenteditable=""], [contenteditable="true"]')) as HTMLElement | null;
+                        const { role, name } = resolved.description;
+                        if (!field) {
+                            return { success: false, error: `${elementRef} is a ${role}${name ? ` "${name}"` : ''}, not a text field` };
+                        }
+                        if (agent.isDisabled(field) || (field as HTMLInputElement).readOnly) {
+                            return { success: false, error: `${elementRef} (${role} "${name}") is disabled or read-only` };
+                        }
+
+                        field.scrollIntoView({ block: 'center' });
+                        agent.flash(field);
+                        field.focus();
+
+                        if (field.tagName === 'INPUT' || field.tagName === 'TEXTAREA') {
+                            const input = field as HTMLInputElement;
+                            const next = clear ? value : input.value + value;
+                            // Frameworks track the value through the prototype setter; the field may come from an iframe's realm
+                            const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), 'value')?.set;
+                            if (setter) setter.call(input, next);
+                            else input.value = next;
+                            input.dispatchEvent(new InputEvent('input', { bubbles: true, composed: true, inputType: 'insertText', data: value }));
+                            input.dispatchEvent(new Event('change', { bubbles: true }));
+                        } else {
+                            const doc = field.ownerDocument;
+                            const selection = doc.getSelection();
+                            if (selection) {
+                                const range = doc.createRange();
+                                range.selectNodeContents(field);
+                                if (!clear) range.collapse(false);
+                                selection.removeAllRanges();
+                                selection.addRange(range);
+                            }
+                            // insertText goes through the editor's own input handling
+                            if (!doc.execCommand('insertText', false, value)) {
+                                field.textContent = clear ? value : (field.textContent ?? '') + value;
+                                field.dispatchEvent(new InputEvent('input', { bubbles: true, composed: true, inputType: 'insertText', data: value }));
+                            }
+                        }
+
+                        let submitted = false;
+                        if (enter) {
+                            const init: KeyboardEventInit = { key: 'Enter', code: 'Enter', keyCode: 13, which: 13, bubbles: true, cancelable: true, composed: true };
+                            const accepted = field.dispatchEvent(new KeyboardEvent('keydown', init));
+                            field.dispatchEvent(new KeyboardEvent('keypress', init));
+                            field.dispatchEvent(new KeyboardEvent('keyup', init));
+                            // Synthetic Enter doesn't submit forms, so do what the browser would
+                            const form = (field as HTMLInputElement).form;
+                            if (accepted && field.tagName === 'INPUT' && form) {
+                                form.requestSubmit();
+                                submitted = true;
+                            }
+                        }
+
+                        return {
+                            success: true,
+                            ref: elementRef,
+                            field: agent.describe(field),
+                            typed: value.length,
+                            submitted,
+                            reResolved: resolved.reResolved,
+                        };
+                    }, [ref, text, clearFirst, pressEnter]);
+
+                    if (result?.success) log.info("✅ typeByRef success", { ref, field: result.field });
+                    else log.warn("❌ typeByRef failed", result);
+                    return result || { error: "Failed to type text" };
+                } catch (error) {
+                    log.error('[Tool] Error typing by ref:', error);
+                    return getInjectionError(error, 'type text');
+                }
+            },
+        });
+
+        log.info('✅ typeByRef tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up typeByRef tool');
+            unregisterToolUI('typeByRef');
+        };
+    }, []);
+}
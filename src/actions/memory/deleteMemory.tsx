@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { deleteMemory } from '@/memory';
+
+const log = createLogger("Actions-Memory-Delete", "MEMORY_OPERATIONS");
+
+export function useDeleteMemoryAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering deleteMemory tool...');
+
+        registerTool({
+            name: "deleteMemory",
+            description: `Delete a saved memory by its key.
+
+WHEN TO USE:
+- User asks to "forget", "remove" or "delete" something you remembered
+- A saved fact is outdated and the user doesn't want it replaced
+
+PRECONDITIONS:
+- Use listMemories first if unsure of the exact key
+
+LIMITATIONS:
+- Cannot be undone
+- Deletes one memory per call
+
+EXAMPLE: deleteMemory(key="user.home_city") -> {success: true, key: "user.home_city", message: "Deleted user.home_city"}`,
+            parameters: z.object({
+                key: z.string().describe("The memory key to delete, e.g. 'user.home_city'"),
+            }),
+            execute: async ({ key }) => {
+                try {
+                    log.info("TOOL CALL: deleteMemory", { key });
+
+                    if (!(await deleteMemory(key))) {
+                        return { error: `No memory saved for "${key}"` };
+                    }
+
+                    return { success: true, key, message: `Deleted ${key}` };
+                } catch (error) {
+                    log.error('[Tool] Error deleting memory:', error);
+                    return { error: "Failed to delete memory" };
+                }
+            },
+        });
+
+        log.info('✅ deleteMemory tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up deleteMemory tool');
+            unregisterToolUI('deleteMemory');
+        };
+    }, []);
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { getMemory } from '@/memory';
+
+const log = createLogger("Actions-Memory-Get", "MEMORY_OPERATIONS");
+
+export function useGetMemoryAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering getMemory tool...');
+
+        registerTool({
+            name: "getMemory",
+            description: `Retrieve a saved memory by its key.
+
+WHEN TO USE:
+- You know the exact key of a memory (from listMemories or an earlier save)
+- Checking a specific preference before acting (e.g. "user.home_city")
+
+PRECONDITIONS:
+- None (returns found: false if the key doesn't exist)
+
+LIMITATIONS:
+- Exact key lookup only; use listMemories with a query to search by topic
+
+EXAMPLE: getMemory(key="user.name") -> {found: true, key: "user.name", value: "John", category: "fact"}`,
+            parameters: z.object({
+                key: z.string().describe("The memory key to retrieve, e.g. 'user.name'"),
+            }),
+            execute: async ({ key }) => {
+                try {
+                    log.info("TOOL CALL: getMemory", { key });
+                    const memory = await getMemory(key);
+
+                    if (!memory) {
+                        return { found: false, key, message: `No memory saved for "${key}"` };
+                    }
+
+                    return {
+                        found: true,
+                        key: memory.key,
+                        value: memory.content,
+                        category: memory.category,
+                        sourceUrl: memory.sourceUrl,
+                        updatedAt: new Date(memory.updatedAt).toLocaleString(),
+                    };
+                } catch (error) {
+                    log.error('[Tool] Error getting memory:', error);
+                    return { error: "Failed to retrieve memory" };
+                }
+            },
+        });
+
+        log.info('✅ getMemory tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up getMemory tool');
+            unregisterToolUI('getMemory');
+        };
+    }, []);
+}
@@ -0,0 +1,11 @@
+import { useSaveMemoryAction } from "./saveMemory";
+import { useGetMemoryAction } from "./getMemory";
+import { useListMemoriesAction } from "./listMemories";
+import { useDeleteMemoryAction } from "./deleteMemory";
+
+export function registerMemoryActions() {
+    useSaveMemoryAction();
+    useGetMemoryAction();
+    useListMemoriesAction();
+    useDeleteMemoryAction();
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { listMemories, searchMemories } from '@/memory';
+import type { MemoryEntry } from '~/db';
+
+const log = createLogger("Actions-Memory-List", "MEMORY_OPERATIONS");
+
+function formatMemory(memory: MemoryEntry) {
+    return {
+        key: memory.key,
+        value: memory.content,
+        category: memory.category,
+        sourceUrl: memory.sourceUrl,
+    };
+}
+
+export function useListMemoriesAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering listMemories tool...');
+
+        registerTool({
+            name: "listMemories",
+            description: `List saved memories, or search them by topic.
+
+WHEN TO USE:
+- User asks "what do you remember about me?", "what are my saved preferences?"
+- Looking for a memory when you don't know its exact key (pass query)
+- Checking for an existing key before saving a duplicate
+
+PRECONDITIONS:
+- None (returns empty list if nothing is saved)
+
+WORKFLOW:
+1. Without query: newest memories first
+2. With query: memories ranked by keyword and meaning similarity
+
+EXAMPLE: listMemories(category="fact", limit=20) -> {count: 2, memories: [{key: "user.name", value: "John", category: "fact"}, ...]}`,
+            parameters: z.object({
+                category: z.enum(['fact', 'behavior']).optional().describe("Only list memories in this category"),
+                query: z.string().optional().describe("Topic to search for, e.g. 'travel preferences'"),
+                limit: z.number().int().min(1).max(100).optional().describe("Maximum number of memories to return (default 20)"),
+            }),
+            execute: async ({ category, query, limit = 20 }) => {
+                try {
+                    log.info("TOOL CALL: listMemories", { category, query, limit });
+
+                    const memories = query?.trim()
+                        ? (await searchMemories(query, { category, limit })).map(result => result.memory)
+                        : await listMemories({ category, limit });
+
+                    return {
+                        count: memories.length,
+                        memories: memories.map(formatMemory),
+                    };
+                } catch (error) {
+                    log.error('[Tool] Error listing memories:', error);
+                    return { error: "Failed to list memories" };
+                }
+            },
+        });
+
+        log.info('✅ listMemories tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up listMemories tool');
+            unregisterToolUI('listMemories');
+        };
+    }, []);
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { saveMemory } from '@/memory';
+
+const log = createLogger("Actions-Memory-Save", "MEMORY_OPERATIONS");
+
+export function useSaveMemoryAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering saveMemory tool...');
+
+        registerTool({
+            name: "saveMemory",
+            description: `Save a fact about the user or a behavior preference to on-device memory. Saving an existing key replaces its value.
+
+WHEN TO USE:
+- User says "remember that...", "my X is Y", "from now on, always..."
+- User shares a stable preference or personal detail and agrees to have it saved
+- A task produced information the user wants to keep (e.g. a booking reference)
+
+PRECONDITIONS:
+- Ask the user before saving anything they didn't explicitly ask you to remember
+
+CATEGORIES:
+- fact: information about the user (name, location, preferences, accounts)
+- behavior: how the user wants you to respond (tone, format, language)
+
+LIMITATIONS:
+- Stored only in this browser; not synced across devices
+- One value per key (use specific keys like "user.favorite_cuisine")
+
+EXAMPLE: saveMemory(category="fact", key="user.name", value="John") -> {success: true, key: "user.name", message: "Saved user.name"}`,
+            parameters: z.object({
+                category: z.enum(['fact', 'behavior']).describe("'fact' for information about the user, 'behavior' for how the user wants you to respond"),
+                key: z.string().describe("Short dotted key describing the memory, e.g. 'user.name', 'preferences.reply_language'"),
+                value: z.string().describe("The information to remember, as a short self-contained sentence or value"),
+                source: z.enum(['user', 'task', 'system']).optional().describe("'user' when the user stated it (default), 'task' when learned while doing a task on a page"),
+                sourceUrl: z.string().optional().describe("URL of the page the information came from. Defaults to the active tab for 'task' memories."),
+            }),
+            execute: async ({ category, key, value, source = 'user', sourceUrl }) => {
+                try {
+                    log.info("TOOL CALL: saveMemory", { category, key, source });
+
+                    let url = sourceUrl;
+                    if (!url && source === 'task') {
+                        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+                        url = tab?.url;
+                    }
+
+                    const memory = await saveMemory({ key, value, category, source, sourceUrl: url });
+
+                    return {
+                        success: true,
+                        key: memory.key,
+                        category: memory.category,
+                        message: `Saved ${memory.key}`,
+                    };
+                } catch (error) {
+                    log.error('[Tool] Error saving memory:', error);
+                    return { error: error instanceof Error ? error.message : "Failed to save memory" };
+                }
+            },
+        });
+
+        log.info('✅ saveMemory tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up saveMemory tool');
+            unregisterToolUI('saveMemory');
+        };
+    }, []);
+}
@@ -3,11 +3,14 @@ import { useSelectionActions } from "./selection";
 import { registerInteractionActions } from "./interactions";
 import { useRegisterHistoryActions } from "./history";
 import { registerReminderActions } from "./reminder";
+import { registerMemoryActions } from "./memory";
+import { registerScheduledTaskActions } from "./scheduledTasks";
 import { registerReportActions } from "./reports";
 import { useScreenshotTool } from "./screenshot";
 import { registerYouTubeToNotionActions } from "./youtubeToNotion";
 import { registerBookmarkActions } from "./bookmarks";
 import { registerDomActions } from "./dom";
+import { registerAccessibilityActions } from "./accessibility";
 import { useWebSearch, useRetrieve, useDeepWebSearch } from "./search";
 
 export function useRegisterAllActions() {
@@ -18,11 +21,14 @@ export function useRegisterAllActions() {
   registerInteractionActions();
   useRegisterHistoryActions();
   registerReminderActions();
+  registerMemoryActions(); // On-device memory tools
+  registerScheduledTaskActions(); // Background agent runs on a schedule
   registerReportActions(); // Always register, but will be filtered in aiLogic.ts
   useScreenshotTool(); // Screenshot capture tool
   registerYouTubeToNotionActions(); // YouTube to Notion agent tool
   registerBookmarkActions(); // Bookmark management tools
   registerDomActions(); // DOM analysis and script execution tools
+  registerAccessibilityActions(); // Accessibility snapshots and ref-based interactions
   useWebSearch(); // Web search tool
   useRetrieve(); // URL content retrieval tool
   useDeepWebSearch(); // Deep web search with parallel queries
@@ -4,7 +4,7 @@ import { createLogger } from '~logger';
 import { CompactToolRenderer } from "@/ai/tools/components";
 import { registerTool } from '@/ai/tools';
 import { useToolUI } from '@/ai/tools/components';
-import { findReminder, deleteReminder } from "./storage";
+import { findReminder, removeReminder, skipReminderOccurrence } from "./storage";
 import type { ToolUIState } from '@/ai/tools/components';
 
 const log = createLogger("Actions-Reminders-Cancel");
@@ -17,12 +17,13 @@ export function useCancelReminderAction() {
 
         registerTool({
             name: "cancelReminder",
-            description: `Cancel an existing reminder by title or ID. Removes the reminder and clears the scheduled alarm.
+            description: `Cancel an existing reminder by title or ID. Removes the reminder and clears the scheduled alarm. For repeating reminders, can skip just the next occurrence instead.
 
 WHEN TO USE:
 - User asks to "cancel X reminder", "remove reminder for Y", "delete that reminder"
 - User changes plans and no longer needs the reminder
 - Correcting a mistake (cancel wrong reminder, will create new one)
+- "Skip tomorrow's standup reminder" -> onlyNext=true on a repeating reminder
 
 PRECONDITIONS:
 - Reminder must exist and be active
@@ -30,8 +31,8 @@ PRECONDITIONS:
 
 WORKFLOW:
 1. Search for reminder by title or ID
-2. Clear the scheduled browser alarm
-3. Delete reminder from storage
+2. onlyNext on a repeating reminder: move it to the following occurrence
+3. Otherwise clear the scheduled browser alarm and delete the reminder (the whole series if repeating)
 4. Return confirmation with reminder title
 
 LIMITATIONS:
@@ -39,24 +40,34 @@ LIMITATIONS:
 - Identifier must match title or ID exactly
 - Cannot cancel multiple reminders at once
 
-EXAMPLE: cancelReminder(identifier="workout") -> {success: true, title: "workout", message: "Reminder cancelled"}`,
+EXAMPLE: cancelReminder(identifier="workout") -> {success: true, title: "workout", message: "Reminder cancelled"}
+EXAMPLE: cancelReminder(identifier="standup", onlyNext=true) -> {success: true, title: "standup", message: "Skipped; next reminder Tue 9:45 AM"}`,
             parameters: z.object({
                 identifier: z.string().describe("Reminder title or ID to cancel. Can be the internal title (e.g., 'workout', 'call mom') or the UUID. Use listReminders first if unsure of exact identifier."),
+                onlyNext: z.boolean().optional().describe("For repeating reminders: skip only the next occurrence and keep the series (default false)"),
             }),
-            execute: async ({ identifier }) => {
+            execute: async ({ identifier, onlyNext = false }) => {
                 try {
-                    log.info("TOOL CALL: cancelReminder", { identifier });
+                    log.info("TOOL CALL: cancelReminder", { identifier, onlyNext });
                     const reminder = await findReminder(identifier);
 
                     if (!reminder) {
                         return { error: "Reminder not found" };
                     }
 
-                    // Cancel alarm
-                    await chrome.alarms.clear(`reminder:${reminder.id}`);
+                    if (onlyNext && reminder.recurrence) {
+                        const skipped = await skipReminderOccurrence(reminder.id);
+                        const next = new Date(skipped.when).toLocaleString();
+                        log.info('✅ Reminder occurrence skipped', { id: reminder.id, next });
+                        return {
+                            success: true,
+                            title: reminder.title,
+                            message: `Skipped; next reminder ${next}`,
+                        };
+                    }
 
-                    // Remove from storage
-                    await deleteReminder(reminder.id);
+                    // Clear the alarm and remove from storage
+                    await removeReminder(reminder.id);
 
                     log.info('✅ Reminder cancelled', { id: reminder.id, title: reminder.title });
 
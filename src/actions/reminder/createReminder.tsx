@@ -6,7 +6,8 @@ import { useToolUI } from '@/ai/tools/components';
 import type { ToolUIState } from '@/ai/tools/components';
 import { CompactToolRenderer } from '@/ai/tools/components';
 import { parseDateTimeToEpoch } from "./utils";
-import { saveReminder } from "./storage";
+import { saveReminder, scheduleReminderAlarm } from "./storage";
+import { alignToRecurrence, describeRecurrence, toRecurrence, DAY_NAMES, MIN_REMINDER_INTERVAL_MINUTES } from "./recurrence";
 import type { Reminder } from "./types";
 
 const log = createLogger("Actions-Reminders-Create");
@@ -25,6 +26,7 @@ WHEN TO USE:
 - User wants to be reminded about something at a specific time
 - Setting up time-based notifications for tasks, events, or activities
 - User says "remind me to X at Y time"
+- Repeating reminders: "every morning at 8", "every Monday and Thursday at 6pm", "every 2 hours"
 
 PRECONDITIONS:
 - MUST have SPECIFIC time from user (not just "tomorrow" or "today")
@@ -36,9 +38,10 @@ WORKFLOW:
 1. User requests reminder with specific time
 2. Generate catchy title with emoji (max 50 chars)
 3. Generate motivational description (max 100 chars)
-4. Parse dateTime to epoch timestamp
-5. Create reminder and schedule browser alarm
-6. Confirm to user with formatted time
+4. Parse dateTime to epoch timestamp (first occurrence for repeating reminders)
+5. Set repeat (and daysOfWeek / intervalMinutes) if the reminder repeats
+6. Create reminder and schedule browser alarm
+7. Confirm to user with formatted time and how it repeats
 
 TITLE/DESCRIPTION GUIDELINES:
 - Use emojis to make it engaging (💪 🎯 ❤️ 🚀 ⏰ 📚 etc.)
@@ -53,21 +56,27 @@ LIMITATIONS:
 - Requires specific time (not ambiguous "tomorrow")
 - Browser must support notifications and alarms
 - Reminder fires even if browser is closed (Chrome alarm API)
-- Cannot edit reminders after creation (must cancel and recreate)
+- The user can snooze or mark reminders done from the notification, and edit them in the Reminders panel
 
-EXAMPLE: createReminder(title="workout", dateTime="tomorrow at 6am", generatedTitle="💪 Time to Get Fit!", generatedDescription="Your body will thank you! Let's crush this workout!")`,
+EXAMPLE: createReminder(title="workout", dateTime="tomorrow at 6am", generatedTitle="💪 Time to Get Fit!", generatedDescription="Your body will thank you! Let's crush this workout!")
+EXAMPLE: createReminder(title="standup", dateTime="monday at 9:45am", repeat="weekdays", generatedTitle="🗣️ Standup Time", generatedDescription="Share your wins!")`,
             parameters: z.object({
                 title: z.string().describe("Short internal task reference (not shown to user). Examples: 'workout', 'apply for job', 'call mom', 'meeting prep'. Used for logging and identification."),
                 dateTime: z.string().describe("Natural language date/time WITH SPECIFIC TIME. Valid: 'tomorrow at 2pm', 'next Monday at 9am', 'today at 5pm', 'in 2 hours', 'Dec 25 at 10am'. Invalid: 'tomorrow', 'next week', 'later'. MUST include time component."),
                 generatedTitle: z.string().describe("REQUIRED: AI-generated catchy notification title (max 50 chars). Use emoji + action phrase. Examples: '💪 Time to Get Fit!', '🎯 Career Boost Time', '❤️ Connect with Loved Ones', '📚 Learning Time!'. This is the MAIN headline user sees in notification."),
                 generatedDescription: z.string().describe("REQUIRED: AI-generated motivational description (max 100 chars). Add context and encouragement. Examples: 'Your body will thank you! Let\\'s crush this workout!', 'Success is built one step at a time. You got this!', 'The best investment is time with family.' This is the notification body text."),
+                repeat: z.enum(['none', 'daily', 'weekdays', 'weekly', 'monthly', 'interval']).optional().describe("How the reminder repeats. Default 'none'. 'weekly' uses daysOfWeek (or the weekday of dateTime), 'monthly' repeats on the day of month of dateTime, 'interval' uses intervalMinutes."),
+                daysOfWeek: z.array(z.enum(DAY_NAMES)).optional().describe("Days for repeat='weekly', e.g. ['mon', 'thu']"),
+                intervalMinutes: z.number().int().min(MIN_REMINDER_INTERVAL_MINUTES).optional().describe("Minutes between reminders for repeat='interval', e.g. 120 for every 2 hours"),
             }),
-            execute: async ({ title, dateTime, generatedTitle, generatedDescription }) => {
+            execute: async ({ title, dateTime, generatedTitle, generatedDescription, repeat, daysOfWeek, intervalMinutes }) => {
                 try {
-                    log.info("TOOL CALL: createReminder", { title, dateTime, generatedTitle, generatedDescription });
+                    log.info("TOOL CALL: createReminder", { title, dateTime, generatedTitle, generatedDescription, repeat });
 
                     // Parse the dateTime string to epoch ms
-                    const when = parseDateTimeToEpoch(dateTime);
+                    const parsedWhen = parseDateTimeToEpoch(dateTime);
+                    const recurrence = toRecurrence(repeat, daysOfWeek, intervalMinutes, parsedWhen);
+                    const when = recurrence ? alignToRecurrence(recurrence, parsedWhen) : parsedWhen;
 
                     // Get current tab URL
                     const [tab] = await chrome.tabs.query({
@@ -85,15 +94,16 @@ EXAMPLE: createReminder(title="workout", dateTime="tomorrow at 6am", generatedTi
                         createdAt: Date.now(),
                         generatedTitle: generatedTitle.substring(0, 50),
                         generatedDescription: generatedDescription.substring(0, 100),
+                        recurrence,
                     };
 
                     // Save reminder
                     await saveReminder(reminder);
 
                     // Schedule alarm
-                    await chrome.alarms.create(`reminder:${id}`, { when });
+                    await scheduleReminderAlarm(reminder);
 
-                    log.info("✅ Reminder created", { id, title, when });
+                    log.info("✅ Reminder created", { id, title, when, recurrence });
 
                     return {
                         success: true,
@@ -102,7 +112,10 @@ EXAMPLE: createReminder(title="workout", dateTime="tomorrow at 6am", generatedTi
                         generatedTitle: reminder.generatedTitle,
                         generatedDescription: reminder.generatedDescription,
                         when: new Date(when).toLocaleString(),
-                        message: `Reminder set for ${new Date(when).toLocaleString()}`,
+                        repeats: recurrence ? describeRecurrence(recurrence, when) : undefined,
+                        message: recurrence
+                            ? `Reminder set for ${new Date(when).toLocaleString()}, repeating ${describeRecurrence(recurrence, when).toLowerCase()}`
+                            : `Reminder set for ${new Date(when).toLocaleString()}`,
                     };
                 } catch (error) {
                     log.error('[Tool] Error creating reminder:', error);
@@ -138,6 +151,14 @@ EXAMPLE: createReminder(title="workout", dateTime="tomorrow at 6am", generatedTi
                             {input.dateTime}
                         </span>
                     </div>
+                    {input.repeat && input.repeat !== 'none' && (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <span style={{ fontSize: '12px', opacity: 0.7 }}>Repeats:</span>
+                            <span style={{ fontSize: '11px', padding: '2px 6px', opacity: 0.9 }}>
+                                {input.repeat}
+                            </span>
+                        </div>
+                    )}
                     {input.generatedTitle && (
                         <div style={{
                             marginTop: '4px',
@@ -175,6 +196,14 @@ EXAMPLE: createReminder(title="workout", dateTime="tomorrow at 6am", generatedTi
                                     {output.when}
                                 </span>
                             </div>
+                            {output.repeats && (
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                    <span style={{ fontSize: '12px', opacity: 0.7 }}>Repeats:</span>
+                                    <span style={{ fontSize: '11px', padding: '2px 6px', opacity: 0.9 }}>
+                                        {output.repeats}
+                                    </span>
+                                </div>
+                            )}
                             <div style={{
                                 marginTop: '4px',
                                 padding: '6px 8px',
@@ -3,10 +3,25 @@ import { useEffect } from 'react';
 import { createLogger } from '~logger';
 import { registerTool } from '@/ai/tools';
 import { useToolUI } from '@/ai/tools/components';
-import { getActiveReminders } from "./storage";
+import { getActiveReminders, getPastReminders, getReminderFireTime } from "./storage";
+import { describeRecurrence } from "./recurrence";
+import type { Reminder } from "./types";
 
 const log = createLogger("Actions-Reminders-List");
 
+function formatReminder(r: Reminder) {
+    return {
+        id: r.id,
+        title: r.title,
+        when: new Date(getReminderFireTime(r)).toLocaleString(),
+        repeats: r.recurrence ? describeRecurrence(r.recurrence, r.when) : undefined,
+        snoozed: r.snoozedUntil !== undefined || undefined,
+        timesCompleted: r.recurrence ? r.completedCount ?? 0 : undefined,
+        completedAt: r.completedAt ? new Date(r.completedAt).toLocaleString() : undefined,
+        url: r.url,
+    };
+}
+
 export function useListRemindersAction() {
     const { unregisterToolUI } = useToolUI();
 
@@ -15,7 +30,7 @@ export function useListRemindersAction() {
 
         registerTool({
             name: "listReminders",
-            description: `List all active (scheduled) reminders. Shows upcoming reminders that haven't fired yet.
+            description: `List all active (scheduled) reminders, including repeating ones. Shows when each fires next and how it repeats.
 
 WHEN TO USE:
 - User asks "what reminders do I have?", "show my reminders", "list upcoming reminders"
@@ -27,31 +42,35 @@ PRECONDITIONS:
 
 WORKFLOW:
 1. Query storage for active reminders
-2. Filter out past/fired reminders
-3. Return list with id, title, scheduled time, and URL
-4. Sorted by scheduled time (soonest first)
+2. Filter out past/fired one-time reminders (unless includePast)
+3. Return list with id, title, next time, repeat rule, snooze state, completions and URL
+4. Sorted by next time (soonest first)
 
 LIMITATIONS:
-- Only shows active reminders (not past/fired ones)
 - Cannot filter by time range or title
 - Returns all active reminders (no pagination)
 
-EXAMPLE: listReminders() -> {count: 3, reminders: [{id: "...", title: "workout", when: "tomorrow at 6am", url: "..."}]}`,
-            parameters: z.object({}),
-            execute: async () => {
+EXAMPLE: listReminders() -> {count: 2, reminders: [{id: "...", title: "workout", when: "tomorrow at 6am"}, {id: "...", title: "standup", when: "Mon 9:45 AM", repeats: "Every weekday", timesCompleted: 4}]}`,
+            parameters: z.object({
+                includePast: z.boolean().optional().describe("Also list one-time reminders that already fired or were marked done (default false)"),
+            }),
+            execute: async ({ includePast = false }) => {
                 try {
-                    log.info("TOOL CALL: listReminders");
+                    log.info("TOOL CALL: listReminders", { includePast });
                     const activeReminders = await getActiveReminders();
-
-                    const formattedReminders = activeReminders.map((r) => ({
-                        id: r.id,
-                        title: r.title,
-                        when: new Date(r.when).toLocaleString(),
-                        url: r.url,
-                    }));
+                    const formattedReminders = activeReminders.map(formatReminder);
 
                     log.info('✅ Listed reminders', { count: formattedReminders.length });
 
+                    if (includePast) {
+                        const pastReminders = (await getPastReminders()).map(formatReminder);
+                        return {
+                            count: formattedReminders.length,
+                            reminders: formattedReminders,
+                            past: pastReminders,
+                        };
+                    }
+
                     return {
                         count: formattedReminders.length,
                         reminders: formattedReminders,
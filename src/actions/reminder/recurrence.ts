@@ -0,0 +1,161 @@
+import type { ReminderRecurrence } from "./types";
+
+export const MIN_REMINDER_INTERVAL_MINUTES = 5;
+
+export const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type DayName = (typeof DAY_NAMES)[number];
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const MINUTE = 60 * 1000;
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+}
+
+function ordinal(day: number): string {
+    const suffix = day % 10 === 1 && day !== 11 ? 'st'
+        : day % 10 === 2 && day !== 12 ? 'nd'
+            : day % 10 === 3 && day !== 13 ? 'rd'
+                : 'th';
+    return `${day}${suffix}`;
+}
+
+/**
+ * Check a recurrence rule
+ *
+ * @returns Error message, or null when valid
+ */
+export function validateRecurrence(recurrence: ReminderRecurrence): string | null {
+    if (recurrence.type === 'weekly') {
+        if (recurrence.days.length === 0) return 'Pick at least one day of the week';
+        if (recurrence.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) return 'Invalid day of the week';
+    }
+    if (recurrence.type === 'interval' && (!Number.isFinite(recurrence.minutes) || recurrence.minutes < MIN_REMINDER_INTERVAL_MINUTES)) {
+        return `Reminders can repeat at most every ${MIN_REMINDER_INTERVAL_MINUTES} minutes`;
+    }
+    return null;
+}
+
+/**
+ * Next occurrence of a recurring reminder strictly after `after`
+ *
+ * @param recurrence - Recurrence rule
+ * @param anchor - An earlier occurrence; sets the time of day, day of month or interval phase
+ * @param after - Usually now
+ */
+export function getNextOccurrence(recurrence: ReminderRecurrence, anchor: number, after: number): number {
+    if (anchor > after) return anchor;
+
+    if (recurrence.type === 'interval') {
+        const step = recurrence.minutes * MINUTE;
+        return anchor + (Math.floor((after - anchor) / step) + 1) * step;
+    }
+
+    const anchorDate = new Date(anchor);
+
+    if (recurrence.type === 'monthly') {
+        const day = anchorDate.getDate();
+        const candidate = new Date(after);
+        candidate.setDate(1);
+        candidate.setHours(anchorDate.getHours(), anchorDate.getMinutes(), 0, 0);
+        for (; ;) {
+            candidate.setDate(Math.min(day, daysInMonth(candidate.getFullYear(), candidate.getMonth())));
+            if (candidate.getTime() > after) return candidate.getTime();
+            candidate.setDate(1);
+            candidate.setMonth(candidate.getMonth() + 1);
+        }
+    }
+
+    const days = recurrence.type === 'weekly' ? recurrence.days : [0, 1, 2, 3, 4, 5, 6];
+    const candidate = new Date(after);
+    candidate.setHours(anchorDate.getHours(), anchorDate.getMinutes(), 0, 0);
+    // Any rule with at least one day matches within 8 days
+    for (let i = 0; i <= 7; i++) {
+        if (days.includes(candidate.getDay()) && candidate.getTime() > after) {
+            return candidate.getTime();
+        }
+        candidate.setDate(candidate.getDate() + 1);
+    }
+    throw new Error('Recurrence has no matching days');
+}
+
+/**
+ * First occurrence at or after `when`, e.g. moves a weekly reminder created
+ * for a Wednesday to the next day in its rule
+ */
+export function alignToRecurrence(recurrence: ReminderRecurrence, when: number): number {
+    if (recurrence.type === 'weekly' && !recurrence.days.includes(new Date(when).getDay())) {
+        return getNextOccurrence(recurrence, when, when);
+    }
+    return when;
+}
+
+/**
+ * Human-readable recurrence, e.g. "Every weekday" or "Every 2 hours"
+ *
+ * @param when - An occurrence, used for the day of month
+ */
+export function describeRecurrence(recurrence: ReminderRecurrence, when: number): string {
+    switch (recurrence.type) {
+        case 'daily':
+            return 'Every day';
+        case 'weekly': {
+            const days = [...recurrence.days].sort();
+            if (days.length === 7) return 'Every day';
+            if (days.join() === WEEKDAYS.join()) return 'Every weekday';
+            if (days.join() === '0,6') return 'Every weekend';
+            return `Every ${days.map(day => DAY_LABELS[day]).join(', ')}`;
+        }
+        case 'monthly':
+            return `Every month on the ${ordinal(new Date(when).getDate())}`;
+        case 'interval': {
+            const { minutes } = recurrence;
+            if (minutes % (24 * 60) === 0) return minutes === 24 * 60 ? 'Every day' : `Every ${minutes / (24 * 60)} days`;
+            if (minutes % 60 === 0) return minutes === 60 ? 'Every hour' : `Every ${minutes / 60} hours`;
+            return `Every ${minutes} minutes`;
+        }
+    }
+}
+
+/**
+ * Build a recurrence from createReminder tool arguments
+ *
+ * @returns undefined for one-time reminders
+ * @throws Error when the arguments don't describe a valid rule
+ */
+export function toRecurrence(
+    repeat: 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'interval' | undefined,
+    daysOfWeek: DayName[] | undefined,
+    intervalMinutes: number | undefined,
+    when: number
+): ReminderRecurrence | undefined {
+    let recurrence: ReminderRecurrence;
+    switch (repeat) {
+        case undefined:
+        case 'none':
+            return undefined;
+        case 'daily':
+        case 'monthly':
+            recurrence = { type: repeat };
+            break;
+        case 'weekdays':
+            recurrence = { type: 'weekly', days: [...WEEKDAYS] };
+            break;
+        case 'weekly':
+            recurrence = {
+                type: 'weekly',
+                days: daysOfWeek?.length ? [...new Set(daysOfWeek.map(day => DAY_NAMES.indexOf(day)))] : [new Date(when).getDay()],
+            };
+            break;
+        case 'interval':
+            if (!intervalMinutes) throw new Error('intervalMinutes is required when repeat is "interval"');
+            recurrence = { type: 'interval', minutes: intervalMinutes };
+            break;
+    }
+
+    const error = validateRecurrence(recurrence);
+    if (error) throw new Error(error);
+    return recurrence;
+}
@@ -1,4 +1,10 @@
-import type { Reminder } from "./types";
+import type { Reminder, ReminderRecurrence } from "./types";
+import { getNextOccurrence } from "./recurrence";
+
+export const REMINDER_ALARM_PREFIX = "reminder:";
+
+/** Delay used by the notification's snooze button */
+export const REMINDER_SNOOZE_MINUTES = 10;
 
 /**
  * Get all reminders from Chrome storage
@@ -51,7 +57,10 @@ function isReminder(candidate: unknown): candidate is Reminder {
     const optionalFieldsAreValid =
         (r.url === undefined || typeof r.url === "string") &&
         (r.generatedTitle === undefined || typeof r.generatedTitle === "string") &&
-        (r.generatedDescription === undefined || typeof r.generatedDescription === "string");
+        (r.generatedDescription === undefined || typeof r.generatedDescription === "string") &&
+        (r.recurrence === undefined || (typeof r.recurrence === "object" && r.recurrence !== null)) &&
+        (r.snoozedUntil === undefined || typeof r.snoozedUntil === "number") &&
+        (r.completedAt === undefined || typeof r.completedAt === "number");
 
     return optionalFieldsAreValid;
 }
@@ -75,7 +84,23 @@ export async function deleteReminder(id: string): Promise<void> {
 }
 
 /**
- * Get active reminders (future reminders only)
+ * Time the reminder's alarm fires next (snooze wins over the schedule)
+ */
+export function getReminderFireTime(reminder: Reminder): number {
+    return reminder.snoozedUntil ?? reminder.when;
+}
+
+/**
+ * Check whether a reminder will still fire
+ * Recurring reminders stay active until cancelled
+ */
+export function isReminderActive(reminder: Reminder, now: number = Date.now()): boolean {
+    if (reminder.completedAt) return false;
+    return !!reminder.recurrence || getReminderFireTime(reminder) > now;
+}
+
+/**
+ * Get active reminders, soonest first
  */
 export async function getActiveReminders(): Promise<Reminder[]> {
     const reminders = await getAllReminders();
@@ -83,16 +108,159 @@ export async function getActiveReminders(): Promise<Reminder[]> {
     const now = Date.now();
 
     return reminderList
-        .filter((r) => r.when > now)
-        .sort((a, b) => a.when - b.when);
+        .filter((r) => isReminderActive(r, now))
+        .sort((a, b) => getReminderFireTime(a) - getReminderFireTime(b));
+}
+
+/**
+ * Get one-time reminders that already fired or were marked done, most recent first
+ */
+export async function getPastReminders(): Promise<Reminder[]> {
+    const reminders = await getAllReminders();
+    const now = Date.now();
+    return Object.values(reminders)
+        .filter((r) => !isReminderActive(r, now))
+        .sort((a, b) => (b.completedAt ?? b.when) - (a.completedAt ?? a.when));
 }
 
 /**
- * Find a reminder by ID or title
+ * Create or replace the browser alarm for a reminder
+ */
+export async function scheduleReminderAlarm(reminder: Reminder): Promise<void> {
+    const name = REMINDER_ALARM_PREFIX + reminder.id;
+    await chrome.alarms.clear(name);
+    if (isReminderActive(reminder)) {
+        await chrome.alarms.create(name, { when: getReminderFireTime(reminder) });
+    }
+}
+
+/**
+ * Delete a reminder and clear its alarm
+ */
+export async function removeReminder(id: string): Promise<void> {
+    await chrome.alarms.clear(REMINDER_ALARM_PREFIX + id);
+    await deleteReminder(id);
+}
+
+/**
+ * Change a reminder's title, time or recurrence and reschedule it
+ * Clears any snooze, and reopens a completed one-time reminder
+ *
+ * @throws Error when the reminder doesn't exist
+ */
+export async function updateReminder(
+    id: string,
+    updates: Partial<Pick<Reminder, "title" | "generatedTitle" | "generatedDescription" | "when">> & {
+        recurrence?: ReminderRecurrence | null;
+    }
+): Promise<Reminder> {
+    const reminders = await getAllReminders();
+    const existing = reminders[id];
+    if (!existing) {
+        throw new Error("Reminder not found");
+    }
+
+    const { recurrence, ...fields } = updates;
+    const reminder: Reminder = {
+        ...existing,
+        ...fields,
+        recurrence: recurrence === null ? undefined : recurrence ?? existing.recurrence,
+        snoozedUntil: undefined,
+        completedAt: undefined,
+    };
+    await saveReminder(reminder);
+    await scheduleReminderAlarm(reminder);
+    return reminder;
+}
+
+/**
+ * Move a recurring reminder past its next occurrence
+ *
+ * @throws Error when the reminder doesn't exist or doesn't repeat
+ */
+export async function skipReminderOccurrence(id: string): Promise<Reminder> {
+    const reminders = await getAllReminders();
+    const existing = reminders[id];
+    if (!existing?.recurrence) {
+        throw new Error("Only repeating reminders can skip an occurrence");
+    }
+
+    const reminder: Reminder = {
+        ...existing,
+        snoozedUntil: undefined,
+        when: getNextOccurrence(existing.recurrence, existing.when, Math.max(existing.when, Date.now())),
+    };
+    await saveReminder(reminder);
+    await scheduleReminderAlarm(reminder);
+    return reminder;
+}
+
+/**
+ * Fire the reminder again after a delay
+ */
+export async function snoozeReminder(id: string, minutes: number): Promise<Reminder | null> {
+    const reminders = await getAllReminders();
+    const existing = reminders[id];
+    if (!existing) return null;
+
+    const reminder: Reminder = { ...existing, snoozedUntil: Date.now() + minutes * 60 * 1000 };
+    await saveReminder(reminder);
+    await scheduleReminderAlarm(reminder);
+    return reminder;
+}
+
+/**
+ * Mark a reminder done
+ * One-time reminders are kept as completed; recurring ones count the
+ * completion and keep their next occurrence
+ */
+export async function completeReminder(id: string): Promise<Reminder | null> {
+    const reminders = await getAllReminders();
+    const existing = reminders[id];
+    if (!existing) return null;
+
+    const now = Date.now();
+    const reminder: Reminder = existing.recurrence
+        ? {
+            ...existing,
+            snoozedUntil: undefined,
+            completedCount: (existing.completedCount ?? 0) + 1,
+            lastCompletedAt: now,
+        }
+        : { ...existing, snoozedUntil: undefined, completedAt: now };
+    await saveReminder(reminder);
+    await scheduleReminderAlarm(reminder);
+    return reminder;
+}
+
+/**
+ * Handle a reminder's alarm firing: clear the snooze and, for recurring
+ * reminders, move on to the next occurrence
+ *
+ * @returns The reminder as it was when it fired, or null if it no longer exists
+ */
+export async function advanceReminder(id: string): Promise<Reminder | null> {
+    const reminders = await getAllReminders();
+    const fired = reminders[id];
+    if (!fired) return null;
+
+    const now = Date.now();
+    const next: Reminder = { ...fired, snoozedUntil: undefined };
+    // A snooze firing doesn't consume an occurrence unless the occurrence has also passed
+    if (fired.recurrence && fired.when <= now) {
+        next.when = getNextOccurrence(fired.recurrence, fired.when, now);
+    }
+    await saveReminder(next);
+    await scheduleReminderAlarm(next);
+    return fired;
+}
+
+/**
+ * Find an active reminder by ID or title
  */
 export async function findReminder(identifier: string): Promise<Reminder | null> {
     const reminders = await getAllReminders();
-    const reminderList = Object.values(reminders);
+    const reminderList = Object.values(reminders).filter((r) => !r.completedAt);
 
     return (
         reminderList.find(
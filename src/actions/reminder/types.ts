@@ -1,11 +1,31 @@
+/**
+ * How a reminder repeats
+ * - daily / monthly: same time of day (and day of month) as the first occurrence
+ * - weekly: on the listed days (0 = Sunday)
+ * - interval: every N minutes from the first occurrence
+ */
+export type ReminderRecurrence =
+    | { type: 'daily' }
+    | { type: 'weekly'; days: number[] }
+    | { type: 'monthly' }
+    | { type: 'interval'; minutes: number };
+
 export interface Reminder {
     id: string;
     title: string;
-    when: number; // epoch ms
+    when: number; // epoch ms; next occurrence for recurring reminders
     url?: string;
     createdAt: number;
     generatedTitle?: string;
     generatedDescription?: string;
+    recurrence?: ReminderRecurrence;
+    /** Set while snoozed; the alarm fires at this time instead of `when` */
+    snoozedUntil?: number;
+    /** When a one-time reminder was marked done */
+    completedAt?: number;
+    /** Occurrences marked done (recurring reminders) */
+    completedCount?: number;
+    lastCompletedAt?: number;
 }
 
 export interface PendingConfirmation {
@@ -13,4 +33,3 @@ export interface PendingConfirmation {
     when: number;
     resolve: (value: { title: string; when: number } | null) => void;
 }
-
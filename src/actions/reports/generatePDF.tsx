@@ -55,6 +55,24 @@ function sanitizeText(text: string): string {
         .trim();
 }
 
+interface ReportSource {
+    id: number;
+    title: string;
+    url: string;
+}
+
+/**
+ * Replace inline [n](url) citations with [n] and list the sources at the end
+ */
+function appendSources(content: string, sources: ReportSource[]): string {
+    if (sources.length === 0) return content;
+    const body = content.replace(/\[(\d{1,2})\]\((https?:\/\/[^\s)]+)\)/g, '[$1]');
+    const list = [...sources]
+        .sort((a, b) => a.id - b.id)
+        .map(source => `- [${source.id}] ${source.title} - ${source.url}`);
+    return `${body.trimEnd()}\n\n## Sources\n${list.join('\n')}\n`;
+}
+
 /**
  * Parse markdown and generate PDF using jsPDF
  */
@@ -265,13 +283,21 @@ export function useGeneratePDFTool() {
                     .describe('The filename for the PDF file (without extension). Example: "research-report-2025"')
                     .optional()
                     .default('report'),
+                sources: z.array(z.object({
+                    id: z.number().describe('Citation id, e.g. from readTabs'),
+                    title: z.string(),
+                    url: z.string(),
+                }))
+                    .describe('Sources cited in the content as [id](url). Appends a numbered "Sources" list and shortens inline citations to [id].')
+                    .optional(),
             }),
-            execute: async ({ content, filename }) => {
+            execute: async ({ content, filename, sources }) => {
                 try {
                     const actualFilename = filename ?? 'report';
                     log.info('TOOL CALL: generatePDF', {
                         filenameLength: actualFilename.length,
-                        contentLength: content.length
+                        contentLength: content.length,
+                        sourceCount: sources?.length ?? 0
                     });
 
                     // Ensure filename doesn't have extension
@@ -279,7 +305,7 @@ export function useGeneratePDFTool() {
                     const fullFilename = `${cleanFilename}.pdf`;
 
                     // Generate PDF blob
-                    const pdfBlob = generatePDF(content);
+                    const pdfBlob = generatePDF(appendSources(content, sources ?? []));
 
                     // Create a blob URL for chat display (no auto-download)
                     const chatUrl = URL.createObjectURL(pdfBlob);
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { deleteScheduledTask, getScheduledTasks, setScheduledTaskEnabled } from '@/workflows/scheduled';
+
+const log = createLogger("Actions-ScheduledTasks-Cancel");
+
+export function useCancelScheduledTaskAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering cancelScheduledTask tool...');
+
+        registerTool({
+            name: "cancelScheduledTask",
+            description: `Delete or pause a scheduled agent task, identified by id or name.
+
+WHEN TO USE:
+- User asks to "stop", "cancel" or "delete" a scheduled task
+- User wants to pause a task for now (pass pause=true; it can be resumed in settings)
+
+PRECONDITIONS:
+- Use listScheduledTasks first if the task name is ambiguous
+
+EXAMPLE: cancelScheduledTask(identifier="Morning PRs") -> {success: true, name: "Morning PRs", action: "deleted"}`,
+            parameters: z.object({
+                identifier: z.string().describe("Task id, or part of its name"),
+                pause: z.boolean().optional().describe("Pause the task instead of deleting it (default false)"),
+            }),
+            execute: async ({ identifier, pause = false }) => {
+                try {
+                    log.info("TOOL CALL: cancelScheduledTask", { identifier, pause });
+
+                    const query = identifier.toLowerCase();
+                    const tasks = await getScheduledTasks();
+                    const task = tasks.find(t => t.id === identifier)
+                        ?? tasks.find(t => t.name.toLowerCase().includes(query));
+                    if (!task) {
+                        return { error: `No scheduled task matches "${identifier}"` };
+                    }
+
+                    if (pause) {
+                        await setScheduledTaskEnabled(task.id, false);
+                    } else {
+                        await deleteScheduledTask(task.id);
+                    }
+                    return { success: true, name: task.name, action: pause ? 'paused' : 'deleted' };
+                } catch (error) {
+                    log.error('[Tool] Error cancelling scheduled task:', error);
+                    return { error: "Failed to cancel scheduled task" };
+                }
+            },
+        });
+
+        log.info('✅ cancelScheduledTask tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up cancelScheduledTask tool');
+            unregisterToolUI('cancelScheduledTask');
+        };
+    }, []);
+}
@@ -0,0 +1,22 @@
+import type { ScheduledTask } from '@/workflows/scheduled';
+
+/**
+ * Shape of a scheduled task returned to the model
+ */
+export function formatScheduledTask(task: ScheduledTask) {
+    return {
+        id: task.id,
+        name: task.name,
+        prompt: task.prompt,
+        schedule: task.scheduleText,
+        workflow: task.workflowId,
+        tools: task.allowedTools.length > 0 ? task.allowedTools : 'default',
+        enabled: task.enabled,
+        nextRun: task.nextRunAt ? new Date(task.nextRunAt).toLocaleString() : null,
+        lastRun: task.lastRun && {
+            at: new Date(task.lastRun.at).toLocaleString(),
+            status: task.lastRun.status,
+            error: task.lastRun.error,
+        },
+    };
+}
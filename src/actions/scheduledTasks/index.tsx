@@ -0,0 +1,9 @@
+import { useScheduleTaskAction } from "./scheduleTask";
+import { useListScheduledTasksAction } from "./listScheduledTasks";
+import { useCancelScheduledTaskAction } from "./cancelScheduledTask";
+
+export function registerScheduledTaskActions() {
+    useScheduleTaskAction();
+    useListScheduledTasksAction();
+    useCancelScheduledTaskAction();
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { getScheduledTasks } from '@/workflows/scheduled';
+import { formatScheduledTask } from './format';
+
+const log = createLogger("Actions-ScheduledTasks-List");
+
+export function useListScheduledTasksAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering listScheduledTasks tool...');
+
+        registerTool({
+            name: "listScheduledTasks",
+            description: `List scheduled agent tasks with their schedule, next run and the outcome of the last run.
+
+WHEN TO USE:
+- User asks "what tasks do I have scheduled?", "when does my PR summary run next?"
+- Finding a task's id before cancelling it
+
+PRECONDITIONS:
+- None (returns empty list if nothing is scheduled)
+
+EXAMPLE: listScheduledTasks() -> {count: 1, tasks: [{id: "...", name: "Morning PRs", schedule: "every weekday at 9am", nextRun: "..."}]}`,
+            parameters: z.object({
+                includeDisabled: z.boolean().optional().describe("Also list paused and finished one-time tasks (default true)"),
+            }),
+            execute: async ({ includeDisabled = true }) => {
+                try {
+                    log.info("TOOL CALL: listScheduledTasks", { includeDisabled });
+
+                    const tasks = (await getScheduledTasks()).filter(task => includeDisabled || task.enabled);
+                    return {
+                        count: tasks.length,
+                        tasks: tasks.map(formatScheduledTask),
+                    };
+                } catch (error) {
+                    log.error('[Tool] Error listing scheduled tasks:', error);
+                    return { error: "Failed to list scheduled tasks" };
+                }
+            },
+        });
+
+        log.info('✅ listScheduledTasks tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up listScheduledTasks tool');
+            unregisterToolUI('listScheduledTasks');
+        };
+    }, []);
+}
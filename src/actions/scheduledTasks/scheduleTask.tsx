@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { createLogger } from '~logger';
+import { registerTool } from '@/ai/tools';
+import { useToolUI } from '@/ai/tools/components';
+import { saveScheduledTask, SCHEDULED_TASK_BROWSER_TOOLS } from '@/workflows/scheduled';
+import { formatScheduledTask } from './format';
+
+const log = createLogger("Actions-ScheduledTasks-Create");
+
+export function useScheduleTaskAction() {
+    const { unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering scheduleTask tool...');
+
+        registerTool({
+            name: "scheduleTask",
+            description: `Schedule an agent run that happens in the background, once or on a recurring schedule. Each run's result is saved as a new chat and the user gets a notification.
+
+WHEN TO USE:
+- User asks to do something regularly: "every weekday at 9am, summarize my open GitHub PR tabs"
+- User wants a workflow to run later or repeatedly: "every Monday run /research on battery tech"
+- Use createReminder instead when the user only wants to be notified, with no agent work
+
+PRECONDITIONS:
+- Confirm the schedule and what the task should do if the request is ambiguous
+
+WORKFLOW:
+1. Write the prompt as a self-contained instruction; the run has no access to this conversation
+2. Start the prompt with a slash command (e.g. "/research quantum batteries") to use a workflow
+3. Pass the schedule in plain words or as a cron expression
+
+LIMITATIONS:
+- Runs happen without the side panel, so only these browser tools are available: ${SCHEDULED_TASK_BROWSER_TOOLS.join(', ')}, plus connected MCP tools
+- Runs at most every 15 minutes
+
+EXAMPLE: scheduleTask(name="Morning PRs", prompt="Summarize my open GitHub pull request tabs", schedule="every weekday at 9am")`,
+            parameters: z.object({
+                name: z.string().describe("Short name shown in notifications and settings"),
+                prompt: z.string().describe("Self-contained instruction for each run; may start with a workflow slash command"),
+                schedule: z.string().describe('When to run, e.g. "every weekday at 9am", "every Monday at 8:30", "every 2 hours", "tomorrow at 5pm" or "0 9 * * 1-5"'),
+                tools: z.array(z.string()).optional().describe("Tool names the run may use; omit for the workflow's tools or all available tools"),
+            }),
+            execute: async ({ name, prompt, schedule, tools }) => {
+                try {
+                    log.info("TOOL CALL: scheduleTask", { name, schedule });
+
+                    const task = await saveScheduledTask({
+                        name,
+                        prompt,
+                        scheduleText: schedule,
+                        allowedTools: tools ?? [],
+                        enabled: true,
+                    });
+
+                    return { success: true, task: formatScheduledTask(task) };
+                } catch (error) {
+                    log.error('[Tool] Error scheduling task:', error);
+                    return { error: error instanceof Error ? error.message : "Failed to schedule task" };
+                }
+            },
+        });
+
+        log.info('✅ scheduleTask tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up scheduleTask tool');
+            unregisterToolUI('scheduleTask');
+        };
+    }, []);
+}
@@ -11,11 +11,14 @@ import { useToolUI } from '@/ai/tools/components';
 import { createLogger } from '~logger';
 import { CompactToolRenderer } from '@/ai/tools/components';
 import type { ToolUIState } from '@/ai/tools/components';
-import { createSearchProvider } from '@/search/providers';
+import { createSearchProviderChain, type SearchProvider } from '@/search/providers';
 import {
     getSearchSettings,
-    getApiKeyForProvider,
+    getSearchProviderChain,
+    type SearchSettings,
 } from '@/utils/settings/searchSettings';
+import { getCachedResults, setCachedResults, type SearchCacheRequest } from '@/search/cache';
+import { recordSearchSession } from '@/search/history';
 import type { SearchResults, SearchResultItem, SearchResultImage } from '@/search/types';
 
 const log = createLogger('Tool-DeepWebSearch');
@@ -61,16 +64,30 @@ interface DeepSearchResults extends SearchResults {
 
 async function executeSingleSearch(
     query: string,
-    apiKey: string,
-    providerType: 'tavily',
+    provider: SearchProvider,
+    settings: SearchSettings,
     maxResults: number,
     searchDepth: 'basic' | 'advanced',
     includeDomains: string[],
     excludeDomains: string[]
 ): Promise<SearchResults> {
-    const provider = createSearchProvider(providerType, apiKey);
+    const cacheRequest: SearchCacheRequest = {
+        query,
+        provider: settings.defaultProvider,
+        depth: searchDepth,
+        maxResults,
+        includeDomains,
+        excludeDomains,
+    };
     try {
-        return await provider.search(query, maxResults, searchDepth, includeDomains, excludeDomains);
+        const cached = settings.cacheEnabled ? await getCachedResults(cacheRequest) : null;
+        if (cached) return cached;
+
+        const results = await provider.search(query, maxResults, searchDepth, includeDomains, excludeDomains);
+        if (settings.cacheEnabled) {
+            await setCachedResults(cacheRequest, results, settings);
+        }
+        return results;
     } catch (error) {
         log.error('Single search failed', { query: query.substring(0, 50), error: error instanceof Error ? error.message : 'Unknown error' });
         return { results: [], images: [], query, number_of_results: 0 };
@@ -104,18 +121,19 @@ async function executeDeepWebSearch(input: DeepSearchParams): Promise<DeepSearch
     log.info('executeDeepWebSearch called', { queryCount: queries.length });
 
     const settings = await getSearchSettings();
-    const apiKey = await getApiKeyForProvider(settings.defaultProvider);
+    const chain = await getSearchProviderChain(settings);
 
-    if (!apiKey) {
+    if (chain.length === 0) {
         log.warn('No API key configured');
         return { results: [], images: [], query: queries.join(' | '), number_of_results: 0, executed_queries: queries, unique_results: 0 };
     }
 
+    const provider = createSearchProviderChain(chain);
     const searchDepth = search_depth ?? 'advanced';
     const resultsPerQuery = Math.max(5, Math.floor(15 / queries.length));
 
     const searchPromises = queries.map((query) =>
-        executeSingleSearch(query, apiKey, settings.defaultProvider, resultsPerQuery, searchDepth, include_domains ?? [], exclude_domains ?? [])
+        executeSingleSearch(query, provider, settings, resultsPerQuery, searchDepth, include_domains ?? [], exclude_domains ?? [])
     );
 
     try {
@@ -133,7 +151,7 @@ async function executeDeepWebSearch(input: DeepSearchParams): Promise<DeepSearch
 
         log.info('Deep search completed', { totalBefore: combinedResults.length, unique: uniqueResults.length });
 
-        return {
+        const deepResults: DeepSearchResults = {
             results: uniqueResults,
             images: uniqueImages,
             query: queries.join(' | '),
@@ -141,6 +159,22 @@ async function executeDeepWebSearch(input: DeepSearchParams): Promise<DeepSearch
             executed_queries: queries,
             unique_results: uniqueResults.length,
         };
+
+        await recordSearchSession({
+            kind: 'deep-search',
+            queries,
+            provider: settings.defaultProvider,
+            depth: searchDepth,
+            results: {
+                results: deepResults.results,
+                images: deepResults.images,
+                query: deepResults.query,
+                number_of_results: deepResults.number_of_results,
+            },
+            fromCache: false,
+        });
+
+        return deepResults;
     } catch (error) {
         log.error('Deep search failed', { error: error instanceof Error ? error.message : 'Unknown error' });
         return { results: [], images: [], query: queries.join(' | '), number_of_results: 0, executed_queries: queries, unique_results: 0 };
@@ -13,6 +13,8 @@ import { CompactToolRenderer } from '@/ai/tools/components';
 import type { ToolUIState } from '@/ai/tools/components';
 import { retrieveSchema, type RetrieveParams } from '@/search/schema';
 import { RETRIEVE_API_URL } from '@/constants';
+import { getCachedPage, setCachedPage } from '@/search/cache';
+import { getSearchSettings } from '@/utils/settings/searchSettings';
 import type { SearchResults } from '@/search/types';
 
 const log = createLogger('Tool-Retrieve');
@@ -86,6 +88,13 @@ async function executeRetrieve(input: RetrieveParams): Promise<SearchResults> {
 
     log.info('Executing URL retrieve', { url: url.substring(0, 100) });
 
+    const settings = await getSearchSettings();
+    const cached = settings.cacheEnabled ? await getCachedPage(url) : null;
+    if (cached) {
+        log.info('URL retrieve served from cache', { url: url.substring(0, 100) });
+        return cached;
+    }
+
     const results = await fetchJinaReaderData(url);
 
     if (!results) {
@@ -98,6 +107,10 @@ async function executeRetrieve(input: RetrieveParams): Promise<SearchResults> {
         };
     }
 
+    if (settings.cacheEnabled) {
+        await setCachedPage(url, results, settings);
+    }
+
     log.info('URL retrieve completed', {
         title: results.results[0]?.title?.substring(0, 50),
         contentLength: results.results[0]?.content?.length,
@@ -11,11 +11,13 @@ import { useToolUI } from '@/ai/tools/components';
 import { createLogger } from '~logger';
 import { CompactToolRenderer } from '@/ai/tools/components';
 import type { ToolUIState } from '@/ai/tools/components';
-import { createSearchProvider } from '@/search/providers';
+import { createSearchProviderChain } from '@/search/providers';
 import { searchSchema, type SearchParams } from '@/search/schema';
+import { getCachedResults, setCachedResults, type SearchCacheRequest } from '@/search/cache';
+import { recordSearchSession } from '@/search/history';
 import {
     getSearchSettings,
-    getApiKeyForProvider,
+    getSearchProviderChain,
 } from '@/utils/settings/searchSettings';
 import type { SearchResults } from '@/search/types';
 
@@ -76,9 +78,9 @@ async function executeWebSearch(input: SearchParams): Promise<SearchResults> {
         provider: settings.defaultProvider,
     });
     
-    const apiKey = await getApiKeyForProvider(settings.defaultProvider);
+    const chain = await getSearchProviderChain(settings);
 
-    if (!apiKey) {
+    if (chain.length === 0) {
         log.warn('No API key configured for search provider', {
             provider: settings.defaultProvider,
         });
@@ -90,7 +92,7 @@ async function executeWebSearch(input: SearchParams): Promise<SearchResults> {
         };
     }
 
-    const provider = createSearchProvider(settings.defaultProvider, apiKey);
+    const provider = createSearchProviderChain(chain);
 
     const maxResults = max_results ?? settings.maxResults;
     const searchDepth = search_depth ?? settings.defaultSearchDepth;
@@ -101,17 +103,42 @@ async function executeWebSearch(input: SearchParams): Promise<SearchResults> {
         settings_defaultSearchDepth: settings.defaultSearchDepth,
         final_searchDepth: searchDepth,
         maxResults,
-        provider: settings.defaultProvider,
+        providers: chain.map((c) => c.type),
     });
 
+    const cacheRequest: SearchCacheRequest = {
+        query,
+        provider: settings.defaultProvider,
+        depth: searchDepth,
+        maxResults,
+        includeDomains: include_domains,
+        excludeDomains: exclude_domains,
+    };
+
     try {
-        const results = await provider.search(
-            query,
-            maxResults,
-            searchDepth,
-            include_domains ?? [],
-            exclude_domains ?? []
-        );
+        const cached = settings.cacheEnabled ? await getCachedResults(cacheRequest) : null;
+        const results =
+            cached ??
+            (await provider.search(
+                query,
+                maxResults,
+                searchDepth,
+                include_domains ?? [],
+                exclude_domains ?? []
+            ));
+
+        if (!cached && settings.cacheEnabled) {
+            await setCachedResults(cacheRequest, results, settings);
+        }
+
+        await recordSearchSession({
+            kind: 'search',
+            queries: [query],
+            provider: settings.defaultProvider,
+            depth: searchDepth,
+            results,
+            fromCache: Boolean(cached),
+        });
 
         // Filter out images if disabled in settings
         if (!settings.includeImages) {
@@ -121,6 +148,7 @@ async function executeWebSearch(input: SearchParams): Promise<SearchResults> {
         log.info('Web search completed', {
             resultCount: results.results.length,
             imageCount: results.images.length,
+            fromCache: Boolean(cached),
         });
 
         return results;
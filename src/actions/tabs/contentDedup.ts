@@ -0,0 +1,90 @@
+/**
+ * Content Deduplication
+ * Removes repeated paragraphs across sources read together and flags
+ * sources that are near-copies of an earlier one (syndicated articles, mirrors)
+ */
+
+/** Word n-gram size used to fingerprint a source */
+const SHINGLE_SIZE = 5;
+
+/** Jaccard similarity above which two sources count as the same content */
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+/** Paragraphs shorter than this (normalized) are kept even if repeated, e.g. "Overview" */
+const MIN_DEDUPE_LENGTH = 40;
+
+export interface DedupeInput {
+    paragraphs: string[];
+}
+
+export interface DedupeOutput {
+    paragraphs: string[];
+    /** Paragraphs dropped because an earlier source (or this one) already had them */
+    removedParagraphs: number;
+    /** Index of the earlier source this one nearly duplicates */
+    duplicateOf?: number;
+}
+
+function normalizeText(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function getShingles(text: string): Set<string> {
+    const words = normalizeText(text).split(' ').filter(Boolean);
+    const shingles = new Set<string>();
+    if (words.length < SHINGLE_SIZE) {
+        if (words.length > 0) shingles.add(words.join(' '));
+        return shingles;
+    }
+    for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+        shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+    let shared = 0;
+    for (const shingle of smaller) {
+        if (larger.has(shingle)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Deduplicate sources in reading order: earlier sources win
+ */
+export function dedupeSources(sources: DedupeInput[]): DedupeOutput[] {
+    const seenParagraphs = new Set<string>();
+    const fingerprints: Array<{ index: number; shingles: Set<string> }> = [];
+
+    return sources.map((source, index) => {
+        const shingles = getShingles(source.paragraphs.join(' '));
+        const match = fingerprints.find(previous => jaccard(previous.shingles, shingles) >= NEAR_DUPLICATE_THRESHOLD);
+        if (match) {
+            return { paragraphs: [], removedParagraphs: source.paragraphs.length, duplicateOf: match.index };
+        }
+        fingerprints.push({ index, shingles });
+
+        const paragraphs: string[] = [];
+        let removedParagraphs = 0;
+        for (const paragraph of source.paragraphs) {
+            const key = normalizeText(paragraph);
+            if (!key) continue;
+            if (key.length >= MIN_DEDUPE_LENGTH) {
+                if (seenParagraphs.has(key)) {
+                    removedParagraphs++;
+                    continue;
+                }
+                seenParagraphs.add(key);
+            }
+            paragraphs.push(paragraph);
+        }
+        return { paragraphs, removedParagraphs };
+    });
+}
@@ -5,6 +5,7 @@ import { useGetAllTabs } from './getAllTabs';
 import { useApplyTabGroups } from './applyTabGroups';
 import { useUngroupTabs } from './ungroupTabs';
 import { useOrganizeTabsByContextTool } from './organizeTabsByContext';
+import { useReadTabsTool } from './readTabs';
 
 
 export function registerTabActions() {
@@ -16,4 +17,5 @@ export function registerTabActions() {
   useApplyTabGroups();
   useUngroupTabs();
   useOrganizeTabsByContextTool();
+  useReadTabsTool();
 }
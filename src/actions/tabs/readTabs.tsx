@@ -0,0 +1,201 @@
+/**
+ * ReadTabs Tool
+ * Reads several tabs or URLs in parallel in the background, drops repeated content,
+ * and numbers each source so answers and reports can cite it
+ */
+
+import { z } from 'zod';
+import { useEffect } from 'react';
+import { registerTool } from '@/ai/tools';
+import { useToolUI, CompactToolRenderer } from '@/ai/tools/components';
+import type { ToolUIState } from '@/ai/tools/components';
+import { CitationList } from '@/components/features/chat/components/search';
+import { getCitationKey, registerCitationSource, type CitationSource } from '@/utils/citations';
+import { createLogger } from '~logger';
+import { dedupeSources } from './contentDedup';
+import { readSources, type SourceRequest } from './tabReader';
+
+const log = createLogger('Tool-ReadTabs');
+
+const MAX_SOURCES = 10;
+const DEFAULT_MAX_CHARS = 4000;
+
+interface ReadTabsSource {
+    /** Citation number, stable for the rest of the conversation */
+    id?: number;
+    tabId?: number;
+    title: string;
+    url: string;
+    content: string;
+    truncated: boolean;
+    removedParagraphs: number;
+    /** Citation number of the source this one repeats */
+    duplicateOf?: number;
+    error?: string;
+}
+
+interface ReadTabsOutput {
+    success: boolean;
+    sources: ReadTabsSource[];
+    citationSources: CitationSource[];
+    message: string;
+}
+
+/**
+ * Join paragraphs up to the limit without cutting one in half where possible
+ */
+function joinWithinLimit(paragraphs: string[], maxChars: number): { content: string; truncated: boolean } {
+    let content = '';
+    for (const paragraph of paragraphs) {
+        const next = content ? `${content}\n\n${paragraph}` : paragraph;
+        if (next.length > maxChars) {
+            return { content: content || paragraph.slice(0, maxChars), truncated: true };
+        }
+        content = next;
+    }
+    return { content, truncated: false };
+}
+
+/**
+ * Hook to register the readTabs tool
+ */
+export function useReadTabsTool() {
+    const { registerToolUI, unregisterToolUI } = useToolUI();
+
+    useEffect(() => {
+        log.info('🔧 Registering readTabs tool...');
+
+        registerTool({
+            name: 'readTabs',
+            description: `Read up to ${MAX_SOURCES} tabs or URLs at once, in parallel and in the background, without switching tabs.
+USE: Reading several sources for research or comparison, e.g. every tab opened by openSearchResult. Much faster than switchTabs + readPageContent per tab.
+REQUIRES: tabIds (from openSearchResult/getAllTabs) and/or urls. URLs that aren't open are loaded in a background tab and closed afterwards.
+BEHAVIOR: Strips navigation/ads, removes paragraphs already returned for an earlier source, and marks near-identical pages with duplicateOf instead of repeating them. Each source gets a citation id that stays the same for the whole conversation.
+CITING: Cite facts as [id](url), e.g. [2](https://example.com/article). Pass the same ids as sources to generatePDF.
+LIMITS: http(s) pages only. Content per source is capped by maxCharsPerSource.
+EXAMPLE: readTabs(tabIds=[101, 102, 103]) or readTabs(urls=["https://react.dev/learn", "https://vuejs.org/guide"])`,
+            parameters: z.object({
+                tabIds: z.array(z.number())
+                    .max(MAX_SOURCES)
+                    .describe('Tab IDs to read (from openSearchResult, getAllTabs, or other tools)')
+                    .optional(),
+                urls: z.array(z.string())
+                    .max(MAX_SOURCES)
+                    .describe('URLs to read. Open tabs with the same URL are reused.')
+                    .optional(),
+                maxCharsPerSource: z.number()
+                    .min(500)
+                    .max(20000)
+                    .describe(`Maximum characters returned per source. Default: ${DEFAULT_MAX_CHARS}`)
+                    .optional()
+                    .default(DEFAULT_MAX_CHARS),
+            }).refine(
+                (data) => (data.tabIds?.length ?? 0) + (data.urls?.length ?? 0) > 0,
+                { message: 'Provide at least one tab ID or URL to read' }
+            ).refine(
+                (data) => (data.tabIds?.length ?? 0) + (data.urls?.length ?? 0) <= MAX_SOURCES,
+                { message: `Read at most ${MAX_SOURCES} sources per call` }
+            ),
+            execute: async ({ tabIds = [], urls = [], maxCharsPerSource = DEFAULT_MAX_CHARS }, abortSignal): Promise<ReadTabsOutput> => {
+                log.info('TOOL CALL: readTabs', { tabIds, urls, maxCharsPerSource });
+
+                const requests: SourceRequest[] = [
+                    ...tabIds.map((tabId: number) => ({ tabId })),
+                    ...urls.map((url: string) => ({ url })),
+                ];
+                const results = await readSources(requests, abortSignal);
+                if (abortSignal?.aborted) throw new Error('Operation cancelled');
+
+                // The same page requested twice (by tab and by URL) is read once
+                const firstByKey = new Map<string, number>();
+                const sameUrlAs = results.map((result, index) => {
+                    if (result.error) return undefined;
+                    const key = getCitationKey(result.url);
+                    const first = firstByKey.get(key);
+                    if (first === undefined) firstByKey.set(key, index);
+                    return first;
+                });
+
+                const deduped = dedupeSources(results.map((result, index) => ({
+                    paragraphs: result.error || sameUrlAs[index] !== undefined ? [] : result.paragraphs,
+                })));
+
+                const ids: Array<number | undefined> = [];
+                const citationSources: CitationSource[] = [];
+                const sources = results.map((result, index): ReadTabsSource => {
+                    const base = { tabId: result.tabId, title: result.title, url: result.url };
+                    const sameUrl = sameUrlAs[index];
+                    const dedupe = deduped[index];
+                    const duplicateIndex = sameUrl ?? dedupe?.duplicateOf;
+
+                    if (result.error || !dedupe) {
+                        return { ...base, content: '', truncated: false, removedParagraphs: 0, error: result.error ?? 'Failed to read' };
+                    }
+                    if (duplicateIndex !== undefined) {
+                        ids[index] = ids[duplicateIndex];
+                        return {
+                            ...base,
+                            content: '',
+                            truncated: false,
+                            removedParagraphs: result.paragraphs.length,
+                            duplicateOf: ids[index],
+                        };
+                    }
+
+                    const { content, truncated } = joinWithinLimit(dedupe.paragraphs, maxCharsPerSource);
+                    const citation = registerCitationSource(result.url, result.title, content.slice(0, 200));
+                    ids[index] = citation?.number;
+                    if (citation && !citationSources.some(source => source.number === citation.number)) {
+                        citationSources.push(citation);
+                    }
+                    return { ...base, id: citation?.number, content, truncated, removedParagraphs: dedupe.removedParagraphs };
+                });
+
+                const read = sources.filter(source => !source.error && source.duplicateOf === undefined).length;
+                const duplicates = sources.filter(source => source.duplicateOf !== undefined).length;
+                const failed = sources.filter(source => source.error).length;
+                log.info('✅ readTabs complete', { read, duplicates, failed });
+
+                return {
+                    success: read > 0,
+                    sources,
+                    citationSources,
+                    message: `Read ${read} of ${sources.length} sources` +
+                        (duplicates ? `, ${duplicates} duplicate` : '') +
+                        (failed ? `, ${failed} failed` : '') +
+                        '. Cite facts as [id](url).',
+                };
+            },
+        });
+
+        registerToolUI('readTabs', (state: ToolUIState) => {
+            return <CompactToolRenderer state={state} />;
+        }, {
+            renderInput: (input: { tabIds?: number[]; urls?: string[] }) => (
+                <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    Reading {(input.tabIds?.length ?? 0) + (input.urls?.length ?? 0)} sources in parallel
+                </div>
+            ),
+            renderOutput: (output: ReadTabsOutput) => (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                    <span>{output.message}</span>
+                    {output.sources?.filter(source => source.error).map((source, index) => (
+                        <span key={index} style={{ opacity: 0.7 }}>
+                            {source.url || `Tab ${source.tabId}`}: {source.error}
+                        </span>
+                    ))}
+                    {output.citationSources?.length > 0 && (
+                        <CitationList sources={output.citationSources} defaultCollapsed={false} />
+                    )}
+                </div>
+            ),
+        });
+
+        log.info('✅ readTabs tool registration complete');
+
+        return () => {
+            log.info('🧹 Cleaning up readTabs tool');
+            unregisterToolUI('readTabs');
+        };
+    }, []);
+}
@@ -0,0 +1,200 @@
+/**
+ * Tab Reader
+ * Reads the main text of several tabs or URLs concurrently without switching focus.
+ * URLs that aren't already open are loaded in background tabs and closed afterwards.
+ */
+
+import { createLogger } from '~logger';
+import { getCitationKey } from '@/utils/citations';
+import { safeTabCreate, safeTabGet, safeTabsQuery } from '../chromeApi/tabs';
+
+const log = createLogger('Actions-Tabs-Reader');
+
+/** Background tabs are cheap, but loading too many pages at once starves the browser */
+const READ_CONCURRENCY = 4;
+const PAGE_LOAD_TIMEOUT_MS = 20000;
+const PAGE_LOAD_POLL_MS = 300;
+
+export interface SourceRequest {
+    tabId?: number;
+    url?: string;
+}
+
+export interface SourceReadResult {
+    request: SourceRequest;
+    tabId?: number;
+    title: string;
+    url: string;
+    paragraphs: string[];
+    error?: string;
+}
+
+interface PageText {
+    title: string;
+    url: string;
+    paragraphs: string[];
+}
+
+/**
+ * Injected into the page: pulls the main content as paragraphs, without boilerplate.
+ * Must stay self-contained.
+ */
+function extractPageText(): PageText {
+    const boilerplate = [
+        'script', 'style', 'noscript', 'iframe', 'embed', 'object',
+        'svg', 'canvas', 'map', 'video', 'audio', 'picture',
+        'nav', 'footer', 'aside', 'form', 'button', 'input', 'select', 'textarea',
+        '[role="banner"]', '[role="navigation"]', '[role="complementary"]',
+        '[role="contentinfo"]', '[aria-hidden="true"]', '[hidden]',
+        '.ad', '.ads', '.advertisement', '.cookie-banner', '.popup',
+        '.sidebar', '.widget', '.comment', '.comments', '.social-share'
+    ];
+    const blocks = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, td, th, dt, dd, figcaption';
+    const maxChars = 100000;
+    const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+    // Prefer the largest article/main container when it holds real content
+    let root: Element = document.body;
+    let rootLength = 0;
+    document.querySelectorAll('article, main, [role="main"]').forEach(candidate => {
+        const length = (candidate.textContent ?? '').length;
+        if (length > rootLength) {
+            root = candidate;
+            rootLength = length;
+        }
+    });
+    if (rootLength < 500) root = document.body;
+
+    const clone = root.cloneNode(true) as Element;
+    boilerplate.forEach(selector => {
+        clone.querySelectorAll(selector).forEach(element => element.remove());
+    });
+
+    const paragraphs: string[] = [];
+    let total = 0;
+    for (const block of Array.from(clone.querySelectorAll(blocks))) {
+        // Nested blocks (a <p> inside an <li>) are covered by their outermost block
+        if (block.parentElement?.closest(blocks)) continue;
+        const text = clean(block.textContent ?? '');
+        if (!text) continue;
+        const level = /^H([1-6])$/.exec(block.tagName)?.[1];
+        paragraphs.push(level ? `${'#'.repeat(Number(level))} ${text}` : text);
+        total += text.length;
+        if (total > maxChars) break;
+    }
+
+    // Pages built from bare divs have no block elements; fall back to rendered lines
+    if (total < 200) {
+        const text = (root as HTMLElement).innerText || clone.textContent || '';
+        return {
+            title: document.title,
+            url: window.location.href,
+            paragraphs: text.slice(0, maxChars).split(/\n+/).map(clean).filter(Boolean),
+        };
+    }
+
+    return { title: document.title, url: window.location.href, paragraphs };
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isReadableUrl(url: string): boolean {
+    return /^https?:\/\//i.test(url) && !url.includes('chrome.google.com/webstore');
+}
+
+/**
+ * Wait until a tab has finished loading, or give up after a timeout
+ */
+async function waitForTabLoad(tabId: number, abortSignal?: AbortSignal): Promise<chrome.tabs.Tab | null> {
+    const deadline = Date.now() + PAGE_LOAD_TIMEOUT_MS;
+    let tab = await safeTabGet(tabId);
+    while (tab && tab.status !== 'complete' && Date.now() < deadline && !abortSignal?.aborted) {
+        await delay(PAGE_LOAD_POLL_MS);
+        tab = await safeTabGet(tabId);
+    }
+    return tab;
+}
+
+async function findOpenTab(url: string): Promise<chrome.tabs.Tab | undefined> {
+    const key = getCitationKey(url);
+    const tabs = await safeTabsQuery({});
+    return tabs.find(tab => tab.id !== undefined && tab.url && getCitationKey(tab.url) === key);
+}
+
+async function readSource(request: SourceRequest, abortSignal?: AbortSignal): Promise<SourceReadResult> {
+    const failed = (error: string, url = request.url ?? ''): SourceReadResult => ({
+        request,
+        tabId: request.tabId,
+        title: '',
+        url,
+        paragraphs: [],
+        error,
+    });
+
+    let tabId: number | undefined;
+    let openedTabId: number | undefined;
+
+    try {
+        if (request.tabId !== undefined) {
+            const tab = await safeTabGet(request.tabId);
+            if (!tab) return failed(`Tab ${request.tabId} not found`);
+            // Discarded tabs keep their title but have no document to read
+            if (tab.discarded) await chrome.tabs.reload(request.tabId);
+            tabId = request.tabId;
+        } else if (request.url) {
+            if (!isReadableUrl(request.url)) return failed('Only http(s) pages can be read');
+            const existing = await findOpenTab(request.url);
+            if (existing?.id !== undefined) {
+                if (existing.discarded) await chrome.tabs.reload(existing.id);
+                tabId = existing.id;
+            } else {
+                const created = await safeTabCreate({ url: request.url, active: false });
+                tabId = openedTabId = created.id;
+            }
+        }
+        if (tabId === undefined) return failed('No tab ID or URL given');
+
+        const tab = await waitForTabLoad(tabId, abortSignal);
+        if (!tab) return failed('Tab was closed while loading');
+        if (abortSignal?.aborted) return failed('Operation cancelled', tab.url);
+        if (!tab.url || !isReadableUrl(tab.url)) {
+            return failed(`Cannot read restricted page: ${tab.url || 'unknown URL'}`, tab.url);
+        }
+
+        const [injection] = await chrome.scripting.executeScript({
+            target: { tabId },
+            func: extractPageText,
+        });
+        const page = injection?.result as PageText | undefined;
+        if (!page) return failed('Failed to extract page content', tab.url);
+
+        return { request, tabId, title: page.title || tab.title || page.url, url: page.url, paragraphs: page.paragraphs };
+    } catch (error) {
+        log.warn('Failed to read source', { request, error });
+        return failed(error instanceof Error ? error.message : String(error));
+    } finally {
+        if (openedTabId !== undefined) {
+            await chrome.tabs.remove(openedTabId).catch(() => undefined);
+        }
+    }
+}
+
+/**
+ * Read every source, a few at a time. Results keep the order of the requests.
+ */
+export async function readSources(requests: SourceRequest[], abortSignal?: AbortSignal): Promise<SourceReadResult[]> {
+    const results: SourceReadResult[] = new Array(requests.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < requests.length) {
+            const index = next++;
+            results[index] = await readSource(requests[index] as SourceRequest, abortSignal);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, requests.length) }, worker));
+    return results;
+}
@@ -24,7 +24,7 @@ import { getAllTools } from '../../tools/registryUtils';
 import { convertAllTools } from '../../geminiLive/toolConverter';
 import { getYouTubeTranscript } from '../youtube';
 import { BROWSER_ACTION_AGENT_SYSTEM_INSTRUCTION, BROWSER_ACTION_TOOL_DESCRIPTION } from './prompts';
-import { initializeGenAIClient } from '../../core/genAIFactory';
+import { GEN_AI_UNSUPPORTED_MESSAGE, initializeGenAIClient, isGenAIAvailable } from '../../core/genAIFactory';
 
 const log = createLogger('Browser-Action-Agent');
 
@@ -368,6 +368,10 @@ export const browserActionAgentDeclaration: FunctionDeclaration = {
 export async function executeBrowserActionAgent(args: { taskDescription: string }, abortSignal?: AbortSignal): Promise<any> {
     log.info('🎯 Browser Action Agent called', { taskDescription: args.taskDescription });
 
+    if (!(await isGenAIAvailable())) {
+        return { success: false, error: GEN_AI_UNSUPPORTED_MESSAGE, taskDescription: args.taskDescription };
+    }
+
     try {
         const result = await executeBrowserTask(args.taskDescription, abortSignal);
 
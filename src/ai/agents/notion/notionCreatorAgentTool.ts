@@ -7,6 +7,7 @@
 
 import { createLogger } from '~logger';
 import { executeNotionCreatorAgent } from './notionCreatorAgent';
+import { GEN_AI_UNSUPPORTED_MESSAGE, isGenAIAvailable } from '../../core/genAIFactory';
 import type { NotionCreatorInput, NotionCreatorOutput } from './types';
 import type { FunctionDeclaration } from '@google/genai';
 
@@ -100,6 +101,11 @@ export async function executeNotionCreator(args: NotionCreatorInput): Promise<No
         hasParentPageId: !!args.parentPageId
     });
 
+    // The agent runs on the Gen AI SDK, which only talks to Google AI and Vertex AI
+    if (!(await isGenAIAvailable())) {
+        return { success: false, message: GEN_AI_UNSUPPORTED_MESSAGE, error: 'PROVIDER_NOT_SUPPORTED' };
+    }
+
     try {
         // Validate input
         if (!args.mainPageTitle || !args.videoUrl || !args.nestedPages) {
@@ -1,7 +1,7 @@
 // PDF agent implementation
 // Barrel export for PDF agent
 
-export { pdfAgentAsTool } from './pdfAgent';
+export { pdfAgentAsTool, isPdfAnalysisAvailable } from './pdfAgent';
 
 export {
     analyzePdfDocumentDeclaration,
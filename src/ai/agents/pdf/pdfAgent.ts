@@ -8,11 +8,29 @@ import { generateText, tool } from 'ai';
 import { z } from 'zod';
 import { createLogger } from '~logger';
 import { ExternalServiceError, NetworkError, parseError } from '../../../errors';
+import { getActiveProvider, type AIProvider } from '@/utils/credentials';
 import { isPdfUrl } from '@/utils/files';
 import { initializeModel } from '../../core/modelFactory';
 
 const log = createLogger('PDF-Agent');
 
+/** Providers with Gemini's URL context tool, which reads the PDF */
+const PDF_ANALYSIS_PROVIDERS: AIProvider[] = ['google', 'vertex'];
+
+export const PDF_ANALYSIS_UNSUPPORTED_MESSAGE =
+    'PDF analysis is not supported with the OpenAI-compatible provider. Switch to Google AI or Vertex AI in settings to analyze PDFs.';
+
+/**
+ * Whether the active provider can analyze PDFs
+ */
+export async function isPdfAnalysisAvailable(): Promise<boolean> {
+    try {
+        return PDF_ANALYSIS_PROVIDERS.includes(await getActiveProvider());
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Check if a path/URL is a local file
  */
@@ -173,6 +191,10 @@ export const pdfAgentAsTool = tool({
     execute: async ({ pdfUrl, question, pageCount }) => {
         log.info('📄 PDF Agent called', { pdfUrl, question, pageCount });
 
+        if (!(await isPdfAnalysisAvailable())) {
+            return { success: false, error: PDF_ANALYSIS_UNSUPPORTED_MESSAGE };
+        }
+
         try {
             let finalUrl: string;
             let metadata: { title?: string; pageCount?: number } | undefined;
@@ -11,6 +11,7 @@ import { createLogger } from '~logger';
 import { NetworkError, parseError } from '../../../errors';
 import { isPdfUrl } from '@/utils/files';
 import { initializeModel } from '../../core/modelFactory';
+import { isPdfAnalysisAvailable, PDF_ANALYSIS_UNSUPPORTED_MESSAGE } from './pdfAgent';
 
 const log = createLogger('PDF-Agent-Tool');
 
@@ -174,6 +175,16 @@ IMPORTANT:
 export async function executePdfAnalysis(args: { question: string; pdfUrl?: string }): Promise<any> {
     log.info('📄 PDF Analysis Tool called', { question: args.question, pdfUrl: args.pdfUrl });
 
+    if (!(await isPdfAnalysisAvailable())) {
+        return {
+            success: false,
+            error: PDF_ANALYSIS_UNSUPPORTED_MESSAGE,
+            errorType: 'ValidationError',
+            answer: PDF_ANALYSIS_UNSUPPORTED_MESSAGE,
+            pdfUrl: args.pdfUrl,
+        };
+    }
+
     try {
         let finalUrl = args.pdfUrl;
 
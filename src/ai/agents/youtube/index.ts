@@ -6,5 +6,6 @@ export type { YouTubeTranscriptResult } from './youtubeTranscriptTool';
 
 // Export utilities
 export { fetchTranscript } from './utils/transcript';
+export type { TranscriptOptions } from './utils/transcript';
 export { getVideoDuration, getVideoDescription, extractVideoId } from './utils/videoMetadata';
 export { formatDuration } from './utils/formatting';
\ No newline at end of file
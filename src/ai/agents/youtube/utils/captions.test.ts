@@ -0,0 +1,129 @@
+/**
+ * Unit tests for YouTube caption parsing
+ * Runs the parsers and track selection against fixture responses
+ */
+
+import {
+    buildCaptionUrl,
+    extractPlayerResponse,
+    getCaptionTrackName,
+    getCaptionTracks,
+    parseCaptionBody,
+    selectCaptionTrack,
+    type PlayerResponse,
+} from './captions';
+import {
+    CONSENT_PAGE_HTML,
+    JSON3_AUTO,
+    JSON3_MANUAL,
+    NO_CAPTIONS_PLAYER_RESPONSE,
+    PLAYER_RESPONSE_FIXTURE,
+    WATCH_PAGE_HTML,
+    XML_LEGACY,
+    XML_SRV3,
+} from './fixtures/captions';
+
+/**
+ * Run all tests
+ */
+export function runCaptionParserTests() {
+    console.log('\n🧪 === YouTube Caption Parser Tests ===\n');
+
+    // Test 1: Player response from watch page HTML
+    console.log('✅ Test 1: Extract player response from watch page');
+    const playerResponse = extractPlayerResponse(WATCH_PAGE_HTML);
+    console.assert(playerResponse !== null, 'Should find the player response');
+    console.assert(playerResponse?.videoDetails?.videoId === 'abc123XYZ_0', 'Should read the video id');
+    console.assert(
+        playerResponse?.videoDetails?.title === PLAYER_RESPONSE_FIXTURE.videoDetails.title,
+        'Braces and quotes inside strings should not end the object'
+    );
+    console.assert(extractPlayerResponse(CONSENT_PAGE_HTML) === null, 'Consent page has no player response');
+
+    // Test 2: Caption tracks
+    console.log('\n✅ Test 2: Caption tracks');
+    const tracks = getCaptionTracks(playerResponse);
+    console.log(tracks.map(getCaptionTrackName));
+    console.assert(tracks.length === 4, 'Should list 4 tracks');
+    console.assert(getCaptionTrackName(tracks[1]!) === 'English (auto-generated)', 'Should read names from runs');
+    console.assert(getCaptionTracks(NO_CAPTIONS_PLAYER_RESPONSE as PlayerResponse).length === 0, 'No captions gives no tracks');
+    console.assert(selectCaptionTrack([]) === null, 'No tracks gives no selection');
+
+    // Test 3: Track selection
+    console.log('\n✅ Test 3: Track selection');
+    const translationLanguages = PLAYER_RESPONSE_FIXTURE.captions.playerCaptionsTracklistRenderer.translationLanguages;
+    const spokenManual = selectCaptionTrack(tracks, {}, translationLanguages);
+    console.assert(spokenManual?.track.languageCode === 'en' && !spokenManual.track.kind,
+        'Without a language, prefer the manual track in the spoken language');
+    const spokenAuto = selectCaptionTrack(tracks, { trackPreference: 'auto' }, translationLanguages);
+    console.assert(spokenAuto?.track.kind === 'asr', 'Auto preference should pick the auto-generated track');
+    const german = selectCaptionTrack(tracks, { language: 'de', trackPreference: 'auto' }, translationLanguages);
+    console.assert(german?.track.languageCode === 'de' && !german.translateTo,
+        'A manual track is used when no auto-generated one exists in the language');
+    const portuguese = selectCaptionTrack(tracks, { language: 'pt' }, translationLanguages);
+    console.assert(portuguese?.track.languageCode === 'pt-BR', 'Base language should match regional tracks');
+    const british = selectCaptionTrack(tracks, { language: 'en-GB' }, translationLanguages);
+    console.assert(british?.track.languageCode === 'en' && !british.translateTo, 'Regional request should match base track');
+    const french = selectCaptionTrack(tracks, { language: 'fr' }, translationLanguages);
+    console.assert(french?.translateTo === 'fr' && french.track.isTranslatable === true,
+        'Missing language should translate a translatable track');
+    const japanese = selectCaptionTrack(tracks, { language: 'ja' }, translationLanguages);
+    console.assert(japanese?.track.languageCode === 'en' && !japanese.translateTo,
+        'Untranslatable language should fall back to the spoken language');
+
+    // Test 4: Caption URL
+    console.log('\n✅ Test 4: Caption URL');
+    const url = new URL(buildCaptionUrl(french!));
+    console.log(url.toString());
+    console.assert(url.searchParams.get('fmt') === 'json3', 'Should request json3');
+    console.assert(url.searchParams.get('tlang') === 'fr', 'Should request the translation');
+    console.assert(url.searchParams.get('v') === 'abc123XYZ_0', 'Should keep the original parameters');
+
+    // Test 5: json3 manual track
+    console.log('\n✅ Test 5: json3 manual track');
+    const manual = parseCaptionBody(JSON3_MANUAL);
+    console.log(JSON.stringify(manual, null, 2));
+    console.assert(manual.length === 3, 'Events without text should be skipped');
+    console.assert(manual[1]?.text === 'Today we talk about parsing captions.', 'Line breaks should become spaces');
+    console.assert(manual[1]?.start === 2.5 && manual[1]?.duration === 3, 'Timings should be in seconds');
+
+    // Test 6: json3 auto-generated track
+    console.log('\n✅ Test 6: json3 auto-generated track');
+    const auto = parseCaptionBody(JSON3_AUTO);
+    console.log(JSON.stringify(auto, null, 2));
+    console.assert(auto.length === 2, 'Window and line-break events should be skipped');
+    console.assert(auto[0]?.text === 'so today we are', 'Word segments should be joined');
+    console.assert(auto[1]?.text === 'going to [Music]', 'Second line should be joined');
+    console.assert(auto[0]?.start === 0.16, 'Start should come from the event');
+
+    // Test 7: Legacy XML
+    console.log('\n✅ Test 7: Legacy XML');
+    const legacy = parseCaptionBody(XML_LEGACY);
+    console.log(JSON.stringify(legacy, null, 2));
+    console.assert(legacy.length === 3, 'Empty text should be skipped');
+    console.assert(legacy[0]?.text === 'Hello & welcome', 'Double-escaped entities should be decoded');
+    console.assert(legacy[1]?.text === 'it\'s "great" to be here', 'Quotes and newlines should be cleaned');
+    console.assert(legacy[2]?.text === 'café <3', 'Hex and named entities should be decoded');
+    console.assert(legacy[0]?.start === 0.48 && legacy[0]?.duration === 3.2, 'Timings should be in seconds');
+
+    // Test 8: srv3 XML
+    console.log('\n✅ Test 8: srv3 XML');
+    const srv3 = parseCaptionBody(XML_SRV3);
+    console.log(JSON.stringify(srv3, null, 2));
+    console.assert(srv3.length === 2, 'Blank paragraphs should be skipped');
+    console.assert(srv3[1]?.text === 'second line', 'Word tags should be removed');
+    console.assert(srv3[1]?.start === 3.5 && srv3[1]?.duration === 1.8, 'Millisecond timings should be converted');
+
+    // Test 9: Empty and unknown bodies
+    console.log('\n✅ Test 9: Empty and unknown bodies');
+    console.assert(parseCaptionBody('').length === 0, 'Empty body gives no segments');
+    console.assert(parseCaptionBody('{not json').length === 0, 'Broken JSON gives no segments');
+    console.assert(parseCaptionBody('Too many requests').length === 0, 'Plain text gives no segments');
+
+    console.log('\n✅ All tests passed! 🎉\n');
+}
+
+// Expose for manual testing in browser environment
+if (typeof window !== 'undefined') {
+    (window as any).runCaptionParserTests = runCaptionParserTests;
+}
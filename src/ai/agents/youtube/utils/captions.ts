@@ -0,0 +1,287 @@
+/**
+ * YouTube Caption Parsing
+ * Reads caption tracks from a watch page's player response, picks a track by
+ * language and manual/auto-generated preference, and parses the caption file.
+ * No browser APIs here, so the parsers can be tested against fixtures.
+ */
+import type { TranscriptSegment } from './transcript';
+
+/** Prefer tracks written by the uploader, or YouTube's speech recognition */
+export type CaptionTrackPreference = 'manual' | 'auto';
+
+/**
+ * Caption track as listed in the player response
+ */
+export interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    name?: { simpleText?: string; runs?: Array<{ text?: string }> };
+    /** 'asr' for auto-generated tracks */
+    kind?: string;
+    isTranslatable?: boolean;
+}
+
+/**
+ * Parts of ytInitialPlayerResponse used for transcripts
+ */
+export interface PlayerResponse {
+    videoDetails?: {
+        videoId?: string;
+        title?: string;
+        author?: string;
+        lengthSeconds?: string;
+        shortDescription?: string;
+        keywords?: string[];
+        thumbnail?: { thumbnails?: Array<{ url: string; width?: number }> };
+    };
+    captions?: {
+        playerCaptionsTracklistRenderer?: {
+            captionTracks?: CaptionTrack[];
+            translationLanguages?: Array<{ languageCode: string }>;
+        };
+    };
+}
+
+export interface CaptionSelection {
+    track: CaptionTrack;
+    /** Set when no track is in the requested language and YouTube translates one */
+    translateTo?: string;
+}
+
+export interface CaptionSelectionOptions {
+    /** BCP-47 language code, e.g. 'en' or 'pt-BR' */
+    language?: string;
+    /** Defaults to manual tracks, which are usually more accurate */
+    trackPreference?: CaptionTrackPreference;
+}
+
+const PLAYER_RESPONSE_MARKER = 'ytInitialPlayerResponse';
+
+/**
+ * Find the end of the JSON object starting at `start`, skipping braces inside strings
+ */
+function findObjectEnd(source: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{') depth++;
+        else if (char === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Extract ytInitialPlayerResponse from watch page HTML
+ *
+ * @returns The player response, or null when the page has none (e.g. a consent page)
+ */
+export function extractPlayerResponse(html: string): PlayerResponse | null {
+    let markerIndex = html.indexOf(PLAYER_RESPONSE_MARKER);
+    while (markerIndex !== -1) {
+        const assignment = html.slice(markerIndex + PLAYER_RESPONSE_MARKER.length).match(/^\s*=\s*\{/);
+        if (assignment) {
+            const start = markerIndex + PLAYER_RESPONSE_MARKER.length + assignment[0].length - 1;
+            const end = findObjectEnd(html, start);
+            if (end === -1) return null;
+            try {
+                return JSON.parse(html.slice(start, end + 1)) as PlayerResponse;
+            } catch {
+                return null;
+            }
+        }
+        markerIndex = html.indexOf(PLAYER_RESPONSE_MARKER, markerIndex + 1);
+    }
+    return null;
+}
+
+/**
+ * Caption tracks listed in a player response
+ */
+export function getCaptionTracks(playerResponse: PlayerResponse | null | undefined): CaptionTrack[] {
+    const tracks = playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+    return Array.isArray(tracks) ? tracks.filter(track => track?.baseUrl && track.languageCode) : [];
+}
+
+export function isAutoGeneratedTrack(track: CaptionTrack): boolean {
+    return track.kind === 'asr';
+}
+
+function baseLanguage(code: string): string {
+    return code.toLowerCase().split('-')[0] ?? '';
+}
+
+/**
+ * Pick the caption track to use.
+ * With a language: an exact match, then the same base language ('en' for 'en-GB'),
+ * then a translation of another track. Without one: the spoken language, which the
+ * auto-generated track reveals. Within a language, `trackPreference` decides.
+ */
+export function selectCaptionTrack(
+    tracks: CaptionTrack[],
+    options: CaptionSelectionOptions = {},
+    translationLanguages: Array<{ languageCode: string }> = []
+): CaptionSelection | null {
+    if (tracks.length === 0) return null;
+
+    const preferAuto = options.trackPreference === 'auto';
+    const pick = (candidates: CaptionTrack[]): CaptionTrack | undefined =>
+        candidates.find(track => isAutoGeneratedTrack(track) === preferAuto) ?? candidates[0];
+
+    const language = options.language?.trim().toLowerCase();
+    if (language) {
+        const exact = pick(tracks.filter(track => track.languageCode.toLowerCase() === language));
+        if (exact) return { track: exact };
+
+        const sameBase = pick(tracks.filter(track => baseLanguage(track.languageCode) === baseLanguage(language)));
+        if (sameBase) return { track: sameBase };
+
+        const canTranslate = translationLanguages.length === 0 || translationLanguages.some(entry =>
+            baseLanguage(entry.languageCode) === baseLanguage(language));
+        const source = pick(tracks.filter(track => track.isTranslatable));
+        if (source && canTranslate) {
+            return { track: source, translateTo: options.language!.trim() };
+        }
+    }
+
+    const spoken = tracks.find(isAutoGeneratedTrack)?.languageCode;
+    const inSpokenLanguage = spoken
+        ? tracks.filter(track => baseLanguage(track.languageCode) === baseLanguage(spoken))
+        : [];
+    const track = pick(inSpokenLanguage) ?? pick(tracks);
+    return track ? { track } : null;
+}
+
+/**
+ * URL of the selected track in the json3 format, translated when needed
+ */
+export function buildCaptionUrl(selection: CaptionSelection): string {
+    const url = new URL(selection.track.baseUrl, 'https://www.youtube.com');
+    url.searchParams.set('fmt', 'json3');
+    if (selection.translateTo) {
+        url.searchParams.set('tlang', selection.translateTo);
+    }
+    return url.toString();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+function decodeEntitiesOnce(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1]?.toLowerCase() === 'x'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Decode XML entities. Caption XML is often escaped twice ('&amp;#39;'), so decode twice.
+ */
+export function decodeCaptionEntities(text: string): string {
+    return decodeEntitiesOnce(decodeEntitiesOnce(text));
+}
+
+function cleanCaptionText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+interface Json3Captions {
+    events?: Array<{
+        tStartMs?: number;
+        dDurationMs?: number;
+        segs?: Array<{ utf8?: string }>;
+    }>;
+}
+
+/**
+ * Parse captions in YouTube's json3 format
+ * Events without text (line breaks between auto-generated lines) are skipped
+ */
+export function parseJson3Captions(data: Json3Captions): TranscriptSegment[] {
+    return (data.events ?? []).flatMap(event => {
+        const text = cleanCaptionText((event.segs ?? []).map(seg => seg.utf8 ?? '').join(''));
+        if (!text || event.tStartMs === undefined) return [];
+        return [{
+            text,
+            start: event.tStartMs / 1000,
+            duration: (event.dDurationMs ?? 0) / 1000,
+        }];
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w-]+)="([^"]*)"/g)) {
+        attributes[match[1]!] = match[2]!;
+    }
+    return attributes;
+}
+
+/**
+ * Parse captions in the XML formats: legacy `<text start dur>` (seconds)
+ * and srv3 `<p t d>` (milliseconds, with word-level `<s>` tags)
+ */
+export function parseXmlCaptions(xml: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const match of xml.matchAll(/<(text|p)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+        const [, tag, attributeSource = '', body = ''] = match;
+        const attributes = parseAttributes(attributeSource);
+        const text = cleanCaptionText(decodeCaptionEntities(body.replace(/<[^>]+>/g, '')));
+        if (!text) continue;
+
+        const start = tag === 'text' ? parseFloat(attributes.start ?? '') : parseFloat(attributes.t ?? '') / 1000;
+        const duration = tag === 'text' ? parseFloat(attributes.dur ?? '0') : parseFloat(attributes.d ?? '0') / 1000;
+        if (!Number.isFinite(start)) continue;
+
+        segments.push({ text, start, duration: Number.isFinite(duration) ? duration : 0 });
+    }
+    return segments;
+}
+
+/**
+ * Parse a caption file in json3 or XML format
+ *
+ * @returns Segments, or an empty list when the body is empty or unrecognized
+ */
+export function parseCaptionBody(body: string): TranscriptSegment[] {
+    const trimmed = body.trim();
+    if (trimmed.startsWith('{')) {
+        try {
+            return parseJson3Captions(JSON.parse(trimmed) as Json3Captions);
+        } catch {
+            return [];
+        }
+    }
+    if (trimmed.startsWith('<')) {
+        return parseXmlCaptions(trimmed);
+    }
+    return [];
+}
+
+/**
+ * Display name of a caption track, e.g. "English (auto-generated)"
+ */
+export function getCaptionTrackName(track: CaptionTrack): string {
+    return track.name?.simpleText ??
+        track.name?.runs?.map(run => run.text ?? '').join('') ??
+        track.languageCode;
+}
@@ -0,0 +1,136 @@
+/**
+ * Caption Fixtures
+ * Trimmed responses from YouTube used by the caption parser tests
+ */
+
+const PLAYER_RESPONSE = {
+    videoDetails: {
+        videoId: 'abc123XYZ_0',
+        title: 'Braces {in} "titles" and \\ slashes',
+        author: 'Example Channel',
+        lengthSeconds: '212',
+        shortDescription: 'A video about {json} parsing.\nSecond line.',
+        keywords: ['parsing', 'captions'],
+        thumbnail: {
+            thumbnails: [
+                { url: 'https://i.ytimg.com/vi/abc123XYZ_0/default.jpg', width: 120 },
+                { url: 'https://i.ytimg.com/vi/abc123XYZ_0/maxresdefault.jpg', width: 1280 },
+            ],
+        },
+    },
+    captions: {
+        playerCaptionsTracklistRenderer: {
+            captionTracks: [
+                {
+                    baseUrl: 'https://www.youtube.com/api/timedtext?v=abc123XYZ_0&lang=en&name=English',
+                    name: { simpleText: 'English' },
+                    languageCode: 'en',
+                    isTranslatable: true,
+                },
+                {
+                    baseUrl: 'https://www.youtube.com/api/timedtext?v=abc123XYZ_0&kind=asr&lang=en',
+                    name: { runs: [{ text: 'English (auto-generated)' }] },
+                    languageCode: 'en',
+                    kind: 'asr',
+                    isTranslatable: true,
+                },
+                {
+                    baseUrl: 'https://www.youtube.com/api/timedtext?v=abc123XYZ_0&lang=de',
+                    name: { simpleText: 'German' },
+                    languageCode: 'de',
+                    isTranslatable: true,
+                },
+                {
+                    baseUrl: 'https://www.youtube.com/api/timedtext?v=abc123XYZ_0&lang=pt-BR',
+                    name: { simpleText: 'Portuguese (Brazil)' },
+                    languageCode: 'pt-BR',
+                    isTranslatable: false,
+                },
+            ],
+            translationLanguages: [
+                { languageCode: 'en' },
+                { languageCode: 'de' },
+                { languageCode: 'fr' },
+            ],
+        },
+    },
+};
+
+/** Watch page with the player response inline, plus an earlier mention of the variable name */
+export const WATCH_PAGE_HTML = `<!DOCTYPE html>
+<html>
+<head><title>Braces {in} titles - YouTube</title></head>
+<body>
+<script>window.ytInitialPlayerResponse && console.log("ytInitialPlayerResponse seen");</script>
+<script nonce="abc">var ytInitialPlayerResponse = ${JSON.stringify(PLAYER_RESPONSE)};var meta = document.createElement('meta');</script>
+<script>var ytInitialData = {"contents":{}};</script>
+</body>
+</html>`;
+
+/** Consent interstitial served instead of the watch page */
+export const CONSENT_PAGE_HTML = `<!DOCTYPE html>
+<html><head><title>Before you continue to YouTube</title></head>
+<body><form action="https://consent.youtube.com/save"></form></body></html>`;
+
+/** Player response for a video without captions */
+export const NO_CAPTIONS_PLAYER_RESPONSE = {
+    videoDetails: { videoId: 'noCaps00000', title: 'Silent film', lengthSeconds: '60' },
+};
+
+export const PLAYER_RESPONSE_FIXTURE = PLAYER_RESPONSE;
+
+/** Manual track in json3 format */
+export const JSON3_MANUAL = JSON.stringify({
+    wireMagic: 'pb3',
+    events: [
+        { tStartMs: 0, dDurationMs: 2500, segs: [{ utf8: 'Welcome to the channel.' }] },
+        { tStartMs: 2500, dDurationMs: 3000, segs: [{ utf8: 'Today we talk about\nparsing captions.' }] },
+        { tStartMs: 5500, dDurationMs: 1200 },
+        { tStartMs: 6700, dDurationMs: 2000, segs: [{ utf8: "Let's begin." }] },
+    ],
+});
+
+/** Auto-generated track in json3 format, with word timings and line-break events */
+export const JSON3_AUTO = JSON.stringify({
+    wireMagic: 'pb3',
+    events: [
+        { tStartMs: 0, dDurationMs: 212000, id: 1, wpWinPosId: 1, wsWinStyleId: 1 },
+        {
+            tStartMs: 160,
+            dDurationMs: 4080,
+            wWinId: 1,
+            segs: [
+                { utf8: 'so', acAsrConf: 0 },
+                { utf8: ' today', tOffsetMs: 240, acAsrConf: 0 },
+                { utf8: ' we', tOffsetMs: 480, acAsrConf: 0 },
+                { utf8: ' are', tOffsetMs: 600, acAsrConf: 0 },
+            ],
+        },
+        { tStartMs: 2150, dDurationMs: 2090, wWinId: 1, aAppend: 1, segs: [{ utf8: '\n' }] },
+        {
+            tStartMs: 2160,
+            dDurationMs: 3840,
+            wWinId: 1,
+            segs: [{ utf8: 'going' }, { utf8: ' to', tOffsetMs: 160 }, { utf8: ' [Music]', tOffsetMs: 400 }],
+        },
+    ],
+});
+
+/** Legacy timedtext XML; text is escaped twice */
+export const XML_LEGACY = `<?xml version="1.0" encoding="utf-8" ?><transcript>
+<text start="0.48" dur="3.2">Hello &amp;amp; welcome</text>
+<text start="3.68" dur="2.5">it&amp;#39;s &amp;quot;great&amp;quot; to
+be here</text>
+<text start="6.18" dur="1.1"></text>
+<text start="7.28" dur="2">caf&amp;#xE9; &lt;3</text>
+</transcript>`;
+
+/** srv3 timedtext XML with millisecond timings and word tags */
+export const XML_SRV3 = `<?xml version="1.0" encoding="utf-8" ?><timedtext format="3">
+<body>
+<p t="1200" d="2300">First line</p>
+<p t="3500" d="1800" w="1" a="1"><s ac="0">second</s><s t="400" ac="0"> line</s></p>
+<p t="5300" d="900">
+</p>
+</body>
+</timedtext>`;
@@ -2,6 +2,18 @@ import { createLogger } from '~logger';
 import { ExternalServiceError, NetworkError, parseError } from '../../../../errors';
 import { TRANSCRIPT_API_URL } from '@/constants';
 import { withRetry, MAX_RETRIES, INITIAL_RETRY_DELAY } from './retry';
+import { extractVideoId } from './videoMetadata';
+import {
+    buildCaptionUrl,
+    extractPlayerResponse,
+    getCaptionTrackName,
+    getCaptionTracks,
+    isAutoGeneratedTrack,
+    parseCaptionBody,
+    selectCaptionTrack,
+    type CaptionSelectionOptions,
+    type PlayerResponse,
+} from './captions';
 
 const log = createLogger('YouTube-Transcript');
 
@@ -87,21 +99,189 @@ export function processTranscriptForAI(data: TranscriptResponse): ProcessedTrans
 }
 
 /**
- * Fetch transcript from the deployed API with retry for intermittent "no captions" errors
+ * Options for choosing the caption track
+ */
+export type TranscriptOptions = CaptionSelectionOptions;
+
+/**
+ * Outcome of reading captions from YouTube itself.
+ * null means they couldn't be read, so the transcript service is tried instead.
+ * 'no-captions' is only trusted from an open tab's player; the background watch-page
+ * fetch often gets a response with the caption tracks stripped.
+ */
+type CaptionTranscriptResult =
+    | { kind: 'transcript'; data: TranscriptResponse }
+    | { kind: 'no-captions' }
+    | null;
+
+/**
+ * Fetch a transcript, reading the video's caption tracks directly from YouTube
+ * and falling back to the transcript service when that fails
  * @param youtubeUrl - The YouTube video URL
+ * @param options - Preferred language and manual vs auto-generated captions
  * @returns Transcript data or undefined if not available
  */
-export async function fetchTranscript(youtubeUrl: string): Promise<TranscriptResponse | undefined> {
-    return fetchTranscriptWithNoCaptionsRetry(youtubeUrl, NO_CAPTIONS_MAX_RETRIES);
+export async function fetchTranscript(
+    youtubeUrl: string,
+    options: TranscriptOptions = {}
+): Promise<TranscriptResponse | undefined> {
+    const videoId = extractVideoId(youtubeUrl);
+    if (videoId) {
+        try {
+            const result = await fetchTranscriptFromCaptions(videoId, options);
+            if (result?.kind === 'transcript') return result.data;
+            if (result?.kind === 'no-captions') {
+                log.info('ℹ️ Video player has no caption tracks');
+                return undefined;
+            }
+        } catch (error) {
+            log.warn('⚠️ Could not read captions from YouTube, using transcript service:', error);
+        }
+    }
+
+    return fetchTranscriptWithNoCaptionsRetry(youtubeUrl, NO_CAPTIONS_MAX_RETRIES, options.language);
+}
+
+/**
+ * Read the player response from an open tab showing this video.
+ * The player's own response is used because ytInitialPlayerResponse goes stale
+ * after in-page navigation.
+ */
+async function readPlayerResponseFromTab(
+    videoId: string
+): Promise<{ tabId: number; playerResponse: PlayerResponse } | null> {
+    const tabs = await chrome.tabs.query({ url: '*://*.youtube.com/watch*' });
+    const tab = tabs.find(candidate => candidate.id !== undefined && candidate.url && extractVideoId(candidate.url) === videoId);
+    if (tab?.id === undefined) return null;
+
+    const [result] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        world: 'MAIN',
+        args: [videoId],
+        func: (id: string) => {
+            const player = document.getElementById('movie_player') as (HTMLElement & { getPlayerResponse?: () => any }) | null;
+            const candidates = [player?.getPlayerResponse?.(), (window as any).ytInitialPlayerResponse];
+            const match = candidates.find(response => response?.videoDetails?.videoId === id);
+            // Only the serializable parts we need
+            return match ? { videoDetails: match.videoDetails, captions: match.captions } : null;
+        },
+    });
+
+    const playerResponse = result?.result as PlayerResponse | null | undefined;
+    return playerResponse ? { tabId: tab.id, playerResponse } : null;
+}
+
+/**
+ * Load the watch page and extract its player response
+ */
+async function fetchPlayerResponseFromWatchPage(videoId: string): Promise<PlayerResponse | null> {
+    const response = await fetch(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`, {
+        credentials: 'include',
+    });
+    if (!response.ok) {
+        log.warn(`⚠️ Watch page returned ${response.status}`);
+        return null;
+    }
+    return extractPlayerResponse(await response.text());
+}
+
+/**
+ * Download a caption file, from inside the video's tab when one is open so the
+ * request carries the page's session
+ */
+async function fetchCaptionBody(url: string, tabId?: number): Promise<string> {
+    if (tabId !== undefined) {
+        const [result] = await chrome.scripting.executeScript({
+            target: { tabId },
+            world: 'MAIN',
+            args: [url],
+            func: async (captionUrl: string) => {
+                const response = await fetch(captionUrl, { credentials: 'include' });
+                return response.ok ? response.text() : '';
+            },
+        });
+        if (result?.result) return result.result;
+    }
+
+    const response = await fetch(url, { credentials: 'include' });
+    return response.ok ? response.text() : '';
+}
+
+/**
+ * Read the transcript from the video's caption tracks
+ */
+async function fetchTranscriptFromCaptions(
+    videoId: string,
+    options: TranscriptOptions
+): Promise<CaptionTranscriptResult> {
+    log.info('📝 Reading captions from YouTube', { videoId, ...options });
+
+    const fromTab = await readPlayerResponseFromTab(videoId).catch(error => {
+        log.debug('Could not read player response from tab', error);
+        return null;
+    });
+    const playerResponse = fromTab?.playerResponse ?? await fetchPlayerResponseFromWatchPage(videoId);
+    if (!playerResponse?.videoDetails) {
+        log.info('ℹ️ No player response found for video', { videoId });
+        return null;
+    }
+
+    const tracks = getCaptionTracks(playerResponse);
+    const selection = selectCaptionTrack(
+        tracks,
+        options,
+        playerResponse.captions?.playerCaptionsTracklistRenderer?.translationLanguages
+    );
+    if (!selection) {
+        if (fromTab) return { kind: 'no-captions' };
+        log.info('ℹ️ Watch page listed no caption tracks', { videoId });
+        return null;
+    }
+
+    const segments = parseCaptionBody(await fetchCaptionBody(buildCaptionUrl(selection), fromTab?.tabId));
+    if (segments.length === 0) {
+        log.info('ℹ️ Caption track returned no text', { track: getCaptionTrackName(selection.track) });
+        return null;
+    }
+
+    const details = playerResponse.videoDetails;
+    const lastSegment = segments[segments.length - 1];
+    const durationSeconds = Number(details.lengthSeconds) ||
+        Math.ceil(lastSegment ? lastSegment.start + lastSegment.duration : 0);
+    const thumbnails = details.thumbnail?.thumbnails ?? [];
+    const data: TranscriptResponse = {
+        videoId,
+        title: details.title || 'Unknown',
+        duration: durationSeconds / 60,
+        durationSeconds,
+        transcript: segments.map(segment => segment.text).join(' '),
+        author: details.author,
+        thumbnail: thumbnails[thumbnails.length - 1]?.url,
+        description: details.shortDescription,
+        tags: details.keywords,
+        segments,
+        language: selection.translateTo ?? selection.track.languageCode,
+    };
+
+    log.info('✅ Transcript read from captions', {
+        videoId,
+        track: getCaptionTrackName(selection.track),
+        autoGenerated: isAutoGeneratedTrack(selection.track),
+        translatedTo: selection.translateTo,
+        segmentsCount: segments.length,
+        source: fromTab ? 'tab' : 'watch page',
+    });
+    return { kind: 'transcript', data };
 }
 
 /**
- * Internal fetch with retry logic for "no captions" responses
+ * Fetch from the transcript service with retry logic for "no captions" responses
  * The API sometimes incorrectly returns 404 "no captions" - retry a few times before giving up
  */
 async function fetchTranscriptWithNoCaptionsRetry(
     youtubeUrl: string,
-    noCaptionsRetriesLeft: number
+    noCaptionsRetriesLeft: number,
+    language?: string
 ): Promise<TranscriptResponse | undefined> {
     try {
         log.info('📝 Fetching transcript from API', { youtubeUrl, noCaptionsRetriesLeft });
@@ -114,7 +294,7 @@ async function fetchTranscriptWithNoCaptionsRetry(
                         'Content-Type': 'application/json',
                         'X-API-Version': '2',
                     },
-                    body: JSON.stringify({ url: youtubeUrl }),
+                    body: JSON.stringify({ url: youtubeUrl, ...(language ? { lang: language } : {}) }),
                 });
             },
             MAX_RETRIES,
@@ -130,7 +310,7 @@ async function fetchTranscriptWithNoCaptionsRetry(
                 if (noCaptionsRetriesLeft > 0) {
                     log.info(`🔄 Got "no captions" response, retrying (${noCaptionsRetriesLeft} attempts left)...`);
                     await new Promise(resolve => setTimeout(resolve, NO_CAPTIONS_RETRY_DELAY));
-                    return fetchTranscriptWithNoCaptionsRetry(youtubeUrl, noCaptionsRetriesLeft - 1);
+                    return fetchTranscriptWithNoCaptionsRetry(youtubeUrl, noCaptionsRetriesLeft - 1, language);
                 }
                 log.info('ℹ️ No captions available for this video (confirmed after retries)', errorData);
                 return undefined;
@@ -162,7 +342,7 @@ async function fetchTranscriptWithNoCaptionsRetry(
             if (noCaptionsRetriesLeft > 0) {
                 log.info(`🔄 Got empty transcript response, retrying (${noCaptionsRetriesLeft} attempts left)...`);
                 await new Promise(resolve => setTimeout(resolve, NO_CAPTIONS_RETRY_DELAY));
-                return fetchTranscriptWithNoCaptionsRetry(youtubeUrl, noCaptionsRetriesLeft - 1);
+                return fetchTranscriptWithNoCaptionsRetry(youtubeUrl, noCaptionsRetriesLeft - 1, language);
             }
             log.info('ℹ️ Empty transcript returned (confirmed after retries)');
             return undefined;
@@ -138,12 +138,22 @@ Use this when users:
             .optional()
             .default(true)
             .describe('Whether to fetch video description (default: true)'),
+        language: z
+            .string()
+            .optional()
+            .describe('Caption language code (e.g., "en", "de", "pt-BR"). Omit to use the language spoken in the video; other languages are translated by YouTube if needed'),
+        captionType: z
+            .enum(['manual', 'auto'])
+            .optional()
+            .describe('Prefer uploader-written (manual, default) or auto-generated captions'),
     }),
 
-    execute: async ({ youtubeUrl, includeDescription = true }): Promise<YouTubeTranscriptResult> => {
+    execute: async ({ youtubeUrl, includeDescription = true, language, captionType }): Promise<YouTubeTranscriptResult> => {
         log.info('📝 YouTube Transcript Tool called', {
             youtubeUrl,
             includeDescription,
+            language,
+            captionType,
         });
 
         try {
@@ -157,7 +167,7 @@ Use this when users:
 
             // Fetch transcript and metadata in parallel
             const [transcriptData, description] = await Promise.all([
-                fetchTranscript(youtubeUrl),
+                fetchTranscript(youtubeUrl, { language, trackPreference: captionType }),
                 includeDescription
                     ? getVideoDescription(youtubeUrl)
                     : Promise.resolve(undefined),
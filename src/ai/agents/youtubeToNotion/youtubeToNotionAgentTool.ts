@@ -7,6 +7,7 @@
 
 import { createLogger } from '~logger';
 import { executeYouTubeToNotionAgent } from './youtubeToNotionAgent';
+import { GEN_AI_UNSUPPORTED_MESSAGE, isGenAIAvailable } from '../../core/genAIFactory';
 import type { YouTubeToNotionInput, YouTubeToNotionOutput } from './types';
 import type { FunctionDeclaration } from '@google/genai';
 
@@ -98,6 +99,11 @@ export async function executeYouTubeToNotion(args: YouTubeToNotionInput): Promis
         hasParentPageId: !!args.parentPageId
     });
 
+    // The agents run on the Gen AI SDK, which only talks to Google AI and Vertex AI
+    if (!(await isGenAIAvailable())) {
+        return { success: false, message: GEN_AI_UNSUPPORTED_MESSAGE, error: 'PROVIDER_NOT_SUPPORTED' };
+    }
+
     try {
         // Validate input
         if (!args.youtubeUrl || !args.videoTitle) {
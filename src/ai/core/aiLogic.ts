@@ -12,7 +12,7 @@ import { getWebSearchSystemPrompt } from '../prompts/searchPrompt';
 import { getWorkflow } from '../../workflows/registry';
 import { getCurrentWebsite, getWebsiteTools, augmentSystemPrompt } from '../prompts/website';
 
-import { hasGoogleApiKey } from '@/utils/credentials';
+import { hasAnyProviderConfigured, type AIProvider } from '@/utils/credentials';
 import { getModelConfig } from '@/utils/ai';
 import { getMaxToolCallLimit, getToolsMode } from '@/utils/settings';
 import { getSearchSettings, hasApiKeyForProvider } from '@/utils/settings/searchSettings';
@@ -28,9 +28,15 @@ import { executeStreamText } from '../stream/streamExecutor';
 import { parseProviderError } from '../errors/handlers';
 import { writeErrorToStream } from '../stream/streamHelpers';
 import { createStreamRetryManager, writeMissingApiKeyError, setupLocalMode, setupRemoteMode } from '../setup';
+import { recordUsage } from '../../db';
+import { extractSearchableText } from '../../db/searchTokens';
+import { buildMemoryContext } from '../../memory';
 
 const log = createLogger('AI-Chat', 'AI_CHAT');
 
+/** Gemini Nano has a small context window, so fewer memories are added */
+const LOCAL_MODE_MAX_MEMORIES = 3;
+
 /**
  * Stream AI response directly from the frontend
  * Returns a UIMessageStream that can be consumed by useChat
@@ -85,7 +91,7 @@ export async function streamAIResponse(params: {
   let missingApiKey = false;
 
   if (effectiveMode === 'remote') {
-    const hasKey = await hasGoogleApiKey();
+    const hasKey = await hasAnyProviderConfigured();
     if (!hasKey) {
       log.warn('?? Remote mode requested but no API key found');
       missingApiKey = true;
@@ -99,7 +105,8 @@ export async function streamAIResponse(params: {
   let model: any;
   let tools: Record<string, any>;
   let systemPrompt: string;
-  let provider: 'local' | 'google' | 'vertex' = 'local'; // Track provider for error handling
+  let provider: AIProvider | 'local' = 'local'; // Track provider for error handling
+  let modelId: string = modelConfig.remoteModel || 'gemini-2.5-flash'; // Model that served the request, for usage
   let initialActiveTools: string[] | undefined; // For dynamic mode switching via prepareStep
   let isSearchModeActive = false; // Track initial search mode state for prepareStep comparison
 
@@ -238,7 +245,8 @@ export async function streamAIResponse(params: {
               }
 
               systemPrompt = remoteSetup.systemPrompt;
-              provider = remoteSetup.provider; // 'google' or 'vertex'
+              provider = remoteSetup.provider; // 'google', 'vertex' or 'openai-compatible'
+              modelId = remoteSetup.modelName;
             }
           } catch (setupError) {
             // Setup failed - write error to stream and exit
@@ -286,6 +294,17 @@ export async function streamAIResponse(params: {
             log.info(' Skipping initial page context for local mode');
           }
 
+          // Add saved memories relevant to the latest message (on-device, so local mode gets them too)
+          const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+          const memoryContext = await buildMemoryContext(
+            lastUserMessage ? extractSearchableText(lastUserMessage).text : '',
+            effectiveMode === 'local' ? LOCAL_MODE_MAX_MEMORIES : undefined
+          );
+          if (memoryContext) {
+            enhancedPrompt = `${enhancedPrompt}\n\n${memoryContext}`;
+            log.info(' Enhanced system prompt with saved memories');
+          }
+
           if (workflowConfig) {
             log.info(' Using workflow system prompt:', {
               workflow: workflowConfig.name,
@@ -327,7 +346,8 @@ export async function streamAIResponse(params: {
               stepCount,
               writer,
               effectiveMode,
-              modelConfig,
+              // Usage is reported under the model that actually served the request
+              modelConfig: { ...modelConfig, remoteModel: modelId },
               onUsageUpdate,
               workflowId,
               threadId,
@@ -630,13 +650,12 @@ export async function streamAIResponse(params: {
 
                     if (lastAssistantMsg) {
                       // Convert to AppUsage format with context limits
-                      const modelName = modelConfig.remoteModel || 'gemini-2.5-flash';
-                      const contextLimits = getContextLimits(modelName);
+                      const contextLimits = getContextLimits(modelId);
 
                       const appUsage: AppUsage = {
                         ...finalUsage,
                         context: contextLimits,
-                        modelId: modelName
+                        modelId
                       };
 
                       // Attach usage to the message for persistence and recalculation
@@ -650,6 +669,28 @@ export async function streamAIResponse(params: {
                   }
                 }
 
+                // Record the request (all steps) in the usage ledger for the dashboard and budgets
+                const requestProvider = provider;
+                if (effectiveMode === 'remote' && requestProvider !== 'local') {
+                  try {
+                    const totalUsage = await result.totalUsage;
+                    await recordUsage({
+                      timestamp: Date.now(),
+                      modelId,
+                      provider: requestProvider,
+                      threadId,
+                      workflowId,
+                      inputTokens: totalUsage.inputTokens ?? 0,
+                      outputTokens: totalUsage.outputTokens ?? 0,
+                      totalTokens: totalUsage.totalTokens ?? 0,
+                      cachedInputTokens: totalUsage.cachedInputTokens,
+                      reasoningTokens: totalUsage.reasoningTokens,
+                    });
+                  } catch (error) {
+                    log.warn('Failed to record usage', error instanceof Error ? error.message : String(error));
+                  }
+                }
+
                 // Send completion status
                 writer.write({
                   type: 'data-status',
@@ -14,13 +14,31 @@ import type { AIProvider } from '@/utils/credentials';
 
 const log = createLogger('GenAIFactory', 'AI_CHAT');
 
+/** Providers the native Gen AI SDK can talk to */
+const GEN_AI_PROVIDERS: AIProvider[] = ['google', 'vertex'];
+
+export const GEN_AI_UNSUPPORTED_MESSAGE =
+    'This feature is not supported with the OpenAI-compatible provider. Switch to Google AI or Vertex AI in settings to use it.';
+
+/**
+ * Whether the active provider can run the Gen AI SDK agents (YouTube to Notion, Notion creator, browser action, Live API)
+ */
+export async function isGenAIAvailable(): Promise<boolean> {
+    try {
+        return GEN_AI_PROVIDERS.includes(await getActiveProvider());
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Initialize GoogleGenAI client respecting user's provider selection
  * - If Vertex AI configured: uses service account credentials
- * - Otherwise: uses Google AI with API key
+ * - If Google AI configured: uses the API key
+ * - Other providers can't run Gen AI SDK agents
  * 
  * @returns GoogleGenAI client instance configured for the active provider
- * @throws {APIError} If credentials are not configured or invalid
+ * @throws {APIError} If the active provider is not Google AI or Vertex AI, or credentials are not configured or invalid
  */
 export async function initializeGenAIClient(): Promise<GoogleGenAI> {
     log.info('🏭 Initializing Gen AI client');
@@ -42,6 +60,19 @@ export async function initializeGenAIClient(): Promise<GoogleGenAI> {
         throw error;
     }
 
+    if (!GEN_AI_PROVIDERS.includes(activeProvider)) {
+        const error = new APIError({
+            message: GEN_AI_UNSUPPORTED_MESSAGE,
+            statusCode: 400,
+            retryable: false,
+            userMessage: GEN_AI_UNSUPPORTED_MESSAGE,
+            technicalDetails: `Gen AI SDK agents need Google AI or Vertex AI; active provider is ${activeProvider}`,
+            errorCode: ErrorType.API_INVALID_REQUEST,
+        });
+        log.error('❌ Active provider does not support Gen AI agents:', error);
+        throw error;
+    }
+
     if (activeProvider === 'vertex') {
         return initializeVertexClient();
     } else {
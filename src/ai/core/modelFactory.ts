@@ -1,15 +1,16 @@
 /**
  * Model Factory
  * Centralized model initialization logic for all AI providers
- * Supports local (Gemini Nano), Google Generative AI, and Vertex AI
+ * Supports local (Gemini Nano), Google Generative AI, Vertex AI and OpenAI-compatible servers
  */
 
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createVertex } from '@ai-sdk/google-vertex';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { builtInAI } from '@built-in-ai/core';
 import { createLogger } from '~logger';
 import { APIError, ErrorType } from '../../errors/errorTypes';
-import { getActiveProvider, getVertexCredentials, getGoogleApiKey } from '@/utils/credentials';
+import { getActiveProvider, getVertexCredentials, getGoogleApiKey, getOpenAICompatibleConfig } from '@/utils/credentials';
 import { customFetch } from '../utils/fetchHelpers';
 import type { AIMode } from '../types/types';
 import type { AIProvider } from '@/utils/credentials';
@@ -40,13 +41,14 @@ export interface ModelInitResult {
     model: any;
     provider: AIProvider | 'local';
     modelName: string;
-    providerInstance?: any; // Google or Vertex provider instance for accessing tools
+    providerInstance?: any; // Provider instance (Google, Vertex or OpenAI-compatible) for accessing tools
 }
 
 /**
  * Initialize AI model based on mode and configuration
  * 
- * @param modelName - Model name to initialize (e.g., 'gemini-2.5-flash')
+ * @param modelName - Model name to initialize (e.g., 'gemini-2.5-flash'); OpenAI-compatible
+ * providers use the model chosen in their own settings instead
  * @param mode - AI mode ('local' or 'remote')
  * @returns Model initialization result with model instance, provider, and model name
  * @throws {APIError} If credentials are not configured or invalid
@@ -83,6 +85,8 @@ export async function initializeModel(
     // Initialize base model
     if (activeProvider === 'vertex') {
         return await initializeVertexModel(modelName);
+    } else if (activeProvider === 'openai-compatible') {
+        return await initializeOpenAICompatibleModel();
     } else {
         return await initializeGoogleModel(modelName);
     }
@@ -227,6 +231,62 @@ async function initializeGoogleModel(modelName: string): Promise<ModelInitResult
     }
 }
 
+/**
+ * Initialize a chat model served by an OpenAI-compatible endpoint
+ * (hosted gateways, Ollama, llama.cpp, LM Studio)
+ * 
+ * @returns Model initialization result for the configured model
+ * @throws {APIError} If the endpoint is not configured
+ */
+async function initializeOpenAICompatibleModel(): Promise<ModelInitResult> {
+    const settings = await getOpenAICompatibleConfig();
+    if (!settings?.baseUrl || !settings.model) {
+        const error = new APIError({
+            message: 'OpenAI-compatible provider not configured',
+            statusCode: 401,
+            retryable: false,
+            userMessage: 'Please configure the OpenAI-compatible server URL and model in settings.',
+            technicalDetails: 'No OpenAI-compatible endpoint settings found in storage',
+            errorCode: ErrorType.API_AUTH_FAILED,
+        });
+        log.error('❌ OpenAI-compatible settings missing:', error);
+        throw error;
+    }
+
+    log.info('🔧 Initializing OpenAI-compatible model:', { model: settings.model, baseUrl: settings.baseUrl });
+
+    try {
+        const provider = createOpenAICompatible({
+            name: 'openai-compatible',
+            baseURL: settings.baseUrl,
+            apiKey: settings.apiKey,
+            fetch: customFetch,
+            // Ask for usage in the final stream chunk so token counts reach AppUsage
+            includeUsage: true,
+        });
+        const model = provider.chatModel(settings.model);
+
+        log.info('✅ OpenAI-compatible model initialized successfully:', settings.model);
+
+        return {
+            model,
+            provider: 'openai-compatible',
+            modelName: settings.model,
+            providerInstance: provider,
+        };
+    } catch (error) {
+        log.error('❌ Failed to initialize OpenAI-compatible model:', error);
+        throw new APIError({
+            message: 'Failed to initialize OpenAI-compatible model',
+            statusCode: 500,
+            retryable: false,
+            userMessage: 'Could not initialize the OpenAI-compatible model. Please check the server settings.',
+            technicalDetails: error instanceof Error ? error.message : String(error),
+            errorCode: ErrorType.API_AUTH_FAILED,
+        });
+    }
+}
+
 /**
  * Get the currently active provider without initializing a model
  * Useful for UI display and logging
@@ -244,7 +304,7 @@ export async function getCurrentProvider(): Promise<AIProvider | 'none'> {
 /**
  * Check if a provider is configured and available
  * 
- * @param provider - Provider to check ('google' or 'vertex')
+ * @param provider - Provider to check
  * @returns true if provider is configured with valid credentials
  */
 export async function isProviderAvailable(provider: AIProvider): Promise<boolean> {
@@ -252,6 +312,9 @@ export async function isProviderAvailable(provider: AIProvider): Promise<boolean
         if (provider === 'google') {
             const apiKey = await getGoogleApiKey();
             return !!apiKey && apiKey.trim().length > 0;
+        } else if (provider === 'openai-compatible') {
+            const settings = await getOpenAICompatibleConfig();
+            return !!settings?.baseUrl && !!settings.model;
         } else {
             const credentials = await getVertexCredentials();
             return !!credentials &&
@@ -1,7 +1,7 @@
 /**
  * Error Handling Utilities for AI Logic
  * Handles error parsing, formatting, and API key validation updates
- * Supports both Google Generative AI and Vertex AI providers
+ * Supports Google Generative AI, Vertex AI and OpenAI-compatible providers
  */
 
 import { createLogger } from '~logger';
@@ -386,6 +386,26 @@ export function parseGeminiError(error: any): APIError {
   }
 }
 
+/**
+ * Parse error from an OpenAI-compatible server
+ * Status codes follow the same HTTP conventions as Gemini, but auth failures
+ * must not mark the Google API key invalid
+ */
+function parseOpenAICompatibleError(error: any): APIError {
+  const statusCode = error?.statusCode || error?.status || error?.response?.status;
+  if (statusCode === 401) {
+    return new APIError({
+      message: 'Unauthorized',
+      statusCode: 401,
+      retryable: false,
+      userMessage: 'The OpenAI-compatible server rejected the API key. Check it in AI Provider Setup.',
+      technicalDetails: error?.message || String(error),
+      errorCode: ErrorType.API_AUTH_FAILED,
+    });
+  }
+  return parseGeminiError(error);
+}
+
 /**
  * Provider-aware error parsing (async version)
  * Routes to appropriate parser based on provider
@@ -402,6 +422,8 @@ export async function parseProviderErrorAsync(
     return parseVertexErrorAsync(error);
   } else if (provider === 'google') {
     return parseGeminiErrorAsync(error);
+  } else if (provider === 'openai-compatible') {
+    return parseOpenAICompatibleError(error);
   } else {
     // Local mode - use Gemini parser as fallback
     return parseGeminiErrorAsync(error);
@@ -424,6 +446,8 @@ export function parseProviderError(
     return parseVertexError(error);
   } else if (provider === 'google') {
     return parseGeminiError(error);
+  } else if (provider === 'openai-compatible') {
+    return parseOpenAICompatibleError(error);
   } else {
     // Local mode - use Gemini parser as fallback
     return parseGeminiError(error);
@@ -0,0 +1,409 @@
+/**
+ * Fake Chrome API
+ * In-memory stand-in for the chrome.* APIs the chat pipeline and tools use.
+ * Content scripts injected with chrome.scripting run against fixture pages
+ * loaded into happy-dom, so page-reading tools see real DOM content.
+ */
+
+import { Window } from 'happy-dom';
+import { FIXTURE_PAGES } from './fixtures/pages';
+import type { EvalHistoryItem, EvalTab } from './types';
+
+/** All fake tabs live in this window */
+const WINDOW_ID = 1;
+
+/** Response to runtime messages; the background worker isn't part of evals */
+const NO_BACKGROUND_RESPONSE = { success: false, error: 'Background service worker is not available in evals' };
+
+type Listener = (...args: any[]) => unknown;
+
+interface FakeEvent {
+    addListener(listener: Listener): void;
+    removeListener(listener: Listener): void;
+    hasListener(listener: Listener): boolean;
+    hasListeners(): boolean;
+    dispatch(...args: unknown[]): void;
+}
+
+export interface FakeChromeState {
+    storage?: Record<string, unknown>;
+    tabs?: EvalTab[];
+    history?: EvalHistoryItem[];
+}
+
+export interface FakeChrome {
+    /** Every chrome API call since the last reset, e.g. { api: 'tabs.create', args: [...] } */
+    calls: Array<{ api: string; args: unknown[] }>;
+    /**
+     * Replace storage, tabs and history for the next scenario
+     * Listeners stay registered, so modules that cached settings see the change
+     */
+    reset(state: FakeChromeState): Promise<void>;
+}
+
+function createEvent(): FakeEvent {
+    const listeners = new Set<Listener>();
+    return {
+        addListener: listener => { listeners.add(listener); },
+        removeListener: listener => { listeners.delete(listener); },
+        hasListener: listener => listeners.has(listener),
+        hasListeners: () => listeners.size > 0,
+        dispatch: (...args) => listeners.forEach(listener => listener(...args)),
+    };
+}
+
+/**
+ * Give a namespace an event for every `onSomething` property it is asked for,
+ * so modules that subscribe to events this fake doesn't model still load
+ */
+function withEvents<T extends object>(namespace: T): T {
+    return new Proxy(namespace, {
+        get(target, property, receiver) {
+            if (typeof property === 'string' && /^on[A-Z]/.test(property) && !(property in target)) {
+                (target as Record<string, unknown>)[property] = createEvent();
+            }
+            return Reflect.get(target, property, receiver);
+        },
+    });
+}
+
+/**
+ * Support both promise and callback call styles
+ */
+function respond<T>(value: T, callback?: unknown): Promise<T> {
+    if (typeof callback === 'function') {
+        queueMicrotask(() => callback(value));
+    }
+    return Promise.resolve(value);
+}
+
+function createStorageArea(area: string, onChanged: FakeEvent) {
+    const data = new Map<string, unknown>();
+
+    const notify = (changes: Record<string, { oldValue?: unknown; newValue?: unknown }>) => {
+        if (Object.keys(changes).length > 0) {
+            onChanged.dispatch(changes, area);
+        }
+    };
+
+    return {
+        get: (keys?: string | string[] | Record<string, unknown> | null, callback?: unknown) => {
+            let result: Record<string, unknown> = {};
+            if (keys === null || keys === undefined) {
+                result = Object.fromEntries(data);
+            } else if (typeof keys === 'string' || Array.isArray(keys)) {
+                for (const key of typeof keys === 'string' ? [keys] : keys) {
+                    if (data.has(key)) result[key] = structuredClone(data.get(key));
+                }
+            } else {
+                for (const [key, fallback] of Object.entries(keys)) {
+                    result[key] = data.has(key) ? structuredClone(data.get(key)) : fallback;
+                }
+            }
+            return respond(result, callback);
+        },
+        set: (items: Record<string, unknown>, callback?: unknown) => {
+            const changes: Record<string, { oldValue?: unknown; newValue?: unknown }> = {};
+            for (const [key, value] of Object.entries(items)) {
+                changes[key] = { oldValue: data.get(key), newValue: value };
+                data.set(key, structuredClone(value));
+            }
+            notify(changes);
+            return respond(undefined, callback);
+        },
+        remove: (keys: string | string[], callback?: unknown) => {
+            const changes: Record<string, { oldValue?: unknown }> = {};
+            for (const key of typeof keys === 'string' ? [keys] : keys) {
+                if (data.has(key)) {
+                    changes[key] = { oldValue: data.get(key) };
+                    data.delete(key);
+                }
+            }
+            notify(changes);
+            return respond(undefined, callback);
+        },
+        clear: (callback?: unknown) => {
+            const changes = Object.fromEntries([...data].map(([key, oldValue]) => [key, { oldValue }]));
+            data.clear();
+            notify(changes);
+            return respond(undefined, callback);
+        },
+        getBytesInUse: (_keys?: unknown, callback?: unknown) =>
+            respond(JSON.stringify(Object.fromEntries(data)).length, callback),
+        onChanged: createEvent(),
+        /** Swap in new contents, reporting the difference as one change event */
+        replace: (items: Record<string, unknown>) => {
+            const changes: Record<string, { oldValue?: unknown; newValue?: unknown }> = {};
+            for (const [key, oldValue] of data) {
+                if (!(key in items)) changes[key] = { oldValue };
+            }
+            for (const [key, newValue] of Object.entries(items)) {
+                if (JSON.stringify(data.get(key)) !== JSON.stringify(newValue)) {
+                    changes[key] = { oldValue: data.get(key), newValue };
+                }
+            }
+            data.clear();
+            for (const [key, value] of Object.entries(structuredClone(items))) {
+                data.set(key, value);
+            }
+            notify(changes);
+        },
+    };
+}
+
+/**
+ * Install the fake `chrome` global
+ * Must run before modules that read settings at import time are loaded
+ */
+export function installFakeChrome(): FakeChrome {
+    const calls: FakeChrome['calls'] = [];
+    const record = (api: string, args: unknown[]) => calls.push({ api, args });
+
+    let tabs: chrome.tabs.Tab[] = [];
+    let history: EvalHistoryItem[] = [];
+    const tabPages = new Map<number, string>();
+    const pageWindows = new Map<number, Window>();
+    let nextTabId = 1;
+
+    // Fixture pages are parsed lazily, once per tab
+    const getPageWindow = (tab: chrome.tabs.Tab): Window => {
+        let pageWindow = pageWindows.get(tab.id!);
+        if (!pageWindow) {
+            pageWindow = new Window({ url: tab.url });
+            const page = tabPages.get(tab.id!);
+            const html = page ? FIXTURE_PAGES[page] : undefined;
+            if (page && html === undefined) {
+                throw new Error(`Unknown fixture page "${page}"`);
+            }
+            pageWindow.document.write(html ?? `<html><head><title>${tab.title ?? ''}</title></head><body></body></html>`);
+            pageWindows.set(tab.id!, pageWindow);
+        }
+        return pageWindow;
+    };
+
+    const closePage = async (tabId: number) => {
+        await pageWindows.get(tabId)?.happyDOM.close();
+        pageWindows.delete(tabId);
+        tabPages.delete(tabId);
+    };
+
+    const findTab = (tabId: number) => tabs.find(tab => tab.id === tabId);
+    const activate = (tabId: number) => {
+        for (const tab of tabs) {
+            tab.active = tab.id === tabId;
+            tab.highlighted = tab.active;
+        }
+    };
+
+    const storageChanged = createEvent();
+    const tabsUpdated = createEvent();
+    const tabsActivated = createEvent();
+
+    const fake = {
+        runtime: {
+            id: 'eval-extension',
+            lastError: undefined,
+            getURL: (path: string) => `chrome-extension://eval-extension/${path.replace(/^\//, '')}`,
+            getManifest: () => ({ manifest_version: 3, name: 'eval', version: '0.0.0' }),
+            sendMessage: (message: unknown, callback?: unknown) => {
+                record('runtime.sendMessage', [message]);
+                return respond(NO_BACKGROUND_RESPONSE, callback);
+            },
+            onMessage: createEvent(),
+            onInstalled: createEvent(),
+            onStartup: createEvent(),
+            onConnect: createEvent(),
+        },
+        storage: {
+            local: createStorageArea('local', storageChanged),
+            session: createStorageArea('session', storageChanged),
+            sync: createStorageArea('sync', storageChanged),
+            onChanged: storageChanged,
+        },
+        tabs: {
+            query: (queryInfo: chrome.tabs.QueryInfo = {}, callback?: unknown) => {
+                record('tabs.query', [queryInfo]);
+                const result = tabs.filter(tab =>
+                    (queryInfo.active === undefined || tab.active === queryInfo.active) &&
+                    (queryInfo.windowId === undefined || tab.windowId === queryInfo.windowId)
+                );
+                return respond(result.map(tab => ({ ...tab })), callback);
+            },
+            get: (tabId: number, callback?: unknown) => {
+                record('tabs.get', [tabId]);
+                const tab = findTab(tabId);
+                if (!tab) return Promise.reject(new Error(`No tab with id: ${tabId}.`));
+                return respond({ ...tab }, callback);
+            },
+            create: (properties: chrome.tabs.CreateProperties, callback?: unknown) => {
+                record('tabs.create', [properties]);
+                const tab: chrome.tabs.Tab = {
+                    ...tabs[0]!,
+                    id: nextTabId++,
+                    index: tabs.length,
+                    url: properties.url ?? 'chrome://newtab/',
+                    title: properties.url ?? 'New Tab',
+                    active: properties.active !== false,
+                    groupId: -1,
+                };
+                tabs.push(tab);
+                if (tab.active) activate(tab.id!);
+                return respond({ ...tab }, callback);
+            },
+            update: (tabIdOrProperties: number | chrome.tabs.UpdateProperties, maybeProperties?: chrome.tabs.UpdateProperties | unknown, callback?: unknown) => {
+                const tabId = typeof tabIdOrProperties === 'number'
+                    ? tabIdOrProperties
+                    : tabs.find(tab => tab.active)?.id;
+                const properties = (typeof tabIdOrProperties === 'number' ? maybeProperties : tabIdOrProperties) as chrome.tabs.UpdateProperties;
+                record('tabs.update', [tabId, properties]);
+                const tab = tabId === undefined ? undefined : findTab(tabId);
+                if (!tab) return Promise.reject(new Error(`No tab with id: ${tabId}.`));
+                if (properties.url && properties.url !== tab.url) {
+                    tab.url = properties.url;
+                    tab.title = properties.url;
+                    void closePage(tab.id!);
+                    tabsUpdated.dispatch(tab.id, { status: 'complete', url: tab.url }, { ...tab });
+                }
+                if (properties.active) activate(tab.id!);
+                return respond({ ...tab }, typeof maybeProperties === 'function' ? maybeProperties : callback);
+            },
+            remove: (tabIds: number | number[], callback?: unknown) => {
+                record('tabs.remove', [tabIds]);
+                for (const tabId of Array.isArray(tabIds) ? tabIds : [tabIds]) {
+                    const index = tabs.findIndex(tab => tab.id === tabId);
+                    if (index >= 0) tabs.splice(index, 1);
+                }
+                return respond(undefined, callback);
+            },
+            sendMessage: (tabId: number, message: unknown, callback?: unknown) => {
+                record('tabs.sendMessage', [tabId, message]);
+                return respond(undefined, callback);
+            },
+            captureVisibleTab: (..._args: unknown[]) => {
+                record('tabs.captureVisibleTab', []);
+                return Promise.resolve('data:image/png;base64,iVBORw0KGgo=');
+            },
+            onUpdated: tabsUpdated,
+            onActivated: tabsActivated,
+            onCreated: createEvent(),
+            onRemoved: createEvent(),
+        },
+        windows: {
+            WINDOW_ID_CURRENT: -2,
+            getCurrent: (_options?: unknown, callback?: unknown) => respond({ id: WINDOW_ID, focused: true }, callback),
+            getAll: (_options?: unknown, callback?: unknown) => respond([{ id: WINDOW_ID, focused: true, tabs }], callback),
+        },
+        history: {
+            search: (query: chrome.history.HistoryQuery, callback?: unknown) => {
+                record('history.search', [query]);
+                const text = query.text.toLowerCase();
+                const results = history
+                    .filter(item =>
+                        (!text || item.url.toLowerCase().includes(text) || item.title.toLowerCase().includes(text)) &&
+                        (query.startTime === undefined || item.lastVisitTime >= query.startTime) &&
+                        (query.endTime === undefined || item.lastVisitTime <= query.endTime)
+                    )
+                    .slice(0, query.maxResults ?? 100)
+                    .map((item, index) => ({ id: String(index), visitCount: 1, ...item }));
+                return respond(results, callback);
+            },
+            getVisits: (details: unknown, callback?: unknown) => {
+                record('history.getVisits', [details]);
+                return respond([], callback);
+            },
+        },
+        scripting: {
+            executeScript: async (injection: {
+                target: { tabId: number };
+                func?: (...args: any[]) => unknown;
+                args?: unknown[];
+                files?: string[];
+            }) => {
+                record('scripting.executeScript', [{ target: injection.target, files: injection.files, args: injection.args }]);
+                const tab = findTab(injection.target.tabId);
+                if (!tab) throw new Error(`No tab with id: ${injection.target.tabId}.`);
+                if (!injection.func) return [{ frameId: 0, result: undefined }];
+
+                // Run the content script with the fixture page as its globals
+                const pageWindow = getPageWindow(tab);
+                const globals = globalThis as Record<string, unknown>;
+                const previous = { window: globals.window, document: globals.document, location: globals.location };
+                globals.window = pageWindow;
+                globals.document = pageWindow.document;
+                globals.location = pageWindow.location;
+                try {
+                    const result = await injection.func(...(injection.args ?? []));
+                    return [{ frameId: 0, result }];
+                } finally {
+                    Object.assign(globals, previous);
+                }
+            },
+        },
+        alarms: {
+            create: (...args: unknown[]) => { record('alarms.create', args); return Promise.resolve(); },
+            clear: (name?: string) => { record('alarms.clear', [name]); return Promise.resolve(true); },
+            get: () => Promise.resolve(undefined),
+            getAll: () => Promise.resolve([]),
+            onAlarm: createEvent(),
+        },
+        notifications: {
+            create: (...args: unknown[]) => { record('notifications.create', args); return Promise.resolve('eval-notification'); },
+            clear: () => Promise.resolve(true),
+            onClicked: createEvent(),
+            onButtonClicked: createEvent(),
+        },
+        permissions: {
+            contains: () => Promise.resolve(true),
+            request: () => Promise.resolve(true),
+        },
+    };
+
+    // Namespaces this fake doesn't model exist but only offer events
+    const namespaces = new Map<string, object>();
+    (globalThis as Record<string, unknown>).chrome = new Proxy(fake, {
+        get(target, property, receiver) {
+            if (typeof property !== 'string') return Reflect.get(target, property, receiver);
+            if (!namespaces.has(property)) {
+                const namespace = (target as Record<string, object | undefined>)[property] ?? {};
+                namespaces.set(property, withEvents(namespace));
+            }
+            return namespaces.get(property);
+        },
+    });
+
+    return {
+        calls,
+        reset: async (state) => {
+            calls.length = 0;
+            await Promise.all([...pageWindows.keys()].map(closePage));
+            tabPages.clear();
+
+            tabs = (state.tabs ?? []).map((tab, index) => ({
+                id: tab.id,
+                index,
+                windowId: WINDOW_ID,
+                url: tab.url,
+                title: tab.title,
+                active: !!tab.active,
+                highlighted: !!tab.active,
+                pinned: false,
+                incognito: false,
+                selected: !!tab.active,
+                discarded: false,
+                autoDiscardable: true,
+                groupId: -1,
+                frozen: false,
+                status: 'complete',
+            }));
+            for (const tab of state.tabs ?? []) {
+                if (tab.page) tabPages.set(tab.id, tab.page);
+            }
+            nextTabId = Math.max(100, ...tabs.map(tab => tab.id ?? 0)) + 1;
+            history = state.history ?? [];
+
+            fake.storage.local.replace(state.storage ?? {});
+            fake.storage.session.replace({});
+            fake.storage.sync.replace({});
+        },
+    };
+}
@@ -0,0 +1,36 @@
+/**
+ * Fixture Pages
+ * HTML served to content scripts for fake tabs, keyed by fixture name
+ */
+
+export const FIXTURE_PAGES: Record<string, string> = {
+    article: `<!DOCTYPE html>
+<html>
+<head><title>Solid-State Batteries Explained</title></head>
+<body>
+    <nav><a href="/">Home</a> <a href="/science">Science</a></nav>
+    <main>
+        <article>
+            <h1>Solid-State Batteries Explained</h1>
+            <p>Solid-state batteries replace the liquid electrolyte of lithium-ion cells with a solid one.
+            The solid electrolyte is not flammable, which makes the cells safer.</p>
+            <p>Manufacturers expect the first cars with solid-state packs before the end of the decade,
+            with energy densities around 500 Wh/kg.</p>
+        </article>
+    </main>
+    <footer>© Example News</footer>
+</body>
+</html>`,
+
+    searchForm: `<!DOCTYPE html>
+<html>
+<head><title>Example Search</title></head>
+<body>
+    <form action="/search">
+        <label for="q">Search</label>
+        <input id="q" name="q" type="search" placeholder="Search the docs" />
+        <button type="submit">Go</button>
+    </form>
+</body>
+</html>`,
+};
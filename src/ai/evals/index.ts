@@ -0,0 +1,64 @@
+/**
+ * Offline Eval Harness
+ * Replays scenarios through the chat pipeline with a scripted model and a
+ * fake chrome layer, so prompt, tool and routing changes can be checked
+ * without a browser or network.
+ *
+ * Run with: pnpm eval [name filter]
+ */
+
+// Must stay the first import: settings modules read chrome.storage on load
+import { fakeChrome, quietLogs } from './setup';
+import { registerSidePanel } from './registerSidePanel';
+import { runCheck, runScenario } from './runScenario';
+import { ALL_CHECKS, ALL_SCENARIOS } from './scenarios';
+import type { EvalCheck, EvalResult, EvalScenario } from './types';
+
+export type { EvalCheck, EvalScenario, EvalResult } from './types';
+
+function printResult(result: EvalResult): void {
+    const status = result.passed ? 'PASS' : 'FAIL';
+    console.log(`${status}  ${result.name} (${result.durationMs}ms)`);
+    if (!result.passed) {
+        for (const failure of result.failures) {
+            console.log(`      - ${failure}`);
+        }
+        const calls = result.toolCalls.map(call => `${call.toolName}${call.errorText ? ' [error]' : ''}`);
+        console.log(`      tool calls: ${calls.join(', ') || 'none'}`);
+        console.log(`      model steps: ${result.modelCalls.length}`);
+    }
+}
+
+/**
+ * Run scenarios, then checks, one after another
+ *
+ * @param filter - Only run scenarios and checks whose name contains this text
+ * @param scenarios - Scenarios to run (default: all)
+ * @param checks - Checks to run (default: all)
+ */
+export async function runEvals(
+    filter?: string,
+    scenarios: EvalScenario[] = ALL_SCENARIOS,
+    checks: EvalCheck[] = ALL_CHECKS
+): Promise<EvalResult[]> {
+    await quietLogs();
+    const { tools, workflows } = await registerSidePanel();
+    console.log(`Registered ${tools.length} tools and ${workflows.length} workflows\n`);
+
+    const selected = filter ? scenarios.filter(scenario => scenario.name.includes(filter)) : scenarios;
+    const results: EvalResult[] = [];
+    for (const scenario of selected) {
+        const result = await runScenario(scenario, fakeChrome);
+        printResult(result);
+        results.push(result);
+    }
+    for (const check of checks.filter(check => !filter || check.name.includes(filter))) {
+        const result = await runCheck(check, fakeChrome);
+        printResult(result);
+        results.push(result);
+    }
+
+    const failed = results.filter(result => !result.passed).length;
+    console.log(`\n${results.length - failed} passed, ${failed} failed`);
+    return results;
+}
@@ -0,0 +1,40 @@
+/**
+ * Eval Model Factory
+ * Replaces src/ai/core/modelFactory.ts in eval bundles (see scripts/run-evals.js)
+ * so every model the pipeline initializes is the current scenario's scripted model
+ */
+
+import type { LanguageModel } from 'ai';
+import type { AIProvider } from '@/utils/credentials';
+import type { AIMode } from '../types/types';
+import type { ModelInitResult } from '../core/modelFactory';
+
+let currentModel: LanguageModel | null = null;
+
+/**
+ * Set the model returned to the pipeline until the next call
+ */
+export function setEvalModel(model: LanguageModel | null): void {
+    currentModel = model;
+}
+
+export async function initializeModel(modelName: string, mode: AIMode): Promise<ModelInitResult> {
+    if (!currentModel) {
+        throw new Error(`No scripted model set for ${mode} model ${modelName}`);
+    }
+    return {
+        model: currentModel,
+        provider: mode === 'local' ? 'local' : 'google',
+        modelName,
+    };
+}
+
+export async function getCurrentProvider(): Promise<AIProvider | 'none'> {
+    return 'google';
+}
+
+export async function isProviderAvailable(_provider: AIProvider): Promise<boolean> {
+    return true;
+}
+
+export type { ModelInitResult };
@@ -0,0 +1,53 @@
+/**
+ * Side Panel Registrations
+ * Tools and workflows register themselves from React hooks in the side
+ * panel. Evals mount the same hooks in a happy-dom document so scenarios
+ * run against the real tool definitions.
+ */
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { Window } from 'happy-dom';
+import { ToolUIProvider } from '../tools/components';
+import { useRegisterAllActions } from '../../actions/registerAll';
+import { useRegisterAllWorkflows } from '../../workflows/registerAll';
+import { getToolNames } from '../tools/registryUtils';
+import { getAllWorkflows } from '../../workflows/registry';
+
+const Registrations: React.FC = () => {
+    useRegisterAllActions();
+    useRegisterAllWorkflows();
+    return null;
+};
+
+/**
+ * Mount the side panel's registration hooks
+ *
+ * @returns Names of the registered tools and workflows
+ */
+export async function registerSidePanel(): Promise<{ tools: string[]; workflows: string[] }> {
+    const window = new Window({ url: 'chrome-extension://eval-extension/sidepanel.html' });
+    const globals = globalThis as Record<string, unknown>;
+    globals.window = window;
+    globals.document = window.document;
+
+    const container = window.document.createElement('div');
+    window.document.body.appendChild(container);
+    const root = createRoot(container as unknown as Element);
+    flushSync(() => {
+        root.render(
+            <ToolUIProvider>
+                <Registrations />
+            </ToolUIProvider>
+        );
+    });
+
+    // Workflow definitions load their settings asynchronously
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    return {
+        tools: getToolNames(),
+        workflows: getAllWorkflows().map(workflow => workflow.id),
+    };
+}
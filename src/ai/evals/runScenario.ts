@@ -0,0 +1,286 @@
+/**
+ * Scenario Runner
+ * Sends a scenario's conversation through the side panel transport (workflow
+ * routing, tool filtering, approvals, streamAIResponse) and checks the result
+ */
+
+import type { UIMessage, UIMessageChunk } from 'ai';
+import { SimpleFrontendTransport } from '../transport/SimpleFrontendTransport';
+import { workflowSessionManager } from '../../workflows/sessionManager';
+import { getPendingToolApproval, resolveToolApproval, subscribeToToolApprovals } from '../tools/approval';
+import type { ToolApprovalDecision } from '../tools/approval';
+import { createScriptedModel } from './scriptedModel';
+import { setEvalModel } from './modelFactory';
+import type { FakeChrome } from './fakeChrome';
+import type { EvalCheck, EvalResult, EvalScenario, ExecutedToolCall, ExpectedToolCall, RecordedModelCall } from './types';
+
+/** A run that takes longer than this is stuck, usually on an unanswered approval */
+const SCENARIO_TIMEOUT_MS = 30000;
+
+/**
+ * Storage every scenario starts from: remote mode with a Gemini key,
+ * so the pipeline takes the same path as a configured install
+ */
+const BASE_STORAGE: Record<string, unknown> = {
+    ai_provider_config: { provider: 'google', googleApiKey: 'eval-key' },
+    ai_model_config: { mode: 'remote', remoteModel: 'gemini-2.5-flash' },
+};
+
+interface TrackedToolCall extends ExecutedToolCall {
+    approval?: 'approved' | 'denied';
+}
+
+async function readChunks(stream: ReadableStream<UIMessageChunk>, onChunk: (chunk: UIMessageChunk) => void): Promise<void> {
+    const reader = stream.getReader();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${SCENARIO_TIMEOUT_MS}ms`)), SCENARIO_TIMEOUT_MS);
+    });
+
+    try {
+        for (; ;) {
+            const { done, value } = await Promise.race([reader.read(), timeout]);
+            if (done) return;
+            onChunk(value);
+        }
+    } finally {
+        clearTimeout(timer);
+        reader.releaseLock();
+    }
+}
+
+function matchesInput(actual: unknown, expected: Record<string, unknown> | undefined): boolean {
+    if (!expected) return true;
+    if (!actual || typeof actual !== 'object') return false;
+    return Object.entries(expected).every(([key, value]) =>
+        JSON.stringify((actual as Record<string, unknown>)[key]) === JSON.stringify(value)
+    );
+}
+
+function isErrorResult(call: ExecutedToolCall): boolean {
+    if (call.errorText) return true;
+    const output = call.output as { error?: unknown; success?: unknown } | undefined;
+    return !!output && typeof output === 'object' && (!!output.error || output.success === false);
+}
+
+function describeExpected(call: ExpectedToolCall): string {
+    const description = call.input ? `${call.toolName}(${JSON.stringify(call.input)})` : call.toolName;
+    return call.outputIncludes ? `${description} returning "${call.outputIncludes}"` : description;
+}
+
+/**
+ * Compare a run against the scenario's expectations
+ *
+ * @returns Failure messages; empty when the run passed
+ */
+function checkExpectations(
+    scenario: EvalScenario,
+    toolCalls: TrackedToolCall[],
+    modelCalls: RecordedModelCall[],
+    reply: string
+): string[] {
+    const failures: string[] = [];
+    const { expect } = scenario;
+    const firstCall = modelCalls[0];
+
+    if (expect.offeredTools || expect.systemPromptIncludes) {
+        if (!firstCall) {
+            failures.push('The model was never called');
+        } else {
+            for (const name of expect.offeredTools?.includes ?? []) {
+                if (!firstCall.tools.includes(name)) failures.push(`Tool "${name}" was not offered to the model`);
+            }
+            for (const name of expect.offeredTools?.excludes ?? []) {
+                if (firstCall.tools.includes(name)) failures.push(`Tool "${name}" should not have been offered to the model`);
+            }
+            for (const text of expect.systemPromptIncludes ?? []) {
+                if (!firstCall.system.includes(text)) failures.push(`System prompt is missing "${text}"`);
+            }
+        }
+    }
+
+    // Expected calls must appear in order; other calls may sit between them
+    let position = 0;
+    for (const expected of expect.toolCalls ?? []) {
+        const index = toolCalls.findIndex((call, i) =>
+            i >= position && call.toolName === expected.toolName && matchesInput(call.input, expected.input) &&
+            (!expected.outputIncludes || JSON.stringify(call.output ?? null).includes(expected.outputIncludes))
+        );
+        if (index < 0) {
+            failures.push(`Expected call ${describeExpected(expected)}; got ${toolCalls.map(call => call.toolName).join(', ') || 'no calls'}`);
+        } else {
+            position = index + 1;
+        }
+    }
+
+    for (const name of expect.notCalled ?? []) {
+        if (toolCalls.some(call => call.toolName === name && call.approval !== 'denied')) {
+            failures.push(`Tool "${name}" should not have run`);
+        }
+    }
+
+    for (const name of expect.toolErrors ?? []) {
+        if (!toolCalls.some(call => call.toolName === name && isErrorResult(call))) {
+            failures.push(`Expected "${name}" to fail or be denied`);
+        }
+    }
+
+    for (const name of expect.needsApproval ?? []) {
+        if (!toolCalls.some(call => call.toolName === name && call.approval)) {
+            failures.push(`Expected "${name}" to ask for approval`);
+        }
+    }
+
+    for (const name of expect.skipsApproval ?? []) {
+        if (toolCalls.some(call => call.toolName === name && call.approval)) {
+            failures.push(`Expected "${name}" to run without approval`);
+        }
+    }
+
+    for (const text of expect.replyIncludes ?? []) {
+        if (!reply.includes(text)) failures.push(`Reply is missing "${text}"`);
+    }
+
+    return failures;
+}
+
+/**
+ * Run one scenario
+ *
+ * @param scenario - Scenario to replay
+ * @param fakeChrome - The installed fake chrome layer; reset for this scenario
+ */
+export async function runScenario(scenario: EvalScenario, fakeChrome: FakeChrome): Promise<EvalResult> {
+    const startedAt = Date.now();
+    const threadId = `eval-${scenario.name}`;
+
+    await fakeChrome.reset({
+        storage: { ...BASE_STORAGE, ...scenario.storage },
+        tabs: scenario.tabs,
+        history: scenario.history,
+    });
+    workflowSessionManager.clearAll();
+
+    const scripted = createScriptedModel(scenario.modelSteps);
+    setEvalModel(scripted.model);
+
+    const calls = new Map<string, TrackedToolCall>();
+    const decision: ToolApprovalDecision | null = scenario.approvals === 'deny'
+        ? { approved: false, reason: 'Denied by the eval scenario' }
+        : null;
+
+    // Approvals can be requested before or after the stream reports the call
+    const answerApprovals = () => {
+        for (const call of calls.values()) {
+            const request = getPendingToolApproval(call.toolCallId);
+            if (!request) continue;
+            call.approval = decision ? 'denied' : 'approved';
+            resolveToolApproval(call.toolCallId, decision ?? { approved: true, input: request.input });
+        }
+    };
+    const unsubscribe = subscribeToToolApprovals(answerApprovals);
+
+    const failures: string[] = [];
+    let reply = '';
+
+    try {
+        const messages: UIMessage[] = [
+            ...(scenario.messages ?? []),
+            { id: `${threadId}-user`, role: 'user', parts: [{ type: 'text', text: scenario.userMessage }] },
+        ];
+        const stream = await new SimpleFrontendTransport().sendMessages({
+            trigger: 'submit-message',
+            chatId: threadId,
+            messageId: undefined,
+            messages,
+            abortSignal: undefined,
+        }) as ReadableStream<UIMessageChunk>;
+
+        await readChunks(stream, chunk => {
+            switch (chunk.type) {
+                case 'tool-input-available':
+                    calls.set(chunk.toolCallId, { toolCallId: chunk.toolCallId, toolName: chunk.toolName, input: chunk.input });
+                    answerApprovals();
+                    break;
+                case 'tool-input-error':
+                    calls.set(chunk.toolCallId, {
+                        toolCallId: chunk.toolCallId,
+                        toolName: chunk.toolName,
+                        input: chunk.input,
+                        errorText: chunk.errorText,
+                    });
+                    break;
+                case 'tool-output-available': {
+                    const call = calls.get(chunk.toolCallId);
+                    if (call) call.output = chunk.output;
+                    break;
+                }
+                case 'tool-output-error': {
+                    const call = calls.get(chunk.toolCallId);
+                    if (call) call.errorText = chunk.errorText;
+                    break;
+                }
+                case 'text-delta':
+                    reply += chunk.delta;
+                    break;
+                case 'error':
+                    failures.push(`Stream error: ${chunk.errorText}`);
+                    break;
+            }
+        });
+    } catch (error) {
+        failures.push(`Run failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+        unsubscribe();
+        setEvalModel(null);
+    }
+
+    if (scripted.overran) {
+        failures.push(`The pipeline asked for more than the ${scenario.modelSteps.length} scripted model steps`);
+    }
+
+    const toolCalls = [...calls.values()];
+    failures.push(...checkExpectations(scenario, toolCalls, scripted.calls, reply));
+
+    return {
+        name: scenario.name,
+        passed: failures.length === 0,
+        failures,
+        toolCalls,
+        modelCalls: scripted.calls,
+        reply,
+        durationMs: Date.now() - startedAt,
+    };
+}
+
+/**
+ * Run one check
+ *
+ * @param check - Check to run
+ * @param fakeChrome - The installed fake chrome layer; reset for this check
+ */
+export async function runCheck(check: EvalCheck, fakeChrome: FakeChrome): Promise<EvalResult> {
+    const startedAt = Date.now();
+
+    await fakeChrome.reset({
+        storage: { ...BASE_STORAGE, ...check.storage },
+        tabs: check.tabs,
+    });
+
+    let failures: string[];
+    try {
+        failures = await check.run();
+    } catch (error) {
+        failures = [`Check failed: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    return {
+        name: check.name,
+        passed: failures.length === 0,
+        failures,
+        toolCalls: [],
+        modelCalls: [],
+        reply: '',
+        durationMs: Date.now() - startedAt,
+    };
+}
@@ -0,0 +1,53 @@
+/**
+ * Tool approval scenarios
+ */
+
+import type { EvalScenario } from '../types';
+
+export const approvalScenarios: EvalScenario[] = [
+    {
+        name: 'navigation-needs-approval',
+        description: 'Asks before navigating and runs the call once approved',
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: 'Open github.com',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'navigateTo', input: { url: 'https://github.com', newTab: true } }] },
+            { text: 'Opened GitHub in a new tab.' },
+        ],
+        approvals: 'approve',
+        expect: {
+            needsApproval: ['navigateTo'],
+            toolCalls: [{ toolName: 'navigateTo', input: { url: 'https://github.com' } }],
+        },
+    },
+    {
+        name: 'denied-typing-is-reported',
+        description: 'Returns a denial to the model instead of typing',
+        tabs: [{ id: 1, url: 'https://docs.example.com/', title: 'Example Search', active: true, page: 'searchForm' }],
+        userMessage: 'Search the docs for "streaming"',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'typeInField', input: { text: 'streaming', target: 'search box', pressEnter: true } }] },
+            { text: 'Okay, I will not type anything.' },
+        ],
+        approvals: 'deny',
+        expect: {
+            needsApproval: ['typeInField'],
+            toolErrors: ['typeInField'],
+            notCalled: ['typeInField'],
+        },
+    },
+    {
+        name: 'read-only-tools-skip-approval',
+        description: 'Runs read-only tools without asking',
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: 'What tabs do I have open?',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'getAllTabs', input: {} }] },
+            { text: 'You have one tab open.' },
+        ],
+        expect: {
+            skipsApproval: ['getAllTabs'],
+            toolCalls: [{ toolName: 'getAllTabs', outputIncludes: 'example.com' }],
+        },
+    },
+];
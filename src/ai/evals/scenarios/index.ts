@@ -0,0 +1,17 @@
+import { pageReadingScenarios } from './pageReading';
+import { toolFilteringScenarios } from './toolFiltering';
+import { workflowScenarios } from './workflows';
+import { approvalScenarios } from './approvals';
+import { scheduledTaskChecks } from './scheduledTasks';
+import type { EvalCheck, EvalScenario } from '../types';
+
+export const ALL_SCENARIOS: EvalScenario[] = [
+    ...pageReadingScenarios,
+    ...toolFilteringScenarios,
+    ...workflowScenarios,
+    ...approvalScenarios,
+];
+
+export const ALL_CHECKS: EvalCheck[] = [
+    ...scheduledTaskChecks,
+];
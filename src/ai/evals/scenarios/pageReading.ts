@@ -0,0 +1,48 @@
+/**
+ * Page and history reading scenarios
+ */
+
+import type { EvalScenario } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+
+export const pageReadingScenarios: EvalScenario[] = [
+    {
+        name: 'summarize-active-page',
+        description: 'Reads the active tab before summarizing it',
+        tabs: [
+            { id: 1, url: 'https://news.example.com/solid-state', title: 'Solid-State Batteries Explained', active: true, page: 'article' },
+        ],
+        userMessage: 'Summarize this page for me',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'getActiveTab', input: {} }] },
+            { toolCalls: [{ toolName: 'readPageContent', input: {} }] },
+            { text: 'Solid-state batteries use a solid, non-flammable electrolyte.' },
+        ],
+        expect: {
+            toolCalls: [
+                { toolName: 'getActiveTab', outputIncludes: 'news.example.com' },
+                { toolName: 'readPageContent', outputIncludes: 'solid electrolyte' },
+            ],
+            notCalled: ['navigateTo'],
+            replyIncludes: ['non-flammable'],
+        },
+    },
+    {
+        name: 'search-history-by-topic',
+        description: 'Finds a previously visited page in history',
+        history: [
+            { url: 'https://doc.rust-lang.org/book/ch04-01-what-is-ownership.html', title: 'What is Ownership? - The Rust Book', lastVisitTime: Date.now() - 20 * HOUR },
+            { url: 'https://react.dev/learn', title: 'Quick Start - React', lastVisitTime: Date.now() - 2 * HOUR },
+        ],
+        userMessage: 'What was that Rust article I read yesterday?',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'searchHistory', input: { query: 'rust', maxResults: 10 } }] },
+            { text: 'You read "What is Ownership?" from the Rust Book.' },
+        ],
+        expect: {
+            offeredTools: { includes: ['searchHistory'] },
+            toolCalls: [{ toolName: 'searchHistory', input: { query: 'rust' }, outputIncludes: 'What is Ownership?' }],
+        },
+    },
+];
@@ -0,0 +1,36 @@
+/**
+ * Scheduled task checks
+ * Scheduled runs have nobody to approve tool calls, so the tools they rely on
+ * must be allowed under the default approval settings
+ */
+
+import { getScheduledTaskTools } from '../../../background/scheduler/tools';
+import type { EvalCheck } from '../types';
+
+export const scheduledTaskChecks: EvalCheck[] = [
+    {
+        name: 'scheduled-read-tab-skips-approval',
+        description: 'Scheduled runs can read tabs with the default approval settings',
+        tabs: [
+            { id: 1, url: 'https://example.com/', title: 'Example', active: true },
+            { id: 2, url: 'https://github.com/org/repo/pull/1', title: 'Fix flaky test', page: 'article' },
+        ],
+        run: async () => {
+            const tools = await getScheduledTaskTools(['getAllTabs', 'readTab']);
+            const failures: string[] = [];
+
+            for (const [name, input] of [['getAllTabs', { urlContains: 'github.com' }], ['readTab', { tabId: 2 }]] as const) {
+                const execute = tools[name]?.execute;
+                if (!execute) {
+                    failures.push(`Tool "${name}" is not available to scheduled runs`);
+                    continue;
+                }
+                const output = await execute(input, { toolCallId: `eval-${name}`, messages: [] }) as { denied?: boolean };
+                if (output?.denied) {
+                    failures.push(`Tool "${name}" was refused in a scheduled run`);
+                }
+            }
+            return failures;
+        },
+    },
+];
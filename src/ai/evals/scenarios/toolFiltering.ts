@@ -0,0 +1,55 @@
+/**
+ * Tool filtering scenarios
+ */
+
+import type { EvalScenario } from '../types';
+
+export const toolFilteringScenarios: EvalScenario[] = [
+    {
+        name: 'enabled-tools-override',
+        description: 'Only offers the tools the user enabled in settings',
+        storage: {
+            userSettings: { enabledToolsOverride: ['getActiveTab', 'readPageContent'] },
+        },
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: 'Which page am I on?',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'getActiveTab', input: {} }] },
+            { text: 'You are on example.com.' },
+        ],
+        expect: {
+            offeredTools: {
+                includes: ['getActiveTab', 'readPageContent'],
+                excludes: ['navigateTo', 'typeInField', 'generatePDF'],
+            },
+            toolCalls: [{ toolName: 'getActiveTab' }],
+        },
+    },
+    {
+        name: 'search-tools-hidden-in-agent-mode',
+        description: 'Keeps web search tools out of normal agent turns',
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: 'Hi there',
+        modelSteps: [{ text: 'Hello! How can I help?' }],
+        expect: {
+            offeredTools: {
+                includes: ['getActiveTab'],
+                excludes: ['webSearch', 'retrieve', 'deepWebSearch', 'getReportTemplate'],
+            },
+            notCalled: ['getActiveTab'],
+        },
+    },
+    {
+        name: 'unavailable-tool-call',
+        description: 'Reports a call to a tool that does not exist back to the model',
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: 'Open a new window',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'openWindow', input: {} }] },
+            { text: 'I cannot open windows, but I can open a tab.' },
+        ],
+        expect: {
+            toolErrors: ['openWindow'],
+        },
+    },
+];
@@ -0,0 +1,36 @@
+/**
+ * Workflow routing scenarios
+ */
+
+import type { EvalScenario } from '../types';
+
+export const workflowScenarios: EvalScenario[] = [
+    {
+        name: 'research-command-routing',
+        description: 'Routes /research to the research workflow prompt and tools',
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: '/research solid-state batteries',
+        modelSteps: [
+            { toolCalls: [{ toolName: 'getAllTabs', input: {} }] },
+            { text: 'Starting research on solid-state batteries.' },
+        ],
+        expect: {
+            systemPromptIncludes: ['Research Workflow Agent'],
+            offeredTools: {
+                includes: ['readPageContent', 'generatePDF', 'getReportTemplate'],
+                excludes: ['createReminder', 'saveMemory'],
+            },
+            toolCalls: [{ toolName: 'getAllTabs' }],
+        },
+    },
+    {
+        name: 'unknown-command-is-chat',
+        description: 'Treats an unknown slash command as a normal message',
+        tabs: [{ id: 1, url: 'https://example.com/', title: 'Example', active: true }],
+        userMessage: '/notaworkflow hello',
+        modelSteps: [{ text: 'Hello!' }],
+        expect: {
+            offeredTools: { excludes: ['generatePDF'] },
+        },
+    },
+];
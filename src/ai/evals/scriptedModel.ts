@@ -0,0 +1,94 @@
+/**
+ * Scripted Model
+ * A mock language model that replays a scenario's steps in order and
+ * records what the pipeline sent on each step
+ */
+
+import { simulateReadableStream } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+import type { EvalModelStep, RecordedModelCall } from './types';
+
+type StreamOptions = Parameters<MockLanguageModelV2['doStream']>[0];
+type StreamResult = Awaited<ReturnType<MockLanguageModelV2['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer T> ? T : never;
+
+/** Reply used when the pipeline asks for more steps than the scenario scripted */
+const OUT_OF_SCRIPT_REPLY = '[scripted model: no more steps]';
+
+export interface ScriptedModel {
+    model: MockLanguageModelV2;
+    calls: RecordedModelCall[];
+    /** Set when the pipeline asked for more steps than were scripted */
+    overran: boolean;
+}
+
+function recordCall(options: StreamOptions): RecordedModelCall {
+    const system = options.prompt
+        .filter(message => message.role === 'system')
+        .map(message => message.content)
+        .join('\n');
+    const tools = (options.tools ?? []).map(tool => tool.name);
+    return { system, tools };
+}
+
+function toStreamParts(step: EvalModelStep, stepIndex: number): StreamPart[] {
+    const parts: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+    if (step.text) {
+        const id = `text-${stepIndex}`;
+        parts.push(
+            { type: 'text-start', id },
+            { type: 'text-delta', id, delta: step.text },
+            { type: 'text-end', id },
+        );
+    }
+
+    const toolCalls = step.toolCalls ?? [];
+    toolCalls.forEach((call, index) => {
+        parts.push({
+            type: 'tool-call',
+            toolCallId: `call-${stepIndex}-${index}`,
+            toolName: call.toolName,
+            input: JSON.stringify(call.input),
+        });
+    });
+
+    parts.push({
+        type: 'finish',
+        finishReason: toolCalls.length > 0 ? 'tool-calls' : 'stop',
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+    });
+    return parts;
+}
+
+/**
+ * Create a model that answers step N with `steps[N]`
+ */
+export function createScriptedModel(steps: EvalModelStep[]): ScriptedModel {
+    const scripted: ScriptedModel = {
+        model: undefined as unknown as MockLanguageModelV2,
+        calls: [],
+        overran: false,
+    };
+
+    scripted.model = new MockLanguageModelV2({
+        provider: 'eval',
+        modelId: 'scripted',
+        doStream: async (options) => {
+            const stepIndex = scripted.calls.length;
+            scripted.calls.push(recordCall(options));
+
+            let step = steps[stepIndex];
+            if (!step) {
+                scripted.overran = true;
+                step = { text: OUT_OF_SCRIPT_REPLY };
+            }
+
+            return {
+                stream: simulateReadableStream({ chunks: toStreamParts(step, stepIndex) }),
+            };
+        },
+    });
+
+    return scripted;
+}
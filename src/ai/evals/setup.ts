@@ -0,0 +1,19 @@
+/**
+ * Eval Setup
+ * Installs the fake chrome layer. Imported first by the eval entry point,
+ * because several settings modules read chrome.storage when they load.
+ */
+
+import { installFakeChrome } from './fakeChrome';
+import { LoggerConfigManager } from '../../logger';
+import { LOG_PRESETS } from '../../constants';
+
+export const fakeChrome = installFakeChrome();
+
+/**
+ * Keep eval output to results and errors
+ */
+export async function quietLogs(): Promise<void> {
+    await chrome.storage.local.set({ logger_config: LOG_PRESETS.PRODUCTION });
+    await LoggerConfigManager.initialize();
+}
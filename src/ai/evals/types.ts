@@ -0,0 +1,139 @@
+/**
+ * Eval Harness Types
+ * Scenarios replay a conversation against a scripted model and check
+ * which tools the chat pipeline offered, ran and with which arguments
+ */
+
+import type { UIMessage } from 'ai';
+
+/**
+ * A tool call the scripted model makes
+ */
+export interface EvalToolCall {
+    toolName: string;
+    input: Record<string, unknown>;
+}
+
+/**
+ * What the scripted model returns for one step
+ * A step with tool calls continues the loop; a text-only step ends it
+ */
+export interface EvalModelStep {
+    text?: string;
+    toolCalls?: EvalToolCall[];
+}
+
+/**
+ * A browser tab in the fake chrome layer
+ */
+export interface EvalTab {
+    id: number;
+    url: string;
+    title: string;
+    active?: boolean;
+    /** Fixture page name (see fixtures/pages.ts) served to content scripts */
+    page?: string;
+}
+
+/**
+ * A history entry returned by chrome.history.search
+ */
+export interface EvalHistoryItem {
+    url: string;
+    title: string;
+    lastVisitTime: number;
+    visitCount?: number;
+}
+
+/**
+ * Expected tool call; `input` matches when each listed field is equal
+ */
+export interface ExpectedToolCall {
+    toolName: string;
+    input?: Record<string, unknown>;
+    /** Text the serialized tool result must contain */
+    outputIncludes?: string;
+}
+
+export interface EvalExpectations {
+    /** Calls that must run, in this order (other calls may be interleaved) */
+    toolCalls?: ExpectedToolCall[];
+    /** Tools that must not run */
+    notCalled?: string[];
+    /** Tools the model may (or may not) see on the first step */
+    offeredTools?: {
+        includes?: string[];
+        excludes?: string[];
+    };
+    /** Text the first step's system prompt must contain */
+    systemPromptIncludes?: string[];
+    /** Tools whose result must be an error or a denial */
+    toolErrors?: string[];
+    /** Tools that must ask for approval before running */
+    needsApproval?: string[];
+    /** Tools that must run without asking */
+    skipsApproval?: string[];
+    /** Text the assistant's reply must contain */
+    replyIncludes?: string[];
+}
+
+export interface EvalScenario {
+    name: string;
+    description: string;
+    /** chrome.storage.local contents on top of the harness defaults */
+    storage?: Record<string, unknown>;
+    tabs?: EvalTab[];
+    history?: EvalHistoryItem[];
+    /** Earlier turns of a recorded conversation */
+    messages?: UIMessage[];
+    /** The user message that starts the run; slash commands route to workflows */
+    userMessage: string;
+    /** Scripted model output, one entry per step */
+    modelSteps: EvalModelStep[];
+    /** How to answer tool approval prompts (default: approve) */
+    approvals?: 'approve' | 'deny';
+    expect: EvalExpectations;
+}
+
+/**
+ * A direct check of code outside the chat pipeline, e.g. the background's
+ * scheduled task tools, run against the same fake chrome layer
+ */
+export interface EvalCheck {
+    name: string;
+    description: string;
+    /** chrome.storage.local contents on top of the harness defaults */
+    storage?: Record<string, unknown>;
+    tabs?: EvalTab[];
+    /** @returns Failure messages; empty when the check passed */
+    run: () => Promise<string[]>;
+}
+
+/**
+ * A tool call as it ran through the pipeline
+ */
+export interface ExecutedToolCall {
+    toolCallId: string;
+    toolName: string;
+    input: unknown;
+    output?: unknown;
+    errorText?: string;
+}
+
+/**
+ * What the model was sent on one step
+ */
+export interface RecordedModelCall {
+    system: string;
+    tools: string[];
+}
+
+export interface EvalResult {
+    name: string;
+    passed: boolean;
+    failures: string[];
+    toolCalls: ExecutedToolCall[];
+    modelCalls: RecordedModelCall[];
+    reply: string;
+    durationMs: number;
+}
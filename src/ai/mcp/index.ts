@@ -4,6 +4,7 @@
  * This module handles Model Context Protocol integration:
  * - client.ts: MCP client management and direct connections
  * - proxy.ts: Proxy interface to background service worker's persistent connections
+ * - prompts.ts: MCP prompts exposed as slash commands
  */
 
 // MCP Client (direct connections)
@@ -19,5 +20,23 @@ export {
 
 // MCP Proxy (background service worker connections)
 export {
-    getMCPToolsFromBackground
+    getMCPToolsFromBackground,
+    listMCPToolDefinitions,
+    listMCPResources,
+    readMCPResource,
+    subscribeMCPResource,
+    listMCPPrompts,
+    getMCPPrompt,
+    type MCPResourceItem,
+    type MCPPromptItem
 } from './proxy';
+
+// MCP prompts as slash commands
+export {
+    listMCPPromptCommands,
+    findMCPPromptCommand,
+    expandMCPPromptCommand,
+    promptMessagesToText,
+    toPromptCommandId,
+    type MCPPromptCommand
+} from './prompts';
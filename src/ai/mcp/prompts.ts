@@ -0,0 +1,83 @@
+/**
+ * MCP Prompt Commands
+ * Exposes prompts from connected MCP servers as slash commands.
+ * Arguments use the same `name=value` syntax as pipeline workflow inputs.
+ */
+
+import { getAllWorkflows } from '@/workflows/registry';
+import { parsePipelineInputs } from '@/workflows/pipeline/values';
+import type { McpPromptGetResponse } from '@/mcp/types';
+import { getMCPPrompt, listMCPPrompts, type MCPPromptItem } from './proxy';
+
+/**
+ * Slash command backed by an MCP prompt
+ */
+export interface MCPPromptCommand {
+    /** Command typed after the slash */
+    id: string;
+    prompt: MCPPromptItem;
+}
+
+/**
+ * Turn a prompt name into a slash command id (letters, numbers, underscores)
+ */
+export function toPromptCommandId(name: string): string {
+    return name.replace(/\W+/g, '_');
+}
+
+/**
+ * List prompts as slash commands
+ * Workflows win on id conflicts, and the first server wins among prompts
+ */
+export async function listMCPPromptCommands(): Promise<MCPPromptCommand[]> {
+    const taken = new Set(getAllWorkflows().map(workflow => workflow.id));
+    const commands: MCPPromptCommand[] = [];
+
+    for (const prompt of await listMCPPrompts()) {
+        const id = toPromptCommandId(prompt.name);
+        if (!id || taken.has(id)) continue;
+        taken.add(id);
+        commands.push({ id, prompt });
+    }
+
+    return commands;
+}
+
+/**
+ * Find the prompt command for a slash command id
+ */
+export async function findMCPPromptCommand(id: string): Promise<MCPPromptCommand | undefined> {
+    const commands = await listMCPPromptCommands();
+    return commands.find(command => command.id === id);
+}
+
+/**
+ * Flatten prompt messages into the text sent to the chat
+ */
+export function promptMessagesToText(response: McpPromptGetResponse): string {
+    return response.messages
+        .map(({ content }) => {
+            if (content.type === 'text') return content.text;
+            if (content.type === 'resource') return content.resource.text ?? `[Resource: ${content.resource.uri}]`;
+            return `[Image: ${content.mimeType}]`;
+        })
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+/**
+ * Render a prompt command with the text typed after it
+ *
+ * @throws Error when a required argument is missing or the server rejects the prompt
+ */
+export async function expandMCPPromptCommand(command: MCPPromptCommand, argsText: string): Promise<string> {
+    const specs = (command.prompt.arguments ?? []).map(arg => ({
+        name: arg.name,
+        type: 'string' as const,
+        description: arg.description,
+        required: arg.required,
+    }));
+    const args = parsePipelineInputs(specs, argsText) as Record<string, string>;
+    const response = await getMCPPrompt(command.prompt.serverId, command.prompt.name, args);
+    return promptMessagesToText(response);
+}
@@ -14,6 +14,7 @@
 import { createLogger } from '~logger';
 import { z } from 'zod';
 import { registerToolServer } from '@/utils/mcp';
+import type { McpPrompt, McpPromptGetResponse, McpResource, McpResourceReadResponse } from '@/mcp/types';
 
 const log = createLogger('MCP-Proxy', 'MCP_EXECUTION');
 
@@ -32,6 +33,152 @@ interface MCPToolDefinition {
     serverName: string;
 }
 
+/**
+ * List MCP tool names and descriptions without creating executors
+ * Used by settings UIs such as the workflow tool picker
+ */
+export async function listMCPToolDefinitions(): Promise<Array<Pick<MCPToolDefinition, 'name' | 'description' | 'serverName'>>> {
+    try {
+        const response = await chrome.runtime.sendMessage({ type: 'mcp/tools/list' });
+        if (!response?.success) {
+            log.warn('Failed to list MCP tools', response?.error);
+            return [];
+        }
+        const toolDefinitions: MCPToolDefinition[] = response.data.tools || [];
+        return toolDefinitions.map(({ name, description, serverName }) => ({ name, description, serverName }));
+    } catch (error) {
+        log.warn('MCP tools unavailable', error);
+        return [];
+    }
+}
+
+/**
+ * Resource advertised by a connected MCP server
+ */
+export interface MCPResourceItem extends McpResource {
+    serverId: string;
+    serverName: string;
+}
+
+/**
+ * Prompt advertised by a connected MCP server
+ */
+export interface MCPPromptItem extends McpPrompt {
+    serverId: string;
+    serverName: string;
+}
+
+/**
+ * List resources from all connected MCP servers
+ */
+export async function listMCPResources(): Promise<MCPResourceItem[]> {
+    try {
+        const response = await chrome.runtime.sendMessage({ type: 'mcp/resources/list' });
+        if (!response?.success) {
+            log.warn('Failed to list MCP resources', response?.error);
+            return [];
+        }
+        return response.data.resources || [];
+    } catch (error) {
+        log.warn('MCP resources unavailable', error);
+        return [];
+    }
+}
+
+/**
+ * Read a resource through the background's persistent connection
+ * @returns The resource contents flattened to text
+ * @throws Error when the server is unavailable or the read fails
+ */
+export async function readMCPResource(serverId: string, uri: string): Promise<string> {
+    const response = await chrome.runtime.sendMessage({
+        type: `mcp/${serverId}/resource/read`,
+        payload: { uri }
+    });
+
+    if (!response?.success) {
+        throw new Error(response?.error || 'Failed to read resource');
+    }
+
+    const { contents }: McpResourceReadResponse = response.data;
+    return contents
+        .map(item => item.text ?? `[Binary content: ${item.mimeType || 'unknown type'}, ${item.uri}]`)
+        .join('\n\n');
+}
+
+/**
+ * Subscribe to change notifications for a resource
+ * @returns Function that removes the listener and unsubscribes on the server
+ * @throws Error when the server does not support subscriptions
+ */
+export async function subscribeMCPResource(
+    serverId: string,
+    uri: string,
+    onUpdate: (uri: string) => void
+): Promise<() => void> {
+    const response = await chrome.runtime.sendMessage({
+        type: `mcp/${serverId}/resource/subscribe`,
+        payload: { uri }
+    });
+
+    if (!response?.success) {
+        throw new Error(response?.error || 'Failed to subscribe to resource');
+    }
+
+    const listener = (message: any) => {
+        if (message?.type === `mcp/${serverId}/resource/updated` && message.payload?.uri === uri) {
+            onUpdate(uri);
+        }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+
+    return () => {
+        chrome.runtime.onMessage.removeListener(listener);
+        chrome.runtime.sendMessage({
+            type: `mcp/${serverId}/resource/unsubscribe`,
+            payload: { uri }
+        }).catch((error) => log.warn('Failed to unsubscribe from resource', error));
+    };
+}
+
+/**
+ * List prompts from all connected MCP servers
+ */
+export async function listMCPPrompts(): Promise<MCPPromptItem[]> {
+    try {
+        const response = await chrome.runtime.sendMessage({ type: 'mcp/prompts/list' });
+        if (!response?.success) {
+            log.warn('Failed to list MCP prompts', response?.error);
+            return [];
+        }
+        return response.data.prompts || [];
+    } catch (error) {
+        log.warn('MCP prompts unavailable', error);
+        return [];
+    }
+}
+
+/**
+ * Render an MCP prompt with arguments
+ * @throws Error when the server is unavailable or rejects the arguments
+ */
+export async function getMCPPrompt(
+    serverId: string,
+    name: string,
+    args?: Record<string, string>
+): Promise<McpPromptGetResponse> {
+    const response = await chrome.runtime.sendMessage({
+        type: `mcp/${serverId}/prompt/get`,
+        payload: { name, arguments: args }
+    });
+
+    if (!response?.success) {
+        throw new Error(response?.error || `Failed to get prompt ${name}`);
+    }
+
+    return response.data;
+}
+
 /**
  * Get all available MCP tools from background service worker's persistent connections
  */
@@ -1,7 +1,8 @@
 /**
  * Model Management - Barrel Export
- * Exports model download utilities
+ * Exports model download and discovery utilities
  */
 
 export * from './downloader';
 
+export * from './openAICompatible';
@@ -0,0 +1,100 @@
+/**
+ * OpenAI-compatible model discovery
+ * Lists the models served by an OpenAI-compatible endpoint (GET {baseUrl}/models)
+ */
+
+import { createLogger } from '~logger';
+import { APIError, ErrorType, NetworkError } from '../../errors/errorTypes';
+import { customFetch } from '../utils/fetchHelpers';
+
+const log = createLogger('OpenAICompatibleModels', 'AI_CHAT');
+
+const DISCOVERY_TIMEOUT_MS = 10_000;
+
+interface ModelsListResponse {
+    data?: Array<{ id?: unknown }>;
+}
+
+/**
+ * Normalize a user-entered base URL
+ * A bare origin such as "http://localhost:11434" gets the conventional /v1 path
+ */
+export function normalizeOpenAICompatibleBaseUrl(baseUrl: string): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    try {
+        const url = new URL(trimmed);
+        return url.pathname === '/' || url.pathname === '' ? `${trimmed}/v1` : trimmed;
+    } catch {
+        return trimmed;
+    }
+}
+
+/**
+ * Fetch the model IDs an OpenAI-compatible server offers
+ *
+ * @param baseUrl - API root including the version path
+ * @param apiKey - Bearer token, if the server requires one
+ * @returns Model IDs sorted alphabetically
+ * @throws {APIError} If the server rejects the request or returns an unexpected body
+ * @throws {NetworkError} If the server can't be reached
+ */
+export async function fetchOpenAICompatibleModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+    const url = `${normalizeOpenAICompatibleBaseUrl(baseUrl)}/models`;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    let response: Response;
+    try {
+        response = await customFetch(url, { headers, signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+    } catch (error) {
+        log.warn('Model discovery request failed', { url, error });
+        throw new NetworkError({
+            message: 'Could not reach the OpenAI-compatible server',
+            retryable: false,
+            userMessage: `Could not reach ${url}. Check that the server is running and the base URL is correct.`,
+            technicalDetails: error instanceof Error ? error.message : String(error),
+            errorCode: ErrorType.NETWORK_UNREACHABLE,
+        });
+    }
+
+    if (response.status === 401 || response.status === 403) {
+        throw new APIError({
+            message: 'OpenAI-compatible server rejected the request',
+            statusCode: response.status,
+            retryable: false,
+            userMessage: 'The server rejected the request. Check the API key (for Ollama, allow extension origins with OLLAMA_ORIGINS).',
+            technicalDetails: `GET ${url} returned ${response.status}`,
+            errorCode: ErrorType.API_AUTH_FAILED,
+        });
+    }
+    if (!response.ok) {
+        throw new APIError({
+            message: 'Failed to list models',
+            statusCode: response.status,
+            retryable: false,
+            userMessage: `The server returned ${response.status} when listing models.`,
+            technicalDetails: `GET ${url} returned ${response.status}`,
+            errorCode: ErrorType.API_INVALID_REQUEST,
+        });
+    }
+
+    const body = (await response.json().catch(() => null)) as ModelsListResponse | null;
+    if (!body || !Array.isArray(body.data)) {
+        throw new APIError({
+            message: 'Unexpected models response',
+            statusCode: response.status,
+            retryable: false,
+            userMessage: 'The server did not return a model list. Is this an OpenAI-compatible endpoint?',
+            technicalDetails: `GET ${url} returned a body without a data array`,
+            errorCode: ErrorType.API_INVALID_REQUEST,
+        });
+    }
+
+    const models = body.data
+        .map(model => model.id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0)
+        .sort((a, b) => a.localeCompare(b));
+
+    log.info('Discovered models', { url, count: models.length });
+    return models;
+}
@@ -166,9 +166,10 @@ saveMemory:
   Example: saveMemory(category="fact", key="user.name", value="John")
 
 listMemories:
-  Description: List all saved memories
+  Description: List saved memories, or search them by topic
   Parameters:
     - category (optional): Filter by category
+    - query (optional): Topic to search for
     - limit (optional): Maximum number of memories to return
   Example: listMemories(category="fact", limit=20)
 
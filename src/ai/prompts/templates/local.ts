@@ -26,6 +26,15 @@ TOOLS:
 - cancelReminder(identifier) - Cancel an existing reminder
   Usage: cancelReminder(identifier="reminder-id") to remove a scheduled reminder
 
+- saveMemory(category, key, value) - Remember a fact ("fact") or preference ("behavior") on this device
+  Usage: saveMemory(category="fact", key="user.name", value="John") - ask the user before saving
+
+- getMemory(key) / listMemories(category?, query?, limit?) - Recall saved memories
+  Usage: getMemory(key="user.name") or listMemories(query="travel") when you don't know the key
+
+- deleteMemory(key) - Forget a saved memory
+  Usage: deleteMemory(key="user.name") when the user asks you to forget something
+
 MANDATORY SEARCH WORKFLOW (FOR ANY QUERY that REQUIRES INFO FROM THE WEB):
 ⚠️ NEVER call getSearchResults() without first navigating to Google! ⚠️
 
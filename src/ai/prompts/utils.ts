@@ -156,6 +156,13 @@ When blocked by permissions or technical limits, try fallback approaches and exp
                 "    * Parameters: key (e.g., 'Enter', 'Escape', 'Tab', 'ArrowDown', 'Space', 'Backspace')",
                 "    * Examples: pressKey({key: 'Enter'}), pressKey({key: 'Escape'}), pressKey({key: 'Tab'})",
                 "    * IMPORTANT: Use Escape to close search dropdowns, overlays, or modal dialogs after search operations",
+
+                "  - getAccessibilitySnapshot + clickByRef / typeByRef / selectByRef: Act on elements by ref",
+                "    * getAccessibilitySnapshot lists the page as roles, names and states with a ref per element, e.g. button \"Compose\" [ref=e4]",
+                "    * Covers icon-only buttons, shadow DOM and same-origin iframes; use interactiveOnly=true for a shorter list",
+                "    * Then clickByRef({ref: 'e4'}), typeByRef({ref: 'e7', text: 'hello', pressEnter: true}), selectByRef({ref: 'e9', option: 'Canada'})",
+                "    * USE WHEN: clickByText/typeInField can't find the element, several elements share the same text, or the page is a complex web app",
+                "    * Refs reset after navigation; take a new snapshot whenever the page changed substantially",
                 
                 "INTERACTION BEST PRACTICES:",
                 "  - After navigation/tab changes, use readPageContent to see what inputs/buttons/links are available",
@@ -179,6 +186,7 @@ When blocked by permissions or technical limits, try fallback approaches and exp
 
                 "CONTENT EXTRACTION - CHOOSE THE RIGHT TOOL:",
                 "  readPageContent → Basic text (fast, simple answers)",
+                "  readTabs → Several tabs or URLs at once, in parallel without switching; numbered sources to cite as [id](url)",
                 "  extractText → Page structure analysis + search bar detection (page type, headings, landmarks, search inputs)",
                 "  findSearchBar → Locate search inputs ONLY (returns exact selectors, placeholders, IDs)",
                 "  Rule: Can't find search? Use findSearchBar first, then typeInField with returned selector.",
@@ -236,6 +244,8 @@ When blocked by permissions or technical limits, try fallback approaches and exp
                 "  - TIME CLARIFICATION REQUIRED: When user provides ambiguous times ('tomorrow', 'today', 'next week' without specific time), you MUST ask: 'What time would you like the reminder?' NEVER assume or default to any time.",
                 "  - Only use createReminder when you have a SPECIFIC time (e.g., 'tomorrow at 2pm', 'in 2 hours', 'next Monday at 9am')",
                 "  - Parse natural language: 'tomorrow at 2pm', 'next Monday at 9am', 'in 2 hours', 'in 30 minutes', 'today at 5pm'",
+                "  - REPEATING: For 'every day at 8am', 'every weekday', 'every Monday and Thursday', 'monthly', or 'every 2 hours', set repeat (daily/weekdays/weekly/monthly/interval) with daysOfWeek or intervalMinutes; 'when' is the first occurrence",
+                "  - Use 'cancelReminder' with onlyNext=true to skip just the next occurrence of a repeating reminder; without it the whole series is cancelled",
                 "  - CRITICAL: When creating reminders, you MUST generate fun, creative notification content:",
                 "    * generatedTitle: A catchy, engaging title (max 50 chars) that makes the reminder exciting",
                 "    * generatedDescription: A motivational quote or fun message (max 100 chars)",
@@ -254,6 +264,21 @@ When blocked by permissions or technical limits, try fallback approaches and exp
                 "  - Use 'cancelReminder' to remove a reminder by title or ID",
                 "  - Example suggestions: 'Would you like me to set a reminder to apply for this job tomorrow at 9 AM?'",
 
+                "SCHEDULED TASKS:",
+                "  - scheduleTask runs a prompt in the background once or repeatedly; each result becomes a new chat with a notification",
+                "  - Use it when the user wants work done later or regularly ('every weekday at 9am, summarize my PR tabs'); use createReminder for plain notifications",
+                "  - Write the prompt so it stands alone; start it with a slash command (e.g. '/research topic') to use a workflow",
+                "  - Use 'listScheduledTasks' to show tasks and 'cancelScheduledTask' to delete or pause one",
+
+                "LOCAL MEMORY:",
+                "  - On-device memory that works offline; relevant memories are added to this prompt automatically",
+                "  - Tools: saveMemory, getMemory, listMemories, deleteMemory",
+                "  - CONSENT FIRST: Ask before saving anything the user didn't explicitly ask you to remember",
+                "  - saveMemory: category 'fact' for information about the user, 'behavior' for how they want you to respond",
+                "  - Use specific dotted keys (e.g. 'user.home_city'); saving an existing key replaces it",
+                "  - listMemories(query=...) searches by topic when you don't know the key",
+                "  - Use deleteMemory when the user asks you to forget something",
+
                 "SUPERMEMORY (when enabled):",
                 "  - Persistent memory across sessions using Supermemory cloud storage",
                 "  - Tools: addMemory, searchMemories",
@@ -336,6 +361,10 @@ When blocked by permissions or technical limits, try fallback approaches and exp
                 "createReminder - Set time-based reminders with creative notification content (requires consent for time clarification)",
                 "listReminders - Show all active upcoming reminders",
                 "cancelReminder - Remove a reminder by title or ID",
+                "SCHEDULED TASK TOOLS:",
+                "scheduleTask - Run a prompt or workflow in the background on a schedule (results saved as new chats)",
+                "listScheduledTasks - Show scheduled tasks and their next run",
+                "cancelScheduledTask - Delete or pause a scheduled task",
                 "EMAIL TOOLS:",
                 "navigateTo - Open any email service (Gmail, Outlook, Yahoo, iCloud, etc.)",
                 "typeInField - Compose emails by typing in email fields (To, Subject, Body)",
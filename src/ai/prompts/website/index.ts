@@ -5,6 +5,8 @@ export type { WebsiteConfig, WebsiteToolContext } from './types';
 export {
     getCurrentWebsite,
     matchUrlToWebsite,
+    matchesUrlPattern,
+    getActiveWebsiteConfigs,
     getAllWebsiteConfigs,
     registerWebsiteConfig,
 } from './websiteDetector';
@@ -25,11 +27,33 @@ export {
     validatePromptAddition,
 } from './promptAugmenter';
 
+// User Site Profiles
+export {
+    SITE_PROFILES_STORAGE_KEY,
+    DEFAULT_CUSTOM_PROFILE_PRIORITY,
+    DEFAULT_SITE_PROFILE_SETTINGS,
+    getSiteProfileSettings,
+    saveCustomSiteProfile,
+    deleteCustomSiteProfile,
+    setBuiltInSiteProfileEnabled,
+    isBuiltInSiteProfile,
+    validateSiteProfile,
+    toSiteProfileId,
+    exportSiteProfiles,
+    parseSiteProfilesJson,
+    importSiteProfiles,
+} from './siteProfiles';
+export type { SiteProfileSettings } from './siteProfiles';
+
 // Site Configurations
 export {
     baseWebsiteConfig,
-    // FUTURE: Add website-specific configs here
-    // Example:
-    // googleDocsConfig,
-    // googleSheetsConfig,
+    builtInSiteProfiles,
+    githubConfig,
+    googleDocsConfig,
+    gmailConfig,
+    jiraConfig,
+    stackOverflowConfig,
+    youtubeConfig,
+    notionConfig,
 } from './sites';
@@ -55,7 +55,7 @@ export function createWebsitePromptSection(
     return `
 📍 Current Website: ${websiteContext.websiteName}
 🔗 URL: ${websiteContext.currentUrl}
-🔧 Available Tools: ${websiteContext.allowedTools.length} tools enabled
+🔧 Available Tools: ${websiteContext.allowedTools.length > 0 ? `${websiteContext.allowedTools.length} tools enabled` : 'all tools'}
 
 ${websiteContext.promptAddition}
 `;
@@ -0,0 +1,233 @@
+/**
+ * Site Profiles
+ * User-authored website configurations persisted in chrome.storage.local,
+ * plus which built-in profiles are switched off. Profiles can be shared
+ * as JSON files.
+ */
+
+import { createLogger } from '~logger';
+import type { WebsiteConfig } from './types';
+import { baseWebsiteConfig, builtInSiteProfiles } from './sites';
+
+const log = createLogger('SiteProfiles', 'AI_WEBSITE_DETECTION');
+
+export const SITE_PROFILES_STORAGE_KEY = 'siteProfiles';
+
+/** User profiles outrank built-in ones (priority 10) unless given a lower priority */
+export const DEFAULT_CUSTOM_PROFILE_PRIORITY = 20;
+
+const SITE_PROFILES_EXPORT_VERSION = 1;
+const PROFILE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+export interface SiteProfileSettings {
+    /** Built-in profile ids the user switched off */
+    disabledBuiltInIds: string[];
+    customProfiles: WebsiteConfig[];
+}
+
+export const DEFAULT_SITE_PROFILE_SETTINGS: SiteProfileSettings = {
+    disabledBuiltInIds: [],
+    customProfiles: [],
+};
+
+/** Shape of an exported profiles file */
+interface SiteProfilesExport {
+    version: number;
+    profiles: WebsiteConfig[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Derive a profile id from a profile name
+ */
+export function toSiteProfileId(name: string): string {
+    return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Check whether an id belongs to a profile shipped with the extension
+ */
+export function isBuiltInSiteProfile(id: string): boolean {
+    return id === baseWebsiteConfig.id || builtInSiteProfiles.some(profile => profile.id === id);
+}
+
+/**
+ * Validate a profile before saving or importing
+ *
+ * @returns Error message, or null when valid
+ */
+export function validateSiteProfile(profile: unknown): string | null {
+    if (!isRecord(profile)) return 'Profile must be an object';
+
+    const name = typeof profile.name === 'string' && profile.name.trim() ? `Profile "${profile.name}"` : 'Profile';
+    if (typeof profile.name !== 'string' || !profile.name.trim()) return 'Name is required';
+    if (typeof profile.id !== 'string' || !PROFILE_ID_PATTERN.test(profile.id)) {
+        return `${name} id can only contain lowercase letters, numbers and dashes`;
+    }
+    if (isBuiltInSiteProfile(profile.id)) return `${name} uses the id of a built-in profile`;
+    if (!isStringArray(profile.urlPatterns) || profile.urlPatterns.every(pattern => !pattern.trim())) {
+        return `${name} needs at least one URL pattern`;
+    }
+    if (profile.urlPatterns.includes('*')) return `${name} can't match every site; use a more specific pattern`;
+    if (!isStringArray(profile.allowedTools)) return `${name} allowed tools must be a list of tool names`;
+    if (typeof profile.promptAddition !== 'string') return `${name} instructions must be text`;
+    if (!profile.promptAddition.trim() && profile.allowedTools.length === 0) {
+        return `${name} needs instructions or at least one allowed tool`;
+    }
+    if (profile.priority !== undefined && (typeof profile.priority !== 'number' || !Number.isFinite(profile.priority))) {
+        return `${name} priority must be a number`;
+    }
+    return null;
+}
+
+/**
+ * Trim a profile's fields and drop anything that isn't part of WebsiteConfig
+ */
+function normalizeSiteProfile(profile: WebsiteConfig): WebsiteConfig {
+    return {
+        id: profile.id,
+        name: profile.name.trim(),
+        urlPatterns: profile.urlPatterns.map(pattern => pattern.trim()).filter(Boolean),
+        allowedTools: [...new Set(profile.allowedTools)],
+        promptAddition: profile.promptAddition.trim(),
+        priority: profile.priority ?? DEFAULT_CUSTOM_PROFILE_PRIORITY,
+    };
+}
+
+/**
+ * Get site profile settings from storage
+ */
+export async function getSiteProfileSettings(): Promise<SiteProfileSettings> {
+    try {
+        const result = await chrome.storage.local.get(SITE_PROFILES_STORAGE_KEY);
+        const stored = (result[SITE_PROFILES_STORAGE_KEY] || {}) as Partial<SiteProfileSettings>;
+        return {
+            disabledBuiltInIds: stored.disabledBuiltInIds ?? [],
+            customProfiles: stored.customProfiles ?? [],
+        };
+    } catch (error) {
+        log.error('Failed to load site profiles:', error);
+        return DEFAULT_SITE_PROFILE_SETTINGS;
+    }
+}
+
+async function saveSiteProfileSettings(settings: SiteProfileSettings): Promise<void> {
+    await chrome.storage.local.set({ [SITE_PROFILES_STORAGE_KEY]: settings });
+}
+
+/**
+ * Create or update a user profile
+ *
+ * @param profile - Profile fields from the editor
+ * @param previousId - Current id when editing; renaming replaces the old entry
+ * @returns The saved profile
+ * @throws Error when the profile is invalid or the id is taken
+ */
+export async function saveCustomSiteProfile(profile: WebsiteConfig, previousId?: string): Promise<WebsiteConfig> {
+    const error = validateSiteProfile(profile);
+    if (error) {
+        throw new Error(error);
+    }
+
+    const settings = await getSiteProfileSettings();
+    if (profile.id !== previousId && settings.customProfiles.some(p => p.id === profile.id)) {
+        throw new Error(`You already have a profile with id "${profile.id}"`);
+    }
+
+    const saved = normalizeSiteProfile(profile);
+    const others = settings.customProfiles.filter(p => p.id !== (previousId ?? profile.id));
+    await saveSiteProfileSettings({ ...settings, customProfiles: [...others, saved] });
+    log.info('Site profile saved', { id: saved.id, patterns: saved.urlPatterns.length });
+    return saved;
+}
+
+/**
+ * Delete a user profile
+ */
+export async function deleteCustomSiteProfile(id: string): Promise<void> {
+    const settings = await getSiteProfileSettings();
+    await saveSiteProfileSettings({
+        ...settings,
+        customProfiles: settings.customProfiles.filter(profile => profile.id !== id),
+    });
+    log.info('Site profile deleted', { id });
+}
+
+/**
+ * Switch a built-in profile on or off
+ */
+export async function setBuiltInSiteProfileEnabled(id: string, enabled: boolean): Promise<void> {
+    const settings = await getSiteProfileSettings();
+    const disabled = settings.disabledBuiltInIds.filter(disabledId => disabledId !== id);
+    await saveSiteProfileSettings({
+        ...settings,
+        disabledBuiltInIds: enabled ? disabled : [...disabled, id],
+    });
+}
+
+/**
+ * Serialize user profiles for download
+ */
+export function exportSiteProfiles(profiles: WebsiteConfig[]): string {
+    const file: SiteProfilesExport = { version: SITE_PROFILES_EXPORT_VERSION, profiles };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse and validate an exported profiles file
+ * Accepts the export format or a bare array of profiles
+ *
+ * @throws Error naming the first invalid profile
+ */
+export function parseSiteProfilesJson(json: string): WebsiteConfig[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+
+    const profiles = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.profiles : undefined;
+    if (!Array.isArray(profiles)) {
+        throw new Error('Expected a list of site profiles');
+    }
+
+    return profiles.map((profile: unknown) => {
+        const candidate = isRecord(profile) && profile.id === undefined && typeof profile.name === 'string'
+            ? { ...profile, id: toSiteProfileId(profile.name) }
+            : profile;
+        const error = validateSiteProfile(candidate);
+        if (error) {
+            throw new Error(error);
+        }
+        return normalizeSiteProfile(candidate as WebsiteConfig);
+    });
+}
+
+/**
+ * Merge imported profiles into the user's profiles
+ * Profiles with an existing id replace the stored one
+ *
+ * @returns Number of profiles added and replaced
+ */
+export async function importSiteProfiles(profiles: WebsiteConfig[]): Promise<{ added: number; replaced: number }> {
+    const settings = await getSiteProfileSettings();
+    const byId = new Map(settings.customProfiles.map(profile => [profile.id, profile]));
+    let replaced = 0;
+
+    for (const profile of profiles) {
+        if (byId.has(profile.id)) replaced++;
+        byId.set(profile.id, profile);
+    }
+
+    await saveSiteProfileSettings({ ...settings, customProfiles: [...byId.values()] });
+    log.info('Site profiles imported', { count: profiles.length, replaced });
+    return { added: profiles.length - replaced, replaced };
+}
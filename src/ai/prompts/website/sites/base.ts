@@ -46,19 +46,11 @@ import type { WebsiteConfig } from '../types';
  * };
  * ```
  * 
- * Then add to sites/index.ts:
- * ```typescript
- * export { googleDocsConfig } from './google-docs';
- * ```
- * 
- * And import in websiteDetector.ts:
- * ```typescript
- * import { googleDocsConfig } from './sites';
- * const websiteConfigs: WebsiteConfig[] = [
- *   googleDocsConfig,
- *   baseWebsiteConfig,
- * ];
- * ```
+ * Then export it from sites/index.ts and add it to builtInSiteProfiles;
+ * websiteDetector.ts picks up everything in that list.
+ *
+ * Users can also author their own profiles in Settings → Site Profiles
+ * (stored by ../siteProfiles.ts).
  */
 export const baseWebsiteConfig: WebsiteConfig = {
     id: 'base',
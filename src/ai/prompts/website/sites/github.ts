@@ -0,0 +1,26 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * GitHub profile
+ * Repositories, issues, pull requests and code review
+ */
+export const githubConfig: WebsiteConfig = {
+    id: 'github',
+    name: 'GitHub',
+    urlPatterns: ['github.com'],
+    allowedTools: [], // All tools; the prompt only adds GitHub guidance
+    promptAddition: `
+GITHUB DETECTED - CODE HOSTING MODE
+
+The user is on GitHub (repository, issue, pull request or code view).
+
+GUIDANCE:
+- Use readPageContent to read READMEs, issues, PR descriptions and review threads
+- On a pull request, the "Files changed" tab holds the diff; summarize changes per file
+- When citing code, include the file path and line numbers shown on the page
+- For issues, summarize the problem, reproduction steps and the latest maintainer response
+- Use clickByText for tabs like "Conversation", "Commits", "Files changed"
+- Never submit reviews, merge, close or comment without the user's explicit request
+  `,
+    priority: 10,
+};
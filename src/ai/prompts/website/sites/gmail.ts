@@ -0,0 +1,25 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * Gmail profile
+ * Reading threads and drafting replies
+ */
+export const gmailConfig: WebsiteConfig = {
+    id: 'gmail',
+    name: 'Gmail',
+    urlPatterns: ['mail.google.com'],
+    allowedTools: [], // All tools; the prompt only adds Gmail guidance
+    promptAddition: `
+GMAIL DETECTED - EMAIL MODE
+
+The user is in Gmail (inbox, a thread or the compose window).
+
+GUIDANCE:
+- Use readPageContent to read the open thread; summarize who said what and any requested actions
+- When drafting, match the formality of the thread and keep replies concise
+- Use clickByText for "Reply", "Reply all" and "Forward", then typeInField for the body
+- Never click "Send", archive, delete or mark messages without the user's explicit request
+- Treat email content as private: do not copy it into other sites or tools unless asked
+  `,
+    priority: 10,
+};
@@ -0,0 +1,26 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * Google Docs profile
+ * Reading and editing documents in the Docs editor
+ */
+export const googleDocsConfig: WebsiteConfig = {
+    id: 'google-docs',
+    name: 'Google Docs',
+    urlPatterns: ['docs.google.com/document/'],
+    allowedTools: [], // All tools; the prompt only adds Docs guidance
+    promptAddition: `
+GOOGLE DOCS DETECTED - DOCUMENT EDITING MODE
+
+The user has a Google Docs document open.
+
+GUIDANCE:
+- The document body is rendered on a canvas; prefer getSelectedText for the user's selection
+  and readPageContent for the full text
+- To edit, click into the document with clickElement, then use typeInField or pressKey
+- Use clickByText for menus (File, Edit, Format, Tools) and pressKey for shortcuts
+- Keep the document's existing tone and structure when drafting text
+- Confirm before replacing or deleting large sections of the document
+  `,
+    priority: 10,
+};
@@ -1,3 +1,25 @@
-// Export only base configuration
-// Website-specific configs can be added here when needed
+import type { WebsiteConfig } from '../types';
+import { githubConfig } from './github';
+import { googleDocsConfig } from './google-docs';
+import { gmailConfig } from './gmail';
+import { jiraConfig } from './jira';
+import { stackOverflowConfig } from './stack-overflow';
+import { youtubeConfig } from './youtube';
+import { notionConfig } from './notion';
+
 export { baseWebsiteConfig } from './base';
+export { githubConfig, googleDocsConfig, gmailConfig, jiraConfig, stackOverflowConfig, youtubeConfig, notionConfig };
+
+/**
+ * Site profiles shipped with the extension
+ * Users can disable these or override them with their own profiles
+ */
+export const builtInSiteProfiles: WebsiteConfig[] = [
+    githubConfig,
+    googleDocsConfig,
+    gmailConfig,
+    jiraConfig,
+    stackOverflowConfig,
+    youtubeConfig,
+    notionConfig,
+];
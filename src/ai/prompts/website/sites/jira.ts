@@ -0,0 +1,26 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * Jira profile
+ * Issues, boards and sprint planning on Atlassian Cloud or Server
+ */
+export const jiraConfig: WebsiteConfig = {
+    id: 'jira',
+    name: 'Jira',
+    urlPatterns: ['atlassian.net/browse/', 'atlassian.net/jira/', '/secure/RapidBoard.jspa'],
+    allowedTools: [], // All tools; the prompt only adds Jira guidance
+    promptAddition: `
+JIRA DETECTED - ISSUE TRACKING MODE
+
+The user is viewing a Jira issue or board.
+
+GUIDANCE:
+- Use readPageContent to read the issue summary, description, comments and fields
+  (status, assignee, priority, sprint, story points)
+- Refer to issues by their key (e.g. PROJ-123)
+- When asked to write tickets, use: summary, context, acceptance criteria, and out of scope
+- On boards, group findings by column/status
+- Do not transition, reassign or edit issues without the user's explicit request
+  `,
+    priority: 10,
+};
@@ -0,0 +1,25 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * Notion profile
+ * Pages and databases in the Notion web app
+ */
+export const notionConfig: WebsiteConfig = {
+    id: 'notion',
+    name: 'Notion',
+    urlPatterns: ['notion.so/', 'notion.site/'],
+    allowedTools: [], // All tools; the prompt only adds Notion guidance
+    promptAddition: `
+NOTION DETECTED - WORKSPACE MODE
+
+The user has a Notion page or database open.
+
+GUIDANCE:
+- Use readPageContent to read the page; databases show as tables, boards or lists
+- Notion is block-based: to add content, click the target block and type, or type "/" for block types
+- Use pressKey for Enter/Tab/Escape when moving between blocks
+- Preserve the page's existing headings and structure when drafting
+- Confirm before deleting blocks or editing shared database properties
+  `,
+    priority: 10,
+};
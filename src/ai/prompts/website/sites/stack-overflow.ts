@@ -0,0 +1,24 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * Stack Overflow profile
+ * Questions, answers and Stack Exchange sites
+ */
+export const stackOverflowConfig: WebsiteConfig = {
+    id: 'stack-overflow',
+    name: 'Stack Overflow',
+    urlPatterns: ['stackoverflow.com/questions/', 'stackexchange.com/questions/'],
+    allowedTools: [], // All tools; the prompt only adds Q&A guidance
+    promptAddition: `
+STACK OVERFLOW DETECTED - Q&A MODE
+
+The user is reading a question on Stack Overflow or another Stack Exchange site.
+
+GUIDANCE:
+- Use readPageContent to read the question, answers, votes and accepted answer
+- Summarize the question first, then the best answers; prefer the accepted and highest-voted
+- Point out when answers are old or mention deprecated APIs or versions
+- Quote code from answers exactly; adapt it to the user's situation only when asked
+  `,
+    priority: 10,
+};
@@ -0,0 +1,25 @@
+import type { WebsiteConfig } from '../types';
+
+/**
+ * YouTube profile
+ * Watching and summarizing videos
+ */
+export const youtubeConfig: WebsiteConfig = {
+    id: 'youtube',
+    name: 'YouTube',
+    urlPatterns: ['youtube.com/watch', 'youtu.be/'],
+    allowedTools: [], // All tools; the prompt only adds video guidance
+    promptAddition: `
+YOUTUBE DETECTED - VIDEO MODE
+
+The user is watching a YouTube video.
+
+GUIDANCE:
+- Use getYouTubeTranscript for questions about what is said in the video;
+  the page text only contains the title, description and comments
+- Include timestamps (mm:ss) when pointing to moments in the video
+- For summaries, give a one-line gist, then key points in order
+- Use readPageContent for the description, chapters and comments
+  `,
+    priority: 10,
+};
@@ -42,6 +42,11 @@ export function isToolAllowedForWebsite(
         return true;
     }
 
+    // An empty allow-list means the site only adds prompt guidance
+    if (websiteContext.allowedTools.length === 0) {
+        return true;
+    }
+
     // Check if tool is in the allowed list
     return websiteContext.allowedTools.includes(toolName);
 }
@@ -78,7 +83,7 @@ export function getToolFilterStats(
 } {
     const totalTools = Object.keys(allTools).length;
 
-    if (!websiteContext) {
+    if (!websiteContext || websiteContext.allowedTools.length === 0) {
         return {
             totalTools,
             allowedTools: totalTools,
@@ -1,8 +1,8 @@
 export interface WebsiteConfig {
     id: string;
     name: string;
-    urlPatterns: string[];        // URL patterns to match (e.g., 'docs.google.com/document')
-    allowedTools: string[];       // Tool names allowed on this site
+    urlPatterns: string[];        // URL patterns to match (e.g., 'docs.google.com/document', '*.atlassian.net/browse/*')
+    allowedTools: string[];       // Tool names allowed on this site (empty = all tools)
     promptAddition: string;       // Prompt text to inject for this site
     priority?: number;            // Match priority (higher = check first)
 }
@@ -1,91 +1,97 @@
 import type { WebsiteConfig, WebsiteToolContext } from './types';
 import { createLogger } from '~logger';
-import {
-    baseWebsiteConfig,
-    // FUTURE: Import website-specific configs here
-    // Example:
-    // googleDocsConfig,
-    // googleSheetsConfig,
-} from './sites';
+import { baseWebsiteConfig, builtInSiteProfiles } from './sites';
+import { getSiteProfileSettings } from './siteProfiles';
 
 const log = createLogger('WebsiteDetector', 'AI_WEBSITE_DETECTION');
 
 /**
- * Registry of all website configurations, sorted by priority (highest first)
- * 
- * FUTURE IMPLEMENTATION:
- * To add a new website-specific configuration:
+ * Registry of built-in website configurations, sorted by priority (highest first)
+ *
+ * To add a new built-in site profile:
  * 1. Create a new file in ./sites/ (e.g., google-docs.ts)
- * 2. Import it above
- * 3. Add it to this array with appropriate priority
- * 4. Higher priority configs are checked first
- * 
- * Example:
- * const websiteConfigs: WebsiteConfig[] = [
- *     googleDocsConfig,      // priority: 10
- *     googleSheetsConfig,    // priority: 10
- *     baseWebsiteConfig,     // priority: 0 (default fallback)
- * ].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+ * 2. Add it to builtInSiteProfiles in ./sites/index.ts
+ * 3. Higher priority configs are checked first
+ *
+ * User-authored profiles live in storage (see ./siteProfiles.ts) and are
+ * merged in by getActiveWebsiteConfigs().
  */
 const websiteConfigs: WebsiteConfig[] = [
-    // Add website-specific configs here before baseWebsiteConfig
+    ...builtInSiteProfiles,
     baseWebsiteConfig, // Base config with lowest priority (0) - always last
 ].sort((a, b) => (b.priority || 0) - (a.priority || 0));
 
+/**
+ * Checks whether a URL matches a profile pattern
+ * @param url - The URL to test
+ * @param pattern - '*' matches everything; patterns containing '*' are globs
+ *                  (e.g. '*.atlassian.net/browse/*'); anything else is a substring
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+    if (pattern === '*') {
+        return true;
+    }
+    if (!pattern.includes('*')) {
+        return url.includes(pattern);
+    }
+
+    const source = pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(source, 'i').test(url);
+}
+
 /**
  * Matches a URL to a website configuration
  * @param url - The URL to match
- * @returns Matching WebsiteConfig or null if no match found (will fallback to base config)
- * 
+ * @param configs - Configurations to check, highest priority first (defaults to the built-in registry)
+ * @returns Matching WebsiteConfig or null if no URL was given (falls back to base config)
+ *
  * IMPLEMENTATION NOTE:
  * - Iterates through configs by priority (highest first)
  * - Matches URL against urlPatterns in each config
  * - Returns first matching config found
  * - Always falls back to baseWebsiteConfig if no specific match
- * 
- * FUTURE: When adding website-specific configs, ensure patterns are specific enough
- * Example patterns:
- * - 'docs.google.com/document/' for Google Docs
- * - 'docs.google.com/spreadsheets/' for Google Sheets
- * - 'github.com' for GitHub (will match all GitHub URLs)
  */
-export function matchUrlToWebsite(url: string): WebsiteConfig | null {
+export function matchUrlToWebsite(url: string, configs: WebsiteConfig[] = websiteConfigs): WebsiteConfig | null {
     if (!url) {
         return null;
     }
 
     // Check each config by priority
-    for (const config of websiteConfigs) {
-        for (const pattern of config.urlPatterns) {
-            // Handle wildcard pattern (base config)
-            if (pattern === '*') {
-                return config;
-            }
-
-            // Check if URL includes the pattern
-            if (url.includes(pattern)) {
-                return config;
-            }
+    for (const config of configs) {
+        if (config.urlPatterns.some((pattern) => matchesUrlPattern(url, pattern))) {
+            return config;
         }
     }
 
-    // Fallback to base config (should never reach here as base has '*' pattern)
+    // Fallback to base config (only reached when the base config was left out of configs)
     return baseWebsiteConfig;
 }
 
+/**
+ * Gets the configurations used for detection: the user's profiles plus the
+ * built-in ones they haven't switched off, highest priority first
+ * User profiles win ties with built-in profiles
+ */
+export async function getActiveWebsiteConfigs(): Promise<WebsiteConfig[]> {
+    const { customProfiles, disabledBuiltInIds } = await getSiteProfileSettings();
+    const builtIns = websiteConfigs.filter((config) => !disabledBuiltInIds.includes(config.id));
+
+    // Array.prototype.sort is stable, so earlier entries win equal priorities
+    return [...customProfiles, ...builtIns].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+}
+
 /**
  * Gets the current website configuration based on the active Chrome tab
  * @returns Promise resolving to WebsiteToolContext or null if detection fails
  * 
  * BEHAVIOR:
- * - Currently returns null for all sites (only base config exists)
- * - When website-specific configs are added, this will return their context
+ * - Matches against user profiles and enabled built-in profiles
  * - null return means: use all tools with base prompt (no website-specific behavior)
- * 
- * FUTURE: When this returns a website context, the AI will:
- * - Use only the allowed tools for that website
- * - Get website-specific prompt additions injected
- * - Provide better, more focused assistance for that site
+ * - Otherwise the AI gets the profile's prompt addition injected and, if the
+ *   profile has an allow-list, only those tools
  */
 export async function getCurrentWebsite(): Promise<WebsiteToolContext | null> {
     try {
@@ -103,14 +109,14 @@ export async function getCurrentWebsite(): Promise<WebsiteToolContext | null> {
         const currentUrl = activeTab.url;
 
         // Match URL to website config
-        const config = matchUrlToWebsite(currentUrl);
+        const config = matchUrlToWebsite(currentUrl, await getActiveWebsiteConfigs());
 
         if (!config) {
             log.warn('No matching website config found for URL:', currentUrl);
             return null;
         }
 
-        // If only base config exists (id === 'base'), return null
+        // If only the base config matched (id === 'base'), return null
         // This signals to use all tools with no website-specific behavior
         if (config.id === 'base') {
             log.debug('Using base configuration (no website-specific tools)');
@@ -12,8 +12,8 @@ const log = createLogger('AI-APIKeyCheck');
  * Write missing API key error to stream
  */
 export function writeMissingApiKeyError(writer: any): void {
-    const errorMsg = 'Please configure your Gemini API key to use the AI assistant.';
-    const instructionMsg = '\n\n**How to add your API key:**\n1. Click the **⋯** (three dots) menu in the chat header\n2. Select "Gemini API Key Setup"\n3. Enter your Gemini API key\n4. Click "Save API Key"\n\n**Don\'t have an API key?**\nGet a free API key from [Google AI Studio](https://aistudio.google.com/app/apikey)';
+    const errorMsg = 'Please configure an AI provider to use the AI assistant.';
+    const instructionMsg = '\n\n**How to set up a provider:**\n1. Click the **⋯** (three dots) menu in the chat header\n2. Select "AI Provider Setup"\n3. Choose Google AI, Vertex AI or an OpenAI-compatible server (e.g. Ollama) and fill in its details\n4. Click "Save"\n\n**Don\'t have an API key?**\nGet a free API key from [Google AI Studio](https://aistudio.google.com/app/apikey)';
 
     log.error('❌ Missing API key for remote mode');
 
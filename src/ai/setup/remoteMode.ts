@@ -1,7 +1,7 @@
 /**
  * Remote Mode Setup
  * Handles remote AI model initialization and tool configuration
- * Supports both Google Generative AI and Vertex AI providers
+ * Supports Google Generative AI, Vertex AI and OpenAI-compatible providers
  * Optionally includes Supermemory tools for persistent memory
  */
 
@@ -16,6 +16,7 @@ import { pdfAgentAsTool } from '../agents/pdf';
 import { initializeModel } from '../core/modelFactory';
 import { getSupermemoryApiKey, isSupermemoryReady, getSupermemoryUserId } from '@/utils/supermemory';
 import type { WorkflowDefinition } from '../../workflows/types';
+import { getMacroTools } from '../../workflows/macros';
 import type { AIProvider } from '@/utils/credentials';
 
 const log = createLogger('RemoteMode', 'AI_CHAT');
@@ -25,6 +26,8 @@ export interface RemoteModeSetup {
     tools: Record<string, any>;
     systemPrompt: string;
     provider: AIProvider;
+    /** Model that serves the request; differs from the requested name for OpenAI-compatible providers */
+    modelName: string;
 }
 
 /**
@@ -48,7 +51,7 @@ export async function setupRemoteMode(
 ): Promise<RemoteModeSetup> {
     log.info('🔧 Setting up REMOTE mode with model:', modelName);
 
-    // Initialize model using model factory (handles both Google and Vertex)
+    // Initialize model using model factory (handles Google, Vertex and OpenAI-compatible)
     const modelInit = await initializeModel(modelName, 'remote');
     const { model, provider } = modelInit;
 
@@ -57,7 +60,7 @@ export async function setupRemoteMode(
         throw new Error('Remote mode should not return local provider');
     }
 
-    log.info('✅ Model initialized:', { provider, modelName });
+    log.info('✅ Model initialized:', { provider, modelName: modelInit.modelName });
 
     // Get all registered tools (Chrome extension tools)
     const allExtensionTools = getAllTools();
@@ -160,6 +163,25 @@ export async function setupRemoteMode(
         }
     }
 
+    // Add the user's recorded macros (in workflow mode only the ones it allows, e.g. a macro's own slash command)
+    let macroTools: Record<string, any> = {};
+    try {
+        const allMacroTools = await getMacroTools();
+        macroTools = workflowConfig
+            ? Object.fromEntries(
+                Object.entries(allMacroTools).filter(([name]) => workflowConfig.allowedTools.includes(name))
+            )
+            : allMacroTools;
+        if (Object.keys(macroTools).length > 0) {
+            log.info('⏺️ Macro tools loaded:', {
+                count: Object.keys(macroTools).length,
+                names: Object.keys(macroTools),
+            });
+        }
+    } catch (error) {
+        log.warn('⚠️ Macro tools unavailable:', error);
+    }
+
     // Add agent tools (not in workflow mode unless allowed, and only if enabled)
     let agentTools: Record<string, any> = {};
     if (!workflowConfig) {
@@ -213,7 +235,7 @@ export async function setupRemoteMode(
     }
 
     // Combine all tools
-    const tools = { ...extensionTools, ...mcpTools, ...webmcpTools, ...agentTools, ...smTools };
+    const tools = { ...extensionTools, ...mcpTools, ...webmcpTools, ...agentTools, ...macroTools, ...smTools };
 
     log.info('🔧 All tools loaded:', {
         count: Object.keys(tools).length,
@@ -221,6 +243,7 @@ export async function setupRemoteMode(
         mcp: Object.keys(mcpTools).length,
         webmcp: Object.keys(webmcpTools).length,
         agents: Object.keys(agentTools).length,
+        macros: Object.keys(macroTools).length,
         supermemory: Object.keys(smTools).length,
         workflowMode: !!workflowConfig,
     });
@@ -233,6 +256,7 @@ export async function setupRemoteMode(
         tools,
         systemPrompt,
         provider,
+        modelName: modelInit.modelName,
     };
 }
 
@@ -8,6 +8,8 @@ import { createLogger } from '~logger';
 import { APIError, ErrorType } from '../../errors/errorTypes';
 import { parseGeminiError } from '../errors/handlers';
 import { createOnStepFinishCallback, createOnFinishCallback } from './streamCallbacks';
+import { createToolDeniedResult, gateToolCall } from '../tools/approval';
+import { isMacroToolName } from '../../workflows/macros';
 
 const log = createLogger('StreamExecutor', 'AI_CHAT');
 
@@ -84,21 +86,51 @@ export async function executeStreamText(params: {
             return result;
         };
 
+        /**
+         * Ask the user before running sensitive tools
+         * Returns the (possibly edited) arguments, or a result telling the AI the call was denied
+         */
+        const checkApproval = async (toolName: string, tool: any, args: any, toolCallId?: string) => {
+            const decision = await gateToolCall({
+                toolName,
+                toolCallId,
+                input: args,
+                inputSchema: tool.inputSchema,
+                abortSignal,
+            });
+            if (decision.approved) return { args: decision.input };
+
+            return {
+                denied: createToolDeniedResult(
+                    toolName,
+                    decision.reason ?? 'The user denied this tool call',
+                    `The user denied "${toolName}"${decision.reason ? `: ${decision.reason}` : ''}. Do not retry it; ask the user how to proceed instead.`
+                )
+            };
+        };
+
         // Create tools with abort signal binding AND error feedback handling
         const abortableTools = abortSignal ? (() => {
             const boundTools: Record<string, any> = {};
             Object.entries(tools).forEach(([name, tool]) => {
                 boundTools[name] = {
                     ...tool,
-                    execute: async (args: any) => {
+                    execute: async (input: any, options?: { toolCallId?: string }) => {
                         // Check abort before execution
                         if (abortSignal.aborted) {
                             throw new Error('Operation cancelled');
                         }
 
+                        const approval = await checkApproval(name, tool, input, options?.toolCallId);
+                        if (approval.denied) return approval.denied;
+                        const args = approval.args;
+
                         try {
                             // Call original execute with abort signal
-                            const result = await tool.execute(args, abortSignal);
+                            // Macro tools take the AI SDK's call options; extension tools take the signal itself
+                            const result = await (isMacroToolName(name)
+                                ? tool.execute(args, { ...options, abortSignal })
+                                : tool.execute(args, abortSignal));
                             // Process result to remove UI-only fields before sending to AI
                             return processToolResultForAI(name, result);
                         } catch (toolError) {
@@ -127,9 +159,13 @@ export async function executeStreamText(params: {
             Object.entries(tools).forEach(([name, tool]) => {
                 boundTools[name] = {
                     ...tool,
-                    execute: async (args: any) => {
+                    execute: async (input: any, options?: { toolCallId?: string }) => {
+                        const approval = await checkApproval(name, tool, input, options?.toolCallId);
+                        if (approval.denied) return approval.denied;
+                        const args = approval.args;
+
                         try {
-                            const result = await tool.execute(args);
+                            const result = await (isMacroToolName(name) ? tool.execute(args, options) : tool.execute(args));
                             // Process result to remove UI-only fields before sending to AI
                             return processToolResultForAI(name, result);
                         } catch (toolError) {
@@ -0,0 +1,120 @@
+/**
+ * Tool Approval Gate
+ * Decides whether a tool call may run right away or needs the user's approval
+ */
+
+import { createLogger } from '~logger';
+import { getToolServerId, isMcpTool } from '@/utils/mcp';
+import { getToolApprovalSettings, type ToolRiskLevel } from '@/utils/settings/toolApprovalSettings';
+import { classifyTool, findAllowingRule } from './policy';
+import { requestToolApproval, type ToolApprovalDecision } from './store';
+
+const log = createLogger('ToolApprovalGate', 'TOOLS_EXECUTION');
+
+async function getActiveTabDomain(): Promise<string | undefined> {
+    try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        return tab?.url ? new URL(tab.url).hostname : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Tools that act on the page at their `url` input rather than on the active tab */
+const TARGET_URL_TOOLS = new Set(['navigateTo', 'openTab']);
+
+/**
+ * Hostname of the page a navigation tool will open
+ * navigateTo accepts bare domains like "github.com", so a missing protocol means https
+ */
+function getTargetUrlDomain(input: unknown): string | undefined {
+    const url = (input as { url?: unknown } | null | undefined)?.url;
+    if (typeof url !== 'string' || !url.trim()) return undefined;
+    const target = url.trim();
+    try {
+        return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(target) ? target : `https://${target}`).hostname || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Domain a tool call acts on: the target URL for navigation tools, otherwise the active tab
+ */
+function resolveDomain(toolName: string, input: unknown): Promise<string | undefined> {
+    if (TARGET_URL_TOOLS.has(toolName)) {
+        return Promise.resolve(getTargetUrlDomain(input));
+    }
+    return getActiveTabDomain();
+}
+
+function createInputValidator(inputSchema: unknown): ((input: unknown) => string | null) | undefined {
+    const schema = inputSchema as { safeParse?: (input: unknown) => { success: boolean; error?: { message: string } } } | undefined;
+    if (typeof schema?.safeParse !== 'function') return undefined;
+    return input => {
+        const result = schema.safeParse!(input);
+        return result.success ? null : result.error?.message ?? 'Invalid arguments';
+    };
+}
+
+export interface ToolApprovalRequirement {
+    risk: ToolRiskLevel;
+    domain?: string;
+    serverId?: string;
+}
+
+/**
+ * Find out whether a tool call needs the user's approval
+ *
+ * @param call.serverId - MCP server of the tool, for callers outside the side panel's tool registry
+ * @returns Details for the approval request, or null when the call may run right away
+ */
+export async function getToolApprovalRequirement(call: {
+    toolName: string;
+    input: unknown;
+    serverId?: string;
+}): Promise<ToolApprovalRequirement | null> {
+    const { toolName, input } = call;
+
+    const settings = await getToolApprovalSettings();
+    if (!settings.enabled) return null;
+
+    const risk = classifyTool(toolName);
+    if (!settings.requireApprovalFor.includes(risk)) return null;
+
+    const serverId = call.serverId ?? (isMcpTool(toolName) ? getToolServerId(toolName) : undefined);
+    const domain = serverId ? undefined : await resolveDomain(toolName, input);
+
+    const rule = findAllowingRule(settings.rules, { toolName, domain, serverId });
+    if (rule) {
+        log.debug('Allowed by rule', { toolName, scope: rule.scope, value: rule.value });
+        return null;
+    }
+
+    return { risk, domain, serverId };
+}
+
+/**
+ * Check a tool call against the approval settings
+ * Resolves immediately when no approval is needed, otherwise once the user decides
+ */
+export async function gateToolCall(params: {
+    toolName: string;
+    toolCallId?: string;
+    input: unknown;
+    inputSchema?: unknown;
+    abortSignal?: AbortSignal;
+}): Promise<ToolApprovalDecision> {
+    const { toolName, input } = params;
+
+    const requirement = await getToolApprovalRequirement({ toolName, input });
+    if (!requirement) return { approved: true, input };
+
+    return requestToolApproval({
+        toolCallId: params.toolCallId ?? crypto.randomUUID(),
+        toolName,
+        input,
+        ...requirement,
+        validateInput: createInputValidator(params.inputSchema),
+    }, params.abortSignal);
+}
@@ -0,0 +1,14 @@
+// Human-in-the-loop approval for sensitive tool calls
+
+export { classifyTool, findAllowingRule, TOOL_RISK_LABELS } from './policy';
+export {
+    requestToolApproval,
+    resolveToolApproval,
+    getPendingToolApproval,
+    subscribeToToolApprovals,
+} from './store';
+export type { ToolApprovalRequest, ToolApprovalDecision } from './store';
+export { gateToolCall, getToolApprovalRequirement } from './gate';
+export type { ToolApprovalRequirement } from './gate';
+export { createToolDeniedResult, withUnattendedToolApproval } from './wrap';
+export { useToolApproval } from './useToolApproval';
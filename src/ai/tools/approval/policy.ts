@@ -0,0 +1,127 @@
+/**
+ * Tool Approval Policy
+ * Classifies tools by risk and matches "always allow" rules
+ */
+
+import { createLogger } from '~logger';
+import type { ToolApprovalRule, ToolRiskLevel } from '@/utils/settings/toolApprovalSettings';
+
+const log = createLogger('ToolApprovalPolicy', 'TOOLS_EXECUTION');
+
+/**
+ * Risk levels of the extension's own tools
+ * Tools missing here (MCP, WebMCP, macros, Supermemory, ...) are treated as external
+ */
+const TOOL_RISK_LEVELS: Record<string, ToolRiskLevel> = {
+    // Reading tabs, pages and history
+    getActiveTab: 'read-only',
+    getAllTabs: 'read-only',
+    takeScreenshot: 'read-only',
+    readPageContent: 'read-only',
+    readTabs: 'read-only',
+    // Scheduled task tool (background/scheduler/tools.ts)
+    readTab: 'read-only',
+    extractText: 'read-only',
+    getSelectedText: 'read-only',
+    findSearchBar: 'read-only',
+    analyzeDom: 'read-only',
+    getAccessibilitySnapshot: 'read-only',
+    searchHistory: 'read-only',
+    getUrlVisits: 'read-only',
+    getSearchResults: 'read-only',
+    listReminders: 'read-only',
+    listScheduledTasks: 'read-only',
+    getMemory: 'read-only',
+    listMemories: 'read-only',
+    searchBookmarks: 'read-only',
+    listBookmarks: 'read-only',
+    getBookmarkTree: 'read-only',
+    getReportTemplate: 'read-only',
+    getYouTubeTranscript: 'read-only',
+    analyzePdfDocument: 'read-only',
+    webSearch: 'read-only',
+    retrieve: 'read-only',
+    deepWebSearch: 'read-only',
+
+    // Browser changes the user can undo
+    switchTabs: 'reversible',
+    applyTabGroups: 'reversible',
+    ungroupTabs: 'reversible',
+    organizeTabsByContext: 'reversible',
+    scrollTo: 'reversible',
+    scrollPage: 'reversible',
+    scrollIntoView: 'reversible',
+    focusElement: 'reversible',
+    chromeSearch: 'reversible',
+    openSearchResult: 'reversible',
+    createReminder: 'reversible',
+    cancelReminder: 'reversible',
+    cancelScheduledTask: 'reversible',
+    saveMemory: 'reversible',
+    createBookmark: 'reversible',
+    updateBookmark: 'reversible',
+    organizeBookmarks: 'reversible',
+    generatePDF: 'reversible',
+
+    // Deleting data or running arbitrary code
+    deleteBookmark: 'destructive',
+    deleteMemory: 'destructive',
+    executeScript: 'destructive',
+    // Includes a delete action
+    bookmarksTool: 'destructive',
+
+    // Acting on websites on the user's behalf
+    navigateTo: 'external',
+    openTab: 'external',
+    typeInField: 'external',
+    clickByText: 'external',
+    clickElement: 'external',
+    pressKey: 'external',
+    clickByRef: 'external',
+    typeByRef: 'external',
+    selectByRef: 'external',
+    executeBrowserAction: 'external',
+    youtubeToNotionAgent: 'external',
+    notionCreatorAgent: 'external',
+    // Creates tasks that later run unattended with browser and MCP tools
+    scheduleTask: 'external',
+};
+
+export const TOOL_RISK_LABELS: Record<ToolRiskLevel, string> = {
+    'read-only': 'Read-only',
+    reversible: 'Reversible',
+    destructive: 'Destructive',
+    external: 'External side effect',
+};
+
+/** Unlisted tools already logged, so each is reported once */
+const defaultedTools = new Set<string>();
+
+/**
+ * Classify a tool by what its calls can change
+ */
+export function classifyTool(toolName: string): ToolRiskLevel {
+    const risk = TOOL_RISK_LEVELS[toolName];
+    if (risk) return risk;
+
+    // MCP and page-provided tools reach third-party services, so unknown tools are external
+    if (!defaultedTools.has(toolName)) {
+        defaultedTools.add(toolName);
+        log.info('No risk level for tool, treating it as external', { toolName });
+    }
+    return 'external';
+}
+
+/**
+ * Find the rule that allows a tool call, if any
+ */
+export function findAllowingRule(
+    rules: ToolApprovalRule[],
+    call: { toolName: string; domain?: string; serverId?: string }
+): ToolApprovalRule | undefined {
+    return rules.find(rule => {
+        if (rule.toolName && rule.toolName !== call.toolName) return false;
+        if (rule.scope === 'mcp-server') return !!call.serverId && rule.value === call.serverId;
+        return !!call.domain && rule.value === call.domain;
+    });
+}
@@ -0,0 +1,99 @@
+/**
+ * Pending Tool Approvals
+ * Tool calls waiting for the user, keyed by tool call id. The executing tool
+ * awaits its decision while the chat renders an approval card for it.
+ */
+
+import { createLogger } from '~logger';
+import type { ToolRiskLevel } from '@/utils/settings/toolApprovalSettings';
+
+const log = createLogger('ToolApprovals', 'TOOLS_EXECUTION');
+
+export interface ToolApprovalRequest {
+    toolCallId: string;
+    toolName: string;
+    input: unknown;
+    risk: ToolRiskLevel;
+    /** Hostname the tool acts on (its target URL, or the active tab), for extension tools */
+    domain?: string;
+    /** Server of an MCP tool */
+    serverId?: string;
+    /** Checks edited arguments; returns an error message when they are invalid */
+    validateInput?: (input: unknown) => string | null;
+}
+
+export type ToolApprovalDecision =
+    | { approved: true; input: unknown }
+    | { approved: false; reason?: string };
+
+interface PendingApproval {
+    request: ToolApprovalRequest;
+    resolve: (decision: ToolApprovalDecision) => void;
+}
+
+const pending = new Map<string, PendingApproval>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Wait for the user to approve, edit or deny a tool call
+ * Aborting the signal denies the call
+ */
+export function requestToolApproval(
+    request: ToolApprovalRequest,
+    abortSignal?: AbortSignal
+): Promise<ToolApprovalDecision> {
+    return new Promise(resolve => {
+        if (abortSignal?.aborted) {
+            resolve({ approved: false, reason: 'Operation cancelled' });
+            return;
+        }
+
+        const onAbort = () => resolveToolApproval(request.toolCallId, { approved: false, reason: 'Operation cancelled' });
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+        pending.set(request.toolCallId, {
+            request,
+            resolve: decision => {
+                abortSignal?.removeEventListener('abort', onAbort);
+                resolve(decision);
+            },
+        });
+        log.info('Waiting for approval', { toolName: request.toolName, risk: request.risk });
+        notify();
+    });
+}
+
+/**
+ * Settle a pending approval
+ */
+export function resolveToolApproval(toolCallId: string, decision: ToolApprovalDecision): void {
+    const entry = pending.get(toolCallId);
+    if (!entry) return;
+
+    pending.delete(toolCallId);
+    log.info(decision.approved ? 'Tool call approved' : 'Tool call denied', { toolName: entry.request.toolName });
+    entry.resolve(decision);
+    notify();
+}
+
+/**
+ * Get the pending approval for a tool call, if any
+ */
+export function getPendingToolApproval(toolCallId: string): ToolApprovalRequest | undefined {
+    return pending.get(toolCallId)?.request;
+}
+
+/**
+ * Listen for approvals being requested or settled
+ * @returns Unsubscribe function
+ */
+export function subscribeToToolApprovals(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getPendingToolApproval, subscribeToToolApprovals, type ToolApprovalRequest } from './store';
+
+/**
+ * Pending approval for a tool call, updated as approvals are requested and settled
+ */
+export function useToolApproval(toolCallId: string): ToolApprovalRequest | undefined {
+    return useSyncExternalStore(subscribeToToolApprovals, () => getPendingToolApproval(toolCallId));
+}
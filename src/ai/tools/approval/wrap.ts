@@ -0,0 +1,42 @@
+/**
+ * Unattended Tool Approval
+ * Tool sets that run outside the chat stream (scheduled tasks, pipeline agent
+ * stages) can't show approval cards, so calls that would need the user's
+ * approval are refused instead
+ */
+
+import type { ToolSet } from 'ai';
+import { createLogger } from '~logger';
+import { getToolApprovalRequirement } from './gate';
+
+const log = createLogger('ToolApprovalGate', 'TOOLS_EXECUTION');
+
+/**
+ * Tool result telling the AI a call was not allowed to run
+ */
+export function createToolDeniedResult(toolName: string, message: string, feedback: string) {
+    return { error: true, denied: true, message, toolName, feedback };
+}
+
+/**
+ * Wrap a tool set so calls needing approval are refused unless an "always allow" rule covers them
+ *
+ * @param serverIds - MCP server of each MCP tool, keyed by tool name
+ */
+export function withUnattendedToolApproval(tools: ToolSet, serverIds: Record<string, string> = {}): ToolSet {
+    return Object.fromEntries(Object.entries(tools).map(([name, tool]) => [name, !tool.execute ? tool : {
+        ...tool,
+        execute: async (input: unknown, options: Parameters<NonNullable<typeof tool.execute>>[1]) => {
+            const requirement = await getToolApprovalRequirement({ toolName: name, input, serverId: serverIds[name] });
+            if (requirement) {
+                log.info('Refused unattended tool call', { toolName: name, risk: requirement.risk });
+                return createToolDeniedResult(
+                    name,
+                    `"${name}" needs the user's approval, which isn't possible while running unattended`,
+                    `"${name}" was not run because it needs the user's approval. Continue without it and mention in your report that it was skipped; the user can allow it with an "always allow" rule in the tool approval settings.`
+                );
+            }
+            return tool.execute!(input, options);
+        },
+    }])) as ToolSet;
+}
@@ -15,6 +15,10 @@ import { useToolUI } from './ToolUIContext';
 import type { ToolUIState } from './ToolUIContext';
 import { createLogger } from '~logger';
 import { CompactToolRenderer } from './CompactToolRenderer';
+import { useToolApproval } from '../approval';
+import { ToolApprovalCard } from '@/components/ui/tools/cards/ToolApprovalCard';
+import { MacroRunCard } from '@/components/ui/tools/cards/MacroRunCard';
+import { isMacroToolName } from '@/workflows/macros';
 
 const log = createLogger('ToolPartRenderer');
 
@@ -101,10 +105,22 @@ export function ToolPartRenderer({ part, messageId }: ToolPartRendererProps) {
     }
   }, [part, messageId]);
 
+  // Sensitive tools wait for the user before executing
+  const pendingApproval = useToolApproval(toolState?.toolCallId ?? '');
+
   if (!toolState) {
     return null;
   }
 
+  if (pendingApproval && toolState.state === 'input-available') {
+    return <ToolApprovalCard request={pendingApproval} />;
+  }
+
+  // Macro tools are created per saved macro, so they share one renderer
+  if (isMacroToolName(toolState.toolName)) {
+    return <MacroRunCard state={toolState} />;
+  }
+
   // Check if we have a custom renderer
   if (hasRenderer(toolState.toolName)) {
     return <>{renderTool(toolState)}</>;
@@ -48,9 +48,11 @@ export const DEFAULT_ENABLED_TOOLS: string[] = [
   // 'getSelectedText',
   'takeScreenshot',
   'readPageContent',
+  'readTabs',
   'extractText',
   'findSearchBar',
   'analyzeDom',
+  'getAccessibilitySnapshot',
 
   // Interaction Tools
   'typeInField',
@@ -59,6 +61,9 @@ export const DEFAULT_ENABLED_TOOLS: string[] = [
   'focusElement',
   'scrollTo',
   'executeScript',
+  'clickByRef',
+  'typeByRef',
+  'selectByRef',
 
   // Search Functionality
   'chromeSearch',
@@ -69,11 +74,22 @@ export const DEFAULT_ENABLED_TOOLS: string[] = [
   'searchHistory',
   'getUrlVisits',
 
+  // Memory
+  'saveMemory',
+  'getMemory',
+  'listMemories',
+  'deleteMemory',
+
   // Reminders
   'createReminder',
   'listReminders',
   'cancelReminder',
 
+  // Scheduled Tasks
+  'scheduleTask',
+  'listScheduledTasks',
+  'cancelScheduledTask',
+
   // Agent Tools
   'getYouTubeTranscript',
 
@@ -2,7 +2,7 @@
 // Barrel export for tools module
 
 // Tool management
-export { setupLocalTools, setupRemoteTools, buildEnhancedPrompt } from './manager';
+export { setupLocalTools, setupRemoteTools, buildEnhancedPrompt, AGENT_TOOL_NAMES } from './manager';
 export type { ToolSetup } from './manager';
 
 // Tool registry
@@ -9,8 +9,10 @@ import { getAllTools } from './registryUtils';
 import { getMCPToolsFromBackground } from '../mcp/proxy';
 import { getWebMCPToolsFromBackground } from './webmcpTools';
 import { getYouTubeTranscript } from '../agents/youtube';
-import { pdfAgentAsTool } from '../agents/pdf';
+import { isPdfAnalysisAvailable, pdfAgentAsTool } from '../agents/pdf';
+import { isGenAIAvailable } from '../core/genAIFactory';
 import type { WorkflowDefinition } from '../../workflows/types';
+import { getMacroTools, isMacroToolName } from '../../workflows/macros';
 
 const log = createLogger('ToolManager', 'TOOLS_EXECUTION');
 
@@ -24,6 +26,24 @@ export interface ToolSetup {
  */
 const WORKFLOW_ONLY_TOOLS = ['generatePDF', 'getReportTemplate'];
 
+/**
+ * Registered tools backed by Gen AI SDK agents, hidden for providers other than Google AI and Vertex AI
+ */
+const GEN_AI_AGENT_TOOLS = ['youtubeToNotionAgent'];
+
+/**
+ * Agent tools provided directly by the tool manager (not the tool registry)
+ */
+const AGENT_TOOL_MAP: Record<string, unknown> = {
+  getYouTubeTranscript: getYouTubeTranscript,
+  analyzePdfDocument: pdfAgentAsTool,
+};
+
+/**
+ * Names of agent tools, for workflow tool pickers
+ */
+export const AGENT_TOOL_NAMES = Object.keys(AGENT_TOOL_MAP);
+
 /**
  * Setup tools for local mode
  */
@@ -102,17 +122,32 @@ export async function setupRemoteTools(
     });
   }
 
+  // The YouTube to Notion agent runs on the Gen AI SDK, so it's hidden for other providers
+  if (!(await isGenAIAvailable())) {
+    extensionTools = Object.fromEntries(
+      Object.entries(extensionTools).filter(([name]) => !GEN_AI_AGENT_TOOLS.includes(name))
+    );
+  }
+
   log.info('🔧 Extension tools loaded:', {
     count: Object.keys(extensionTools).length,
     names: Object.keys(extensionTools)
   });
 
-  // Get MCP tools from background service worker (not in workflow mode)
+  // Get MCP tools from background service worker
+  // Workflow mode only fetches them when the workflow allows tools not provided by the extension
   let mcpTools: Record<string, unknown> = {};
-  if (!workflowConfig) {
+  const workflowNeedsMcp = !!workflowConfig && workflowConfig.allowedTools.some(name =>
+    !(name in allExtensionTools) && !(name in AGENT_TOOL_MAP) && !isMacroToolName(name)
+  );
+  if (!workflowConfig || workflowNeedsMcp) {
     try {
       const mcpManager = await getMCPToolsFromBackground();
-      mcpTools = mcpManager.tools;
+      mcpTools = workflowConfig
+        ? Object.fromEntries(
+          Object.entries(mcpManager.tools).filter(([name]) => workflowConfig.allowedTools.includes(name))
+        )
+        : mcpManager.tools;
       log.info('🔧 MCP tools loaded:', {
         count: Object.keys(mcpTools).length,
         names: Object.keys(mcpTools)
@@ -140,23 +175,43 @@ export async function setupRemoteTools(
     }
   }
 
+  // Add the user's recorded macros (in workflow mode only the ones it allows)
+  let macroTools: Record<string, unknown> = {};
+  if (!workflowConfig || workflowConfig.allowedTools.some(isMacroToolName)) {
+    try {
+      const allMacroTools = await getMacroTools();
+      macroTools = workflowConfig
+        ? Object.fromEntries(
+          Object.entries(allMacroTools).filter(([name]) => workflowConfig.allowedTools.includes(name))
+        )
+        : allMacroTools;
+    } catch (error) {
+      log.warn('⚠️ Macro tools unavailable:', error);
+    }
+  }
+
   // Add agent tools (not in workflow mode unless allowed)
-  const agentTools = workflowConfig ? {} : {
-    getYouTubeTranscript: getYouTubeTranscript,
-    analyzePdfDocument: pdfAgentAsTool,
-  };
+  // The PDF agent needs Gemini's URL context tool, so it's hidden for other providers
+  const pdfAnalysisAvailable = await isPdfAnalysisAvailable();
+  const agentTools = Object.fromEntries(
+    Object.entries(AGENT_TOOL_MAP).filter(([name]) =>
+      (!workflowConfig || workflowConfig.allowedTools.includes(name)) &&
+      (name !== 'analyzePdfDocument' || pdfAnalysisAvailable)
+    )
+  );
   log.info('🔧 Agent tools loaded:', {
     count: Object.keys(agentTools).length,
     names: Object.keys(agentTools)
   });
 
   // Combine all tools
-  const tools = { ...extensionTools, ...agentTools, ...mcpTools, ...webmcpTools };
+  const tools = { ...extensionTools, ...agentTools, ...macroTools, ...mcpTools, ...webmcpTools };
   log.info('🔧 Total tools available:', {
     count: Object.keys(tools).length,
     extension: Object.keys(extensionTools).length,
     mcp: Object.keys(mcpTools).length,
     webmcp: Object.keys(webmcpTools).length,
+    macros: Object.keys(macroTools).length,
     agents: Object.keys(agentTools).length,
     workflowMode: !!workflowConfig
   });
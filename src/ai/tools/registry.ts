@@ -19,6 +19,10 @@ export const LOCAL_TOOLS = [
   'readPageContent',
   'getSearchResults',
   'openSearchResult',
+  'saveMemory',
+  'getMemory',
+  'listMemories',
+  'deleteMemory',
   'createReminder',
   'cancelReminder',
 ];
@@ -36,6 +40,8 @@ export const BASIC_TOOLS = [
   'getSelectedText',
   'takeScreenshot',
   'readPageContent',
+  'readTabs',
+  'getAccessibilitySnapshot',
 
   // Basic interactions
   'typeInField',
@@ -43,6 +49,9 @@ export const BASIC_TOOLS = [
   'pressKey',
   'focusElement',
   'scrollTo',
+  'clickByRef',
+  'typeByRef',
+  'selectByRef',
 
   // Search functionality
   'chromeSearch',
@@ -63,6 +72,11 @@ export const BASIC_TOOLS = [
   'createReminder',
   'listReminders',
   'cancelReminder',
+
+  // Scheduled tasks
+  'scheduleTask',
+  'listScheduledTasks',
+  'cancelScheduledTask',
 ];
 
 export const INTERACTION_TOOLS = [
@@ -73,6 +87,9 @@ export const INTERACTION_TOOLS = [
   'fillInput',
   'scrollTo',
   'waitForElement',
+  'clickByRef',
+  'typeByRef',
+  'selectByRef',
 ];
 
 export const AGENT_TOOLS = [
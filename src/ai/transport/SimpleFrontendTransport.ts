@@ -9,6 +9,7 @@ import { streamAIResponse } from '../core/aiLogic';
 import { createLogger } from '~logger';
 import { loadThreadMessages, getThread } from '../../db';
 import { processMessagesWithMentions } from '@/utils/chat';
+import { rebuildCitationRegistry } from '@/utils/citations';
 import { parseWorkflowCommand, isSlashCommand } from '@/utils/chat';
 import { getWorkflow } from '../../workflows/registry';
 import { workflowSessionManager } from '../../workflows/sessionManager';
@@ -225,6 +226,9 @@ export class SimpleFrontendTransport {
         }
       }
 
+      // Continue the thread's citation numbering from its earlier sources
+      rebuildCitationRegistry(requestMessages);
+
       // Get thread's initial page context for system prompt
       log.info('🔍 Preparing to call AI logic', {
         workflowMode: !!workflowId,
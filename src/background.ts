@@ -25,6 +25,7 @@ import { initializeRewriterContextMenu, initializeAskerContextMenu } from './bac
 import { recoverExtractionQueue } from './background/supermemory/extraction/startup';
 import { recoverContentMemoryQueue } from './background/supermemory/contentMemory/startup';
 import { initializeWebMCPManager } from './background/webmcp/manager';
+import { initializeMacroRecorder } from './background/macros/recorder';
 
 // Initialize LoggerConfigManager early to load dynamic config from storage
 // This ensures logging respects user preferences before any logs are emitted
@@ -60,6 +61,7 @@ initializeOmnibox();
 initializeRewriterContextMenu();
 initializeAskerContextMenu();
 initializeWebMCPManager();
+initializeMacroRecorder();
 
 // ============================================================================
 // Action Handlers
@@ -5,6 +5,7 @@
  * - Token refresh alarms for MCP servers
  * - PDF cache cleanup
  * - Reminder notifications
+ * - Scheduled agent tasks
  * - Memory extraction queue processing
  */
 
@@ -14,19 +15,11 @@ import { cleanupCache } from '@/ai/fileApi/cache';
 import { APP_ICON } from '@/constants';
 import { processExtractionQueue } from './supermemory/extraction/processor';
 import { processContentMemoryQueue } from './supermemory/contentMemory/processor';
+import { handleScheduledTaskAlarm, isScheduledTaskAlarm, syncScheduledTaskAlarms } from './scheduler';
+import { advanceReminder, REMINDER_ALARM_PREFIX, REMINDER_SNOOZE_MINUTES } from '@/actions/reminder/storage';
 
 const log = createLogger('Background-Alarms', 'BACKGROUND');
 
-interface Reminder {
-    id: string;
-    title: string;
-    when: number;
-    url?: string;
-    createdAt: number;
-    generatedTitle?: string;
-    generatedDescription?: string;
-}
-
 /**
  * Initialize alarm listeners and create recurring alarms
  */
@@ -41,6 +34,11 @@ export function initializeAlarmListeners(): void {
         periodInMinutes: 6 * 60
     });
 
+    // Restore scheduled task alarms (recomputed from storage on every start)
+    syncScheduledTaskAlarms().catch(error => {
+        log.error('Failed to sync scheduled task alarms:', error);
+    });
+
     /**
      * Handle all alarm events
      */
@@ -82,12 +80,22 @@ export function initializeAlarmListeners(): void {
             return;
         }
 
+        // Handle scheduled agent tasks (format: scheduled-task:{taskId})
+        if (isScheduledTaskAlarm(alarm.name)) {
+            try {
+                await handleScheduledTaskAlarm(alarm.name);
+            } catch (error) {
+                log.error('Scheduled task alarm failed:', error);
+            }
+            return;
+        }
+
         // Only handle reminder alarms after this point
-        if (!alarm.name.startsWith('reminder:')) {
+        if (!alarm.name.startsWith(REMINDER_ALARM_PREFIX)) {
             return;
         }
 
-        const id = alarm.name.split(':')[1];
+        const id = alarm.name.slice(REMINDER_ALARM_PREFIX.length);
         if (!id) {
             log.warn('Invalid reminder alarm name:', alarm.name);
             return;
@@ -96,10 +104,8 @@ export function initializeAlarmListeners(): void {
         log.info('Reminder alarm fired:', id);
 
         try {
-            // Get the reminder from storage
-            const { reminders = {} } = await chrome.storage.local.get('reminders');
-            const remindersMap = reminders as Record<string, Reminder>;
-            const reminder: Reminder | undefined = remindersMap[id];
+            // Clears the snooze and schedules the next occurrence of recurring reminders
+            const reminder = await advanceReminder(id);
 
             if (!reminder) {
                 log.warn('Reminder not found:', id);
@@ -113,23 +119,26 @@ export function initializeAlarmListeners(): void {
             const notificationMessage = reminder.generatedDescription || reminder.title;
 
             // Use a namespaced notification ID to distinguish reminders
-            chrome.notifications.create(`reminder:${id}`, {
+            chrome.notifications.create(`${REMINDER_ALARM_PREFIX}${id}`, {
                 type: 'basic',
                 iconUrl: appicon,
                 title: notificationTitle,
                 message: notificationMessage,
                 priority: 2,
-                requireInteraction: false
+                requireInteraction: false,
+                buttons: [
+                    { title: `Snooze ${REMINDER_SNOOZE_MINUTES} min` },
+                    { title: 'Mark done' }
+                ]
             });
 
             log.info('Reminder notification created:', {
                 title: notificationTitle,
-                message: notificationMessage
+                message: notificationMessage,
+                recurring: !!reminder.recurrence
             });
 
-            // Do not remove the reminder here; it will be removed by the global
-            // notification click handler to avoid race conditions and ensure the
-            // click handler has access to the stored reminder data.
+            // Completion is recorded by the notification click and button handlers
         } catch (error) {
             log.error('Error handling reminder alarm:', error);
         }
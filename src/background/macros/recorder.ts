@@ -0,0 +1,174 @@
+/**
+ * Macro Recorder
+ * Keeps the recording session while the user acts on a tab. The recorder
+ * content script reports clicks, typing and key presses; navigations the
+ * user starts from the address bar are picked up here. The session lives in
+ * chrome.storage.session so it survives the service worker being suspended.
+ */
+
+import { createLogger } from '~logger';
+import type { MacroRecording, MacroStep, RecordedAction } from '@/workflows/macros/types';
+
+const log = createLogger('Background-MacroRecorder', 'BACKGROUND');
+
+const RECORDING_STORAGE_KEY = 'macroRecording';
+
+/** Transitions that mean the user went to a URL directly rather than by clicking */
+const DIRECT_TRANSITIONS = ['typed', 'auto_bookmark', 'generated', 'keyword', 'keyword_generated'];
+
+// Content script messages arrive in bursts; update the session one at a time
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(update: () => Promise<T>): Promise<T> {
+    const next = updateQueue.then(update, update);
+    updateQueue = next.catch(() => undefined);
+    return next;
+}
+
+/**
+ * Current recording session, if any
+ */
+export async function getRecording(): Promise<MacroRecording | null> {
+    const result = await chrome.storage.session.get(RECORDING_STORAGE_KEY);
+    return (result[RECORDING_STORAGE_KEY] as MacroRecording | undefined) ?? null;
+}
+
+async function saveRecording(recording: MacroRecording | null): Promise<void> {
+    if (recording) {
+        await chrome.storage.session.set({ [RECORDING_STORAGE_KEY]: recording });
+    } else {
+        await chrome.storage.session.remove(RECORDING_STORAGE_KEY);
+    }
+}
+
+function isWebUrl(url: string | undefined): url is string {
+    return !!url && /^https?:\/\//.test(url);
+}
+
+async function setRecordingIndicator(tabId: number, recording: boolean): Promise<void> {
+    try {
+        await chrome.action.setBadgeText({ tabId, text: recording ? 'REC' : '' });
+        if (recording) {
+            await chrome.action.setBadgeBackgroundColor({ tabId, color: '#dc2626' });
+        }
+    } catch (error) {
+        log.debug('Could not update recording badge', error);
+    }
+}
+
+async function notifyTab(tabId: number, recording: boolean): Promise<void> {
+    try {
+        await chrome.tabs.sendMessage(tabId, { type: 'macro/recording/changed', recording });
+    } catch {
+        // The page has no recorder script (chrome:// pages, or still loading); it asks on load
+    }
+}
+
+/**
+ * Add a step, folding repeated edits of the same field into one
+ */
+function appendStep(recording: MacroRecording, step: Omit<MacroStep, 'id'>): void {
+    const last = recording.steps[recording.steps.length - 1];
+    if (last && step.toolName === 'typeInField' && last.toolName === 'typeInField' && last.input.target === step.input.target) {
+        last.input = step.input;
+        return;
+    }
+    if (last && step.toolName === 'navigateTo' && last.toolName === 'navigateTo' && last.input.url === step.input.url) {
+        return;
+    }
+    recording.steps.push({ ...step, id: crypto.randomUUID() });
+}
+
+/**
+ * Start recording on a tab, replacing any unfinished session
+ * The tab's current page becomes the first step so replays start from the same place
+ */
+export async function startRecording(tabId: number): Promise<MacroRecording> {
+    return enqueue(async () => {
+        const previous = await getRecording();
+        if (previous && previous.tabId !== tabId) {
+            await setRecordingIndicator(previous.tabId, false);
+            await notifyTab(previous.tabId, false);
+        }
+
+        const tab = await chrome.tabs.get(tabId);
+        const recording: MacroRecording = { tabId, startedAt: Date.now(), steps: [], skippedActions: 0 };
+        if (isWebUrl(tab.url)) {
+            appendStep(recording, { toolName: 'navigateTo', input: { url: tab.url, newTab: false } });
+        }
+        await saveRecording(recording);
+        await setRecordingIndicator(tabId, true);
+        await notifyTab(tabId, true);
+
+        log.info('Macro recording started', { tabId });
+        return recording;
+    });
+}
+
+/**
+ * Stop recording
+ *
+ * @returns The finished session, or null when nothing was being recorded
+ */
+export async function stopRecording(): Promise<MacroRecording | null> {
+    return enqueue(async () => {
+        const recording = await getRecording();
+        if (!recording) return null;
+
+        await saveRecording(null);
+        await setRecordingIndicator(recording.tabId, false);
+        await notifyTab(recording.tabId, false);
+
+        log.info('Macro recording stopped', { steps: recording.steps.length, skipped: recording.skippedActions });
+        return recording;
+    });
+}
+
+/**
+ * Add an action reported by the recorder content script
+ * Actions from other tabs are ignored
+ */
+export async function recordAction(tabId: number, action: RecordedAction): Promise<void> {
+    return enqueue(async () => {
+        const recording = await getRecording();
+        if (!recording || recording.tabId !== tabId) return;
+
+        if (action.kind === 'skipped') {
+            recording.skippedActions++;
+            log.debug('Skipped unrecordable action', { reason: action.reason });
+        } else {
+            appendStep(recording, { toolName: action.toolName, input: action.input });
+        }
+        await saveRecording(recording);
+    });
+}
+
+/**
+ * Record address-bar navigations on the recording tab
+ * Navigations caused by clicks are left out; replaying the click repeats them
+ */
+export function initializeMacroRecorder(): void {
+    chrome.webNavigation.onCommitted.addListener((details) => {
+        if (details.frameId !== 0 || !isWebUrl(details.url)) return;
+        const isDirect = DIRECT_TRANSITIONS.includes(details.transitionType) ||
+            details.transitionQualifiers.includes('from_address_bar') ||
+            details.transitionQualifiers.includes('forward_back');
+        if (!isDirect) return;
+
+        recordAction(details.tabId, {
+            kind: 'step',
+            toolName: 'navigateTo',
+            input: { url: details.url, newTab: false },
+        }).catch(error => log.error('Failed to record navigation', error));
+    });
+
+    // Badges are per page load, so restore it after navigations on the recording tab
+    chrome.webNavigation.onCompleted.addListener((details) => {
+        if (details.frameId !== 0) return;
+        getRecording()
+            .then(recording => recording?.tabId === details.tabId ? setRecordingIndicator(details.tabId, true) : undefined)
+            .catch(() => undefined);
+    });
+
+    log.info('Macro recorder initialized');
+}
@@ -5,9 +5,9 @@
  */
 
 import { McpSSEClient } from '../../mcp/sseClient';
-import type { McpExtensionResponse } from '../../mcp/types';
-import { getServerState, getServerConfig } from '../../mcp/state';
-import { broadcastStatusUpdate } from '../../mcp/events';
+import type { McpExtensionResponse, McpPrompt, McpResource } from '../../mcp/types';
+import { getServerState, getServerConfig, serverStates } from '../../mcp/state';
+import { broadcastStatusUpdate, broadcastResourceUpdate } from '../../mcp/events';
 import { ensureValidToken, refreshServerToken } from '../../mcp/authHelpers';
 import { getStoredTokens } from '../../mcp/oauth';
 import { updateKeepAliveState } from '../keepAlive';
@@ -120,6 +120,9 @@ export async function connectMcpServer(serverId: string): Promise<McpExtensionRe
                 },
                 onMessage: (message) => {
                     mcpLog.info(`[${serverId}] MCP message:`, message);
+                },
+                onResourceUpdated: (uri) => {
+                    broadcastResourceUpdate(serverId, uri);
                 }
             },
             {
@@ -155,6 +158,7 @@ export async function connectMcpServer(serverId: string): Promise<McpExtensionRe
         });
 
         await Promise.race([initPromise, initTimeoutPromise]);
+        await restoreResourceSubscriptions(serverId);
 
         mcpLog.info(`[${serverId}] Successfully connected and initialized`);
         return { success: true, data: state.client.getStatus() };
@@ -222,6 +226,7 @@ export function disconnectMcpServer(serverId: string): void {
         state.client.disconnect();
         state.client = null;
     }
+    state.resourceSubscriptions.clear();
     state.status = { ...state.status, state: 'authenticated' };
     broadcastStatusUpdate(serverId, state.status);
 }
@@ -286,3 +291,140 @@ export async function disableMcpServer(serverId: string): Promise<McpExtensionRe
 
     return { success: true };
 }
+
+// ============================================================================
+// Resources & Prompts
+// ============================================================================
+
+/**
+ * Run a request against a connected server's client
+ */
+async function withConnectedClient(
+    serverId: string,
+    label: string,
+    request: (client: McpSSEClient) => Promise<unknown>
+): Promise<McpExtensionResponse> {
+    const state = getServerState(serverId);
+
+    if (!state.client || state.status.state !== 'connected') {
+        return { success: false, error: 'Not connected' };
+    }
+
+    try {
+        return { success: true, data: await request(state.client) };
+    } catch (error) {
+        mcpLog.error(`[${serverId}] ${label} error:`, error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : `${label} failed`
+        };
+    }
+}
+
+/**
+ * List resources of a server
+ */
+export function listServerResources(serverId: string): Promise<McpExtensionResponse> {
+    return withConnectedClient(serverId, 'Resource list', client => client.listResources());
+}
+
+/**
+ * Read a resource from a server
+ */
+export function readServerResource(serverId: string, uri: string): Promise<McpExtensionResponse> {
+    if (!uri) return Promise.resolve({ success: false, error: 'Resource URI is required' });
+    return withConnectedClient(serverId, 'Resource read', client => client.readResource(uri));
+}
+
+/**
+ * Subscribe to updates of a server resource
+ * Updates are broadcast as `mcp/{serverId}/resource/updated`
+ */
+export async function subscribeServerResource(serverId: string, uri: string): Promise<McpExtensionResponse> {
+    if (!uri) return { success: false, error: 'Resource URI is required' };
+    const response = await withConnectedClient(serverId, 'Resource subscribe', client => client.subscribeResource(uri));
+    if (response.success) {
+        getServerState(serverId).resourceSubscriptions.add(uri);
+    }
+    return response;
+}
+
+/**
+ * Unsubscribe from updates of a server resource
+ */
+export function unsubscribeServerResource(serverId: string, uri: string): Promise<McpExtensionResponse> {
+    getServerState(serverId).resourceSubscriptions.delete(uri);
+    return withConnectedClient(serverId, 'Resource unsubscribe', client => client.unsubscribeResource(uri));
+}
+
+/**
+ * Subscribe a new connection to the resources followed before it was replaced
+ * (e.g. after a token refresh); resources that fail are dropped
+ */
+async function restoreResourceSubscriptions(serverId: string): Promise<void> {
+    const state = getServerState(serverId);
+    for (const uri of [...state.resourceSubscriptions]) {
+        try {
+            await state.client!.subscribeResource(uri);
+        } catch (error) {
+            mcpLog.warn(`[${serverId}] Could not restore resource subscription:`, uri, error);
+            state.resourceSubscriptions.delete(uri);
+        }
+    }
+}
+
+/**
+ * List prompts of a server
+ */
+export function listServerPrompts(serverId: string): Promise<McpExtensionResponse> {
+    return withConnectedClient(serverId, 'Prompt list', client => client.listPrompts());
+}
+
+/**
+ * Render a server prompt with arguments
+ */
+export function getServerPrompt(
+    serverId: string,
+    name: string,
+    args?: Record<string, string>
+): Promise<McpExtensionResponse> {
+    if (!name) return Promise.resolve({ success: false, error: 'Prompt name is required' });
+    return withConnectedClient(serverId, 'Prompt get', client => client.getPrompt(name, args));
+}
+
+/**
+ * Collect an item list from every enabled, connected server,
+ * tagging each item with its server
+ */
+function collectFromServers<T>(key: 'resources' | 'prompts'): Array<T & { serverId: string; serverName: string }> {
+    const items: Array<T & { serverId: string; serverName: string }> = [];
+
+    for (const [serverId, state] of serverStates) {
+        if (!state.isEnabled || !state.client || state.status.state !== 'connected') continue;
+
+        const serverName = getServerConfig(serverId)?.name || serverId;
+        for (const item of (state.status[key] ?? []) as T[]) {
+            items.push({ ...item, serverId, serverName });
+        }
+    }
+
+    return items;
+}
+
+/**
+ * Get all resources from persistent MCP connections
+ */
+export async function getAllMCPResources(): Promise<McpExtensionResponse> {
+    const resources = collectFromServers<McpResource>('resources');
+    mcpLog.info(`Total MCP resources available: ${resources.length}`);
+    return { success: true, data: { resources } };
+}
+
+/**
+ * Get all prompts from persistent MCP connections
+ */
+export async function getAllMCPPrompts(): Promise<McpExtensionResponse> {
+    const prompts = collectFromServers<McpPrompt>('prompts');
+    mcpLog.info(`Total MCP prompts available: ${prompts.length}`);
+    return { success: true, data: { prompts } };
+}
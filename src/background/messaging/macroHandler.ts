@@ -0,0 +1,74 @@
+/**
+ * Macro Handler
+ *
+ * Handles macro recording messages from the side panel (start, stop, status)
+ * and from the recorder content script (recorded actions)
+ */
+
+import { createLogger } from '~logger';
+import { getRecording, recordAction, startRecording, stopRecording } from '../macros/recorder';
+import type { RecordedAction } from '@/workflows/macros/types';
+
+const backgroundLog = createLogger('Background-Macro-Handler', 'BACKGROUND');
+
+type MacroMessage =
+    | { type: 'macro/recording/start'; payload: { tabId: number } }
+    | { type: 'macro/recording/stop' }
+    | { type: 'macro/recording/status' }
+    | { type: 'macro/recording/action'; payload: { action: RecordedAction } };
+
+export function isMacroMessage(message: unknown): message is MacroMessage {
+    return (
+        typeof message === 'object' &&
+        message !== null &&
+        'type' in message &&
+        typeof message.type === 'string' &&
+        message.type.startsWith('macro/recording/')
+    );
+}
+
+/**
+ * Handle macro recording messages
+ */
+export async function handleMacroMessage(
+    message: MacroMessage,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+): Promise<void> {
+    try {
+        switch (message.type) {
+            case 'macro/recording/start': {
+                const recording = await startRecording(message.payload.tabId);
+                sendResponse({ success: true, recording });
+                return;
+            }
+            case 'macro/recording/stop': {
+                const recording = await stopRecording();
+                sendResponse({ success: true, recording });
+                return;
+            }
+            case 'macro/recording/status': {
+                const recording = await getRecording();
+                sendResponse({
+                    success: true,
+                    recording,
+                    // Lets the content script know whether to capture this page
+                    isThisTab: !!recording && recording.tabId === sender.tab?.id,
+                });
+                return;
+            }
+            case 'macro/recording/action': {
+                if (sender.tab?.id !== undefined) {
+                    await recordAction(sender.tab.id, message.payload.action);
+                }
+                sendResponse({ success: true });
+                return;
+            }
+            default:
+                sendResponse({ success: false, error: 'Unknown macro message' });
+        }
+    } catch (error) {
+        backgroundLog.error('Failed to handle macro message', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+}
@@ -10,7 +10,18 @@ import { getServerState, loadCustomServersCache } from '../../mcp/state';
 import { getDisabledTools, setDisabledTools } from '../../mcp/toolsConfig';
 import { refreshServerToken } from '../../mcp/authHelpers';
 import { startOAuthFlow, disconnectServerAuth } from '../mcp/auth';
-import { enableMcpServer, disableMcpServer } from '../mcp/manager';
+import {
+    enableMcpServer,
+    disableMcpServer,
+    getAllMCPResources,
+    getAllMCPPrompts,
+    listServerResources,
+    readServerResource,
+    subscribeServerResource,
+    unsubscribeServerResource,
+    listServerPrompts,
+    getServerPrompt
+} from '../mcp/manager';
 import { performHealthCheck, getAllMCPTools, getServerTools, callServerTool, getMCPServerConfigs } from '../mcp/tools';
 
 const backgroundLog = createLogger('Background-MCP-Handler', 'BACKGROUND');
@@ -48,6 +59,21 @@ export async function handleMcpMessage(
         return;
     }
 
+    // Handle resources/prompts list requests - aggregated across connected servers
+    if (message.type === 'mcp/resources/list' || message.type === 'mcp/prompts/list') {
+        const isResources = message.type === 'mcp/resources/list';
+        try {
+            sendResponse(isResources ? await getAllMCPResources() : await getAllMCPPrompts());
+        } catch (error) {
+            backgroundLog.error(` Error getting MCP ${isResources ? 'resources' : 'prompts'}:`, error);
+            sendResponse({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list MCP items'
+            });
+        }
+        return;
+    }
+
     // Handle custom servers cache reload request
     if (message.type === 'mcp/custom-servers/reload') {
         try {
@@ -140,6 +166,34 @@ export async function handleMcpMessage(
                 response = { success: true, data: tools };
                 break;
 
+            case 'resources/list':
+                response = await listServerResources(serverId);
+                break;
+
+            case 'resource/read':
+                response = await readServerResource(serverId, message.payload?.uri);
+                break;
+
+            case 'resource/subscribe':
+                response = await subscribeServerResource(serverId, message.payload?.uri);
+                break;
+
+            case 'resource/unsubscribe':
+                response = await unsubscribeServerResource(serverId, message.payload?.uri);
+                break;
+
+            case 'prompts/list':
+                response = await listServerPrompts(serverId);
+                break;
+
+            case 'prompt/get':
+                response = await getServerPrompt(
+                    serverId,
+                    message.payload?.name,
+                    message.payload?.arguments
+                );
+                break;
+
             case 'tools/config/get':
                 const disabledTools = await getDisabledTools(serverId);
                 response = { success: true, data: disabledTools };
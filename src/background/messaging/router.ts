@@ -9,6 +9,9 @@ import { handleMcpMessage } from './mcpHandler';
 import { handleWebMCPMessage, isWebMCPMessage } from './webmcpHandler';
 import { handleFileMessage } from './fileHandler';
 import { handleUiMessage } from './uiHandler';
+import { handleSchedulerMessage, isSchedulerMessage } from './schedulerHandler';
+import { handleMacroMessage, isMacroMessage } from './macroHandler';
+import { handleStyleProfileMessage, isStyleProfileMessage } from './styleProfileHandler';
 import { handleSummarizeRequest } from '../summarizer';
 import { handleWriteGenerate } from '../writer';
 import { handleRewriteRequest } from '../rewriter';
@@ -50,6 +53,24 @@ export function initializeMessageRouter(): void {
             return true; // Will respond asynchronously
         }
 
+        // Route scheduled task messages
+        if (isSchedulerMessage(message)) {
+            handleSchedulerMessage(message, sender, sendResponse);
+            return true; // Will respond asynchronously
+        }
+
+        // Route macro recording messages
+        if (isMacroMessage(message)) {
+            handleMacroMessage(message, sender, sendResponse);
+            return true; // Will respond asynchronously
+        }
+
+        // Route writing style profile messages
+        if (isStyleProfileMessage(message)) {
+            handleStyleProfileMessage(message, sender, sendResponse);
+            return true; // Will respond asynchronously
+        }
+
         // Handle Supermemory ready check
         if (message.type === 'CHECK_SUPERMEMORY_READY') {
             checkSupermemoryReady().then((ready) => {
@@ -0,0 +1,52 @@
+/**
+ * Scheduler Handler
+ * 
+ * Handles scheduled task messages (e.g., "Run now" from settings)
+ */
+
+import { createLogger } from '~logger';
+import { runScheduledTask } from '../scheduler';
+
+const backgroundLog = createLogger('Background-Scheduler-Handler', 'BACKGROUND');
+
+interface SchedulerMessage {
+    type: 'scheduler/task/run';
+    payload: {
+        taskId: string;
+    };
+}
+
+export function isSchedulerMessage(message: unknown): message is SchedulerMessage {
+    return (
+        typeof message === 'object' &&
+        message !== null &&
+        'type' in message &&
+        message.type === 'scheduler/task/run' &&
+        'payload' in message &&
+        typeof message.payload === 'object' &&
+        message.payload !== null &&
+        'taskId' in message.payload &&
+        typeof message.payload.taskId === 'string'
+    );
+}
+
+/**
+ * Handle scheduled task messages
+ */
+export async function handleSchedulerMessage(
+    message: SchedulerMessage,
+    _sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+): Promise<void> {
+    try {
+        const run = await runScheduledTask(message.payload.taskId);
+        if (!run) {
+            sendResponse({ success: false, error: 'Task not found or already running' });
+            return;
+        }
+        sendResponse({ success: run.status === 'success', run, error: run.error });
+    } catch (error) {
+        backgroundLog.error('Failed to run scheduled task', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+}
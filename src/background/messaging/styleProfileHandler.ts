@@ -0,0 +1,42 @@
+/**
+ * Style Profile Handler
+ *
+ * Handles writing style profile messages from the settings page
+ */
+
+import { createLogger } from '~logger';
+import { rebuildStyleGuidance } from '../writer/styleProfile';
+import type { WritingStylePlatform } from '@/utils/settings/writingStyleSettings';
+
+const backgroundLog = createLogger('Background-StyleProfile-Handler', 'BACKGROUND');
+
+type StyleProfileMessage = {
+    type: 'style-profile/analyze';
+    payload: { platform: WritingStylePlatform };
+};
+
+export function isStyleProfileMessage(message: unknown): message is StyleProfileMessage {
+    return (
+        typeof message === 'object' &&
+        message !== null &&
+        'type' in message &&
+        message.type === 'style-profile/analyze'
+    );
+}
+
+/**
+ * Summarize the stored samples of a platform into style guidance
+ */
+export async function handleStyleProfileMessage(
+    message: StyleProfileMessage,
+    _sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: any) => void
+): Promise<void> {
+    try {
+        const guidance = await rebuildStyleGuidance(message.payload.platform);
+        sendResponse({ success: true, guidance });
+    } catch (error) {
+        backgroundLog.error('Failed to analyze writing style', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+}
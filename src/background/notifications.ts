@@ -8,19 +8,10 @@
 
 import { createLogger } from '~logger';
 import { isAINotification, parseNotificationId, clearNotification } from '@/utils/notifications';
+import { completeReminder, snoozeReminder, REMINDER_ALARM_PREFIX, REMINDER_SNOOZE_MINUTES } from '@/actions/reminder/storage';
 
 const log = createLogger('Background-Notifications', 'BACKGROUND');
 
-interface Reminder {
-    id: string;
-    title: string;
-    when: number;
-    url?: string;
-    createdAt: number;
-    generatedTitle?: string;
-    generatedDescription?: string;
-}
-
 /**
  * Initialize notification event listeners
  */
@@ -66,30 +57,23 @@ export function initializeNotificationListeners(): void {
             }
 
             // Handle reminder notifications
-            if (!notificationId.startsWith('reminder:')) {
+            if (!notificationId.startsWith(REMINDER_ALARM_PREFIX)) {
                 return;
             }
 
-            const id = notificationId.split(':')[1];
+            const id = notificationId.slice(REMINDER_ALARM_PREFIX.length);
             if (!id) {
                 log.warn('Invalid reminder notification ID:', notificationId);
                 return;
             }
 
-            const { reminders = {} } = await chrome.storage.local.get('reminders');
-            const remindersMap = reminders as Record<string, Reminder>;
-            const reminder: Reminder | undefined = remindersMap[id];
+            // Clicking the notification counts as done; recurring reminders keep their next occurrence
+            const reminder = await completeReminder(id);
 
             if (reminder?.url) {
                 await chrome.tabs.create({ url: reminder.url });
             }
 
-            // Cleanup: remove reminder and clear notification
-            if (remindersMap[id]) {
-                delete remindersMap[id];
-                await chrome.storage.local.set({ reminders: remindersMap });
-            }
-
             await clearNotification(notificationId);
         } catch (error) {
             log.error('Error handling notification click:', error);
@@ -97,10 +81,24 @@ export function initializeNotificationListeners(): void {
     });
 
     /**
-     * Global notification button click handler for AI notifications
+     * Global notification button click handler for reminders and AI notifications
      */
     chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
         try {
+            // Reminder buttons: Snooze / Mark done
+            if (notificationId.startsWith(REMINDER_ALARM_PREFIX)) {
+                const id = notificationId.slice(REMINDER_ALARM_PREFIX.length);
+                if (buttonIndex === 0) {
+                    await snoozeReminder(id, REMINDER_SNOOZE_MINUTES);
+                    log.info('Reminder snoozed:', id);
+                } else if (buttonIndex === 1) {
+                    await completeReminder(id);
+                    log.info('Reminder marked done:', id);
+                }
+                await clearNotification(notificationId);
+                return;
+            }
+
             // Only handle AI completion notifications
             if (!isAINotification(notificationId)) {
                 return;
@@ -21,7 +21,8 @@ import {
     type GeminiContentPart,
 } from '../supermemory';
 import { searchMemories, formatMemoriesForPrompt } from '../supermemory';
-import type { RewritePreset } from '@/types';
+import { getCustomPresetInstruction, isCustomRewritePreset } from '@/utils/settings/rewriteSettings';
+import type { BuiltInRewritePreset, RewritePreset } from '@/types';
 
 const log = createLogger('GeminiRewriter', 'BACKGROUND');
 
@@ -29,7 +30,7 @@ const log = createLogger('GeminiRewriter', 'BACKGROUND');
  * Preset-specific rewrite instructions
  * All presets include edge case handling: questions/prompts should be transformed, not answered
  */
-const PRESET_PROMPTS: Record<RewritePreset, string> = {
+const PRESET_PROMPTS: Record<BuiltInRewritePreset, string> = {
     shorter: 'Make this text shorter and more concise while preserving the key meaning. If the text is a question or prompt, shorten the question/prompt itself - do NOT answer it',
     longer: 'Expand this text by adding more detail, context, and elaboration. If the text is a question or prompt, make it a more detailed and comprehensive question/prompt - do NOT answer it',
     professional: 'Rewrite this in a more professional and formal tone. If the text is a question or prompt, make it more professionally worded - do NOT answer it',
@@ -50,6 +51,8 @@ export interface RewriterOptions {
     enableGoogleSearch?: boolean;
     // Phase 6: AI-driven memory search via function calling
     enableSupermemorySearch?: boolean;
+    /** Guidance from the user's writing style profile */
+    styleGuidance?: string;
 }
 
 /**
@@ -122,19 +125,25 @@ export class GeminiRewriter {
      * memories and include them in the prompt instead of using function calling.
      */
     async rewrite(text: string, options: RewriterOptions = {}): Promise<string> {
-        const { preset, instruction, enableUrlContext, enableGoogleSearch, enableSupermemorySearch } = options;
+        const { preset, instruction, enableUrlContext, enableGoogleSearch, enableSupermemorySearch, styleGuidance } = options;
 
-        // Build the instruction prompt
-        const rewriteInstruction = preset
-            ? PRESET_PROMPTS[preset]
-            : (instruction || 'Improve this text');
+        // Build the instruction prompt; custom presets carry their own instruction
+        const presetInstruction = !preset
+            ? null
+            : isCustomRewritePreset(preset)
+                ? await getCustomPresetInstruction(preset)
+                : PRESET_PROMPTS[preset];
+        const rewriteInstruction = presetInstruction || instruction || 'Improve this text';
 
         let prompt = `${rewriteInstruction}\n\nText to rewrite:\n${text}`;
+        const styleInstruction = styleGuidance
+            ? `\n\n        The result should sound like the user wrote it. Follow this description of their writing style unless the instruction says otherwise:\n${styleGuidance}`
+            : '';
         const systemPrompt = `You are a text rewriting assistant. 
         Rewrite the given text according to the instruction.
         Output ONLY the rewritten text itself with no preamble, introduction, or meta-commentary.
         Do NOT add phrases like "Here is the simpler version", "Here's a friendlier version", etc.
-        Maintain the same language as the input text.
+        Maintain the same language as the input text unless the instruction asks for another language.
         Start directly with the rewritten content.
         CRITICAL: If the input is a question or prompt, rewrite/expand THE QUESTION OR PROMPT ITSELF - do NOT answer it. Your job is to transform text, not to respond to it.
         
@@ -142,7 +151,7 @@ export class GeminiRewriter {
         - Preserve the original text's structure and intent
         - Add markdown (bold, lists, code) only if it genuinely improves clarity
         - For 'longer' preset: structure with bullets/paragraphs as needed
-        - For 'simplify' preset: minimal formatting, focus on plain language`;
+        - For 'simplify' preset: minimal formatting, focus on plain language${styleInstruction}`;
 
         // Check if built-in tools are enabled
         const hasBuiltInTools = enableUrlContext || enableGoogleSearch;
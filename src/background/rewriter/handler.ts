@@ -6,6 +6,8 @@
 import { createLogger } from '~logger';
 import { geminiRewriter, type RewriterOptions } from './geminiRewriter';
 import { queueContentMemoryForRewriter } from '../supermemory/contentMemory/hooks';
+import { extractDomain } from '../writer/contextBuilder';
+import { getStyleGuidance } from '@/utils/settings/writingStyleSettings';
 import type { RewriteRequest } from '@/types';
 
 const log = createLogger('RewriterHandler', 'BACKGROUND');
@@ -87,7 +89,7 @@ export async function handleRewriteRequest(
     request: RewriteRequest,
     port: chrome.runtime.Port
 ): Promise<void> {
-    const { selectedText, instruction, preset, enableUrlContext, enableGoogleSearch, enableSupermemorySearch } = request.payload;
+    const { selectedText, instruction, preset, pageContext, enableUrlContext, enableGoogleSearch, enableSupermemorySearch } = request.payload;
 
     log.info('Processing rewrite request', {
         textLength: selectedText.length,
@@ -104,6 +106,11 @@ export async function handleRewriteRequest(
     });
 
     try {
+        // The tooltip doesn't send page context, so fall back to the sender tab for the domain
+        const senderUrl = port.sender?.tab?.url;
+        const domain = pageContext?.domain ?? (senderUrl ? extractDomain(senderUrl) : undefined);
+        const styleGuidance = await getStyleGuidance({ domain });
+
         // Build options - AI-driven memory search is handled within geminiRewriter
         // via function calling when enableSupermemorySearch is true
         const options: RewriterOptions = {
@@ -113,6 +120,7 @@ export async function handleRewriteRequest(
             enableGoogleSearch: enableGoogleSearch ?? false,
             // Phase 6: Pass to rewriter for AI-driven function calling
             enableSupermemorySearch: enableSupermemorySearch ?? false,
+            styleGuidance: styleGuidance ?? undefined,
         };
 
         // Generate complete rewrite (non-streaming)
@@ -0,0 +1,42 @@
+/**
+ * Scheduler Module
+ * Runs scheduled agent tasks when their alarms fire
+ */
+
+import { createLogger } from '~logger';
+import { getScheduledTasks, syncScheduledTaskAlarm, SCHEDULED_TASK_ALARM_PREFIX } from '@/workflows/scheduled';
+import { runScheduledTask } from './runner';
+
+export { runScheduledTask } from './runner';
+export { getScheduledTaskTools } from './tools';
+
+const log = createLogger('Background-Scheduler', 'BACKGROUND');
+
+/**
+ * Check whether an alarm belongs to a scheduled task
+ */
+export function isScheduledTaskAlarm(alarmName: string): boolean {
+    return alarmName.startsWith(SCHEDULED_TASK_ALARM_PREFIX);
+}
+
+/**
+ * Run the task an alarm was created for
+ */
+export async function handleScheduledTaskAlarm(alarmName: string): Promise<void> {
+    const id = alarmName.slice(SCHEDULED_TASK_ALARM_PREFIX.length);
+    if (!id) {
+        log.warn('Invalid scheduled task alarm name:', alarmName);
+        return;
+    }
+    await runScheduledTask(id);
+}
+
+/**
+ * Recreate alarms for all enabled tasks
+ * Tasks whose run was missed while the browser was closed fire right away
+ */
+export async function syncScheduledTaskAlarms(): Promise<void> {
+    const tasks = await getScheduledTasks();
+    await Promise.all(tasks.map(task => syncScheduledTaskAlarm(task)));
+    log.info('Scheduled task alarms synced', { count: tasks.filter(task => task.enabled).length });
+}
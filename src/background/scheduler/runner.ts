@@ -0,0 +1,151 @@
+/**
+ * Scheduled Task Runner
+ *
+ * Runs a scheduled task in the service worker: one agent loop with the
+ * task's workflow prompt and background tools, saved as a new chat thread,
+ * followed by a notification that opens the thread when clicked.
+ */
+
+import { generateText, stepCountIs, type UIMessage } from 'ai';
+import { createLogger } from '~logger';
+import { createThread, recordUsage, saveBranchPath } from '~/db';
+import { initializeModel } from '@/ai/core/modelFactory';
+import { getModelConfig } from '@/utils/ai/modelSettings';
+import { createNotificationId, truncateMessage } from '@/utils/notifications';
+import { APP_ICON } from '@/constants';
+import { DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT, getCustomWorkflows } from '@/workflows/customWorkflows';
+import { getResearchWorkflowWithSettings } from '@/workflows/definitions/researchWorkflow';
+import { youtubeToNotionWorkflow } from '@/workflows/definitions/youtubeToNotionWorkflow';
+import type { WorkflowDefinition } from '@/workflows/types';
+import { getScheduledTask, recordScheduledTaskRun, type ScheduledTask, type ScheduledTaskRun } from '@/workflows/scheduled';
+import { getScheduledTaskTools } from './tools';
+
+const log = createLogger('Background-Scheduler', 'BACKGROUND');
+
+const DEFAULT_SYSTEM_PROMPT = `You are a browser assistant running a scheduled task while the user is away.
+Use the available tools to gather what you need, then reply with a concise, well-structured report in Markdown.
+You cannot ask the user questions; if something is missing, say so in the report.`;
+
+/** Tasks currently executing, so an overlapping alarm and "Run now" don't double up */
+const runningTasks = new Set<string>();
+
+/**
+ * Find a workflow without the side panel's registry
+ * Pipeline workflows need side-panel tools and aren't supported here
+ */
+async function resolveWorkflow(id: string | undefined): Promise<WorkflowDefinition | undefined> {
+    if (!id) return undefined;
+
+    const builtIns = [await getResearchWorkflowWithSettings(), youtubeToNotionWorkflow];
+    const workflow = builtIns.find(w => w.id === id) ?? (await getCustomWorkflows()).find(w => w.id === id);
+    if (!workflow) {
+        throw new Error(`Workflow "/${id}" no longer exists`);
+    }
+    if (workflow.pipeline) {
+        throw new Error(`Workflow "/${id}" is a pipeline and can't run on a schedule`);
+    }
+    return workflow;
+}
+
+function textMessage(role: 'user' | 'assistant', text: string): UIMessage {
+    return { id: crypto.randomUUID(), role, parts: [{ type: 'text', text }] };
+}
+
+function notify(task: ScheduledTask, threadId: string, message: string): void {
+    chrome.notifications.create(createNotificationId(threadId, Date.now()), {
+        type: 'basic',
+        iconUrl: APP_ICON,
+        title: task.name,
+        message: truncateMessage(message, 120),
+        priority: 1,
+    });
+}
+
+/**
+ * Run the agent and store the result as a thread
+ *
+ * @returns Id of the thread holding the report
+ */
+async function executeTask(task: ScheduledTask): Promise<string> {
+    const workflow = await resolveWorkflow(task.workflowId);
+    const allowedTools = task.allowedTools.length > 0 ? task.allowedTools : workflow?.allowedTools ?? [];
+    const tools = await getScheduledTaskTools(allowedTools);
+
+    const { remoteModel } = await getModelConfig();
+    const { model, provider, modelName } = await initializeModel(remoteModel, 'remote');
+
+    const startedAt = Date.now();
+    const result = await generateText({
+        model,
+        system: workflow?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+        prompt: task.prompt,
+        tools,
+        stopWhen: stepCountIs(workflow?.stepCount ?? DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT),
+    });
+
+    const thread = await createThread(task.name);
+    await saveBranchPath(thread.id, [
+        { id: crypto.randomUUID(), message: textMessage('user', task.prompt), timestamp: startedAt },
+        { id: crypto.randomUUID(), message: textMessage('assistant', result.text || 'The task finished without a reply.'), timestamp: Date.now() },
+    ]);
+
+    if (provider !== 'local') {
+        await recordUsage({
+            timestamp: Date.now(),
+            modelId: modelName,
+            provider,
+            threadId: thread.id,
+            workflowId: workflow?.id,
+            inputTokens: result.totalUsage.inputTokens ?? 0,
+            outputTokens: result.totalUsage.outputTokens ?? 0,
+            totalTokens: result.totalUsage.totalTokens ?? 0,
+            cachedInputTokens: result.totalUsage.cachedInputTokens,
+            reasoningTokens: result.totalUsage.reasoningTokens,
+        }).catch(error => log.warn('Failed to record scheduled task usage', error));
+    }
+
+    notify(task, thread.id, result.text || 'Finished');
+    return thread.id;
+}
+
+/**
+ * Run a scheduled task now and record the outcome
+ *
+ * @returns The recorded run, or undefined when the task is missing or already running
+ */
+export async function runScheduledTask(id: string): Promise<ScheduledTaskRun | undefined> {
+    const task = await getScheduledTask(id);
+    if (!task) {
+        log.warn('Scheduled task not found', { id });
+        return undefined;
+    }
+    if (runningTasks.has(id)) {
+        log.info('Scheduled task already running', { id });
+        return undefined;
+    }
+
+    runningTasks.add(id);
+    const at = Date.now();
+    let run: ScheduledTaskRun;
+    try {
+        log.info('Running scheduled task', { id, name: task.name });
+        const threadId = await executeTask(task);
+        run = { at, status: 'success', threadId };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error('Scheduled task failed', { id, error: message });
+        chrome.notifications.create(`scheduled-task-error:${id}:${at}`, {
+            type: 'basic',
+            iconUrl: APP_ICON,
+            title: `${task.name} failed`,
+            message: truncateMessage(message, 120),
+            priority: 1,
+        });
+        run = { at, status: 'error', error: message };
+    } finally {
+        runningTasks.delete(id);
+    }
+
+    await recordScheduledTaskRun(id, run);
+    return run;
+}
@@ -0,0 +1,156 @@
+/**
+ * Scheduled Task Tools
+ *
+ * Tools available to scheduled runs. The side panel's tool registry isn't
+ * loaded in the service worker, so these call the chrome APIs directly and
+ * MCP tools go through the background's persistent connections.
+ */
+
+import { jsonSchema, tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import { createLogger } from '~logger';
+import { withUnattendedToolApproval } from '@/ai/tools/approval/wrap';
+import { captureTabSnapshot } from '@/utils/tabs/tabSnapshot';
+import { SCHEDULED_TASK_BROWSER_TOOLS } from '@/workflows/scheduled';
+import { callServerTool, getAllMCPTools } from '../mcp/tools';
+
+const log = createLogger('Background-Scheduler-Tools', 'BACKGROUND');
+
+/** Page text returned to the model is capped to keep runs within context limits */
+const MAX_TAB_CONTENT_CHARS = 20000;
+
+const browserTools: Record<(typeof SCHEDULED_TASK_BROWSER_TOOLS)[number], ToolSet[string]> = {
+    getAllTabs: tool({
+        description: 'List open browser tabs with their id, title and URL. Optionally only tabs whose URL contains some text.',
+        inputSchema: z.object({
+            urlContains: z.string().optional().describe('Only return tabs whose URL contains this text, e.g. "github.com/pulls"'),
+        }),
+        execute: async ({ urlContains }) => {
+            const tabs = await chrome.tabs.query({});
+            const filter = urlContains?.toLowerCase();
+            return {
+                tabs: tabs
+                    .filter(tab => !filter || tab.url?.toLowerCase().includes(filter))
+                    .map(tab => ({ id: tab.id, title: tab.title, url: tab.url, windowId: tab.windowId })),
+            };
+        },
+    }),
+
+    readTab: tool({
+        description: 'Read the text content of an open tab by its id (from getAllTabs).',
+        inputSchema: z.object({
+            tabId: z.number().describe('Tab id from getAllTabs'),
+        }),
+        execute: async ({ tabId }) => {
+            const { url, title, snapshot, error } = await captureTabSnapshot(tabId);
+            if (error) {
+                return { error };
+            }
+            const content = snapshot ?? '';
+            return {
+                url,
+                title,
+                content: content.slice(0, MAX_TAB_CONTENT_CHARS),
+                truncated: content.length > MAX_TAB_CONTENT_CHARS,
+            };
+        },
+    }),
+
+    openTab: tool({
+        description: 'Open a URL in a new background tab. Returns the new tab id, which can be read with readTab once it has loaded.',
+        inputSchema: z.object({
+            url: z.string().describe('Absolute URL to open'),
+        }),
+        execute: async ({ url }) => {
+            const tab = await chrome.tabs.create({ url, active: false });
+            return { tabId: tab.id, url };
+        },
+    }),
+
+    searchHistory: tool({
+        description: 'Search browser history titles and URLs, optionally within a time range.',
+        inputSchema: z.object({
+            query: z.string().describe('Text to search for in page titles and URLs'),
+            maxResults: z.number().default(20).describe('Maximum number of results'),
+            startTime: z.number().optional().describe('Only visits after this timestamp (ms since epoch)'),
+            endTime: z.number().optional().describe('Only visits before this timestamp (ms since epoch)'),
+        }),
+        execute: async ({ query, maxResults, startTime, endTime }) => {
+            const results = await chrome.history.search({ text: query, maxResults, startTime, endTime });
+            return {
+                results: results.map(item => ({
+                    title: item.title || 'Untitled',
+                    url: item.url || '',
+                    lastVisitTime: item.lastVisitTime,
+                    visitCount: item.visitCount || 0,
+                })),
+            };
+        },
+    }),
+};
+
+/**
+ * Wrap tools of connected MCP servers
+ */
+async function loadMCPTools(): Promise<{ tools: ToolSet; serverIds: Record<string, string> }> {
+    const tools: ToolSet = {};
+    const serverIds: Record<string, string> = {};
+
+    const response = await getAllMCPTools();
+    if (!response.success) {
+        log.warn('MCP tools unavailable for scheduled run', response.error);
+        return { tools, serverIds };
+    }
+
+    const definitions = ((response.data as { tools?: unknown[] } | undefined)?.tools ?? []) as Array<{
+        name: string;
+        description?: string;
+        inputSchema?: Record<string, unknown>;
+        serverId: string;
+    }>;
+    for (const definition of definitions) {
+        if (tools[definition.name]) continue;
+        serverIds[definition.name] = definition.serverId;
+        tools[definition.name] = tool({
+            description: definition.description ?? definition.name,
+            inputSchema: jsonSchema<Record<string, unknown>>(
+                (definition.inputSchema ?? { type: 'object', properties: {} }) as Parameters<typeof jsonSchema>[0]
+            ),
+            execute: async (args) => {
+                const result = await callServerTool(definition.serverId, definition.name, args);
+                return result.success ? result.data : { error: result.error ?? 'Tool call failed' };
+            },
+        });
+    }
+    return { tools, serverIds };
+}
+
+/**
+ * Build the tool set for a scheduled run
+ * Nobody is there to approve calls, so tools that need approval are refused
+ * unless an "always allow" rule covers them
+ *
+ * @param allowedTools - Tool names to expose; empty means every available tool
+ */
+export async function getScheduledTaskTools(allowedTools: string[]): Promise<ToolSet> {
+    const mcp = await loadMCPTools();
+    const all = withUnattendedToolApproval({ ...mcp.tools, ...browserTools }, mcp.serverIds);
+    if (allowedTools.length === 0) {
+        return all;
+    }
+
+    const tools: ToolSet = {};
+    const unavailable: string[] = [];
+    for (const name of allowedTools) {
+        const selected = all[name];
+        if (selected) {
+            tools[name] = selected;
+        } else {
+            unavailable.push(name);
+        }
+    }
+    if (unavailable.length > 0) {
+        log.info('Skipping tools that need the side panel', { unavailable });
+    }
+    return tools;
+}
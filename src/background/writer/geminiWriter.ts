@@ -32,6 +32,10 @@ export interface WriterOptions {
     tone?: WriteTone;
     maxTokens?: number;
     pageContext?: WritePageContext;
+    /** Instruction of the custom preset chosen in the overlay */
+    presetInstruction?: string;
+    /** Guidance from the user's writing style profile */
+    styleGuidance?: string;
     // Gemini Tool options
     enableUrlContext?: boolean;    // Enable URL fetching/analysis tool
     enableGoogleSearch?: boolean;  // Enable Google Search grounding tool
@@ -173,11 +177,19 @@ export class GeminiWriter {
                 : `\n\nThe user has attached a document. Read and analyze its contents carefully. Use the information from the document to inform your response. You can reference specific details, summarize sections, or build upon the document's content as needed.`;
         }
 
+        const styleInstruction = options?.styleGuidance
+            ? `\n\nWrite in the user's own voice. Follow this description of how they write (it takes precedence over the tone above):\n${options.styleGuidance}`
+            : '';
+
+        const presetInstruction = options?.presetInstruction
+            ? `\n\nApply this instruction from the user's preset to the output (it takes precedence over the tone above):\n${options.presetInstruction}`
+            : '';
+
         return `You are a helpful writing assistant. Generate content based on the user's request.
 
 ${platformInstruction}
 
-${toneInstruction}
+${toneInstruction}${styleInstruction}${presetInstruction}
 ${contextInfo}
 
 Important guidelines:
@@ -411,6 +423,66 @@ Important guidelines:
         return text;
     }
 
+    /**
+     * Summarize writing samples into reusable style guidance
+     * Describes how the user writes; the samples' content is not carried over
+     */
+    async summarizeStyle(samples: string[], platformLabel: string): Promise<string> {
+        const provider = await this.getProviderInfo(false);
+
+        const systemPrompt = `You analyze writing samples and describe the author's personal writing style so another writer can imitate it.
+
+Cover, as short bullet points:
+- Tone and formality
+- Sentence and paragraph length
+- Greetings, sign-offs and how messages open and close
+- Vocabulary, recurring phrases and words they avoid
+- Punctuation, capitalization, emoji and formatting habits
+
+Rules:
+- Describe the style only. Do NOT include names, email addresses, facts or topics from the samples
+- Only describe habits that appear in several samples
+- At most 10 bullet points, no preamble or headings`;
+
+        const numbered = samples
+            .map((sample, index) => `<sample ${index + 1}>\n${sample}\n</sample ${index + 1}>`)
+            .join('\n\n');
+
+        const response = await fetch(provider.url, {
+            method: 'POST',
+            headers: provider.headers,
+            body: JSON.stringify({
+                contents: [{
+                    role: 'user',
+                    parts: [{ text: `Writing samples from ${platformLabel}:\n\n${numbered}` }],
+                }],
+                systemInstruction: {
+                    parts: [{ text: systemPrompt }]
+                },
+                generationConfig: {
+                    temperature: 0.3,
+                    maxOutputTokens: 512,
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            log.error('API error', { status: response.status, error: errorText });
+            throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+        }
+
+        const data = await response.json();
+        const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (!text) {
+            log.error('No text in style summary response', { data });
+            throw new Error('No style guidance generated');
+        }
+
+        log.info('Style summary complete', { sampleCount: samples.length, platformLabel });
+        return text.trim();
+    }
+
     /**
      * Streaming generation using Gemini API SSE
      * Supports both Google AI and Vertex AI providers
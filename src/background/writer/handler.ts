@@ -6,6 +6,8 @@
 import { createLogger } from '~logger';
 import { geminiWriter, type WriterOptions } from './geminiWriter';
 import { queueContentMemoryForWriter } from '../supermemory/contentMemory/hooks';
+import { getCustomPresetInstruction } from '@/utils/settings/rewriteSettings';
+import { getStyleGuidance } from '@/utils/settings/writingStyleSettings';
 import type { WriteGenerateRequest } from '@/types';
 
 const log = createLogger('WriterHandler', 'BACKGROUND');
@@ -94,15 +96,23 @@ export async function handleWriteGenerate(
         platform: pageContext?.platform,
         domain: pageContext?.domain,
         enableSupermemorySearch: settings?.enableSupermemorySearch,
+        preset: settings?.preset,
         hasAttachment: !!attachment,
         attachmentType: attachment?.mimeType,
         attachmentSize: attachment?.fileSize,
     });
 
+    const [presetInstruction, styleGuidance] = await Promise.all([
+        settings?.preset ? getCustomPresetInstruction(settings.preset) : null,
+        getStyleGuidance({ platform: pageContext?.platform, domain: pageContext?.domain }),
+    ]);
+
     const options: WriterOptions = {
         tone: settings?.tone,
         maxTokens: settings?.maxTokens,
         pageContext,
+        presetInstruction: presetInstruction ?? undefined,
+        styleGuidance: styleGuidance ?? undefined,
         // Pass Gemini tool settings
         enableUrlContext: settings?.enableUrlContext ?? false,
         enableGoogleSearch: settings?.enableGoogleSearch ?? false,
@@ -6,6 +6,7 @@
 export { geminiWriter, GeminiWriter } from './geminiWriter';
 export type { WriterOptions } from './geminiWriter';
 export { handleWriteGenerate } from './handler';
+export { rebuildStyleGuidance } from './styleProfile';
 export {
     detectPlatform,
     extractDomain,
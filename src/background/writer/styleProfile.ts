@@ -0,0 +1,56 @@
+/**
+ * Writing Style Profile
+ * Summarizes the user's writing samples into style guidance for /write and the rewriter
+ */
+
+import { createLogger } from '~logger';
+import { geminiWriter } from './geminiWriter';
+import {
+    getWritingStyleProfile,
+    saveWritingStyleProfile,
+    WRITING_STYLE_PLATFORMS,
+    type WritingStylePlatform,
+} from '@/utils/settings/writingStyleSettings';
+
+const log = createLogger('StyleProfile', 'BACKGROUND');
+
+const MIN_SAMPLES = 2;
+const MAX_SAMPLE_CHARS = 12000;
+
+/**
+ * Rebuild the guidance for one platform from its samples and save it.
+ * General guidance learns from every sample; platform guidance from that platform's only.
+ */
+export async function rebuildStyleGuidance(platform: WritingStylePlatform): Promise<string> {
+    const profile = await getWritingStyleProfile();
+    const label = WRITING_STYLE_PLATFORMS.find(entry => entry.id === platform)?.label ?? platform;
+
+    const candidates = profile.samples
+        .filter(sample => platform === 'general' || sample.platform === platform)
+        .sort((a, b) => b.createdAt - a.createdAt);
+
+    if (candidates.length < MIN_SAMPLES) {
+        throw new Error(`Add at least ${MIN_SAMPLES} ${label} samples first`);
+    }
+
+    // Newest samples first, within the prompt budget
+    const samples: string[] = [];
+    let totalChars = 0;
+    for (const sample of candidates) {
+        if (totalChars + sample.text.length > MAX_SAMPLE_CHARS && samples.length >= MIN_SAMPLES) break;
+        samples.push(sample.text);
+        totalChars += sample.text.length;
+    }
+
+    log.info('Rebuilding style guidance', { platform, sampleCount: samples.length, totalChars });
+    const guidance = await geminiWriter.summarizeStyle(samples, label);
+
+    // Re-read so samples captured meanwhile aren't lost
+    const latest = await getWritingStyleProfile();
+    await saveWritingStyleProfile({
+        ...latest,
+        guidance: { ...latest.guidance, [platform]: guidance },
+    });
+
+    return guidance;
+}
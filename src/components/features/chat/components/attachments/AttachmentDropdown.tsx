@@ -3,16 +3,20 @@ import { PaperclipIcon } from '@/components/shared/icons';
 import { CameraIcon } from '@assets/icons/chat/camera';
 import { TabsIcon } from '@assets/icons/chat/tabs';
 import { YouTubeSimpleIcon } from '@assets/icons/chat/youtube-simple';
+import { Database } from 'lucide-react';
 
 interface AttachmentDropdownProps {
     onFileClick: () => void;
     onScreenshotClick: () => void;
     onAddTabsClick: () => void;
     onAddYouTubeVideoClick: () => void;
+    onAddMcpResourcesClick: () => void;
     onClose: () => void;
     isLocalMode: boolean;
 }
 
+const McpResourceIcon: React.FC<{ size?: number }> = ({ size }) => <Database size={size} />;
+
 interface ButtonConfig {
     label: string;
     icon: React.ComponentType<{ size?: number }>;
@@ -24,6 +28,7 @@ export const AttachmentDropdown: React.FC<AttachmentDropdownProps> = ({
     onScreenshotClick,
     onAddTabsClick,
     onAddYouTubeVideoClick,
+    onAddMcpResourcesClick,
     onClose,
     isLocalMode,
 }) => {
@@ -45,6 +50,7 @@ export const AttachmentDropdown: React.FC<AttachmentDropdownProps> = ({
         { label: 'Screenshot', icon: CameraIcon, onClick: onScreenshotClick },
         { label: 'Add tabs', icon: TabsIcon, onClick: onAddTabsClick },
         { label: 'Add YouTube', icon: YouTubeSimpleIcon, onClick: onAddYouTubeVideoClick },
+        { label: 'MCP resources', icon: McpResourceIcon, onClick: onAddMcpResourcesClick },
     ];
 
     const buttonStyle: React.CSSProperties = {
@@ -6,6 +6,14 @@ export interface TabAttachmentData {
     title: string;
     url: string;
     favIconUrl?: string;
+    /** Set when the attachment is an MCP resource; `url` then holds the resource URI */
+    mcpResource?: {
+        serverId: string;
+        serverName: string;
+        mimeType?: string;
+        /** The server reported a change after the resource was attached */
+        updated?: boolean;
+    };
 }
 
 interface TabAttachmentProps {
@@ -33,8 +41,14 @@ export const TabAttachment: React.FC<TabAttachmentProps> = ({ tabs, onRemoveAll
         }
     };
 
+    // MCP resources show their server instead of a domain
+    const getSource = (tab: TabAttachmentData) => {
+        if (!tab.mcpResource) return extractDomain(tab.url);
+        return tab.mcpResource.updated ? `${tab.mcpResource.serverName} (updated)` : tab.mcpResource.serverName;
+    };
+
     const getAllDomains = () => {
-        return tabs.map(tab => extractDomain(tab.url)).join(', ');
+        return tabs.map(getSource).join(', ');
     };
 
     return (
@@ -57,8 +71,8 @@ export const TabAttachment: React.FC<TabAttachmentProps> = ({ tabs, onRemoveAll
                         )}
                     </span>
                     <span className="tab-attachment-url" title={getAllDomains()}>
-                        {extractDomain(firstTab.url)}
-                        {remainingCount > 0 && tabs[1] && `, ${extractDomain(tabs[1].url)}`}
+                        {getSource(firstTab)}
+                        {remainingCount > 0 && tabs[1] && `, ${getSource(tabs[1])}`}
                         {remainingCount > 1 && '...'}
                     </span>
                 </div>
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { MessageBranchInfo } from '@/types/database';
+
+interface BranchSwitcherProps {
+    branch: MessageBranchInfo;
+    onSwitch: (direction: -1 | 1) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Compact "‹ 2/3 ›" control to flip between alternate versions of a message
+ */
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ branch, onSwitch, disabled }) => {
+    const total = branch.siblingIds.length;
+
+    return (
+        <div className="branch-switcher" role="group" aria-label="Message versions">
+            <button
+                type="button"
+                className="branch-switcher-button"
+                onClick={() => onSwitch(-1)}
+                disabled={disabled || branch.index === 0}
+                title="Previous version"
+                aria-label="Previous version"
+            >
+                <ChevronLeft size={12} />
+            </button>
+            <span className="branch-switcher-count">
+                {branch.index + 1}/{total}
+            </span>
+            <button
+                type="button"
+                className="branch-switcher-button"
+                onClick={() => onSwitch(1)}
+                disabled={disabled || branch.index === total - 1}
+                title="Next version"
+                aria-label="Next version"
+            >
+                <ChevronRight size={12} />
+            </button>
+        </div>
+    );
+};
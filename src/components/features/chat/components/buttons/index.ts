@@ -1,5 +1,6 @@
 // Action button components
 export { BrainButton } from './BrainButton';
+export { BranchSwitcher } from './BranchSwitcher';
 export { ContinueButton } from './ContinueButton';
 export { CopyButton } from './CopyButton';
 export { DownloadButton } from './DownloadButton';
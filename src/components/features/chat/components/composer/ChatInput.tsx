@@ -12,6 +12,8 @@ import { useYouTubeVideoDetection } from '@/hooks/browser';
 import { useWorkflowMode } from '@/hooks/workflows';
 import { useSearchMode } from '@/hooks/useSearchMode';
 import { useChatInputValidation } from '@/hooks/chat';
+import { useMcpResourceSubscriptions, useUsageBudget } from './hooks';
+import { BudgetWarning } from './sections';
 
 interface ChatInputProps {
     messages: Message[];
@@ -62,11 +64,14 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     const composerRef = useRef<HTMLDivElement>(null);
     const internalVoiceInputRef = useRef<VoiceInputHandle>(null);
     const [showModeDropdown, setShowModeDropdown] = useState(false);
-    const [tabAttachments, setTabAttachments] = useState<Array<{ id: string; title: string; url: string; favIconUrl?: string }>>([]);
+    const [tabAttachments, setTabAttachments] = useState<TabAttachmentData[]>([]);
 
     // Use external ref if provided, otherwise use local ref
     const voiceInputRef = externalVoiceInputRef || internalVoiceInputRef;
 
+    // Monthly budget status, surfaced before the next request is sent
+    const budgetStatus = useUsageBudget(isLoading);
+
     // Custom hooks for separated concerns
     const {
         attachments,
@@ -118,6 +123,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         showSlashDropdown,
         slashSearchQuery,
         handleSelectWorkflow,
+        handleSelectMcpPrompt,
         handleClearWorkflow,
         handleSlashCommandDetection,
     } = useWorkflowMode({ input, setInput, onError });
@@ -159,14 +165,22 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         setTabAttachments([]);
     };
 
-    const handleAddTabAttachments = (tabs: Array<{ id: string; title: string; url: string; favIconUrl?: string }>) => {
-        setTabAttachments(prev => [...prev, ...tabs]);
+    const handleAddTabAttachments = (tabs: TabAttachmentData[]) => {
+        // Skip items already attached (tabs by id, MCP resources by server and URI)
+        setTabAttachments(prev => [...prev, ...tabs.filter(tab => !prev.some(existing => existing.id === tab.id))]);
     };
 
     const handleRemoveTabAttachment = (id: string) => {
         setTabAttachments(prev => prev.filter(tab => tab.id !== id));
     };
 
+    // Flag attached MCP resources that changed; the latest content is read on send
+    useMcpResourceSubscriptions(tabAttachments, (id) => {
+        setTabAttachments(prev => prev.map(tab => tab.id === id && tab.mcpResource
+            ? { ...tab, mcpResource: { ...tab.mcpResource, updated: true } }
+            : tab));
+    });
+
     // Add paste event listener for file pasting
     useEffect(() => {
         const composerElement = composerRef.current;
@@ -195,6 +209,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     return (
         <div className="copilot-input-container">
 
+            <BudgetWarning status={budgetStatus} />
 
             {/* Suggested Actions */}
             <SuggestedActions
@@ -252,6 +267,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
                     showSlashDropdown={showSlashDropdown}
                     slashSearchQuery={slashSearchQuery}
                     handleSelectWorkflow={handleSelectWorkflow}
+                    handleSelectMcpPrompt={handleSelectMcpPrompt}
                     handleClearWorkflow={handleClearWorkflow}
                     handleSlashCommandDetection={handleSlashCommandDetection}
                     localPdfInfo={localPdfInfo}
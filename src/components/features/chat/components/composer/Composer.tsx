@@ -4,6 +4,7 @@ import type { FileAttachmentData } from '../attachments/FileAttachment';
 import type { TabAttachmentData } from '../attachments/TabAttachment';
 import type { AIMode, ModelState } from '../../types';
 import type { WorkflowDefinition } from '@/workflows/types';
+import type { MCPPromptCommand } from '@/ai/mcp/prompts';
 import type { LocalPdfInfo, YouTubeVideoInfo } from '@/hooks/browser';
 import type { YouTubeVideoMetadata } from '@/hooks/attachments/useYouTubeVideoAttachment';
 import type { ProcessFileOptions } from '@/hooks/attachments/useFileAttachments';
@@ -57,6 +58,7 @@ export interface ComposerProps {
     showSlashDropdown: boolean;
     slashSearchQuery: string;
     handleSelectWorkflow: (workflow: WorkflowDefinition) => void;
+    handleSelectMcpPrompt?: (command: MCPPromptCommand) => void;
     handleClearWorkflow: () => void;
     handleSlashCommandDetection: (show: boolean, query: string) => void;
 
@@ -110,6 +112,7 @@ export const Composer: React.FC<ComposerProps> = ({
     showSlashDropdown,
     slashSearchQuery,
     handleSelectWorkflow,
+    handleSelectMcpPrompt,
     handleClearWorkflow,
     handleSlashCommandDetection,
     localPdfInfo,
@@ -133,6 +136,7 @@ export const Composer: React.FC<ComposerProps> = ({
     const [showAttachmentDropdown, setShowAttachmentDropdown] = useState(false);
     const [showAddTabsModal, setShowAddTabsModal] = useState(false);
     const [showAddYouTubeVideoModal, setShowAddYouTubeVideoModal] = useState(false);
+    const [showAddMcpResourcesModal, setShowAddMcpResourcesModal] = useState(false);
     const [showToolsModal, setShowToolsModal] = useState(false);
 
     // Derived state
@@ -193,6 +197,7 @@ export const Composer: React.FC<ComposerProps> = ({
                 showSlashDropdown={showSlashDropdown}
                 slashSearchQuery={slashSearchQuery}
                 handleSelectWorkflow={handleSelectWorkflow}
+                handleSelectMcpPrompt={handleSelectMcpPrompt}
                 handleClearWorkflow={handleClearWorkflow}
                 handleSlashCommandDetection={handleSlashCommandDetection}
                 mode={modelState.mode}
@@ -267,6 +272,8 @@ export const Composer: React.FC<ComposerProps> = ({
                     setShowAddTabsModal={setShowAddTabsModal}
                     showAddYouTubeVideoModal={showAddYouTubeVideoModal}
                     setShowAddYouTubeVideoModal={setShowAddYouTubeVideoModal}
+                    showAddMcpResourcesModal={showAddMcpResourcesModal}
+                    setShowAddMcpResourcesModal={setShowAddMcpResourcesModal}
                     textareaRef={textareaRef}
                 />
             </div>
@@ -1,14 +1,17 @@
 /**
  * Model Selector Popover Component
  * Circular Gemini icon button that opens a popover for model selection.
- * Syncs with ProviderSetup model configuration.
+ * Syncs with ProviderSetup model configuration; when an OpenAI-compatible
+ * provider is active, lists the models discovered from that server instead.
  */
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { Check } from 'lucide-react';
+import { Check, Server } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Gemini } from '@assets/brands/integrations/Gemini';
 import { getModelConfig, setModelConfig } from '@/utils/ai/modelSettings';
+import { getActiveProvider, getOpenAICompatibleConfig, setOpenAICompatibleModel } from '@/utils/credentials';
+import type { OpenAICompatibleConfig } from '@/utils/credentials';
 import { createLogger } from '~logger';
 import type { RemoteModelType } from '@/ai/types/types';
 import '@/styles/features/copilot/model-selector-popover.css';
@@ -46,6 +49,8 @@ interface ModelSelectorPopoverProps {
 export const ModelSelectorPopover: React.FC<ModelSelectorPopoverProps> = ({ className }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [selectedModel, setSelectedModel] = useState<RemoteModelType>('gemini-2.5-flash');
+    // Set while the OpenAI-compatible provider is the active one
+    const [compatible, setCompatible] = useState<OpenAICompatibleConfig | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const popoverRef = useRef<HTMLDivElement>(null);
     const buttonRef = useRef<HTMLButtonElement>(null);
@@ -60,8 +65,18 @@ export const ModelSelectorPopover: React.FC<ModelSelectorPopoverProps> = ({ clas
         }
     }, []);
 
+    const loadProvider = useCallback(async () => {
+        try {
+            const provider = await getActiveProvider().catch(() => null);
+            setCompatible(provider === 'openai-compatible' ? await getOpenAICompatibleConfig() : null);
+        } catch (error) {
+            log.error('Failed to load provider config', error);
+        }
+    }, []);
+
     useEffect(() => {
         loadModel();
+        loadProvider();
 
         // Listen for storage changes to sync with ProviderSetup
         const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
@@ -72,13 +87,16 @@ export const ModelSelectorPopover: React.FC<ModelSelectorPopoverProps> = ({ clas
                     log.info('Model synced from storage', { model: newConfig.remoteModel });
                 }
             }
+            if (areaName === 'local' && changes.ai_provider_config) {
+                loadProvider();
+            }
         };
 
         chrome.storage.onChanged.addListener(handleStorageChange);
         return () => {
             chrome.storage.onChanged.removeListener(handleStorageChange);
         };
-    }, [loadModel]);
+    }, [loadModel, loadProvider]);
 
     // Close on click outside
     useEffect(() => {
@@ -127,7 +145,28 @@ export const ModelSelectorPopover: React.FC<ModelSelectorPopoverProps> = ({ clas
         }
     };
 
-    const currentModel = MODEL_OPTIONS.find(m => m.id === selectedModel);
+    const handleCompatibleModelChange = async (model: string) => {
+        if (!compatible || model === compatible.model || isLoading) return;
+
+        setIsLoading(true);
+        try {
+            await setOpenAICompatibleModel(model);
+            setCompatible({ ...compatible, model });
+            log.info('OpenAI-compatible model changed', { model });
+            setIsOpen(false);
+        } catch (error) {
+            log.error('Failed to save OpenAI-compatible model', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const compatibleModels = compatible
+        ? Array.from(new Set([compatible.model, ...(compatible.models ?? [])]))
+        : [];
+    const currentModelName = compatible
+        ? compatible.model
+        : MODEL_OPTIONS.find(m => m.id === selectedModel)?.name || selectedModel;
     const classNames = ['model-selector-popover-container', className].filter(Boolean).join(' ');
 
     return (
@@ -137,11 +176,11 @@ export const ModelSelectorPopover: React.FC<ModelSelectorPopoverProps> = ({ clas
                 type="button"
                 className="model-selector-button"
                 onClick={() => setIsOpen(!isOpen)}
-                aria-label={`Current model: ${currentModel?.name || selectedModel}. Click to change.`}
+                aria-label={`Current model: ${currentModelName}. Click to change.`}
                 aria-expanded={isOpen}
                 aria-haspopup="listbox"
             >
-                <Gemini className="model-selector-icon" />
+                {compatible ? <Server className="model-selector-icon" /> : <Gemini className="model-selector-icon" />}
             </button>
 
             <AnimatePresence>
@@ -158,10 +197,30 @@ export const ModelSelectorPopover: React.FC<ModelSelectorPopoverProps> = ({ clas
                     >
                         <div className="model-selector-popover-arrow" />
                         <div className="model-selector-popover-header">
-                            <span className="model-selector-popover-title">Select Model</span>
+                            <span className="model-selector-popover-title">
+                                {compatible ? compatible.name || 'OpenAI-compatible' : 'Select Model'}
+                            </span>
                         </div>
                         <div className="model-selector-popover-content">
-                            {MODEL_OPTIONS.map((model) => (
+                            {compatible && compatibleModels.map((model) => (
+                                <button
+                                    key={model}
+                                    type="button"
+                                    className={`model-selector-option ${compatible.model === model ? 'selected' : ''}`}
+                                    onClick={() => handleCompatibleModelChange(model)}
+                                    disabled={isLoading}
+                                    role="option"
+                                    aria-selected={compatible.model === model}
+                                >
+                                    <div className="model-selector-option-info">
+                                        <span className="model-selector-option-name">{model}</span>
+                                    </div>
+                                    {compatible.model === model && (
+                                        <Check size={14} className="model-selector-option-check" />
+                                    )}
+                                </button>
+                            ))}
+                            {!compatible && MODEL_OPTIONS.map((model) => (
                                 <button
                                     key={model.id}
                                     type="button"
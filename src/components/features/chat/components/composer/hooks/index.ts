@@ -1,4 +1,6 @@
 export { useToolsCount } from './useToolsCount';
 export { useVoiceFabVisibility } from './useVoiceFabVisibility';
 export { useScreenshotCapture } from './useScreenshotCapture';
+export { useMcpResourceSubscriptions } from './useMcpResourceSubscriptions';
 
+export { useUsageBudget } from './useUsageBudget';
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { createLogger } from '~logger';
+import { subscribeMCPResource } from '@/ai/mcp/proxy';
+import type { TabAttachmentData } from '../../attachments/TabAttachment';
+
+const log = createLogger('McpResourceSubscriptions');
+
+/**
+ * Hook to follow changes of MCP resources attached in the composer.
+ * Subscribes while a resource is attached and calls `onUpdated` with the
+ * attachment id when its server reports a change. Servers without
+ * subscription support are skipped; their resources are still read on send.
+ */
+export const useMcpResourceSubscriptions = (
+    tabAttachments: TabAttachmentData[],
+    onUpdated: (attachmentId: string) => void
+): void => {
+    const onUpdatedRef = useRef(onUpdated);
+    onUpdatedRef.current = onUpdated;
+
+    // Resolves to the unsubscribe function, or null when the subscription failed
+    const subscriptionsRef = useRef(new Map<string, Promise<(() => void) | null>>());
+
+    const resources = tabAttachments.filter(tab => tab.mcpResource);
+    const resourceKey = resources.map(tab => tab.id).join('\n');
+
+    useEffect(() => {
+        const subscriptions = subscriptionsRef.current;
+        const attachedIds = new Set(resources.map(tab => tab.id));
+
+        for (const tab of resources) {
+            if (subscriptions.has(tab.id)) continue;
+            const subscription = subscribeMCPResource(tab.mcpResource!.serverId, tab.url, () => {
+                onUpdatedRef.current(tab.id);
+            }).catch((error) => {
+                log.debug('Resource updates unavailable', { uri: tab.url, error });
+                return null;
+            });
+            subscriptions.set(tab.id, subscription);
+        }
+
+        for (const [id, subscription] of subscriptions) {
+            if (attachedIds.has(id)) continue;
+            subscriptions.delete(id);
+            void subscription.then(unsubscribe => unsubscribe?.());
+        }
+    }, [resourceKey]);
+
+    // Unsubscribe from everything when the composer goes away
+    useEffect(() => {
+        const subscriptions = subscriptionsRef.current;
+        return () => {
+            for (const subscription of subscriptions.values()) {
+                void subscription.then(unsubscribe => unsubscribe?.());
+            }
+            subscriptions.clear();
+        };
+    }, []);
+};
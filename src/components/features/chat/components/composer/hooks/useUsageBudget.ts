@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect } from 'react';
+import { getBudgetStatus } from '@/utils/ai/usageAnalytics';
+import { USAGE_SETTINGS_STORAGE_KEY } from '@/utils/settings/usageSettings';
+import type { BudgetStatus } from '@/types/ai/usage';
+import { createLogger } from '~logger';
+
+const log = createLogger('useUsageBudget', 'AI_CHAT');
+
+/**
+ * Hook to track the current month's usage against the configured budgets.
+ * Refreshes whenever a request finishes and when budgets change in settings.
+ */
+export const useUsageBudget = (isLoading: boolean): BudgetStatus | null => {
+    const [status, setStatus] = useState<BudgetStatus | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setStatus(await getBudgetStatus());
+        } catch (error) {
+            log.error('Failed to load budget status', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isLoading) {
+            refresh();
+        }
+    }, [isLoading, refresh]);
+
+    useEffect(() => {
+        const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+            if (areaName === 'local' && changes[USAGE_SETTINGS_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, [refresh]);
+
+    return status;
+};
@@ -8,7 +8,7 @@ export { ComposerProvider, useComposer } from './ComposerContext';
 export type { ComposerContextValue } from './ComposerContext';
 
 // Hooks
-export { useToolsCount, useVoiceFabVisibility, useScreenshotCapture } from './hooks';
+export { useToolsCount, useVoiceFabVisibility, useScreenshotCapture, useUsageBudget } from './hooks';
 
 // Sections (for advanced usage/customization)
 export {
@@ -18,7 +18,8 @@ export {
     AttachmentsArea,
     ComposerInput,
     ComposerToolbar,
-    ComposerActions
+    ComposerActions,
+    BudgetWarning
 } from './sections';
 
 // Re-export ModelSelectorPopover for convenience
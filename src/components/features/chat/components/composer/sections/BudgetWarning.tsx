@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import type { BudgetStatus } from '@/types/ai/usage';
+
+interface BudgetWarningProps {
+    status: BudgetStatus | null;
+}
+
+function formatBudgetUsage(status: BudgetStatus): string {
+    const parts: string[] = [];
+    if (status.costPercent !== undefined && status.limits.maxCostPerMonth) {
+        parts.push(`$${status.monthCost.toFixed(2)} of $${status.limits.maxCostPerMonth.toFixed(2)}`);
+    }
+    if (status.tokenPercent !== undefined && status.limits.maxTokensPerMonth) {
+        parts.push(`${status.monthTokens.toLocaleString()} of ${status.limits.maxTokensPerMonth.toLocaleString()} tokens`);
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Banner above the composer when the monthly usage budget is nearly or fully used
+ */
+export const BudgetWarning: React.FC<BudgetWarningProps> = ({ status }) => {
+    // Dismissal only lasts until the level changes (e.g. warning -> exceeded)
+    const [dismissedLevel, setDismissedLevel] = useState<BudgetStatus['level'] | null>(null);
+
+    if (!status || status.level === 'ok' || dismissedLevel === status.level) {
+        return null;
+    }
+
+    const isExceeded = status.level === 'exceeded';
+
+    return (
+        <div className={`composer-budget-warning ${isExceeded ? 'exceeded' : ''}`} role="status">
+            <AlertTriangle size={14} className="composer-budget-warning-icon" />
+            <span className="composer-budget-warning-text">
+                {isExceeded ? 'Monthly budget exceeded' : 'Approaching monthly budget'}
+                {': '}
+                {formatBudgetUsage(status)}
+            </span>
+            <button
+                type="button"
+                className="composer-budget-warning-dismiss"
+                onClick={() => setDismissedLevel(status.level)}
+                aria-label="Dismiss budget warning"
+            >
+                <X size={12} />
+            </button>
+        </div>
+    );
+};
@@ -5,6 +5,7 @@ import { PlusIcon, type PlusIconHandle } from '@assets/icons/ui/plus';
 import { AttachmentDropdown } from '../../attachments/AttachmentDropdown';
 import { AddTabsModal } from '../../modals/AddTabsModal';
 import { AddYouTubeVideoModal } from '../../modals/AddYouTubeVideoModal';
+import { AddMcpResourcesModal } from '../../modals/AddMcpResourcesModal';
 import type { FileAttachmentData } from '../../attachments/FileAttachment';
 import type { TabAttachmentData } from '../../attachments/TabAttachment';
 import type { ProcessFileOptions } from '@/hooks/attachments/useFileAttachments';
@@ -33,6 +34,8 @@ interface ComposerActionsProps {
     setShowAddTabsModal: (show: boolean) => void;
     showAddYouTubeVideoModal: boolean;
     setShowAddYouTubeVideoModal: (show: boolean) => void;
+    showAddMcpResourcesModal: boolean;
+    setShowAddMcpResourcesModal: (show: boolean) => void;
     // Refs
     textareaRef: React.RefObject<HTMLTextAreaElement>;
 }
@@ -66,6 +69,8 @@ export const ComposerActions: React.FC<ComposerActionsProps> = ({
     setShowAddTabsModal,
     showAddYouTubeVideoModal,
     setShowAddYouTubeVideoModal,
+    showAddMcpResourcesModal,
+    setShowAddMcpResourcesModal,
     textareaRef
 }) => {
     const plusIconRef = useRef<PlusIconHandle>(null);
@@ -77,7 +82,7 @@ export const ComposerActions: React.FC<ComposerActionsProps> = ({
     //     showPlusButton: !isSearchActive
     // });
 
-    const handleAddTabs = (tabs: Array<{ id: string; title: string; url: string; favIconUrl?: string }>) => {
+    const handleAddTabs = (tabs: TabAttachmentData[]) => {
         handleAddTabAttachments(tabs);
         setShowAttachmentDropdown(false);
     };
@@ -117,6 +122,7 @@ export const ComposerActions: React.FC<ComposerActionsProps> = ({
                     onScreenshotClick={handleScreenshotClick}
                     onAddTabsClick={() => setShowAddTabsModal(true)}
                     onAddYouTubeVideoClick={() => setShowAddYouTubeVideoModal(true)}
+                    onAddMcpResourcesClick={() => setShowAddMcpResourcesModal(true)}
                     onClose={() => setShowAttachmentDropdown(false)}
                     isLocalMode={isLocalMode}
                 />
@@ -137,6 +143,13 @@ export const ComposerActions: React.FC<ComposerActionsProps> = ({
                 onError={onError}
             />
 
+            {/* Add MCP Resources Modal */}
+            <AddMcpResourcesModal
+                isOpen={showAddMcpResourcesModal}
+                onClose={() => setShowAddMcpResourcesModal(false)}
+                onAddResources={handleAddTabs}
+            />
+
             {/* Voice Input OR Send Button OR Stop Button - only one shows at a time */}
             {isLoading && onStop ? (
                 // Show stop button when streaming
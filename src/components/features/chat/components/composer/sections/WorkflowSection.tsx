@@ -2,6 +2,7 @@ import React from 'react';
 import { WorkflowBadge } from '../../badges/WorkflowBadge';
 import { SlashCommandDropdown } from '@/components/features/chat/dropdowns/SlashCommandDropdown';
 import type { WorkflowDefinition } from '@/workflows/types';
+import type { MCPPromptCommand } from '@/ai/mcp/prompts';
 import type { AIMode } from '../../../types';
 
 interface WorkflowSectionProps {
@@ -9,6 +10,7 @@ interface WorkflowSectionProps {
     showSlashDropdown: boolean;
     slashSearchQuery: string;
     handleSelectWorkflow: (workflow: WorkflowDefinition) => void;
+    handleSelectMcpPrompt?: (command: MCPPromptCommand) => void;
     handleClearWorkflow: () => void;
     handleSlashCommandDetection: (show: boolean, query: string) => void;
     mode: AIMode;
@@ -22,6 +24,7 @@ export const WorkflowSection: React.FC<WorkflowSectionProps> = ({
     showSlashDropdown,
     slashSearchQuery,
     handleSelectWorkflow,
+    handleSelectMcpPrompt,
     handleClearWorkflow,
     handleSlashCommandDetection,
     mode
@@ -41,6 +44,7 @@ export const WorkflowSection: React.FC<WorkflowSectionProps> = ({
                 <SlashCommandDropdown
                     searchQuery={slashSearchQuery}
                     onSelectWorkflow={handleSelectWorkflow}
+                    onSelectMcpPrompt={handleSelectMcpPrompt}
                     onClose={() => handleSlashCommandDetection(false, '')}
                     mode={mode}
                 />
@@ -6,3 +6,4 @@ export { ComposerInput } from './ComposerInput';
 export { ComposerToolbar } from './ComposerToolbar';
 export { ComposerActions } from './ComposerActions';
 
+export { BudgetWarning } from './BudgetWarning';
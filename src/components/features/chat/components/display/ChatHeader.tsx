@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { PanelRightOpen, Plus, Wrench, MoreHorizontal } from 'lucide-react';
 import { StreamingWarningDialog } from '../../context/StreamingWarningDialog';
+import { useCurrentSiteRules } from '@/hooks/browser';
 
 interface ChatHeaderProps {
     onSettingsClick?: () => void;
@@ -32,6 +33,7 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
     const [showHeaderMenu, setShowHeaderMenu] = useState(false);
     const [showStreamingWarning, setShowStreamingWarning] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
+    const { hostname, blockedFeatures, togglePaused } = useCurrentSiteRules();
 
     // Handle clicks outside menu to close it
     useEffect(() => {
@@ -130,6 +132,20 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
                                 >
                                     Settings
                                 </button>
+                                {hostname && (
+                                    <button
+                                        className="copilot-header-menu-item copilot-header-menu-item--site"
+                                        onClick={() => {
+                                            setShowHeaderMenu(false);
+                                            void togglePaused();
+                                        }}
+                                        title={blockedFeatures.length > 0
+                                            ? `Off here: ${blockedFeatures.length} in-page feature${blockedFeatures.length !== 1 ? 's' : ''}`
+                                            : 'Ask AI button, /write, /ask, rewriter and summarizer'}
+                                    >
+                                        {blockedFeatures.length > 0 ? `Enable on ${hostname}` : `Disable on ${hostname}`}
+                                    </button>
+                                )}
                                 <button
                                     className="copilot-header-menu-item"
                                     onClick={() => {
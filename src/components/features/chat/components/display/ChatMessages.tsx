@@ -8,6 +8,10 @@ import { EmptyState } from '../states/EmptyState';
 import { LoadingIndicator } from '../feedback/LoadingIndicator';
 import { ContinueButton } from '../buttons/ContinueButton';
 import { CopyButton } from '../buttons/CopyButton';
+import { BranchSwitcher } from '../buttons/BranchSwitcher';
+import { MessageEditForm } from './MessageEditForm';
+import { Pencil, RefreshCw } from 'lucide-react';
+import type { MessageBranchInfo } from '@/types/database';
 import { getFileIcon } from '@/utils/files';
 import { StreamdownRenderer } from './StreamdownRenderer';
 import { XIcon } from '@assets/icons/chat/x';
@@ -64,6 +68,12 @@ interface ChatMessagesProps {
     onConfigureApiKey?: () => void;
     onContinue?: () => void; // Callback to send continue message
     threadId?: string | null; // Current thread ID for brain button
+    focusMessageId?: string | null; // Message to scroll to (e.g. from history search)
+    onFocusMessageHandled?: () => void;
+    messageBranches?: Map<string, MessageBranchInfo>; // Alternate versions of messages on the active branch
+    onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+    onEditMessage?: (messageId: string, text: string) => void; // Re-send an edited prompt as a new branch
+    onRegenerate?: (messageId: string) => void;
 }
 
 /**
@@ -154,6 +164,16 @@ function extractMessageText(message: Message): string {
     return textParts.join('\n\n');
 }
 
+/**
+ * Extract the typed prompt of a user message (without tab attachment content)
+ */
+function extractPromptText(message: Message): string {
+    const promptPart = message.parts?.find((part: any) =>
+        part.type === 'text' && part.text && !/^\s*\[TAB ATTACHMENT:/i.test(part.text)
+    ) as any;
+    return promptPart?.text ?? '';
+}
+
 export const ChatMessages: React.FC<ChatMessagesProps> = ({
     messages,
     isLoading,
@@ -163,8 +183,16 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
     onConfigureApiKey,
     onContinue,
     threadId,
+    focusMessageId,
+    onFocusMessageHandled,
+    messageBranches,
+    onSwitchBranch,
+    onEditMessage,
+    onRegenerate,
 }) => {
     const [previewImage, setPreviewImage] = useState<{ url: string; name: string } | null>(null);
+    const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
 
     // Ref for the messages container - used for inline code enhancement
     const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -184,6 +212,27 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
         };
     }, []);
 
+    // Jump to a message requested from history search once it is rendered
+    useEffect(() => {
+        if (!focusMessageId) return;
+
+        const target = messagesContainerRef.current?.querySelector<HTMLElement>(
+            `[data-message-id="${CSS.escape(focusMessageId)}"]`
+        );
+        if (!target) return; // Thread messages not loaded yet
+
+        target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        setFlashMessageId(focusMessageId);
+        onFocusMessageHandled?.();
+    }, [focusMessageId, messages]);
+
+    // Clear the jump highlight after a short delay
+    useEffect(() => {
+        if (!flashMessageId) return;
+        const timeout = setTimeout(() => setFlashMessageId(null), 2000);
+        return () => clearTimeout(timeout);
+    }, [flashMessageId]);
+
     // Notify when preview state changes (for hiding voice pill)
     useEffect(() => {
         const event = new CustomEvent('imagePreviewStateChange', {
@@ -239,8 +288,19 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
                                 transition={{ type: 'easeOut', duration: 0.2 }}
                                 initial={isPendingMessage ? { opacity: 0 } : undefined}
                                 animate={isPendingMessage ? { opacity: 1 } : undefined}
-                                className={`copilot-message copilot-message-${message.role}`}
+                                className={`copilot-message copilot-message-${message.role} ${message.id && message.id === flashMessageId ? 'copilot-message-focused' : ''}`}
+                                data-message-id={message.id}
                             >
+                                {editingMessageId === message.id && onEditMessage ? (
+                                    <MessageEditForm
+                                        initialText={extractPromptText(message)}
+                                        onCancel={() => setEditingMessageId(null)}
+                                        onSubmit={(text) => {
+                                            setEditingMessageId(null);
+                                            if (message.id) onEditMessage(message.id, text);
+                                        }}
+                                    />
+                                ) : (
                                 <div className={`copilot-message-bubble copilot-message-bubble-${message.role} ${hasToolCalls(message) ? 'copilot-message-bubble-no-bg' : ''}`}>
                                     {/* Render parts in their actual order - text and tools interleaved */}
                                     {message.parts && message.parts.length > 0 && (() => {
@@ -419,6 +479,54 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
                                         );
                                     })()}
                                 </div>
+                                )}
+
+                                {/* Branch controls: edit prompt / regenerate reply and switch between versions */}
+                                {editingMessageId !== message.id && !(isLoading && index === messages.length - 1) && (() => {
+                                    const messageId = message.id;
+                                    if (!messageId) return null;
+
+                                    const branch = messageBranches?.get(messageId);
+                                    const canEdit = message.role === 'user' && !!onEditMessage && !!extractPromptText(message);
+                                    const canRegenerate = message.role === 'assistant' && !!onRegenerate;
+                                    if (!branch && !canEdit && !canRegenerate) return null;
+
+                                    return (
+                                        <div className={`copilot-message-branch-actions copilot-message-branch-actions-${message.role}`}>
+                                            {branch && onSwitchBranch && (
+                                                <BranchSwitcher
+                                                    branch={branch}
+                                                    onSwitch={(direction) => onSwitchBranch(messageId, direction)}
+                                                    disabled={isLoading}
+                                                />
+                                            )}
+                                            {canEdit && (
+                                                <button
+                                                    type="button"
+                                                    className="copilot-message-branch-button"
+                                                    onClick={() => setEditingMessageId(messageId)}
+                                                    disabled={isLoading}
+                                                    title="Edit message"
+                                                    aria-label="Edit message"
+                                                >
+                                                    <Pencil size={12} />
+                                                </button>
+                                            )}
+                                            {canRegenerate && (
+                                                <button
+                                                    type="button"
+                                                    className="copilot-message-branch-button"
+                                                    onClick={() => onRegenerate(messageId)}
+                                                    disabled={isLoading}
+                                                    title="Regenerate response"
+                                                    aria-label="Regenerate response"
+                                                >
+                                                    <RefreshCw size={12} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    );
+                                })()}
                             </motion.div>
                         );
                     })}
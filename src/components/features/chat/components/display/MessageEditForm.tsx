@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface MessageEditFormProps {
+    initialText: string;
+    onSubmit: (text: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Inline editor for a previous user message
+ * Submitting sends the edited prompt as a new branch; the original stays reachable
+ */
+export const MessageEditForm: React.FC<MessageEditFormProps> = ({ initialText, onSubmit, onCancel }) => {
+    const [text, setText] = useState(initialText);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }, []);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            if (text.trim()) onSubmit(text);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+        }
+    };
+
+    return (
+        <div className="message-edit-form">
+            <textarea
+                ref={textareaRef}
+                className="message-edit-textarea"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={handleKeyDown}
+                rows={Math.min(8, Math.max(2, text.split('\n').length))}
+                aria-label="Edit message"
+            />
+            <div className="message-edit-actions">
+                <button type="button" className="message-edit-button" onClick={onCancel}>
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    className="message-edit-button primary"
+                    onClick={() => onSubmit(text)}
+                    disabled={!text.trim()}
+                >
+                    Send
+                </button>
+            </div>
+        </div>
+    );
+};
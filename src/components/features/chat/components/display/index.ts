@@ -1,5 +1,6 @@
 // Message display components
 export { ChatHeader } from './ChatHeader';
 export { ChatMessages } from './ChatMessages';
+export { MessageEditForm } from './MessageEditForm';
 export { StreamdownRenderer } from './StreamdownRenderer';
 export { InlineCode } from './InlineCode';
@@ -0,0 +1,80 @@
+/**
+ * Pipeline progress
+ * Per-stage progress for workflow pipeline runs, with controls to approve
+ * confirmation stages and resume runs interrupted by closing the side panel
+ */
+
+import type { PipelineRun } from '@/types/database';
+import { getWorkflow } from '@/workflows/registry';
+import { getConfirmationMessage, isPipelineRunExecuting } from '@/workflows/pipeline/runner';
+import { ResearchProgress } from './ResearchProgress';
+
+interface PipelineProgressProps {
+    runs: PipelineRun[];
+    onResume: (runId: string, approved?: boolean) => void;
+    onCancel: (runId: string) => void;
+}
+
+export function PipelineProgress({ runs, onResume, onCancel }: PipelineProgressProps) {
+    if (runs.length === 0) return null;
+
+    return (
+        <>
+            {runs.map(run => {
+                const name = getWorkflow(run.workflowId)?.name ?? `/${run.workflowId}`;
+                const isWaiting = run.status === 'waiting';
+                const isInterrupted = run.status === 'running' && !isPipelineRunExecuting(run.id);
+                const confirmation = isWaiting ? getConfirmationMessage(run) : null;
+                const current = run.stages.find(stage => stage.id === run.currentStageId);
+
+                const message = isWaiting
+                    ? `${name}: waiting for approval`
+                    : isInterrupted
+                        ? `${name}: paused`
+                        : `${name}: ${current?.label ?? 'running'}`;
+
+                return (
+                    <ResearchProgress
+                        key={run.id}
+                        message={message}
+                        stages={run.stages}
+                        active={!isWaiting && !isInterrupted}
+                        actions={
+                            <>
+                                {confirmation && <div className="research-progress-confirm">{confirmation}</div>}
+                                <button
+                                    type="button"
+                                    className="research-progress-action"
+                                    onClick={() => onCancel(run.id)}
+                                    aria-label={`Cancel ${name}`}
+                                >
+                                    Cancel
+                                </button>
+                                {isWaiting && (
+                                    <button
+                                        type="button"
+                                        className="research-progress-action"
+                                        onClick={() => onResume(run.id, false)}
+                                        aria-label={`Decline and stop ${name}`}
+                                    >
+                                        Decline
+                                    </button>
+                                )}
+                                {(isWaiting || isInterrupted) && (
+                                    <button
+                                        type="button"
+                                        className="research-progress-action primary"
+                                        onClick={() => onResume(run.id)}
+                                        aria-label={isWaiting ? `Approve ${name}` : `Resume ${name}`}
+                                    >
+                                        {isWaiting ? 'Approve' : 'Resume'}
+                                    </button>
+                                )}
+                            </>
+                        }
+                    />
+                );
+            })}
+        </>
+    );
+}
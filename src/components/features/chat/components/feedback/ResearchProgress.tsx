@@ -1,26 +1,70 @@
 /**
  * Research progress indicator
- * Shows when the research workflow is actively gathering information
+ * Shows when the research workflow is actively gathering information,
+ * optionally with per-stage progress for workflow pipelines
  */
 
+import type { ReactNode } from 'react';
 import { SearchIcon } from '@assets/icons/chat/search';
+import type { PipelineStageState } from '@/types/database';
+
+const STAGE_STATUS_ICONS: Record<PipelineStageState['status'], string> = {
+    pending: '○',
+    running: '◐',
+    waiting: '⏸',
+    completed: '✓',
+    skipped: '–',
+    failed: '✕',
+};
 
 interface ResearchProgressProps {
     message?: string;
+    /** Pipeline stages to list below the message */
+    stages?: PipelineStageState[];
+    /** Whether work is ongoing; controls the animated dots */
+    active?: boolean;
+    /** Buttons shown below the stages (resume, approve, cancel) */
+    actions?: ReactNode;
 }
 
-export function ResearchProgress({ message = 'Researching...' }: ResearchProgressProps) {
-    return (
-        <div className="research-progress">
+export function ResearchProgress({ message = 'Researching...', stages, active = true, actions }: ResearchProgressProps) {
+    const header = (
+        <>
             <div className="research-progress-icon">
                 <SearchIcon size={16} />
             </div>
             <div className="research-progress-text">{message}</div>
-            <div className="research-progress-dots">
-                <span></span>
-                <span></span>
-                <span></span>
-            </div>
+            {active && (
+                <div className="research-progress-dots">
+                    <span></span>
+                    <span></span>
+                    <span></span>
+                </div>
+            )}
+        </>
+    );
+
+    if (!stages && !actions) {
+        return <div className="research-progress">{header}</div>;
+    }
+
+    return (
+        <div className="research-progress research-progress-detailed" role="status">
+            <div className="research-progress-header">{header}</div>
+            {stages && stages.length > 0 && (
+                <ol className="research-progress-stages">
+                    {stages.map(stage => (
+                        <li key={stage.id} className={`research-progress-stage ${stage.status}`}>
+                            <span className="research-progress-stage-icon" aria-hidden="true">
+                                {STAGE_STATUS_ICONS[stage.status]}
+                            </span>
+                            <span className="research-progress-stage-label">{stage.label}</span>
+                            {stage.error && <span className="research-progress-stage-error">{stage.error}</span>}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {actions && <div className="research-progress-actions">{actions}</div>}
         </div>
     );
 }
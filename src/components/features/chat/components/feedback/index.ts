@@ -2,4 +2,5 @@
 export { AnimatedCircularProgressBar } from './AnimatedCircularProgressBar';
 export { ErrorNotification } from './ErrorNotification';
 export { LoadingIndicator } from './LoadingIndicator';
+export { PipelineProgress } from './PipelineProgress';
 export { ResearchProgress } from './ResearchProgress';
@@ -0,0 +1,46 @@
+import React, { useCallback } from 'react';
+import { listMCPResources } from '@/ai/mcp/proxy';
+import { AddTabsModal } from './AddTabsModal';
+import type { TabAttachmentData } from '../attachments/TabAttachment';
+
+interface AddMcpResourcesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onAddResources: (resources: TabAttachmentData[]) => void;
+}
+
+/**
+ * Picker for resources of connected MCP servers.
+ * Selected resources are attached like tabs and read when the message is sent.
+ */
+export const AddMcpResourcesModal: React.FC<AddMcpResourcesModalProps> = ({
+    isOpen,
+    onClose,
+    onAddResources,
+}) => {
+    const loadResources = useCallback(async (): Promise<TabAttachmentData[]> => {
+        const resources = await listMCPResources();
+        return resources.map(resource => ({
+            id: `mcp:${resource.serverId}:${resource.uri}`,
+            title: resource.name || resource.uri,
+            url: resource.uri,
+            mcpResource: {
+                serverId: resource.serverId,
+                serverName: resource.serverName,
+                mimeType: resource.mimeType,
+            },
+        }));
+    }, []);
+
+    return (
+        <AddTabsModal
+            isOpen={isOpen}
+            onClose={onClose}
+            onAddTabs={onAddResources}
+            loadTabs={loadResources}
+            title="Add MCP resources"
+            searchPlaceholder="Search resources"
+            emptyMessage="No resources from connected MCP servers"
+        />
+    );
+};
@@ -1,24 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { XIcon } from '@/components/shared/icons/XIcon';
+import type { TabAttachmentData } from '../attachments/TabAttachment';
 
-interface Tab {
-    id: string;
-    title: string;
-    url: string;
-    favIconUrl?: string;
-}
+type Tab = TabAttachmentData;
 
-interface AddTabsModalProps {
+export interface AddTabsModalProps {
     isOpen: boolean;
     onClose: () => void;
     onAddTabs: (tabs: Tab[]) => void;
+    /** Load the selectable items; defaults to the open browser tabs */
+    loadTabs?: () => Promise<Tab[]>;
+    title?: string;
+    searchPlaceholder?: string;
+    emptyMessage?: string;
 }
 
 export const AddTabsModal: React.FC<AddTabsModalProps> = ({
     isOpen,
     onClose,
     onAddTabs,
+    loadTabs,
+    title = 'Add tabs',
+    searchPlaceholder = 'Search tabs',
+    emptyMessage = 'No tabs found',
 }) => {
     const [searchQuery, setSearchQuery] = useState('');
     const [allTabs, setAllTabs] = useState<Tab[]>([]);
@@ -28,6 +33,16 @@ export const AddTabsModal: React.FC<AddTabsModalProps> = ({
 
     // Fetch all tabs when modal opens
     useEffect(() => {
+        if (isOpen && loadTabs) {
+            let cancelled = false;
+            loadTabs().then(items => {
+                if (!cancelled) setAllTabs(items);
+            });
+            setTimeout(() => searchInputRef.current?.focus(), 100);
+            return () => {
+                cancelled = true;
+            };
+        }
         if (isOpen) {
             chrome.tabs.query({}, (tabs) => {
                 const formattedTabs: Tab[] = tabs
@@ -62,7 +77,8 @@ export const AddTabsModal: React.FC<AddTabsModalProps> = ({
             setSearchQuery('');
             setSelectedTabs(new Set());
         }
-    }, [isOpen]);
+        return undefined;
+    }, [isOpen, loadTabs]);
 
     // Handle click outside to close
     useEffect(() => {
@@ -165,7 +181,7 @@ export const AddTabsModal: React.FC<AddTabsModalProps> = ({
                             fontWeight: 600,
                             color: 'var(--text-primary, #e2e8f0)',
                         }}>
-                            Add tabs
+                            {title}
                         </h2>
                         <button
                             type="button"
@@ -222,7 +238,7 @@ export const AddTabsModal: React.FC<AddTabsModalProps> = ({
                             <input
                                 ref={searchInputRef}
                                 type="text"
-                                placeholder="Search tabs"
+                                placeholder={searchPlaceholder}
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
                                 style={{
@@ -270,7 +286,7 @@ export const AddTabsModal: React.FC<AddTabsModalProps> = ({
                                 color: 'var(--text-secondary, #94a3b8)',
                                 fontSize: '13px',
                             }}>
-                                No tabs found
+                                {emptyMessage}
                             </div>
                         ) : (
                             filteredTabs.map(tab => (
@@ -433,7 +449,7 @@ export const AddTabsModal: React.FC<AddTabsModalProps> = ({
                                 }
                             }}
                         >
-                            Add tabs {selectedTabs.size > 0 && `(${selectedTabs.size})`}
+                            {title} {selectedTabs.size > 0 && `(${selectedTabs.size})`}
                         </button>
                     </div>
                 </motion.div>
@@ -22,9 +22,11 @@ export const AGENT_MODE_TOOLS: string[] = [
     // Content Reading & Extraction
     'takeScreenshot',
     'readPageContent',
+    'readTabs',
     'extractText',
     'findSearchBar',
     'analyzeDom',
+    'getAccessibilitySnapshot',
     // Interaction Tools
     'typeInField',
     'clickByText',
@@ -32,6 +34,9 @@ export const AGENT_MODE_TOOLS: string[] = [
     'focusElement',
     'scrollTo',
     'executeScript',
+    'clickByRef',
+    'typeByRef',
+    'selectByRef',
     // Search Functionality
     'chromeSearch',
     'getSearchResults',
@@ -39,10 +44,19 @@ export const AGENT_MODE_TOOLS: string[] = [
     // History
     'searchHistory',
     'getUrlVisits',
+    // Memory
+    'saveMemory',
+    'getMemory',
+    'listMemories',
+    'deleteMemory',
     // Reminders
     'createReminder',
     'listReminders',
     'cancelReminder',
+    // Scheduled Tasks
+    'scheduleTask',
+    'listScheduledTasks',
+    'cancelScheduledTask',
     // Agent Tools
     'getYouTubeTranscript',
 ];
@@ -1,4 +1,5 @@
 // Modal dialog components
 export { AddTabsModal } from './AddTabsModal';
 export { AddYouTubeVideoModal } from './AddYouTubeVideoModal';
+export { AddMcpResourcesModal } from './AddMcpResourcesModal';
 export { ToolsModal, ToolsPopover } from './ToolPopover';
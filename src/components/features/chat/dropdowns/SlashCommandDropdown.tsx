@@ -1,11 +1,13 @@
 /**
  * Dropdown component for selecting workflows via slash commands
- * Displays available workflows with icon, name, and description
+ * Displays available workflows with icon, name, and description,
+ * followed by prompts from connected MCP servers
  */
 
 import React, { useEffect, useState } from 'react';
 import type { WorkflowDefinition } from '../../../../workflows/types';
 import { getAllWorkflows } from '../../../../workflows/registry';
+import { listMCPPromptCommands, type MCPPromptCommand } from '@/ai/mcp/prompts';
 import { SearchIcon } from '@assets/icons/chat/search';
 import { YoutubeIcon } from '@assets/icons/chat/youtube';
 import type { AIMode } from '../types';
@@ -22,9 +24,21 @@ function renderWorkflowIcon(icon: string) {
     return <span>{icon}</span>;
 }
 
+type SlashCommandItem =
+    | { kind: 'workflow'; id: string; workflow: WorkflowDefinition }
+    | { kind: 'mcp-prompt'; id: string; command: MCPPromptCommand };
+
+function describePromptCommand({ prompt }: MCPPromptCommand): string {
+    const args = (prompt.arguments ?? []).map(arg => (arg.required ? arg.name : `${arg.name}?`));
+    const description = prompt.description || `Prompt from ${prompt.serverName}`;
+    return args.length > 0 ? `${description} (${args.join(', ')})` : description;
+}
+
 interface SlashCommandDropdownProps {
     searchQuery: string;
     onSelectWorkflow: (workflow: WorkflowDefinition) => void;
+    /** When set, prompts from connected MCP servers are listed too */
+    onSelectMcpPrompt?: (command: MCPPromptCommand) => void;
     onClose: () => void;
     position?: { top: number; left: number };
     mode?: AIMode;
@@ -33,11 +47,13 @@ interface SlashCommandDropdownProps {
 export function SlashCommandDropdown({
     searchQuery,
     onSelectWorkflow,
+    onSelectMcpPrompt,
     onClose,
     position,
     mode = 'remote',
 }: SlashCommandDropdownProps) {
     const [workflows, setWorkflows] = useState<WorkflowDefinition[]>([]);
+    const [promptCommands, setPromptCommands] = useState<MCPPromptCommand[]>([]);
     const [selectedIndex, setSelectedIndex] = useState(0);
     const listRef = React.useRef<HTMLDivElement>(null);
     const selectedItemRef = React.useRef<HTMLButtonElement>(null);
@@ -48,19 +64,45 @@ export function SlashCommandDropdown({
         setWorkflows(allWorkflows);
     }, []);
 
-    // Filter workflows based on search query (fuzzy search)
-    const filteredWorkflows = workflows.filter((workflow) => {
-        const query = searchQuery.toLowerCase();
-        const name = workflow.name.toLowerCase();
-        const description = workflow.description.toLowerCase();
-        const id = workflow.id.toLowerCase();
+    // Load MCP prompts on mount
+    const includeMcpPrompts = !!onSelectMcpPrompt;
+    useEffect(() => {
+        if (!includeMcpPrompts) return;
+        let cancelled = false;
+        listMCPPromptCommands().then((commands) => {
+            if (!cancelled) setPromptCommands(commands);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [includeMcpPrompts]);
+
+    // Filter workflows and prompts based on search query (fuzzy search)
+    const query = searchQuery.toLowerCase();
+    const filteredItems: SlashCommandItem[] = [
+        ...workflows
+            .filter((workflow) =>
+                workflow.name.toLowerCase().includes(query) ||
+                workflow.description.toLowerCase().includes(query) ||
+                workflow.id.toLowerCase().includes(query)
+            )
+            .map((workflow): SlashCommandItem => ({ kind: 'workflow', id: workflow.id, workflow })),
+        ...promptCommands
+            .filter((command) =>
+                command.id.toLowerCase().includes(query) ||
+                (command.prompt.description ?? '').toLowerCase().includes(query) ||
+                command.prompt.serverName.toLowerCase().includes(query)
+            )
+            .map((command): SlashCommandItem => ({ kind: 'mcp-prompt', id: `mcp:${command.id}`, command })),
+    ];
 
-        return (
-            name.includes(query) ||
-            description.includes(query) ||
-            id.includes(query)
-        );
-    });
+    const selectItem = (item: SlashCommandItem) => {
+        if (item.kind === 'workflow') {
+            onSelectWorkflow(item.workflow);
+        } else {
+            onSelectMcpPrompt?.(item.command);
+        }
+    };
 
     // Reset selected index when filtered results change
     useEffect(() => {
@@ -92,7 +134,7 @@ export function SlashCommandDropdown({
                 case 'ArrowDown':
                     e.preventDefault();
                     setSelectedIndex((prev) =>
-                        prev < filteredWorkflows.length - 1 ? prev + 1 : prev
+                        prev < filteredItems.length - 1 ? prev + 1 : prev
                     );
                     break;
                 case 'ArrowUp':
@@ -101,8 +143,9 @@ export function SlashCommandDropdown({
                     break;
                 case 'Enter':
                     e.preventDefault();
-                    if (filteredWorkflows[selectedIndex]) {
-                        onSelectWorkflow(filteredWorkflows[selectedIndex]);
+                    const item = filteredItems[selectedIndex];
+                    if (item) {
+                        selectItem(item);
                     }
                     break;
                 case 'Escape':
@@ -114,7 +157,7 @@ export function SlashCommandDropdown({
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [filteredWorkflows, selectedIndex, onSelectWorkflow, onClose]);
+    }, [filteredItems, selectedIndex, onSelectWorkflow, onSelectMcpPrompt, onClose]);
 
     // Show message when in local mode
     if (mode === 'local') {
@@ -131,7 +174,7 @@ export function SlashCommandDropdown({
         );
     }
 
-    if (filteredWorkflows.length === 0) {
+    if (filteredItems.length === 0) {
         return (
             <div className="slash-command-dropdown" style={position}>
                 <div className="slash-command-empty">
@@ -146,30 +189,48 @@ export function SlashCommandDropdown({
     return (
         <div className="slash-command-dropdown" style={position}>
             <div className="slash-command-list" ref={listRef}>
-                {filteredWorkflows.map((workflow, index) => (
+                {filteredItems.map((item, index) => item.kind === 'mcp-prompt' ? (
+                    <button
+                        key={item.id}
+                        ref={index === selectedIndex ? selectedItemRef : null}
+                        className={`slash-command-item ${index === selectedIndex ? 'selected' : ''}`}
+                        onClick={() => selectItem(item)}
+                        onMouseEnter={() => setSelectedIndex(index)}
+                    >
+                        <div className="slash-command-icon">{renderWorkflowIcon('🧩')}</div>
+                        <div className="slash-command-info">
+                            <div className="slash-command-name">
+                                /{item.command.id} - {item.command.prompt.serverName}
+                            </div>
+                            <div className="slash-command-description">
+                                {describePromptCommand(item.command)}
+                            </div>
+                        </div>
+                    </button>
+                ) : (
                     <button
-                        key={workflow.id}
+                        key={item.id}
                         ref={index === selectedIndex ? selectedItemRef : null}
                         className={`slash-command-item ${index === selectedIndex ? 'selected' : ''
-                            } ${workflow.comingSoon ? 'coming-soon' : ''}`}
-                        onClick={() => !workflow.comingSoon && onSelectWorkflow(workflow)}
+                            } ${item.workflow.comingSoon ? 'coming-soon' : ''}`}
+                        onClick={() => !item.workflow.comingSoon && selectItem(item)}
                         onMouseEnter={() => setSelectedIndex(index)}
                         style={
-                            workflow.color && index === selectedIndex
-                                ? { borderLeftColor: workflow.color }
+                            item.workflow.color && index === selectedIndex
+                                ? { borderLeftColor: item.workflow.color }
                                 : {}
                         }
                     >
-                        <div className="slash-command-icon">{renderWorkflowIcon(workflow.icon)}</div>
+                        <div className="slash-command-icon">{renderWorkflowIcon(item.workflow.icon)}</div>
                         <div className="slash-command-info">
                             <div className="slash-command-name">
-                                /{workflow.id} - {workflow.name}
-                                {workflow.comingSoon && (
+                                /{item.workflow.id} - {item.workflow.name}
+                                {item.workflow.comingSoon && (
                                     <span className="coming-soon-badge">Coming Soon</span>
                                 )}
                             </div>
                             <div className="slash-command-description">
-                                {workflow.description}
+                                {item.workflow.description}
                             </div>
                         </div>
                     </button>
@@ -31,6 +31,7 @@ export {
     AnimatedCircularProgressBar,
     ErrorNotification,
     LoadingIndicator,
+    PipelineProgress,
     ResearchProgress,
     // Modals
     AddTabsModal,
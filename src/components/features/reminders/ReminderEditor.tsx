@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { updateReminder } from '../../../actions/reminder/storage';
+import { alignToRecurrence, validateRecurrence, MIN_REMINDER_INTERVAL_MINUTES } from '../../../actions/reminder/recurrence';
+import type { Reminder, ReminderRecurrence } from '../../../actions/reminder/types';
+
+type RepeatOption = 'none' | 'daily' | 'weekly' | 'monthly' | 'interval';
+
+const DAY_OPTIONS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+interface ReminderEditorProps {
+    reminder: Reminder;
+    onSaved: (reminder: Reminder) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Format epoch ms as YYYY-MM-DDTHH:mm for a datetime-local input
+ */
+function toDateTimeLocal(timestamp: number): string {
+    const d = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export const ReminderEditor: React.FC<ReminderEditorProps> = ({ reminder, onSaved, onCancel }) => {
+    const [title, setTitle] = useState(reminder.generatedTitle || reminder.title);
+    const [dateTime, setDateTime] = useState(() => toDateTimeLocal(Math.max(reminder.when, Date.now() + 60 * 1000)));
+    const [repeat, setRepeat] = useState<RepeatOption>(reminder.recurrence?.type ?? 'none');
+    const [days, setDays] = useState<number[]>(
+        reminder.recurrence?.type === 'weekly' ? reminder.recurrence.days : [new Date(reminder.when).getDay()]
+    );
+    const [intervalMinutes, setIntervalMinutes] = useState(
+        reminder.recurrence?.type === 'interval' ? reminder.recurrence.minutes : 60
+    );
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const toggleDay = (day: number) => {
+        setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!title.trim()) {
+            setError('Title is required.');
+            return;
+        }
+
+        const selected = new Date(dateTime).getTime();
+        if (isNaN(selected) || (repeat === 'none' && selected <= Date.now())) {
+            setError('Please select a valid future date and time.');
+            return;
+        }
+
+        let recurrence: ReminderRecurrence | null = null;
+        if (repeat === 'weekly') {
+            recurrence = { type: 'weekly', days };
+        } else if (repeat === 'interval') {
+            recurrence = { type: 'interval', minutes: intervalMinutes };
+        } else if (repeat !== 'none') {
+            recurrence = { type: repeat };
+        }
+
+        const recurrenceError = recurrence && validateRecurrence(recurrence);
+        if (recurrenceError) {
+            setError(recurrenceError);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = await updateReminder(reminder.id, {
+                ...(reminder.generatedTitle ? { generatedTitle: title.trim() } : { title: title.trim() }),
+                when: recurrence ? alignToRecurrence(recurrence, selected) : selected,
+                recurrence,
+            });
+            onSaved(saved);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save reminder');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="reminder-editor">
+            <label className="reminder-editor-field">
+                Title
+                <input
+                    type="text"
+                    value={title}
+                    onChange={(e) => {
+                        setTitle(e.target.value);
+                        setError(null);
+                    }}
+                />
+            </label>
+
+            <label className="reminder-editor-field">
+                {repeat === 'none' ? 'When' : 'Starts'}
+                <input
+                    type="datetime-local"
+                    value={dateTime}
+                    onChange={(e) => {
+                        setDateTime(e.target.value);
+                        setError(null);
+                    }}
+                />
+            </label>
+
+            <label className="reminder-editor-field">
+                Repeat
+                <select
+                    value={repeat}
+                    onChange={(e) => {
+                        setRepeat(e.target.value as RepeatOption);
+                        setError(null);
+                    }}
+                >
+                    <option value="none">Does not repeat</option>
+                    <option value="daily">Every day</option>
+                    <option value="weekly">Weekly on...</option>
+                    <option value="monthly">Every month</option>
+                    <option value="interval">Custom interval</option>
+                </select>
+            </label>
+
+            {repeat === 'weekly' && (
+                <div className="reminder-editor-days" role="group" aria-label="Days of the week">
+                    {DAY_OPTIONS.map((label, day) => (
+                        <button
+                            key={day}
+                            type="button"
+                            className={`reminder-editor-day ${days.includes(day) ? 'selected' : ''}`}
+                            aria-pressed={days.includes(day)}
+                            onClick={() => toggleDay(day)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {repeat === 'interval' && (
+                <label className="reminder-editor-field">
+                    Every (minutes)
+                    <input
+                        type="number"
+                        min={MIN_REMINDER_INTERVAL_MINUTES}
+                        value={intervalMinutes}
+                        onChange={(e) => {
+                            setIntervalMinutes(Number(e.target.value));
+                            setError(null);
+                        }}
+                    />
+                </label>
+            )}
+
+            {error && <div className="reminder-editor-error">{error}</div>}
+
+            <div className="reminder-editor-actions">
+                <button type="button" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </button>
+                <button type="button" className="primary" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,8 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, Trash2, Calendar } from 'lucide-react';
+import { X, Trash2, Calendar, Check, Pencil, Repeat, SkipForward, AlarmClock } from 'lucide-react';
 import { ClockIcon } from '../../../../assets/icons/chat/clock';
-import { getActiveReminders, deleteReminder } from '../../../actions/reminder/storage';
+import {
+    getActiveReminders,
+    getPastReminders,
+    getReminderFireTime,
+    removeReminder,
+    completeReminder,
+    skipReminderOccurrence,
+} from '../../../actions/reminder/storage';
+import { describeRecurrence } from '../../../actions/reminder/recurrence';
 import type { Reminder } from '../../../actions/reminder/types';
+import { ReminderEditor } from './ReminderEditor';
 import { createLogger } from '~logger';
 
 const log = createLogger('ReminderPanel');
@@ -14,6 +23,8 @@ interface ReminderPanelProps {
 
 export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose }) => {
     const [reminders, setReminders] = useState<Reminder[]>([]);
+    const [pastReminders, setPastReminders] = useState<Reminder[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
 
     // Load reminders when panel opens
@@ -26,8 +37,9 @@ export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose })
     const loadReminders = async () => {
         try {
             setLoading(true);
-            const activeReminders = await getActiveReminders();
+            const [activeReminders, past] = await Promise.all([getActiveReminders(), getPastReminders()]);
             setReminders(activeReminders);
+            setPastReminders(past);
             log.info('Loaded active reminders', { count: activeReminders.length });
         } catch (error) {
             log.error('Failed to load reminders', error);
@@ -38,11 +50,7 @@ export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose })
 
     const handleDeleteReminder = async (id: string) => {
         try {
-            // Cancel the alarm
-            await chrome.alarms.clear(`reminder:${id}`);
-
-            // Delete from storage
-            await deleteReminder(id);
+            await removeReminder(id);
 
             log.info('Deleted reminder', { id });
 
@@ -53,6 +61,31 @@ export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose })
         }
     };
 
+    const handleCompleteReminder = async (id: string) => {
+        try {
+            await completeReminder(id);
+            log.info('Completed reminder', { id });
+            await loadReminders();
+        } catch (error) {
+            log.error('Failed to complete reminder', error);
+        }
+    };
+
+    const handleSkipOccurrence = async (id: string) => {
+        try {
+            await skipReminderOccurrence(id);
+            log.info('Skipped reminder occurrence', { id });
+            await loadReminders();
+        } catch (error) {
+            log.error('Failed to skip reminder occurrence', error);
+        }
+    };
+
+    const handleSaved = async () => {
+        setEditingId(null);
+        await loadReminders();
+    };
+
     const formatDateTime = (timestamp: number) => {
         const date = new Date(timestamp);
         const now = new Date();
@@ -79,6 +112,100 @@ export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose })
         }
     };
 
+    const renderReminder = (reminder: Reminder, isPast: boolean) => {
+        const title = reminder.generatedTitle || reminder.title;
+
+        if (editingId === reminder.id) {
+            return (
+                <div key={reminder.id} className="reminder-panel-item">
+                    <ReminderEditor
+                        reminder={reminder}
+                        onSaved={handleSaved}
+                        onCancel={() => setEditingId(null)}
+                    />
+                </div>
+            );
+        }
+
+        return (
+            <div key={reminder.id} className={`reminder-panel-item ${isPast ? 'past' : ''}`}>
+                <div className="reminder-panel-item-content">
+                    <div className="reminder-panel-item-header">
+                        <h3 className="reminder-panel-item-title">{title}</h3>
+                        <div className="reminder-panel-item-actions">
+                            {!isPast && (reminder.recurrence ? (
+                                <button
+                                    className="reminder-panel-action-btn"
+                                    onClick={() => handleSkipOccurrence(reminder.id)}
+                                    title="Skip next occurrence"
+                                    aria-label={`Skip next occurrence of ${title}`}
+                                >
+                                    <SkipForward size={16} />
+                                </button>
+                            ) : (
+                                <button
+                                    className="reminder-panel-action-btn"
+                                    onClick={() => handleCompleteReminder(reminder.id)}
+                                    title="Mark done"
+                                    aria-label={`Mark ${title} done`}
+                                >
+                                    <Check size={16} />
+                                </button>
+                            ))}
+                            <button
+                                className="reminder-panel-action-btn"
+                                onClick={() => setEditingId(reminder.id)}
+                                title={isPast ? 'Reschedule reminder' : 'Edit reminder'}
+                                aria-label={isPast ? `Reschedule ${title}` : `Edit ${title}`}
+                            >
+                                <Pencil size={16} />
+                            </button>
+                            <button
+                                className="reminder-panel-delete-btn"
+                                onClick={() => handleDeleteReminder(reminder.id)}
+                                title="Delete reminder"
+                                aria-label="Delete reminder"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    </div>
+
+                    {reminder.generatedDescription && (
+                        <p className="reminder-panel-item-description">
+                            {reminder.generatedDescription}
+                        </p>
+                    )}
+
+                    <div className="reminder-panel-item-meta">
+                        <div className="reminder-panel-item-time">
+                            {reminder.snoozedUntil ? <AlarmClock size={14} /> : <Calendar size={14} />}
+                            <span>
+                                {isPast
+                                    ? reminder.completedAt
+                                        ? `Done ${formatDateTime(reminder.completedAt)}`
+                                        : formatDateTime(reminder.when)
+                                    : reminder.snoozedUntil
+                                        ? `Snoozed until ${formatDateTime(getReminderFireTime(reminder))}`
+                                        : formatDateTime(reminder.when)}
+                            </span>
+                        </div>
+
+                        {reminder.recurrence && (
+                            <div className="reminder-panel-item-time">
+                                <Repeat size={14} />
+                                <span>
+                                    {describeRecurrence(reminder.recurrence, reminder.when)}
+                                    {reminder.completedCount ? ` • done ${reminder.completedCount}×` : ''}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -110,7 +237,7 @@ export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose })
                             <div className="spinner" />
                             <p>Loading reminders...</p>
                         </div>
-                    ) : reminders.length === 0 ? (
+                    ) : reminders.length === 0 && pastReminders.length === 0 ? (
                         <div className="reminder-panel-empty">
                             <ClockIcon size={56} />
                             <p>No active reminders</p>
@@ -119,38 +246,23 @@ export const ReminderPanel: React.FC<ReminderPanelProps> = ({ isOpen, onClose })
                             </span>
                         </div>
                     ) : (
-                        <div className="reminder-panel-list">
-                            {reminders.map((reminder) => (
-                                <div key={reminder.id} className="reminder-panel-item">
-                                    <div className="reminder-panel-item-content">
-                                        <div className="reminder-panel-item-header">
-                                            <h3 className="reminder-panel-item-title">
-                                                {reminder.generatedTitle || reminder.title}
-                                            </h3>
-                                            <button
-                                                className="reminder-panel-delete-btn"
-                                                onClick={() => handleDeleteReminder(reminder.id)}
-                                                title="Delete reminder"
-                                                aria-label="Delete reminder"
-                                            >
-                                                <Trash2 size={16} />
-                                            </button>
-                                        </div>
-
-                                        {reminder.generatedDescription && (
-                                            <p className="reminder-panel-item-description">
-                                                {reminder.generatedDescription}
-                                            </p>
-                                        )}
-
-                                        <div className="reminder-panel-item-time">
-                                            <Calendar size={14} />
-                                            <span>{formatDateTime(reminder.when)}</span>
-                                        </div>
+                        <>
+                            <div className="reminder-panel-list">
+                                {reminders.length === 0 && (
+                                    <p className="reminder-panel-section-empty">No active reminders</p>
+                                )}
+                                {reminders.map((reminder) => renderReminder(reminder, false))}
+                            </div>
+
+                            {pastReminders.length > 0 && (
+                                <>
+                                    <h3 className="reminder-panel-section-title">Past</h3>
+                                    <div className="reminder-panel-list">
+                                        {pastReminders.map((reminder) => renderReminder(reminder, true))}
                                     </div>
-                                </div>
-                            ))}
-                        </div>
+                                </>
+                            )}
+                        </>
                     )}
                 </div>
             </div>
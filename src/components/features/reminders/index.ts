@@ -1,2 +1,3 @@
 export { ReminderPanel } from './ReminderPanel';
+export { ReminderEditor } from './ReminderEditor';
 export { ReminderTimePicker } from './ReminderTimePicker';
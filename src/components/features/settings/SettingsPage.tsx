@@ -2,16 +2,26 @@ import React, { useState, useEffect } from 'react';
 import { ArrowLeft } from 'lucide-react';
 import { VoiceSettings } from '@/components/features/settings/components/VoiceSettings';
 import { AskAiButtonSettings } from '@/components/features/settings/components/AskAiButtonSettings';
+import { SiteRulesSettings } from '@/components/features/settings/components/SiteRulesSettings';
 import { TextSummarizerSettings } from '@/components/features/settings/components/TextSummarizerSettings';
 import { TextRewriterSettings } from '@/components/features/settings/components/TextRewriterSettings';
 import { WriteCommandSettings } from '@/components/features/settings/components/WriteCommandSettings';
+import { WritingStyleSettings } from '@/components/features/settings/components/WritingStyleSettings';
 import { AskCommandSettings } from '@/components/features/settings/components/AskCommandSettings';
 // import { EnabledToolsSettings } from '@/components/features/settings/components/EnabledToolsSettings';
 import { TTSAndDataSettings } from '@/components/features/settings/components/TTSAndDataSuggestionsSettings';
 import { MaxToolCallSettings } from '@/components/features/settings/components/MaxToolCallSettings';
+import { ToolApprovalSettings } from '@/components/features/settings/components/ToolApprovalSettings';
+import { MemorySettings } from '@/components/features/settings/components/MemorySettings';
 import { SupermemorySettings } from '@/components/features/settings/components/SupermemorySettings';
 import { SearchSettingsSection } from '@/components/features/settings/components/SearchSettingsSection';
 import { ResearchWorkflowSettings } from '@/components/features/settings/components/ResearchWorkflowSettings';
+import { CustomWorkflowsSettings } from '@/components/features/settings/components/CustomWorkflowsSettings';
+import { SiteProfilesSettings } from '@/components/features/settings/components/SiteProfilesSettings';
+import { ScheduledTasksSettings } from '@/components/features/settings/components/ScheduledTasksSettings';
+import { MacrosSettings } from '@/components/features/settings/components/MacrosSettings';
+import { UsageDashboardSettings } from '@/components/features/settings/components/UsageDashboardSettings';
+import { SettingsBackupSettings } from '@/components/features/settings/components/SettingsBackupSettings';
 import { hasAnyProviderConfigured } from '@/utils/credentials';
 import './SettingsPage.css';
 
@@ -65,16 +75,26 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack, onProviderSe
       <div className="settings-content">
         {/* <VoiceSettings /> */}
         <TTSAndDataSettings />
+        <UsageDashboardSettings />
         <SearchSettingsSection />
         <ResearchWorkflowSettings />
+        <CustomWorkflowsSettings />
+        <ScheduledTasksSettings />
+        <MacrosSettings />
+        <SiteProfilesSettings />
+        <SiteRulesSettings />
         <AskAiButtonSettings />
         <TextSummarizerSettings />
         <TextRewriterSettings />
         <WriteCommandSettings />
+        <WritingStyleSettings />
         <AskCommandSettings />
         {/* <EnabledToolsSettings /> */}
         <MaxToolCallSettings />
+        <ToolApprovalSettings />
+        <MemorySettings />
         <SupermemorySettings />
+        <SettingsBackupSettings />
       </div>
     </div>
   );
@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Workflow, Plus, Pencil, Copy, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import { getAllWorkflows } from '@/workflows/registry';
+import {
+    getCustomWorkflows,
+    deleteCustomWorkflow,
+    duplicateWorkflow,
+    isCustomWorkflow,
+} from '@/workflows/customWorkflows';
+import { isMacroWorkflow } from '@/workflows/macros';
+import type { CustomWorkflowDefinition, WorkflowDefinition } from '@/workflows/types';
+import { WorkflowEditor } from './WorkflowEditor';
+
+const log = createLogger('CustomWorkflowsSettings');
+
+/** Editor state: closed, creating a new workflow, or editing an existing one */
+type EditorState = { mode: 'closed' } | { mode: 'create' } | { mode: 'edit'; workflow: CustomWorkflowDefinition };
+
+export const CustomWorkflowsSettings: React.FC = () => {
+    const [customWorkflows, setCustomWorkflows] = useState<CustomWorkflowDefinition[]>([]);
+    const [builtInWorkflows, setBuiltInWorkflows] = useState<WorkflowDefinition[]>([]);
+    const [editor, setEditor] = useState<EditorState>({ mode: 'closed' });
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setCustomWorkflows(await getCustomWorkflows());
+            setBuiltInWorkflows(getAllWorkflows().filter(w => !isCustomWorkflow(w) && !isMacroWorkflow(w) && !w.comingSoon));
+        } catch (err) {
+            log.error('Failed to load workflows', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleSaved = async (workflow: CustomWorkflowDefinition) => {
+        setEditor({ mode: 'closed' });
+        setStatus(`Saved /${workflow.id}`);
+        await refresh();
+    };
+
+    const handleDuplicate = async (workflow: WorkflowDefinition) => {
+        try {
+            const copy = await duplicateWorkflow(workflow);
+            setStatus(`Created /${copy.id}`);
+            await refresh();
+            setEditor({ mode: 'edit', workflow: copy });
+        } catch (err) {
+            setStatus(err instanceof Error ? err.message : 'Failed to duplicate workflow');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (pendingDeleteId !== id) {
+            setPendingDeleteId(id);
+            return;
+        }
+        try {
+            await deleteCustomWorkflow(id);
+            setPendingDeleteId(null);
+            setStatus(`Deleted /${id}`);
+            if (editor.mode === 'edit' && editor.workflow.id === id) {
+                setEditor({ mode: 'closed' });
+            }
+            await refresh();
+        } catch (err) {
+            log.error('Failed to delete workflow', err);
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <Workflow size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Custom Workflows
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Your Workflows</div>
+                        <div className="settings-item-description">
+                            {status ?? 'Create slash commands with their own prompt, tools and step limit'}
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        className="settings-button"
+                        onClick={() => setEditor({ mode: 'create' })}
+                        disabled={editor.mode !== 'closed'}
+                    >
+                        <Plus size={14} style={{ marginRight: 4 }} />
+                        New
+                    </button>
+                </div>
+
+                {editor.mode !== 'closed' && (
+                    <div className="settings-item" style={{ display: 'block' }}>
+                        <WorkflowEditor
+                            key={editor.mode === 'edit' ? editor.workflow.id : 'new'}
+                            workflow={editor.mode === 'edit' ? editor.workflow : undefined}
+                            onSaved={handleSaved}
+                            onCancel={() => setEditor({ mode: 'closed' })}
+                        />
+                    </div>
+                )}
+
+                {customWorkflows.map(workflow => (
+                    <div key={workflow.id} className="settings-item workflow-list-item">
+                        <span className="workflow-list-icon">{workflow.icon}</span>
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">/{workflow.id} - {workflow.name}</div>
+                            <div className="settings-item-description">
+                                {workflow.pipeline
+                                    ? `${workflow.pipeline.stages.length} stages • ${workflow.allowedTools.length} tools`
+                                    : `${workflow.allowedTools.length} tools • ${workflow.stepCount} steps`}
+                                {workflow.description ? ` • ${workflow.description}` : ''}
+                            </div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => setEditor({ mode: 'edit', workflow })}
+                                aria-label={`Edit ${workflow.name}`}
+                            >
+                                <Pencil size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleDuplicate(workflow)}
+                                aria-label={`Duplicate ${workflow.name}`}
+                            >
+                                <Copy size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteId === workflow.id ? 'confirm' : ''}`}
+                                onClick={() => handleDelete(workflow.id)}
+                                onBlur={() => setPendingDeleteId(null)}
+                                aria-label={pendingDeleteId === workflow.id ? `Confirm delete ${workflow.name}` : `Delete ${workflow.name}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {builtInWorkflows.map(workflow => (
+                    <div key={workflow.id} className="settings-item workflow-list-item">
+                        <span className="workflow-list-icon">{workflow.icon.length <= 4 ? workflow.icon : '⚙️'}</span>
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">/{workflow.id} - {workflow.name}</div>
+                            <div className="settings-item-description">Built-in • duplicate to customize</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleDuplicate(workflow)}
+                                aria-label={`Duplicate ${workflow.name}`}
+                            >
+                                <Copy size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default CustomWorkflowsSettings;
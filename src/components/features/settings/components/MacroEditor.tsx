@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { saveMacro, syncMacroParameters, toMacroId } from '@/workflows/macros';
+import type { Macro, MacroInput, MacroStep, MacroStepTool } from '@/workflows/macros';
+
+/** The input each step type lets the user edit, e.g. to swap a typed value for a {{parameter}} */
+const EDITABLE_INPUT: Record<MacroStepTool, { key: string; label: string }> = {
+    navigateTo: { key: 'url', label: 'Open' },
+    clickByText: { key: 'text', label: 'Click' },
+    typeInField: { key: 'text', label: 'Type' },
+    pressKey: { key: 'key', label: 'Press' },
+};
+
+interface MacroEditorProps {
+    /** Macro being edited; omit to save a new recording */
+    macro?: Macro;
+    /** Steps of a recording that hasn't been saved yet */
+    recordedSteps?: MacroStep[];
+    onSaved: (macro: Macro) => void;
+    onCancel: () => void;
+}
+
+export const MacroEditor: React.FC<MacroEditorProps> = ({ macro, recordedSteps = [], onSaved, onCancel }) => {
+    const [form, setForm] = useState<MacroInput>(macro ?? {
+        id: '',
+        name: '',
+        description: '',
+        steps: recordedSteps,
+        parameters: syncMacroParameters(recordedSteps, []),
+    });
+    const [idEdited, setIdEdited] = useState(!!macro);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const update = (updates: Partial<MacroInput>) => {
+        setForm(prev => ({ ...prev, ...updates }));
+        setError(null);
+    };
+
+    // Placeholders define the parameters, so re-derive them whenever steps change
+    const updateSteps = (steps: MacroStep[]) => {
+        update({ steps, parameters: syncMacroParameters(steps, form.parameters) });
+    };
+
+    const updateStepInput = (id: string, key: string, value: string) => {
+        updateSteps(form.steps.map(step => step.id === id ? { ...step, input: { ...step.input, [key]: value } } : step));
+    };
+
+    const updateParameter = (name: string, updates: { description?: string; defaultValue?: string }) => {
+        update({
+            parameters: form.parameters.map(parameter => parameter.name === name ? { ...parameter, ...updates } : parameter),
+        });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            onSaved(await saveMacro(form, macro?.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save macro');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <label className="workflow-editor-field">
+                Name
+                <input
+                    className="settings-input"
+                    value={form.name}
+                    placeholder="Export weekly report"
+                    onChange={(e) => update({
+                        name: e.target.value,
+                        ...(idEdited ? {} : { id: toMacroId(e.target.value) }),
+                    })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                Slash command
+                <div className="workflow-editor-command">
+                    <span>/</span>
+                    <input
+                        className="settings-input"
+                        value={form.id}
+                        placeholder="export_weekly_report"
+                        onChange={(e) => {
+                            setIdEdited(true);
+                            update({ id: e.target.value.toLowerCase() });
+                        }}
+                    />
+                </div>
+            </label>
+
+            <label className="workflow-editor-field">
+                Description
+                <input
+                    className="settings-input"
+                    value={form.description}
+                    placeholder="Shown in the / menu and to the assistant"
+                    onChange={(e) => update({ description: e.target.value })}
+                />
+            </label>
+
+            <div className="workflow-editor-field">
+                <span>Steps ({form.steps.length})</span>
+                <ol className="macro-editor-steps">
+                    {form.steps.map(step => {
+                        const editable = EDITABLE_INPUT[step.toolName];
+                        const value = step.input[editable.key];
+                        return (
+                            <li key={step.id} className="macro-editor-step">
+                                <span className="macro-editor-step-label">{editable.label}</span>
+                                <input
+                                    className="settings-input"
+                                    value={typeof value === 'string' ? value : ''}
+                                    spellCheck={false}
+                                    onChange={(e) => updateStepInput(step.id, editable.key, e.target.value)}
+                                />
+                                {step.toolName === 'typeInField' && (
+                                    <span className="macro-editor-step-target" title={String(step.input.target ?? '')}>
+                                        into {String(step.input.target ?? '')}
+                                    </span>
+                                )}
+                                <button
+                                    type="button"
+                                    className="workflow-list-action danger"
+                                    onClick={() => updateSteps(form.steps.filter(s => s.id !== step.id))}
+                                    aria-label="Remove step"
+                                >
+                                    <X size={12} />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+                <span className="workflow-editor-hint">
+                    Replace a value with a placeholder like {'{{customer}}'} to ask for it each time the macro runs.
+                </span>
+            </div>
+
+            {form.parameters.length > 0 && (
+                <div className="workflow-editor-field">
+                    <span>Parameters</span>
+                    {form.parameters.map(parameter => (
+                        <div key={parameter.name} className="workflow-editor-row">
+                            <input
+                                className="settings-input"
+                                value={parameter.description}
+                                placeholder={`What is {{${parameter.name}}}?`}
+                                onChange={(e) => updateParameter(parameter.name, { description: e.target.value })}
+                            />
+                            <input
+                                className="settings-input"
+                                value={parameter.defaultValue ?? ''}
+                                placeholder="Default (optional)"
+                                type={parameter.name === 'password' ? 'password' : 'text'}
+                                onChange={(e) => updateParameter(parameter.name, { defaultValue: e.target.value || undefined })}
+                            />
+                        </div>
+                    ))}
+                    <span className="workflow-editor-hint">
+                        Parameters without a default must be given when the macro runs.
+                    </span>
+                </div>
+            )}
+
+            {error && <div className="workflow-editor-error">{error}</div>}
+
+            <div className="workflow-editor-actions">
+                <button type="button" className="settings-button" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </button>
+                <button type="button" className="settings-button primary" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save Macro'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MacroEditor;
@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Circle, Pencil, Repeat, Square, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    deleteMacro,
+    getMacroRecording,
+    getMacros,
+    MACROS_STORAGE_KEY,
+    startMacroRecording,
+    stopMacroRecording,
+} from '@/workflows/macros';
+import type { Macro, MacroStep } from '@/workflows/macros';
+import { MacroEditor } from './MacroEditor';
+
+const log = createLogger('MacrosSettings');
+
+/** Editor state: closed, saving a fresh recording, or editing a macro */
+type EditorState =
+    | { mode: 'closed' }
+    | { mode: 'create'; steps: MacroStep[] }
+    | { mode: 'edit'; macro: Macro };
+
+function describeMacro(macro: Macro): string {
+    const parts = [`/${macro.id} • ${macro.steps.length} step${macro.steps.length === 1 ? '' : 's'}`];
+    if (macro.parameters.length > 0) {
+        parts.push(macro.parameters.map(parameter => `{{${parameter.name}}}`).join(', '));
+    }
+    if (macro.lastRun) {
+        parts.push(macro.lastRun.status === 'success'
+            ? `last ran ${new Date(macro.lastRun.at).toLocaleString()}`
+            : `last run ${macro.lastRun.status}: ${macro.lastRun.error ?? 'unknown error'}`);
+    }
+    return parts.join(' • ');
+}
+
+export const MacrosSettings: React.FC = () => {
+    const [macros, setMacros] = useState<Macro[]>([]);
+    const [editor, setEditor] = useState<EditorState>({ mode: 'closed' });
+    const [isRecording, setIsRecording] = useState(false);
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setMacros(await getMacros());
+        } catch (err) {
+            log.error('Failed to load macros', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        getMacroRecording()
+            .then(recording => setIsRecording(!!recording))
+            .catch(err => log.error('Failed to read recording status', err));
+
+        // Replays update last-run details
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[MACROS_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, [refresh]);
+
+    const handleStartRecording = async () => {
+        try {
+            const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+            if (tab?.id === undefined) {
+                setStatus({ message: 'Open the page you want to record first', isError: true });
+                return;
+            }
+            await startMacroRecording(tab.id);
+            setIsRecording(true);
+            setEditor({ mode: 'closed' });
+            setStatus({ message: 'Recording this tab. Click and type as usual, then press Stop.', isError: false });
+        } catch (err) {
+            log.error('Failed to start recording', err);
+            setStatus({ message: err instanceof Error ? err.message : 'Failed to start recording', isError: true });
+        }
+    };
+
+    const handleStopRecording = async () => {
+        try {
+            const recording = await stopMacroRecording();
+            setIsRecording(false);
+            if (!recording || recording.steps.length === 0) {
+                setStatus({ message: 'Nothing was recorded', isError: true });
+                return;
+            }
+            setStatus(recording.skippedActions > 0
+                ? {
+                    message: `${recording.skippedActions} action${recording.skippedActions === 1 ? '' : 's'} couldn't be recorded, e.g. clicks on icons without text`,
+                    isError: false,
+                }
+                : null);
+            setEditor({ mode: 'create', steps: recording.steps });
+        } catch (err) {
+            log.error('Failed to stop recording', err);
+            setStatus({ message: err instanceof Error ? err.message : 'Failed to stop recording', isError: true });
+        }
+    };
+
+    const handleSaved = async (macro: Macro) => {
+        setEditor({ mode: 'closed' });
+        setStatus({ message: `Saved ${macro.name}; run it with /${macro.id}`, isError: false });
+        await refresh();
+    };
+
+    const handleDelete = async (id: string) => {
+        if (pendingDeleteId !== id) {
+            setPendingDeleteId(id);
+            return;
+        }
+        try {
+            await deleteMacro(id);
+            setPendingDeleteId(null);
+            if (editor.mode === 'edit' && editor.macro.id === id) {
+                setEditor({ mode: 'closed' });
+            }
+            await refresh();
+        } catch (err) {
+            log.error('Failed to delete macro', err);
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <Repeat size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Browser Macros
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Your Macros</div>
+                        <div
+                            className="settings-item-description"
+                            style={{ color: status?.isError ? 'var(--color-error)' : undefined }}
+                        >
+                            {status?.message ?? 'Record clicks and typing on a page, then replay them with a slash command or from chat'}
+                        </div>
+                    </div>
+                    {isRecording ? (
+                        <button type="button" className="settings-button primary" onClick={handleStopRecording}>
+                            <Square size={14} style={{ marginRight: 4 }} />
+                            Stop
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            className="settings-button"
+                            onClick={handleStartRecording}
+                            disabled={editor.mode !== 'closed'}
+                        >
+                            <Circle size={14} style={{ marginRight: 4 }} />
+                            Record
+                        </button>
+                    )}
+                </div>
+
+                {editor.mode !== 'closed' && (
+                    <div className="settings-item" style={{ display: 'block' }}>
+                        <MacroEditor
+                            key={editor.mode === 'edit' ? editor.macro.id : 'new'}
+                            macro={editor.mode === 'edit' ? editor.macro : undefined}
+                            recordedSteps={editor.mode === 'create' ? editor.steps : undefined}
+                            onSaved={handleSaved}
+                            onCancel={() => setEditor({ mode: 'closed' })}
+                        />
+                    </div>
+                )}
+
+                {macros.map(macro => (
+                    <div key={macro.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{macro.name}</div>
+                            <div className="settings-item-description">{describeMacro(macro)}</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => setEditor({ mode: 'edit', macro })}
+                                disabled={isRecording}
+                                aria-label={`Edit ${macro.name}`}
+                            >
+                                <Pencil size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteId === macro.id ? 'confirm' : ''}`}
+                                onClick={() => handleDelete(macro.id)}
+                                onBlur={() => setPendingDeleteId(null)}
+                                aria-label={pendingDeleteId === macro.id ? `Confirm delete ${macro.name}` : `Delete ${macro.name}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default MacrosSettings;
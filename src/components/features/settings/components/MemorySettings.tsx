@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Brain, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import { Toggle } from '@/components/shared/inputs/Toggle';
+import { deleteMemory, listMemories, searchMemories } from '@/memory';
+import { clearMemories, type MemoryCategory, type MemoryEntry } from '../../../../db';
+import {
+    DEFAULT_MEMORY_SETTINGS,
+    getMemorySettings,
+    saveMemorySettings,
+    type MemorySettings as MemorySettingsData,
+} from '@/utils/settings/memorySettings';
+
+const log = createLogger('MemorySettings', 'SETTINGS');
+
+const MAX_INJECTED_OPTIONS = [3, 5, 10];
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+    fact: 'Fact',
+    behavior: 'Behavior',
+};
+
+/** Memories shown at once; search to find older ones */
+const BROWSER_LIMIT = 100;
+
+function describeMemory(memory: MemoryEntry): string {
+    const parts = [
+        CATEGORY_LABELS[memory.category],
+        `saved ${new Date(memory.updatedAt).toLocaleDateString()}`,
+    ];
+    if (memory.sourceUrl) {
+        try {
+            parts.push(`from ${new URL(memory.sourceUrl).hostname}`);
+        } catch {
+            // Not a URL; leave the source out
+        }
+    }
+    return parts.join(' • ');
+}
+
+/**
+ * Browse, search and delete the memories saved on this device
+ */
+export const MemorySettings: React.FC = () => {
+    const [settings, setSettings] = useState<MemorySettingsData>(DEFAULT_MEMORY_SETTINGS);
+    const [memories, setMemories] = useState<MemoryEntry[]>([]);
+    const [query, setQuery] = useState('');
+    const [category, setCategory] = useState<MemoryCategory | ''>('');
+    const [pendingDeleteKey, setPendingDeleteKey] = useState<string | null>(null);
+    const [confirmClear, setConfirmClear] = useState(false);
+
+    const loadMemories = useCallback(async () => {
+        try {
+            const filter = category || undefined;
+            const next = query.trim()
+                ? (await searchMemories(query, { category: filter, limit: BROWSER_LIMIT })).map(result => result.memory)
+                : await listMemories({ category: filter, limit: BROWSER_LIMIT });
+            setMemories(next);
+        } catch (err) {
+            log.error('Failed to load memories', err);
+        }
+    }, [query, category]);
+
+    useEffect(() => {
+        getMemorySettings().then(setSettings);
+    }, []);
+
+    useEffect(() => {
+        loadMemories();
+    }, [loadMemories]);
+
+    const update = async (updates: Partial<MemorySettingsData>) => {
+        const previous = settings;
+        const next = { ...settings, ...updates };
+        setSettings(next);
+        try {
+            await saveMemorySettings(next);
+        } catch (err) {
+            log.error('Failed to save memory settings', err);
+            setSettings(previous);
+        }
+    };
+
+    const handleDelete = async (key: string) => {
+        if (pendingDeleteKey !== key) {
+            setPendingDeleteKey(key);
+            return;
+        }
+        try {
+            await deleteMemory(key);
+            setPendingDeleteKey(null);
+            setMemories(prev => prev.filter(memory => memory.key !== key));
+        } catch (err) {
+            log.error('Failed to delete memory', err);
+        }
+    };
+
+    const handleClearAll = async () => {
+        if (!confirmClear) {
+            setConfirmClear(true);
+            return;
+        }
+        try {
+            await clearMemories();
+            setConfirmClear(false);
+            setMemories([]);
+        } catch (err) {
+            log.error('Failed to clear memories', err);
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <Brain size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Memory
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Use Memories in Chats</div>
+                        <div className="settings-item-description">
+                            Add saved preferences and relevant facts to every chat, including local mode
+                        </div>
+                    </div>
+                    <Toggle checked={settings.autoInject} onChange={(checked) => update({ autoInject: checked })} />
+                </div>
+
+                {settings.autoInject && (
+                    <div className="settings-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">Facts per Message</div>
+                            <div className="settings-item-description">
+                                Most relevant facts added to each request
+                            </div>
+                        </div>
+                        <select
+                            className="settings-select memory-browser-select"
+                            value={settings.maxInjected}
+                            onChange={(e) => update({ maxInjected: Number(e.target.value) })}
+                            aria-label="Facts per message"
+                        >
+                            {MAX_INJECTED_OPTIONS.map(option => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="settings-input-group memory-browser-filters">
+                        <input
+                            type="search"
+                            className="settings-input"
+                            placeholder="Search memories..."
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            aria-label="Search memories"
+                        />
+                        <select
+                            className="settings-select memory-browser-select"
+                            value={category}
+                            onChange={(e) => setCategory(e.target.value as MemoryCategory | '')}
+                            aria-label="Filter by category"
+                        >
+                            <option value="">All</option>
+                            <option value="fact">Facts</option>
+                            <option value="behavior">Behaviors</option>
+                        </select>
+                    </div>
+                </div>
+
+                {memories.length === 0 && (
+                    <div className="settings-item">
+                        <div className="settings-item-description">
+                            {query || category
+                                ? 'No matching memories'
+                                : 'No memories yet. Ask the assistant to remember something.'}
+                        </div>
+                    </div>
+                )}
+
+                {memories.map(memory => (
+                    <div key={memory.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{memory.key}</div>
+                            <div className="memory-browser-content">{memory.content}</div>
+                            <div className="settings-item-description">{describeMemory(memory)}</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteKey === memory.key ? 'confirm' : ''}`}
+                                onClick={() => handleDelete(memory.key)}
+                                onBlur={() => setPendingDeleteKey(null)}
+                                aria-label={pendingDeleteKey === memory.key ? `Confirm delete ${memory.key}` : `Delete ${memory.key}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {memories.length > 0 && !query && !category && (
+                    <div className="settings-item">
+                        <button
+                            type="button"
+                            className="settings-button danger"
+                            onClick={handleClearAll}
+                            onBlur={() => setConfirmClear(false)}
+                        >
+                            <Trash2 size={14} style={{ marginRight: 4 }} />
+                            {confirmClear ? 'Click again to delete all' : 'Delete All Memories'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MemorySettings;
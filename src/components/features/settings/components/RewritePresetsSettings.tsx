@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import {
+    ArrowDown,
+    ArrowUp,
+    Briefcase,
+    Code,
+    FileText,
+    Languages,
+    Maximize2,
+    Megaphone,
+    MessageCircle,
+    Minimize2,
+    PenLine,
+    Pencil,
+    Pin,
+    PinOff,
+    Plus,
+    Smile,
+    Sparkles,
+    Ticket,
+    Trash2,
+    Zap,
+    type LucideIcon,
+} from 'lucide-react';
+import {
+    createCustomPresetId,
+    getRewritePresetOptions,
+    isCustomRewritePreset,
+    type RewriteSettings,
+} from '@/utils/settings';
+import type { CustomRewritePreset, RewritePreset, RewritePresetIcon } from '@/types';
+
+const PRESET_ICONS: Record<RewritePresetIcon, { icon: LucideIcon; label: string }> = {
+    'sparkles': { icon: Sparkles, label: 'Sparkles' },
+    'file-text': { icon: FileText, label: 'Document' },
+    'languages': { icon: Languages, label: 'Languages' },
+    'ticket': { icon: Ticket, label: 'Ticket' },
+    'code': { icon: Code, label: 'Code' },
+    'pen': { icon: PenLine, label: 'Pen' },
+    'briefcase': { icon: Briefcase, label: 'Briefcase' },
+    'message': { icon: MessageCircle, label: 'Message' },
+    'megaphone': { icon: Megaphone, label: 'Megaphone' },
+    'smile': { icon: Smile, label: 'Smile' },
+    'zap': { icon: Zap, label: 'Zap' },
+    'minimize': { icon: Minimize2, label: 'Shrink' },
+    'maximize': { icon: Maximize2, label: 'Expand' },
+};
+
+const MAX_NAME_LENGTH = 24;
+
+type EditorState =
+    | { mode: 'closed' }
+    | { mode: 'create' }
+    | { mode: 'edit'; preset: CustomRewritePreset };
+
+interface RewritePresetsSettingsProps {
+    settings: RewriteSettings;
+    onChange: (updates: Partial<RewriteSettings>) => void;
+}
+
+/**
+ * Order, pin and manage the presets shown in the rewrite tooltip
+ */
+export const RewritePresetsSettings: React.FC<RewritePresetsSettingsProps> = ({ settings, onChange }) => {
+    const [editor, setEditor] = useState<EditorState>({ mode: 'closed' });
+    const [pendingDeleteId, setPendingDeleteId] = useState<RewritePreset | null>(null);
+    const presets = getRewritePresetOptions(settings);
+
+    const handleMove = (index: number, offset: number) => {
+        const order = presets.map(preset => preset.id);
+        const target = index + offset;
+        const moved = order[index];
+        const swapped = order[target];
+        if (moved === undefined || swapped === undefined) return;
+        order[index] = swapped;
+        order[target] = moved;
+        onChange({ presetOrder: order });
+    };
+
+    const handleTogglePin = (id: RewritePreset) => {
+        onChange({
+            pinnedPresets: settings.pinnedPresets.includes(id)
+                ? settings.pinnedPresets.filter(pinned => pinned !== id)
+                : [...settings.pinnedPresets, id],
+        });
+    };
+
+    const handleDelete = (id: RewritePreset) => {
+        if (pendingDeleteId !== id) {
+            setPendingDeleteId(id);
+            return;
+        }
+        setPendingDeleteId(null);
+        onChange({
+            customPresets: settings.customPresets.filter(preset => preset.id !== id),
+            presetOrder: settings.presetOrder.filter(presetId => presetId !== id),
+            pinnedPresets: settings.pinnedPresets.filter(presetId => presetId !== id),
+            ...(settings.defaultPreset === id ? { defaultPreset: null } : {}),
+        });
+    };
+
+    const handleSave = (preset: CustomRewritePreset) => {
+        const exists = settings.customPresets.some(custom => custom.id === preset.id);
+        onChange(exists
+            ? { customPresets: settings.customPresets.map(custom => custom.id === preset.id ? preset : custom) }
+            : {
+                customPresets: [...settings.customPresets, preset],
+                presetOrder: [...presets.map(option => option.id), preset.id],
+                pinnedPresets: [...settings.pinnedPresets, preset.id],
+            });
+        setEditor({ mode: 'closed' });
+    };
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <div className="settings-item-title" style={{ marginBottom: '4px' }}>Presets</div>
+            <div className="settings-item-description" style={{ marginBottom: '8px' }}>
+                Pinned presets show in the tooltip; the rest are under "More". Custom presets are also offered in /write.
+            </div>
+
+            {presets.map((preset, index) => {
+                const Icon = PRESET_ICONS[preset.icon]?.icon ?? Sparkles;
+                const custom = isCustomRewritePreset(preset.id)
+                    ? settings.customPresets.find(item => item.id === preset.id)
+                    : undefined;
+                return (
+                    <div key={preset.id} className="settings-item workflow-list-item" style={{ padding: '6px 0' }}>
+                        <span className="workflow-list-icon" style={{ color: preset.color }}>
+                            <Icon size={14} />
+                        </span>
+                        <div className="settings-item-content rewrite-preset-content">
+                            <div className="settings-item-title">{preset.label}</div>
+                            {preset.instruction && (
+                                <div className="settings-item-description rewrite-preset-instruction">{preset.instruction}</div>
+                            )}
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleMove(index, -1)}
+                                disabled={index === 0}
+                                aria-label={`Move ${preset.label} up`}
+                            >
+                                <ArrowUp size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleMove(index, 1)}
+                                disabled={index === presets.length - 1}
+                                aria-label={`Move ${preset.label} down`}
+                            >
+                                <ArrowDown size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleTogglePin(preset.id)}
+                                aria-label={preset.pinned ? `Unpin ${preset.label}` : `Pin ${preset.label}`}
+                                aria-pressed={preset.pinned}
+                                title={preset.pinned ? 'Pinned to the tooltip' : 'Under "More"'}
+                            >
+                                {preset.pinned ? <Pin size={14} /> : <PinOff size={14} />}
+                            </button>
+                            {custom && (
+                                <>
+                                    <button
+                                        type="button"
+                                        className="workflow-list-action"
+                                        onClick={() => setEditor({ mode: 'edit', preset: custom })}
+                                        aria-label={`Edit ${preset.label}`}
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className={`workflow-list-action danger ${pendingDeleteId === preset.id ? 'confirm' : ''}`}
+                                        onClick={() => handleDelete(preset.id)}
+                                        onBlur={() => setPendingDeleteId(null)}
+                                        aria-label={pendingDeleteId === preset.id ? `Confirm delete ${preset.label}` : `Delete ${preset.label}`}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+
+            {editor.mode === 'closed' ? (
+                <button
+                    type="button"
+                    className="settings-button"
+                    style={{ marginTop: '8px' }}
+                    onClick={() => setEditor({ mode: 'create' })}
+                >
+                    <Plus size={14} style={{ verticalAlign: 'text-bottom', marginRight: 4 }} />
+                    Add Preset
+                </button>
+            ) : (
+                <RewritePresetEditor
+                    key={editor.mode === 'edit' ? editor.preset.id : 'new'}
+                    preset={editor.mode === 'edit' ? editor.preset : undefined}
+                    onSave={handleSave}
+                    onCancel={() => setEditor({ mode: 'closed' })}
+                />
+            )}
+        </div>
+    );
+};
+
+interface RewritePresetEditorProps {
+    /** Preset being edited; omit to create one */
+    preset?: CustomRewritePreset;
+    onSave: (preset: CustomRewritePreset) => void;
+    onCancel: () => void;
+}
+
+const RewritePresetEditor: React.FC<RewritePresetEditorProps> = ({ preset, onSave, onCancel }) => {
+    const [form, setForm] = useState<CustomRewritePreset>(preset ?? {
+        id: createCustomPresetId(),
+        name: '',
+        icon: 'sparkles',
+        instruction: '',
+    });
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (updates: Partial<CustomRewritePreset>) => {
+        setForm(prev => ({ ...prev, ...updates }));
+        setError(null);
+    };
+
+    const handleSave = () => {
+        const name = form.name.trim();
+        const instruction = form.instruction.trim();
+        if (!name) {
+            setError('Give the preset a name');
+            return;
+        }
+        if (!instruction) {
+            setError('Describe how the text should be rewritten');
+            return;
+        }
+        onSave({ ...form, name, instruction });
+    };
+
+    return (
+        <div className="workflow-editor" style={{ marginTop: '8px' }}>
+            <div className="workflow-editor-row">
+                <label className="workflow-editor-field">
+                    Name
+                    <input
+                        className="settings-input"
+                        value={form.name}
+                        maxLength={MAX_NAME_LENGTH}
+                        placeholder="Release notes"
+                        onChange={(e) => update({ name: e.target.value })}
+                    />
+                </label>
+                <label className="workflow-editor-field" style={{ flex: '0 0 120px' }}>
+                    Icon
+                    <select
+                        className="settings-select"
+                        value={form.icon}
+                        onChange={(e) => update({ icon: e.target.value as RewritePresetIcon })}
+                    >
+                        {(Object.keys(PRESET_ICONS) as RewritePresetIcon[]).map(icon => (
+                            <option key={icon} value={icon}>{PRESET_ICONS[icon].label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <label className="workflow-editor-field">
+                Instruction
+                <textarea
+                    className="settings-input workflow-editor-prompt"
+                    value={form.instruction}
+                    placeholder="Translate to German. Keep code blocks, identifiers and URLs unchanged."
+                    onChange={(e) => update({ instruction: e.target.value })}
+                />
+            </label>
+
+            {error && <div className="workflow-editor-error">{error}</div>}
+
+            <div className="workflow-editor-actions">
+                <button type="button" className="settings-button" onClick={onCancel}>
+                    Cancel
+                </button>
+                <button type="button" className="settings-button primary" onClick={handleSave}>
+                    Save Preset
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RewritePresetsSettings;
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createLogger } from '~logger';
+import { listMCPToolDefinitions } from '@/ai/mcp/proxy';
+import { getAllWorkflows } from '@/workflows/registry';
+import { isMacroWorkflow } from '@/workflows/macros';
+import {
+    getNextRunAt,
+    parseSchedule,
+    saveScheduledTask,
+    SCHEDULED_TASK_BROWSER_TOOLS,
+} from '@/workflows/scheduled';
+import type { ScheduledTask, ScheduledTaskInput } from '@/workflows/scheduled';
+import { Toggle } from '../../../shared/inputs/Toggle';
+
+const log = createLogger('ScheduledTaskEditor');
+
+interface ToolOption {
+    name: string;
+    group: 'Browser' | 'MCP';
+    detail?: string;
+}
+
+const EMPTY_TASK: ScheduledTaskInput = {
+    name: '',
+    prompt: '',
+    scheduleText: '',
+    workflowId: undefined,
+    allowedTools: [],
+    enabled: true,
+};
+
+interface ScheduledTaskEditorProps {
+    /** Task being edited; omit to create a new one */
+    task?: ScheduledTask;
+    onSaved: (task: ScheduledTask) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Describe when a schedule fires next, or why it can't be parsed
+ */
+function previewSchedule(text: string): { message: string; isError: boolean } | null {
+    if (!text.trim()) return null;
+    try {
+        const schedule = parseSchedule(text);
+        const next = getNextRunAt(schedule);
+        const detail = schedule.kind === 'cron' ? `Repeats (${schedule.expression})` : 'Runs once';
+        return {
+            message: next ? `${detail} • next run ${new Date(next).toLocaleString()}` : `${detail} • no upcoming run`,
+            isError: false,
+        };
+    } catch (err) {
+        return { message: err instanceof Error ? err.message : 'Invalid schedule', isError: true };
+    }
+}
+
+export const ScheduledTaskEditor: React.FC<ScheduledTaskEditorProps> = ({ task, onSaved, onCancel }) => {
+    const [form, setForm] = useState<ScheduledTaskInput>(task ?? EMPTY_TASK);
+    const [toolOptions, setToolOptions] = useState<ToolOption[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Pipelines and macros depend on side-panel tools, so only agent workflows can be scheduled
+    const workflows = useMemo(() => getAllWorkflows().filter(w => !w.comingSoon && !w.pipeline && !isMacroWorkflow(w)), []);
+    const preview = useMemo(() => previewSchedule(form.scheduleText), [form.scheduleText]);
+
+    useEffect(() => {
+        const loadTools = async () => {
+            const options: ToolOption[] = SCHEDULED_TASK_BROWSER_TOOLS.map(name => ({ name, group: 'Browser' as const }));
+            const mcpTools = await listMCPToolDefinitions();
+            options.push(...mcpTools.map(tool => ({ name: tool.name, group: 'MCP' as const, detail: tool.serverName })));
+            setToolOptions(options);
+        };
+        loadTools().catch(err => log.error('Failed to load tools', err));
+    }, []);
+
+    const update = (updates: Partial<ScheduledTaskInput>) => {
+        setForm(prev => ({ ...prev, ...updates }));
+        setError(null);
+    };
+
+    const toggleTool = (name: string) => {
+        update({
+            allowedTools: form.allowedTools.includes(name)
+                ? form.allowedTools.filter(t => t !== name)
+                : [...form.allowedTools, name],
+        });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            onSaved(await saveScheduledTask(form, task?.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save task');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <label className="workflow-editor-field">
+                Name
+                <input
+                    className="settings-input"
+                    value={form.name}
+                    placeholder="Morning PR summary"
+                    onChange={(e) => update({ name: e.target.value })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                Prompt
+                <textarea
+                    className="settings-input workflow-editor-prompt"
+                    value={form.prompt}
+                    rows={4}
+                    placeholder="Summarize my open GitHub pull request tabs"
+                    onChange={(e) => update({ prompt: e.target.value })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                Schedule
+                <input
+                    className="settings-input"
+                    value={form.scheduleText}
+                    placeholder="every weekday at 9am"
+                    spellCheck={false}
+                    onChange={(e) => update({ scheduleText: e.target.value })}
+                />
+                <span
+                    className="workflow-editor-hint"
+                    style={{ color: preview?.isError ? 'var(--color-error)' : undefined }}
+                >
+                    {preview?.message ?? 'e.g. "every Monday at 8:30", "every 2 hours", "tomorrow at 5pm" or "0 9 * * 1-5"'}
+                </span>
+            </label>
+
+            <label className="workflow-editor-field">
+                Workflow
+                <select
+                    className="settings-input"
+                    value={form.workflowId ?? ''}
+                    onChange={(e) => update({ workflowId: e.target.value || undefined })}
+                >
+                    <option value="">None (general assistant)</option>
+                    {workflows.map(workflow => (
+                        <option key={workflow.id} value={workflow.id}>
+                            /{workflow.id} — {workflow.name}
+                        </option>
+                    ))}
+                </select>
+                <span className="workflow-editor-hint">
+                    Uses the workflow's instructions and step limit.
+                </span>
+            </label>
+
+            <div className="workflow-editor-field">
+                <span>
+                    Allowed tools ({form.allowedTools.length > 0 ? `${form.allowedTools.length} selected` : 'workflow default'})
+                </span>
+                <div className="workflow-editor-tools">
+                    {toolOptions.map(tool => (
+                        <label key={`${tool.group}-${tool.name}`} className="workflow-editor-tool">
+                            <input
+                                type="checkbox"
+                                checked={form.allowedTools.includes(tool.name)}
+                                onChange={() => toggleTool(tool.name)}
+                            />
+                            <span className="workflow-editor-tool-name">{tool.name}</span>
+                            <span className="workflow-editor-tool-group">
+                                {tool.detail ? `${tool.group} · ${tool.detail}` : tool.group}
+                            </span>
+                        </label>
+                    ))}
+                </div>
+                <span className="workflow-editor-hint">
+                    Scheduled runs happen in the background, so only these tools are available. Leave empty to use the workflow's tools, or all of them.
+                    Tools that need your approval are skipped unless an "always allow" rule covers them.
+                </span>
+            </div>
+
+            <Toggle
+                checked={form.enabled}
+                onChange={(enabled) => update({ enabled })}
+                label="Enabled"
+            />
+
+            {error && <div className="workflow-editor-error">{error}</div>}
+
+            <div className="workflow-editor-actions">
+                <button type="button" className="settings-button" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </button>
+                <button type="button" className="settings-button primary" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save Task'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ScheduledTaskEditor;
@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarClock, Plus, Pencil, Play, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    getScheduledTasks,
+    deleteScheduledTask,
+    setScheduledTaskEnabled,
+    SCHEDULED_TASKS_STORAGE_KEY,
+} from '@/workflows/scheduled';
+import type { ScheduledTask } from '@/workflows/scheduled';
+import { Toggle } from '../../../shared/inputs/Toggle';
+import { ScheduledTaskEditor } from './ScheduledTaskEditor';
+
+const log = createLogger('ScheduledTasksSettings');
+
+/** Editor state: closed, creating a task, or editing one */
+type EditorState =
+    | { mode: 'closed' }
+    | { mode: 'create' }
+    | { mode: 'edit'; task: ScheduledTask };
+
+function describeTask(task: ScheduledTask): string {
+    const parts = [task.workflowId ? `/${task.workflowId} • ${task.scheduleText}` : task.scheduleText];
+    if (task.enabled && task.nextRunAt) {
+        parts.push(`next ${new Date(task.nextRunAt).toLocaleString()}`);
+    }
+    if (task.lastRun) {
+        parts.push(task.lastRun.status === 'success'
+            ? `last ran ${new Date(task.lastRun.at).toLocaleString()}`
+            : `last run failed: ${task.lastRun.error ?? 'unknown error'}`);
+    }
+    return parts.join(' • ');
+}
+
+export const ScheduledTasksSettings: React.FC = () => {
+    const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+    const [editor, setEditor] = useState<EditorState>({ mode: 'closed' });
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [runningId, setRunningId] = useState<string | null>(null);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setTasks(await getScheduledTasks());
+        } catch (err) {
+            log.error('Failed to load scheduled tasks', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+
+        // The background worker updates last-run details after each run
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[SCHEDULED_TASKS_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, [refresh]);
+
+    const handleSaved = async (task: ScheduledTask) => {
+        setEditor({ mode: 'closed' });
+        setStatus({ message: `Saved ${task.name}`, isError: false });
+        await refresh();
+    };
+
+    const handleDelete = async (id: string) => {
+        if (pendingDeleteId !== id) {
+            setPendingDeleteId(id);
+            return;
+        }
+        try {
+            await deleteScheduledTask(id);
+            setPendingDeleteId(null);
+            if (editor.mode === 'edit' && editor.task.id === id) {
+                setEditor({ mode: 'closed' });
+            }
+            await refresh();
+        } catch (err) {
+            log.error('Failed to delete scheduled task', err);
+        }
+    };
+
+    const handleToggle = async (id: string, enabled: boolean) => {
+        try {
+            await setScheduledTaskEnabled(id, enabled);
+            await refresh();
+        } catch (err) {
+            log.error('Failed to update scheduled task', err);
+        }
+    };
+
+    const handleRunNow = async (task: ScheduledTask) => {
+        setRunningId(task.id);
+        setStatus({ message: `Running ${task.name}...`, isError: false });
+        try {
+            const response = await chrome.runtime.sendMessage({
+                type: 'scheduler/task/run',
+                payload: { taskId: task.id },
+            });
+            setStatus(response?.success
+                ? { message: `${task.name} finished; the result is in your chat history`, isError: false }
+                : { message: response?.error ?? `${task.name} failed`, isError: true });
+        } catch (err) {
+            log.error('Failed to run scheduled task', err);
+            setStatus({ message: `${task.name} failed`, isError: true });
+        } finally {
+            setRunningId(null);
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <CalendarClock size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Scheduled Tasks
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Your Tasks</div>
+                        <div
+                            className="settings-item-description"
+                            style={{ color: status?.isError ? 'var(--color-error)' : undefined }}
+                        >
+                            {status?.message ?? 'Run prompts or workflows on a schedule; results are saved as new chats'}
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        className="settings-button"
+                        onClick={() => setEditor({ mode: 'create' })}
+                        disabled={editor.mode !== 'closed'}
+                    >
+                        <Plus size={14} style={{ marginRight: 4 }} />
+                        New
+                    </button>
+                </div>
+
+                {editor.mode !== 'closed' && (
+                    <div className="settings-item" style={{ display: 'block' }}>
+                        <ScheduledTaskEditor
+                            key={editor.mode === 'edit' ? editor.task.id : 'new'}
+                            task={editor.mode === 'edit' ? editor.task : undefined}
+                            onSaved={handleSaved}
+                            onCancel={() => setEditor({ mode: 'closed' })}
+                        />
+                    </div>
+                )}
+
+                {tasks.map(task => (
+                    <div key={task.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{task.name}</div>
+                            <div className="settings-item-description">{describeTask(task)}</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleRunNow(task)}
+                                disabled={runningId !== null}
+                                aria-label={`Run ${task.name} now`}
+                            >
+                                <Play size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => setEditor({ mode: 'edit', task })}
+                                aria-label={`Edit ${task.name}`}
+                            >
+                                <Pencil size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteId === task.id ? 'confirm' : ''}`}
+                                onClick={() => handleDelete(task.id)}
+                                onBlur={() => setPendingDeleteId(null)}
+                                aria-label={pendingDeleteId === task.id ? `Confirm delete ${task.name}` : `Delete ${task.name}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                            <Toggle
+                                checked={task.enabled}
+                                onChange={(enabled) => handleToggle(task.id, enabled)}
+                                disabled={!task.enabled && task.schedule.kind === 'once' && !task.nextRunAt}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ScheduledTasksSettings;
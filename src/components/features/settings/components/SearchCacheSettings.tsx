@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronUp, ChevronDown, Database, History, Trash2, X } from 'lucide-react';
+import { createLogger } from '~logger';
+import { clearSearchCache, getCacheStats } from '@/search/cache';
+import {
+    clearSearchSessions,
+    deleteSearchSession,
+    getSearchSessions,
+    type SearchCacheStats,
+    type SearchSession,
+} from '../../../../db';
+import type { SearchSettings } from '@/utils/settings/searchSettings';
+import { Toggle } from '@/components/shared/inputs/Toggle';
+import { CitationList } from '@/components/features/chat/components/search/CitationList';
+import type { CitationSource } from '@/components/features/chat/components/search/SourceCitation';
+
+const log = createLogger('SearchCacheSettings', 'SETTINGS');
+
+const TTL_OPTIONS = [
+    { value: 15, label: '15 minutes' },
+    { value: 60, label: '1 hour' },
+    { value: 360, label: '6 hours' },
+    { value: 1440, label: '24 hours' },
+];
+
+const SIZE_OPTIONS = [5, 20, 50, 100];
+
+const SESSION_LIMIT = 30;
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+}
+
+function toCitationSources(session: SearchSession): CitationSource[] {
+    return session.results.results.map((result, index) => ({
+        number: index + 1,
+        title: result.title || result.url,
+        url: result.url,
+    }));
+}
+
+interface SearchCacheSettingsProps {
+    settings: SearchSettings;
+    onUpdateSettings: (updates: Partial<SearchSettings>) => void;
+}
+
+/**
+ * Cache controls and past search sessions for the Web Search section.
+ */
+export const SearchCacheSettings: React.FC<SearchCacheSettingsProps> = ({
+    settings,
+    onUpdateSettings,
+}) => {
+    const [isCacheOpen, setIsCacheOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [stats, setStats] = useState<SearchCacheStats | null>(null);
+    const [sessions, setSessions] = useState<SearchSession[]>([]);
+    const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const loadStats = useCallback(async () => {
+        setStats(await getCacheStats());
+    }, []);
+
+    const loadSessions = useCallback(async () => {
+        try {
+            setSessions(await getSearchSessions(SESSION_LIMIT));
+        } catch (error) {
+            log.error('Failed to load search sessions', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isCacheOpen) loadStats();
+    }, [isCacheOpen, loadStats]);
+
+    useEffect(() => {
+        if (isHistoryOpen) loadSessions();
+    }, [isHistoryOpen, loadSessions]);
+
+    const handleClearCache = async () => {
+        setIsClearing(true);
+        try {
+            await clearSearchCache();
+            await loadStats();
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    const handleDeleteSession = async (id: string) => {
+        try {
+            await deleteSearchSession(id);
+            setSessions((prev) => prev.filter((session) => session.id !== id));
+        } catch (error) {
+            log.error('Failed to delete search session', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    };
+
+    const handleClearHistory = async () => {
+        try {
+            await clearSearchSessions();
+            setSessions([]);
+            setOpenSessionId(null);
+        } catch (error) {
+            log.error('Failed to clear search history', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    };
+
+    return (
+        <>
+            {/* Cache Accordion */}
+            <div className="settings-item" style={{ display: 'block', padding: 0 }}>
+                <button
+                    type="button"
+                    onClick={() => setIsCacheOpen(!isCacheOpen)}
+                    aria-expanded={isCacheOpen}
+                    aria-label="Toggle search cache section"
+                    className="settings-item-header-button"
+                >
+                    <div>
+                        <div className="settings-item-title">
+                            <Database
+                                size={14}
+                                style={{
+                                    display: 'inline',
+                                    marginRight: '6px',
+                                    verticalAlign: 'text-bottom',
+                                }}
+                            />
+                            Cache
+                        </div>
+                        <div className="settings-item-description">
+                            {settings.cacheEnabled
+                                ? `${TTL_OPTIONS.find((o) => o.value === settings.cacheTtlMinutes)?.label ?? `${settings.cacheTtlMinutes} minutes`} • up to ${settings.cacheMaxSizeMB} MB`
+                                : 'Disabled'}
+                        </div>
+                    </div>
+                    {isCacheOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+
+                {isCacheOpen && (
+                    <div className="search-cache-panel">
+                        <div className="search-cache-row">
+                            <div>
+                                <div className="settings-item-title">Cache Results</div>
+                                <div className="settings-item-description">
+                                    Reuse recent search results and retrieved pages
+                                </div>
+                            </div>
+                            <Toggle
+                                checked={settings.cacheEnabled}
+                                onChange={(checked) => onUpdateSettings({ cacheEnabled: checked })}
+                            />
+                        </div>
+
+                        {settings.cacheEnabled && (
+                            <div className="search-cache-fields">
+                                <label className="settings-item-description" htmlFor="search-cache-ttl">
+                                    Keep results for
+                                </label>
+                                <select
+                                    id="search-cache-ttl"
+                                    className="settings-select"
+                                    value={settings.cacheTtlMinutes}
+                                    onChange={(e) =>
+                                        onUpdateSettings({ cacheTtlMinutes: Number(e.target.value) })
+                                    }
+                                >
+                                    {TTL_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <label className="settings-item-description" htmlFor="search-cache-size">
+                                    Size limit
+                                </label>
+                                <select
+                                    id="search-cache-size"
+                                    className="settings-select"
+                                    value={settings.cacheMaxSizeMB}
+                                    onChange={(e) =>
+                                        onUpdateSettings({ cacheMaxSizeMB: Number(e.target.value) })
+                                    }
+                                >
+                                    {SIZE_OPTIONS.map((size) => (
+                                        <option key={size} value={size}>
+                                            {size} MB
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        <div className="search-cache-row">
+                            <div className="settings-item-description">
+                                {stats
+                                    ? `${stats.searchEntryCount} searches • ${stats.retrieveEntryCount} pages • ${formatBytes(stats.totalSize)} • ${stats.totalHits} hits`
+                                    : 'Loading…'}
+                            </div>
+                            <button
+                                type="button"
+                                className="settings-button danger"
+                                onClick={handleClearCache}
+                                disabled={isClearing || !stats || stats.entryCount === 0}
+                            >
+                                <Trash2 size={14} style={{ marginRight: 4 }} />
+                                {isClearing ? 'Clearing...' : 'Clear Cache'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* History Accordion */}
+            <div className="settings-item" style={{ display: 'block', padding: 0 }}>
+                <button
+                    type="button"
+                    onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                    aria-expanded={isHistoryOpen}
+                    aria-label="Toggle search history section"
+                    className="settings-item-header-button"
+                >
+                    <div>
+                        <div className="settings-item-title">
+                            <History
+                                size={14}
+                                style={{
+                                    display: 'inline',
+                                    marginRight: '6px',
+                                    verticalAlign: 'text-bottom',
+                                }}
+                            />
+                            Search History
+                        </div>
+                        <div className="settings-item-description">
+                            Reopen past searches and their sources
+                        </div>
+                    </div>
+                    {isHistoryOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+
+                {isHistoryOpen && (
+                    <div className="search-cache-panel">
+                        {sessions.length === 0 ? (
+                            <div className="settings-item-description">No searches yet</div>
+                        ) : (
+                            <>
+                                <ul className="search-session-list">
+                                    {sessions.map((session) => {
+                                        const isOpen = openSessionId === session.id;
+                                        return (
+                                            <li key={session.id} className="search-session">
+                                                <div className="search-session-header">
+                                                    <button
+                                                        type="button"
+                                                        className="search-session-toggle"
+                                                        onClick={() => setOpenSessionId(isOpen ? null : session.id)}
+                                                        aria-expanded={isOpen}
+                                                    >
+                                                        <span className="search-session-query">
+                                                            {session.queries.join(' | ')}
+                                                        </span>
+                                                        <span className="settings-item-description">
+                                                            {new Date(session.createdAt).toLocaleString()} •{' '}
+                                                            {session.results.results.length} results •{' '}
+                                                            {session.kind === 'deep-search' ? 'deep search' : session.provider}
+                                                            {session.fromCache ? ' • cached' : ''}
+                                                        </span>
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        className="search-session-delete"
+                                                        onClick={() => handleDeleteSession(session.id)}
+                                                        aria-label="Delete search from history"
+                                                    >
+                                                        <X size={12} />
+                                                    </button>
+                                                </div>
+                                                {isOpen && (
+                                                    <CitationList
+                                                        sources={toCitationSources(session)}
+                                                        defaultCollapsed={false}
+                                                    />
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                                <button
+                                    type="button"
+                                    className="settings-button"
+                                    onClick={handleClearHistory}
+                                >
+                                    <Trash2 size={14} style={{ marginRight: 4 }} />
+                                    Clear History
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default SearchCacheSettings;
@@ -20,17 +20,23 @@ import {
     type SearchApiKeys,
 } from '@/utils/settings/searchSettings';
 import { Toggle } from '@/components/shared/inputs/Toggle';
+import { SearchCacheSettings } from './SearchCacheSettings';
+import { createSearchProvider } from '@/search/providers';
+import { getSearchErrorMessage } from '@/search/errors';
+import type { SearchProviderType } from '@/search/types';
 
 const log = createLogger('SearchSettingsSection', 'SETTINGS');
 
 /** Provider configuration with signup URLs and key validation */
 interface ProviderConfig {
-    id: 'tavily';
+    id: SearchProviderType;
     name: string;
     signupUrl: string;
     placeholder: string;
     keyPrefix: string;
     description: string;
+    /** SearXNG is self-hosted and only needs an instance URL */
+    requiresApiKey: boolean;
 }
 
 const PROVIDERS: ProviderConfig[] = [
@@ -41,6 +47,43 @@ const PROVIDERS: ProviderConfig[] = [
         placeholder: 'tvly-...',
         keyPrefix: 'tvly-',
         description: 'AI-optimized search API. 1000 free searches/month.',
+        requiresApiKey: true,
+    },
+    {
+        id: 'brave',
+        name: 'Brave Search',
+        signupUrl: 'https://brave.com/search/api/',
+        placeholder: 'BSA...',
+        keyPrefix: 'BSA',
+        description: 'Independent web index. Free tier with 2000 queries/month.',
+        requiresApiKey: true,
+    },
+    {
+        id: 'searxng',
+        name: 'SearXNG',
+        signupUrl: 'https://docs.searxng.org/admin/installation.html',
+        placeholder: 'Optional bearer token',
+        keyPrefix: '',
+        description: 'Self-hosted metasearch. Requires the JSON format enabled on your instance.',
+        requiresApiKey: false,
+    },
+    {
+        id: 'exa',
+        name: 'Exa',
+        signupUrl: 'https://dashboard.exa.ai',
+        placeholder: 'exa-...',
+        keyPrefix: '',
+        description: 'Neural search built for LLMs. Returns page text with results.',
+        requiresApiKey: true,
+    },
+    {
+        id: 'serper',
+        name: 'Serper',
+        signupUrl: 'https://serper.dev',
+        placeholder: 'Serper API key',
+        keyPrefix: '',
+        description: 'Google search results API. 2500 free queries on signup.',
+        requiresApiKey: true,
     },
 ];
 
@@ -51,6 +94,18 @@ interface TestResult {
     message: string;
 }
 
+/** Whether a provider has what it needs to run a search */
+function isProviderConfigured(
+    provider: SearchProviderType,
+    settings: SearchSettings,
+    apiKeys: SearchApiKeys
+): boolean {
+    if (provider === 'searxng') {
+        return settings.searxngBaseUrl.trim().length > 0;
+    }
+    return Boolean(apiKeys[provider]?.trim());
+}
+
 export const SearchSettingsSection: React.FC = () => {
     const [settings, setSettings] = useState<SearchSettings>(DEFAULT_SEARCH_SETTINGS);
     const [apiKeys, setApiKeys] = useState<SearchApiKeys>({});
@@ -121,15 +176,14 @@ export const SearchSettingsSection: React.FC = () => {
     );
 
 
-    // Test API key connection
+    // Test API key connection with a minimal real search
     const testConnection = useCallback(
         async (provider: ProviderConfig) => {
-            const key = apiKeys[provider.id];
-            if (!key) {
+            if (!isProviderConfigured(provider.id, settings, apiKeys)) {
                 setTestResult({
                     provider: provider.id,
                     success: false,
-                    message: 'No API key entered',
+                    message: provider.requiresApiKey ? 'No API key entered' : 'No instance URL entered',
                 });
                 return;
             }
@@ -138,46 +192,49 @@ export const SearchSettingsSection: React.FC = () => {
             setTestResult(null);
 
             try {
-                const response = await fetch('https://api.tavily.com/search', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        api_key: key,
-                        query: 'test',
-                        max_results: 1,
-                        search_depth: 'basic',
-                    }),
+                const searchProvider = createSearchProvider(provider.id, apiKeys[provider.id] ?? '', {
+                    baseUrl: settings.searxngBaseUrl,
+                });
+                await searchProvider.search('test query', 1, 'basic', [], []);
+                setTestResult({
+                    provider: provider.id,
+                    success: true,
+                    message: 'Connection successful!',
                 });
-
-                if (response.ok) {
-                    setTestResult({
-                        provider: provider.id,
-                        success: true,
-                        message: 'Connection successful!',
-                    });
-                } else {
-                    setTestResult({
-                        provider: provider.id,
-                        success: false,
-                        message:
-                            response.status === 401
-                                ? 'Invalid API key'
-                                : `Error: ${response.status}`,
-                    });
-                }
             } catch (error) {
                 setTestResult({
                     provider: provider.id,
                     success: false,
-                    message: 'Connection failed. Check your network.',
+                    message: getSearchErrorMessage(error),
                 });
             } finally {
                 setIsTesting(false);
             }
         },
-        [apiKeys]
+        [apiKeys, settings]
     );
 
+    const handleDefaultProviderChange = (provider: SearchProviderType) => {
+        updateSettings({
+            defaultProvider: provider,
+            fallbackProviders: settings.fallbackProviders.filter((p) => p !== provider),
+        });
+    };
+
+    const toggleFallbackProvider = (provider: SearchProviderType, enabled: boolean) => {
+        const fallbackProviders = enabled
+            ? [...settings.fallbackProviders.filter((p) => p !== provider), provider]
+            : settings.fallbackProviders.filter((p) => p !== provider);
+        updateSettings({ fallbackProviders });
+    };
+
+    const configuredCount = PROVIDERS.filter((provider) =>
+        isProviderConfigured(provider.id, settings, apiKeys)
+    ).length;
+    const defaultProviderName =
+        PROVIDERS.find((provider) => provider.id === settings.defaultProvider)?.name ??
+        settings.defaultProvider;
+
     const handleOptionsToggle = () => {
         setIsOptionsOpen(!isOptionsOpen);
     };
@@ -268,7 +325,11 @@ export const SearchSettingsSection: React.FC = () => {
                                 <div>
                                     <div className="settings-item-title">Search Options</div>
                                     <div className="settings-item-description">
-                                        {settings.defaultSearchDepth} • {settings.maxResults}{' '}
+                                        {defaultProviderName}
+                                        {settings.fallbackProviders.length > 0
+                                            ? ` (+${settings.fallbackProviders.length} fallback)`
+                                            : ''}{' '}
+                                        • {settings.defaultSearchDepth} • {settings.maxResults}{' '}
                                         results
                                         {settings.includeImages ? ' • images' : ''}
                                     </div>
@@ -287,6 +348,95 @@ export const SearchSettingsSection: React.FC = () => {
                                         borderTop: '1px solid var(--border-color)',
                                     }}
                                 >
+                                    {/* Search Provider */}
+                                    <div style={{ marginBottom: '12px' }}>
+                                        <label
+                                            className="settings-item-title"
+                                            style={{
+                                                display: 'block',
+                                                marginBottom: '6px',
+                                            }}
+                                            htmlFor="search-provider-select"
+                                        >
+                                            Search Provider
+                                        </label>
+                                        <select
+                                            id="search-provider-select"
+                                            className="settings-select"
+                                            value={settings.defaultProvider}
+                                            onChange={(e) =>
+                                                handleDefaultProviderChange(
+                                                    e.target.value as SearchProviderType
+                                                )
+                                            }
+                                            style={{ width: '100%' }}
+                                        >
+                                            {PROVIDERS.map((provider) => (
+                                                <option key={provider.id} value={provider.id}>
+                                                    {provider.name}
+                                                    {isProviderConfigured(provider.id, settings, apiKeys)
+                                                        ? ''
+                                                        : ' (not configured)'}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+
+                                    {/* Fallback Providers */}
+                                    <div style={{ marginBottom: '12px' }}>
+                                        <div
+                                            className="settings-item-title"
+                                            style={{ marginBottom: '2px' }}
+                                        >
+                                            Fallback Providers
+                                        </div>
+                                        <div
+                                            className="settings-item-description"
+                                            style={{ marginBottom: '6px' }}
+                                        >
+                                            Tried in order when the search provider errors or is
+                                            rate-limited
+                                        </div>
+                                        {PROVIDERS.filter(
+                                            (provider) => provider.id !== settings.defaultProvider
+                                        ).map((provider) => {
+                                            const position = settings.fallbackProviders.indexOf(
+                                                provider.id
+                                            );
+                                            const configured = isProviderConfigured(
+                                                provider.id,
+                                                settings,
+                                                apiKeys
+                                            );
+                                            return (
+                                                <div
+                                                    key={provider.id}
+                                                    style={{
+                                                        display: 'flex',
+                                                        justifyContent: 'space-between',
+                                                        alignItems: 'center',
+                                                        padding: '4px 0',
+                                                    }}
+                                                >
+                                                    <div className="settings-item-description">
+                                                        {position >= 0 ? `${position + 1}. ` : ''}
+                                                        {provider.name}
+                                                        {configured ? '' : ' (not configured)'}
+                                                    </div>
+                                                    <Toggle
+                                                        checked={position >= 0}
+                                                        onChange={(checked) =>
+                                                            toggleFallbackProvider(
+                                                                provider.id,
+                                                                checked
+                                                            )
+                                                        }
+                                                    />
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+
                                     {/* Search Depth */}
                                     <div style={{ marginBottom: '12px' }}>
                                         <label
@@ -401,10 +551,12 @@ export const SearchSettingsSection: React.FC = () => {
                                                 verticalAlign: 'text-bottom',
                                             }}
                                         />
-                                        API Key
+                                        API Keys
                                     </div>
                                     <div className="settings-item-description">
-                                        {apiKeys.tavily ? 'Configured ✓' : 'Not configured'}
+                                        {configuredCount > 0
+                                            ? `${configuredCount} provider${configuredCount === 1 ? '' : 's'} configured ✓`
+                                            : 'Not configured'}
                                     </div>
                                 </div>
                                 {isApiKeysOpen ? (
@@ -433,9 +585,14 @@ export const SearchSettingsSection: React.FC = () => {
                                             >
                                                 <label
                                                     className="settings-item-title"
-                                                    htmlFor={`api-key-${provider.id}`}
+                                                    htmlFor={
+                                                        provider.requiresApiKey
+                                                            ? `api-key-${provider.id}`
+                                                            : 'searxng-base-url'
+                                                    }
                                                 >
-                                                    {provider.name} API Key
+                                                    {provider.name}{' '}
+                                                    {provider.requiresApiKey ? 'API Key' : 'Instance'}
                                                 </label>
                                                 <a
                                                     href={provider.signupUrl}
@@ -449,7 +606,8 @@ export const SearchSettingsSection: React.FC = () => {
                                                         gap: '4px',
                                                     }}
                                                 >
-                                                    Get API key <ExternalLink size={10} />
+                                                    {provider.requiresApiKey ? 'Get API key' : 'Setup guide'}{' '}
+                                                    <ExternalLink size={10} />
                                                 </a>
                                             </div>
                                             <div
@@ -458,12 +616,29 @@ export const SearchSettingsSection: React.FC = () => {
                                             >
                                                 {provider.description}
                                             </div>
+                                            {!provider.requiresApiKey && (
+                                                <input
+                                                    id="searxng-base-url"
+                                                    type="url"
+                                                    className="settings-input"
+                                                    placeholder="https://searx.example.com"
+                                                    value={settings.searxngBaseUrl}
+                                                    onChange={(e) => {
+                                                        setTestResult(null);
+                                                        updateSettings({
+                                                            searxngBaseUrl: e.target.value,
+                                                        });
+                                                    }}
+                                                    style={{ width: '100%', marginBottom: '6px' }}
+                                                />
+                                            )}
                                             <div style={{ display: 'flex', gap: '8px' }}>
                                                 <input
                                                     id={`api-key-${provider.id}`}
                                                     type="password"
                                                     className="settings-input"
                                                     placeholder={provider.placeholder}
+                                                    aria-label={`${provider.name} API key`}
                                                     value={apiKeys[provider.id] || ''}
                                                     onChange={(e) =>
                                                         updateApiKey(provider.id, e.target.value)
@@ -473,7 +648,14 @@ export const SearchSettingsSection: React.FC = () => {
                                                 <button
                                                     type="button"
                                                     onClick={() => testConnection(provider)}
-                                                    disabled={isTesting || !apiKeys[provider.id]}
+                                                    disabled={
+                                                        isTesting ||
+                                                        !isProviderConfigured(
+                                                            provider.id,
+                                                            settings,
+                                                            apiKeys
+                                                        )
+                                                    }
                                                     className="settings-button"
                                                     aria-label={`Test ${provider.name} API key`}
                                                 >
@@ -523,6 +705,11 @@ export const SearchSettingsSection: React.FC = () => {
                                 </div>
                             )}
                         </div>
+
+                        <SearchCacheSettings
+                            settings={settings}
+                            onUpdateSettings={updateSettings}
+                        />
                     </>
                 )}
             </div>
@@ -0,0 +1,394 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowRightLeft, DatabaseBackup, Download, Pencil, Plus, Save, Trash2, Upload } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    createSettingsBackup,
+    createSettingsProfile,
+    deleteSettingsProfile,
+    getSettingsEntry,
+    getSettingsProfiles,
+    getUntrustedAutomationSettings,
+    parseSettingsBackup,
+    renameSettingsProfile,
+    restoreSettingsBackup,
+    switchSettingsProfile,
+    updateSettingsProfileFromCurrent,
+    DEFAULT_SETTINGS_PROFILES_STATE,
+    MAX_SETTINGS_PROFILE_NAME_LENGTH,
+    SETTINGS_PROFILES_STORAGE_KEY,
+    SETTINGS_REGISTRY,
+    type SettingsBackupPreview,
+    type SettingsEntryId,
+    type SettingsProfile,
+    type SettingsProfilesState,
+} from '@/utils/settingsBackup';
+import { downloadTextFile } from '@/utils/files';
+import { Toggle } from '@/components/shared/inputs/Toggle';
+
+const log = createLogger('SettingsBackupSettings');
+
+const PROFILE_SECTIONS = SETTINGS_REGISTRY.filter(entry => entry.profile).map(entry => entry.label).join(', ');
+
+const SIGNED_BY_LABELS: Record<SettingsBackupPreview['signedBy'], string> = {
+    'this-browser': 'Made by this browser',
+    'other-browser': 'Not made by this browser',
+    'unsigned': 'Not made by this browser (unsigned)',
+};
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+function toErrorMessage(err: unknown, fallback: string): string {
+    return err instanceof Error ? err.message : fallback;
+}
+
+export const SettingsBackupSettings: React.FC = () => {
+    const [state, setState] = useState<SettingsProfilesState>(DEFAULT_SETTINGS_PROFILES_STATE);
+    const [newProfileName, setNewProfileName] = useState('');
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [includeSecrets, setIncludeSecrets] = useState(false);
+    const [preview, setPreview] = useState<SettingsBackupPreview | null>(null);
+    const [selectedEntries, setSelectedEntries] = useState<SettingsEntryId[]>([]);
+    const [automationConfirmed, setAutomationConfirmed] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setState(await getSettingsProfiles());
+        } catch (err) {
+            log.error('Failed to load settings profiles', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[SETTINGS_PROFILES_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, [refresh]);
+
+    /** Run a profile or backup action, reporting its result in the status line */
+    const run = async (action: () => Promise<string>, failure: string) => {
+        setIsBusy(true);
+        try {
+            setStatus({ message: await action(), isError: false });
+        } catch (err) {
+            const message = toErrorMessage(err, failure);
+            log.error(failure, message);
+            setStatus({ message, isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreateProfile = () => run(async () => {
+        const updated = await createSettingsProfile(newProfileName);
+        setState(updated);
+        setNewProfileName('');
+        return `Saved current settings as "${newProfileName.trim()}"`;
+    }, 'Failed to create profile');
+
+    const handleSwitch = (profile: SettingsProfile) => run(async () => {
+        setState(await switchSettingsProfile(profile.id));
+        return `Switched to ${profile.name}`;
+    }, 'Failed to switch profile');
+
+    const handleUpdate = (profile: SettingsProfile) => run(async () => {
+        setState(await updateSettingsProfileFromCurrent(profile.id));
+        return `Updated ${profile.name} with the current settings`;
+    }, 'Failed to update profile');
+
+    const handleRename = () => {
+        if (!renaming) return;
+        const { id, name } = renaming;
+        return run(async () => {
+            setState(await renameSettingsProfile(id, name));
+            setRenaming(null);
+            return 'Profile renamed';
+        }, 'Failed to rename profile');
+    };
+
+    const handleDelete = async (profile: SettingsProfile) => {
+        if (pendingDeleteId !== profile.id) {
+            setPendingDeleteId(profile.id);
+            return;
+        }
+        setPendingDeleteId(null);
+        await run(async () => {
+            setState(await deleteSettingsProfile(profile.id));
+            return `Deleted ${profile.name}`;
+        }, 'Failed to delete profile');
+    };
+
+    const handleExport = () => run(async () => {
+        const backup = await createSettingsBackup({ includeSecrets });
+        const date = new Date().toISOString().slice(0, 10);
+        downloadTextFile(backup, `settings-backup-${date}.json`, 'application/json');
+        return includeSecrets ? 'Exported settings with API keys' : 'Exported settings without API keys';
+    }, 'Export failed');
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+
+        await run(async () => {
+            const parsed = await parseSettingsBackup(await file.text());
+            setPreview(parsed);
+            setSelectedEntries(parsed.entryIds);
+            setAutomationConfirmed(false);
+            return `Loaded ${file.name}; choose what to restore`;
+        }, 'Import failed');
+    };
+
+    const toggleEntry = (id: SettingsEntryId) => {
+        setSelectedEntries(prev => prev.includes(id) ? prev.filter(entryId => entryId !== id) : [...prev, id]);
+    };
+
+    const untrustedAutomation = preview ? getUntrustedAutomationSettings(preview, selectedEntries) : [];
+
+    const handleRestore = () => {
+        if (!preview) return;
+        return run(async () => {
+            const restored = await restoreSettingsBackup(preview, selectedEntries, { confirmedAutomation: automationConfirmed });
+            setPreview(null);
+            await refresh();
+            return `Restored ${restored.length} section${restored.length === 1 ? '' : 's'}`;
+        }, 'Restore failed');
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <DatabaseBackup size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Profiles & Backup
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Profiles</div>
+                        <div className="settings-item-description">Switches together: {PROFILE_SECTIONS}</div>
+                    </div>
+                </div>
+
+                {state.profiles.map(profile => {
+                    const isActive = state.activeProfileId === profile.id;
+                    return (
+                        <div key={profile.id} className="settings-item workflow-list-item">
+                            <div className="settings-item-content">
+                                {renaming?.id === profile.id ? (
+                                    <input
+                                        className="settings-input"
+                                        value={renaming.name}
+                                        maxLength={MAX_SETTINGS_PROFILE_NAME_LENGTH}
+                                        autoFocus
+                                        onChange={(e) => setRenaming({ id: profile.id, name: e.target.value })}
+                                        onBlur={handleRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') handleRename();
+                                            if (e.key === 'Escape') setRenaming(null);
+                                        }}
+                                    />
+                                ) : (
+                                    <div className="settings-item-title">{profile.name}{isActive ? ' (active)' : ''}</div>
+                                )}
+                                <div className="settings-item-description">Updated {formatDate(profile.updatedAt)}</div>
+                            </div>
+                            <div className="workflow-list-actions">
+                                {!isActive && (
+                                    <button
+                                        type="button"
+                                        className="workflow-list-action"
+                                        onClick={() => handleSwitch(profile)}
+                                        disabled={isBusy}
+                                        aria-label={`Switch to ${profile.name}`}
+                                    >
+                                        <ArrowRightLeft size={14} />
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    className="workflow-list-action"
+                                    onClick={() => handleUpdate(profile)}
+                                    disabled={isBusy}
+                                    aria-label={`Save current settings to ${profile.name}`}
+                                    title="Save current settings to this profile"
+                                >
+                                    <Save size={14} />
+                                </button>
+                                <button
+                                    type="button"
+                                    className="workflow-list-action"
+                                    onClick={() => setRenaming({ id: profile.id, name: profile.name })}
+                                    aria-label={`Rename ${profile.name}`}
+                                >
+                                    <Pencil size={14} />
+                                </button>
+                                <button
+                                    type="button"
+                                    className={`workflow-list-action danger ${pendingDeleteId === profile.id ? 'confirm' : ''}`}
+                                    onClick={() => handleDelete(profile)}
+                                    onBlur={() => setPendingDeleteId(null)}
+                                    aria-label={pendingDeleteId === profile.id ? `Confirm delete ${profile.name}` : `Delete ${profile.name}`}
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="workflow-editor">
+                        <div className="workflow-editor-row">
+                            <label className="workflow-editor-field">
+                                New Profile
+                                <input
+                                    className="settings-input"
+                                    value={newProfileName}
+                                    maxLength={MAX_SETTINGS_PROFILE_NAME_LENGTH}
+                                    placeholder="Work"
+                                    onChange={(e) => setNewProfileName(e.target.value)}
+                                />
+                            </label>
+                        </div>
+                        <div className="workflow-editor-hint">
+                            Saves the current settings. Switching profiles keeps your changes in the one you leave.
+                        </div>
+                        <div className="workflow-editor-actions">
+                            <button
+                                type="button"
+                                className="settings-button primary"
+                                onClick={handleCreateProfile}
+                                disabled={isBusy || !newProfileName.trim()}
+                            >
+                                <Plus size={14} style={{ marginRight: 4 }} />
+                                Save Current as Profile
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Include API Keys in Export</div>
+                        <div className="settings-item-description">
+                            Adds provider keys, search keys and MCP header values. Keep such files private.
+                        </div>
+                    </div>
+                    <Toggle checked={includeSecrets} onChange={setIncludeSecrets} />
+                </div>
+
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Backup</div>
+                        <div
+                            className="settings-item-description"
+                            style={status?.isError ? { color: 'var(--color-error)' } : undefined}
+                        >
+                            {status?.message ?? 'Export all settings to a signed file, or restore one'}
+                        </div>
+                    </div>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        style={{ display: 'none' }}
+                        onChange={handleImportFile}
+                    />
+                    <div className="workflow-list-actions">
+                        <button
+                            type="button"
+                            className="workflow-list-action"
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={isBusy}
+                            aria-label="Import settings"
+                        >
+                            <Upload size={14} />
+                        </button>
+                        <button
+                            type="button"
+                            className="workflow-list-action"
+                            onClick={handleExport}
+                            disabled={isBusy}
+                            aria-label="Export settings"
+                        >
+                            <Download size={14} />
+                        </button>
+                    </div>
+                </div>
+
+                {preview && (
+                    <div className="settings-item" style={{ display: 'block' }}>
+                        <div className="workflow-editor">
+                            <div className="workflow-editor-hint">
+                                {SIGNED_BY_LABELS[preview.signedBy]}
+                                {preview.exportedAt ? ` • Exported ${formatDate(preview.exportedAt)}` : ''}
+                                {preview.includesSecrets ? ' • Includes API keys' : ' • Current API keys are kept'}
+                            </div>
+                            <div className="workflow-editor-field">
+                                <span>Restore</span>
+                                <div className="workflow-editor-tools">
+                                    {preview.entryIds.map(id => (
+                                        <label key={id} className="workflow-editor-tool" title={getSettingsEntry(id)?.description}>
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedEntries.includes(id)}
+                                                onChange={() => toggleEntry(id)}
+                                            />
+                                            <span className="workflow-editor-tool-name">{getSettingsEntry(id)?.label ?? id}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            {preview.warnings.map(warning => (
+                                <div key={warning} className="workflow-editor-error">{warning}</div>
+                            ))}
+                            <div className="workflow-editor-hint">
+                                Restored sections replace your current settings in those sections.
+                            </div>
+                            {untrustedAutomation.length > 0 && (
+                                <>
+                                    <div className="workflow-editor-error">
+                                        This file includes {untrustedAutomation.join(', ')}, which can run tools and reach other services on your behalf. Only restore them if you know where the file came from.
+                                    </div>
+                                    <Toggle
+                                        label="Restore them anyway"
+                                        checked={automationConfirmed}
+                                        onChange={setAutomationConfirmed}
+                                    />
+                                </>
+                            )}
+                            <div className="workflow-editor-actions">
+                                <button type="button" className="settings-button" onClick={() => setPreview(null)}>
+                                    Cancel
+                                </button>
+                                <button
+                                    type="button"
+                                    className="settings-button primary"
+                                    onClick={handleRestore}
+                                    disabled={isBusy || selectedEntries.length === 0 || (untrustedAutomation.length > 0 && !automationConfirmed)}
+                                >
+                                    Restore
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SettingsBackupSettings;
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createLogger } from '~logger';
+import { getToolNames, AGENT_TOOL_NAMES } from '@/ai/tools';
+import { listMCPToolDefinitions } from '@/ai/mcp/proxy';
+import {
+    saveCustomSiteProfile,
+    toSiteProfileId,
+    DEFAULT_CUSTOM_PROFILE_PRIORITY,
+} from '@/ai/prompts/website';
+import type { WebsiteConfig } from '@/ai/prompts/website';
+
+const log = createLogger('SiteProfileEditor');
+
+interface ToolOption {
+    name: string;
+    group: 'Browser' | 'Agents' | 'MCP';
+    detail?: string;
+}
+
+const EMPTY_PROFILE: WebsiteConfig = {
+    id: '',
+    name: '',
+    urlPatterns: [],
+    allowedTools: [],
+    promptAddition: '',
+    priority: DEFAULT_CUSTOM_PROFILE_PRIORITY,
+};
+
+interface SiteProfileEditorProps {
+    /** Profile being edited; omit to create a new one */
+    profile?: WebsiteConfig;
+    /** Starting values for a new profile, e.g. a copy of a built-in one */
+    template?: WebsiteConfig;
+    onSaved: (profile: WebsiteConfig) => void;
+    onCancel: () => void;
+}
+
+export const SiteProfileEditor: React.FC<SiteProfileEditorProps> = ({ profile, template, onSaved, onCancel }) => {
+    const [form, setForm] = useState<WebsiteConfig>(profile ?? template ?? EMPTY_PROFILE);
+    const [idEdited, setIdEdited] = useState(!!profile);
+    const [patternsText, setPatternsText] = useState((profile ?? template)?.urlPatterns.join('\n') ?? '');
+    const [toolOptions, setToolOptions] = useState<ToolOption[]>([]);
+    const [toolFilter, setToolFilter] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const loadTools = async () => {
+            const options: ToolOption[] = [
+                ...getToolNames().sort().map(name => ({ name, group: 'Browser' as const })),
+                ...AGENT_TOOL_NAMES.map(name => ({ name, group: 'Agents' as const })),
+            ];
+            const mcpTools = await listMCPToolDefinitions();
+            options.push(...mcpTools.map(tool => ({ name: tool.name, group: 'MCP' as const, detail: tool.serverName })));
+            setToolOptions(options);
+        };
+        loadTools().catch(err => log.error('Failed to load tools', err));
+    }, []);
+
+    const visibleTools = useMemo(() => {
+        const query = toolFilter.toLowerCase();
+        // Keep selected tools visible even if the server that provides them is offline
+        const known = new Set(toolOptions.map(tool => tool.name));
+        const missing: ToolOption[] = form.allowedTools
+            .filter(name => !known.has(name))
+            .map(name => ({ name, group: 'MCP', detail: 'unavailable' }));
+        return [...toolOptions, ...missing].filter(tool => tool.name.toLowerCase().includes(query));
+    }, [toolOptions, toolFilter, form.allowedTools]);
+
+    const update = (updates: Partial<WebsiteConfig>) => {
+        setForm(prev => ({ ...prev, ...updates }));
+        setError(null);
+    };
+
+    const toggleTool = (name: string) => {
+        update({
+            allowedTools: form.allowedTools.includes(name)
+                ? form.allowedTools.filter(t => t !== name)
+                : [...form.allowedTools, name],
+        });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const urlPatterns = patternsText.split('\n').map(pattern => pattern.trim()).filter(Boolean);
+            const saved = await saveCustomSiteProfile({ ...form, urlPatterns }, profile?.id);
+            onSaved(saved);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save profile');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <div className="workflow-editor-row">
+                <label className="workflow-editor-field">
+                    Name
+                    <input
+                        className="settings-input"
+                        value={form.name}
+                        placeholder="Internal wiki"
+                        onChange={(e) => update({
+                            name: e.target.value,
+                            ...(idEdited ? {} : { id: toSiteProfileId(e.target.value) }),
+                        })}
+                    />
+                </label>
+                <label className="workflow-editor-field">
+                    Id
+                    <input
+                        className="settings-input"
+                        value={form.id}
+                        placeholder="internal-wiki"
+                        onChange={(e) => {
+                            setIdEdited(true);
+                            update({ id: e.target.value.toLowerCase() });
+                        }}
+                    />
+                </label>
+            </div>
+
+            <label className="workflow-editor-field">
+                URL patterns (one per line)
+                <textarea
+                    className="settings-input"
+                    value={patternsText}
+                    rows={3}
+                    placeholder={'wiki.example.com\n*.atlassian.net/wiki/*'}
+                    spellCheck={false}
+                    onChange={(e) => {
+                        setPatternsText(e.target.value);
+                        setError(null);
+                    }}
+                />
+                <span className="workflow-editor-hint">
+                    A pattern matches when the page URL contains it; use * as a wildcard.
+                </span>
+            </label>
+
+            <label className="workflow-editor-field">
+                Extra instructions
+                <textarea
+                    className="settings-input workflow-editor-prompt"
+                    value={form.promptAddition}
+                    rows={6}
+                    placeholder="On this site, pages are organized as..."
+                    onChange={(e) => update({ promptAddition: e.target.value })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                Priority
+                <input
+                    type="number"
+                    className="settings-input"
+                    value={form.priority ?? DEFAULT_CUSTOM_PROFILE_PRIORITY}
+                    onChange={(e) => update({ priority: Number(e.target.value) })}
+                />
+                <span className="workflow-editor-hint">
+                    When several profiles match, the highest priority wins. Built-in profiles use 10.
+                </span>
+            </label>
+
+            <div className="workflow-editor-field">
+                <span>
+                    Allowed tools ({form.allowedTools.length > 0 ? `${form.allowedTools.length} selected` : 'all tools'})
+                </span>
+                <input
+                    className="settings-input"
+                    value={toolFilter}
+                    placeholder="Filter tools"
+                    aria-label="Filter tools"
+                    onChange={(e) => setToolFilter(e.target.value)}
+                />
+                <div className="workflow-editor-tools">
+                    {visibleTools.map(tool => (
+                        <label key={`${tool.group}-${tool.name}`} className="workflow-editor-tool">
+                            <input
+                                type="checkbox"
+                                checked={form.allowedTools.includes(tool.name)}
+                                onChange={() => toggleTool(tool.name)}
+                            />
+                            <span className="workflow-editor-tool-name">{tool.name}</span>
+                            <span className="workflow-editor-tool-group">
+                                {tool.detail ? `${tool.group} · ${tool.detail}` : tool.group}
+                            </span>
+                        </label>
+                    ))}
+                </div>
+                <span className="workflow-editor-hint">
+                    Leave empty to keep every tool available and only add the instructions.
+                </span>
+            </div>
+
+            {error && <div className="workflow-editor-error">{error}</div>}
+
+            <div className="workflow-editor-actions">
+                <button type="button" className="settings-button" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </button>
+                <button type="button" className="settings-button primary" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save Profile'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SiteProfileEditor;
@@ -0,0 +1,245 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Globe, Plus, Pencil, Copy, Trash2, Download, Upload } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    builtInSiteProfiles,
+    getSiteProfileSettings,
+    deleteCustomSiteProfile,
+    setBuiltInSiteProfileEnabled,
+    exportSiteProfiles,
+    parseSiteProfilesJson,
+    importSiteProfiles,
+    DEFAULT_CUSTOM_PROFILE_PRIORITY,
+    DEFAULT_SITE_PROFILE_SETTINGS,
+} from '@/ai/prompts/website';
+import type { SiteProfileSettings, WebsiteConfig } from '@/ai/prompts/website';
+import { downloadTextFile } from '@/utils/files';
+import { Toggle } from '../../../shared/inputs/Toggle';
+import { SiteProfileEditor } from './SiteProfileEditor';
+
+const log = createLogger('SiteProfilesSettings');
+
+/** Editor state: closed, creating a profile (optionally from a template), or editing one */
+type EditorState =
+    | { mode: 'closed' }
+    | { mode: 'create'; template?: WebsiteConfig }
+    | { mode: 'edit'; profile: WebsiteConfig };
+
+function describeProfile(profile: WebsiteConfig): string {
+    const tools = profile.allowedTools.length > 0 ? `${profile.allowedTools.length} tools` : 'all tools';
+    return `${profile.urlPatterns.join(', ')} • ${tools}`;
+}
+
+export const SiteProfilesSettings: React.FC = () => {
+    const [settings, setSettings] = useState<SiteProfileSettings>(DEFAULT_SITE_PROFILE_SETTINGS);
+    const [editor, setEditor] = useState<EditorState>({ mode: 'closed' });
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setSettings(await getSiteProfileSettings());
+        } catch (err) {
+            log.error('Failed to load site profiles', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleSaved = async (profile: WebsiteConfig) => {
+        setEditor({ mode: 'closed' });
+        setStatus({ message: `Saved ${profile.name}`, isError: false });
+        await refresh();
+    };
+
+    const handleDuplicate = (profile: WebsiteConfig) => {
+        setEditor({
+            mode: 'create',
+            template: {
+                ...profile,
+                id: `${profile.id}-custom`,
+                name: `${profile.name} (custom)`,
+                promptAddition: profile.promptAddition.trim(),
+                priority: DEFAULT_CUSTOM_PROFILE_PRIORITY,
+            },
+        });
+    };
+
+    const handleDelete = async (id: string) => {
+        if (pendingDeleteId !== id) {
+            setPendingDeleteId(id);
+            return;
+        }
+        try {
+            await deleteCustomSiteProfile(id);
+            setPendingDeleteId(null);
+            if (editor.mode === 'edit' && editor.profile.id === id) {
+                setEditor({ mode: 'closed' });
+            }
+            await refresh();
+        } catch (err) {
+            log.error('Failed to delete site profile', err);
+        }
+    };
+
+    const handleToggleBuiltIn = async (id: string, enabled: boolean) => {
+        try {
+            await setBuiltInSiteProfileEnabled(id, enabled);
+            await refresh();
+        } catch (err) {
+            log.error('Failed to update built-in profile', err);
+        }
+    };
+
+    const handleExport = () => {
+        downloadTextFile(exportSiteProfiles(settings.customProfiles), 'site-profiles.json', 'application/json');
+        const count = settings.customProfiles.length;
+        setStatus({ message: `Exported ${count} profile${count === 1 ? '' : 's'}`, isError: false });
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+
+        try {
+            const profiles = parseSiteProfilesJson(await file.text());
+            const result = await importSiteProfiles(profiles);
+            const parts = [`Imported ${result.added} profile${result.added === 1 ? '' : 's'}`];
+            if (result.replaced) parts.push(`${result.replaced} replaced`);
+            setStatus({ message: parts.join(', '), isError: false });
+            await refresh();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Import failed';
+            log.error('Failed to import site profiles', message);
+            setStatus({ message, isError: true });
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <Globe size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Site Profiles
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Your Profiles</div>
+                        <div
+                            className="settings-item-description"
+                            style={{ color: status?.isError ? 'var(--color-error)' : undefined }}
+                        >
+                            {status?.message ?? 'Add instructions and tool limits for the sites you use'}
+                        </div>
+                    </div>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        style={{ display: 'none' }}
+                        onChange={handleImportFile}
+                    />
+                    <div className="workflow-list-actions">
+                        <button
+                            type="button"
+                            className="workflow-list-action"
+                            onClick={() => importInputRef.current?.click()}
+                            aria-label="Import profiles"
+                        >
+                            <Upload size={14} />
+                        </button>
+                        <button
+                            type="button"
+                            className="workflow-list-action"
+                            onClick={handleExport}
+                            disabled={settings.customProfiles.length === 0}
+                            aria-label="Export profiles"
+                        >
+                            <Download size={14} />
+                        </button>
+                        <button
+                            type="button"
+                            className="settings-button"
+                            onClick={() => setEditor({ mode: 'create' })}
+                            disabled={editor.mode !== 'closed'}
+                        >
+                            <Plus size={14} style={{ marginRight: 4 }} />
+                            New
+                        </button>
+                    </div>
+                </div>
+
+                {editor.mode !== 'closed' && (
+                    <div className="settings-item" style={{ display: 'block' }}>
+                        <SiteProfileEditor
+                            key={editor.mode === 'edit' ? editor.profile.id : editor.template?.id ?? 'new'}
+                            profile={editor.mode === 'edit' ? editor.profile : undefined}
+                            template={editor.mode === 'create' ? editor.template : undefined}
+                            onSaved={handleSaved}
+                            onCancel={() => setEditor({ mode: 'closed' })}
+                        />
+                    </div>
+                )}
+
+                {settings.customProfiles.map(profile => (
+                    <div key={profile.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{profile.name}</div>
+                            <div className="settings-item-description">{describeProfile(profile)}</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => setEditor({ mode: 'edit', profile })}
+                                aria-label={`Edit ${profile.name}`}
+                            >
+                                <Pencil size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteId === profile.id ? 'confirm' : ''}`}
+                                onClick={() => handleDelete(profile.id)}
+                                onBlur={() => setPendingDeleteId(null)}
+                                aria-label={pendingDeleteId === profile.id ? `Confirm delete ${profile.name}` : `Delete ${profile.name}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {builtInSiteProfiles.map(profile => (
+                    <div key={profile.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{profile.name}</div>
+                            <div className="settings-item-description">Built-in • {describeProfile(profile)}</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action"
+                                onClick={() => handleDuplicate(profile)}
+                                aria-label={`Duplicate ${profile.name}`}
+                            >
+                                <Copy size={14} />
+                            </button>
+                            <Toggle
+                                checked={!settings.disabledBuiltInIds.includes(profile.id)}
+                                onChange={(enabled) => handleToggleBuiltIn(profile.id, enabled)}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SiteProfilesSettings;
@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ShieldBan, Plus, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    addSiteRule,
+    getSiteRulesSettings,
+    normalizeSitePattern,
+    removeSiteRule,
+    saveSiteRulesSettings,
+    ALL_SITE_FEATURES,
+    DEFAULT_SITE_RULES_SETTINGS,
+    SENSITIVE_SITE_CATEGORIES,
+    SITE_FEATURES,
+    SITE_RULES_STORAGE_KEY,
+    type SensitiveSiteCategory,
+    type SiteFeature,
+    type SiteRule,
+    type SiteRuleAction,
+    type SiteRulesSettings as Settings,
+} from '@/utils/settings';
+import { Toggle } from '@/components/shared/inputs/Toggle';
+
+const log = createLogger('SiteRulesSettings');
+
+function describeFeatures(features: SiteFeature[]): string {
+    if (ALL_SITE_FEATURES.every(feature => features.includes(feature))) return 'All features';
+    return SITE_FEATURES.filter(feature => features.includes(feature.id)).map(feature => feature.label).join(', ');
+}
+
+export const SiteRulesSettings: React.FC = () => {
+    const [settings, setSettings] = useState<Settings>(DEFAULT_SITE_RULES_SETTINGS);
+    const [pattern, setPattern] = useState('');
+    const [action, setAction] = useState<SiteRuleAction>('block');
+    const [features, setFeatures] = useState<SiteFeature[]>(ALL_SITE_FEATURES);
+    const [error, setError] = useState<string | null>(null);
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setSettings(await getSiteRulesSettings());
+        } catch (err) {
+            log.error('Failed to load site rules', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+
+        // The side panel quick toggle and the Ask AI button menu add rules too
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[SITE_RULES_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, [refresh]);
+
+    const handleChange = async (updates: Partial<Settings>) => {
+        const newSettings = { ...settings, ...updates };
+        setSettings(newSettings);
+        await saveSiteRulesSettings(newSettings);
+    };
+
+    const handleToggleCategory = (category: SensitiveSiteCategory, blocked: boolean) => handleChange({
+        blockedCategories: blocked
+            ? [...settings.blockedCategories, category]
+            : settings.blockedCategories.filter(id => id !== category),
+    });
+
+    const handleToggleAllowListOnly = (feature: SiteFeature, enabled: boolean) => handleChange({
+        allowListOnly: enabled
+            ? [...settings.allowListOnly, feature]
+            : settings.allowListOnly.filter(id => id !== feature),
+    });
+
+    const toggleFeature = (feature: SiteFeature) => {
+        setFeatures(prev => prev.includes(feature)
+            ? prev.filter(id => id !== feature)
+            : [...prev, feature]);
+        setError(null);
+    };
+
+    const handleAddRule = async () => {
+        const normalized = normalizeSitePattern(pattern);
+        if (!normalized || normalized.replace(/[*.]/g, '') === '') {
+            setError('Enter a site such as example.com or *.example.com');
+            return;
+        }
+        if (features.length === 0) {
+            setError('Choose at least one feature');
+            return;
+        }
+        try {
+            setSettings(await addSiteRule({ pattern: normalized, action, features }));
+            setPattern('');
+            setFeatures(ALL_SITE_FEATURES);
+            setError(null);
+        } catch (err) {
+            log.error('Failed to add site rule', err);
+            setError('Failed to save the rule');
+        }
+    };
+
+    const handleDeleteRule = async (rule: SiteRule) => {
+        if (pendingDeleteId !== rule.id) {
+            setPendingDeleteId(rule.id);
+            return;
+        }
+        setPendingDeleteId(null);
+        try {
+            setSettings(await removeSiteRule(rule.id));
+        } catch (err) {
+            log.error('Failed to delete site rule', err);
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <ShieldBan size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Site Rules
+                </h2>
+            </div>
+            <div className="settings-card">
+                {(Object.keys(SENSITIVE_SITE_CATEGORIES) as SensitiveSiteCategory[]).map(category => (
+                    <div key={category} className="settings-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">Off on {SENSITIVE_SITE_CATEGORIES[category].label}</div>
+                            <div className="settings-item-description">
+                                {SENSITIVE_SITE_CATEGORIES[category].patterns.slice(0, 4).join(', ')} and more; allow rules still apply
+                            </div>
+                        </div>
+                        <Toggle
+                            checked={settings.blockedCategories.includes(category)}
+                            onChange={(blocked) => handleToggleCategory(category, blocked)}
+                        />
+                    </div>
+                ))}
+
+                {SITE_FEATURES.map(feature => (
+                    <div key={feature.id} className="settings-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{feature.label}: Allowed Sites Only</div>
+                            <div className="settings-item-description">Run only on sites with an allow rule for it</div>
+                        </div>
+                        <Toggle
+                            checked={settings.allowListOnly.includes(feature.id)}
+                            onChange={(enabled) => handleToggleAllowListOnly(feature.id, enabled)}
+                        />
+                    </div>
+                ))}
+
+                {settings.rules.map(rule => (
+                    <div key={rule.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{rule.pattern}</div>
+                            <div className="settings-item-description">
+                                {rule.action === 'allow' ? 'Allow' : 'Block'} • {describeFeatures(rule.features)}
+                            </div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteId === rule.id ? 'confirm' : ''}`}
+                                onClick={() => handleDeleteRule(rule)}
+                                onBlur={() => setPendingDeleteId(null)}
+                                aria-label={pendingDeleteId === rule.id ? `Confirm delete rule for ${rule.pattern}` : `Delete rule for ${rule.pattern}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="workflow-editor">
+                        <div className="workflow-editor-row">
+                            <label className="workflow-editor-field">
+                                Site
+                                <input
+                                    className="settings-input"
+                                    value={pattern}
+                                    placeholder="example.com, *.example.com, intranet.*"
+                                    onChange={(e) => {
+                                        setPattern(e.target.value);
+                                        setError(null);
+                                    }}
+                                />
+                            </label>
+                            <label className="workflow-editor-field" style={{ flex: '0 0 100px' }}>
+                                Rule
+                                <select
+                                    className="settings-select"
+                                    value={action}
+                                    onChange={(e) => setAction(e.target.value as SiteRuleAction)}
+                                >
+                                    <option value="block">Block</option>
+                                    <option value="allow">Allow</option>
+                                </select>
+                            </label>
+                        </div>
+                        <div className="workflow-editor-field">
+                            <span>Features</span>
+                            <div className="workflow-editor-tools">
+                                {SITE_FEATURES.map(feature => (
+                                    <label key={feature.id} className="workflow-editor-tool">
+                                        <input
+                                            type="checkbox"
+                                            checked={features.includes(feature.id)}
+                                            onChange={() => toggleFeature(feature.id)}
+                                        />
+                                        <span className="workflow-editor-tool-name">{feature.label}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="workflow-editor-hint">
+                            example.com also covers its subdomains. The most specific matching rule wins.
+                        </div>
+                        {error && <div className="workflow-editor-error">{error}</div>}
+                        <div className="workflow-editor-actions">
+                            <button type="button" className="settings-button primary" onClick={handleAddRule}>
+                                <Plus size={14} style={{ marginRight: 4 }} />
+                                Add Rule
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SiteRulesSettings;
@@ -1,9 +1,12 @@
-import React, { useEffect, useState } from 'react';
-import { MessageSquare, Trash2, ChevronDown } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Trash2, ChevronDown, Download, Upload } from 'lucide-react';
 import { createLogger } from '~logger';
 import { getTTSProvider, setTTSProvider, getSuggestionsEnabled, setSuggestionsEnabled } from '@/utils/settings';
+import { downloadTextFile } from '@/utils/files';
 import type { TTSProvider } from '../../../../types/settings';
+import type { ChatExportFormat } from '../../../../types/database';
 import { clearChatHistory, getDBStats } from '../../../../db';
+import { buildChatExportFile, importChatArchive, parseChatArchive } from '../../../../db/archive';
 import { Toggle } from '../../../shared/inputs/Toggle';
 
 const log = createLogger('TTSAndDataSettings');
@@ -13,6 +16,12 @@ const TTS_OPTIONS: { value: TTSProvider; label: string; description: string }[]
     { value: 'web-native', label: 'Web Native TTS', description: 'Browser built-in text-to-speech' },
 ];
 
+const EXPORT_FORMAT_OPTIONS: { value: ChatExportFormat; label: string }[] = [
+    { value: 'json', label: 'JSON archive' },
+    { value: 'markdown', label: 'Markdown' },
+    { value: 'html', label: 'HTML' },
+];
+
 export const TTSAndDataSettings: React.FC = () => {
     const [ttsProvider, setTTSProviderState] = useState<TTSProvider>('gemini');
     const [suggestionsEnabled, setSuggestionsEnabledState] = useState(true);
@@ -20,6 +29,11 @@ export const TTSAndDataSettings: React.FC = () => {
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
     const [storageSize, setStorageSize] = useState<string>('');
     const [hasChats, setHasChats] = useState(false);
+    const [exportFormat, setExportFormat] = useState<ChatExportFormat>('json');
+    const [isExporting, setIsExporting] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [transferStatus, setTransferStatus] = useState<{ message: string; isError: boolean } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     const updateChatStats = async () => {
         try {
@@ -118,6 +132,46 @@ export const TTSAndDataSettings: React.FC = () => {
         setShowDeleteConfirm(false);
     };
 
+    const handleExportChats = async () => {
+        setIsExporting(true);
+        setTransferStatus(null);
+        try {
+            const file = await buildChatExportFile(exportFormat);
+            downloadTextFile(file.content, file.fileName, file.mimeType);
+            setTransferStatus({ message: `Exported ${file.threadCount} conversation${file.threadCount === 1 ? '' : 's'}`, isError: false });
+        } catch (err) {
+            log.error('Failed to export chats', err instanceof Error ? err.message : String(err));
+            setTransferStatus({ message: 'Export failed', isError: true });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+
+        setIsImporting(true);
+        setTransferStatus(null);
+        try {
+            const archive = parseChatArchive(await file.text());
+            const result = await importChatArchive(archive);
+            const parts = [`Imported ${result.importedMessages} message${result.importedMessages === 1 ? '' : 's'}`];
+            if (result.createdThreads) parts.push(`${result.createdThreads} new conversation${result.createdThreads === 1 ? '' : 's'}`);
+            if (result.mergedThreads) parts.push(`${result.mergedThreads} merged`);
+            if (result.skippedMessages) parts.push(`${result.skippedMessages} skipped`);
+            setTransferStatus({ message: parts.join(', '), isError: false });
+            await updateChatStats();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Import failed';
+            log.error('Failed to import chats', message);
+            setTransferStatus({ message, isError: true });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     return (
         <div className="settings-section">
             <div className="settings-section-header">
@@ -163,6 +217,71 @@ export const TTSAndDataSettings: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Export Chats */}
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Export Chats</div>
+                        <div className="settings-item-description">
+                            Download all conversations as a portable archive or readable document
+                        </div>
+                    </div>
+                    <div className="delete-chats-actions">
+                        <select
+                            className="settings-select"
+                            value={exportFormat}
+                            onChange={(e) => setExportFormat(e.target.value as ChatExportFormat)}
+                            aria-label="Export format"
+                        >
+                            {EXPORT_FORMAT_OPTIONS.map(opt => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            className="settings-button"
+                            onClick={handleExportChats}
+                            disabled={!hasChats || isExporting}
+                        >
+                            <Download size={14} style={{ marginRight: 4 }} />
+                            {isExporting ? 'Exporting...' : 'Export'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Import Chats */}
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Import Chats</div>
+                        <div className="settings-item-description">
+                            Merge conversations from a JSON archive; existing chats are never overwritten
+                        </div>
+                        {transferStatus && (
+                            <div
+                                className="settings-item-description"
+                                style={{ color: transferStatus.isError ? 'var(--color-error)' : undefined, marginTop: 4 }}
+                            >
+                                {transferStatus.message}
+                            </div>
+                        )}
+                    </div>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        style={{ display: 'none' }}
+                        onChange={handleImportFile}
+                    />
+                    <button
+                        type="button"
+                        className="settings-button"
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting}
+                    >
+                        <Upload size={14} style={{ marginRight: 4 }} />
+                        {isImporting ? 'Importing...' : 'Import'}
+                    </button>
+                </div>
+
                 {/* Delete All Chats */}
                 <div className="settings-item delete-chats-item">
                     <div className="settings-item-content">
@@ -8,6 +8,7 @@ import {
     type RewriteSettings as Settings,
 } from '@/utils/settings';
 import { Toggle } from '@/components/shared/inputs/Toggle';
+import { RewritePresetsSettings } from './RewritePresetsSettings';
 
 const log = createLogger('TextRewriterSettings');
 
@@ -39,6 +40,12 @@ export const TextRewriterSettings: React.FC = () => {
         await saveRewriteSettings(newSettings);
     };
 
+    const handleSettingsChange = async (updates: Partial<Settings>) => {
+        const newSettings = { ...settings, ...updates };
+        setSettings(newSettings);
+        await saveRewriteSettings(newSettings);
+    };
+
     return (
         <div className="settings-section">
             <div className="settings-section-header">
@@ -81,7 +88,7 @@ export const TextRewriterSettings: React.FC = () => {
                             <div style={{ textAlign: 'left' }}>
                                 <div className="settings-item-title">Rewrite Options</div>
                                 <div className="settings-item-description">
-                                    Presets: {settings.showPresets ? 'on' : 'off'} • Min: {settings.minSelectionLength} chars
+                                    Presets: {settings.showPresets ? 'on' : 'off'}{settings.customPresets.length > 0 ? ` (${settings.customPresets.length} custom)` : ''} • Min: {settings.minSelectionLength} chars
                                 </div>
                             </div>
                             {isOptionsOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
@@ -101,6 +108,11 @@ export const TextRewriterSettings: React.FC = () => {
                                     />
                                 </div>
 
+                                {/* Preset order, pinning and custom presets */}
+                                {settings.showPresets && (
+                                    <RewritePresetsSettings settings={settings} onChange={handleSettingsChange} />
+                                )}
+
                                 {/* Minimum Selection Length */}
                                 <div style={{ marginBottom: '12px' }}>
                                     <div className="settings-item-title" style={{ marginBottom: '6px' }}>Minimum Selection Length</div>
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import { Toggle } from '@/components/shared/inputs/Toggle';
+import { TOOL_RISK_LABELS } from '@/ai/tools/approval';
+import {
+    DEFAULT_TOOL_APPROVAL_SETTINGS,
+    TOOL_APPROVAL_STORAGE_KEY,
+    getToolApprovalSettings,
+    saveToolApprovalSettings,
+    removeToolApprovalRule,
+    type ToolApprovalRule,
+    type ToolApprovalSettings as ToolApprovalSettingsData,
+    type ToolRiskLevel,
+} from '@/utils/settings/toolApprovalSettings';
+
+const log = createLogger('ToolApprovalSettings', 'SETTINGS');
+
+const RISK_DESCRIPTIONS: Record<ToolRiskLevel, string> = {
+    'read-only': 'Reading tabs, pages, history and search results',
+    reversible: 'Switching tabs, grouping, bookmarks, reminders and saving memories',
+    destructive: 'Deleting bookmarks or memories and running scripts on pages',
+    external: 'Navigating, clicking and typing on sites, and all MCP tools',
+};
+
+const RISK_LEVELS = Object.keys(RISK_DESCRIPTIONS) as ToolRiskLevel[];
+
+function describeRule(rule: ToolApprovalRule): string {
+    if (rule.scope === 'mcp-server') return `All tools from MCP server ${rule.value}`;
+    return `${rule.toolName ?? 'Any tool'} on ${rule.value}`;
+}
+
+export const ToolApprovalSettings: React.FC = () => {
+    const [settings, setSettings] = useState<ToolApprovalSettingsData>(DEFAULT_TOOL_APPROVAL_SETTINGS);
+
+    useEffect(() => {
+        getToolApprovalSettings().then(setSettings);
+
+        // Rules added from approval cards show up without reopening settings
+        const handleChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+            if (areaName === 'local' && changes[TOOL_APPROVAL_STORAGE_KEY]) {
+                getToolApprovalSettings().then(setSettings);
+            }
+        };
+        chrome.storage.onChanged.addListener(handleChange);
+        return () => chrome.storage.onChanged.removeListener(handleChange);
+    }, []);
+
+    const update = async (updates: Partial<ToolApprovalSettingsData>) => {
+        const previous = settings;
+        const next = { ...settings, ...updates };
+        setSettings(next);
+        try {
+            await saveToolApprovalSettings(next);
+        } catch (err) {
+            log.error('Failed to save tool approval settings', err);
+            setSettings(previous);
+        }
+    };
+
+    const toggleLevel = (level: ToolRiskLevel, required: boolean) => {
+        const levels = settings.requireApprovalFor.filter(l => l !== level);
+        update({ requireApprovalFor: required ? [...levels, level] : levels });
+    };
+
+    const handleRemoveRule = async (id: string) => {
+        try {
+            await removeToolApprovalRule(id);
+            setSettings(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== id) }));
+        } catch (err) {
+            log.error('Failed to remove approval rule', err);
+        }
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <ShieldCheck size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Tool Approvals
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Ask Before Sensitive Actions</div>
+                        <div className="settings-item-description">
+                            Pause the chat and ask for approval before the AI runs these tools
+                        </div>
+                    </div>
+                    <Toggle checked={settings.enabled} onChange={(checked) => update({ enabled: checked })} />
+                </div>
+
+                {settings.enabled && RISK_LEVELS.map(level => (
+                    <div key={level} className="settings-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{TOOL_RISK_LABELS[level]}</div>
+                            <div className="settings-item-description">{RISK_DESCRIPTIONS[level]}</div>
+                        </div>
+                        <Toggle
+                            checked={settings.requireApprovalFor.includes(level)}
+                            onChange={(checked) => toggleLevel(level, checked)}
+                        />
+                    </div>
+                ))}
+
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Always Allowed</div>
+                        <div className="settings-item-description">
+                            {settings.rules.length > 0
+                                ? 'Tool calls matching these rules run without asking'
+                                : 'Choose "Always allow" on an approval card to skip it next time'}
+                        </div>
+                    </div>
+                </div>
+
+                {settings.rules.map(rule => (
+                    <div key={rule.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{describeRule(rule)}</div>
+                            <div className="settings-item-description">
+                                Added {new Date(rule.createdAt).toLocaleDateString()}
+                            </div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className="workflow-list-action danger"
+                                onClick={() => handleRemoveRule(rule.id)}
+                                aria-label={`Remove rule: ${describeRule(rule)}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ToolApprovalSettings;
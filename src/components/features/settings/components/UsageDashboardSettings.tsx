@@ -0,0 +1,435 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, ChevronUp, ChevronDown, Trash2, Plus, X } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    getUsageSettings,
+    saveUsageSettings,
+    DEFAULT_USAGE_SETTINGS,
+    DEFAULT_MODEL_PRICES,
+    type UsageSettings,
+} from '@/utils/settings/usageSettings';
+import { getUsageSummary } from '@/utils/ai/usageAnalytics';
+import { clearUsageRecords } from '../../../../db';
+import type { ModelPrice, UsageBucket, UsageSummary } from '@/types/ai/usage';
+
+const log = createLogger('UsageDashboardSettings');
+
+type UsageGroup = 'byModel' | 'byProvider' | 'byWorkflow' | 'byThread';
+
+const RANGE_OPTIONS = [
+    { value: 7, label: 'Last 7 days' },
+    { value: 30, label: 'Last 30 days' },
+    { value: 90, label: 'Last 90 days' },
+];
+
+const GROUP_OPTIONS: { value: UsageGroup; label: string }[] = [
+    { value: 'byModel', label: 'Model' },
+    { value: 'byProvider', label: 'Provider' },
+    { value: 'byWorkflow', label: 'Workflow' },
+    { value: 'byThread', label: 'Conversation' },
+];
+
+const WARN_AT_OPTIONS = [50, 75, 80, 90];
+const MAX_GROUP_ROWS = 8;
+
+function formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+    return String(tokens);
+}
+
+function formatCost(cost: number): string {
+    if (cost === 0) return '$0.00';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/** Parse an optional positive number from an input; empty means "no value" */
+function parseOptionalNumber(value: string): number | undefined {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export const UsageDashboardSettings: React.FC = () => {
+    const [rangeDays, setRangeDays] = useState(30);
+    const [group, setGroup] = useState<UsageGroup>('byModel');
+    const [summary, setSummary] = useState<UsageSummary | null>(null);
+    const [settings, setSettings] = useState<UsageSettings>(DEFAULT_USAGE_SETTINGS);
+    const [isConfigOpen, setIsConfigOpen] = useState(false);
+    const [newModelId, setNewModelId] = useState('');
+    const [isClearing, setIsClearing] = useState(false);
+    // Inputs save on blur; bumping the version re-mounts them after stored values change
+    const [formVersion, setFormVersion] = useState(0);
+
+    const loadSummary = useCallback(async () => {
+        try {
+            setSummary(await getUsageSummary(rangeDays));
+        } catch (err) {
+            log.error('Failed to load usage summary', err);
+        }
+    }, [rangeDays]);
+
+    useEffect(() => {
+        getUsageSettings()
+            .then(loaded => {
+                setSettings(loaded);
+                setFormVersion(v => v + 1);
+            })
+            .catch(err => log.error('Failed to load settings', err));
+    }, []);
+
+    useEffect(() => {
+        loadSummary();
+    }, [loadSummary]);
+
+    const updateSettings = async (next: UsageSettings) => {
+        setSettings(next);
+        try {
+            await saveUsageSettings(next);
+            // Costs depend on the price table
+            await loadSummary();
+        } catch (err) {
+            log.error('Failed to save settings', err);
+        }
+    };
+
+    const handlePriceChange = (modelId: string, field: keyof ModelPrice, value: string) => {
+        const current = settings.prices[modelId] ?? { input: 0, output: 0 };
+        const parsed = parseFloat(value);
+        const price: ModelPrice = { ...current };
+        if (field === 'cachedInput') {
+            price.cachedInput = Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+        } else {
+            price[field] = Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+        }
+        updateSettings({ ...settings, prices: { ...settings.prices, [modelId]: price } });
+    };
+
+    const handleAddModel = () => {
+        const modelId = newModelId.trim();
+        if (!modelId || settings.prices[modelId]) return;
+        setNewModelId('');
+        updateSettings({ ...settings, prices: { ...settings.prices, [modelId]: { input: 0, output: 0 } } });
+    };
+
+    const handleRemoveModel = (modelId: string) => {
+        const { [modelId]: _removed, ...prices } = settings.prices;
+        updateSettings({ ...settings, prices });
+    };
+
+    const handleClearHistory = async () => {
+        if (!window.confirm('Delete all recorded usage? Conversations are not affected.')) return;
+        setIsClearing(true);
+        try {
+            await clearUsageRecords();
+            await loadSummary();
+        } catch (err) {
+            log.error('Failed to clear usage history', err);
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    const maxDayTokens = Math.max(1, ...(summary?.byDay.map(day => day.totalTokens) ?? []));
+    const groupRows: UsageBucket[] = summary ? summary[group].slice(0, MAX_GROUP_ROWS) : [];
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <BarChart3 size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Usage & Costs
+                </h2>
+            </div>
+            <div className="settings-card">
+                {/* Totals */}
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="usage-dashboard-toolbar">
+                        <select
+                            className="settings-select usage-dashboard-range"
+                            value={rangeDays}
+                            onChange={(e) => setRangeDays(Number(e.target.value))}
+                            aria-label="Usage time range"
+                        >
+                            {RANGE_OPTIONS.map(opt => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="usage-dashboard-totals">
+                        <div className="usage-dashboard-stat">
+                            <div className="usage-dashboard-stat-value">{formatTokens(summary?.total.totalTokens ?? 0)}</div>
+                            <div className="usage-dashboard-stat-label">Tokens</div>
+                        </div>
+                        <div className="usage-dashboard-stat">
+                            <div className="usage-dashboard-stat-value">{summary?.total.requests ?? 0}</div>
+                            <div className="usage-dashboard-stat-label">Requests</div>
+                        </div>
+                        <div className="usage-dashboard-stat">
+                            <div className="usage-dashboard-stat-value">{formatCost(summary?.total.cost ?? 0)}</div>
+                            <div className="usage-dashboard-stat-label">Est. cost</div>
+                        </div>
+                    </div>
+
+                    {/* Daily chart */}
+                    {summary && summary.byDay.length > 0 && (
+                        <div className="usage-dashboard-chart" aria-label="Tokens per day">
+                            {summary.byDay.map(day => (
+                                <div
+                                    key={day.key}
+                                    className="usage-dashboard-bar"
+                                    title={`${day.label}: ${day.totalTokens.toLocaleString()} tokens · ${formatCost(day.cost)}`}
+                                >
+                                    <div
+                                        className="usage-dashboard-bar-fill"
+                                        style={{ height: `${(day.totalTokens / maxDayTokens) * 100}%` }}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {summary && summary.unpricedModels.length > 0 && (
+                        <div className="settings-item-description" style={{ marginTop: 8 }}>
+                            No price configured for {summary.unpricedModels.join(', ')}; cost excludes these models.
+                        </div>
+                    )}
+                </div>
+
+                {/* Breakdown */}
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="usage-dashboard-tabs" role="tablist" aria-label="Group usage by">
+                        {GROUP_OPTIONS.map(opt => (
+                            <button
+                                key={opt.value}
+                                type="button"
+                                role="tab"
+                                aria-selected={group === opt.value}
+                                className={`usage-dashboard-tab ${group === opt.value ? 'active' : ''}`}
+                                onClick={() => setGroup(opt.value)}
+                            >
+                                {opt.label}
+                            </button>
+                        ))}
+                    </div>
+                    {groupRows.length === 0 ? (
+                        <div className="settings-item-description">No usage recorded in this period</div>
+                    ) : (
+                        <table className="usage-dashboard-table">
+                            <thead>
+                                <tr>
+                                    <th>{GROUP_OPTIONS.find(opt => opt.value === group)?.label}</th>
+                                    <th>Tokens</th>
+                                    <th>Cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {groupRows.map(row => (
+                                    <tr key={row.key}>
+                                        <td title={row.label}>{row.label}</td>
+                                        <td title={`${row.inputTokens.toLocaleString()} in · ${row.outputTokens.toLocaleString()} out`}>
+                                            {formatTokens(row.totalTokens)}
+                                        </td>
+                                        <td>{formatCost(row.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Prices & budgets */}
+                <div className="settings-item" style={{ display: 'block', padding: 0 }}>
+                    <button
+                        type="button"
+                        className="settings-item-header-button"
+                        onClick={() => setIsConfigOpen(!isConfigOpen)}
+                    >
+                        <div style={{ textAlign: 'left' }}>
+                            <div className="settings-item-title">Prices & Monthly Budget</div>
+                            <div className="settings-item-description">
+                                {settings.limits.maxCostPerMonth || settings.limits.maxTokensPerMonth
+                                    ? [
+                                        settings.limits.maxCostPerMonth ? `$${settings.limits.maxCostPerMonth}/month` : null,
+                                        settings.limits.maxTokensPerMonth ? `${formatTokens(settings.limits.maxTokensPerMonth)} tokens/month` : null,
+                                    ].filter(Boolean).join(' • ')
+                                    : 'No budget set'}
+                            </div>
+                        </div>
+                        {isConfigOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    </button>
+
+                    {isConfigOpen && (
+                        <div style={{ padding: '12px', borderTop: '1px solid var(--border-color)' }}>
+                            <div className="settings-item-title" style={{ marginBottom: '6px' }}>Monthly Budget</div>
+                            <div className="settings-item-description" style={{ marginBottom: '8px' }}>
+                                A warning appears above the chat input when usage approaches a limit. Leave empty for no limit.
+                            </div>
+                            <div className="usage-budget-grid">
+                                <label className="usage-budget-field">
+                                    <span>Cost (USD)</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step="0.5"
+                                        className="settings-input"
+                                        defaultValue={settings.limits.maxCostPerMonth ?? ''}
+                                        key={`cost-${formVersion}`}
+                                        onBlur={(e) => updateSettings({
+                                            ...settings,
+                                            limits: { ...settings.limits, maxCostPerMonth: parseOptionalNumber(e.target.value) },
+                                        })}
+                                    />
+                                </label>
+                                <label className="usage-budget-field">
+                                    <span>Tokens</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={100000}
+                                        className="settings-input"
+                                        defaultValue={settings.limits.maxTokensPerMonth ?? ''}
+                                        key={`tokens-${formVersion}`}
+                                        onBlur={(e) => updateSettings({
+                                            ...settings,
+                                            limits: { ...settings.limits, maxTokensPerMonth: parseOptionalNumber(e.target.value) },
+                                        })}
+                                    />
+                                </label>
+                                <label className="usage-budget-field">
+                                    <span>Warn at</span>
+                                    <select
+                                        className="settings-select"
+                                        value={settings.warnAtPercent}
+                                        onChange={(e) => updateSettings({ ...settings, warnAtPercent: Number(e.target.value) })}
+                                    >
+                                        {WARN_AT_OPTIONS.map(percent => (
+                                            <option key={percent} value={percent}>{percent}%</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+
+                            <div className="settings-item-title" style={{ margin: '16px 0 6px' }}>Price Table</div>
+                            <div className="settings-item-description" style={{ marginBottom: '8px' }}>
+                                USD per 1M tokens, used for cost estimates
+                            </div>
+                            <table className="usage-dashboard-table usage-price-table">
+                                <thead>
+                                    <tr>
+                                        <th>Model</th>
+                                        <th>Input</th>
+                                        <th>Cached</th>
+                                        <th>Output</th>
+                                        <th aria-label="Actions" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {Object.entries(settings.prices).map(([modelId, price]) => (
+                                        <tr key={`${modelId}-${formVersion}`}>
+                                            <td title={modelId}>{modelId}</td>
+                                            <td>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="0.01"
+                                                    className="usage-price-input"
+                                                    defaultValue={price.input}
+                                                    onBlur={(e) => handlePriceChange(modelId, 'input', e.target.value)}
+                                                    aria-label={`${modelId} input price`}
+                                                />
+                                            </td>
+                                            <td>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="0.01"
+                                                    className="usage-price-input"
+                                                    defaultValue={price.cachedInput ?? ''}
+                                                    placeholder={String(price.input)}
+                                                    onBlur={(e) => handlePriceChange(modelId, 'cachedInput', e.target.value)}
+                                                    aria-label={`${modelId} cached input price`}
+                                                />
+                                            </td>
+                                            <td>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="0.01"
+                                                    className="usage-price-input"
+                                                    defaultValue={price.output}
+                                                    onBlur={(e) => handlePriceChange(modelId, 'output', e.target.value)}
+                                                    aria-label={`${modelId} output price`}
+                                                />
+                                            </td>
+                                            <td>
+                                                <button
+                                                    type="button"
+                                                    className="usage-price-remove"
+                                                    onClick={() => handleRemoveModel(modelId)}
+                                                    title="Remove model"
+                                                    aria-label={`Remove ${modelId}`}
+                                                >
+                                                    <X size={12} />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="settings-input-group">
+                                <input
+                                    type="text"
+                                    className="settings-input"
+                                    placeholder="Model ID, e.g. gemini-2.0-flash"
+                                    value={newModelId}
+                                    onChange={(e) => setNewModelId(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleAddModel();
+                                    }}
+                                />
+                                <button
+                                    type="button"
+                                    className="settings-button"
+                                    onClick={handleAddModel}
+                                    disabled={!newModelId.trim()}
+                                >
+                                    <Plus size={14} style={{ marginRight: 4 }} />
+                                    Add
+                                </button>
+                                <button
+                                    type="button"
+                                    className="settings-button"
+                                    onClick={() => {
+                                        updateSettings({ ...settings, prices: DEFAULT_MODEL_PRICES });
+                                        setFormVersion(v => v + 1);
+                                    }}
+                                >
+                                    Reset
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Clear history */}
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Clear Usage History</div>
+                        <div className="settings-item-description">
+                            Reset the dashboard and the current month's budget count
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        className="settings-button danger"
+                        onClick={handleClearHistory}
+                        disabled={isClearing}
+                    >
+                        <Trash2 size={14} style={{ marginRight: 4 }} />
+                        {isClearing ? 'Clearing...' : 'Clear'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
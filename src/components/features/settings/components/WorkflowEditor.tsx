@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createLogger } from '~logger';
+import { getToolNames, AGENT_TOOL_NAMES } from '@/ai/tools';
+import { listMCPToolDefinitions } from '@/ai/mcp/proxy';
+import {
+    saveCustomWorkflow,
+    DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT,
+    MAX_CUSTOM_WORKFLOW_STEP_COUNT,
+} from '@/workflows/customWorkflows';
+import { parsePipelineDefinition } from '@/workflows/pipeline/validation';
+import type { CustomWorkflowDefinition, CustomWorkflowInput } from '@/workflows/types';
+
+const log = createLogger('WorkflowEditor');
+
+interface ToolOption {
+    name: string;
+    group: 'Browser' | 'Agents' | 'MCP';
+    detail?: string;
+}
+
+const EMPTY_WORKFLOW: CustomWorkflowInput = {
+    id: '',
+    name: '',
+    description: '',
+    icon: '⚡',
+    allowedTools: [],
+    systemPrompt: '',
+    stepCount: DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT,
+};
+
+const PIPELINE_PLACEHOLDER = `{
+  "inputs": [{ "name": "topic", "type": "string", "required": true }],
+  "stages": [
+    { "id": "draft", "kind": "prompt", "label": "Draft", "prompt": "Outline {{topic}}" },
+    { "id": "ok", "kind": "confirm", "label": "Review", "message": "Expand this outline?\\n{{draft}}" },
+    { "id": "final", "kind": "prompt", "label": "Write", "prompt": "Expand: {{draft}}" }
+  ]
+}`;
+
+/**
+ * Derive a slash command id from a workflow name
+ */
+function toCommandId(name: string): string {
+    return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+interface WorkflowEditorProps {
+    /** Workflow being edited; omit to create a new one */
+    workflow?: CustomWorkflowDefinition;
+    onSaved: (workflow: CustomWorkflowDefinition) => void;
+    onCancel: () => void;
+}
+
+export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ workflow, onSaved, onCancel }) => {
+    const [form, setForm] = useState<CustomWorkflowInput>(workflow ?? EMPTY_WORKFLOW);
+    const [idEdited, setIdEdited] = useState(!!workflow);
+    const [pipelineJson, setPipelineJson] = useState(
+        workflow?.pipeline ? JSON.stringify(workflow.pipeline, null, 2) : ''
+    );
+    const [toolOptions, setToolOptions] = useState<ToolOption[]>([]);
+    const [toolFilter, setToolFilter] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const loadTools = async () => {
+            const options: ToolOption[] = [
+                ...getToolNames().sort().map(name => ({ name, group: 'Browser' as const })),
+                ...AGENT_TOOL_NAMES.map(name => ({ name, group: 'Agents' as const })),
+            ];
+            const mcpTools = await listMCPToolDefinitions();
+            options.push(...mcpTools.map(tool => ({ name: tool.name, group: 'MCP' as const, detail: tool.serverName })));
+            setToolOptions(options);
+        };
+        loadTools().catch(err => log.error('Failed to load tools', err));
+    }, []);
+
+    const visibleTools = useMemo(() => {
+        const query = toolFilter.toLowerCase();
+        // Keep selected tools visible even if the server that provides them is offline
+        const known = new Set(toolOptions.map(tool => tool.name));
+        const missing: ToolOption[] = form.allowedTools
+            .filter(name => !known.has(name))
+            .map(name => ({ name, group: 'MCP', detail: 'unavailable' }));
+        return [...toolOptions, ...missing].filter(tool => tool.name.toLowerCase().includes(query));
+    }, [toolOptions, toolFilter, form.allowedTools]);
+
+    const update = (updates: Partial<CustomWorkflowInput>) => {
+        setForm(prev => ({ ...prev, ...updates }));
+        setError(null);
+    };
+
+    const toggleTool = (name: string) => {
+        update({
+            allowedTools: form.allowedTools.includes(name)
+                ? form.allowedTools.filter(t => t !== name)
+                : [...form.allowedTools, name],
+        });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const pipeline = pipelineJson.trim() ? parsePipelineDefinition(pipelineJson) : undefined;
+            const saved = await saveCustomWorkflow({ ...form, pipeline }, workflow?.id);
+            onSaved(saved);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save workflow');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <div className="workflow-editor-row">
+                <label className="workflow-editor-field workflow-editor-icon">
+                    Icon
+                    <input
+                        className="settings-input"
+                        value={form.icon}
+                        maxLength={4}
+                        onChange={(e) => update({ icon: e.target.value })}
+                    />
+                </label>
+                <label className="workflow-editor-field">
+                    Name
+                    <input
+                        className="settings-input"
+                        value={form.name}
+                        placeholder="Bug triage"
+                        onChange={(e) => update({
+                            name: e.target.value,
+                            ...(idEdited ? {} : { id: toCommandId(e.target.value) }),
+                        })}
+                    />
+                </label>
+            </div>
+
+            <label className="workflow-editor-field">
+                Slash command
+                <div className="workflow-editor-command">
+                    <span>/</span>
+                    <input
+                        className="settings-input"
+                        value={form.id}
+                        placeholder="bug_triage"
+                        onChange={(e) => {
+                            setIdEdited(true);
+                            update({ id: e.target.value.toLowerCase() });
+                        }}
+                    />
+                </div>
+            </label>
+
+            <label className="workflow-editor-field">
+                Description
+                <input
+                    className="settings-input"
+                    value={form.description}
+                    placeholder="Shown in the / menu"
+                    onChange={(e) => update({ description: e.target.value })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                System prompt
+                <textarea
+                    className="settings-input workflow-editor-prompt"
+                    value={form.systemPrompt}
+                    rows={6}
+                    placeholder="You are a workflow agent that..."
+                    onChange={(e) => update({ systemPrompt: e.target.value })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                Max steps
+                <input
+                    type="number"
+                    className="settings-input"
+                    min={1}
+                    max={MAX_CUSTOM_WORKFLOW_STEP_COUNT}
+                    value={form.stepCount ?? DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT}
+                    onChange={(e) => update({ stepCount: Number(e.target.value) })}
+                />
+            </label>
+
+            <label className="workflow-editor-field">
+                Pipeline stages (JSON, optional)
+                <textarea
+                    className="settings-input workflow-editor-pipeline"
+                    value={pipelineJson}
+                    rows={pipelineJson ? 10 : 3}
+                    placeholder={PIPELINE_PLACEHOLDER}
+                    spellCheck={false}
+                    onChange={(e) => {
+                        setPipelineJson(e.target.value);
+                        setError(null);
+                    }}
+                />
+                <span className="workflow-editor-hint">
+                    Runs prompt, tool, agent, branch and confirm stages in order instead of a single agent loop.
+                    Reference inputs and earlier outputs with {'{{name}}'}.
+                </span>
+            </label>
+
+            <div className="workflow-editor-field">
+                <span>Allowed tools ({form.allowedTools.length} selected)</span>
+                <input
+                    className="settings-input"
+                    value={toolFilter}
+                    placeholder="Filter tools"
+                    aria-label="Filter tools"
+                    onChange={(e) => setToolFilter(e.target.value)}
+                />
+                <div className="workflow-editor-tools">
+                    {visibleTools.map(tool => (
+                        <label key={`${tool.group}-${tool.name}`} className="workflow-editor-tool">
+                            <input
+                                type="checkbox"
+                                checked={form.allowedTools.includes(tool.name)}
+                                onChange={() => toggleTool(tool.name)}
+                            />
+                            <span className="workflow-editor-tool-name">{tool.name}</span>
+                            <span className="workflow-editor-tool-group">
+                                {tool.detail ? `${tool.group} · ${tool.detail}` : tool.group}
+                            </span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {error && <div className="workflow-editor-error">{error}</div>}
+
+            <div className="workflow-editor-actions">
+                <button type="button" className="settings-button" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </button>
+                <button type="button" className="settings-button primary" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save Workflow'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default WorkflowEditor;
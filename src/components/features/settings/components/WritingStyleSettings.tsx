@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Fingerprint, Plus, Sparkles, Trash2 } from 'lucide-react';
+import { createLogger } from '~logger';
+import {
+    addWritingStyleSample,
+    getWritingStyleProfile,
+    saveWritingStyleProfile,
+    DEFAULT_WRITING_STYLE_PROFILE,
+    WRITING_STYLE_PLATFORMS,
+    WRITING_STYLE_STORAGE_KEY,
+    type WritingStylePlatform,
+    type WritingStyleProfile,
+} from '@/utils/settings';
+import { Toggle } from '@/components/shared/inputs/Toggle';
+
+const log = createLogger('WritingStyleSettings');
+
+const PREVIEW_LENGTH = 160;
+
+function previewSample(text: string): string {
+    const flat = text.replace(/\s+/g, ' ');
+    return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH)}…` : flat;
+}
+
+export const WritingStyleSettings: React.FC = () => {
+    const [profile, setProfile] = useState<WritingStyleProfile>(DEFAULT_WRITING_STYLE_PROFILE);
+    const [platform, setPlatform] = useState<WritingStylePlatform>('general');
+    const [guidanceDraft, setGuidanceDraft] = useState('');
+    const [sampleDraft, setSampleDraft] = useState('');
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setProfile(await getWritingStyleProfile());
+        } catch (err) {
+            log.error('Failed to load writing style profile', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+
+        // Inserted /write drafts and background analysis update the profile
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[WRITING_STYLE_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, [refresh]);
+
+    const storedGuidance = profile.guidance[platform];
+    useEffect(() => {
+        setGuidanceDraft(storedGuidance);
+    }, [platform, storedGuidance]);
+
+    const handleChange = async (updates: Partial<WritingStyleProfile>) => {
+        const newProfile = { ...profile, ...updates };
+        setProfile(newProfile);
+        await saveWritingStyleProfile(newProfile);
+    };
+
+    const handleGuidanceBlur = async () => {
+        if (guidanceDraft === storedGuidance) return;
+        await handleChange({ guidance: { ...profile.guidance, [platform]: guidanceDraft.trim() } });
+    };
+
+    const handleAddSample = async () => {
+        try {
+            const updated = await addWritingStyleSample({ text: sampleDraft, platform, source: 'pasted' });
+            if (!updated) {
+                setStatus({ message: 'Samples need at least a couple of sentences', isError: true });
+                return;
+            }
+            setProfile(updated);
+            setSampleDraft('');
+            setStatus(null);
+        } catch (err) {
+            log.error('Failed to add writing sample', err);
+        }
+    };
+
+    const handleDeleteSample = async (id: string) => {
+        if (pendingDeleteId !== id) {
+            setPendingDeleteId(id);
+            return;
+        }
+        setPendingDeleteId(null);
+        await handleChange({ samples: profile.samples.filter(sample => sample.id !== id) });
+    };
+
+    const handleAnalyze = async () => {
+        setIsAnalyzing(true);
+        setStatus({ message: 'Analyzing your samples...', isError: false });
+        try {
+            const response = await chrome.runtime.sendMessage({
+                type: 'style-profile/analyze',
+                payload: { platform },
+            });
+            setStatus(response?.success
+                ? { message: 'Style guidance updated from your samples', isError: false }
+                : { message: response?.error ?? 'Analysis failed', isError: true });
+        } catch (err) {
+            log.error('Failed to analyze writing style', err);
+            setStatus({ message: 'Analysis failed', isError: true });
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    const samples = profile.samples.filter(sample => sample.platform === platform);
+    const analyzableCount = platform === 'general' ? profile.samples.length : samples.length;
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-header">
+                <h2 className="settings-section-title">
+                    <Fingerprint size={16} style={{ display: 'inline', marginRight: 8, verticalAlign: 'text-bottom' }} />
+                    Writing Style
+                </h2>
+            </div>
+            <div className="settings-card">
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Write in My Style</div>
+                        <div className="settings-item-description">Add your style guidance to /write drafts and rewrites</div>
+                    </div>
+                    <Toggle
+                        checked={profile.enabled}
+                        onChange={(enabled) => handleChange({ enabled })}
+                    />
+                </div>
+
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Learn From Inserted Drafts</div>
+                        <div className="settings-item-description">Save /write drafts you insert as samples for the site's platform</div>
+                    </div>
+                    <Toggle
+                        checked={profile.captureAcceptedDrafts}
+                        onChange={(captureAcceptedDrafts) => handleChange({ captureAcceptedDrafts })}
+                    />
+                </div>
+
+                <div className="settings-item">
+                    <div className="settings-item-content">
+                        <div className="settings-item-title">Platform</div>
+                        <div className="settings-item-description">General guidance applies everywhere; platform guidance is added on that site</div>
+                    </div>
+                    <select
+                        className="settings-select"
+                        value={platform}
+                        onChange={(e) => {
+                            setPlatform(e.target.value as WritingStylePlatform);
+                            setStatus(null);
+                        }}
+                    >
+                        {WRITING_STYLE_PLATFORMS.map(entry => (
+                            <option key={entry.id} value={entry.id}>
+                                {entry.label} ({profile.samples.filter(sample => sample.platform === entry.id).length})
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="workflow-editor">
+                        <label className="workflow-editor-field">
+                            Style Guidance
+                            <textarea
+                                className="settings-input workflow-editor-prompt"
+                                value={guidanceDraft}
+                                placeholder="- Short sentences, no exclamation marks&#10;- Opens with &quot;Hi <name>,&quot; and signs off with &quot;Cheers&quot;"
+                                onChange={(e) => setGuidanceDraft(e.target.value)}
+                                onBlur={handleGuidanceBlur}
+                            />
+                        </label>
+                        <div className="workflow-editor-hint">
+                            Edit freely, or generate it from {platform === 'general' ? 'all your samples' : 'the samples below'}.
+                        </div>
+                        {status && (
+                            <div className={status.isError ? 'workflow-editor-error' : 'workflow-editor-hint'}>
+                                {status.message}
+                            </div>
+                        )}
+                        <div className="workflow-editor-actions">
+                            <button
+                                type="button"
+                                className="settings-button primary"
+                                onClick={handleAnalyze}
+                                disabled={isAnalyzing || analyzableCount < 2}
+                                title={analyzableCount < 2 ? 'Add at least 2 samples first' : undefined}
+                            >
+                                <Sparkles size={14} style={{ marginRight: 4 }} />
+                                {isAnalyzing ? 'Analyzing...' : 'Generate From Samples'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {samples.map(sample => (
+                    <div key={sample.id} className="settings-item workflow-list-item">
+                        <div className="settings-item-content">
+                            <div className="settings-item-title">{sample.source === 'accepted' ? 'Inserted draft' : 'Pasted sample'}</div>
+                            <div className="settings-item-description">{previewSample(sample.text)}</div>
+                        </div>
+                        <div className="workflow-list-actions">
+                            <button
+                                type="button"
+                                className={`workflow-list-action danger ${pendingDeleteId === sample.id ? 'confirm' : ''}`}
+                                onClick={() => handleDeleteSample(sample.id)}
+                                onBlur={() => setPendingDeleteId(null)}
+                                aria-label={pendingDeleteId === sample.id ? 'Confirm delete sample' : 'Delete sample'}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                <div className="settings-item" style={{ display: 'block' }}>
+                    <div className="workflow-editor">
+                        <label className="workflow-editor-field">
+                            Add a Sample
+                            <textarea
+                                className="settings-input workflow-editor-prompt"
+                                value={sampleDraft}
+                                placeholder="Paste something you wrote yourself, e.g. a recent email or message"
+                                onChange={(e) => setSampleDraft(e.target.value)}
+                            />
+                        </label>
+                        <div className="workflow-editor-actions">
+                            <button
+                                type="button"
+                                className="settings-button"
+                                onClick={handleAddSample}
+                                disabled={!sampleDraft.trim()}
+                            >
+                                <Plus size={14} style={{ marginRight: 4 }} />
+                                Add Sample
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WritingStyleSettings;
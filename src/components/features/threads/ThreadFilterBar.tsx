@@ -0,0 +1,127 @@
+import type { ChatFolder, ThreadQueryOptions } from '../../../db';
+
+export type ThreadStatusView = 'active' | 'pinned' | 'archived';
+
+export interface ThreadFilters {
+    view: ThreadStatusView;
+    /** 'all', 'unfiled' or a folder ID */
+    folder: string;
+    tags: string[];
+    sortBy: NonNullable<ThreadQueryOptions['sortBy']>;
+}
+
+export const DEFAULT_THREAD_FILTERS: ThreadFilters = {
+    view: 'active',
+    folder: 'all',
+    tags: [],
+    sortBy: 'updatedAt',
+};
+
+const VIEW_OPTIONS: { value: ThreadStatusView; label: string }[] = [
+    { value: 'active', label: 'All' },
+    { value: 'pinned', label: 'Pinned' },
+    { value: 'archived', label: 'Archived' },
+];
+
+const SORT_OPTIONS: { value: ThreadFilters['sortBy']; label: string }[] = [
+    { value: 'updatedAt', label: 'Recent activity' },
+    { value: 'createdAt', label: 'Date created' },
+    { value: 'title', label: 'Title' },
+];
+
+/**
+ * Convert UI filter state into query options for queryThreads
+ */
+export function toThreadQueryOptions(filters: ThreadFilters): ThreadQueryOptions {
+    return {
+        status: filters.view === 'archived' ? 'archived' : 'active',
+        pinnedOnly: filters.view === 'pinned',
+        folderId: filters.folder === 'all' ? undefined : filters.folder === 'unfiled' ? null : filters.folder,
+        tags: filters.tags,
+        sortBy: filters.sortBy,
+    };
+}
+
+interface ThreadFilterBarProps {
+    filters: ThreadFilters;
+    onChange: (filters: ThreadFilters) => void;
+    folders: ChatFolder[];
+    availableTags: string[];
+    onCreateFolder?: () => void;
+}
+
+export function ThreadFilterBar({ filters, onChange, folders, availableTags, onCreateFolder }: ThreadFilterBarProps) {
+    const toggleTag = (tag: string) => {
+        const tags = filters.tags.includes(tag)
+            ? filters.tags.filter(t => t !== tag)
+            : [...filters.tags, tag];
+        onChange({ ...filters, tags });
+    };
+
+    return (
+        <div className="thread-filter-bar">
+            <div className="thread-filter-tabs" role="tablist" aria-label="Conversation status">
+                {VIEW_OPTIONS.map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        role="tab"
+                        aria-selected={filters.view === option.value}
+                        className={`thread-filter-tab ${filters.view === option.value ? 'active' : ''}`}
+                        onClick={() => onChange({ ...filters, view: option.value })}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="thread-filter-row">
+                <select
+                    className="thread-filter-select"
+                    value={filters.folder}
+                    onChange={(e) => {
+                        if (e.target.value === '__new__') {
+                            onCreateFolder?.();
+                            return;
+                        }
+                        onChange({ ...filters, folder: e.target.value });
+                    }}
+                    aria-label="Filter by folder"
+                >
+                    <option value="all">All folders</option>
+                    <option value="unfiled">Unfiled</option>
+                    {folders.map(folder => (
+                        <option key={folder.id} value={folder.id}>{folder.name}</option>
+                    ))}
+                    {onCreateFolder && <option value="__new__">+ New folder…</option>}
+                </select>
+                <select
+                    className="thread-filter-select"
+                    value={filters.sortBy}
+                    onChange={(e) => onChange({ ...filters, sortBy: e.target.value as ThreadFilters['sortBy'] })}
+                    aria-label="Sort conversations"
+                >
+                    {SORT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {availableTags.length > 0 && (
+                <div className="thread-filter-tags">
+                    {availableTags.map(tag => (
+                        <button
+                            key={tag}
+                            type="button"
+                            className={`thread-tag-chip ${filters.tags.includes(tag) ? 'active' : ''}`}
+                            onClick={() => toggleTag(tag)}
+                            aria-pressed={filters.tags.includes(tag)}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
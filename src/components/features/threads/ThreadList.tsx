@@ -1,7 +1,13 @@
-import { useState, useEffect } from 'react';
-import type { ChatThread } from '../../../db';
-import { getAllThreads, deleteThread } from '../../../db';
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatThread, ChatFolder } from '../../../db';
+import { queryThreads, getAllFolders, getAllThreadTags, deleteThread } from '../../../db';
 import { createLogger } from '~logger';
+import {
+    ThreadFilterBar,
+    DEFAULT_THREAD_FILTERS,
+    toThreadQueryOptions,
+    type ThreadFilters
+} from './ThreadFilterBar';
 const log = createLogger('ThreadList');
 
 interface ThreadListProps {
@@ -13,19 +19,28 @@ interface ThreadListProps {
 
 export function ThreadList({ currentThreadId, onThreadSelect, onNewThread, onBack }: ThreadListProps) {
     const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [filters, setFilters] = useState<ThreadFilters>(DEFAULT_THREAD_FILTERS);
+    const [folders, setFolders] = useState<ChatFolder[]>([]);
+    const [availableTags, setAvailableTags] = useState<string[]>([]);
 
-    const loadThreads = async () => {
+    const loadThreads = useCallback(async () => {
         try {
-            const allThreads = await getAllThreads();
-            setThreads(allThreads);
+            const [page, allFolders, tags] = await Promise.all([
+                queryThreads(toThreadQueryOptions(filters)),
+                getAllFolders(),
+                getAllThreadTags()
+            ]);
+            setThreads(page.items);
+            setFolders(allFolders);
+            setAvailableTags(tags.map(t => t.tag));
         } catch (error) {
             log.error('Failed to load threads', error);
         }
-    };
+    }, [filters]);
 
     useEffect(() => {
         loadThreads();
-    }, []);
+    }, [loadThreads]);
 
     const handleDeleteThread = async (threadId: string, e: React.MouseEvent) => {
         e.stopPropagation();
@@ -84,6 +99,13 @@ export function ThreadList({ currentThreadId, onThreadSelect, onNewThread, onBac
                 New Chat
             </button>
 
+            <ThreadFilterBar
+                filters={filters}
+                onChange={setFilters}
+                folders={folders}
+                availableTags={availableTags}
+            />
+
             <div className="threads-list">
                 {threads.length === 0 ? (
                     <div className="no-threads">
@@ -101,7 +123,7 @@ export function ThreadList({ currentThreadId, onThreadSelect, onNewThread, onBac
                             }}
                         >
                             <div className="thread-content">
-                                <div className="thread-title">{cleanTitle(thread.title)}</div>
+                                <div className="thread-title">{thread.pinned ? '📌 ' : ''}{cleanTitle(thread.title)}</div>
                                 <div className="thread-date">{formatDate(thread.updatedAt)}</div>
                             </div>
                             <button
@@ -1,21 +1,72 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import type { ChatThread } from '../../../db';
-import { getAllThreads, deleteThread } from '../../../db';
+import type { ChatThread, ChatFolder, ChatSearchResult } from '../../../db';
+import {
+    deleteThread,
+    searchChatHistory,
+    queryThreads,
+    getAllFolders,
+    getAllThreadTags,
+    createFolder,
+    setThreadPinned,
+    setThreadArchived,
+    setThreadTags,
+    moveThreadToFolder
+} from '../../../db';
+import { buildChatExportFile } from '../../../db/archive';
+import type { ChatExportFormat } from '../../../types/database';
+import { downloadTextFile } from '@/utils/files';
 import { createLogger } from '~logger';
+import {
+    ThreadFilterBar,
+    DEFAULT_THREAD_FILTERS,
+    toThreadQueryOptions,
+    type ThreadFilters
+} from './ThreadFilterBar';
 
 const log = createLogger('ThreadListSidePanel');
 
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_RESULT_LIMIT = 50;
+const THREAD_PAGE_SIZE = 50;
+
 function cleanTitle(title: string): string {
     return title.replace(/^(User:|Assistant:)\s*/gi, '').trim();
 }
 
+/**
+ * Render a search snippet with <mark> around highlighted ranges
+ */
+function renderHighlightedSnippet(result: ChatSearchResult) {
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const { start, end } of result.highlights) {
+        if (start > cursor) {
+            nodes.push(result.snippet.slice(cursor, start));
+        }
+        nodes.push(<mark key={start} className="thread-search-highlight">{result.snippet.slice(start, end)}</mark>);
+        cursor = end;
+    }
+    if (cursor < result.snippet.length) {
+        nodes.push(result.snippet.slice(cursor));
+    }
+    return nodes;
+}
+
+function describeMatch(result: ChatSearchResult): string {
+    if (result.matchedIn === 'title') return 'Title';
+    if (result.matchedIn === 'tool') return 'Tool call';
+    return result.role === 'user' ? 'You' : 'Assistant';
+}
+
 interface ThreadListSidePanelProps {
     isOpen: boolean;
     onClose: () => void;
     currentThreadId: string | null;
     onThreadSelect: (threadId: string) => void;
     onNewThread: () => void;
+    /** Called when a search result is picked; messageId is undefined for title matches */
+    onSearchResultSelect?: (threadId: string, messageId?: string) => void;
 }
 
 export function ThreadListSidePanel({
@@ -23,43 +74,113 @@ export function ThreadListSidePanel({
     onClose,
     currentThreadId,
     onThreadSelect,
-    onNewThread
+    onNewThread,
+    onSearchResultSelect
 }: ThreadListSidePanelProps) {
     const [threads, setThreads] = useState<ChatThread[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [exportFormat, setExportFormat] = useState<ChatExportFormat>('json');
+    const [filters, setFilters] = useState<ThreadFilters>(DEFAULT_THREAD_FILTERS);
+    const [folders, setFolders] = useState<ChatFolder[]>([]);
+    const [availableTags, setAvailableTags] = useState<string[]>([]);
+    const [pageLimit, setPageLimit] = useState(THREAD_PAGE_SIZE);
+    const [hasMore, setHasMore] = useState(false);
+    const [organizingThreadId, setOrganizingThreadId] = useState<string | null>(null);
+    const [organizeFolder, setOrganizeFolder] = useState('');
+    const [organizeTags, setOrganizeTags] = useState('');
 
-    const loadThreads = async () => {
+    const isSearchActive = searchQuery.trim().length > 0;
+    const hasActiveFilters = filters.view !== 'active' || filters.folder !== 'all' || filters.tags.length > 0;
+
+    const loadThreads = useCallback(async (showLoading = true) => {
         try {
-            setIsLoading(true);
+            if (showLoading) setIsLoading(true);
             setError(null);
-            const allThreads = await getAllThreads();
-            setThreads(allThreads);
+            const [page, allFolders, tags] = await Promise.all([
+                queryThreads({ ...toThreadQueryOptions(filters), limit: pageLimit }),
+                getAllFolders(),
+                getAllThreadTags()
+            ]);
+            setThreads(page.items);
+            setHasMore(page.hasMore);
+            setFolders(allFolders);
+            setAvailableTags(tags.map(t => t.tag));
         } catch (error) {
             log.error('Failed to load threads', error);
             setError(error instanceof Error ? error.message : 'Failed to load conversations');
         } finally {
-            setIsLoading(false);
+            if (showLoading) setIsLoading(false);
         }
-    };
+    }, [filters, pageLimit]);
 
     useEffect(() => {
         if (isOpen) {
             loadThreads();
         }
-    }, [isOpen]);
+    }, [isOpen, loadThreads]);
 
     // Refresh threads periodically when panel is open to catch external deletions
     useEffect(() => {
         if (!isOpen) return;
 
         const interval = setInterval(() => {
-            loadThreads();
+            loadThreads(false);
         }, 5000);
 
         return () => clearInterval(interval);
+    }, [isOpen, loadThreads]);
+
+    // Start from the first page whenever filters change
+    useEffect(() => {
+        setPageLimit(THREAD_PAGE_SIZE);
+    }, [filters]);
+
+    // Reset search and selection when the panel closes
+    useEffect(() => {
+        if (!isOpen) {
+            setSearchQuery('');
+            setSearchResults([]);
+            setIsSelecting(false);
+            setSelectedIds(new Set());
+            setOrganizingThreadId(null);
+        }
     }, [isOpen]);
 
+    // Debounced full-text search across all threads
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (!query) {
+            setSearchResults([]);
+            setIsSearching(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsSearching(true);
+        const timeout = setTimeout(async () => {
+            try {
+                const results = await searchChatHistory(query, { limit: SEARCH_RESULT_LIMIT });
+                if (!cancelled) setSearchResults(results);
+            } catch (error) {
+                log.error('Chat search failed', error instanceof Error ? error.message : String(error));
+                if (!cancelled) setSearchResults([]);
+            } finally {
+                if (!cancelled) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [searchQuery]);
+
     const handleDeleteThread = async (threadId: string, e: React.MouseEvent) => {
         e.stopPropagation();
         try {
@@ -75,6 +196,100 @@ export function ThreadListSidePanel({
         }
     };
 
+    const handleTogglePinned = async (thread: ChatThread, e: React.MouseEvent) => {
+        e.stopPropagation();
+        try {
+            await setThreadPinned(thread.id, !thread.pinned);
+            await loadThreads(false);
+        } catch (error) {
+            log.error('Failed to update pin state', error);
+        }
+    };
+
+    const handleToggleArchived = async (thread: ChatThread, e: React.MouseEvent) => {
+        e.stopPropagation();
+        try {
+            await setThreadArchived(thread.id, !thread.archived);
+            await loadThreads(false);
+        } catch (error) {
+            log.error('Failed to update archive state', error);
+        }
+    };
+
+    const handleCreateFolder = async (): Promise<ChatFolder | null> => {
+        const name = window.prompt('Folder name');
+        if (!name?.trim()) return null;
+        try {
+            const folder = await createFolder(name);
+            setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+            return folder;
+        } catch (error) {
+            log.error('Failed to create folder', error);
+            return null;
+        }
+    };
+
+    const openOrganizer = (thread: ChatThread, e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (organizingThreadId === thread.id) {
+            setOrganizingThreadId(null);
+            return;
+        }
+        setOrganizingThreadId(thread.id);
+        setOrganizeFolder(thread.folderId ?? '');
+        setOrganizeTags((thread.tags || []).join(', '));
+    };
+
+    const handleSaveOrganizer = async (threadId: string) => {
+        try {
+            await moveThreadToFolder(threadId, organizeFolder || null);
+            await setThreadTags(threadId, organizeTags.split(','));
+            setOrganizingThreadId(null);
+            await loadThreads(false);
+        } catch (error) {
+            log.error('Failed to organize thread', error);
+        }
+    };
+
+    const exportThreads = async (threadIds: string[], format: ChatExportFormat) => {
+        try {
+            const file = await buildChatExportFile(format, threadIds);
+            downloadTextFile(file.content, file.fileName, file.mimeType);
+        } catch (error) {
+            log.error('Failed to export threads', error instanceof Error ? error.message : String(error));
+            setError('Failed to export conversations');
+        }
+    };
+
+    const handleExportThread = async (threadId: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        await exportThreads([threadId], 'json');
+    };
+
+    const toggleSelected = (threadId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(threadId)) {
+                next.delete(threadId);
+            } else {
+                next.add(threadId);
+            }
+            return next;
+        });
+    };
+
+    const handleExportSelected = async () => {
+        if (selectedIds.size === 0) return;
+        await exportThreads(Array.from(selectedIds), exportFormat);
+        setIsSelecting(false);
+        setSelectedIds(new Set());
+    };
+
+    const cancelSelection = () => {
+        setIsSelecting(false);
+        setSelectedIds(new Set());
+    };
+
     const formatDate = (timestamp: number) => {
         const date = new Date(timestamp);
         const now = new Date();
@@ -93,10 +308,23 @@ export function ThreadListSidePanel({
     };
 
     const handleThreadClick = (threadId: string) => {
+        if (isSelecting) {
+            toggleSelected(threadId);
+            return;
+        }
         onThreadSelect(threadId);
         onClose();
     };
 
+    const handleSearchResultClick = (result: ChatSearchResult) => {
+        if (onSearchResultSelect) {
+            onSearchResultSelect(result.threadId, result.messageId);
+        } else {
+            onThreadSelect(result.threadId);
+        }
+        onClose();
+    };
+
     const handleNewChat = () => {
         onNewThread();
         onClose();
@@ -147,8 +375,107 @@ export function ThreadListSidePanel({
                             New Chat
                         </button>
 
+                        <div className="thread-search">
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                                <circle cx="11" cy="11" r="7" />
+                                <path d="M21 21l-4.35-4.35" />
+                            </svg>
+                            <input
+                                type="search"
+                                className="thread-search-input"
+                                placeholder="Search all conversations"
+                                aria-label="Search all conversations"
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Escape') setSearchQuery('');
+                                }}
+                            />
+                        </div>
+
+                        {!isSearchActive && (
+                            <ThreadFilterBar
+                                filters={filters}
+                                onChange={setFilters}
+                                folders={folders}
+                                availableTags={availableTags}
+                                onCreateFolder={async () => {
+                                    const folder = await handleCreateFolder();
+                                    if (folder) setFilters(prev => ({ ...prev, folder: folder.id }));
+                                }}
+                            />
+                        )}
+
+                        {!isSearchActive && threads.length > 0 && (
+                            <div className="thread-sidepanel-toolbar">
+                                {isSelecting ? (
+                                    <>
+                                        <span className="thread-sidepanel-toolbar-count">{selectedIds.size} selected</span>
+                                        <select
+                                            className="thread-sidepanel-toolbar-select"
+                                            value={exportFormat}
+                                            onChange={(e) => setExportFormat(e.target.value as ChatExportFormat)}
+                                            aria-label="Export format"
+                                        >
+                                            <option value="json">JSON</option>
+                                            <option value="markdown">Markdown</option>
+                                            <option value="html">HTML</option>
+                                        </select>
+                                        <button
+                                            type="button"
+                                            className="thread-sidepanel-toolbar-button primary"
+                                            onClick={handleExportSelected}
+                                            disabled={selectedIds.size === 0}
+                                        >
+                                            Export
+                                        </button>
+                                        <button type="button" className="thread-sidepanel-toolbar-button" onClick={cancelSelection}>
+                                            Cancel
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button type="button" className="thread-sidepanel-toolbar-button" onClick={() => setIsSelecting(true)}>
+                                        Select to export
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
                         <div className="thread-sidepanel-content">
-                            {isLoading ? (
+                            {isSearchActive ? (
+                                searchResults.length === 0 ? (
+                                    <div className="thread-sidepanel-empty">
+                                        <h3>{isSearching ? 'Searching...' : 'No matches'}</h3>
+                                        {!isSearching && <p>Try different or fewer words</p>}
+                                    </div>
+                                ) : (
+                                    <div className="thread-sidepanel-list">
+                                        {searchResults.map((result) => (
+                                            <div
+                                                key={`${result.threadId}-${result.messageId ?? 'title'}`}
+                                                className={`thread-sidepanel-item thread-search-result ${result.threadId === currentThreadId ? 'active' : ''}`}
+                                                role="button"
+                                                tabIndex={0}
+                                                onClick={() => handleSearchResultClick(result)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter' || e.key === ' ') {
+                                                        e.preventDefault();
+                                                        handleSearchResultClick(result);
+                                                    }
+                                                }}
+                                            >
+                                                <div className="thread-sidepanel-item-content">
+                                                    <div className="thread-sidepanel-item-title">{cleanTitle(result.threadTitle)}</div>
+                                                    <div className="thread-search-snippet">{renderHighlightedSnippet(result)}</div>
+                                                    <div className="thread-sidepanel-item-date">
+                                                        {describeMatch(result)} · {formatDate(result.timestamp)}
+                                                    </div>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )
+                            ) : isLoading ? (
                                 <div className="thread-sidepanel-empty">
                                     <div className="thread-sidepanel-empty-icon">
                                         <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -170,7 +497,7 @@ export function ThreadListSidePanel({
                                     </div>
                                     <h3>Failed to load conversations</h3>
                                     <p>{error}</p>
-                                    <button onClick={loadThreads} className="thread-sidepanel-new-button" style={{ marginTop: '16px' }}>
+                                    <button onClick={() => loadThreads()} className="thread-sidepanel-new-button" style={{ marginTop: '16px' }}>
                                         <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                                             <path d="M1 4v6h6M23 20v-6h-6" />
                                             <path d="M20.49 9A9 9 0 0 0 5.64 5.64L1 10m22 4l-4.64 4.36A9 9 0 0 1 3.51 15" />
@@ -185,32 +512,164 @@ export function ThreadListSidePanel({
                                             <path d="M21 15a2 2 0 01-2 2H7l-4 4V5a2 2 0 012-2h14a2 2 0 012 2z" />
                                         </svg>
                                     </div>
-                                    <h3>No conversations yet</h3>
-                                    <p>Start a new conversation to begin</p>
+                                    <h3>{hasActiveFilters ? 'No matching conversations' : 'No conversations yet'}</h3>
+                                    <p>{hasActiveFilters ? 'Try a different folder, tag or view' : 'Start a new conversation to begin'}</p>
                                 </div>
                             ) : (
                                 <div className="thread-sidepanel-list">
-                                    {threads.map((thread) => (
-                                        <div
-                                            key={thread.id}
-                                            className={`thread-sidepanel-item ${thread.id === currentThreadId ? 'active' : ''}`}
-                                            onClick={() => handleThreadClick(thread.id)}
-                                        >
-                                            <div className="thread-sidepanel-item-content">
-                                                <div className="thread-sidepanel-item-title">{cleanTitle(thread.title)}</div>
-                                                <div className="thread-sidepanel-item-date">{formatDate(thread.updatedAt)}</div>
+                                    {threads.map((thread) => {
+                                        const folderName = thread.folderId
+                                            ? folders.find(f => f.id === thread.folderId)?.name
+                                            : undefined;
+                                        const isOrganizing = organizingThreadId === thread.id;
+
+                                        return (
+                                            <div key={thread.id} className="thread-sidepanel-item-wrapper">
+                                                <div
+                                                    className={`thread-sidepanel-item ${thread.id === currentThreadId ? 'active' : ''} ${selectedIds.has(thread.id) ? 'selected' : ''}`}
+                                                    onClick={() => handleThreadClick(thread.id)}
+                                                >
+                                                    {isSelecting && (
+                                                        <input
+                                                            type="checkbox"
+                                                            className="thread-sidepanel-item-checkbox"
+                                                            checked={selectedIds.has(thread.id)}
+                                                            onChange={() => toggleSelected(thread.id)}
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            aria-label={`Select ${cleanTitle(thread.title)}`}
+                                                        />
+                                                    )}
+                                                    <div className="thread-sidepanel-item-content">
+                                                        <div className="thread-sidepanel-item-title">
+                                                            {thread.pinned && <span className="thread-pinned-indicator" aria-label="Pinned">📌 </span>}
+                                                            {cleanTitle(thread.title)}
+                                                        </div>
+                                                        <div className="thread-sidepanel-item-date">
+                                                            {formatDate(thread.updatedAt)}
+                                                            {folderName && <span className="thread-folder-label"> · {folderName}</span>}
+                                                        </div>
+                                                        {thread.tags && thread.tags.length > 0 && (
+                                                            <div className="thread-item-tags">
+                                                                {thread.tags.map(tag => (
+                                                                    <span key={tag} className="thread-tag-chip small">#{tag}</span>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                    <button
+                                                        type="button"
+                                                        className={`thread-sidepanel-item-delete ${thread.pinned ? 'is-on' : ''}`}
+                                                        onClick={(e) => handleTogglePinned(thread, e)}
+                                                        title={thread.pinned ? 'Unpin conversation' : 'Pin conversation'}
+                                                        aria-label={thread.pinned ? 'Unpin conversation' : 'Pin conversation'}
+                                                    >
+                                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                                                            <path d="M12 17v5M9 10.76V6h6v4.76l2 3.24H7l2-3.24zM8 2h8" />
+                                                        </svg>
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        className={`thread-sidepanel-item-delete ${isOrganizing ? 'is-on' : ''}`}
+                                                        onClick={(e) => openOrganizer(thread, e)}
+                                                        title="Folder and tags"
+                                                        aria-label="Folder and tags"
+                                                    >
+                                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                                                            <path d="M20.59 13.41l-7.17 7.17a2 2 0 01-2.83 0L2 12V2h10l8.59 8.59a2 2 0 010 2.82zM7 7h.01" />
+                                                        </svg>
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        className="thread-sidepanel-item-delete"
+                                                        onClick={(e) => handleToggleArchived(thread, e)}
+                                                        title={thread.archived ? 'Restore conversation' : 'Archive conversation'}
+                                                        aria-label={thread.archived ? 'Restore conversation' : 'Archive conversation'}
+                                                    >
+                                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                                                            <path d="M21 8v13H3V8M1 3h22v5H1zM10 12h4" />
+                                                        </svg>
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        className="thread-sidepanel-item-delete"
+                                                        onClick={(e) => handleExportThread(thread.id, e)}
+                                                        title="Export conversation"
+                                                        aria-label="Export conversation"
+                                                    >
+                                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                                                            <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+                                                        </svg>
+                                                    </button>
+                                                    <button
+                                                        className="thread-sidepanel-item-delete"
+                                                        onClick={(e) => handleDeleteThread(thread.id, e)}
+                                                        title="Delete conversation"
+                                                    >
+                                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                                            <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+                                                        </svg>
+                                                    </button>
+                                                </div>
+
+                                                {isOrganizing && (
+                                                    <div className="thread-organizer">
+                                                        <label className="thread-organizer-field">
+                                                            <span>Folder</span>
+                                                            <select
+                                                                className="thread-filter-select"
+                                                                value={organizeFolder}
+                                                                onChange={async (e) => {
+                                                                    if (e.target.value === '__new__') {
+                                                                        const folder = await handleCreateFolder();
+                                                                        if (folder) setOrganizeFolder(folder.id);
+                                                                        return;
+                                                                    }
+                                                                    setOrganizeFolder(e.target.value);
+                                                                }}
+                                                            >
+                                                                <option value="">No folder</option>
+                                                                {folders.map(folder => (
+                                                                    <option key={folder.id} value={folder.id}>{folder.name}</option>
+                                                                ))}
+                                                                <option value="__new__">+ New folder…</option>
+                                                            </select>
+                                                        </label>
+                                                        <label className="thread-organizer-field">
+                                                            <span>Tags</span>
+                                                            <input
+                                                                type="text"
+                                                                className="thread-organizer-input"
+                                                                value={organizeTags}
+                                                                placeholder="research, work"
+                                                                onChange={(e) => setOrganizeTags(e.target.value)}
+                                                                onKeyDown={(e) => {
+                                                                    if (e.key === 'Enter') handleSaveOrganizer(thread.id);
+                                                                    if (e.key === 'Escape') setOrganizingThreadId(null);
+                                                                }}
+                                                            />
+                                                        </label>
+                                                        <div className="thread-organizer-actions">
+                                                            <button type="button" className="thread-sidepanel-toolbar-button" onClick={() => setOrganizingThreadId(null)}>
+                                                                Cancel
+                                                            </button>
+                                                            <button type="button" className="thread-sidepanel-toolbar-button primary" onClick={() => handleSaveOrganizer(thread.id)}>
+                                                                Save
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                )}
                                             </div>
-                                            <button
-                                                className="thread-sidepanel-item-delete"
-                                                onClick={(e) => handleDeleteThread(thread.id, e)}
-                                                title="Delete conversation"
-                                            >
-                                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                                    <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
-                                                </svg>
-                                            </button>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
+                                    {hasMore && (
+                                        <button
+                                            type="button"
+                                            className="thread-sidepanel-toolbar-button thread-load-more"
+                                            onClick={() => setPageLimit(limit => limit + THREAD_PAGE_SIZE)}
+                                        >
+                                            Load more
+                                        </button>
+                                    )}
                                 </div>
                             )}
                         </div>
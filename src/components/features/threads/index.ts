@@ -1,2 +1,4 @@
 export { ThreadList } from './ThreadList';
 export { ThreadListSidePanel } from './ThreadListSidePanel';
+export { ThreadFilterBar, DEFAULT_THREAD_FILTERS, toThreadQueryOptions } from './ThreadFilterBar';
+export type { ThreadFilters, ThreadStatusView } from './ThreadFilterBar';
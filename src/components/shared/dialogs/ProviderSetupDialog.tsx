@@ -12,18 +12,60 @@ import {
     getProviderConfig,
     setGoogleApiKey,
     setVertexCredentials,
+    setOpenAICompatibleConfig,
     clearGoogleApiKey,
     clearVertexCredentials,
+    clearOpenAICompatibleConfig,
     hasGoogleApiKey,
     hasVertexCredentials,
     setSelectedProvider,
 } from '@/utils/credentials';
 import type { AIProvider, VertexCredentials } from '@/utils/credentials';
 import { getModelConfig, setModelConfig } from '@/utils/ai';
+import { BaseAppError } from '@/errors/errorTypes';
+import { fetchOpenAICompatibleModels, normalizeOpenAICompatibleBaseUrl } from '@/ai/models/openAICompatible';
 import type { RemoteModelType } from '../../features/chat/types';
 
 const log = createLogger('ProviderSetupDialog');
 
+const PROVIDER_LABELS: Record<AIProvider, string> = {
+    google: 'Google AI',
+    vertex: 'Vertex AI',
+    'openai-compatible': 'OpenAI-compatible',
+};
+
+const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+const fieldLabelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '0.875rem',
+    fontWeight: 500,
+    marginBottom: '0.5rem',
+    color: 'var(--text-secondary)',
+};
+
+const fieldInputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border-color)',
+    fontSize: '0.875rem',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    transition: 'all 0.2s ease',
+};
+
+const fieldFocusHandlers = {
+    onFocus: (e: React.FocusEvent<HTMLInputElement | HTMLSelectElement>) => {
+        e.target.style.borderColor = 'var(--border-color-focus)';
+        e.target.style.background = 'var(--bg-quaternary)';
+    },
+    onBlur: (e: React.FocusEvent<HTMLInputElement | HTMLSelectElement>) => {
+        e.target.style.borderColor = 'var(--border-color)';
+        e.target.style.background = 'var(--bg-tertiary)';
+    },
+};
+
 interface ProviderSetupDialogProps {
     isOpen: boolean;
     onClose: () => void;
@@ -54,6 +96,15 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
     const [vertexPrivateKeyId, setVertexPrivateKeyId] = useState('');
     const [showVertexKey, setShowVertexKey] = useState(false);
 
+    // OpenAI-compatible fields
+    const [compatibleName, setCompatibleName] = useState('');
+    const [compatibleBaseUrl, setCompatibleBaseUrl] = useState(DEFAULT_COMPATIBLE_BASE_URL);
+    const [compatibleApiKey, setCompatibleApiKey] = useState('');
+    const [showCompatibleKey, setShowCompatibleKey] = useState(false);
+    const [compatibleModel, setCompatibleModel] = useState('');
+    const [compatibleModels, setCompatibleModels] = useState<string[]>([]);
+    const [isLoadingModels, setIsLoadingModels] = useState(false);
+
     // Load existing configuration when dialog opens
     useEffect(() => {
         if (isOpen) {
@@ -83,6 +134,14 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                     setVertexPrivateKeyId(config.vertexCredentials.privateKeyId || '');
                 }
 
+                if (config.openAICompatible) {
+                    setCompatibleName(config.openAICompatible.name || '');
+                    setCompatibleBaseUrl(config.openAICompatible.baseUrl);
+                    setCompatibleApiKey(config.openAICompatible.apiKey || '');
+                    setCompatibleModel(config.openAICompatible.model);
+                    setCompatibleModels(config.openAICompatible.models || []);
+                }
+
                 log.info('Loaded existing provider configuration', { provider: config.provider });
             }
 
@@ -110,11 +169,50 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
         }
     };
 
+    const handleLoadModels = async () => {
+        if (!compatibleBaseUrl.trim()) {
+            setNotification({ type: 'error', message: 'Base URL is required' });
+            return;
+        }
+
+        try {
+            setIsLoadingModels(true);
+            setNotification(null);
+            const models = await fetchOpenAICompatibleModels(compatibleBaseUrl, compatibleApiKey.trim() || undefined);
+            setCompatibleModels(models);
+            if (models.length === 0) {
+                setNotification({ type: 'info', message: 'The server did not report any models. Enter a model ID manually.' });
+            } else if (!models.includes(compatibleModel)) {
+                setCompatibleModel(models[0] ?? '');
+            }
+        } catch (error) {
+            log.error('Failed to load models', error);
+            setNotification({
+                type: 'error',
+                message: error instanceof BaseAppError ? error.userMessage : 'Failed to load models from the server.'
+            });
+        } finally {
+            setIsLoadingModels(false);
+        }
+    };
+
     const validateFields = (): { valid: boolean; error?: string } => {
         if (provider === 'google') {
             if (!googleApiKey.trim()) {
                 return { valid: false, error: 'Please enter an API key' };
             }
+        } else if (provider === 'openai-compatible') {
+            if (!compatibleBaseUrl.trim()) {
+                return { valid: false, error: 'Base URL is required' };
+            }
+            try {
+                new URL(compatibleBaseUrl.trim());
+            } catch {
+                return { valid: false, error: 'Base URL must be a full URL, e.g. http://localhost:11434/v1' };
+            }
+            if (!compatibleModel.trim()) {
+                return { valid: false, error: 'Model is required' };
+            }
         } else {
             // Vertex AI validation
             if (!vertexProjectId.trim()) {
@@ -156,6 +254,15 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
             if (provider === 'google') {
                 await setGoogleApiKey(googleApiKey.trim());
                 log.info('Google AI API key saved successfully');
+            } else if (provider === 'openai-compatible') {
+                await setOpenAICompatibleConfig({
+                    baseUrl: normalizeOpenAICompatibleBaseUrl(compatibleBaseUrl),
+                    apiKey: compatibleApiKey.trim() || undefined,
+                    name: compatibleName.trim() || undefined,
+                    model: compatibleModel.trim(),
+                    models: compatibleModels,
+                });
+                log.info('OpenAI-compatible provider saved successfully');
             } else {
                 const credentials: VertexCredentials = {
                     projectId: vertexProjectId.trim(),
@@ -168,15 +275,17 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                 log.info('Vertex AI credentials saved successfully');
             }
 
-            // Save model configuration
-            await setModelConfig({ remoteModel: selectedModel });
+            // Save Gemini model configuration (OpenAI-compatible keeps its model with the provider)
+            if (provider !== 'openai-compatible') {
+                await setModelConfig({ remoteModel: selectedModel });
+            }
 
             // Set the selected provider explicitly (for manual override)
             await setSelectedProvider(provider);
 
             setNotification({
                 type: 'success',
-                message: `${provider === 'google' ? 'Google AI' : 'Vertex AI'} configuration saved successfully!`
+                message: `${PROVIDER_LABELS[provider]} configuration saved successfully!`
             });
 
             // Notify parent that config was saved
@@ -208,6 +317,14 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                 await clearGoogleApiKey();
                 setGoogleApiKeyState('');
                 log.info('Google API key removed');
+            } else if (provider === 'openai-compatible') {
+                await clearOpenAICompatibleConfig();
+                setCompatibleName('');
+                setCompatibleBaseUrl(DEFAULT_COMPATIBLE_BASE_URL);
+                setCompatibleApiKey('');
+                setCompatibleModel('');
+                setCompatibleModels([]);
+                log.info('OpenAI-compatible provider removed');
             } else {
                 await clearVertexCredentials();
                 setVertexProjectId('');
@@ -230,6 +347,8 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
     const hasCurrentProviderConfig = () => {
         if (provider === 'google') {
             return googleApiKey.trim().length > 0;
+        } else if (provider === 'openai-compatible') {
+            return compatibleModel.trim().length > 0;
         } else {
             return vertexProjectId.trim().length > 0 || vertexClientEmail.trim().length > 0;
         }
@@ -409,6 +528,50 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                                     </div>
                                 </div>
                             </label>
+
+                            {/* OpenAI-compatible Option */}
+                            <label
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'flex-start',
+                                    padding: '1rem',
+                                    border: `2px solid ${provider === 'openai-compatible' ? '#4a6fa5' : 'var(--border-color)'}`,
+                                    borderRadius: '8px',
+                                    cursor: 'pointer',
+                                    backgroundColor: provider === 'openai-compatible' ? 'rgba(74, 111, 165, 0.05)' : 'transparent',
+                                    transition: 'all 0.2s ease',
+                                }}
+                                onMouseEnter={(e) => {
+                                    if (provider !== 'openai-compatible') {
+                                        e.currentTarget.style.backgroundColor = 'var(--glass-bg-hover)';
+                                    }
+                                }}
+                                onMouseLeave={(e) => {
+                                    if (provider !== 'openai-compatible') {
+                                        e.currentTarget.style.backgroundColor = 'transparent';
+                                    }
+                                }}
+                            >
+                                <input
+                                    type="radio"
+                                    value="openai-compatible"
+                                    checked={provider === 'openai-compatible'}
+                                    onChange={() => setProvider('openai-compatible')}
+                                    style={{
+                                        marginTop: '0.25rem',
+                                        marginRight: '0.75rem',
+                                        cursor: 'pointer',
+                                    }}
+                                />
+                                <div style={{ flex: 1 }}>
+                                    <div style={{ fontWeight: 500, color: 'var(--text-primary)', marginBottom: '0.25rem' }}>
+                                        OpenAI-compatible
+                                    </div>
+                                    <div style={{ fontSize: '0.8125rem', color: 'var(--text-tertiary)' }}>
+                                        Ollama, llama.cpp, LM Studio or any gateway serving /v1/chat/completions
+                                    </div>
+                                </div>
+                            </label>
                         </div>
                     </div>
 
@@ -488,6 +651,134 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                                 </div>
                             </div>
                         </>
+                    ) : provider === 'openai-compatible' ? (
+                        <>
+                            {/* OpenAI-compatible Fields */}
+                            <div>
+                                <label htmlFor="compatible-name" style={fieldLabelStyle}>
+                                    Name
+                                </label>
+                                <input
+                                    id="compatible-name"
+                                    type="text"
+                                    value={compatibleName}
+                                    onChange={(e) => setCompatibleName(e.target.value)}
+                                    placeholder="Ollama"
+                                    disabled={isLoading || isSaving}
+                                    style={fieldInputStyle}
+                                    {...fieldFocusHandlers}
+                                />
+                            </div>
+
+                            <div>
+                                <label htmlFor="compatible-base-url" style={fieldLabelStyle}>
+                                    Base URL *
+                                </label>
+                                <input
+                                    id="compatible-base-url"
+                                    type="url"
+                                    value={compatibleBaseUrl}
+                                    onChange={(e) => setCompatibleBaseUrl(e.target.value)}
+                                    placeholder={DEFAULT_COMPATIBLE_BASE_URL}
+                                    disabled={isLoading || isSaving}
+                                    style={fieldInputStyle}
+                                    {...fieldFocusHandlers}
+                                />
+                            </div>
+
+                            <div>
+                                <label htmlFor="compatible-api-key" style={fieldLabelStyle}>
+                                    API Key
+                                </label>
+                                <div style={{ position: 'relative' }}>
+                                    <input
+                                        id="compatible-api-key"
+                                        type={showCompatibleKey ? 'text' : 'password'}
+                                        value={compatibleApiKey}
+                                        onChange={(e) => setCompatibleApiKey(e.target.value)}
+                                        placeholder="Optional for local servers"
+                                        disabled={isLoading || isSaving}
+                                        style={{ ...fieldInputStyle, paddingRight: '4rem' }}
+                                        {...fieldFocusHandlers}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowCompatibleKey(!showCompatibleKey)}
+                                        style={{
+                                            position: 'absolute',
+                                            right: '0.5rem',
+                                            top: '50%',
+                                            transform: 'translateY(-50%)',
+                                            fontSize: '0.75rem',
+                                            color: 'var(--text-tertiary)',
+                                            background: 'transparent',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            padding: '0.25rem 0.5rem',
+                                            borderRadius: '4px',
+                                        }}
+                                    >
+                                        {showCompatibleKey ? 'Hide' : 'Show'}
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label htmlFor="compatible-model" style={fieldLabelStyle}>
+                                    Model *
+                                </label>
+                                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                    {compatibleModels.length > 0 ? (
+                                        <select
+                                            id="compatible-model"
+                                            value={compatibleModel}
+                                            onChange={(e) => setCompatibleModel(e.target.value)}
+                                            disabled={isLoading || isSaving}
+                                            style={{ ...fieldInputStyle, cursor: 'pointer' }}
+                                            {...fieldFocusHandlers}
+                                        >
+                                            {!compatibleModels.includes(compatibleModel) && compatibleModel && (
+                                                <option value={compatibleModel}>{compatibleModel}</option>
+                                            )}
+                                            {compatibleModels.map(model => (
+                                                <option key={model} value={model}>{model}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <input
+                                            id="compatible-model"
+                                            type="text"
+                                            value={compatibleModel}
+                                            onChange={(e) => setCompatibleModel(e.target.value)}
+                                            placeholder="llama3.1"
+                                            disabled={isLoading || isSaving}
+                                            style={fieldInputStyle}
+                                            {...fieldFocusHandlers}
+                                        />
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={handleLoadModels}
+                                        disabled={isLoadingModels || isSaving}
+                                        className="dialog-button dialog-button-secondary"
+                                        style={{
+                                            padding: '0.5rem 1rem',
+                                            borderRadius: '8px',
+                                            fontSize: '0.875rem',
+                                            fontWeight: 500,
+                                            border: '1px solid var(--border-color)',
+                                            backgroundColor: 'var(--glass-bg)',
+                                            color: 'var(--text-primary)',
+                                            cursor: isLoadingModels ? 'not-allowed' : 'pointer',
+                                            opacity: isLoadingModels ? 0.5 : 1,
+                                            whiteSpace: 'nowrap',
+                                        }}
+                                    >
+                                        {isLoadingModels ? 'Loading...' : 'Load Models'}
+                                    </button>
+                                </div>
+                            </div>
+                        </>
                     ) : (
                         <>
                             {/* Vertex AI Fields */}
@@ -731,57 +1022,59 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                         </>
                     )}
 
-                    {/* Model Selector */}
-                    <div>
-                        <label
-                            htmlFor="model-selector"
-                            style={{
-                                display: 'block',
-                                fontSize: '0.875rem',
-                                fontWeight: 500,
-                                marginBottom: '0.5rem',
-                                color: 'var(--text-secondary)',
-                            }}
-                        >
-                            Default Model
-                        </label>
-                        <div style={{ position: 'relative' }}>
-                            <select
-                                id="model-selector"
-                                value={selectedModel}
-                                onChange={(e) => setSelectedModel(e.target.value as RemoteModelType)}
+                    {/* Model Selector (Gemini providers only) */}
+                    {provider !== 'openai-compatible' && (
+                        <div>
+                            <label
+                                htmlFor="model-selector"
                                 style={{
-                                    width: '100%',
-                                    padding: '0.75rem',
-                                    borderRadius: '8px',
-                                    border: '1px solid var(--border-color)',
+                                    display: 'block',
                                     fontSize: '0.875rem',
-                                    background: 'var(--bg-tertiary)',
-                                    color: 'var(--text-primary)',
-                                    cursor: 'pointer',
-                                    transition: 'all 0.2s ease',
-                                    appearance: 'none',
-                                    backgroundImage: `url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2'%3e%3cpolyline points='6 9 12 15 18 9'%3e%3c/polyline%3e%3c/svg%3e")`,
-                                    backgroundRepeat: 'no-repeat',
-                                    backgroundPosition: 'right 0.5rem center',
-                                    backgroundSize: '1.25rem',
-                                    paddingRight: '2.5rem',
-                                }}
-                                onFocus={(e) => {
-                                    e.target.style.borderColor = 'var(--border-color-focus)';
-                                    e.target.style.background = 'var(--bg-quaternary)';
-                                }}
-                                onBlur={(e) => {
-                                    e.target.style.borderColor = 'var(--border-color)';
-                                    e.target.style.background = 'var(--bg-tertiary)';
+                                    fontWeight: 500,
+                                    marginBottom: '0.5rem',
+                                    color: 'var(--text-secondary)',
                                 }}
                             >
-                                <option value="gemini-2.5-pro">Gemini 2.5 Pro</option>
-                                <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                                <option value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</option>
-                            </select>
+                                Default Model
+                            </label>
+                            <div style={{ position: 'relative' }}>
+                                <select
+                                    id="model-selector"
+                                    value={selectedModel}
+                                    onChange={(e) => setSelectedModel(e.target.value as RemoteModelType)}
+                                    style={{
+                                        width: '100%',
+                                        padding: '0.75rem',
+                                        borderRadius: '8px',
+                                        border: '1px solid var(--border-color)',
+                                        fontSize: '0.875rem',
+                                        background: 'var(--bg-tertiary)',
+                                        color: 'var(--text-primary)',
+                                        cursor: 'pointer',
+                                        transition: 'all 0.2s ease',
+                                        appearance: 'none',
+                                        backgroundImage: `url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2'%3e%3cpolyline points='6 9 12 15 18 9'%3e%3c/polyline%3e%3c/svg%3e")`,
+                                        backgroundRepeat: 'no-repeat',
+                                        backgroundPosition: 'right 0.5rem center',
+                                        backgroundSize: '1.25rem',
+                                        paddingRight: '2.5rem',
+                                    }}
+                                    onFocus={(e) => {
+                                        e.target.style.borderColor = 'var(--border-color-focus)';
+                                        e.target.style.background = 'var(--bg-quaternary)';
+                                    }}
+                                    onBlur={(e) => {
+                                        e.target.style.borderColor = 'var(--border-color)';
+                                        e.target.style.background = 'var(--bg-tertiary)';
+                                    }}
+                                >
+                                    <option value="gemini-2.5-pro">Gemini 2.5 Pro</option>
+                                    <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
+                                    <option value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</option>
+                                </select>
+                            </div>
                         </div>
-                    </div>
+                    )}
 
                     {/* Help Text */}
                     <div
@@ -809,6 +1102,21 @@ export const ProviderSetupDialog: React.FC<ProviderSetupDialogProps> = ({
                                     <em>The free tier includes generous quotas for personal use.</em>
                                 </p>
                             </>
+                        ) : provider === 'openai-compatible' ? (
+                            <>
+                                <p style={{ margin: 0, marginBottom: '0.5rem', color: 'var(--text-secondary)' }}>
+                                    <strong>Connecting an OpenAI-compatible server:</strong>
+                                </p>
+                                <ol style={{ margin: 0, paddingLeft: '1.25rem', color: 'var(--text-tertiary)' }}>
+                                    <li>Ollama: <code>http://localhost:11434/v1</code>, started with <code>OLLAMA_ORIGINS=chrome-extension://*</code></li>
+                                    <li>llama.cpp server: <code>http://localhost:8080/v1</code></li>
+                                    <li>LM Studio: <code>http://localhost:1234/v1</code></li>
+                                    <li>Hosted gateways: paste their base URL and API key</li>
+                                </ol>
+                                <p style={{ margin: 0, marginTop: '0.5rem', color: 'var(--text-tertiary)', fontSize: '0.75rem' }}>
+                                    <em>Click "Load Models" to list the models the server offers. Pick a model that supports tool calling for agent features.</em>
+                                </p>
+                            </>
                         ) : (
                             <>
                                 <p style={{ margin: 0, marginBottom: '0.5rem', color: 'var(--text-secondary)' }}>
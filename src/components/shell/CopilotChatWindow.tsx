@@ -10,6 +10,7 @@ import { hasGoogleApiKey, hasAnyProviderConfigured } from '@/utils/credentials';
 import type { Message, AIMode, RemoteModelType, ModelState } from '@/components/features/chat/types';
 import type { AppUsage } from '@/ai/types/usage';
 import type { LocalPdfInfo } from '@/hooks/browser';
+import type { MessageBranchInfo } from '@/types/database';
 import { clearAllDismissals } from '@/utils/settings';
 
 interface CopilotChatWindowProps {
@@ -40,6 +41,14 @@ interface CopilotChatWindowProps {
     usage?: AppUsage | null;
     localPdfInfo?: LocalPdfInfo | null;
     threadId?: string | null;
+    focusMessageId?: string | null;
+    onFocusMessageHandled?: () => void;
+    messageBranches?: Map<string, MessageBranchInfo>;
+    onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+    onEditMessage?: (messageId: string, text: string) => void;
+    onRegenerate?: (messageId: string) => void;
+    /** Workflow pipeline progress, shown above the composer */
+    pipelineProgress?: React.ReactNode;
 }
 
 export function CopilotChatWindow({
@@ -68,6 +77,13 @@ export function CopilotChatWindow({
     usage,
     localPdfInfo,
     threadId,
+    focusMessageId,
+    onFocusMessageHandled,
+    messageBranches,
+    onSwitchBranch,
+    onEditMessage,
+    onRegenerate,
+    pipelineProgress,
 }: CopilotChatWindowProps) {
     // Lazy initialization: compute initial state synchronously
     const [modelState, setModelState] = useState<ModelState>(() => {
@@ -232,8 +248,16 @@ export function CopilotChatWindow({
                 onConfigureApiKey={handleOpenApiKeyDialog}
                 onContinue={onContinue}
                 threadId={threadId}
+                focusMessageId={focusMessageId}
+                onFocusMessageHandled={onFocusMessageHandled}
+                messageBranches={messageBranches}
+                onSwitchBranch={onSwitchBranch}
+                onEditMessage={onEditMessage}
+                onRegenerate={onRegenerate}
             />
 
+            {pipelineProgress}
+
             <ChatInput
                 messages={messages}
                 input={input}
@@ -0,0 +1,108 @@
+/**
+ * MacroRunCard - Step-by-step status of a macro replay
+ * Shows live progress while the macro runs and the final result afterwards
+ */
+
+import { Check, Circle, Loader2, Minus, Repeat, X } from 'lucide-react';
+import type { ToolUIState } from '@/ai/tools/components';
+import { useMacroRun } from '@/hooks/workflows';
+import { describeMacroStep, MACRO_TOOL_PREFIX, type MacroStepStatus } from '@/workflows/macros';
+
+interface StepView {
+    action: string;
+    status: MacroStepStatus;
+    error?: string;
+}
+
+interface MacroRunOutput {
+    macro?: string;
+    status?: string;
+    error?: string;
+    steps?: Array<{ action: string; status: MacroStepStatus; error?: string }>;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+    running: 'Running',
+    success: 'Done',
+    failed: 'Stopped',
+    cancelled: 'Cancelled',
+};
+
+function StepIcon({ status }: { status: MacroStepStatus }) {
+    switch (status) {
+        case 'running':
+            return <Loader2 size={12} className="macro-run-spinner" />;
+        case 'success':
+            return <Check size={12} />;
+        case 'failed':
+            return <X size={12} />;
+        case 'skipped':
+            return <Minus size={12} />;
+        default:
+            return <Circle size={8} />;
+    }
+}
+
+interface MacroRunCardProps {
+    state: ToolUIState;
+}
+
+export function MacroRunCard({ state }: MacroRunCardProps) {
+    const macroId = state.toolName.slice(MACRO_TOOL_PREFIX.length);
+    const liveRun = useMacroRun(macroId);
+    const output = state.state === 'output-available' || state.state === 'output-error'
+        ? state.output as MacroRunOutput | undefined
+        : undefined;
+
+    // Finished calls render their stored result; running ones follow the live run
+    let name = macroId;
+    let status = output ? output.status ?? (state.state === 'output-error' ? 'failed' : 'success') : 'running';
+    let error = output?.error ?? state.errorText;
+    let steps: StepView[] = output?.steps ?? [];
+
+    if (output?.macro) {
+        name = output.macro;
+    } else if (!output && liveRun?.status === 'running') {
+        name = liveRun.macroName;
+        status = liveRun.status;
+        error = liveRun.error;
+        steps = liveRun.steps.map(step => ({
+            action: describeMacroStep(step),
+            status: step.status,
+            error: step.error,
+        }));
+    }
+
+    const completed = steps.filter(step => step.status === 'success').length;
+
+    return (
+        <div className={`macro-run-card ${status}`} role="group" aria-label={`Macro ${name}`}>
+            <div className="macro-run-header">
+                <Repeat size={14} className="macro-run-icon" />
+                <span className="macro-run-title">Macro <strong>{name}</strong></span>
+                <span className="macro-run-status">
+                    {STATUS_LABELS[status] ?? status}
+                    {steps.length > 0 && ` · ${completed}/${steps.length}`}
+                </span>
+            </div>
+
+            {steps.length > 0 ? (
+                <ol className="macro-run-steps">
+                    {steps.map((step, index) => (
+                        <li key={index} className={`macro-run-step ${step.status}`}>
+                            <span className="macro-run-step-icon"><StepIcon status={step.status} /></span>
+                            <span className="macro-run-step-action">{step.action}</span>
+                            {step.error && <span className="macro-run-step-error">{step.error}</span>}
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                status === 'running' && <div className="macro-run-empty">Starting…</div>
+            )}
+
+            {error && status !== 'running' && !steps.some(step => step.error) && (
+                <div className="compact-tool-error-text">{error}</div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,139 @@
+/**
+ * ToolApprovalCard - Asks the user to approve, edit or deny a sensitive tool call
+ * Shown in place of the tool's loading card while the call waits for a decision
+ */
+
+import { useState } from 'react';
+import { createLogger } from '~logger';
+import { getToolIcon } from '../icons/ToolIconMapper';
+import { resolveToolApproval, TOOL_RISK_LABELS, type ToolApprovalRequest } from '@/ai/tools/approval';
+import { addToolApprovalRule } from '@/utils/settings/toolApprovalSettings';
+
+const log = createLogger('ToolApprovalCard');
+
+function formatInput(input: unknown): string {
+    try {
+        return JSON.stringify(input ?? {}, null, 2);
+    } catch {
+        return String(input);
+    }
+}
+
+interface ToolApprovalCardProps {
+    request: ToolApprovalRequest;
+}
+
+export function ToolApprovalCard({ request }: ToolApprovalCardProps) {
+    const { toolCallId, toolName, risk, domain, serverId } = request;
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(() => formatInput(request.input));
+    const [error, setError] = useState<string | null>(null);
+    const ToolIcon = getToolIcon(toolName);
+
+    // Parse and validate edited arguments; null means they are invalid
+    const readInput = (): { value: unknown } | null => {
+        if (!isEditing) return { value: request.input };
+        let value: unknown;
+        try {
+            value = JSON.parse(draft);
+        } catch {
+            setError('Arguments must be valid JSON');
+            return null;
+        }
+        const validationError = request.validateInput?.(value);
+        if (validationError) {
+            setError(validationError);
+            return null;
+        }
+        return { value };
+    };
+
+    const approve = async (remember: boolean) => {
+        const input = readInput();
+        if (!input) return;
+
+        if (remember) {
+            try {
+                await addToolApprovalRule(serverId
+                    ? { scope: 'mcp-server', value: serverId }
+                    : { scope: 'domain', value: domain!, toolName });
+            } catch (err) {
+                log.error('Failed to save approval rule', err);
+            }
+        }
+        resolveToolApproval(toolCallId, { approved: true, input: input.value });
+    };
+
+    const rememberLabel = serverId
+        ? `Always allow ${serverId}`
+        : domain ? `Always allow on ${domain}` : null;
+
+    return (
+        <div className={`tool-approval-card ${risk}`} role="group" aria-label={`Approve ${toolName}`}>
+            <div className="tool-approval-header">
+                <span className="tool-approval-icon"><ToolIcon size={16} /></span>
+                <span className="tool-approval-title">Allow <strong>{toolName}</strong>?</span>
+                <span className="tool-approval-risk">{TOOL_RISK_LABELS[risk]}</span>
+            </div>
+            <div className="tool-approval-context">
+                {serverId ? `MCP server: ${serverId}` : domain ? `Site: ${domain}` : 'No site'}
+            </div>
+
+            {isEditing ? (
+                <textarea
+                    className="tool-approval-editor"
+                    value={draft}
+                    onChange={e => {
+                        setDraft(e.target.value);
+                        setError(null);
+                    }}
+                    spellCheck={false}
+                    aria-label={`Arguments for ${toolName}`}
+                />
+            ) : (
+                <pre className="compact-tool-code">{formatInput(request.input)}</pre>
+            )}
+            {error && <div className="compact-tool-error-text">{error}</div>}
+
+            <div className="tool-approval-actions">
+                <button
+                    type="button"
+                    className="tool-approval-button"
+                    onClick={() => resolveToolApproval(toolCallId, { approved: false })}
+                    aria-label={`Deny ${toolName}`}
+                >
+                    Deny
+                </button>
+                <button
+                    type="button"
+                    className="tool-approval-button"
+                    onClick={() => {
+                        setIsEditing(!isEditing);
+                        setError(null);
+                    }}
+                    aria-label={isEditing ? 'Discard edited arguments' : `Edit arguments for ${toolName}`}
+                >
+                    {isEditing ? 'Discard edits' : 'Edit'}
+                </button>
+                {rememberLabel && (
+                    <button
+                        type="button"
+                        className="tool-approval-button"
+                        onClick={() => approve(true)}
+                        aria-label={rememberLabel}
+                    >
+                        {rememberLabel}
+                    </button>
+                )}
+                <button
+                    type="button"
+                    className="tool-approval-button primary"
+                    onClick={() => approve(false)}
+                    aria-label={`Allow ${toolName} once`}
+                >
+                    Allow once
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,2 +1,4 @@
 export * from './ToolCard';
 export * from './CompactToolCard';
+export * from './ToolApprovalCard';
+export * from './MacroRunCard';
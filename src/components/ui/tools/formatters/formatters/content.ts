@@ -25,6 +25,24 @@ export const readPageContentFormatter: ActionFormatter = ({ state, output }) =>
     return { action: 'Failed to read content' };
 };
 
+export const readTabsFormatter: ActionFormatter = ({ state, input, output }) => {
+    const requested = (input?.tabIds?.length || 0) + (input?.urls?.length || 0);
+
+    if (state === 'loading') {
+        return {
+            action: 'Reading tabs',
+            description: requested ? `${requested} sources in parallel` : undefined
+        };
+    }
+    if (state === 'success' && output?.success) {
+        return {
+            action: 'Read tabs',
+            description: output.message ? truncateText(output.message.replace(/\. Cite.*$/, ''), 50) : undefined
+        };
+    }
+    return { action: 'Failed to read tabs', description: output?.message };
+};
+
 export const getSelectedTextFormatter: ActionFormatter = ({ state, output }) => {
     const text = output?.text || output?.selectedText;
     const length = text?.length || 0;
@@ -110,3 +110,28 @@ export const executeScriptFormatter: ActionFormatter = ({ state, input, output }
         description: output?.error ? truncateText(output.error, 50) : 'Unknown error'
     };
 };
+
+export const getAccessibilitySnapshotFormatter: ActionFormatter = ({ state, input, output }) => {
+    if (state === 'loading') {
+        return {
+            action: 'Reading page structure',
+            description: input?.interactiveOnly ? 'Controls only' : undefined
+        };
+    }
+
+    if (state === 'success' && !output?.error) {
+        const nodeCount = output?.nodeCount || 0;
+        return {
+            action: 'Page structure read',
+            description: [
+                `${nodeCount} elements${output?.truncated ? ' (truncated)' : ''}`,
+                output?.title ? truncateText(output.title, 30) : ''
+            ].filter(Boolean).join(' • ')
+        };
+    }
+
+    return {
+        action: 'Snapshot failed',
+        description: output?.error ? truncateText(output.error, 50) : undefined
+    };
+};
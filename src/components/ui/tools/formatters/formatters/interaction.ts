@@ -177,3 +177,78 @@ export const waitForElementFormatter: ActionFormatter = ({ state, input }) => {
     }
     return { action: 'Wait timeout' };
 };
+
+/**
+ * Describe the element a ref tool acted on, e.g. `button "Compose"`, falling back to the ref
+ */
+function describeRefTarget(ref: string | undefined, element: { role?: string; name?: string } | undefined): string | undefined {
+    if (element?.role) {
+        return element.name ? `${element.role} "${truncateText(element.name, 30)}"` : element.role;
+    }
+    return ref;
+}
+
+export const clickByRefFormatter: ActionFormatter = ({ state, input, output }) => {
+    const ref = input?.ref;
+
+    if (state === 'loading') {
+        return {
+            action: 'Clicking element',
+            description: ref
+        };
+    }
+    if (state === 'success' && output?.success) {
+        return {
+            action: 'Element clicked',
+            description: describeRefTarget(ref, output.clicked)
+        };
+    }
+    return {
+        action: 'Click failed',
+        description: output?.error ? truncateText(output.error, 50) : ref
+    };
+};
+
+export const typeByRefFormatter: ActionFormatter = ({ state, input, output }) => {
+    const ref = input?.ref;
+    const text = input?.text || '';
+
+    if (state === 'loading') {
+        return {
+            action: 'Typing',
+            description: `"${truncateText(text, 20)}" • ${ref}`
+        };
+    }
+    if (state === 'success' && output?.success) {
+        const target = describeRefTarget(ref, output.field);
+        return {
+            action: 'Text Typed',
+            description: `${output.typed ?? text.length} chars${input?.pressEnter ? ' + Enter' : ''} • ${target}`
+        };
+    }
+    return {
+        action: 'Typing failed',
+        description: output?.error ? truncateText(output.error, 50) : ref
+    };
+};
+
+export const selectByRefFormatter: ActionFormatter = ({ state, input, output }) => {
+    const option = input?.option;
+
+    if (state === 'loading') {
+        return {
+            action: 'Selecting option',
+            description: option ? `"${truncateText(option, 30)}"` : undefined
+        };
+    }
+    if (state === 'success' && output?.success) {
+        return {
+            action: 'Option selected',
+            description: `"${truncateText(output.selected || option, 30)}"`
+        };
+    }
+    return {
+        action: 'Selection failed',
+        description: output?.error ? truncateText(output.error, 50) : undefined
+    };
+};
@@ -14,6 +14,7 @@ import {
 } from './formatters/search';
 import {
     readPageContentFormatter,
+    readTabsFormatter,
     getSelectedTextFormatter,
     extractTextFormatter,
     scrollIntoViewFormatter,
@@ -27,7 +28,10 @@ import {
     pressKeyFormatter,
     globalTypeTextFormatter,
     scrollFormatter,
-    waitForElementFormatter
+    waitForElementFormatter,
+    clickByRefFormatter,
+    typeByRefFormatter,
+    selectByRefFormatter
 } from './formatters/interaction';
 import {
     switchTabsFormatter,
@@ -74,7 +78,8 @@ import {
 } from './formatters/bookmarks';
 import {
     analyzeDomFormatter,
-    executeScriptFormatter
+    executeScriptFormatter,
+    getAccessibilitySnapshotFormatter
 } from './formatters/dom';
 
 export const formatters: Record<string, ActionFormatter> = {
@@ -97,6 +102,7 @@ export const formatters: Record<string, ActionFormatter> = {
     readPageContent: readPageContentFormatter,
     getPageContent: readPageContentFormatter,
     extractContent: readPageContentFormatter,
+    readTabs: readTabsFormatter,
     getSelectedText: getSelectedTextFormatter,
     getSelection: getSelectedTextFormatter,
     extractText: extractTextFormatter,
@@ -119,6 +125,9 @@ export const formatters: Record<string, ActionFormatter> = {
     scroll: scrollFormatter,
     waitForElement: waitForElementFormatter,
     waitFor: waitForElementFormatter,
+    clickByRef: clickByRefFormatter,
+    typeByRef: typeByRefFormatter,
+    selectByRef: selectByRefFormatter,
 
     // Tabs
     switchTabs: switchTabsFormatter,
@@ -174,5 +183,6 @@ export const formatters: Record<string, ActionFormatter> = {
     // DOM Analysis & Script Execution
     analyzeDom: analyzeDomFormatter,
     executeScript: executeScriptFormatter,
+    getAccessibilitySnapshot: getAccessibilitySnapshotFormatter,
 };
 
@@ -71,8 +71,11 @@ export const TOOL_ICON_MAP: Record<string, React.ComponentType<any>> = {
     // Interaction tools
     clickElement: CursorClickIcon,
     clickByText: CursorClickIcon,
+    clickByRef: CursorClickIcon,
+    selectByRef: CursorClickIcon,
     focusElement: CursorClickIcon,
     typeInField: KeyboardIcon,
+    typeByRef: KeyboardIcon,
     pressKey: KeyboardIcon,
     globalTypeText: KeyboardIcon,
     scroll: ArrowBigDownDashIcon,
@@ -85,6 +88,7 @@ export const TOOL_ICON_MAP: Record<string, React.ComponentType<any>> = {
     findSearchBar: SearchIcon,
     waitFor: ClockIcon,
     readPageContent: ScanTextIcon,
+    readTabs: GalleryHorizontalEndIcon,
     getSelectedText: ExpandIcon,    // Tab tools
     navigateTo: CompassIcon,
     switchTabs: GalleryHorizontalEndIcon,
@@ -125,6 +129,9 @@ export const TOOL_ICON_MAP: Record<string, React.ComponentType<any>> = {
     createReminder: CircleCheckIcon,
     cancelReminder: BanIcon,
     listReminders: FoldersIcon,
+    scheduleTask: CircleCheckIcon,
+    cancelScheduledTask: BanIcon,
+    listScheduledTasks: FoldersIcon,
 
     // Analysis tools
     analyzeContent: ExpandIcon,
@@ -142,6 +149,7 @@ export const TOOL_ICON_MAP: Record<string, React.ComponentType<any>> = {
 
     // DOM tools
     analyzeDom: ExpandIcon,
+    getAccessibilitySnapshot: ScanTextIcon,
     executeScript: CodeExecuteIcon,
 
     // Unified tools
@@ -14,9 +14,11 @@ export const TOOL_DESCRIPTIONS: Record<string, string> = {
     // Content
     takeScreenshot: 'Capture page screenshots',
     readPageContent: 'Extract page text content',
+    readTabs: 'Read several tabs in parallel with citation numbers',
     extractText: 'Extract text from elements',
     findSearchBar: 'Locate search inputs on page',
     analyzeDom: 'Analyze DOM structure and interactive elements',
+    getAccessibilitySnapshot: 'List page controls as an accessibility tree with element refs',
 
     // Interaction
     typeInField: 'Type text into input fields',
@@ -25,6 +27,9 @@ export const TOOL_DESCRIPTIONS: Record<string, string> = {
     focusElement: 'Focus on specific elements',
     scrollTo: 'Scroll to page elements',
     executeScript: 'Execute custom JavaScript on page',
+    clickByRef: 'Click elements by snapshot ref',
+    typeByRef: 'Type into fields by snapshot ref',
+    selectByRef: 'Choose dropdown options by snapshot ref',
 
     // Search & History
     chromeSearch: 'Search using Chrome search',
@@ -33,11 +38,22 @@ export const TOOL_DESCRIPTIONS: Record<string, string> = {
     searchHistory: 'Search browsing history',
     getUrlVisits: 'Get visit history for URLs',
 
+    // Memory (on-device)
+    saveMemory: 'Remember facts and preferences on this device',
+    getMemory: 'Recall a saved memory by key',
+    listMemories: 'List or search saved memories',
+    deleteMemory: 'Forget a saved memory',
+
     // Reminders
     createReminder: 'Create time-based reminders',
     listReminders: 'List active reminders',
     cancelReminder: 'Cancel existing reminders',
 
+    // Scheduled Tasks
+    scheduleTask: 'Run a prompt or workflow on a schedule',
+    listScheduledTasks: 'List scheduled tasks',
+    cancelScheduledTask: 'Delete or pause scheduled tasks',
+
     // Other
     getYouTubeTranscript: 'Fetch YouTube video transcript and metadata',
     generatePDF: 'Generate PDF documents',
@@ -62,14 +78,15 @@ export const TOOL_DESCRIPTIONS: Record<string, string> = {
  */
 export const TOOL_CATEGORIES: Record<string, string[]> = {
     'Tabs & Navigation': ['navigateTo', 'switchTabs', 'getActiveTab', 'getAllTabs', 'applyTabGroups', 'ungroupTabs', 'organizeTabsByContext'],
-    'Page Interaction': ['typeInField', 'clickByText', 'pressKey', 'focusElement', 'scrollTo', 'findSearchBar', 'executeScript'],
-    'Page Content': ['takeScreenshot', 'readPageContent', 'extractText', 'analyzeDom'],
+    'Page Interaction': ['typeInField', 'clickByText', 'pressKey', 'focusElement', 'scrollTo', 'findSearchBar', 'executeScript', 'clickByRef', 'typeByRef', 'selectByRef'],
+    'Page Content': ['takeScreenshot', 'readPageContent', 'readTabs', 'extractText', 'analyzeDom', 'getAccessibilitySnapshot'],
     'Search': ['chromeSearch', 'getSearchResults', 'openSearchResult'],
     'History': ['searchHistory', 'getUrlVisits'],
     'Bookmarks': ['createBookmark', 'searchBookmarks', 'listBookmarks', 'deleteBookmark', 'updateBookmark', 'getBookmarkTree', 'organizeBookmarks'],
     'Reminders': ['createReminder', 'listReminders', 'cancelReminder'],
+    'Scheduled Tasks': ['scheduleTask', 'listScheduledTasks', 'cancelScheduledTask'],
     'Utilities': ['getYouTubeTranscript'],
-    'Memory': ['addMemory', 'searchMemories']
+    'Memory': ['saveMemory', 'getMemory', 'listMemories', 'deleteMemory', 'addMemory', 'searchMemories']
 };
 
 /**
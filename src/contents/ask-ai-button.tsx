@@ -10,6 +10,7 @@ import {
     hideForSession,
     hideForever,
 } from "@/utils/settings";
+import { useSiteFeatureAllowed } from "./shared/useSiteFeatureAllowed";
 
 export const config: PlasmoCSConfig = {
     matches: ["<all_urls>"],
@@ -49,6 +50,8 @@ const AskAIButton = () => {
     const currentPositionRef = useRef<Position | null>(null);
     const rafIdRef = useRef<number | null>(null);
     const isOverTrashRef = useRef(false);
+    // Follows site rule changes, e.g. the side panel quick toggle
+    const isSiteAllowed = useSiteFeatureAllowed("askAiButton");
 
     // Load saved position and check visibility settings on mount
     useEffect(() => {
@@ -429,7 +432,7 @@ const AskAIButton = () => {
     return (
         <>
             {/* Ask AI Button - hidden when menu is showing or not ready */}
-            {!showMenu && isReady && (
+            {!showMenu && isReady && isSiteAllowed && (
                 <div
                     ref={buttonRef}
                     className={getButtonClasses()}
@@ -13,6 +13,7 @@ import { useCallback, useEffect, useState, useRef } from 'react';
 import { isAskCommandEnabled } from '@/utils/settings';
 import type { AskPosition, AskModeState } from '@/types';
 import { createLogger } from '~logger';
+import { useSiteFeatureAllowed } from '../shared/useSiteFeatureAllowed';
 
 const log = createLogger('AskCommandDetection');
 
@@ -127,7 +128,9 @@ export function useAskCommandDetection() {
         targetElement: null,
         position: { x: 0, y: 0 },
     });
-    const [isEnabled, setIsEnabled] = useState(true);
+    const [isFeatureEnabled, setIsFeatureEnabled] = useState(true);
+    const isSiteAllowed = useSiteFeatureAllowed('askCommand');
+    const isEnabled = isFeatureEnabled && isSiteAllowed;
     const processingRef = useRef(false);
     const lastCommandTimeRef = useRef(0);
 
@@ -135,13 +138,13 @@ export function useAskCommandDetection() {
     useEffect(() => {
         if (!chrome.runtime?.id) {
             log.warn('Extension context invalidated, disabling ask command');
-            setIsEnabled(false);
+            setIsFeatureEnabled(false);
             return;
         }
 
-        isAskCommandEnabled().then(setIsEnabled).catch(() => {
+        isAskCommandEnabled().then(setIsFeatureEnabled).catch(() => {
             log.warn('Failed to check ask command settings');
-            setIsEnabled(false);
+            setIsFeatureEnabled(false);
         });
     }, []);
 
@@ -0,0 +1,219 @@
+/**
+ * Macro Recorder Content Script
+ *
+ * While the background worker is recording this tab, turns the user's
+ * clicks, typing and key presses into the tool calls that replay them:
+ * - click on a button or link -> clickByText with its visible text
+ * - editing a text field      -> typeInField with a description of the field
+ * - Enter / Escape / Tab, etc -> pressKey
+ *
+ * Password fields are recorded as a `{{password}}` parameter, never their value.
+ * Only runs on the main frame, like the tools it records for.
+ */
+
+import type { PlasmoCSConfig } from 'plasmo';
+import type { RecordedAction } from '@/workflows/macros/types';
+
+export const config: PlasmoCSConfig = {
+  matches: ['<all_urls>'],
+  all_frames: false,
+  run_at: 'document_idle',
+};
+
+const CLICKABLE_SELECTOR = [
+  'a[href]',
+  'button',
+  'summary',
+  'label',
+  'input[type="submit"]',
+  'input[type="button"]',
+  'input[type="checkbox"]',
+  'input[type="radio"]',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="menuitem"]',
+  '[role="tab"]',
+  '[role="option"]',
+  '[role="checkbox"]',
+  '[onclick]',
+].join(', ');
+
+const TEXT_INPUT_TYPES = ['', 'text', 'search', 'email', 'url', 'tel', 'number', 'password'];
+
+/** Keys that always mean something, even while typing */
+const COMMIT_KEYS = ['Enter', 'Escape', 'Tab'];
+/** Keys only recorded outside text fields, where they navigate lists and pages */
+const NAVIGATION_KEYS = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown', 'Home', 'End'];
+
+const MAX_TEXT_LENGTH = 80;
+
+let recording = false;
+
+// Last value recorded per field, so change events don't repeat what Enter already committed
+const recordedValues = new WeakMap<Element, string>();
+
+function report(action: RecordedAction): void {
+  chrome.runtime.sendMessage({ type: 'macro/recording/action', payload: { action } }).catch(() => {
+    // Extension reloaded; nothing to record into
+  });
+}
+
+function collapse(text: string | null | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function isTextField(element: Element): element is HTMLInputElement | HTMLTextAreaElement {
+  if (element instanceof HTMLTextAreaElement) return true;
+  return element instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(element.type);
+}
+
+function isEditable(element: Element): boolean {
+  return isTextField(element) || element instanceof HTMLSelectElement || (element as HTMLElement).isContentEditable;
+}
+
+/**
+ * Describe a field the way typeInField searches for it: label, placeholder, aria-label, name, id
+ */
+function describeField(element: HTMLElement): string {
+  const field = element as HTMLInputElement;
+  const label = field.labels?.[0] ? collapse(field.labels[0].innerText) : '';
+  const description = collapse(element.getAttribute('aria-label')) ||
+    label ||
+    collapse(field.placeholder) ||
+    collapse(field.name) ||
+    collapse(element.id);
+  if (description) return description.slice(0, MAX_TEXT_LENGTH);
+  if (element instanceof HTMLTextAreaElement) return 'text area';
+  return element.isContentEditable ? 'text editor' : `${field.type || 'text'} input`;
+}
+
+function getFieldValue(element: HTMLElement): string {
+  return isTextField(element) ? element.value : element.innerText;
+}
+
+/**
+ * Record a field's current value if it changed since it was last recorded
+ */
+function commitField(element: HTMLElement): void {
+  const value = getFieldValue(element);
+  if (recordedValues.get(element) === value) return;
+  recordedValues.set(element, value);
+
+  const isPassword = element instanceof HTMLInputElement && element.type === 'password';
+  report({
+    kind: 'step',
+    toolName: 'typeInField',
+    input: {
+      text: isPassword ? '{{password}}' : value,
+      target: describeField(element),
+      clearFirst: true,
+    },
+  });
+}
+
+function getElementType(element: Element): 'button' | 'link' | 'any' {
+  const role = element.getAttribute('role');
+  if (element.tagName === 'A' || role === 'link') return 'link';
+  if (element.tagName === 'BUTTON' || role === 'button' || (element as HTMLInputElement).type === 'submit') return 'button';
+  return 'any';
+}
+
+/**
+ * Visible text clickByText can find; inputs show their value, checkboxes their label
+ */
+function getClickText(element: HTMLElement): string {
+  if (element instanceof HTMLInputElement) {
+    if (element.type === 'checkbox' || element.type === 'radio') {
+      return element.labels?.[0] ? collapse(element.labels[0].innerText) : '';
+    }
+    return collapse(element.value);
+  }
+  return collapse(element.innerText);
+}
+
+function handleClick(event: MouseEvent): void {
+  if (!recording || !event.isTrusted || !(event.target instanceof Element)) return;
+  // Focusing a field is implied by typing into it
+  if (isEditable(event.target)) return;
+
+  const element = (event.target.closest(CLICKABLE_SELECTOR) ?? event.target) as HTMLElement;
+  const text = getClickText(element);
+  if (!text) {
+    report({ kind: 'skipped', reason: `click on <${element.tagName.toLowerCase()}> without visible text` });
+    return;
+  }
+
+  report({
+    kind: 'step',
+    toolName: 'clickByText',
+    input: { text: text.slice(0, MAX_TEXT_LENGTH), elementType: getElementType(element) },
+  });
+}
+
+function handleKeyDown(event: KeyboardEvent): void {
+  if (!recording || !event.isTrusted || event.ctrlKey || event.metaKey || event.altKey) return;
+  const target = event.target instanceof HTMLElement ? event.target : null;
+  const inField = !!target && isEditable(target);
+
+  if (!COMMIT_KEYS.includes(event.key) && (inField || !NAVIGATION_KEYS.includes(event.key))) return;
+
+  // The field's value has to be typed before the key that submits it
+  if (target && (isTextField(target) || target.isContentEditable)) {
+    commitField(target);
+  }
+  report({ kind: 'step', toolName: 'pressKey', input: { key: event.key } });
+}
+
+function handleChange(event: Event): void {
+  if (!recording || !(event.target instanceof HTMLElement)) return;
+  if (isTextField(event.target)) {
+    commitField(event.target);
+  } else if (event.target instanceof HTMLSelectElement) {
+    report({ kind: 'skipped', reason: 'dropdown selection' });
+  }
+}
+
+// Rich text editors don't fire change events; compare their text on focus and blur instead
+function handleFocusIn(event: FocusEvent): void {
+  if (!recording || !(event.target instanceof HTMLElement) || !event.target.isContentEditable) return;
+  recordedValues.set(event.target, event.target.innerText);
+}
+
+function handleFocusOut(event: FocusEvent): void {
+  if (!recording || !(event.target instanceof HTMLElement) || !event.target.isContentEditable) return;
+  commitField(event.target);
+}
+
+function setRecording(next: boolean): void {
+  if (next === recording) return;
+  recording = next;
+
+  // Capture phase, so pages that stop propagation are still recorded
+  if (next) {
+    document.addEventListener('click', handleClick, true);
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.addEventListener('change', handleChange, true);
+    document.addEventListener('focusin', handleFocusIn, true);
+    document.addEventListener('focusout', handleFocusOut, true);
+  } else {
+    document.removeEventListener('click', handleClick, true);
+    document.removeEventListener('keydown', handleKeyDown, true);
+    document.removeEventListener('change', handleChange, true);
+    document.removeEventListener('focusin', handleFocusIn, true);
+    document.removeEventListener('focusout', handleFocusOut, true);
+  }
+}
+
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === 'macro/recording/changed') {
+    setRecording(!!message.recording);
+  }
+  return false;
+});
+
+// Recording continues across page loads on the recorded tab
+chrome.runtime.sendMessage({ type: 'macro/recording/status' })
+  .then((response) => setRecording(!!response?.isThisTab))
+  .catch(() => {
+    // Background not ready; it notifies us when recording starts
+  });
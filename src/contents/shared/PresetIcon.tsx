@@ -0,0 +1,90 @@
+/**
+ * Preset Icon
+ * Inline SVG icons for rewrite presets, shared by the Rewriter Tooltip and Writer Overlay
+ */
+import React from 'react';
+import type { RewritePresetIcon } from '@/types';
+
+// Inline SVG paths for bundle size optimization
+const ICON_PATHS: Record<RewritePresetIcon, React.ReactNode> = {
+    minimize: (
+        <>
+            <polyline points="4 14 10 14 10 20" />
+            <polyline points="20 10 14 10 14 4" />
+            <line x1="14" y1="10" x2="21" y2="3" />
+            <line x1="3" y1="21" x2="10" y2="14" />
+        </>
+    ),
+    maximize: (
+        <>
+            <polyline points="15 3 21 3 21 9" />
+            <polyline points="9 21 3 21 3 15" />
+            <line x1="21" y1="3" x2="14" y2="10" />
+            <line x1="3" y1="21" x2="10" y2="14" />
+        </>
+    ),
+    briefcase: (
+        <>
+            <rect x="2" y="7" width="20" height="14" rx="2" ry="2" />
+            <path d="M16 21V5a2 2 0 00-2-2h-4a2 2 0 00-2 2v16" />
+        </>
+    ),
+    smile: (
+        <>
+            <circle cx="12" cy="12" r="10" />
+            <path d="M8 14s1.5 2 4 2 4-2 4-2" />
+            <line x1="9" y1="9" x2="9.01" y2="9" />
+            <line x1="15" y1="9" x2="15.01" y2="9" />
+        </>
+    ),
+    sparkles: (
+        <path d="M12 3l1.912 5.813a2 2 0 001.275 1.275L21 12l-5.813 1.912a2 2 0 00-1.275 1.275L12 21l-1.912-5.813a2 2 0 00-1.275-1.275L3 12l5.813-1.912a2 2 0 001.275-1.275L12 3z" />
+    ),
+    zap: <polygon points="13 2 3 14 12 14 11 22 21 10 12 10 13 2" />,
+    megaphone: (
+        <>
+            <path d="M3 11l18-5v12L3 14v-3z" />
+            <path d="M11.6 16.8a3 3 0 11-5.8-1.6" />
+        </>
+    ),
+    message: <path d="M7.9 20A9 9 0 104 16.1L2 22z" />,
+    'file-text': (
+        <>
+            <path d="M14.5 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V7.5L14.5 2z" />
+            <polyline points="14 2 14 8 20 8" />
+            <line x1="16" y1="13" x2="8" y2="13" />
+            <line x1="16" y1="17" x2="8" y2="17" />
+        </>
+    ),
+    languages: (
+        <>
+            <path d="M5 8l6 6" />
+            <path d="M4 14l6-6 2-3" />
+            <path d="M2 5h12" />
+            <path d="M7 2h1" />
+            <path d="M22 22l-5-10-5 10" />
+            <path d="M14 18h6" />
+        </>
+    ),
+    ticket: (
+        <>
+            <path d="M2 9a3 3 0 010 6v2a2 2 0 002 2h16a2 2 0 002-2v-2a3 3 0 010-6V7a2 2 0 00-2-2H4a2 2 0 00-2 2z" />
+            <path d="M13 5v2M13 11v2M13 17v2" />
+        </>
+    ),
+    code: (
+        <>
+            <polyline points="16 18 22 12 16 6" />
+            <polyline points="8 6 2 12 8 18" />
+        </>
+    ),
+    pen: <path d="M12 20h9M16.5 3.5a2.12 2.12 0 013 3L7 19l-4 1 1-4L16.5 3.5z" />,
+};
+
+export function PresetIcon({ icon, size = 14 }: { icon: RewritePresetIcon; size?: number }) {
+    return (
+        <svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            {ICON_PATHS[icon] ?? ICON_PATHS.sparkles}
+        </svg>
+    );
+}
@@ -0,0 +1,53 @@
+/**
+ * Site Feature Gate
+ * Tracks whether a content script feature may run on this site, following site rule
+ * changes live so the side panel quick toggle applies without a reload
+ */
+import { useEffect, useState } from 'react';
+import { createLogger } from '~logger';
+import {
+    evaluateSiteRules,
+    getSiteRulesSettings,
+    SITE_RULES_STORAGE_KEY,
+    type SiteFeature,
+} from '@/utils/settings/siteRules';
+
+const log = createLogger('SiteFeatureGate');
+
+export function useSiteFeatureAllowed(feature: SiteFeature): boolean {
+    // Start blocked so nothing flashes on sites that turn out to be blocked
+    const [allowed, setAllowed] = useState(false);
+
+    useEffect(() => {
+        if (!chrome.runtime?.id) return;
+
+        let cancelled = false;
+        const evaluate = async () => {
+            try {
+                const settings = await getSiteRulesSettings();
+                const decision = evaluateSiteRules(settings, feature, window.location.hostname);
+                if (!decision.allowed) {
+                    log.debug('Feature off on this site', { feature, reason: decision.reason });
+                }
+                if (!cancelled) setAllowed(decision.allowed);
+            } catch (error) {
+                log.warn('Failed to check site rules', error);
+            }
+        };
+
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[SITE_RULES_STORAGE_KEY]) {
+                void evaluate();
+            }
+        };
+
+        void evaluate();
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => {
+            cancelled = true;
+            chrome.storage.onChanged.removeListener(handleStorageChange);
+        };
+    }, [feature]);
+
+    return allowed;
+}
@@ -6,7 +6,13 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { RewriterPresets } from './RewriterPresets';
 import { ToolsToggle } from '../shared/ToolsToggle';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
-import { getRewriteSettings, updateRewriteSetting } from '@/utils/settings/rewriteSettings';
+import {
+    getRewriteSettings,
+    getRewritePresetOptions,
+    updateRewriteSetting,
+    DEFAULT_REWRITE_SETTINGS,
+    type RewritePresetOption,
+} from '@/utils/settings/rewriteSettings';
 import type { RewritePreset } from '@/types';
 
 interface RewriterTooltipProps {
@@ -83,10 +89,16 @@ export function RewriterTooltip({
     const [enableSupermemorySearch, setEnableSupermemorySearch] = useState(false);
     const [supermemoryConfigured, setSupermemoryConfigured] = useState(false);
 
+    // Presets in the user's order, including custom ones
+    const [presets, setPresets] = useState<RewritePresetOption[]>(() => getRewritePresetOptions(DEFAULT_REWRITE_SETTINGS));
+    const [showPresets, setShowPresets] = useState(true);
+
     // Load tool settings on mount
     useEffect(() => {
         // Load rewrite settings
         getRewriteSettings().then((settings) => {
+            setPresets(getRewritePresetOptions(settings));
+            setShowPresets(settings.showPresets);
             setEnableUrlContext(settings.enableUrlContext);
             setEnableGoogleSearch(settings.enableGoogleSearch);
             setEnableSupermemorySearch(settings.enableSupermemorySearch);
@@ -272,12 +284,15 @@ export function RewriterTooltip({
             </div>
 
             {/* Preset Buttons */}
-            <div className="rewriter-presets-section">
-                <RewriterPresets
-                    onSelect={handlePresetClickWithTools}
-                    disabled={isProcessing}
-                />
-            </div>
+            {showPresets && presets.length > 0 && (
+                <div className="rewriter-presets-section">
+                    <RewriterPresets
+                        presets={presets}
+                        onSelect={handlePresetClickWithTools}
+                        disabled={isProcessing}
+                    />
+                </div>
+            )}
 
             {/* Custom Instruction */}
             <form className="rewriter-custom-row" onSubmit={handleCustomSubmit}>
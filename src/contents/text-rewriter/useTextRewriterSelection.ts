@@ -5,6 +5,7 @@
 import { useCallback, useEffect, useState, useRef } from 'react';
 import { isRewriteEnabled, getRewriteSettings } from '@/utils/settings/rewriteSettings';
 import type { RewriteSelectionData } from '@/types';
+import { useSiteFeatureAllowed } from '../shared/useSiteFeatureAllowed';
 
 const BUTTON_OFFSET_Y = 10; // Position above selection
 const DEBOUNCE_DELAY = 200; // ms to wait before showing tooltip
@@ -12,7 +13,9 @@ const DEFAULT_MIN_LENGTH = 10;
 
 export function useTextRewriterSelection() {
     const [selection, setSelection] = useState<RewriteSelectionData | null>(null);
-    const [isEnabled, setIsEnabled] = useState(true);
+    const [isFeatureEnabled, setIsFeatureEnabled] = useState(true);
+    const isSiteAllowed = useSiteFeatureAllowed('rewriter');
+    const isEnabled = isFeatureEnabled && isSiteAllowed;
     const [minLength, setMinLength] = useState(DEFAULT_MIN_LENGTH);
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -20,7 +23,7 @@ export function useTextRewriterSelection() {
     useEffect(() => {
         const loadSettings = async () => {
             const enabled = await isRewriteEnabled();
-            setIsEnabled(enabled);
+            setIsFeatureEnabled(enabled);
 
             if (enabled) {
                 const settings = await getRewriteSettings();
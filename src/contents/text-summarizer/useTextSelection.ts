@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useState, useRef } from 'react';
 import { isTextSummarizerEnabled } from '@/utils/settings';
+import { useSiteFeatureAllowed } from '../shared/useSiteFeatureAllowed';
 
 export interface Position {
     x: number;
@@ -23,12 +24,14 @@ export function useTextSelection(minTextLength: number = DEFAULT_MIN_LENGTH) {
         position: { x: 0, y: 0 },
         show: false,
     });
-    const [isEnabled, setIsEnabled] = useState(true);
+    const [isFeatureEnabled, setIsFeatureEnabled] = useState(true);
+    const isSiteAllowed = useSiteFeatureAllowed('summarizer');
+    const isEnabled = isFeatureEnabled && isSiteAllowed;
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     // Check if feature is enabled on mount
     useEffect(() => {
-        isTextSummarizerEnabled().then(setIsEnabled);
+        isTextSummarizerEnabled().then(setIsFeatureEnabled);
 
         // Cleanup debounce timer on unmount
         return () => {
@@ -14,8 +14,13 @@ import { useTextInsertion } from './write-command/useTextInsertion';
 import { WriterOverlay } from './write-command/WriterOverlay';
 import { WriteCommandErrorBoundary } from './write-command/ErrorBoundary';
 import { getPageContext } from './write-command/platformDetector';
-import { getWriteCommandSettings } from '@/utils/settings';
-import type { WriteStreamChunk, WriteError, WriteGenerateRequest, WriteAttachmentPayload } from '@/types';
+import {
+    addWritingStyleSample,
+    getWriteCommandSettings,
+    getWritingStyleProfile,
+    resolveStylePlatform,
+} from '@/utils/settings';
+import type { WriteStreamChunk, WriteError, WriteGenerateRequest, WriteAttachmentPayload, CustomRewritePresetId } from '@/types';
 import { createLogger } from '~logger';
 
 const log = createLogger('WriteCommand');
@@ -33,6 +38,24 @@ export const getStyle = () => {
     return style;
 };
 
+/**
+ * Keep an inserted draft as a writing style sample when the user opted in
+ */
+async function captureStyleSample(text: string) {
+    try {
+        const profile = await getWritingStyleProfile();
+        if (!profile.captureAcceptedDrafts) return;
+        const { platform, domain } = getPageContext();
+        await addWritingStyleSample({
+            text,
+            platform: resolveStylePlatform({ platform, domain }),
+            source: 'accepted',
+        });
+    } catch (error) {
+        log.warn('Failed to capture style sample', error);
+    }
+}
+
 function WriteCommandContent() {
     const {
         isWriterMode,
@@ -142,7 +165,8 @@ function WriteCommandContent() {
     const handleGenerate = useCallback(async (
         prompt: string,
         toolSettings?: { enableUrlContext: boolean; enableGoogleSearch: boolean; enableSupermemorySearch: boolean },
-        attachment?: WriteAttachmentPayload
+        attachment?: WriteAttachmentPayload,
+        preset?: CustomRewritePresetId
     ) => {
         // Allow generation with just an attachment (no text prompt required)
         if (!prompt.trim() && !attachment) return;
@@ -160,7 +184,7 @@ function WriteCommandContent() {
         setGeneratedText('');
         setError(null);
 
-        log.debug('Starting generation', { promptLength: prompt.length, toolSettings });
+        log.debug('Starting generation', { promptLength: prompt.length, toolSettings, preset });
 
         try {
             // Check if extension context is still valid (important for iframes)
@@ -228,6 +252,7 @@ function WriteCommandContent() {
                         enableUrlContext: toolSettings?.enableUrlContext ?? settings.enableUrlContext,
                         enableGoogleSearch: toolSettings?.enableGoogleSearch ?? settings.enableGoogleSearch,
                         enableSupermemorySearch: toolSettings?.enableSupermemorySearch ?? settings.enableSupermemorySearch,
+                        preset,
                     },
                     // Include attachment if provided
                     attachment,
@@ -268,6 +293,7 @@ function WriteCommandContent() {
 
             if (result.success) {
                 log.info('Text inserted successfully');
+                void captureStyleSample(generatedText);
                 handleClose();
             } else if (result.fallbackUsed === 'clipboard') {
                 // Text was copied to clipboard as fallback
@@ -9,15 +9,24 @@ import { useWriterAttachment } from './useWriterAttachment';
 import { getAcceptedFileTypes } from './writerAttachmentUtils';
 import { ToolsToggle } from '../shared/ToolsToggle';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
-import { getWriteCommandSettings, updateWriteCommandSetting } from '@/utils/settings';
-import type { WritePosition, WriteAttachmentPayload } from '@/types';
+import { PresetIcon } from '../shared/PresetIcon';
+import {
+    getWriteCommandSettings,
+    updateWriteCommandSetting,
+    getRewriteSettings,
+    getRewritePresetOptions,
+    isCustomRewritePreset,
+    type RewritePresetOption,
+} from '@/utils/settings';
+import type { WritePosition, WriteAttachmentPayload, CustomRewritePresetId } from '@/types';
 
 interface WriterOverlayProps {
     position: WritePosition;
     onGenerate: (
         prompt: string,
         toolSettings?: { enableUrlContext: boolean; enableGoogleSearch: boolean; enableSupermemorySearch: boolean },
-        attachment?: WriteAttachmentPayload
+        attachment?: WriteAttachmentPayload,
+        preset?: CustomRewritePresetId
     ) => void;
     onInsert: () => void;
     onClose: () => void;
@@ -118,6 +127,10 @@ export function WriterOverlay({
     const [enableSupermemorySearch, setEnableSupermemorySearch] = useState(false);
     const [supermemoryConfigured, setSupermemoryConfigured] = useState(false);
 
+    // Custom rewrite presets; the selected one shapes the generated text
+    const [presets, setPresets] = useState<RewritePresetOption[]>([]);
+    const [activePreset, setActivePreset] = useState<CustomRewritePresetId | undefined>(undefined);
+
     const inputRef = useRef<HTMLInputElement>(null);
     const overlayRef = useRef<HTMLDivElement>(null);
 
@@ -153,6 +166,12 @@ export function WriterOverlay({
             // Use defaults on error
         });
 
+        getRewriteSettings().then((settings) => {
+            setPresets(getRewritePresetOptions(settings).filter((preset) => isCustomRewritePreset(preset.id)));
+        }).catch(() => {
+            // No presets on error
+        });
+
         // Check if Supermemory is configured
         // This is done via message to background since content scripts can't access storage directly
         chrome.runtime.sendMessage({ type: 'CHECK_SUPERMEMORY_READY' }, (response) => {
@@ -287,7 +306,8 @@ export function WriterOverlay({
                     onGenerate(
                         prompt,
                         { enableUrlContext, enableGoogleSearch, enableSupermemorySearch },
-                        getAttachmentForApi()
+                        getAttachmentForApi(),
+                        activePreset
                     );
                     clearAttachment();
                 }
@@ -299,7 +319,7 @@ export function WriterOverlay({
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [prompt, attachment, isGenerating, onGenerate, onClose, enableUrlContext, enableGoogleSearch, enableSupermemorySearch, getAttachmentForApi, clearAttachment]);
+    }, [prompt, attachment, isGenerating, onGenerate, onClose, enableUrlContext, enableGoogleSearch, enableSupermemorySearch, getAttachmentForApi, clearAttachment, activePreset]);
 
     // Handle click outside - check if click target is part of the overlay
     // Uses composedPath() to properly traverse Shadow DOM boundaries (Plasmo renders in shadow DOM)
@@ -406,7 +426,16 @@ export function WriterOverlay({
     // Handle regenerate
     const handleRegenerate = () => {
         if (prompt.trim()) {
-            onGenerate(prompt, { enableUrlContext, enableGoogleSearch, enableSupermemorySearch });
+            onGenerate(prompt, { enableUrlContext, enableGoogleSearch, enableSupermemorySearch }, undefined, activePreset);
+        }
+    };
+
+    // Toggle a preset; with a draft already written, regenerate it in the new style
+    const handlePresetClick = (id: CustomRewritePresetId) => {
+        const next = activePreset === id ? undefined : id;
+        setActivePreset(next);
+        if (generatedText && prompt.trim() && !isGenerating) {
+            onGenerate(prompt, { enableUrlContext, enableGoogleSearch, enableSupermemorySearch }, undefined, next);
         }
     };
 
@@ -418,7 +447,8 @@ export function WriterOverlay({
             onGenerate(
                 prompt,
                 { enableUrlContext, enableGoogleSearch, enableSupermemorySearch },
-                getAttachmentForApi()
+                getAttachmentForApi(),
+                activePreset
             );
             clearAttachment();
         }
@@ -432,7 +462,8 @@ export function WriterOverlay({
             onGenerate(
                 prompt,
                 { enableUrlContext, enableGoogleSearch, enableSupermemorySearch },
-                getAttachmentForApi()
+                getAttachmentForApi(),
+                activePreset
             );
             clearAttachment();
         }
@@ -551,6 +582,26 @@ export function WriterOverlay({
                 aria-hidden="true"
             />
 
+            {/* Custom Presets */}
+            {presets.length > 0 && (
+                <div className="writer-presets-row">
+                    {presets.map((preset) => (
+                        <button
+                            key={preset.id}
+                            type="button"
+                            className={`writer-preset-chip${activePreset === preset.id ? ' writer-preset-chip--active' : ''}`}
+                            onClick={() => handlePresetClick(preset.id as CustomRewritePresetId)}
+                            disabled={isGenerating}
+                            title={preset.instruction}
+                            aria-pressed={activePreset === preset.id}
+                        >
+                            <PresetIcon icon={preset.icon} size={12} />
+                            {preset.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Processing indicator */}
             {isProcessing && (
                 <div className="writer-processing">Processing file...</div>
@@ -13,6 +13,7 @@ import { useCallback, useEffect, useState, useRef } from 'react';
 import { isWriteCommandEnabled } from '@/utils/settings';
 import type { WritePosition, WriterModeState } from '@/types';
 import { createLogger } from '~logger';
+import { useSiteFeatureAllowed } from '../shared/useSiteFeatureAllowed';
 
 const log = createLogger('WriteCommandDetection');
 
@@ -142,7 +143,9 @@ export function useWriteCommandDetection() {
         cursorPosition: 0,
         position: { x: 0, y: 0 },
     });
-    const [isEnabled, setIsEnabled] = useState(true);
+    const [isFeatureEnabled, setIsFeatureEnabled] = useState(true);
+    const isSiteAllowed = useSiteFeatureAllowed('writeCommand');
+    const isEnabled = isFeatureEnabled && isSiteAllowed;
     const processingRef = useRef(false);
     const lastCommandTimeRef = useRef(0);
 
@@ -151,13 +154,13 @@ export function useWriteCommandDetection() {
         // Validate extension context is still valid
         if (!chrome.runtime?.id) {
             log.warn('Extension context invalidated, disabling write command');
-            setIsEnabled(false);
+            setIsFeatureEnabled(false);
             return;
         }
 
-        isWriteCommandEnabled().then(setIsEnabled).catch(() => {
+        isWriteCommandEnabled().then(setIsFeatureEnabled).catch(() => {
             log.warn('Failed to check write command settings');
-            setIsEnabled(false);
+            setIsFeatureEnabled(false);
         });
     }, []);
 
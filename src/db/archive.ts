@@ -0,0 +1,459 @@
+/**
+ * Chat Archive Export/Import
+ *
+ * Serializes chat threads (with complete UIMessage parts, tool calls, usage
+ * and initial page context) into a versioned, portable JSON archive, renders
+ * the same data as Markdown or HTML, and merges archives back into ChatDB
+ * without overwriting existing conversations.
+ */
+
+import type { UIMessage } from 'ai';
+import { createLogger } from '~logger';
+import { db, isValidUIMessage, resolveBranchPath } from './index';
+import type {
+    ChatArchive,
+    ChatArchiveMessageRecord,
+    ChatArchiveThread,
+    ChatArchiveThreadRecord,
+    ChatExportFormat,
+    ChatImportResult,
+    ChatMessage,
+    ChatThread
+} from '~/types/database';
+
+const log = createLogger('ChatArchive');
+
+/** Identifier written to every archive so unrelated JSON files are rejected */
+export const CHAT_ARCHIVE_FORMAT = 'cognito-chat-archive';
+
+/** Current archive schema version; bump when the record layout changes */
+export const CHAT_ARCHIVE_VERSION = 1;
+
+const EXPORT_MIME_TYPES: Record<ChatExportFormat, string> = {
+    json: 'application/json',
+    markdown: 'text/markdown',
+    html: 'text/html'
+};
+
+const EXPORT_EXTENSIONS: Record<ChatExportFormat, string> = {
+    json: 'json',
+    markdown: 'md',
+    html: 'html'
+};
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function toArchiveThread(thread: ChatThread): ChatArchiveThreadRecord {
+    const { titleTokens: _titleTokens, ...record } = thread;
+    return record;
+}
+
+function toArchiveMessage(message: ChatMessage): ChatArchiveMessageRecord {
+    const { searchTokens: _searchTokens, ...record } = message;
+    return record;
+}
+
+function sortMessages<T extends ChatArchiveMessageRecord>(messages: T[]): T[] {
+    return [...messages].sort((a, b) => {
+        if (a.sequenceNumber !== undefined && b.sequenceNumber !== undefined) {
+            return a.sequenceNumber - b.sequenceNumber;
+        }
+        return a.timestamp - b.timestamp;
+    });
+}
+
+/**
+ * Build an archive of the given threads
+ *
+ * @param threadIds - Threads to export; omit to export every thread
+ * @returns Archive with threads ordered newest first
+ */
+export async function exportThreadsToArchive(threadIds?: string[]): Promise<ChatArchive> {
+    const threads = threadIds
+        ? (await db.chatThreads.bulkGet(threadIds)).filter((t): t is ChatThread => !!t)
+        : await db.chatThreads.toArray();
+
+    const archiveThreads: ChatArchiveThread[] = [];
+    for (const thread of threads.sort((a, b) => b.updatedAt - a.updatedAt)) {
+        const messages = await db.chatMessages.where('threadId').equals(thread.id).toArray();
+        archiveThreads.push({
+            thread: toArchiveThread(thread),
+            messages: sortMessages(messages.map(toArchiveMessage))
+        });
+    }
+
+    log.info('Exported chat archive', {
+        threadCount: archiveThreads.length,
+        messageCount: archiveThreads.reduce((sum, t) => sum + t.messages.length, 0)
+    });
+
+    return {
+        format: CHAT_ARCHIVE_FORMAT,
+        version: CHAT_ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        threads: archiveThreads
+    };
+}
+
+// ============================================================================
+// Rendering (Markdown / HTML)
+// ============================================================================
+
+function getTextParts(message: UIMessage): string[] {
+    return (message.parts || [])
+        .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+        .map((part: any) => part.text as string)
+        .filter(text => !/^\s*\[TAB ATTACHMENT:/i.test(text));
+}
+
+function getToolParts(message: UIMessage): Array<{ name: string; input: unknown; output: unknown }> {
+    return (message.parts || [])
+        .filter((part: any) => part?.type === 'dynamic-tool' || part?.type?.startsWith('tool-'))
+        .map((part: any) => ({
+            name: part.toolName || String(part.type).replace(/^tool-/, ''),
+            input: part.input ?? part.args,
+            output: part.output ?? part.result ?? part.errorText
+        }));
+}
+
+function getAttachmentNames(message: UIMessage): string[] {
+    return (message.parts || [])
+        .filter((part: any) => part?.type === 'file' || part?.type === 'tab-context')
+        .map((part: any) => part.name || part.filename || part.title || part.url || 'attachment');
+}
+
+function formatJson(value: unknown): string {
+    if (value === undefined) return '';
+    try {
+        return JSON.stringify(value, null, 2);
+    } catch {
+        return String(value);
+    }
+}
+
+function roleLabel(role: string): string {
+    if (role === 'user') return 'User';
+    if (role === 'assistant') return 'Assistant';
+    return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function isVisibleMessage(message: ChatArchiveMessageRecord): boolean {
+    return message.message?.role !== 'system' && !(message.message as any)?.metadata?.internal;
+}
+
+/**
+ * Documents show only the active branch; alternate branches live in the JSON archive
+ */
+function getReadableMessages({ thread, messages }: ChatArchiveThread): ChatArchiveMessageRecord[] {
+    return resolveBranchPath(messages, thread.activeLeafId).filter(isVisibleMessage);
+}
+
+/**
+ * Render an archive as Markdown (one section per thread)
+ */
+export function renderArchiveAsMarkdown(archive: ChatArchive): string {
+    const lines: string[] = [];
+
+    for (const entry of archive.threads) {
+        const { thread } = entry;
+        lines.push(`# ${thread.title}`, '');
+        lines.push(`_Created ${new Date(thread.createdAt).toLocaleString()} · Updated ${new Date(thread.updatedAt).toLocaleString()}_`, '');
+        if (thread.lastUsage?.totalTokens) {
+            lines.push(`_Tokens: ${thread.lastUsage.totalTokens.toLocaleString()}${thread.lastUsage.modelId ? ` (${thread.lastUsage.modelId})` : ''}_`, '');
+        }
+
+        for (const record of getReadableMessages(entry)) {
+            const message = record.message;
+            lines.push(`## ${roleLabel(message.role)}`, '');
+
+            for (const name of getAttachmentNames(message)) {
+                lines.push(`> 📎 ${name}`, '');
+            }
+            for (const text of getTextParts(message)) {
+                lines.push(text, '');
+            }
+            for (const tool of getToolParts(message)) {
+                lines.push('<details>', `<summary>🔧 ${tool.name}</summary>`, '');
+                if (tool.input !== undefined) {
+                    lines.push('**Input**', '', '```json', formatJson(tool.input), '```', '');
+                }
+                if (tool.output !== undefined) {
+                    lines.push('**Output**', '', '```json', formatJson(tool.output), '```', '');
+                }
+                lines.push('</details>', '');
+            }
+        }
+
+        lines.push('---', '');
+    }
+
+    return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 820px; margin: 0 auto; padding: 24px; color: #1f2328; line-height: 1.6; }
+h1 { font-size: 22px; border-bottom: 1px solid #d0d7de; padding-bottom: 8px; }
+.meta { color: #656d76; font-size: 13px; }
+.message { border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+.message.user { background: #f6f8fa; }
+.role { font-weight: 600; font-size: 13px; color: #656d76; margin-bottom: 6px; }
+.text { white-space: pre-wrap; }
+.attachment { font-size: 13px; color: #656d76; }
+details { margin-top: 8px; font-size: 13px; }
+pre { background: #f6f8fa; padding: 8px; border-radius: 6px; overflow-x: auto; }
+hr { border: none; border-top: 1px solid #d0d7de; margin: 32px 0; }
+`;
+
+/**
+ * Render an archive as a standalone HTML document
+ */
+export function renderArchiveAsHtml(archive: ChatArchive): string {
+    const sections = archive.threads.map(entry => {
+        const { thread } = entry;
+        const messageHtml = getReadableMessages(entry).map(record => {
+            const message = record.message;
+            const attachments = getAttachmentNames(message)
+                .map(name => `<div class="attachment">📎 ${escapeHtml(name)}</div>`)
+                .join('');
+            const texts = getTextParts(message)
+                .map(text => `<div class="text">${escapeHtml(text)}</div>`)
+                .join('');
+            const tools = getToolParts(message).map(tool => `
+<details><summary>🔧 ${escapeHtml(tool.name)}</summary>
+${tool.input !== undefined ? `<div>Input</div><pre>${escapeHtml(formatJson(tool.input))}</pre>` : ''}
+${tool.output !== undefined ? `<div>Output</div><pre>${escapeHtml(formatJson(tool.output))}</pre>` : ''}
+</details>`).join('');
+
+            return `<div class="message ${escapeHtml(message.role)}"><div class="role">${escapeHtml(roleLabel(message.role))}</div>${attachments}${texts}${tools}</div>`;
+        }).join('\n');
+
+        return `<section>
+<h1>${escapeHtml(thread.title)}</h1>
+<div class="meta">Created ${escapeHtml(new Date(thread.createdAt).toLocaleString())} · Updated ${escapeHtml(new Date(thread.updatedAt).toLocaleString())}</div>
+${messageHtml}
+</section>`;
+    }).join('\n<hr>\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Cognito chat export</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${sections}
+</body>
+</html>
+`;
+}
+
+/**
+ * Export threads as a ready-to-download file in the requested format
+ *
+ * @param format - Output format
+ * @param threadIds - Threads to export; omit to export every thread
+ */
+export async function buildChatExportFile(
+    format: ChatExportFormat,
+    threadIds?: string[]
+): Promise<{ fileName: string; mimeType: string; content: string; threadCount: number }> {
+    const archive = await exportThreadsToArchive(threadIds);
+
+    let content: string;
+    if (format === 'markdown') {
+        content = renderArchiveAsMarkdown(archive);
+    } else if (format === 'html') {
+        content = renderArchiveAsHtml(archive);
+    } else {
+        content = JSON.stringify(archive, null, 2);
+    }
+
+    const date = new Date(archive.exportedAt).toISOString().slice(0, 10);
+    const singleThread = archive.threads.length === 1 ? archive.threads[0] : undefined;
+    const baseName = singleThread
+        ? singleThread.thread.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'chat'
+        : `cognito-chats-${date}`;
+
+    return {
+        fileName: `${baseName}.${EXPORT_EXTENSIONS[format]}`,
+        mimeType: EXPORT_MIME_TYPES[format],
+        content,
+        threadCount: archive.threads.length
+    };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse and validate archive JSON
+ *
+ * @throws Error when the file is not a supported chat archive
+ */
+export function parseChatArchive(raw: string): ChatArchive {
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+
+    if (!data || typeof data !== 'object') {
+        throw new Error('Archive must be a JSON object');
+    }
+
+    const archive = data as Partial<ChatArchive>;
+    if (archive.format !== CHAT_ARCHIVE_FORMAT) {
+        throw new Error('File is not a Cognito chat archive');
+    }
+    if (typeof archive.version !== 'number' || archive.version > CHAT_ARCHIVE_VERSION) {
+        throw new Error(`Unsupported archive version: ${String(archive.version)}`);
+    }
+    if (!Array.isArray(archive.threads)) {
+        throw new Error('Archive has no threads');
+    }
+
+    return archive as ChatArchive;
+}
+
+function isValidArchiveThread(entry: unknown): entry is ChatArchiveThread {
+    const candidate = entry as ChatArchiveThread | undefined;
+    return !!candidate &&
+        typeof candidate.thread?.id === 'string' &&
+        typeof candidate.thread.title === 'string' &&
+        Array.isArray(candidate.messages);
+}
+
+/**
+ * Merge an archive into ChatDB
+ *
+ * @param archive - Parsed archive (see {@link parseChatArchive})
+ * @returns Counts of created/merged threads and imported/skipped messages
+ *
+ * @remarks
+ * - Threads whose ID is unused are created as-is.
+ * - Threads that already exist keep their title and existing messages; only
+ *   messages not already present are appended after the existing ones.
+ * - Message IDs that collide with a message in another thread are replaced
+ *   with fresh UUIDs (both the record ID and `message.id`).
+ * - Messages failing {@link isValidUIMessage} are skipped.
+ */
+export async function importChatArchive(archive: ChatArchive): Promise<ChatImportResult> {
+    const result: ChatImportResult = {
+        createdThreads: 0,
+        mergedThreads: 0,
+        importedMessages: 0,
+        skippedMessages: 0,
+        remappedMessageIds: 0,
+        warnings: []
+    };
+
+    await db.transaction('rw', [db.chatThreads, db.chatMessages], async () => {
+        for (const entry of archive.threads) {
+            if (!isValidArchiveThread(entry)) {
+                result.warnings.push('Skipped a thread with missing id or title');
+                continue;
+            }
+
+            const { thread, messages } = entry;
+            const existingThread = await db.chatThreads.get(thread.id);
+            const existingMessages = existingThread
+                ? await db.chatMessages.where('threadId').equals(thread.id).toArray()
+                : [];
+            const existingIds = new Set(existingMessages.map(m => m.id));
+            let nextSequence = existingMessages.reduce(
+                (max, m) => Math.max(max, m.sequenceNumber ?? -1), -1
+            ) + 1;
+
+            const toAdd: ChatMessage[] = [];
+            const remappedIds = new Map<string, string>();
+            let previousId: string | null = null;
+            for (const record of sortMessages(messages)) {
+                if (!record || !isValidUIMessage(record.message)) {
+                    result.skippedMessages++;
+                    continue;
+                }
+
+                const originalId = record.id || record.message.id;
+                if (existingIds.has(originalId)) {
+                    previousId = originalId;
+                    result.skippedMessages++;
+                    continue;
+                }
+
+                let id = originalId;
+                const collision = await db.chatMessages.get(id);
+                if (collision) {
+                    id = crypto.randomUUID();
+                    remappedIds.set(originalId, id);
+                    result.remappedMessageIds++;
+                }
+                existingIds.add(originalId);
+
+                // Archives written before branching are linear: chain them in order
+                const parentId = record.parentId !== undefined ? record.parentId : previousId;
+                previousId = originalId;
+
+                toAdd.push({
+                    id,
+                    threadId: thread.id,
+                    message: { ...record.message, id },
+                    timestamp: typeof record.timestamp === 'number' ? record.timestamp : Date.now(),
+                    sequenceNumber: nextSequence++,
+                    parentId,
+                    usage: record.usage
+                });
+            }
+            for (const msg of toAdd) {
+                if (msg.parentId) {
+                    msg.parentId = remappedIds.get(msg.parentId) ?? msg.parentId;
+                }
+            }
+
+            if (existingThread) {
+                if (toAdd.length > 0) {
+                    await db.chatThreads.update(thread.id, {
+                        updatedAt: Math.max(existingThread.updatedAt, thread.updatedAt || 0)
+                    });
+                    result.mergedThreads++;
+                }
+            } else {
+                await db.chatThreads.add({
+                    id: thread.id,
+                    title: thread.title,
+                    createdAt: thread.createdAt || Date.now(),
+                    updatedAt: thread.updatedAt || Date.now(),
+                    initialPageContext: thread.initialPageContext,
+                    lastUsage: thread.lastUsage,
+                    pinned: thread.pinned,
+                    tags: Array.isArray(thread.tags) ? thread.tags : undefined,
+                    archived: thread.archived,
+                    activeLeafId: thread.activeLeafId && (remappedIds.get(thread.activeLeafId) ?? thread.activeLeafId)
+                    // folderId is dropped: folders are local to this browser
+                });
+                result.createdThreads++;
+            }
+
+            if (toAdd.length > 0) {
+                await db.chatMessages.bulkAdd(toAdd);
+                result.importedMessages += toAdd.length;
+            }
+        }
+    });
+
+    log.info('Imported chat archive', result);
+    return result;
+}
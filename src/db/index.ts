@@ -10,12 +10,40 @@ import Dexie, { type Table } from 'dexie';
 import type {
     ChatThread,
     ChatMessage,
+    ChatFolder,
+    UsageRecord,
+    SearchCacheEntry,
+    SearchCacheKind,
+    SearchSession,
+    SearchCacheStats,
+    PipelineRun,
+    PipelineRunStatus,
+    PipelineStageState,
+    MemoryEntry,
+    MemoryCategory,
+    MemorySource,
+    MemoryListOptions,
+    MemorySearchResult,
     SettingRecord,
     SettingsTypeMap,
     SettingKey,
-    DBStats
+    DBStats,
+    ChatSearchOptions,
+    ChatSearchResult,
+    ChatSearchHighlight,
+    ChatSearchMatchSource,
+    ThreadQueryOptions,
+    PaginatedResult,
+    MessageBranchInfo
 } from '~/types/database';
 import type { AppUsage } from '~/types/ai/usage';
+import {
+    buildMessageSearchTokens,
+    buildTitleTokens,
+    extractSearchableText,
+    normalizeSearchText,
+    tokenizeSearchQuery
+} from './searchTokens';
 
 // ============================================================================
 // Type Definitions (Re-exported from ~/types/database)
@@ -25,10 +53,29 @@ import type { AppUsage } from '~/types/ai/usage';
 export type {
     ChatThread,
     ChatMessage,
+    ChatFolder,
+    UsageRecord,
+    SearchCacheEntry,
+    SearchCacheKind,
+    SearchSession,
+    SearchCacheStats,
+    PipelineRun,
+    PipelineRunStatus,
+    PipelineStageState,
+    MemoryEntry,
+    MemoryCategory,
+    MemorySource,
+    MemoryListOptions,
+    MemorySearchResult,
     SettingRecord,
     SettingsTypeMap,
     SettingKey,
-    DBStats
+    DBStats,
+    ChatSearchOptions,
+    ChatSearchResult,
+    ThreadQueryOptions,
+    PaginatedResult,
+    MessageBranchInfo
 };
 
 /**
@@ -48,18 +95,36 @@ export type Settings = Partial<SettingsTypeMap>;
  * - User settings (key-value pairs)
  * - Chat messages (complete UIMessage structures)
  * - Chat threads (conversation containers)
+ * - Chat folders (user-defined thread groups)
+ * - Usage records (one entry per completed model request)
+ * - Search cache entries and past search sessions
+ * - Workflow pipeline runs (resumable stage progress)
+ * - Memories (on-device facts and preferences)
  * 
- * The schema has evolved through 5 versions:
+ * The schema has evolved through 12 versions:
  * - v1: Initial settings and messages
  * - v2: Added threads support
  * - v3: Added sequenceNumber for message ordering
  * - v4: Store complete UIMessage structure for tool calls
  * - v5: Added usage tracking fields
+ * - v6: Added multiEntry token indexes for full-text search
+ * - v7: Added thread organization (folders, tags, pinning, archiving)
+ * - v8: Added parentId for conversation branching (message tree)
+ * - v9: Added usage records ledger for the usage dashboard and budgets
+ * - v10: Added search cache (replacing the chrome.storage blob) and search sessions
+ * - v11: Added workflow pipeline runs
+ * - v12: Added memories
  */
 export class AppDB extends Dexie {
     settings!: Table<SettingRecord, string>;
     chatMessages!: Table<ChatMessage, string>;
     chatThreads!: Table<ChatThread, string>;
+    chatFolders!: Table<ChatFolder, string>;
+    usageRecords!: Table<UsageRecord, string>;
+    searchCache!: Table<SearchCacheEntry, string>;
+    searchSessions!: Table<SearchSession, string>;
+    pipelineRuns!: Table<PipelineRun, string>;
+    memories!: Table<MemoryEntry, string>;
 
     constructor() {
         super('ChatDB');
@@ -116,6 +181,125 @@ export class AppDB extends Dexie {
             chatThreads: 'id, createdAt, updatedAt'
         });
         // No data migration needed - new fields are optional
+
+        // Version 6: Full-text search token indexes on messages and thread titles
+        this.version(6).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens'
+        }).upgrade(async tx => {
+            // Migration: Backfill tokens for existing messages and threads
+            await tx.table('chatMessages').toCollection().modify((msg: ChatMessage) => {
+                msg.searchTokens = buildMessageSearchTokens(msg.message);
+            });
+            await tx.table('chatThreads').toCollection().modify((thread: ChatThread) => {
+                thread.titleTokens = buildTitleTokens(thread.title);
+            });
+        });
+
+        // Version 7: Thread organization - folders table, tag and folder indexes
+        this.version(7).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens, *tags, folderId',
+            chatFolders: 'id, name, createdAt'
+        });
+        // No data migration needed - pinned/archived/tags/folderId are optional
+
+        // Version 8: Conversation branching - messages form a tree via parentId
+        this.version(8).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens, parentId',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens, *tags, folderId',
+            chatFolders: 'id, name, createdAt'
+        }).upgrade(async tx => {
+            // Migration: Existing threads are linear, so each message's parent is the previous one
+            const messages: ChatMessage[] = await tx.table('chatMessages').toArray();
+            const byThread = new Map<string, ChatMessage[]>();
+            for (const msg of messages) {
+                const list = byThread.get(msg.threadId) ?? [];
+                list.push(msg);
+                byThread.set(msg.threadId, list);
+            }
+
+            const parentIds = new Map<string, string | null>();
+            for (const list of byThread.values()) {
+                sortByConversationOrder(list).forEach((msg, index) => {
+                    parentIds.set(msg.id, index > 0 ? list[index - 1]!.id : null);
+                });
+            }
+
+            await tx.table('chatMessages').toCollection().modify((msg: ChatMessage) => {
+                msg.parentId = parentIds.get(msg.id) ?? null;
+            });
+        });
+
+        // Version 9: Usage ledger for analytics across threads and time
+        this.version(9).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens, parentId',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens, *tags, folderId',
+            chatFolders: 'id, name, createdAt',
+            usageRecords: 'id, timestamp, day, modelId, provider, workflowId, threadId'
+        });
+        // No data migration needed - history starts with the first recorded request
+
+        // Version 10: Search cache with per-entry TTL and LRU eviction, plus search history
+        this.version(10).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens, parentId',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens, *tags, folderId',
+            chatFolders: 'id, name, createdAt',
+            usageRecords: 'id, timestamp, day, modelId, provider, workflowId, threadId',
+            searchCache: 'key, kind, expiresAt, lastAccessedAt',
+            searchSessions: 'id, createdAt'
+        });
+        // Old chrome.storage cache entries are short-lived and simply dropped
+
+        // Version 11: Workflow pipeline runs, persisted per stage for resuming
+        this.version(11).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens, parentId',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens, *tags, folderId',
+            chatFolders: 'id, name, createdAt',
+            usageRecords: 'id, timestamp, day, modelId, provider, workflowId, threadId',
+            searchCache: 'key, kind, expiresAt, lastAccessedAt',
+            searchSessions: 'id, createdAt',
+            pipelineRuns: 'id, threadId, status, updatedAt'
+        });
+
+        // Version 12: On-device memories, unique by key, keyword-indexed for search
+        this.version(12).stores({
+            settings: 'key',
+            chatMessages: 'id, threadId, timestamp, sequenceNumber, *searchTokens, parentId',
+            chatThreads: 'id, createdAt, updatedAt, *titleTokens, *tags, folderId',
+            chatFolders: 'id, name, createdAt',
+            usageRecords: 'id, timestamp, day, modelId, provider, workflowId, threadId',
+            searchCache: 'key, kind, expiresAt, lastAccessedAt',
+            searchSessions: 'id, createdAt',
+            pipelineRuns: 'id, threadId, status, updatedAt',
+            memories: 'id, &key, category, updatedAt, *keywords'
+        });
+
+        // Keep search tokens in sync on every write path (add, bulkAdd, put, update)
+        this.chatMessages.hook('creating', (_primKey, obj) => {
+            obj.searchTokens = buildMessageSearchTokens(obj.message);
+        });
+        this.chatMessages.hook('updating', (mods) => {
+            if ('message' in mods) {
+                return { searchTokens: buildMessageSearchTokens((mods as Partial<ChatMessage>).message) };
+            }
+            return undefined;
+        });
+        this.chatThreads.hook('creating', (_primKey, obj) => {
+            obj.titleTokens = buildTitleTokens(obj.title);
+        });
+        this.chatThreads.hook('updating', (mods) => {
+            if ('title' in mods) {
+                return { titleTokens: buildTitleTokens((mods as Partial<ChatThread>).title) };
+            }
+            return undefined;
+        });
     }
 }
 
@@ -291,6 +475,186 @@ export async function deleteThread(threadId: string): Promise<void> {
     });
 }
 
+// ============================================================================
+// Thread Organization API
+// ============================================================================
+
+/**
+ * Normalize a user-entered tag (trimmed, lowercase, single spaces)
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 40);
+}
+
+/**
+ * Query threads with filtering, sorting and pagination
+ * 
+ * @param options - Folder, tag, status and pin filters plus sort and paging
+ * @returns One page of threads with total count and next offset
+ * 
+ * @remarks
+ * Uses the `folderId` and `*tags` indexes to narrow candidates, then applies
+ * the remaining filters in memory. Pinned threads are listed first unless
+ * `pinnedFirst` is false.
+ * 
+ * @example
+ * ```typescript
+ * const page = await queryThreads({ tags: ['work'], sortBy: 'title', sortOrder: 'asc', limit: 20 });
+ * console.log(page.items.length, page.hasMore);
+ * ```
+ */
+export async function queryThreads(options: ThreadQueryOptions = {}): Promise<PaginatedResult<ChatThread>> {
+    const {
+        limit = 50,
+        offset = 0,
+        sortBy = 'updatedAt',
+        sortOrder = sortBy === 'title' ? 'asc' : 'desc',
+        folderId,
+        tags = [],
+        status = 'active',
+        pinnedOnly = false,
+        pinnedFirst = true
+    } = options;
+
+    const normalizedTags = tags.map(normalizeTag).filter(Boolean);
+
+    let candidates: ChatThread[];
+    if (typeof folderId === 'string') {
+        candidates = await db.chatThreads.where('folderId').equals(folderId).toArray();
+    } else if (normalizedTags.length > 0) {
+        candidates = await db.chatThreads.where('tags').equals(normalizedTags[0]!).toArray();
+    } else {
+        candidates = await db.chatThreads.toArray();
+    }
+
+    const filtered = candidates.filter(thread => {
+        if (folderId === null && thread.folderId) return false;
+        if (status === 'active' && thread.archived) return false;
+        if (status === 'archived' && !thread.archived) return false;
+        if (pinnedOnly && !thread.pinned) return false;
+        if (normalizedTags.length > 0) {
+            const threadTags = thread.tags || [];
+            if (!normalizedTags.every(tag => threadTags.includes(tag))) return false;
+        }
+        return true;
+    });
+
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    filtered.sort((a, b) => {
+        if (pinnedFirst && !!a.pinned !== !!b.pinned) {
+            return a.pinned ? -1 : 1;
+        }
+        if (sortBy === 'title') {
+            return direction * a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+        }
+        return direction * (a[sortBy] - b[sortBy]);
+    });
+
+    const items = filtered.slice(offset, offset + limit);
+    const hasMore = offset + items.length < filtered.length;
+
+    return {
+        items,
+        total: filtered.length,
+        hasMore,
+        nextOffset: hasMore ? offset + items.length : undefined
+    };
+}
+
+/**
+ * Pin or unpin a thread
+ * 
+ * @remarks Does not touch updatedAt so pinning doesn't reorder recent activity
+ */
+export async function setThreadPinned(threadId: string, pinned: boolean): Promise<void> {
+    await db.chatThreads.update(threadId, { pinned });
+}
+
+/**
+ * Archive or restore a thread
+ * 
+ * @remarks Archiving also unpins the thread
+ */
+export async function setThreadArchived(threadId: string, archived: boolean): Promise<void> {
+    await db.chatThreads.update(threadId, archived ? { archived, pinned: false } : { archived });
+}
+
+/**
+ * Replace a thread's tags (normalized and de-duplicated)
+ */
+export async function setThreadTags(threadId: string, tags: string[]): Promise<void> {
+    const normalized = Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+    await db.chatThreads.update(threadId, { tags: normalized });
+}
+
+/**
+ * Get every tag in use, sorted by number of threads (most used first)
+ */
+export async function getAllThreadTags(): Promise<Array<{ tag: string; count: number }>> {
+    const counts = new Map<string, number>();
+    await db.chatThreads.each(thread => {
+        for (const tag of thread.tags || []) {
+            counts.set(tag, (counts.get(tag) || 0) + 1);
+        }
+    });
+    return Array.from(counts.entries())
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Move a thread into a folder, or out of any folder when folderId is null
+ */
+export async function moveThreadToFolder(threadId: string, folderId: string | null): Promise<void> {
+    await db.chatThreads.update(threadId, { folderId: folderId ?? undefined });
+}
+
+/**
+ * Get all folders sorted by name
+ */
+export async function getAllFolders(): Promise<ChatFolder[]> {
+    return await db.chatFolders.orderBy('name').toArray();
+}
+
+/**
+ * Create a folder
+ * 
+ * @param name - Display name (trimmed)
+ * @returns The created folder
+ */
+export async function createFolder(name: string): Promise<ChatFolder> {
+    const folder: ChatFolder = {
+        id: crypto.randomUUID(),
+        name: name.trim() || 'Untitled folder',
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+    };
+    await db.chatFolders.add(folder);
+    return folder;
+}
+
+/**
+ * Rename a folder
+ */
+export async function renameFolder(folderId: string, name: string): Promise<void> {
+    await db.chatFolders.update(folderId, {
+        name: name.trim() || 'Untitled folder',
+        updatedAt: Date.now()
+    });
+}
+
+/**
+ * Delete a folder; its threads become unfiled (threads are not deleted)
+ */
+export async function deleteFolder(folderId: string): Promise<void> {
+    await db.transaction('rw', [db.chatFolders, db.chatThreads], async () => {
+        await db.chatThreads.where('folderId').equals(folderId).modify(thread => {
+            delete thread.folderId;
+        });
+        await db.chatFolders.delete(folderId);
+    });
+}
+
 // ============================================================================
 // Chat Messages API
 // ============================================================================
@@ -337,25 +701,20 @@ export async function saveChatMessage(
  * Load chat history for a specific thread
  * 
  * @param threadId - The thread ID to load messages for
- * @returns Array of messages sorted by sequence number or timestamp
+ * @returns Messages on the thread's active branch, in conversation order
  * 
  * @remarks
  * Returns messages with complete UIMessage structure including tool calls.
- * Messages are sorted by sequenceNumber if available, otherwise by timestamp.
+ * Threads are stored as a message tree (see {@link saveBranchPath}); only the
+ * active branch is returned, which is also what gets sent to the model.
  */
 export async function loadThreadMessages(threadId: string): Promise<ChatMessage[]> {
-    const messages = await db.chatMessages
-        .where('threadId')
-        .equals(threadId)
-        .toArray();
+    const [thread, messages] = await Promise.all([
+        db.chatThreads.get(threadId),
+        db.chatMessages.where('threadId').equals(threadId).toArray()
+    ]);
 
-    // Sort by sequenceNumber first (if available), then by timestamp as fallback
-    return messages.sort((a, b) => {
-        if (a.sequenceNumber !== undefined && b.sequenceNumber !== undefined) {
-            return a.sequenceNumber - b.sequenceNumber;
-        }
-        return a.timestamp - b.timestamp;
-    });
+    return resolveBranchPath(messages, thread?.activeLeafId);
 }
 
 /**
@@ -369,9 +728,10 @@ export async function clearThreadMessages(threadId: string): Promise<void> {
  * Clear all chat messages and threads
  */
 export async function clearChatHistory(): Promise<void> {
-    await db.transaction('rw', [db.chatMessages, db.chatThreads], async () => {
+    await db.transaction('rw', [db.chatMessages, db.chatThreads, db.chatFolders], async () => {
         await db.chatMessages.clear();
         await db.chatThreads.clear();
+        await db.chatFolders.clear();
     });
 }
 
@@ -397,6 +757,427 @@ export function isValidUIMessage(msg: any): boolean {
     );
 }
 
+// ============================================================================
+// Conversation Branching API
+// ============================================================================
+
+const ROOT_PARENT_KEY = '__root__';
+
+/** Fields needed to place a message in the conversation tree */
+type BranchNode = Pick<ChatMessage, 'id' | 'parentId' | 'sequenceNumber' | 'timestamp'>;
+
+/**
+ * Sort messages by sequenceNumber (if available), then by timestamp as fallback
+ */
+function sortByConversationOrder<T extends BranchNode>(messages: T[]): T[] {
+    return messages.sort((a, b) => {
+        if (a.sequenceNumber !== undefined && b.sequenceNumber !== undefined) {
+            return a.sequenceNumber - b.sequenceNumber;
+        }
+        return a.timestamp - b.timestamp;
+    });
+}
+
+/**
+ * Group a thread's messages by parent, siblings ordered oldest first
+ * 
+ * @remarks
+ * Messages written before branching existed have no parentId and are chained
+ * linearly in sequence order.
+ */
+function groupByParent<T extends BranchNode>(messages: T[]): Map<string, T[]> {
+    const children = new Map<string, T[]>();
+    let previousLegacyId: string | null = null;
+
+    for (const msg of sortByConversationOrder([...messages])) {
+        let parentId = msg.parentId;
+        if (parentId === undefined) {
+            parentId = previousLegacyId;
+            previousLegacyId = msg.id;
+        }
+        const key = parentId ?? ROOT_PARENT_KEY;
+        const siblings = children.get(key) ?? [];
+        siblings.push(msg);
+        children.set(key, siblings);
+    }
+
+    for (const siblings of children.values()) {
+        siblings.sort((a, b) => a.timestamp - b.timestamp);
+    }
+    return children;
+}
+
+/**
+ * Resolve the path from the root to a leaf
+ * 
+ * @param messages - All messages of a thread (any order)
+ * @param leafId - Message that should end up on the path, usually the thread's activeLeafId
+ * @returns Messages of the branch in conversation order
+ * 
+ * @remarks
+ * Walks up from `leafId` to the root, then follows the most recent child
+ * downwards. Without a known leaf the most recent branch is returned.
+ */
+export function resolveBranchPath<T extends BranchNode>(messages: T[], leafId?: string): T[] {
+    const children = groupByParent(messages);
+    const parentOf = new Map<string, string>();
+    const byId = new Map<string, T>();
+    for (const [parentKey, siblings] of children) {
+        for (const msg of siblings) {
+            byId.set(msg.id, msg);
+            parentOf.set(msg.id, parentKey);
+        }
+    }
+
+    const path: T[] = [];
+    const visited = new Set<string>();
+    let node = leafId ? byId.get(leafId) : undefined;
+    while (node && !visited.has(node.id)) {
+        visited.add(node.id);
+        path.unshift(node);
+        node = byId.get(parentOf.get(node.id) ?? ROOT_PARENT_KEY);
+    }
+
+    const latestChild = (parentKey: string) => {
+        const siblings = children.get(parentKey);
+        return siblings?.[siblings.length - 1];
+    };
+
+    let next = latestChild(path[path.length - 1]?.id ?? ROOT_PARENT_KEY);
+    while (next && !visited.has(next.id)) {
+        visited.add(next.id);
+        path.push(next);
+        next = latestChild(next.id);
+    }
+
+    return path;
+}
+
+/**
+ * Persist the active branch of a thread
+ * 
+ * @param threadId - Thread the messages belong to
+ * @param messages - Messages of the branch, in conversation order
+ * 
+ * @remarks
+ * - Links each message to the previous one via parentId and records it as the active leaf
+ * - Other branches are left untouched, so edited prompts and regenerated replies
+ *   remain available as siblings
+ * - Original timestamps are preserved so sibling order stays stable
+ * 
+ * @example
+ * ```typescript
+ * await saveBranchPath(threadId, messages.map(msg => ({ ...msg, threadId })));
+ * ```
+ */
+export async function saveBranchPath(
+    threadId: string,
+    messages: Array<Omit<ChatMessage, 'threadId' | 'parentId' | 'sequenceNumber'>>
+): Promise<void> {
+    const leaf = messages[messages.length - 1];
+    if (!leaf) return;
+
+    await db.transaction('rw', [db.chatMessages, db.chatThreads], async () => {
+        const stored = await db.chatMessages.bulkGet(messages.map(msg => msg.id));
+
+        const records: ChatMessage[] = messages.map((msg, index) => {
+            const existing = stored[index];
+            return {
+                ...msg,
+                threadId,
+                parentId: index > 0 ? messages[index - 1]!.id : null,
+                sequenceNumber: index,
+                timestamp: existing?.timestamp ?? msg.timestamp,
+                usage: msg.usage ?? existing?.usage
+            };
+        });
+
+        await db.chatMessages.bulkPut(records);
+        await db.chatThreads.update(threadId, { activeLeafId: leaf.id });
+    });
+}
+
+/**
+ * Get the shape of a thread's conversation tree
+ * 
+ * @param threadId - The thread ID
+ * @returns Child message IDs grouped by parent ID (null for root messages), oldest first
+ * 
+ * @remarks
+ * Messages sharing a parent are alternate versions (siblings) of the same turn.
+ */
+export async function getThreadBranches(threadId: string): Promise<Map<string | null, string[]>> {
+    const messages = await db.chatMessages.where('threadId').equals(threadId).toArray();
+    const branches = new Map<string | null, string[]>();
+
+    for (const [parentKey, siblings] of groupByParent(messages)) {
+        branches.set(parentKey === ROOT_PARENT_KEY ? null : parentKey, siblings.map(msg => msg.id));
+    }
+    return branches;
+}
+
+/**
+ * Make the branch containing a message the active one
+ * 
+ * @param threadId - The thread ID
+ * @param messageId - Any message on the branch to activate
+ * @returns Messages of the newly active branch
+ * 
+ * @remarks
+ * When the message has descendants, the most recent continuation is followed.
+ */
+export async function switchBranch(threadId: string, messageId: string): Promise<ChatMessage[]> {
+    const messages = await db.chatMessages.where('threadId').equals(threadId).toArray();
+    if (!messages.some(msg => msg.id === messageId)) {
+        throw new Error(`Message ${messageId} not found in thread ${threadId}`);
+    }
+
+    const path = resolveBranchPath(messages, messageId);
+    const leaf = path[path.length - 1];
+    if (leaf) {
+        await db.chatThreads.update(threadId, { activeLeafId: leaf.id });
+    }
+    return path;
+}
+
+// ============================================================================
+// Full-Text Search API
+// ============================================================================
+
+/** Maximum number of candidate messages scored per query; beyond it the most recent are kept */
+const MAX_SEARCH_CANDIDATES = 1000;
+
+/** Characters of context kept on each side of the first match in a snippet */
+const SNIPPET_CONTEXT_BEFORE = 60;
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Intersect lists of primary keys (AND semantics across query terms)
+ */
+function intersectKeys(keyLists: string[][]): Set<string> {
+    if (keyLists.length === 0) return new Set();
+    const sorted = [...keyLists].sort((a, b) => a.length - b.length);
+    let result = new Set(sorted[0]);
+    for (const keys of sorted.slice(1)) {
+        const next = new Set(keys);
+        result = new Set(Array.from(result).filter(key => next.has(key)));
+        if (result.size === 0) break;
+    }
+    return result;
+}
+
+/**
+ * Cap the candidates to score, keeping the most recent messages
+ * Walks the timestamp index (keys only) when there are more than the cap
+ */
+async function selectRecentCandidates(candidates: Set<string>): Promise<string[]> {
+    if (candidates.size <= MAX_SEARCH_CANDIDATES) return Array.from(candidates);
+
+    const selected: string[] = [];
+    await db.chatMessages.orderBy('timestamp').reverse().eachPrimaryKey(id => {
+        if (selected.length < MAX_SEARCH_CANDIDATES && candidates.has(id)) {
+            selected.push(id);
+        }
+    });
+    return selected;
+}
+
+/**
+ * Count non-overlapping occurrences of a term in already-normalized text
+ */
+function countOccurrences(haystack: string, term: string): number {
+    let count = 0;
+    let index = haystack.indexOf(term);
+    while (index !== -1) {
+        count++;
+        index = haystack.indexOf(term, index + term.length);
+    }
+    return count;
+}
+
+/**
+ * Recency boost in [0, 1]: decays over roughly a month
+ */
+function recencyBoost(timestamp: number): number {
+    const ageDays = Math.max(0, Date.now() - timestamp) / (1000 * 60 * 60 * 24);
+    return 1 / (1 + ageDays / 30);
+}
+
+/**
+ * Build a snippet around the first match and compute highlight ranges
+ */
+function buildSnippet(source: string, terms: string[]): { snippet: string; highlights: ChatSearchHighlight[] } {
+    const flat = source.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+
+    let firstMatch = -1;
+    for (const term of terms) {
+        const index = lower.indexOf(term);
+        if (index !== -1 && (firstMatch === -1 || index < firstMatch)) {
+            firstMatch = index;
+        }
+    }
+
+    let start = firstMatch > SNIPPET_CONTEXT_BEFORE ? firstMatch - SNIPPET_CONTEXT_BEFORE : 0;
+    if (start > 0) {
+        const wordBoundary = flat.indexOf(' ', start);
+        if (wordBoundary !== -1 && wordBoundary < firstMatch) {
+            start = wordBoundary + 1;
+        }
+    }
+    const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < flat.length ? '…' : '';
+    const snippet = prefix + flat.slice(start, end) + suffix;
+
+    // Collect highlight ranges relative to the snippet, then merge overlaps
+    const snippetLower = snippet.toLowerCase();
+    const ranges: ChatSearchHighlight[] = [];
+    for (const term of terms) {
+        let index = snippetLower.indexOf(term);
+        while (index !== -1) {
+            ranges.push({ start: index, end: index + term.length });
+            index = snippetLower.indexOf(term, index + term.length);
+        }
+    }
+    ranges.sort((a, b) => a.start - b.start);
+
+    const highlights: ChatSearchHighlight[] = [];
+    for (const range of ranges) {
+        const last = highlights[highlights.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            highlights.push({ ...range });
+        }
+    }
+
+    return { snippet, highlights };
+}
+
+/**
+ * Search all chat threads for messages and titles matching a query
+ *
+ * @param query - Free-text query; every term must match as a word prefix, so partly typed words match
+ * @param options - Optional limit, thread and role filters
+ * @returns Ranked results with snippets and highlight ranges
+ *
+ * @remarks
+ * Uses the `*searchTokens` and `*titleTokens` multiEntry indexes to find
+ * candidates without scanning the whole table, then scores candidates by
+ * term frequency (text parts weigh more than tool payloads), phrase match
+ * and recency. Stop words are left out of the query (they aren't indexed)
+ * unless the query has nothing else. When a query matches too many messages
+ * to score, only the most recent ones are scored.
+ *
+ * @example
+ * ```typescript
+ * const results = await searchChatHistory('notion export', { limit: 20 });
+ * results.forEach(r => console.log(r.threadTitle, r.snippet));
+ * ```
+ */
+export async function searchChatHistory(
+    query: string,
+    options: ChatSearchOptions = {}
+): Promise<ChatSearchResult[]> {
+    const terms = tokenizeSearchQuery(query);
+    if (terms.length === 0) return [];
+
+    const limit = options.limit ?? 50;
+    const normalizedQuery = normalizeSearchText(query).trim();
+
+    const [messageKeyLists, titleKeyLists] = await Promise.all([
+        Promise.all(terms.map(term =>
+            db.chatMessages.where('searchTokens').startsWith(term).primaryKeys()
+        )),
+        Promise.all(terms.map(term =>
+            db.chatThreads.where('titleTokens').startsWith(term).primaryKeys()
+        ))
+    ]);
+
+    if (options.threadId) {
+        messageKeyLists.push(await db.chatMessages.where('threadId').equals(options.threadId).primaryKeys());
+    }
+    const candidateIds = await selectRecentCandidates(intersectKeys(messageKeyLists));
+    const titleThreadIds = intersectKeys(titleKeyLists);
+
+    const messages = (await db.chatMessages.bulkGet(candidateIds))
+        .filter((msg): msg is ChatMessage => !!msg)
+        .filter(msg => !options.threadId || msg.threadId === options.threadId)
+        .filter(msg => !options.role || msg.message?.role === options.role);
+
+    const threadIds = new Set<string>([
+        ...messages.map(msg => msg.threadId),
+        ...Array.from(titleThreadIds)
+    ]);
+    const threads = new Map<string, ChatThread>();
+    for (const thread of await db.chatThreads.bulkGet(Array.from(threadIds))) {
+        if (thread) threads.set(thread.id, thread);
+    }
+
+    const results: ChatSearchResult[] = [];
+
+    for (const msg of messages) {
+        const thread = threads.get(msg.threadId);
+        if (!thread) continue; // Orphaned message
+
+        const { text, toolText } = extractSearchableText(msg.message);
+        const normalizedText = normalizeSearchText(text);
+        const normalizedToolText = normalizeSearchText(toolText);
+
+        let score = 0;
+        let textHits = 0;
+        for (const term of terms) {
+            const inText = countOccurrences(normalizedText, term);
+            const inTools = countOccurrences(normalizedToolText, term);
+            textHits += inText;
+            score += Math.min(inText, 5) * 2 + Math.min(inTools, 5);
+        }
+        if (terms.length > 1 && normalizedText.includes(normalizedQuery)) {
+            score += 5;
+        }
+        score += recencyBoost(msg.timestamp) * 2;
+
+        const matchedIn: ChatSearchMatchSource = textHits > 0 ? 'text' : 'tool';
+        const { snippet, highlights } = buildSnippet(matchedIn === 'text' ? text : toolText, terms);
+
+        results.push({
+            threadId: msg.threadId,
+            threadTitle: thread.title,
+            messageId: msg.id,
+            role: msg.message?.role,
+            snippet,
+            highlights,
+            matchedIn,
+            score,
+            timestamp: msg.timestamp
+        });
+    }
+
+    if (!options.role) {
+        for (const threadId of Array.from(titleThreadIds)) {
+            const thread = threads.get(threadId);
+            if (!thread || (options.threadId && thread.id !== options.threadId)) continue;
+
+            const { snippet, highlights } = buildSnippet(thread.title, terms);
+            results.push({
+                threadId: thread.id,
+                threadTitle: thread.title,
+                snippet,
+                highlights,
+                matchedIn: 'title',
+                score: 8 + recencyBoost(thread.updatedAt) * 2,
+                timestamp: thread.updatedAt
+            });
+        }
+    }
+
+    return results
+        .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+        .slice(0, limit);
+}
+
 // ============================================================================
 // Database Management
 // ============================================================================
@@ -406,21 +1187,27 @@ export function isValidUIMessage(msg: any): boolean {
  * 
  * @remarks
  * ⚠️ WARNING: This action is irreversible!
- * Removes all settings, messages, and threads from the database.
+ * Removes all settings, messages, threads and folders from the database.
  * Uses a transaction to ensure atomic deletion.
  */
 export async function wipeAllData(): Promise<void> {
-    await db.transaction('rw', [db.settings, db.chatMessages, db.chatThreads], async () => {
+    await db.transaction('rw', [db.settings, db.chatMessages, db.chatThreads, db.chatFolders, db.usageRecords, db.searchCache, db.searchSessions, db.pipelineRuns, db.memories], async () => {
         await db.settings.clear();
         await db.chatMessages.clear();
         await db.chatThreads.clear();
+        await db.chatFolders.clear();
+        await db.usageRecords.clear();
+        await db.searchCache.clear();
+        await db.searchSessions.clear();
+        await db.pipelineRuns.clear();
+        await db.memories.clear();
     });
 }
 
 /**
  * Get database statistics
  * 
- * @returns Object containing counts of messages, settings, and threads
+ * @returns Object containing counts of messages, settings, threads and folders
  * 
  * @example
  * ```typescript
@@ -429,16 +1216,18 @@ export async function wipeAllData(): Promise<void> {
  * ```
  */
 export async function getDBStats(): Promise<DBStats> {
-    const [chatMessageCount, settingsCount, threadCount] = await Promise.all([
+    const [chatMessageCount, settingsCount, threadCount, folderCount] = await Promise.all([
         db.chatMessages.count(),
         db.settings.count(),
-        db.chatThreads.count()
+        db.chatThreads.count(),
+        db.chatFolders.count()
     ]);
 
     return {
         chatMessageCount,
         settingsCount,
-        threadCount
+        threadCount,
+        folderCount
     };
 }
 
@@ -554,6 +1343,369 @@ export async function saveChatMessageWithUsage(
     return fullMessage;
 }
 
+// ============================================================================
+// Usage Analytics API
+// ============================================================================
+
+/**
+ * Format a timestamp as a local calendar day (YYYY-MM-DD)
+ */
+export function toUsageDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Append a completed request to the usage ledger
+ * 
+ * @param record - Usage of one request; id and day are derived
+ * @returns The stored record
+ * 
+ * @remarks
+ * Unlike thread usage (which is replaced on every update and lost when a
+ * thread is deleted), the ledger is append-only so totals over time survive
+ * clearing chat history.
+ */
+export async function recordUsage(
+    record: Omit<UsageRecord, 'id' | 'day'>
+): Promise<UsageRecord> {
+    const fullRecord: UsageRecord = {
+        ...record,
+        id: crypto.randomUUID(),
+        day: toUsageDay(record.timestamp)
+    };
+    await db.usageRecords.add(fullRecord);
+    return fullRecord;
+}
+
+/**
+ * Get usage records within a time range
+ * 
+ * @param from - Inclusive start timestamp (defaults to the beginning of time)
+ * @param to - Inclusive end timestamp (defaults to now)
+ * @returns Records sorted oldest first
+ */
+export async function getUsageRecords(from = 0, to = Date.now()): Promise<UsageRecord[]> {
+    return db.usageRecords
+        .where('timestamp')
+        .between(from, to, true, true)
+        .toArray();
+}
+
+/**
+ * Delete all usage records
+ */
+export async function clearUsageRecords(): Promise<void> {
+    await db.usageRecords.clear();
+}
+
+// ============================================================================
+// Search Cache API
+// ============================================================================
+
+/**
+ * Look up a live search cache entry and mark it as recently used
+ * 
+ * @param key - Cache key built by the search cache layer
+ * @returns The entry, or undefined on a miss or when it has expired
+ * 
+ * @remarks
+ * Expired entries are deleted on read so they never count towards the size budget.
+ */
+export async function getSearchCacheEntry(key: string): Promise<SearchCacheEntry | undefined> {
+    const entry = await db.searchCache.get(key);
+    if (!entry) return undefined;
+
+    const now = Date.now();
+    if (entry.expiresAt <= now) {
+        await db.searchCache.delete(key);
+        return undefined;
+    }
+
+    const updated = { ...entry, lastAccessedAt: now, hitCount: entry.hitCount + 1 };
+    await db.searchCache.update(key, { lastAccessedAt: now, hitCount: updated.hitCount });
+    return updated;
+}
+
+/**
+ * Store a search cache entry, then evict down to the size budget
+ * 
+ * @param entry - Entry fields; timestamps, size and hit count are derived
+ * @param ttlMs - Time to live for this entry
+ * @param maxBytes - Total size budget for the cache
+ * @returns The stored entry
+ */
+export async function putSearchCacheEntry(
+    entry: Pick<SearchCacheEntry, 'key' | 'kind' | 'query' | 'provider' | 'results'>,
+    ttlMs: number,
+    maxBytes: number
+): Promise<SearchCacheEntry> {
+    const now = Date.now();
+    const fullEntry: SearchCacheEntry = {
+        ...entry,
+        createdAt: now,
+        expiresAt: now + ttlMs,
+        lastAccessedAt: now,
+        size: new Blob([JSON.stringify(entry.results)]).size,
+        hitCount: 0
+    };
+    await db.searchCache.put(fullEntry);
+    await evictSearchCache(maxBytes);
+    return fullEntry;
+}
+
+/**
+ * Drop expired entries, then least recently used entries until under budget
+ * 
+ * @param maxBytes - Total size budget for the cache
+ * @returns Number of entries removed
+ */
+export async function evictSearchCache(maxBytes: number): Promise<number> {
+    return db.transaction('rw', db.searchCache, async () => {
+        const expiredCount = await db.searchCache.where('expiresAt').belowOrEqual(Date.now()).delete();
+
+        // Newest first: keep entries while they fit, collect the rest
+        const entries = await db.searchCache.orderBy('lastAccessedAt').reverse().toArray();
+        let totalSize = 0;
+        const evictKeys: string[] = [];
+        for (const entry of entries) {
+            totalSize += entry.size;
+            if (totalSize > maxBytes) {
+                evictKeys.push(entry.key);
+            }
+        }
+
+        if (evictKeys.length > 0) {
+            await db.searchCache.bulkDelete(evictKeys);
+        }
+        return expiredCount + evictKeys.length;
+    });
+}
+
+/**
+ * Get search cache statistics
+ */
+export async function getSearchCacheStats(): Promise<SearchCacheStats> {
+    const entries = await db.searchCache.toArray();
+    const now = Date.now();
+    const stats: SearchCacheStats = {
+        entryCount: entries.length,
+        searchEntryCount: 0,
+        retrieveEntryCount: 0,
+        expiredCount: 0,
+        totalSize: 0,
+        totalHits: 0,
+        oldestEntry: null,
+        newestEntry: null
+    };
+
+    for (const entry of entries) {
+        if (entry.kind === 'retrieve') stats.retrieveEntryCount++;
+        else stats.searchEntryCount++;
+        if (entry.expiresAt <= now) stats.expiredCount++;
+        stats.totalSize += entry.size;
+        stats.totalHits += entry.hitCount;
+        stats.oldestEntry = Math.min(stats.oldestEntry ?? entry.createdAt, entry.createdAt);
+        stats.newestEntry = Math.max(stats.newestEntry ?? entry.createdAt, entry.createdAt);
+    }
+    return stats;
+}
+
+/**
+ * Delete cached entries, optionally only those of one kind
+ */
+export async function clearSearchCacheEntries(kind?: SearchCacheKind): Promise<void> {
+    if (kind) {
+        await db.searchCache.where('kind').equals(kind).delete();
+        return;
+    }
+    await db.searchCache.clear();
+}
+
+// ============================================================================
+// Search Sessions API
+// ============================================================================
+
+/** Search sessions kept before the oldest are pruned */
+const MAX_SEARCH_SESSIONS = 200;
+
+/**
+ * Record a completed web search so it can be reopened later
+ * 
+ * @param session - Session fields; id and createdAt are derived
+ * @returns The stored session
+ */
+export async function saveSearchSession(
+    session: Omit<SearchSession, 'id' | 'createdAt'>
+): Promise<SearchSession> {
+    const fullSession: SearchSession = {
+        ...session,
+        id: crypto.randomUUID(),
+        createdAt: Date.now()
+    };
+
+    await db.transaction('rw', db.searchSessions, async () => {
+        await db.searchSessions.add(fullSession);
+        const overflow = (await db.searchSessions.count()) - MAX_SEARCH_SESSIONS;
+        if (overflow > 0) {
+            const oldest = await db.searchSessions.orderBy('createdAt').limit(overflow).primaryKeys();
+            await db.searchSessions.bulkDelete(oldest);
+        }
+    });
+    return fullSession;
+}
+
+/**
+ * Get past search sessions, newest first
+ * 
+ * @param limit - Maximum sessions to return
+ */
+export async function getSearchSessions(limit = 50): Promise<SearchSession[]> {
+    return db.searchSessions.orderBy('createdAt').reverse().limit(limit).toArray();
+}
+
+/**
+ * Delete a single search session
+ */
+export async function deleteSearchSession(id: string): Promise<void> {
+    await db.searchSessions.delete(id);
+}
+
+/**
+ * Delete all search sessions
+ */
+export async function clearSearchSessions(): Promise<void> {
+    await db.searchSessions.clear();
+}
+
+// ============================================================================
+// Pipeline Runs API
+// ============================================================================
+
+/** Finished pipeline runs kept before the oldest are pruned */
+const MAX_FINISHED_PIPELINE_RUNS = 100;
+
+const ACTIVE_PIPELINE_STATUSES: PipelineRunStatus[] = ['running', 'waiting'];
+
+/**
+ * Insert or update a pipeline run
+ * 
+ * @remarks
+ * Finished runs beyond MAX_FINISHED_PIPELINE_RUNS are pruned, oldest first.
+ * Active runs are never pruned.
+ */
+export async function savePipelineRun(run: PipelineRun): Promise<void> {
+    await db.transaction('rw', db.pipelineRuns, async () => {
+        await db.pipelineRuns.put(run);
+        if (ACTIVE_PIPELINE_STATUSES.includes(run.status)) return;
+
+        const finished = await db.pipelineRuns
+            .orderBy('updatedAt')
+            .filter(r => !ACTIVE_PIPELINE_STATUSES.includes(r.status))
+            .primaryKeys();
+        const overflow = finished.length - MAX_FINISHED_PIPELINE_RUNS;
+        if (overflow > 0) {
+            await db.pipelineRuns.bulkDelete(finished.slice(0, overflow));
+        }
+    });
+}
+
+/**
+ * Get a pipeline run by ID
+ */
+export async function getPipelineRun(id: string): Promise<PipelineRun | undefined> {
+    return db.pipelineRuns.get(id);
+}
+
+/**
+ * Get runs that are still running or waiting for confirmation, newest first
+ * 
+ * @param threadId - Limit to runs started from this thread
+ */
+export async function getActivePipelineRuns(threadId?: string): Promise<PipelineRun[]> {
+    const runs = await db.pipelineRuns.where('status').anyOf(ACTIVE_PIPELINE_STATUSES).toArray();
+    return runs
+        .filter(run => threadId === undefined || run.threadId === threadId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// ============================================================================
+// Memories API
+// ============================================================================
+
+/**
+ * Insert or replace the memory stored under a key
+ * 
+ * @remarks
+ * Keys are unique, so saving an existing key updates it in place and keeps
+ * its id and creation time.
+ * 
+ * @param entry - Memory fields; id and timestamps are derived
+ * @returns The stored memory
+ */
+export async function putMemory(
+    entry: Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<MemoryEntry> {
+    return db.transaction('rw', db.memories, async () => {
+        const existing = await db.memories.where('key').equals(entry.key).first();
+        const now = Date.now();
+        const memory: MemoryEntry = {
+            ...entry,
+            id: existing?.id ?? crypto.randomUUID(),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+        await db.memories.put(memory);
+        return memory;
+    });
+}
+
+/**
+ * Get a memory by its key
+ */
+export async function getMemoryByKey(key: string): Promise<MemoryEntry | undefined> {
+    return db.memories.where('key').equals(key).first();
+}
+
+/**
+ * List memories, most recently updated first
+ */
+export async function listMemoryEntries(options: MemoryListOptions = {}): Promise<MemoryEntry[]> {
+    const { category, limit } = options;
+    let collection = db.memories.orderBy('updatedAt').reverse();
+    if (category) {
+        collection = collection.filter(memory => memory.category === category);
+    }
+    return limit ? collection.limit(limit).toArray() : collection.toArray();
+}
+
+/**
+ * Get memories sharing at least one keyword with the given tokens
+ */
+export async function getMemoriesByKeywords(keywords: string[]): Promise<MemoryEntry[]> {
+    if (keywords.length === 0) return [];
+    return db.memories.where('keywords').anyOf(keywords).distinct().toArray();
+}
+
+/**
+ * Delete a memory by its key
+ * 
+ * @returns Whether a memory was deleted
+ */
+export async function deleteMemoryByKey(key: string): Promise<boolean> {
+    const deleted = await db.memories.where('key').equals(key).delete();
+    return deleted > 0;
+}
+
+/**
+ * Delete all memories
+ */
+export async function clearMemories(): Promise<void> {
+    await db.memories.clear();
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
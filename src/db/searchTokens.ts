@@ -0,0 +1,130 @@
+/**
+ * Search Tokenizer for ChatDB
+ *
+ * Pure helpers (no database access) that turn thread titles and UIMessage
+ * parts into normalized tokens. The tokens are stored on each record and
+ * indexed with Dexie multiEntry indexes (`*searchTokens`, `*titleTokens`).
+ */
+
+import type { UIMessage } from 'ai';
+
+/** Maximum number of unique tokens stored per message */
+export const MAX_TOKENS_PER_MESSAGE = 2000;
+
+/** Tokens shorter than this are not indexed */
+export const MIN_TOKEN_LENGTH = 2;
+
+/** Tokens longer than this are truncated (long hashes, base64, URLs) */
+const MAX_TOKEN_LENGTH = 40;
+
+/** Tool payloads larger than this are truncated before tokenizing */
+const MAX_TOOL_PAYLOAD_CHARS = 20000;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in',
+    'into', 'is', 'it', 'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the',
+    'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'will', 'with',
+]);
+
+const TOKEN_SPLIT_REGEX = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Lowercase and strip diacritics so "Café" matches "cafe"
+ */
+export function normalizeSearchText(text: string): string {
+    return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Split text into normalized, de-duplicated search tokens
+ *
+ * @param text - Raw text to tokenize
+ * @param keepStopWords - Keep stop words (for queries made only of stop words)
+ */
+export function tokenizeSearchText(text: string, keepStopWords = false): string[] {
+    if (!text) return [];
+
+    const tokens = new Set<string>();
+    for (const raw of normalizeSearchText(text).split(TOKEN_SPLIT_REGEX)) {
+        if (raw.length < MIN_TOKEN_LENGTH) continue;
+        if (!keepStopWords && STOP_WORDS.has(raw)) continue;
+        tokens.add(raw.slice(0, MAX_TOKEN_LENGTH));
+    }
+    return Array.from(tokens);
+}
+
+/**
+ * Split a search query into terms
+ * Stop words aren't indexed, so they're dropped unless the query has nothing else
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+    const terms = tokenizeSearchText(query);
+    return terms.length > 0 ? terms : tokenizeSearchText(query, true);
+}
+
+function stringifyToolPayload(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value.slice(0, MAX_TOOL_PAYLOAD_CHARS);
+    try {
+        return JSON.stringify(value).slice(0, MAX_TOOL_PAYLOAD_CHARS);
+    } catch {
+        return '';
+    }
+}
+
+function isToolPart(part: { type?: string }): boolean {
+    return part.type === 'dynamic-tool' || !!part.type?.startsWith('tool-');
+}
+
+/**
+ * Extract the searchable text of a message, split by origin
+ *
+ * @returns `text` from text parts and `toolText` from tool names, inputs and outputs
+ */
+export function extractSearchableText(message: UIMessage): { text: string; toolText: string } {
+    const textChunks: string[] = [];
+    const toolChunks: string[] = [];
+
+    for (const part of (message.parts || []) as any[]) {
+        if (!part) continue;
+
+        if (part.type === 'text' && typeof part.text === 'string') {
+            // Tab attachment content is for the model only, not user-visible
+            if (/^\s*\[TAB ATTACHMENT:/i.test(part.text)) continue;
+            textChunks.push(part.text);
+            continue;
+        }
+
+        if (isToolPart(part)) {
+            const toolName = part.toolName || part.type.replace(/^tool-/, '');
+            toolChunks.push(
+                [
+                    toolName,
+                    stringifyToolPayload(part.input ?? part.args),
+                    stringifyToolPayload(part.output ?? part.result),
+                ].filter(Boolean).join(' ')
+            );
+        }
+    }
+
+    return {
+        text: textChunks.join('\n\n'),
+        toolText: toolChunks.join('\n'),
+    };
+}
+
+/**
+ * Build the token list stored in `ChatMessage.searchTokens`
+ */
+export function buildMessageSearchTokens(message: UIMessage | undefined): string[] {
+    if (!message) return [];
+    const { text, toolText } = extractSearchableText(message);
+    return tokenizeSearchText(`${text}\n${toolText}`).slice(0, MAX_TOKENS_PER_MESSAGE);
+}
+
+/**
+ * Build the token list stored in `ChatThread.titleTokens`
+ */
+export function buildTitleTokens(title: string | undefined): string[] {
+    return tokenizeSearchText(title || '');
+}
@@ -5,6 +5,7 @@
  * - Active tab detection and context
  * - YouTube video page detection
  * - Local PDF file detection
+ * - Site rules quick toggle for the active tab
  *
  * @example
  * import { useTabContext, useActiveTabDetection } from '@/hooks/browser';
@@ -15,5 +16,8 @@ export type { LocalPdfInfo, ActiveTabDetection } from './useActiveTabDetection';
 
 export { useTabContext } from './useTabContext';
 
+export { useCurrentSiteRules } from './useCurrentSiteRules';
+export type { CurrentSiteRules } from './useCurrentSiteRules';
+
 export { useYouTubeVideoDetection } from './useYouTubeVideoDetection';
 export type { YouTubeVideoInfo, YouTubeVideoDetection } from './useYouTubeVideoDetection';
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createLogger } from '~logger';
+import {
+    ALL_SITE_FEATURES,
+    DEFAULT_SITE_RULES_SETTINGS,
+    evaluateSiteRules,
+    getSiteRulesSettings,
+    setSiteFeaturesPaused,
+    SITE_RULES_STORAGE_KEY,
+    type SiteFeature,
+    type SiteRulesSettings,
+} from '@/utils/settings/siteRules';
+import { useActiveTabDetection } from './useActiveTabDetection';
+
+const log = createLogger('useCurrentSiteRules');
+
+/**
+ * Return type for the useCurrentSiteRules hook
+ */
+export interface CurrentSiteRules {
+    /** Hostname of the active tab; undefined on pages content scripts can't run on */
+    hostname?: string;
+    /** In-page features that are off on this site */
+    blockedFeatures: SiteFeature[];
+    /** Turn every in-page feature off on this site, or back on if any is off */
+    togglePaused: () => Promise<void>;
+}
+
+function getWebHostname(url?: string): string | undefined {
+    if (!url) return undefined;
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Hook for the side panel quick toggle of in-page features on the active tab's site
+ */
+export function useCurrentSiteRules(): CurrentSiteRules {
+    const { url } = useActiveTabDetection();
+    const hostname = getWebHostname(url);
+    const [settings, setSettings] = useState<SiteRulesSettings>(DEFAULT_SITE_RULES_SETTINGS);
+
+    useEffect(() => {
+        const refresh = () => {
+            getSiteRulesSettings().then(setSettings).catch((error) => {
+                log.error('Failed to load site rules', error);
+            });
+        };
+        refresh();
+
+        const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === 'local' && changes[SITE_RULES_STORAGE_KEY]) {
+                refresh();
+            }
+        };
+        chrome.storage.onChanged.addListener(handleStorageChange);
+        return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+    }, []);
+
+    const blockedFeatures = useMemo(
+        () => hostname
+            ? ALL_SITE_FEATURES.filter(feature => !evaluateSiteRules(settings, feature, hostname).allowed)
+            : [],
+        [settings, hostname]
+    );
+
+    const togglePaused = useCallback(async () => {
+        if (!hostname) return;
+        try {
+            setSettings(await setSiteFeaturesPaused(hostname, blockedFeatures.length === 0));
+        } catch (error) {
+            log.error('Failed to update site rules', error);
+        }
+    }, [hostname, blockedFeatures.length]);
+
+    return { hostname, blockedFeatures, togglePaused };
+}
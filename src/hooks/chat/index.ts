@@ -6,6 +6,7 @@
  * - Chat input validation
  * - Message sending with attachments
  * - Thread lifecycle management
+ * - Conversation branching (editing, regenerating, switching alternates)
  *
  * @example
  * import { useAIChatMessages, useThreadManagement } from '@/hooks/chat';
@@ -13,5 +14,6 @@
 
 export { useAIChatMessages } from './useAIChatMessages';
 export { useChatInputValidation } from './useChatInputValidation';
+export { useMessageBranches } from './useMessageBranches';
 export { useMessageHandlers } from './useMessageHandlers';
 export { useThreadManagement } from './useThreadManagement';
@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { createLogger } from '~logger';
-import { db, clearThreadMessages, updateThreadTitle, type ChatMessage } from '../../db';
+import { db, saveBranchPath, updateThreadTitle, type ChatMessage } from '../../db';
 import { generateThreadTitle } from '@/utils/ai';
 import type { UIMessage } from 'ai';
 
@@ -21,9 +21,9 @@ export function useAIChatMessages({ currentThreadId }: UseAIChatMessagesProps) {
 
         if (result.messages && result.messages.length > 0 && currentThreadId) {
             try {
-                await clearThreadMessages(currentThreadId);
-
-                const dbMessages: ChatMessage[] = result.messages
+                // result.messages is the active branch; siblings from edits and
+                // regenerations stay in the DB as alternate branches
+                const dbMessages: Array<Pick<ChatMessage, 'id' | 'message' | 'timestamp'>> = result.messages
                     .map((msg: UIMessage, index: number) => {
                         // Safely filter out transient parts
                         let messageWithoutTransient;
@@ -49,15 +49,13 @@ export function useAIChatMessages({ currentThreadId }: UseAIChatMessagesProps) {
 
                         return {
                             id: msg.id,
-                            threadId: currentThreadId,
                             message: messageWithoutTransient,
                             timestamp,
-                            sequenceNumber: index,
                         };
                     });
 
                 if (dbMessages.length > 0) {
-                    await db.chatMessages.bulkAdd(dbMessages);
+                    await saveBranchPath(currentThreadId, dbMessages);
 
                     const toolCallCount = dbMessages.filter(msg =>
                         msg.message.parts?.some((p: any) =>
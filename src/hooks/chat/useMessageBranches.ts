@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createLogger } from '~logger';
+import { getThreadBranches, loadThreadMessages, switchBranch, type ChatMessage, type MessageBranchInfo } from '../../db';
+import type { UIMessage } from 'ai';
+
+const log = createLogger('useMessageBranches');
+
+/**
+ * Convert stored branch messages to UI messages, keeping their usage data
+ */
+function toUIMessages(path: ChatMessage[]): UIMessage[] {
+    return path.map(msg => {
+        const uiMessage = msg.message;
+        if (msg.usage) {
+            (uiMessage as any).usage = msg.usage;
+        }
+        return uiMessage;
+    });
+}
+
+interface UseMessageBranchesProps {
+    currentThreadId: string | null;
+    messages: UIMessage[];
+    isLoading: boolean;
+    setMessages?: (messages: UIMessage[]) => void;
+    sendMessage: (message: any) => void;
+    regenerate?: (options?: { messageId?: string }) => Promise<void>;
+}
+
+/**
+ * Hook to navigate the conversation tree
+ * 
+ * Editing a prompt or regenerating a reply adds a sibling next to the original
+ * message; the new branch is persisted by useAIChatMessages once the response
+ * finishes. This hook exposes sibling info for the visible branch and lets the
+ * user switch between alternates.
+ */
+export function useMessageBranches({
+    currentThreadId,
+    messages,
+    isLoading,
+    setMessages,
+    sendMessage,
+    regenerate,
+}: UseMessageBranchesProps) {
+    const [storedBranches, setStoredBranches] = useState<Map<string | null, string[]>>(new Map());
+    const messageKey = messages.map(m => m.id).join(',');
+
+    // Reload the tree whenever the visible branch settles
+    useEffect(() => {
+        if (!currentThreadId) {
+            setStoredBranches(new Map());
+            return;
+        }
+        if (isLoading) return;
+
+        let cancelled = false;
+        getThreadBranches(currentThreadId)
+            .then(branches => {
+                if (!cancelled) setStoredBranches(branches);
+            })
+            .catch(error => {
+                log.error('Failed to load conversation branches', error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [currentThreadId, isLoading, messageKey]);
+
+    // Merge with in-memory messages that may not be persisted yet
+    const branches = useMemo(() => {
+        const info = new Map<string, MessageBranchInfo>();
+        messages.forEach((message, index) => {
+            const parentId = index > 0 ? messages[index - 1]!.id : null;
+            const stored = storedBranches.get(parentId) ?? [];
+            const siblingIds = stored.includes(message.id) ? stored : [...stored, message.id];
+            if (siblingIds.length > 1) {
+                info.set(message.id, { siblingIds, index: siblingIds.indexOf(message.id) });
+            }
+        });
+        return info;
+    }, [messages, storedBranches]);
+
+    const handleSwitchBranch = useCallback(async (messageId: string, direction: -1 | 1) => {
+        if (!currentThreadId || isLoading || !setMessages) return;
+
+        const info = branches.get(messageId);
+        const targetId = info?.siblingIds[info.index + direction];
+        if (!targetId) return;
+
+        try {
+            const path = await switchBranch(currentThreadId, targetId);
+            setMessages(toUIMessages(path));
+            log.info('Switched conversation branch', { threadId: currentThreadId, messageId: targetId });
+        } catch (error) {
+            log.error('Failed to switch conversation branch', error);
+        }
+    }, [currentThreadId, isLoading, setMessages, branches]);
+
+    /**
+     * Activate the branch containing a message so it gets rendered,
+     * e.g. before jumping to a history search result.
+     * Other threads only have their active branch updated; it shows once the thread loads.
+     */
+    const revealMessage = useCallback(async (threadId: string, messageId: string) => {
+        const isCurrentThread = threadId === currentThreadId;
+        if (isCurrentThread && (isLoading || !setMessages)) return;
+
+        try {
+            const visibleIds = isCurrentThread
+                ? messages.map(m => m.id)
+                : (await loadThreadMessages(threadId)).map(m => m.id);
+            if (visibleIds.includes(messageId)) return;
+
+            const path = await switchBranch(threadId, messageId);
+            if (isCurrentThread) {
+                setMessages!(toUIMessages(path));
+            }
+            log.info('Switched to the branch containing a message', { threadId, messageId });
+        } catch (error) {
+            log.error('Failed to reveal message', error);
+        }
+    }, [currentThreadId, messages, isLoading, setMessages]);
+
+    const handleEditMessage = useCallback((messageId: string, text: string) => {
+        const trimmed = text.trim();
+        const index = messages.findIndex(m => m.id === messageId);
+        const original = messages[index];
+        if (!trimmed || !original || original.role !== 'user' || isLoading || !setMessages) return;
+
+        // Replace the typed prompt but keep attachments (files, tab context)
+        let replaced = false;
+        const parts: any[] = original.parts.map((part: any) => {
+            if (!replaced && part.type === 'text' && !/^\s*\[TAB ATTACHMENT:/i.test(part.text)) {
+                replaced = true;
+                return { ...part, text: trimmed };
+            }
+            return part;
+        });
+        if (!replaced) {
+            parts.unshift({ type: 'text', text: trimmed });
+        }
+
+        // Truncate to the edited message's parent so the new prompt becomes its sibling
+        setMessages(messages.slice(0, index));
+        sendMessage({ role: 'user', parts, metadata: original.metadata });
+        log.info('Editing message into a new branch', { messageId, index });
+    }, [messages, isLoading, setMessages, sendMessage]);
+
+    const handleRegenerate = useCallback((messageId: string) => {
+        if (isLoading || !regenerate) return;
+
+        regenerate({ messageId }).catch(error => {
+            log.error('Failed to regenerate response', error);
+        });
+    }, [isLoading, regenerate]);
+
+    return {
+        branches,
+        handleSwitchBranch,
+        revealMessage,
+        handleEditMessage,
+        handleRegenerate,
+    };
+}
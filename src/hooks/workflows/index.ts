@@ -4,9 +4,13 @@
  * Hooks for workflow-related functionality including:
  * - Slash command workflow selection
  * - Workflow mode management
+ * - Pipeline workflow runs (start, resume, confirm, cancel)
+ * - Live progress of macro replays
  *
  * @example
  * import { useWorkflowMode } from '@/hooks/workflows';
  */
 
 export { useWorkflowMode } from './useWorkflowMode';
+export { usePipelineRuns } from './usePipelineRuns';
+export { useMacroRun } from './useMacroRun';
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getMacroRun, subscribeToMacroRuns, type MacroRun } from '@/workflows/macros';
+
+/**
+ * Latest replay of a macro in this side panel, updated after every step
+ */
+export function useMacroRun(macroId: string): MacroRun | undefined {
+    return useSyncExternalStore(subscribeToMacroRuns, () => getMacroRun(macroId));
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UIMessage } from 'ai';
+import { createLogger } from '~logger';
+import { getActivePipelineRuns, loadThreadMessages, saveBranchPath, type PipelineRun } from '../../db';
+import {
+    cancelPipelineRun,
+    resumePipelineRun,
+    startPipelineRun,
+    subscribeToPipelineRuns,
+    type PipelineWorkflow,
+} from '@/workflows/pipeline/runner';
+
+const log = createLogger('usePipelineRuns');
+
+interface UsePipelineRunsProps {
+    currentThreadId: string | null;
+    messages: UIMessage[];
+    setMessages: (messages: UIMessage[]) => void;
+    onError?: (message: string) => void;
+}
+
+function textMessage(role: 'user' | 'assistant', text: string): UIMessage {
+    return { id: crypto.randomUUID(), role, parts: [{ type: 'text', text }] };
+}
+
+function describeOutcome(run: PipelineRun): string | null {
+    if (run.status === 'completed') return run.result ?? 'Workflow completed.';
+    if (run.status === 'failed') {
+        const stage = run.stages.find(s => s.status === 'failed');
+        return `⚠️ Workflow failed${stage ? ` at "${stage.label}"` : ''}: ${run.error ?? 'Unknown error'}`;
+    }
+    return null;
+}
+
+/**
+ * Hook to run pipeline workflows from the chat and track their progress
+ *
+ * Loads runs left active in the current thread (e.g. when the side panel was
+ * closed mid-run) so they can be resumed, and posts each run's result to the
+ * thread it was started from.
+ */
+export function usePipelineRuns({ currentThreadId, messages, setMessages, onError }: UsePipelineRunsProps) {
+    const [runs, setRuns] = useState<PipelineRun[]>([]);
+
+    const messagesRef = useRef(messages);
+    messagesRef.current = messages;
+    const threadIdRef = useRef(currentThreadId);
+    threadIdRef.current = currentThreadId;
+
+    // Append messages to a thread, updating the chat if it is the open thread
+    const appendMessages = useCallback(async (threadId: string | null, newMessages: UIMessage[]) => {
+        const isOpenThread = threadId === threadIdRef.current;
+        const base: UIMessage[] = isOpenThread || !threadId
+            ? messagesRef.current
+            : (await loadThreadMessages(threadId)).map(msg => msg.message);
+        const next = [...base, ...newMessages];
+
+        if (isOpenThread) {
+            messagesRef.current = next;
+            setMessages(next);
+        }
+        if (threadId) {
+            const now = Date.now();
+            await saveBranchPath(threadId, next.map((message, index) => ({
+                id: message.id,
+                message,
+                timestamp: now + index,
+            })));
+        }
+    }, [setMessages]);
+
+    // Load runs that are still active for this thread
+    useEffect(() => {
+        if (!currentThreadId) {
+            setRuns([]);
+            return;
+        }
+        let cancelled = false;
+        getActivePipelineRuns(currentThreadId)
+            .then(active => {
+                if (!cancelled) setRuns(active);
+            })
+            .catch(error => log.error('Failed to load pipeline runs', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [currentThreadId]);
+
+    useEffect(() => {
+        return subscribeToPipelineRuns(run => {
+            if (run.threadId !== threadIdRef.current) return;
+            setRuns(prev => {
+                const others = prev.filter(r => r.id !== run.id);
+                return run.status === 'running' || run.status === 'waiting' ? [run, ...others] : others;
+            });
+        });
+    }, []);
+
+    const settle = useCallback(async (run: PipelineRun) => {
+        const outcome = describeOutcome(run);
+        if (!outcome) return;
+        try {
+            await appendMessages(run.threadId, [textMessage('assistant', outcome)]);
+        } catch (error) {
+            log.error('Failed to save pipeline result', error);
+        }
+    }, [appendMessages]);
+
+    const startRun = useCallback(async (workflow: PipelineWorkflow, prompt: string) => {
+        const threadId = threadIdRef.current;
+        try {
+            await appendMessages(threadId, [textMessage('user', `/${workflow.id} ${prompt}`.trim())]);
+            const run = await startPipelineRun(workflow, prompt, threadId);
+            await settle(run);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to start workflow';
+            log.error('Failed to start pipeline', { workflowId: workflow.id, error: message });
+            onError?.(message);
+        }
+    }, [appendMessages, settle, onError]);
+
+    const resumeRun = useCallback(async (runId: string, approved = true) => {
+        try {
+            await settle(await resumePipelineRun(runId, approved));
+        } catch (error) {
+            onError?.(error instanceof Error ? error.message : 'Failed to resume workflow');
+        }
+    }, [settle, onError]);
+
+    const cancelRun = useCallback(async (runId: string) => {
+        try {
+            await cancelPipelineRun(runId);
+        } catch (error) {
+            log.error('Failed to cancel pipeline', error);
+        }
+    }, []);
+
+    return { runs, startRun, resumeRun, cancelRun };
+}
@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import { replaceSlashCommand } from '@/utils/chat';
 import { validateYouTubeToNotionPrerequisites } from '@/workflows/definitions/youtubeToNotionWorkflow';
 import type { WorkflowDefinition } from '@/workflows/types';
+import { expandMCPPromptCommand, type MCPPromptCommand } from '@/ai/mcp/prompts';
 
 interface UseWorkflowModeOptions {
     input: string;
@@ -36,6 +37,24 @@ export const useWorkflowMode = ({ input, setInput, onError }: UseWorkflowModeOpt
         setInput(result.newText);
     }, [input, setInput, onError]);
 
+    // Handle MCP prompt selection from slash command dropdown
+    const handleSelectMcpPrompt = useCallback(async (command: MCPPromptCommand) => {
+        setShowSlashDropdown(false);
+        const { newText } = replaceSlashCommand(input, input.length, command.id);
+
+        // Prompts with arguments stay as a command; arguments are typed after it and resolved on send
+        if (command.prompt.arguments?.length) {
+            setInput(`/${command.id} ${newText}`);
+            return;
+        }
+
+        try {
+            setInput(newText + await expandMCPPromptCommand(command, ''));
+        } catch (error) {
+            onError?.(error instanceof Error ? error.message : 'Failed to load MCP prompt', 'error');
+        }
+    }, [input, setInput, onError]);
+
     // Handle clearing workflow mode
     const handleClearWorkflow = useCallback(() => {
         setActiveWorkflow(null);
@@ -56,6 +75,7 @@ export const useWorkflowMode = ({ input, setInput, onError }: UseWorkflowModeOpt
         showSlashDropdown,
         slashSearchQuery,
         handleSelectWorkflow,
+        handleSelectMcpPrompt,
         handleClearWorkflow,
         handleSlashCommandDetection,
     };
@@ -13,6 +13,11 @@ import type {
     McpMessage,
     McpInitializeRequest,
     McpToolsListResponse,
+    McpResource,
+    McpResourceReadResponse,
+    McpPrompt,
+    McpPromptGetResponse,
+    McpServerCapabilities,
     McpServerStatus,
     McpConnectionState
 } from '../types';
@@ -27,6 +32,9 @@ import { ConnectionManager } from './connectionManager';
 
 const log = createLogger('MCP-SSE', 'MCP_SSE');
 
+/** Upper bound on pages fetched for paginated list requests */
+const MAX_LIST_PAGES = 10;
+
 /**
  * Generic MCP SSE Client for any MCP server
  */
@@ -37,6 +45,8 @@ export class McpSSEClient {
     private sessionId: string | null = null; // MCP session ID from initialization
     private onStatusChange: (status: McpServerStatus) => void;
     private onMessage: (message: McpMessage) => void;
+    private onResourceUpdated?: (uri: string) => void;
+    private subscriptions = new Set<string>();
     private currentStatus: McpServerStatus;
     private config: Required<Omit<SSEClientConfig, 'customHeaders'>> & { customHeaders?: Record<string, string> };
 
@@ -46,7 +56,6 @@ export class McpSSEClient {
     // Used by transportDetector callbacks - values are written but not directly read in this class
     // @ts-ignore - used by callbacks
     private _initializeResolve: (() => void) | null = null;
-    // @ts-ignore - used by callbacks
     private _initializeResult: any = null;
 
     // Component managers
@@ -64,6 +73,7 @@ export class McpSSEClient {
         callbacks: {
             onStatusChange: (status: McpServerStatus) => void;
             onMessage: (message: McpMessage) => void;
+            onResourceUpdated?: (uri: string) => void;
         },
         config?: Partial<SSEClientConfig>
     ) {
@@ -72,6 +82,7 @@ export class McpSSEClient {
         this.accessToken = accessToken;
         this.onStatusChange = callbacks.onStatusChange;
         this.onMessage = callbacks.onMessage;
+        this.onResourceUpdated = callbacks.onResourceUpdated;
 
         this.currentStatus = {
             serverId,
@@ -86,7 +97,10 @@ export class McpSSEClient {
         });
 
         this.messageHandler = new MessageHandler(this.serverId, {
-            onMessage: this.onMessage
+            onMessage: (message) => {
+                this.handleServerNotification(message);
+                this.onMessage(message);
+            }
         });
 
         this.requestManager = new RequestManager({
@@ -150,7 +164,10 @@ export class McpSSEClient {
             {
                 updateStatus: this.updateStatus.bind(this),
                 onConnected: () => {
-                    // Connection established callback
+                    // A reconnect starts a new server session without the earlier subscriptions
+                    if (this.subscriptions.size > 0) {
+                        void this.restoreSubscriptions();
+                    }
                 }
             }
         );
@@ -223,6 +240,91 @@ export class McpSSEClient {
 
         // Fetch available tools
         await this.fetchTools();
+
+        // Resources and prompts are optional server features
+        this.currentStatus.capabilities = this._initializeResult?.capabilities;
+        if (this.currentStatus.capabilities?.resources) {
+            await this.fetchResources();
+        }
+        if (this.currentStatus.capabilities?.prompts) {
+            await this.fetchPrompts();
+        }
+    }
+
+    /**
+     * Get the capabilities the server declared during initialization
+     */
+    getCapabilities(): McpServerCapabilities | undefined {
+        return this.currentStatus.capabilities;
+    }
+
+    /**
+     * React to server-initiated notifications (messages without an id)
+     */
+    private handleServerNotification(message: McpMessage): void {
+        if (message.id !== undefined || !message.method) return;
+
+        switch (message.method) {
+            case 'notifications/resources/updated': {
+                const uri = message.params?.uri;
+                if (typeof uri === 'string' && this.subscriptions.has(uri)) {
+                    log.info(`[${this.serverId}] Resource updated:`, uri);
+                    this.onResourceUpdated?.(uri);
+                }
+                break;
+            }
+            case 'notifications/resources/list_changed':
+                void this.fetchResources();
+                break;
+            case 'notifications/prompts/list_changed':
+                void this.fetchPrompts();
+                break;
+            case 'notifications/tools/list_changed':
+                void this.fetchTools();
+                break;
+        }
+    }
+
+    /**
+     * Request every page of a paginated list method
+     */
+    private async listAllPages<T>(method: string, key: 'resources' | 'prompts'): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        for (let page = 0; page < MAX_LIST_PAGES; page++) {
+            const result: { nextCursor?: string } & Record<string, unknown> =
+                await this.requestManager.sendRequest(method, cursor ? { cursor } : undefined);
+            items.push(...((result[key] as T[] | undefined) ?? []));
+            cursor = result.nextCursor;
+            if (!cursor) break;
+        }
+        return items;
+    }
+
+    /**
+     * Fetch available resources from MCP server
+     */
+    async fetchResources(): Promise<void> {
+        try {
+            this.currentStatus.resources = await this.listAllPages<McpResource>('resources/list', 'resources');
+            this.onStatusChange(this.currentStatus);
+            log.info(`[${this.serverId}] Resources:`, this.currentStatus.resources.length);
+        } catch (error) {
+            log.error(`[${this.serverId}] Failed to fetch resources:`, error);
+        }
+    }
+
+    /**
+     * Fetch available prompts from MCP server
+     */
+    async fetchPrompts(): Promise<void> {
+        try {
+            this.currentStatus.prompts = await this.listAllPages<McpPrompt>('prompts/list', 'prompts');
+            this.onStatusChange(this.currentStatus);
+            log.info(`[${this.serverId}] Prompts:`, this.currentStatus.prompts.length);
+        } catch (error) {
+            log.error(`[${this.serverId}] Failed to fetch prompts:`, error);
+        }
     }
 
     /**
@@ -254,6 +356,73 @@ export class McpSSEClient {
         return this.requestManager.sendRequest('tools/call', { name, arguments: args });
     }
 
+    /**
+     * Get available resources (returns cached resources from status)
+     */
+    async listResources(): Promise<{ resources: McpResource[] }> {
+        return { resources: this.currentStatus.resources || [] };
+    }
+
+    /**
+     * Read the contents of a resource
+     */
+    async readResource(uri: string): Promise<McpResourceReadResponse> {
+        return this.requestManager.sendRequest('resources/read', { uri });
+    }
+
+    /**
+     * Subscribe to change notifications for a resource
+     * @throws Error if the server does not support subscriptions
+     */
+    async subscribeResource(uri: string): Promise<void> {
+        if (!this.currentStatus.capabilities?.resources?.subscribe) {
+            throw new Error('Server does not support resource subscriptions');
+        }
+        await this.requestManager.sendRequest('resources/subscribe', { uri });
+        this.subscriptions.add(uri);
+    }
+
+    /**
+     * Re-send resource subscriptions once a reconnected session is ready
+     */
+    private async restoreSubscriptions(): Promise<void> {
+        try {
+            if (this.transportDetector.getTransportType() === 'streamable-http') {
+                await this.initializePromise;
+            } else {
+                await this.transportDetector.waitForEndpoint();
+            }
+            for (const uri of this.subscriptions) {
+                await this.requestManager.sendRequest('resources/subscribe', { uri });
+            }
+            log.info(`[${this.serverId}] Restored ${this.subscriptions.size} resource subscription(s)`);
+        } catch (error) {
+            log.error(`[${this.serverId}] Failed to restore resource subscriptions:`, error);
+        }
+    }
+
+    /**
+     * Stop receiving change notifications for a resource
+     */
+    async unsubscribeResource(uri: string): Promise<void> {
+        if (!this.subscriptions.delete(uri)) return;
+        await this.requestManager.sendRequest('resources/unsubscribe', { uri });
+    }
+
+    /**
+     * Get available prompts (returns cached prompts from status)
+     */
+    async listPrompts(): Promise<{ prompts: McpPrompt[] }> {
+        return { prompts: this.currentStatus.prompts || [] };
+    }
+
+    /**
+     * Render a prompt with its arguments
+     */
+    async getPrompt(name: string, args?: Record<string, string>): Promise<McpPromptGetResponse> {
+        return this.requestManager.sendRequest('prompts/get', { name, arguments: args });
+    }
+
     /**
      * Send a notification (no response expected)
      */
@@ -27,3 +27,21 @@ export function broadcastStatusUpdate(serverId: string, status: McpServerStatus)
         // Ignore errors if no listeners
     });
 }
+
+
+/**
+ * Broadcast a subscribed resource change to all listeners
+ * 
+ * Message format: `mcp/{serverId}/resource/updated`
+ * 
+ * @param serverId - The unique identifier for the MCP server
+ * @param uri - The URI of the resource that changed
+ */
+export function broadcastResourceUpdate(serverId: string, uri: string): void {
+    chrome.runtime.sendMessage({
+        type: `mcp/${serverId}/resource/updated`,
+        payload: { uri }
+    }).catch(() => {
+        // Ignore errors if no listeners
+    });
+}
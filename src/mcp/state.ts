@@ -31,6 +31,8 @@ export interface ServerState {
     oauthState: OAuthState | null;
     /** Whether this server is currently enabled */
     isEnabled: boolean;
+    /** Resource URIs the side panel follows; restored when the connection is re-established */
+    resourceSubscriptions: Set<string>;
 }
 
 /**
@@ -63,7 +65,8 @@ export function getServerState(serverId: string): ServerState {
             status: { serverId, state: 'disconnected' },
             oauthEndpoints: null,
             oauthState: null,
-            isEnabled: false
+            isEnabled: false,
+            resourceSubscriptions: new Set()
         });
     }
     return serverStates.get(serverId)!;
@@ -152,6 +152,69 @@ export interface McpPrompt {
     }>;
 }
 
+/**
+ * MCP Resources List Response
+ */
+export interface McpResourcesListResponse {
+    resources: McpResource[];
+    nextCursor?: string;
+}
+
+/**
+ * Contents of a resource returned by resources/read
+ * Text resources carry `text`, binary resources a base64 `blob`
+ */
+export interface McpResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+
+/**
+ * MCP Resource Read Response
+ */
+export interface McpResourceReadResponse {
+    contents: McpResourceContents[];
+}
+
+/**
+ * MCP Prompts List Response
+ */
+export interface McpPromptsListResponse {
+    prompts: McpPrompt[];
+    nextCursor?: string;
+}
+
+/**
+ * Message produced by prompts/get
+ */
+export interface McpPromptMessage {
+    role: 'user' | 'assistant';
+    content:
+        | { type: 'text'; text: string }
+        | { type: 'image'; data: string; mimeType: string }
+        | { type: 'resource'; resource: McpResourceContents };
+}
+
+/**
+ * MCP Prompt Get Response
+ */
+export interface McpPromptGetResponse {
+    description?: string;
+    messages: McpPromptMessage[];
+}
+
+/**
+ * Capabilities a server declares in its initialize result
+ */
+export interface McpServerCapabilities {
+    tools?: { listChanged?: boolean };
+    resources?: { subscribe?: boolean; listChanged?: boolean };
+    prompts?: { listChanged?: boolean };
+    logging?: Record<string, unknown>;
+}
+
 /**
  * MCP Server Status (generalized)
  */
@@ -163,6 +226,7 @@ export interface McpServerStatus {
     tools?: McpTool[];
     resources?: McpResource[];
     prompts?: McpPrompt[];
+    capabilities?: McpServerCapabilities;
 }
 
 /**
@@ -203,7 +267,13 @@ export type McpExtensionMessageType =
     | `mcp/${string}/health/check`
     | `mcp/${string}/tool/call`
     | `mcp/${string}/tools/list`
-    | `mcp/${string}/resource/read`;
+    | `mcp/${string}/resources/list`
+    | `mcp/${string}/resource/read`
+    | `mcp/${string}/resource/subscribe`
+    | `mcp/${string}/resource/unsubscribe`
+    | `mcp/${string}/resource/updated`
+    | `mcp/${string}/prompts/list`
+    | `mcp/${string}/prompt/get`;
 
 /**
  * Generic extension message structure for MCP
@@ -0,0 +1,56 @@
+/**
+ * Memory context for the system prompt
+ * Picks the saved memories relevant to the latest user message
+ */
+
+import { createLogger } from '~logger';
+import { getMemorySettings } from '@/utils/settings/memorySettings';
+import type { MemoryEntry } from '~/db';
+import { listMemories, searchMemories } from './store';
+
+const log = createLogger('MemoryContext', 'MEMORY_OPERATIONS');
+
+/** Behavior memories are instructions, so they are added regardless of the query */
+const MAX_BEHAVIOR_MEMORIES = 10;
+
+function formatMemory(memory: MemoryEntry): string {
+    return `- ${memory.key}: ${memory.content}`;
+}
+
+/**
+ * Build the memory section appended to the system prompt
+ *
+ * @param query - Text of the latest user message
+ * @param maxFacts - Overrides the configured number of facts (e.g. fewer for Gemini Nano)
+ * @returns The prompt section, or an empty string when there is nothing to add
+ */
+export async function buildMemoryContext(query: string, maxFacts?: number): Promise<string> {
+    try {
+        const settings = await getMemorySettings();
+        if (!settings.autoInject) return '';
+
+        const [behaviors, facts] = await Promise.all([
+            listMemories({ category: 'behavior', limit: MAX_BEHAVIOR_MEMORIES }),
+            searchMemories(query, { category: 'fact', limit: maxFacts ?? settings.maxInjected }),
+        ]);
+        if (behaviors.length === 0 && facts.length === 0) return '';
+
+        const sections: string[] = ['[SAVED MEMORIES - Stored on this device by the user]'];
+        if (behaviors.length > 0) {
+            sections.push(`How the user wants you to behave:\n${behaviors.map(formatMemory).join('\n')}`);
+        }
+        if (facts.length > 0) {
+            sections.push(`Facts that may be relevant:\n${facts.map(result => formatMemory(result.memory)).join('\n')}`);
+        }
+        sections.push('Use these only when they help with the request. Use getMemory or listMemories for anything not listed here.');
+
+        log.info('Memory context built', { behaviors: behaviors.length, facts: facts.length });
+        return sections.join('\n\n');
+    } catch (error) {
+        // Memories are a nice-to-have; never block the chat on them
+        log.warn('Failed to build memory context', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return '';
+    }
+}
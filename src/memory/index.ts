@@ -0,0 +1,16 @@
+// Store
+export {
+    saveMemory,
+    getMemory,
+    listMemories,
+    deleteMemory,
+    searchMemories,
+    normalizeMemoryKey,
+} from './store';
+export type { SaveMemoryInput, MemorySearchOptions } from './store';
+
+// Prompt context
+export { buildMemoryContext } from './context';
+
+// Vectors
+export { embedText, cosineSimilarity, MEMORY_VECTOR_DIMENSIONS } from './vector';
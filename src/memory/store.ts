@@ -0,0 +1,140 @@
+/**
+ * On-device memory store
+ * Saves, looks up and searches memories kept in IndexedDB
+ */
+
+import { createLogger } from '~logger';
+import {
+    deleteMemoryByKey,
+    getMemoriesByKeywords,
+    getMemoryByKey,
+    listMemoryEntries,
+    putMemory,
+    type MemoryCategory,
+    type MemoryEntry,
+    type MemoryListOptions,
+    type MemorySearchResult,
+    type MemorySource,
+} from '~/db';
+import { tokenizeSearchText } from '~/db/searchTokens';
+import { cosineSimilarity, embedText } from './vector';
+
+const log = createLogger('MemoryStore', 'MEMORY_OPERATIONS');
+
+/** Most recent memories compared by vector even without a shared keyword */
+const MAX_VECTOR_CANDIDATES = 500;
+
+/** Keyword overlap and vector similarity are weighted equally */
+const KEYWORD_WEIGHT = 0.5;
+
+export interface SaveMemoryInput {
+    key: string;
+    value: string;
+    category?: MemoryCategory;
+    source?: MemorySource;
+    sourceUrl?: string;
+}
+
+export interface MemorySearchOptions {
+    category?: MemoryCategory;
+    limit?: number;
+    /** Results scoring below this are dropped */
+    minScore?: number;
+}
+
+/**
+ * Normalize a memory key so "User Name" and "user_name" refer to the same memory
+ */
+export function normalizeMemoryKey(key: string): string {
+    return key.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+/**
+ * Save a memory, replacing any memory with the same key
+ */
+export async function saveMemory(input: SaveMemoryInput): Promise<MemoryEntry> {
+    const key = normalizeMemoryKey(input.key);
+    const content = input.value.trim();
+    if (!key || !content) {
+        throw new Error('Memory key and value are required');
+    }
+
+    const text = `${key} ${content}`;
+    const memory = await putMemory({
+        key,
+        content,
+        category: input.category ?? 'fact',
+        source: input.source ?? 'user',
+        sourceUrl: input.sourceUrl,
+        keywords: tokenizeSearchText(text),
+        vector: embedText(text),
+    });
+
+    log.info('Memory saved', { key, category: memory.category });
+    return memory;
+}
+
+/**
+ * Get a memory by key
+ */
+export async function getMemory(key: string): Promise<MemoryEntry | undefined> {
+    return getMemoryByKey(normalizeMemoryKey(key));
+}
+
+/**
+ * List memories, most recently updated first
+ */
+export async function listMemories(options: MemoryListOptions = {}): Promise<MemoryEntry[]> {
+    return listMemoryEntries(options);
+}
+
+/**
+ * Delete a memory by key
+ *
+ * @returns Whether a memory was deleted
+ */
+export async function deleteMemory(key: string): Promise<boolean> {
+    const deleted = await deleteMemoryByKey(normalizeMemoryKey(key));
+    log.info('Memory delete', { key, deleted });
+    return deleted;
+}
+
+/**
+ * Find memories related to a query by keyword overlap and vector similarity
+ *
+ * @returns Matches ordered by score, best first
+ */
+export async function searchMemories(
+    query: string,
+    options: MemorySearchOptions = {}
+): Promise<MemorySearchResult[]> {
+    const { category, limit = 10, minScore = 0.2 } = options;
+    const queryTokens = tokenizeSearchText(query);
+    if (queryTokens.length === 0) return [];
+
+    // Keyword hits come from the index; recent memories are also compared by vector
+    const [keywordHits, recent] = await Promise.all([
+        getMemoriesByKeywords(queryTokens),
+        listMemoryEntries({ category, limit: MAX_VECTOR_CANDIDATES }),
+    ]);
+    const candidates = new Map<string, MemoryEntry>();
+    for (const memory of [...keywordHits, ...recent]) {
+        if (!category || memory.category === category) {
+            candidates.set(memory.id, memory);
+        }
+    }
+
+    const queryVector = embedText(query);
+    const results: MemorySearchResult[] = [];
+    for (const memory of candidates.values()) {
+        const keywords = new Set(memory.keywords);
+        const overlap = queryTokens.filter(token => keywords.has(token)).length / queryTokens.length;
+        const similarity = cosineSimilarity(queryVector, memory.vector);
+        const score = KEYWORD_WEIGHT * overlap + (1 - KEYWORD_WEIGHT) * similarity;
+        if (score >= minScore) {
+            results.push({ memory, score });
+        }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,77 @@
+/**
+ * Lightweight text vectors for memory similarity search
+ *
+ * Uses feature hashing over word tokens and character trigrams, so similar
+ * wording ("favourite" vs "favorite", "meetings" vs "meeting") still overlaps.
+ * No model download is needed, which keeps memory search working offline.
+ */
+
+import { tokenizeSearchText } from '~/db/searchTokens';
+
+/** Vector length; small enough to store with every memory */
+export const MEMORY_VECTOR_DIMENSIONS = 256;
+
+/** Word tokens weigh more than the trigrams that fill in partial matches */
+const TOKEN_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = hashString(feature);
+    const index = hash % MEMORY_VECTOR_DIMENSIONS;
+    // The top bit picks a sign so colliding features tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[index] = (vector[index] ?? 0) + sign * weight;
+}
+
+/**
+ * Build an L2-normalized vector for a piece of text
+ *
+ * @returns A vector of MEMORY_VECTOR_DIMENSIONS values, all zero for empty text
+ */
+export function embedText(text: string): number[] {
+    const vector = new Array<number>(MEMORY_VECTOR_DIMENSIONS).fill(0);
+
+    for (const token of tokenizeSearchText(text)) {
+        addFeature(vector, `w:${token}`, TOKEN_WEIGHT);
+        const padded = ` ${token} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+        }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return vector;
+    // Rounded to keep stored entries small; precision beyond this doesn't change rankings
+    return vector.map(value => Math.round((value / norm) * 10000) / 10000);
+}
+
+/**
+ * Cosine similarity of two vectors, clamped to 0..1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const x = a[i] ?? 0;
+        const y = b[i] ?? 0;
+        dot += x * y;
+        normA += x * x;
+        normB += y * y;
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return Math.max(0, dot / Math.sqrt(normA * normB));
+}
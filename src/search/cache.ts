@@ -1,120 +1,167 @@
 import { createLogger } from '~logger';
-import type { SearchResults } from './types';
+import {
+    getSearchCacheEntry,
+    putSearchCacheEntry,
+    clearSearchCacheEntries,
+    getSearchCacheStats,
+    type SearchCacheStats,
+} from '~/db';
+import type { SearchResults, SearchDepth } from './types';
 
 const log = createLogger('SearchCache', 'SEARCH');
 
-/** Cache entry with timestamp */
-interface CacheEntry {
-    results: SearchResults;
-    timestamp: number;
-    provider: string;
-    depth: string;
-}
+/** Legacy chrome.storage blob used before the cache moved to IndexedDB */
+const LEGACY_CACHE_KEY = 'searchResultsCache';
+
+/** Retrieved pages change less often than search rankings: keep them for a day */
+const PAGE_TTL_MS = 24 * 60 * 60 * 1000;
 
-/** Cache storage key */
-const CACHE_KEY = 'searchResultsCache';
+const MINUTE_MS = 60 * 1000;
+const MEGABYTE = 1024 * 1024;
 
-/** Default TTL: 1 hour in milliseconds */
-const DEFAULT_TTL_MS = 60 * 60 * 1000;
+/** Parameters that identify a cached search */
+export interface SearchCacheRequest {
+    query: string;
+    provider: string;
+    depth: SearchDepth;
+    maxResults: number;
+    includeDomains?: string[];
+    excludeDomains?: string[];
+}
 
-/** Maximum cache entries */
-const MAX_CACHE_ENTRIES = 50;
+/** Cache limits, taken from search settings */
+export interface SearchCacheLimits {
+    cacheTtlMinutes: number;
+    cacheMaxSizeMB: number;
+}
 
 /**
  * Creates a cache key from search parameters.
  */
-function createCacheKey(query: string, provider: string, depth: string): string {
-    return `${query.toLowerCase().trim()}:${provider}:${depth}`;
+function createCacheKey(request: SearchCacheRequest): string {
+    const domains = (list?: string[]) => [...(list ?? [])].map((d) => d.toLowerCase()).sort().join(',');
+    return [
+        'search',
+        request.query.toLowerCase().trim(),
+        request.provider,
+        request.depth,
+        request.maxResults,
+        domains(request.includeDomains),
+        domains(request.excludeDomains),
+    ].join(':');
+}
+
+/**
+ * Creates a cache key for a retrieved page.
+ */
+function createPageCacheKey(url: string): string {
+    return `retrieve:${url.trim()}`;
 }
 
 /**
  * Gets cached search results if valid.
  */
-export async function getCachedResults(
-    query: string,
-    provider: string,
-    depth: string,
-    ttlMs: number = DEFAULT_TTL_MS
-): Promise<SearchResults | null> {
+export async function getCachedResults(request: SearchCacheRequest): Promise<SearchResults | null> {
     try {
-        const key = createCacheKey(query, provider, depth);
-        const result = await chrome.storage.local.get(CACHE_KEY);
-        const cache: Record<string, CacheEntry> = result[CACHE_KEY] || {};
-
-        const entry = cache[key];
+        const key = createCacheKey(request);
+        const entry = await getSearchCacheEntry(key);
         if (!entry) {
             return null;
         }
 
-        // Check if expired
-        const age = Date.now() - entry.timestamp;
-        if (age > ttlMs) {
-            log.debug('Cache entry expired', { key, age: Math.floor(age / 1000) });
-            return null;
-        }
-
-        log.debug('Cache hit', { key, age: Math.floor(age / 1000) });
+        log.debug('Cache hit', { key, age: Math.floor((Date.now() - entry.createdAt) / 1000) });
         return entry.results;
     } catch (error) {
-        log.warn('Failed to read cache', { 
-            error: error instanceof Error ? error.message : 'Unknown error' 
+        log.warn('Failed to read cache', {
+            error: error instanceof Error ? error.message : 'Unknown error',
         });
         return null;
     }
 }
 
-
 /**
  * Stores search results in cache.
  */
 export async function setCachedResults(
-    query: string,
-    provider: string,
-    depth: string,
-    results: SearchResults
+    request: SearchCacheRequest,
+    results: SearchResults,
+    limits: SearchCacheLimits
 ): Promise<void> {
+    // Never cache failures or empty responses
+    if (results.results.length === 0) {
+        return;
+    }
+
     try {
-        const key = createCacheKey(query, provider, depth);
-        const storageResult = await chrome.storage.local.get(CACHE_KEY);
-        const cache: Record<string, CacheEntry> = storageResult[CACHE_KEY] || {};
-
-        // Add new entry
-        cache[key] = {
-            results,
-            timestamp: Date.now(),
-            provider,
-            depth,
-        };
+        const key = createCacheKey(request);
+        await putSearchCacheEntry(
+            { key, kind: 'search', query: request.query, provider: request.provider, results },
+            limits.cacheTtlMinutes * MINUTE_MS,
+            limits.cacheMaxSizeMB * MEGABYTE
+        );
+        log.debug('Cached search results', { key, resultCount: results.results.length });
+    } catch (error) {
+        log.warn('Failed to cache results', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+}
 
-        // Prune old entries if over limit
-        const entries = Object.entries(cache);
-        if (entries.length > MAX_CACHE_ENTRIES) {
-            // Sort by timestamp, remove oldest
-            entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-            const toRemove = entries.slice(0, entries.length - MAX_CACHE_ENTRIES);
-            toRemove.forEach(([k]) => delete cache[k]);
-            log.debug('Pruned cache entries', { removed: toRemove.length });
+/**
+ * Gets a cached retrieved page if valid.
+ */
+export async function getCachedPage(url: string): Promise<SearchResults | null> {
+    try {
+        const entry = await getSearchCacheEntry(createPageCacheKey(url));
+        if (entry) {
+            log.debug('Page cache hit', { url: url.substring(0, 100) });
         }
+        return entry?.results ?? null;
+    } catch (error) {
+        log.warn('Failed to read page cache', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return null;
+    }
+}
 
-        await chrome.storage.local.set({ [CACHE_KEY]: cache });
-        log.debug('Cached search results', { key, resultCount: results.results.length });
+/**
+ * Stores a retrieved page in cache.
+ */
+export async function setCachedPage(
+    url: string,
+    results: SearchResults,
+    limits: Pick<SearchCacheLimits, 'cacheMaxSizeMB'>
+): Promise<void> {
+    if (results.results.length === 0) {
+        return;
+    }
+
+    try {
+        await putSearchCacheEntry(
+            { key: createPageCacheKey(url), kind: 'retrieve', query: url, provider: 'retrieve', results },
+            PAGE_TTL_MS,
+            limits.cacheMaxSizeMB * MEGABYTE
+        );
+        log.debug('Cached retrieved page', { url: url.substring(0, 100) });
     } catch (error) {
-        log.warn('Failed to cache results', { 
-            error: error instanceof Error ? error.message : 'Unknown error' 
+        log.warn('Failed to cache page', {
+            error: error instanceof Error ? error.message : 'Unknown error',
         });
     }
 }
 
 /**
- * Clears all cached search results.
+ * Clears all cached search results and retrieved pages.
  */
 export async function clearSearchCache(): Promise<void> {
     try {
-        await chrome.storage.local.remove(CACHE_KEY);
+        await clearSearchCacheEntries();
+        await chrome.storage.local.remove(LEGACY_CACHE_KEY);
         log.info('Search cache cleared');
     } catch (error) {
-        log.warn('Failed to clear cache', { 
-            error: error instanceof Error ? error.message : 'Unknown error' 
+        log.warn('Failed to clear cache', {
+            error: error instanceof Error ? error.message : 'Unknown error',
         });
     }
 }
@@ -122,34 +169,22 @@ export async function clearSearchCache(): Promise<void> {
 /**
  * Gets cache statistics.
  */
-export async function getCacheStats(): Promise<{
-    entryCount: number;
-    totalSize: number;
-    oldestEntry: number | null;
-    newestEntry: number | null;
-}> {
+export async function getCacheStats(): Promise<SearchCacheStats> {
     try {
-        const result = await chrome.storage.local.get(CACHE_KEY);
-        const cache: Record<string, CacheEntry> = result[CACHE_KEY] || {};
-        const entries = Object.values(cache);
-
-        if (entries.length === 0) {
-            return { entryCount: 0, totalSize: 0, oldestEntry: null, newestEntry: null };
-        }
-
-        const timestamps = entries.map((e) => e.timestamp);
-        const cacheString = JSON.stringify(cache);
-
-        return {
-            entryCount: entries.length,
-            totalSize: new Blob([cacheString]).size,
-            oldestEntry: Math.min(...timestamps),
-            newestEntry: Math.max(...timestamps),
-        };
+        return await getSearchCacheStats();
     } catch (error) {
-        log.warn('Failed to get cache stats', { 
-            error: error instanceof Error ? error.message : 'Unknown error' 
+        log.warn('Failed to get cache stats', {
+            error: error instanceof Error ? error.message : 'Unknown error',
         });
-        return { entryCount: 0, totalSize: 0, oldestEntry: null, newestEntry: null };
+        return {
+            entryCount: 0,
+            searchEntryCount: 0,
+            retrieveEntryCount: 0,
+            expiredCount: 0,
+            totalSize: 0,
+            totalHits: 0,
+            oldestEntry: null,
+            newestEntry: null,
+        };
     }
 }
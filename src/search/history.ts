@@ -0,0 +1,24 @@
+import { createLogger } from '~logger';
+import { saveSearchSession, type SearchSession } from '~/db';
+
+const log = createLogger('SearchHistory', 'SEARCH');
+
+/**
+ * Records a completed search so it can be reopened from settings.
+ * Failures are logged and swallowed - history must never break a search.
+ */
+export async function recordSearchSession(
+    session: Omit<SearchSession, 'id' | 'createdAt'>
+): Promise<void> {
+    if (session.results.results.length === 0) {
+        return;
+    }
+
+    try {
+        await saveSearchSession(session);
+    } catch (error) {
+        log.warn('Failed to record search session', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+}
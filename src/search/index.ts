@@ -5,6 +5,7 @@ export type {
     SearchResultImage,
     SearchDepth,
     SearchProviderType,
+    SearchProviderConfig,
 } from './types';
 export { DEFAULT_SEARCH_PROVIDER } from './types';
 
@@ -13,8 +14,17 @@ export { searchSchema, retrieveSchema } from './schema';
 export type { SearchParams, RetrieveParams } from './schema';
 
 // Providers
-export type { SearchProvider } from './providers';
-export { createSearchProvider, TavilySearchProvider } from './providers';
+export type { SearchProvider, SearchProviderOptions, ChainedSearchProvider } from './providers';
+export {
+    createSearchProvider,
+    createSearchProviderChain,
+    TavilySearchProvider,
+    BraveSearchProvider,
+    SearXNGSearchProvider,
+    ExaSearchProvider,
+    SerperSearchProvider,
+    FallbackSearchProvider,
+} from './providers';
 
 // Errors
 export {
@@ -29,9 +39,15 @@ export type { SearchErrorCode } from './errors';
 export {
     getCachedResults,
     setCachedResults,
+    getCachedPage,
+    setCachedPage,
     clearSearchCache,
     getCacheStats,
 } from './cache';
+export type { SearchCacheRequest, SearchCacheLimits } from './cache';
+
+// History
+export { recordSearchSession } from './history';
 
 // Accessibility
 export {
@@ -71,6 +71,22 @@ export abstract class BaseSearchProvider implements SearchProvider {
         }
     }
 
+    /**
+     * Emulates domain filtering with site: operators for providers
+     * whose APIs have no native include/exclude parameters.
+     */
+    protected applyDomainOperators(
+        query: string,
+        includeDomains: string[],
+        excludeDomains: string[]
+    ): string {
+        const include = includeDomains.map((domain) => `site:${domain}`);
+        const exclude = excludeDomains.map((domain) => `-site:${domain}`);
+        const includeClause =
+            include.length > 1 ? `(${include.join(' OR ')})` : include.join('');
+        return [query, includeClause, ...exclude].filter(Boolean).join(' ');
+    }
+
     /**
      * Creates an empty search result for error cases.
      */
@@ -0,0 +1,111 @@
+import { createLogger } from '~logger';
+import { BaseSearchProvider } from './base';
+import { createSearchErrorFromResponse, createSearchErrorFromException } from '../errors';
+import type { SearchResults, SearchDepth } from '../types';
+
+const log = createLogger('BraveSearch', 'SEARCH');
+
+/** Brave Search API endpoint */
+const BRAVE_API_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+/** Brave API caps results per request at 20 */
+const BRAVE_MAX_COUNT = 20;
+
+/** Brave API response types */
+interface BraveWebResult {
+    title: string;
+    url: string;
+    description?: string;
+    extra_snippets?: string[];
+}
+
+interface BraveResponse {
+    web?: { results: BraveWebResult[] };
+}
+
+/**
+ * Brave Search provider implementation.
+ * Independent web index with a privacy-focused API.
+ *
+ * API Documentation: https://api.search.brave.com/app/documentation/web-search
+ *
+ * Features:
+ * - Extra snippets for advanced search depth
+ * - Domain filtering via site: operators
+ */
+export class BraveSearchProvider extends BaseSearchProvider {
+    private apiKey: string;
+
+    constructor(apiKey: string) {
+        super('Brave Search');
+        this.apiKey = apiKey;
+    }
+
+    async search(
+        query: string,
+        maxResults: number = 10,
+        searchDepth: SearchDepth = 'basic',
+        includeDomains: string[] = [],
+        excludeDomains: string[] = []
+    ): Promise<SearchResults> {
+        this.validateApiKey(this.apiKey);
+
+        const params = new URLSearchParams({
+            q: this.applyDomainOperators(query, includeDomains, excludeDomains),
+            count: String(Math.min(Math.max(maxResults, 1), BRAVE_MAX_COUNT)),
+        });
+        if (searchDepth === 'advanced') {
+            params.set('extra_snippets', 'true');
+        }
+
+        log.info('🔍 Executing Brave search', {
+            query: query.substring(0, 50),
+            maxResults,
+            searchDepth,
+        });
+
+        try {
+            const response = await fetch(`${BRAVE_API_URL}?${params.toString()}`, {
+                headers: {
+                    Accept: 'application/json',
+                    'X-Subscription-Token': this.apiKey,
+                },
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw createSearchErrorFromResponse(
+                    response.status,
+                    response.statusText,
+                    errorText
+                );
+            }
+
+            const data: BraveResponse = await response.json();
+
+            const processedResults = (data.web?.results ?? []).map((result) => ({
+                title: result.title,
+                url: this.sanitizeUrl(result.url),
+                content: [result.description, ...(result.extra_snippets ?? [])]
+                    .filter(Boolean)
+                    .join(' '),
+            }));
+
+            log.info('Brave search completed', {
+                resultCount: processedResults.length,
+            });
+
+            return {
+                results: processedResults,
+                images: [],
+                query,
+                number_of_results: processedResults.length,
+            };
+        } catch (error) {
+            log.error('Brave search failed', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw createSearchErrorFromException(error);
+        }
+    }
+}
@@ -0,0 +1,127 @@
+import { createLogger } from '~logger';
+import { BaseSearchProvider } from './base';
+import { createSearchErrorFromResponse, createSearchErrorFromException } from '../errors';
+import type { SearchResults, SearchDepth, SearchResultImage } from '../types';
+
+const log = createLogger('ExaSearch', 'SEARCH');
+
+/** Exa API endpoint */
+const EXA_API_URL = 'https://api.exa.ai/search';
+
+/** Maximum characters of page text requested per result */
+const EXA_MAX_TEXT_CHARACTERS = 1500;
+
+/** Exa API response types */
+interface ExaResult {
+    title: string | null;
+    url: string;
+    text?: string;
+    highlights?: string[];
+    image?: string;
+}
+
+interface ExaResponse {
+    results: ExaResult[];
+}
+
+/**
+ * Exa search provider implementation.
+ * Exa is a neural search engine built for LLM retrieval.
+ *
+ * API Documentation: https://docs.exa.ai/reference/search
+ *
+ * Features:
+ * - Fast keyword-style search for basic depth, neural search for advanced
+ * - Native domain filtering (include/exclude)
+ * - Page text and highlights as result content
+ */
+export class ExaSearchProvider extends BaseSearchProvider {
+    private apiKey: string;
+
+    constructor(apiKey: string) {
+        super('Exa');
+        this.apiKey = apiKey;
+    }
+
+    async search(
+        query: string,
+        maxResults: number = 10,
+        searchDepth: SearchDepth = 'basic',
+        includeDomains: string[] = [],
+        excludeDomains: string[] = []
+    ): Promise<SearchResults> {
+        this.validateApiKey(this.apiKey);
+
+        log.info('🔍 Executing Exa search', {
+            query: query.substring(0, 50),
+            maxResults,
+            searchDepth,
+        });
+
+        try {
+            const response = await fetch(EXA_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': this.apiKey,
+                },
+                body: JSON.stringify({
+                    query,
+                    numResults: maxResults,
+                    type: searchDepth === 'advanced' ? 'neural' : 'auto',
+                    includeDomains:
+                        includeDomains.length > 0 ? includeDomains : undefined,
+                    excludeDomains:
+                        excludeDomains.length > 0 ? excludeDomains : undefined,
+                    contents: {
+                        text: { maxCharacters: EXA_MAX_TEXT_CHARACTERS },
+                        highlights: searchDepth === 'advanced' ? true : undefined,
+                    },
+                }),
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw createSearchErrorFromResponse(
+                    response.status,
+                    response.statusText,
+                    errorText
+                );
+            }
+
+            const data: ExaResponse = await response.json();
+
+            const processedResults = data.results.map((result) => ({
+                title: result.title || result.url,
+                url: this.sanitizeUrl(result.url),
+                content: result.highlights?.length
+                    ? result.highlights.join(' … ')
+                    : result.text ?? '',
+            }));
+
+            const processedImages: SearchResultImage[] = data.results
+                .filter((result) => result.image)
+                .map((result) => ({
+                    url: this.sanitizeUrl(result.image as string),
+                    description: result.title || '',
+                }));
+
+            log.info('Exa search completed', {
+                resultCount: processedResults.length,
+                imageCount: processedImages.length,
+            });
+
+            return {
+                results: processedResults,
+                images: processedImages,
+                query,
+                number_of_results: processedResults.length,
+            };
+        } catch (error) {
+            log.error('Exa search failed', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw createSearchErrorFromException(error);
+        }
+    }
+}
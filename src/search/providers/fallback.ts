@@ -0,0 +1,67 @@
+import { createLogger } from '~logger';
+import type { SearchProvider } from './base';
+import { SearchError, createSearchErrorFromException } from '../errors';
+import type { SearchResults, SearchDepth, SearchProviderType } from '../types';
+
+const log = createLogger('FallbackSearch', 'SEARCH');
+
+/** A provider instance tagged with its type for logging */
+export interface ChainedSearchProvider {
+    type: SearchProviderType;
+    provider: SearchProvider;
+}
+
+/**
+ * Search provider that tries each provider in order until one succeeds.
+ * The first entry is the primary provider; the rest are fallbacks used when
+ * it errors or is rate-limited. Invalid queries are not retried since every
+ * provider would reject them the same way.
+ */
+export class FallbackSearchProvider implements SearchProvider {
+    private providers: ChainedSearchProvider[];
+
+    constructor(providers: ChainedSearchProvider[]) {
+        this.providers = providers;
+    }
+
+    async search(
+        query: string,
+        maxResults: number,
+        searchDepth: SearchDepth,
+        includeDomains: string[],
+        excludeDomains: string[]
+    ): Promise<SearchResults> {
+        let lastError: SearchError | undefined;
+
+        for (const [index, { type, provider }] of this.providers.entries()) {
+            try {
+                const results = await provider.search(
+                    query,
+                    maxResults,
+                    searchDepth,
+                    includeDomains,
+                    excludeDomains
+                );
+                if (index > 0) {
+                    log.info('Search served by fallback provider', { provider: type });
+                }
+                return results;
+            } catch (error) {
+                lastError = createSearchErrorFromException(error);
+                if (lastError.code === 'INVALID_QUERY') {
+                    throw lastError;
+                }
+                const next = this.providers[index + 1];
+                if (next) {
+                    log.warn('Search provider failed, trying fallback', {
+                        provider: type,
+                        code: lastError.code,
+                        next: next.type,
+                    });
+                }
+            }
+        }
+
+        throw lastError ?? createSearchErrorFromException(new Error('No search provider configured'));
+    }
+}
@@ -1,32 +1,82 @@
 import { createLogger } from '~logger';
 import type { SearchProvider } from './base';
 import { TavilySearchProvider } from './tavily';
-import type { SearchProviderType } from '../types';
+import { BraveSearchProvider } from './brave';
+import { SearXNGSearchProvider } from './searxng';
+import { ExaSearchProvider } from './exa';
+import { SerperSearchProvider } from './serper';
+import { FallbackSearchProvider } from './fallback';
+import type { SearchProviderType, SearchProviderConfig } from '../types';
 
 const log = createLogger('SearchProviderFactory', 'SEARCH');
 
 export type { SearchProvider };
-export { TavilySearchProvider };
+export type { ChainedSearchProvider } from './fallback';
+export {
+    TavilySearchProvider,
+    BraveSearchProvider,
+    SearXNGSearchProvider,
+    ExaSearchProvider,
+    SerperSearchProvider,
+    FallbackSearchProvider,
+};
+
+/** Provider-specific options beyond the API key */
+export interface SearchProviderOptions {
+    /** Instance URL for SearXNG */
+    baseUrl?: string;
+}
 
 /**
  * Factory function to create a search provider instance.
  *
  * @param type - The type of search provider to create
  * @param apiKey - The API key for the provider
+ * @param options - Provider-specific options such as the SearXNG base URL
  * @returns A configured SearchProvider instance
  * @throws Error if the provider type is not supported or API key is missing
  */
 export function createSearchProvider(
     type: SearchProviderType,
-    apiKey: string
+    apiKey: string,
+    options: SearchProviderOptions = {}
 ): SearchProvider {
     log.debug('Creating search provider', { type });
 
     switch (type) {
         case 'tavily':
             return new TavilySearchProvider(apiKey);
+        case 'brave':
+            return new BraveSearchProvider(apiKey);
+        case 'searxng':
+            return new SearXNGSearchProvider(options.baseUrl ?? '', apiKey);
+        case 'exa':
+            return new ExaSearchProvider(apiKey);
+        case 'serper':
+            return new SerperSearchProvider(apiKey);
         default:
             log.warn('Unknown provider type, falling back to Tavily', { type });
             return new TavilySearchProvider(apiKey);
     }
 }
+
+/**
+ * Create a provider that runs through a fallback chain.
+ * A single-entry chain returns the plain provider.
+ *
+ * @param configs - Resolved provider configs, primary first
+ * @returns A SearchProvider that fails over in order
+ */
+export function createSearchProviderChain(configs: SearchProviderConfig[]): SearchProvider {
+    const providers = configs.map((config) => ({
+        type: config.type,
+        provider: createSearchProvider(config.type, config.apiKey, { baseUrl: config.baseUrl }),
+    }));
+
+    if (providers.length === 1 && providers[0]) {
+        return providers[0].provider;
+    }
+
+    log.debug('Creating search provider chain', { chain: configs.map((c) => c.type) });
+    return new FallbackSearchProvider(providers);
+}
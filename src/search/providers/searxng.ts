@@ -0,0 +1,125 @@
+import { createLogger } from '~logger';
+import { BaseSearchProvider } from './base';
+import { createSearchErrorFromResponse, createSearchErrorFromException } from '../errors';
+import type { SearchResults, SearchDepth, SearchResultImage } from '../types';
+
+const log = createLogger('SearXNGSearch', 'SEARCH');
+
+/** SearXNG API response types */
+interface SearXNGResult {
+    title: string;
+    url: string;
+    content?: string;
+    img_src?: string;
+    category?: string;
+}
+
+interface SearXNGResponse {
+    results: SearXNGResult[];
+}
+
+/**
+ * SearXNG search provider implementation.
+ * SearXNG is a self-hostable metasearch engine; the instance must have
+ * the JSON output format enabled (`search.formats: [html, json]`).
+ *
+ * API Documentation: https://docs.searxng.org/dev/search_api.html
+ *
+ * Features:
+ * - Configurable base URL for self-hosted instances
+ * - Optional API key, sent as a bearer token for instances behind auth
+ * - Image results for advanced search depth
+ * - Domain filtering via site: operators
+ */
+export class SearXNGSearchProvider extends BaseSearchProvider {
+    private baseUrl: string;
+    private apiKey: string;
+
+    constructor(baseUrl: string, apiKey: string = '') {
+        super('SearXNG');
+        this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+        this.apiKey = apiKey;
+    }
+
+    async search(
+        query: string,
+        maxResults: number = 10,
+        searchDepth: SearchDepth = 'basic',
+        includeDomains: string[] = [],
+        excludeDomains: string[] = []
+    ): Promise<SearchResults> {
+        if (!this.baseUrl) {
+            const error = 'SearXNG instance URL is not configured. Please add it in Settings > Web Search.';
+            log.error(error);
+            throw new Error(error);
+        }
+
+        const params = new URLSearchParams({
+            q: this.applyDomainOperators(query, includeDomains, excludeDomains),
+            format: 'json',
+            categories: searchDepth === 'advanced' ? 'general,images' : 'general',
+        });
+
+        log.info('🔍 Executing SearXNG search', {
+            query: query.substring(0, 50),
+            maxResults,
+            searchDepth,
+        });
+
+        try {
+            const headers: Record<string, string> = { Accept: 'application/json' };
+            if (this.apiKey) {
+                headers.Authorization = `Bearer ${this.apiKey}`;
+            }
+
+            const response = await fetch(`${this.baseUrl}/search?${params.toString()}`, {
+                headers,
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw createSearchErrorFromResponse(
+                    response.status,
+                    response.statusText,
+                    errorText
+                );
+            }
+
+            const data: SearXNGResponse = await response.json();
+
+            const processedResults = data.results
+                .filter((result) => result.category !== 'images')
+                .slice(0, maxResults)
+                .map((result) => ({
+                    title: result.title,
+                    url: this.sanitizeUrl(result.url),
+                    content: result.content ?? '',
+                }));
+
+            const processedImages: SearchResultImage[] = data.results
+                .filter((result) => result.category === 'images' && result.img_src)
+                .slice(0, maxResults)
+                .map((result) => ({
+                    url: this.sanitizeUrl(result.img_src as string),
+                    description: result.title,
+                }));
+
+            log.info('SearXNG search completed', {
+                resultCount: processedResults.length,
+                imageCount: processedImages.length,
+            });
+
+            return {
+                results: processedResults,
+                images: processedImages,
+                query,
+                number_of_results: processedResults.length,
+            };
+        } catch (error) {
+            log.error('SearXNG search failed', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw createSearchErrorFromException(error);
+        }
+    }
+}
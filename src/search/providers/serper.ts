@@ -0,0 +1,125 @@
+import { createLogger } from '~logger';
+import { BaseSearchProvider } from './base';
+import { createSearchErrorFromResponse, createSearchErrorFromException } from '../errors';
+import type { SearchResults, SearchDepth, SearchResultImage } from '../types';
+
+const log = createLogger('SerperSearch', 'SEARCH');
+
+/** Serper API endpoint */
+const SERPER_API_URL = 'https://google.serper.dev/search';
+
+/** Serper API response types */
+interface SerperOrganicResult {
+    title: string;
+    link: string;
+    snippet?: string;
+}
+
+interface SerperImageResult {
+    title?: string;
+    imageUrl: string;
+}
+
+interface SerperResponse {
+    organic?: SerperOrganicResult[];
+    images?: SerperImageResult[];
+    answerBox?: { title?: string; answer?: string; snippet?: string; link?: string };
+}
+
+/**
+ * Serper search provider implementation.
+ * Serper is a fast Google Search results API.
+ *
+ * API Documentation: https://serper.dev/playground
+ *
+ * Features:
+ * - Google organic results and image results
+ * - Answer box promoted to the first result for advanced depth
+ * - Domain filtering via site: operators
+ */
+export class SerperSearchProvider extends BaseSearchProvider {
+    private apiKey: string;
+
+    constructor(apiKey: string) {
+        super('Serper');
+        this.apiKey = apiKey;
+    }
+
+    async search(
+        query: string,
+        maxResults: number = 10,
+        searchDepth: SearchDepth = 'basic',
+        includeDomains: string[] = [],
+        excludeDomains: string[] = []
+    ): Promise<SearchResults> {
+        this.validateApiKey(this.apiKey);
+
+        log.info('🔍 Executing Serper search', {
+            query: query.substring(0, 50),
+            maxResults,
+            searchDepth,
+        });
+
+        try {
+            const response = await fetch(SERPER_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-API-KEY': this.apiKey,
+                },
+                body: JSON.stringify({
+                    q: this.applyDomainOperators(query, includeDomains, excludeDomains),
+                    num: maxResults,
+                }),
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw createSearchErrorFromResponse(
+                    response.status,
+                    response.statusText,
+                    errorText
+                );
+            }
+
+            const data: SerperResponse = await response.json();
+
+            const processedResults = (data.organic ?? []).map((result) => ({
+                title: result.title,
+                url: this.sanitizeUrl(result.link),
+                content: result.snippet ?? '',
+            }));
+
+            const answer = data.answerBox;
+            if (searchDepth === 'advanced' && answer?.link && (answer.answer || answer.snippet)) {
+                processedResults.unshift({
+                    title: answer.title || 'Featured answer',
+                    url: this.sanitizeUrl(answer.link),
+                    content: answer.answer || answer.snippet || '',
+                });
+            }
+
+            const processedImages: SearchResultImage[] = (data.images ?? []).map((image) => ({
+                url: this.sanitizeUrl(image.imageUrl),
+                description: image.title ?? '',
+            }));
+
+            log.info('Serper search completed', {
+                resultCount: processedResults.length,
+                imageCount: processedImages.length,
+            });
+
+            return {
+                results: processedResults.slice(0, maxResults),
+                images: processedImages,
+                query,
+                number_of_results: Math.min(processedResults.length, maxResults),
+            };
+        } catch (error) {
+            log.error('Serper search failed', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw createSearchErrorFromException(error);
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { createLogger } from '~logger';
 import { BaseSearchProvider } from './base';
+import { createSearchErrorFromResponse, createSearchErrorFromException } from '../errors';
 import type { SearchResults, SearchDepth, SearchResultImage } from '../types';
 
 const log = createLogger('TavilySearch', 'SEARCH');
@@ -102,8 +103,10 @@ export class TavilySearchProvider extends BaseSearchProvider {
                     statusText: response.statusText,
                     error: errorText,
                 });
-                throw new Error(
-                    `Tavily API error: ${response.status} ${response.statusText}`
+                throw createSearchErrorFromResponse(
+                    response.status,
+                    response.statusText,
+                    errorText
                 );
             }
 
@@ -136,7 +139,8 @@ export class TavilySearchProvider extends BaseSearchProvider {
             log.error('Tavily search failed', {
                 error: error instanceof Error ? error.message : 'Unknown error',
             });
-            return this.createEmptyResult(query);
+            // Surface the failure so a fallback provider can take over
+            throw createSearchErrorFromException(error);
         }
     }
 
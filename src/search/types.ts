@@ -40,7 +40,17 @@ export interface SearchResults {
 }
 
 /** Search provider types supported by the extension */
-export type SearchProviderType = 'tavily';
+export type SearchProviderType = 'tavily' | 'brave' | 'searxng' | 'exa' | 'serper';
+
+/** Resolved configuration needed to instantiate a search provider */
+export interface SearchProviderConfig {
+    /** Provider type */
+    type: SearchProviderType;
+    /** API key (optional for self-hosted SearXNG instances) */
+    apiKey: string;
+    /** Base URL of the instance (SearXNG only) */
+    baseUrl?: string;
+}
 
 /** Default search provider */
 export const DEFAULT_SEARCH_PROVIDER: SearchProviderType = 'tavily';
@@ -48,8 +48,14 @@ import { useAIChat } from "./ai/hooks";
 // Custom hooks
 import { useApiKey, useOnboarding } from "./hooks/settings";
 import { useVoiceRecording } from "./hooks/ui";
-import { useThreadManagement, useMessageHandlers, useAIChatMessages } from "./hooks/chat";
+import { useThreadManagement, useMessageHandlers, useAIChatMessages, useMessageBranches } from "./hooks/chat";
 import { useActiveTabDetection } from "./hooks/browser";
+import { usePipelineRuns } from "./hooks/workflows";
+import { getWorkflow } from "./workflows/registry";
+import { isPipelineWorkflow } from "./workflows/pipeline/runner";
+import { parseWorkflowCommand } from "./utils/chat";
+import { findMCPPromptCommand, expandMCPPromptCommand } from "./ai/mcp";
+import { PipelineProgress } from "@/components/features/chat/components/feedback";
 import type { LocalPdfInfo } from "./hooks/browser";
 
 // Sidepanel-specific hooks
@@ -85,6 +91,7 @@ function AIChatContent() {
     const [errorToast, setErrorToast] = useState<{ message: string; details?: string } | null>(null);
     const [lastBrowserError, setLastBrowserError] = useState<number | null>(null);
     const [localPdfInfo, setLocalPdfInfo] = useState<LocalPdfInfo | null>(null);
+    const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
 
     // Refs
     const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -244,6 +251,7 @@ function AIChatContent() {
         status,
         stop,
         setMessages,
+        regenerate,
         usage,
         resetUsage,
         setUsage,
@@ -303,10 +311,65 @@ function AIChatContent() {
         },
     });
 
+    // Conversation branching (edit prompts, regenerate replies, switch alternates)
+    const {
+        branches: messageBranches,
+        handleSwitchBranch,
+        revealMessage,
+        handleEditMessage,
+        handleRegenerate,
+    } = useMessageBranches({
+        currentThreadId,
+        messages,
+        isLoading,
+        setMessages,
+        sendMessage,
+        regenerate,
+    });
+
+    // Pipeline workflows run stage by stage outside the chat stream
+    const {
+        runs: pipelineRuns,
+        startRun: startPipelineRun,
+        resumeRun: resumePipelineRun,
+        cancelRun: cancelPipelineRun,
+    } = usePipelineRuns({
+        currentThreadId,
+        messages,
+        setMessages,
+        onError: (message: string) => {
+            setErrorToast({ message });
+        },
+    });
+
     // Wrapper for handleSendMessage to work with input state
     // Note: This needs to be defined before uiState hook since the hook needs it
     const handleSendMessageWithInput = async (messageText?: string, attachments?: FileAttachmentData[], tabAttachments?: TabAttachmentData[], workflowId?: string, inputValue?: string) => {
-        await handleSend(messageText !== undefined ? messageText : (inputValue || ''), attachments, tabAttachments, workflowId);
+        const text = messageText !== undefined ? messageText : (inputValue || '');
+
+        // Route pipeline workflows (selected or typed as a slash command) to the pipeline runner
+        const command = workflowId ? { workflowId, query: text.trim() } : parseWorkflowCommand(text.trim());
+        const workflow = command ? getWorkflow(command.workflowId) : undefined;
+        if (command && isPipelineWorkflow(workflow)) {
+            await startPipelineRun(workflow, command.query);
+            return;
+        }
+
+        // Expand MCP prompts typed as slash commands into their rendered text
+        if (command && !workflow) {
+            const promptCommand = await findMCPPromptCommand(command.workflowId);
+            if (promptCommand) {
+                try {
+                    const expanded = await expandMCPPromptCommand(promptCommand, command.query);
+                    await handleSend(expanded, attachments, tabAttachments);
+                } catch (error) {
+                    setErrorToast({ message: error instanceof Error ? error.message : 'Failed to load MCP prompt' });
+                }
+                return;
+            }
+        }
+
+        await handleSend(text, attachments, tabAttachments, workflowId);
     };
 
     // UI State hook
@@ -355,12 +418,30 @@ function AIChatContent() {
         setShowChatInterface,
     });
 
-    // Auto-scroll to bottom when messages change
+    // Auto-scroll to bottom when messages change (unless jumping to a search result)
     useEffect(() => {
         log.debug("Messages changed", { count: messages.length });
+        if (focusMessageId) return;
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [messages]);
 
+    // Give up on a search jump target that never renders (e.g. deleted message)
+    useEffect(() => {
+        if (!focusMessageId) return;
+        const timeout = setTimeout(() => setFocusMessageId(null), 5000);
+        return () => clearTimeout(timeout);
+    }, [focusMessageId]);
+
+    const handleSearchResultSelect = async (threadId: string, messageId?: string) => {
+        setFocusMessageId(messageId ?? null);
+        if (messageId) {
+            await revealMessage(threadId, messageId);
+        }
+        if (threadId !== currentThreadId) {
+            await handleThreadSelect(threadId);
+        }
+    };
+
     // Listen for background messages (omnibox and notifications)
     useBackgroundMessageListener({
         currentThreadId,
@@ -481,6 +562,7 @@ function AIChatContent() {
                 currentThreadId={currentThreadId}
                 onThreadSelect={handleThreadSelect}
                 onNewThread={handleNewThread}
+                onSearchResultSelect={handleSearchResultSelect}
             />
 
             {/* Chat Interface with slide-in animation */}
@@ -520,6 +602,19 @@ function AIChatContent() {
                                 usage={usage}
                                 localPdfInfo={localPdfInfo}
                                 threadId={currentThreadId}
+                                focusMessageId={focusMessageId}
+                                onFocusMessageHandled={() => setFocusMessageId(null)}
+                                messageBranches={messageBranches}
+                                onSwitchBranch={handleSwitchBranch}
+                                onEditMessage={handleEditMessage}
+                                onRegenerate={handleRegenerate}
+                                pipelineProgress={
+                                    <PipelineProgress
+                                        runs={pipelineRuns}
+                                        onResume={resumePipelineRun}
+                                        onCancel={cancelPipelineRun}
+                                    />
+                                }
                             />
 
                             {/* Floating Recording Pill - Only in text mode */}
@@ -66,6 +66,65 @@ export interface UsageLimits {
     maxCostPerMonth?: number;
 }
 
+/**
+ * Remote provider that served a request
+ */
+export type UsageProvider = 'google' | 'vertex' | 'openai-compatible';
+
+/**
+ * Model price in USD per one million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    /** Price for cached input tokens; falls back to `input` when unset */
+    cachedInput?: number;
+}
+
+/**
+ * Aggregated usage for one dashboard group (a day, model, provider, workflow or thread)
+ */
+export interface UsageBucket {
+    key: string;
+    label: string;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    /** Estimated cost in USD */
+    cost: number;
+}
+
+/**
+ * Usage aggregated across a time range
+ */
+export interface UsageSummary {
+    total: UsageBucket;
+    byDay: UsageBucket[];
+    byModel: UsageBucket[];
+    byProvider: UsageBucket[];
+    byWorkflow: UsageBucket[];
+    byThread: UsageBucket[];
+    /** Models with recorded usage but no entry in the price table */
+    unpricedModels: string[];
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+/**
+ * Current month's consumption measured against the configured budgets
+ */
+export interface BudgetStatus {
+    level: BudgetLevel;
+    monthTokens: number;
+    monthCost: number;
+    /** Percent of maxTokensPerMonth used, when a token budget is set */
+    tokenPercent?: number;
+    /** Percent of maxCostPerMonth used, when a cost budget is set */
+    costPercent?: number;
+    limits: UsageLimits;
+}
+
 /**
  * Get context limits for a specific Gemini model
  */
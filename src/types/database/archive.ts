@@ -0,0 +1,38 @@
+/**
+ * Portable chat archive types (export/import)
+ */
+
+import type { ChatMessage, ChatThread } from './schema';
+
+export type ChatExportFormat = 'json' | 'markdown' | 'html';
+
+/** Thread record as stored in an archive (derived search fields stripped) */
+export type ChatArchiveThreadRecord = Omit<ChatThread, 'titleTokens'>;
+
+/** Message record as stored in an archive (derived search fields stripped) */
+export type ChatArchiveMessageRecord = Omit<ChatMessage, 'searchTokens'>;
+
+export interface ChatArchiveThread {
+    thread: ChatArchiveThreadRecord;
+    messages: ChatArchiveMessageRecord[];
+}
+
+export interface ChatArchive {
+    format: 'cognito-chat-archive';
+    version: number;
+    exportedAt: number;
+    threads: ChatArchiveThread[];
+}
+
+export interface ChatImportResult {
+    /** Threads created from the archive */
+    createdThreads: number;
+    /** Existing threads that received new messages */
+    mergedThreads: number;
+    importedMessages: number;
+    /** Messages skipped as invalid or already present */
+    skippedMessages: number;
+    /** Message IDs that collided with another thread and were regenerated */
+    remappedMessageIds: number;
+    warnings: string[];
+}
@@ -4,3 +4,4 @@
 
 export * from './schema';
 export * from './queries';
+export * from './archive';
@@ -2,7 +2,7 @@
  * Type-safe query builders and result types
  */
 
-import type { ChatThread, SettingsTypeMap } from './schema';
+import type { ChatThread, MemoryCategory, MemoryEntry, SettingsTypeMap } from './schema';
 
 // Type-safe setting getter/setter
 export type GetSetting = <K extends keyof SettingsTypeMap>(
@@ -22,8 +22,17 @@ export interface ThreadWithMessageCount extends ChatThread {
 export interface ThreadQueryOptions {
   limit?: number;
   offset?: number;
-  sortBy?: 'createdAt' | 'updatedAt';
+  sortBy?: 'createdAt' | 'updatedAt' | 'title';
   sortOrder?: 'asc' | 'desc';
+  /** Folder to list; null lists only unfiled threads, undefined lists all */
+  folderId?: string | null;
+  /** Threads must carry every listed tag */
+  tags?: string[];
+  /** 'active' (default) hides archived threads, 'archived' shows only them */
+  status?: 'active' | 'archived' | 'all';
+  pinnedOnly?: boolean;
+  /** List pinned threads before the rest (default true) */
+  pinnedFirst?: boolean;
 }
 
 export interface MessageQueryOptions {
@@ -40,3 +49,65 @@ export interface PaginatedResult<T> {
   hasMore: boolean;
   nextOffset?: number;
 }
+
+// Full-text search types
+export type ChatSearchMatchSource = 'text' | 'tool' | 'title';
+
+export interface ChatSearchOptions {
+  limit?: number;
+  threadId?: string;
+  role?: 'user' | 'assistant';
+}
+
+export interface ChatSearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface ChatSearchResult {
+  threadId: string;
+  threadTitle: string;
+  /** Undefined when only the thread title matched */
+  messageId?: string;
+  role?: string;
+  snippet: string;
+  highlights: ChatSearchHighlight[];
+  matchedIn: ChatSearchMatchSource;
+  score: number;
+  timestamp: number;
+}
+
+// Conversation branching types
+export interface MessageBranchInfo {
+  /** Sibling message IDs (alternate versions), oldest first */
+  siblingIds: string[];
+  /** Position of the message within siblingIds */
+  index: number;
+}
+
+// Search cache types
+export interface SearchCacheStats {
+  entryCount: number;
+  searchEntryCount: number;
+  retrieveEntryCount: number;
+  expiredCount: number;
+  /** Approximate total size in bytes */
+  totalSize: number;
+  /** Sum of cache hits across live entries */
+  totalHits: number;
+  oldestEntry: number | null;
+  newestEntry: number | null;
+}
+
+// Memory types
+export interface MemoryListOptions {
+  category?: MemoryCategory;
+  /** Maximum memories to return, newest first */
+  limit?: number;
+}
+
+export interface MemorySearchResult {
+  memory: MemoryEntry;
+  /** Combined keyword and vector relevance, 0 to 1 */
+  score: number;
+}
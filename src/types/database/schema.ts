@@ -2,8 +2,9 @@
  * Strongly typed database schema
  */
 
-import type { AppUsage } from '../ai/usage';
+import type { AppUsage, UsageProvider } from '../ai/usage';
 import type { UIMessage } from 'ai';
+import type { SearchResults, SearchDepth } from '../../search/types';
 
 export interface SettingRecord<T = unknown> {
     key: string;
@@ -32,6 +33,25 @@ export interface ChatThread {
     updatedAt: number;
     initialPageContext?: string;
     lastUsage?: AppUsage;
+    /** Normalized title tokens for full-text search (multiEntry index) */
+    titleTokens?: string[];
+    /** Pinned threads are listed before all others */
+    pinned?: boolean;
+    /** User-defined tags (multiEntry index) */
+    tags?: string[];
+    /** Folder/project the thread belongs to; undefined when unfiled */
+    folderId?: string;
+    /** Archived threads are hidden from the default list */
+    archived?: boolean;
+    /** Last message of the branch currently shown; undefined for linear threads */
+    activeLeafId?: string;
+}
+
+export interface ChatFolder {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface ChatMessage {
@@ -40,18 +60,144 @@ export interface ChatMessage {
     message: UIMessage;
     timestamp: number;
     sequenceNumber?: number;
+    /** Previous message in the conversation tree; null for the first message */
+    parentId?: string | null;
     usage?: AppUsage;
+    /** Normalized text/tool tokens for full-text search (multiEntry index) */
+    searchTokens?: string[];
+}
+
+/**
+ * One completed remote model request, kept for usage analytics and budgets
+ */
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    /** Local calendar day (YYYY-MM-DD) */
+    day: string;
+    modelId: string;
+    provider: UsageProvider;
+    threadId?: string;
+    workflowId?: string;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+}
+
+/** What a search cache entry holds */
+export type SearchCacheKind = 'search' | 'retrieve';
+
+/**
+ * Cached provider response for a web search or a retrieved page
+ */
+export interface SearchCacheEntry {
+    /** Normalized lookup key derived from the request parameters */
+    key: string;
+    kind: SearchCacheKind;
+    /** Search query, or the URL for retrieved pages */
+    query: string;
+    provider: string;
+    results: SearchResults;
+    createdAt: number;
+    /** Per-entry expiry; entries past this are treated as misses */
+    expiresAt: number;
+    /** Updated on every hit, drives LRU eviction */
+    lastAccessedAt: number;
+    /** Approximate serialized size in bytes */
+    size: number;
+    hitCount: number;
+}
+
+/**
+ * A completed web search, kept so past results can be reopened with citations
+ */
+export interface SearchSession {
+    id: string;
+    kind: 'search' | 'deep-search';
+    /** Queries executed (one for a regular search, several for deep search) */
+    queries: string[];
+    provider: string;
+    depth: SearchDepth;
+    results: SearchResults;
+    createdAt: number;
+    /** Whether the results were served from the cache */
+    fromCache: boolean;
+}
+
+/** Lifecycle of a workflow pipeline run */
+export type PipelineRunStatus = 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+export type PipelineStageStatus = 'pending' | 'running' | 'waiting' | 'completed' | 'skipped' | 'failed';
+
+/**
+ * Progress of one stage within a pipeline run
+ */
+export interface PipelineStageState {
+    id: string;
+    label: string;
+    status: PipelineStageStatus;
+    startedAt?: number;
+    completedAt?: number;
+    error?: string;
+}
+
+/**
+ * A workflow pipeline execution, persisted after every stage so it can be
+ * resumed when the side panel is reopened
+ */
+export interface PipelineRun {
+    id: string;
+    workflowId: string;
+    threadId: string | null;
+    status: PipelineRunStatus;
+    /** Text the user sent after the slash command */
+    prompt: string;
+    /** Parsed inputs plus each completed stage's output */
+    context: Record<string, unknown>;
+    stages: PipelineStageState[];
+    /** Stage to run (or waiting on) next; null once the run has ended */
+    currentStageId: string | null;
+    /** Stages executed so far, guards against branch loops */
+    executedStageCount: number;
+    /** Final message shown in the chat */
+    result?: string;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface DBStats {
     chatMessageCount: number;
     settingsCount: number;
     threadCount: number;
+    folderCount: number;
 }
 
+/**
+ * What a memory describes: a fact about the user, or how they want the assistant to behave
+ */
+export type MemoryCategory = 'fact' | 'behavior';
+
+/**
+ * Who asked for a memory to be saved
+ */
+export type MemorySource = 'user' | 'task' | 'system';
+
 export interface MemoryEntry {
     id: string;
+    /** Unique dotted key, e.g. "user.name" */
+    key: string;
+    category: MemoryCategory;
     content: string;
+    source: MemorySource;
+    /** Page the memory was learned from */
+    sourceUrl?: string;
+    /** Normalized tokens of key and content (multiEntry index for keyword search) */
+    keywords: string[];
+    /** Hashed bag-of-words vector for similarity search */
+    vector: number[];
     metadata?: Record<string, unknown>;
     createdAt: number;
     updatedAt: number;
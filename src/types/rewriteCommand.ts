@@ -4,9 +4,9 @@
  */
 
 /**
- * Preset rewrite options
+ * Built-in rewrite presets
  */
-export type RewritePreset =
+export type BuiltInRewritePreset =
     | 'shorter'
     | 'longer'
     | 'professional'
@@ -16,6 +16,45 @@ export type RewritePreset =
     | 'enthusiastic'
     | 'conversational';
 
+/**
+ * ID of a user-defined preset
+ */
+export type CustomRewritePresetId = `custom-${string}`;
+
+/**
+ * Preset rewrite options (built-in or user-defined)
+ */
+export type RewritePreset = BuiltInRewritePreset | CustomRewritePresetId;
+
+/**
+ * Icons a preset can show in the tooltip
+ */
+export type RewritePresetIcon =
+    | 'minimize'
+    | 'maximize'
+    | 'briefcase'
+    | 'smile'
+    | 'sparkles'
+    | 'zap'
+    | 'megaphone'
+    | 'message'
+    | 'file-text'
+    | 'languages'
+    | 'ticket'
+    | 'code'
+    | 'pen';
+
+/**
+ * User-defined preset with its own instruction prompt
+ */
+export interface CustomRewritePreset {
+    id: CustomRewritePresetId;
+    name: string;
+    icon: RewritePresetIcon;
+    /** Sent to the model in place of a built-in preset prompt */
+    instruction: string;
+}
+
 /**
  * Page context for rewrite operations
  */
@@ -3,6 +3,8 @@
  * Type definitions for the /write slash command feature
  */
 
+import type { CustomRewritePresetId } from './rewriteCommand';
+
 /**
  * Tone options for generated content
  */
@@ -76,6 +78,8 @@ export interface WriteGenerateRequest {
             enableGoogleSearch?: boolean; // Enable Google Search grounding tool
             // Supermemory integration
             enableSupermemorySearch?: boolean; // Enable Supermemory semantic search
+            // Custom rewrite preset whose instruction shapes the output
+            preset?: CustomRewritePresetId;
         };
         // Attachment data (serialized for messaging)
         attachment?: WriteAttachmentPayload;
@@ -5,3 +5,4 @@ export * from './modelDownloadBroadcast';
 export * from './modelSettings';
 export * from './suggestionCache';
 export * from './summarizer';
+export * from './usageAnalytics';
@@ -0,0 +1,211 @@
+/**
+ * Usage Analytics
+ * Aggregates the usage ledger by day, model, provider, workflow and thread,
+ * estimates cost from the configured price table and checks monthly budgets.
+ */
+import { createLogger } from '~logger';
+import { db, getUsageRecords, toUsageDay, type UsageRecord } from '~/db';
+import { getWorkflow } from '@/workflows/registry';
+import { getUsageSettings } from '@/utils/settings/usageSettings';
+import type { BudgetStatus, ModelPrice, UsageBucket, UsageProvider, UsageSummary } from '@/types/ai/usage';
+
+const log = createLogger('UsageAnalytics');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NO_WORKFLOW_KEY = 'chat';
+const NO_THREAD_KEY = 'none';
+
+const PROVIDER_LABELS: Record<UsageProvider, string> = {
+    google: 'Google AI',
+    vertex: 'Vertex AI',
+    'openai-compatible': 'OpenAI-compatible',
+};
+
+/**
+ * Estimate the cost of a request in USD
+ *
+ * @returns Cost, or null when the model has no price configured
+ */
+export function estimateCost(
+    record: Pick<UsageRecord, 'modelId' | 'inputTokens' | 'outputTokens' | 'cachedInputTokens'>,
+    prices: Record<string, ModelPrice>
+): number | null {
+    const price = prices[record.modelId];
+    if (!price) return null;
+
+    const cached = Math.min(record.cachedInputTokens ?? 0, record.inputTokens);
+    const uncached = record.inputTokens - cached;
+    return (
+        uncached * price.input +
+        cached * (price.cachedInput ?? price.input) +
+        record.outputTokens * price.output
+    ) / 1_000_000;
+}
+
+function emptyBucket(key: string, label: string): UsageBucket {
+    return { key, label, requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addToBucket(bucket: UsageBucket, record: UsageRecord, cost: number): void {
+    bucket.requests++;
+    bucket.inputTokens += record.inputTokens;
+    bucket.outputTokens += record.outputTokens;
+    bucket.totalTokens += record.totalTokens;
+    bucket.cost += cost;
+}
+
+function byTokensDesc(a: UsageBucket, b: UsageBucket): number {
+    return b.totalTokens - a.totalTokens;
+}
+
+/**
+ * Aggregate usage records into dashboard buckets
+ *
+ * @param records - Ledger entries to aggregate
+ * @param prices - Price table used for cost estimates
+ * @param options.labels - Display names for thread and workflow IDs
+ * @param options.range - When set, every day in the range gets a bucket (zero-filled)
+ */
+export function aggregateUsage(
+    records: UsageRecord[],
+    prices: Record<string, ModelPrice>,
+    options: {
+        labels?: { threads?: Record<string, string>; workflows?: Record<string, string> };
+        range?: { from: number; to: number };
+    } = {}
+): UsageSummary {
+    const { labels = {}, range } = options;
+    const total = emptyBucket('total', 'Total');
+    const days = new Map<string, UsageBucket>();
+    const models = new Map<string, UsageBucket>();
+    const providers = new Map<string, UsageBucket>();
+    const workflows = new Map<string, UsageBucket>();
+    const threads = new Map<string, UsageBucket>();
+    const unpriced = new Set<string>();
+
+    if (range) {
+        for (let t = range.from; t <= range.to; t += DAY_MS) {
+            const day = toUsageDay(t);
+            days.set(day, emptyBucket(day, day));
+        }
+    }
+
+    const bucketFor = (map: Map<string, UsageBucket>, key: string, label: string) => {
+        let bucket = map.get(key);
+        if (!bucket) {
+            bucket = emptyBucket(key, label);
+            map.set(key, bucket);
+        }
+        return bucket;
+    };
+
+    for (const record of records) {
+        const estimated = estimateCost(record, prices);
+        if (estimated === null) unpriced.add(record.modelId);
+        const cost = estimated ?? 0;
+
+        const workflowKey = record.workflowId || NO_WORKFLOW_KEY;
+        const threadKey = record.threadId || NO_THREAD_KEY;
+
+        addToBucket(total, record, cost);
+        addToBucket(bucketFor(days, record.day, record.day), record, cost);
+        addToBucket(bucketFor(models, record.modelId, record.modelId), record, cost);
+        addToBucket(bucketFor(providers, record.provider, PROVIDER_LABELS[record.provider]), record, cost);
+        addToBucket(bucketFor(
+            workflows,
+            workflowKey,
+            record.workflowId ? (labels.workflows?.[record.workflowId] ?? record.workflowId) : 'Chat (no workflow)'
+        ), record, cost);
+        addToBucket(bucketFor(
+            threads,
+            threadKey,
+            record.threadId ? (labels.threads?.[record.threadId] ?? 'Deleted conversation') : 'No conversation'
+        ), record, cost);
+    }
+
+    return {
+        total,
+        byDay: [...days.values()].sort((a, b) => a.key.localeCompare(b.key)),
+        byModel: [...models.values()].sort(byTokensDesc),
+        byProvider: [...providers.values()].sort(byTokensDesc),
+        byWorkflow: [...workflows.values()].sort(byTokensDesc),
+        byThread: [...threads.values()].sort(byTokensDesc),
+        unpricedModels: [...unpriced].sort(),
+    };
+}
+
+/**
+ * Start of the local day `days - 1` days ago, so the range covers `days` calendar days
+ */
+function startOfRange(days: number): number {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (days - 1));
+    return start.getTime();
+}
+
+/**
+ * Load and aggregate usage for the last `days` calendar days
+ */
+export async function getUsageSummary(days: number): Promise<UsageSummary> {
+    const range = { from: startOfRange(days), to: Date.now() };
+    const [records, settings] = await Promise.all([
+        getUsageRecords(range.from, range.to),
+        getUsageSettings(),
+    ]);
+
+    const threadIds = [...new Set(records.map(r => r.threadId).filter((id): id is string => !!id))];
+    const threadList = await db.chatThreads.bulkGet(threadIds);
+    const threads: Record<string, string> = {};
+    threadList.forEach(thread => {
+        if (thread) threads[thread.id] = thread.title;
+    });
+
+    const workflows: Record<string, string> = {};
+    for (const record of records) {
+        if (record.workflowId && !workflows[record.workflowId]) {
+            workflows[record.workflowId] = getWorkflow(record.workflowId)?.name ?? record.workflowId;
+        }
+    }
+
+    return aggregateUsage(records, settings.prices, { labels: { threads, workflows }, range });
+}
+
+/**
+ * Compare the current calendar month's usage with the configured budgets
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+    const settings = await getUsageSettings();
+    const { maxTokensPerMonth, maxCostPerMonth } = settings.limits;
+
+    const monthStart = new Date();
+    monthStart.setHours(0, 0, 0, 0);
+    monthStart.setDate(1);
+
+    let monthTokens = 0;
+    let monthCost = 0;
+    if (maxTokensPerMonth || maxCostPerMonth) {
+        try {
+            const records = await getUsageRecords(monthStart.getTime());
+            for (const record of records) {
+                monthTokens += record.totalTokens;
+                monthCost += estimateCost(record, settings.prices) ?? 0;
+            }
+        } catch (error) {
+            log.error('Failed to load usage records for budget check', error);
+        }
+    }
+
+    const tokenPercent = maxTokensPerMonth ? (monthTokens / maxTokensPerMonth) * 100 : undefined;
+    const costPercent = maxCostPerMonth ? (monthCost / maxCostPerMonth) * 100 : undefined;
+    const highest = Math.max(tokenPercent ?? 0, costPercent ?? 0);
+
+    return {
+        level: highest >= 100 ? 'exceeded' : highest >= settings.warnAtPercent ? 'warning' : 'ok',
+        monthTokens,
+        monthCost,
+        tokenPercent,
+        costPercent,
+        limits: settings.limits,
+    };
+}
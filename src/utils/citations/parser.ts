@@ -19,7 +19,7 @@ const CITATION_PATTERN = /\[([^\]]{1,50})\]\((https?:\/\/[^\s)]+)\)/g;
 /**
  * Pattern specifically for numbered citations like [1], [2], etc.
  */
-const NUMBERED_CITATION_PATTERN = /\[(\d{1,2})\]\((https?:\/\/[^\s)]+)\)/g;
+const NUMBERED_CITATION_PATTERN = /\[(\d{1,3})\]\((https?:\/\/[^\s)]+)\)/g;
 
 /**
  * Parse all citations from markdown text.
@@ -0,0 +1,95 @@
+/**
+ * Citation Registry
+ * Hands out stable citation numbers for sources read during a conversation,
+ * so the same page keeps its number across tool calls and in the final report.
+ * The registry holds the citations of the thread being answered; it is rebuilt
+ * from that thread's messages before each response.
+ */
+
+import type { UIMessage } from 'ai';
+import type { CitationSource } from './types';
+import { getFaviconUrl } from './parser';
+
+/** Numbered citations are parsed as up to three digits */
+const MAX_CITATION_NUMBER = 999;
+
+const sources = new Map<string, CitationSource>();
+
+function isCitationSource(value: unknown): value is CitationSource {
+    const source = value as Partial<CitationSource> | null;
+    return typeof source?.number === 'number' && typeof source.url === 'string' && typeof source.title === 'string';
+}
+
+/**
+ * Normalize a URL into a registry key (ignores protocol, www, hash and trailing slash)
+ */
+export function getCitationKey(url: string): string {
+    try {
+        const parsed = new URL(url);
+        const host = parsed.hostname.replace(/^www\./i, '');
+        const path = parsed.pathname.replace(/\/$/, '');
+        return `${host}${path}${parsed.search}`.toLowerCase();
+    } catch {
+        return url.trim().toLowerCase();
+    }
+}
+
+/**
+ * Get the citation for a URL, assigning the next number the first time it is seen.
+ * Returns null once the registry is full.
+ */
+export function registerCitationSource(url: string, title: string, snippet?: string): CitationSource | null {
+    const key = getCitationKey(url);
+    const existing = sources.get(key);
+    if (existing) {
+        if (title && existing.title !== title) existing.title = title;
+        if (snippet) existing.snippet = snippet;
+        return existing;
+    }
+
+    const number = Math.max(0, ...Array.from(sources.values(), source => source.number)) + 1;
+    if (number > MAX_CITATION_NUMBER) return null;
+
+    const source: CitationSource = {
+        number,
+        title: title || url,
+        url,
+        favicon: getFaviconUrl(url),
+        snippet,
+    };
+    sources.set(key, source);
+    return source;
+}
+
+/**
+ * Look up the citation already assigned to a URL
+ */
+export function getCitationSource(url: string): CitationSource | null {
+    return sources.get(getCitationKey(url)) ?? null;
+}
+
+/**
+ * All registered citations, ordered by number
+ */
+export function getRegisteredCitationSources(): CitationSource[] {
+    return Array.from(sources.values()).sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Load the citations of a thread from its messages, so numbering continues
+ * where the conversation left off (also after the side panel is reopened)
+ * and never carries over from another thread
+ */
+export function rebuildCitationRegistry(messages: UIMessage[]): void {
+    sources.clear();
+    for (const message of messages) {
+        for (const part of (message.parts || []) as any[]) {
+            if (part?.type !== 'tool-readTabs' || part.state !== 'output-available') continue;
+            for (const source of part.output?.citationSources ?? []) {
+                if (!isCitationSource(source)) continue;
+                const key = getCitationKey(source.url);
+                if (!sources.has(key)) sources.set(key, { ...source });
+            }
+        }
+    }
+}
@@ -1,11 +1,11 @@
 /**
  * Provider Credentials Utility
  * Manages AI provider configuration and credentials storage
- * Supports both Google Generative AI and Vertex AI providers
+ * Supports Google Generative AI, Vertex AI and OpenAI-compatible providers
  */
 
 import { APIError, ErrorType } from '@/errors/errorTypes';
-import type { AIProvider, ProviderConfig, VertexCredentials } from './providerTypes';
+import type { AIProvider, OpenAICompatibleConfig, ProviderConfig, VertexCredentials } from './providerTypes';
 import { createLogger } from '~logger';
 
 const credentialsLog = createLogger('Credentials', 'CREDENTIALS');
@@ -47,6 +47,40 @@ function validateVertexCredentials(credentials: VertexCredentials): { valid: boo
     return { valid: true };
 }
 
+/**
+ * Validate OpenAI-compatible endpoint settings
+ */
+function validateOpenAICompatibleConfig(config: OpenAICompatibleConfig): { valid: boolean; error?: string } {
+    if (!config.baseUrl || config.baseUrl.trim().length === 0) {
+        return { valid: false, error: 'Base URL is required' };
+    }
+
+    try {
+        const url = new URL(config.baseUrl);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            return { valid: false, error: 'Base URL must start with http:// or https://' };
+        }
+    } catch {
+        return { valid: false, error: 'Base URL is not a valid URL' };
+    }
+
+    if (!config.model || config.model.trim().length === 0) {
+        return { valid: false, error: 'Model is required' };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Pick the provider to fall back to after one provider's credentials are removed
+ */
+function getFallbackProvider(config: ProviderConfig): AIProvider | null {
+    if (config.googleApiKey) return 'google';
+    if (config.vertexCredentials) return 'vertex';
+    if (config.openAICompatible) return 'openai-compatible';
+    return null;
+}
+
 /**
  * Get provider configuration from storage
  * @returns Provider configuration or null if not set
@@ -82,6 +116,14 @@ export async function setProviderConfig(config: ProviderConfig): Promise<void> {
             if (!config.googleApiKey) {
                 throw APIError.authFailed('Google API key is required');
             }
+        } else if (config.provider === 'openai-compatible') {
+            if (!config.openAICompatible) {
+                throw APIError.authFailed('OpenAI-compatible endpoint settings are required');
+            }
+            const validation = validateOpenAICompatibleConfig(config.openAICompatible);
+            if (!validation.valid) {
+                throw APIError.authFailed(validation.error || 'Invalid OpenAI-compatible settings');
+            }
         }
 
         await chrome.storage.local.set({ [STORAGE_KEY]: config });
@@ -151,11 +193,12 @@ export async function clearVertexCredentials(): Promise<void> {
             delete config.vertexCredentials;
 
             // If no other credentials remain, remove the entire config
-            if (!config.googleApiKey) {
+            const fallback = getFallbackProvider(config);
+            if (!fallback) {
                 await chrome.storage.local.remove(STORAGE_KEY);
             } else {
-                // Switch to Google provider if API key exists
-                config.provider = 'google';
+                // Switch to a provider that is still configured
+                config.provider = fallback;
                 await chrome.storage.local.set({ [STORAGE_KEY]: config });
             }
         }
@@ -219,11 +262,12 @@ export async function clearGoogleApiKey(): Promise<void> {
             delete config.googleApiKey;
 
             // If no other credentials remain, remove the entire config
-            if (!config.vertexCredentials) {
+            const fallback = getFallbackProvider(config);
+            if (!fallback) {
                 await chrome.storage.local.remove(STORAGE_KEY);
             } else {
-                // Switch to Vertex provider if credentials exist
-                config.provider = 'vertex';
+                // Switch to a provider that is still configured
+                config.provider = fallback;
                 await chrome.storage.local.set({ [STORAGE_KEY]: config });
             }
         }
@@ -234,11 +278,96 @@ export async function clearGoogleApiKey(): Promise<void> {
     }
 }
 
+/**
+ * Get OpenAI-compatible endpoint settings from provider config
+ * @returns Endpoint settings or null if not configured
+ */
+export async function getOpenAICompatibleConfig(): Promise<OpenAICompatibleConfig | null> {
+    const config = await getProviderConfig();
+    return config?.openAICompatible || null;
+}
+
+/**
+ * Set OpenAI-compatible endpoint settings and select the provider
+ * @param settings Endpoint settings to store
+ * @throws {APIError} If settings are invalid
+ */
+export async function setOpenAICompatibleConfig(settings: OpenAICompatibleConfig): Promise<void> {
+    try {
+        const config = await getProviderConfig() || { provider: 'openai-compatible' };
+
+        config.provider = 'openai-compatible';
+        config.openAICompatible = {
+            ...settings,
+            baseUrl: settings.baseUrl.trim().replace(/\/+$/, ''),
+            apiKey: settings.apiKey?.trim() || undefined,
+            name: settings.name?.trim() || undefined,
+            model: settings.model.trim(),
+        };
+
+        await setProviderConfig(config);
+        credentialsLog.info('OpenAI-compatible provider configured', {
+            baseUrl: config.openAICompatible.baseUrl,
+            model: config.openAICompatible.model,
+        });
+    } catch (error) {
+        credentialsLog.error('Failed to set OpenAI-compatible provider', error);
+        throw error;
+    }
+}
+
+/**
+ * Change the chat model of the OpenAI-compatible provider
+ * @param model Model ID as reported by the server
+ */
+export async function setOpenAICompatibleModel(model: string): Promise<void> {
+    const settings = await getOpenAICompatibleConfig();
+    if (!settings) {
+        throw APIError.authFailed('OpenAI-compatible provider is not configured');
+    }
+    await setOpenAICompatibleConfig({ ...settings, model });
+}
+
+/**
+ * Check if an OpenAI-compatible endpoint is configured
+ * @returns true if endpoint settings are set and valid
+ */
+export async function hasOpenAICompatibleConfig(): Promise<boolean> {
+    const settings = await getOpenAICompatibleConfig();
+    if (!settings) return false;
+
+    return validateOpenAICompatibleConfig(settings).valid;
+}
+
+/**
+ * Clear OpenAI-compatible endpoint settings from storage
+ */
+export async function clearOpenAICompatibleConfig(): Promise<void> {
+    try {
+        const config = await getProviderConfig();
+        if (config) {
+            delete config.openAICompatible;
+
+            const fallback = getFallbackProvider(config);
+            if (!fallback) {
+                await chrome.storage.local.remove(STORAGE_KEY);
+            } else {
+                config.provider = fallback;
+                await chrome.storage.local.set({ [STORAGE_KEY]: config });
+            }
+        }
+        credentialsLog.info('OpenAI-compatible provider cleared');
+    } catch (error) {
+        credentialsLog.error('Failed to clear OpenAI-compatible provider', error);
+        throw error;
+    }
+}
+
 /**
  * Determine which provider to use
  * Rules:
  * - If user explicitly selected a provider, use it
- * - Otherwise, default to Vertex if both are configured
+ * - Otherwise, default to Vertex if both Google providers are configured
  * - Use whichever is available if only one is configured
  * @returns Active provider
  * @throws {APIError} If no provider is configured
@@ -254,6 +383,9 @@ export async function getActiveProvider(): Promise<AIProvider> {
         if (config.provider === 'google' && await hasGoogleApiKey()) {
             return 'google';
         }
+        if (config.provider === 'openai-compatible' && await hasOpenAICompatibleConfig()) {
+            return 'openai-compatible';
+        }
     }
 
     // Otherwise, determine based on what's configured
@@ -267,6 +399,8 @@ export async function getActiveProvider(): Promise<AIProvider> {
         return 'vertex';
     } else if (hasGoogle) {
         return 'google';
+    } else if (await hasOpenAICompatibleConfig()) {
+        return 'openai-compatible';
     }
 
     // No credentials configured
@@ -274,7 +408,7 @@ export async function getActiveProvider(): Promise<AIProvider> {
         message: 'No AI provider configured',
         statusCode: 401,
         retryable: false,
-        userMessage: 'Please configure an AI provider (Google AI or Vertex AI) to use the assistant.',
+        userMessage: 'Please configure an AI provider (Google AI, Vertex AI or an OpenAI-compatible server) to use the assistant.',
         technicalDetails: 'No provider credentials found in storage',
         errorCode: ErrorType.API_AUTH_FAILED,
     });
@@ -298,6 +432,21 @@ export function getProviderInstructions(provider: AIProvider): string {
 
 **Note:** The free tier includes generous quotas for personal use.
         `.trim();
+    } else if (provider === 'openai-compatible') {
+        return `
+**How to connect an OpenAI-compatible server:**
+
+1. Enter the API base URL, including the version path:
+   - **Ollama**: http://localhost:11434/v1
+   - **llama.cpp server**: http://localhost:8080/v1
+   - **LM Studio**: http://localhost:1234/v1
+   - **Gateways** (OpenRouter, LiteLLM, vLLM, ...): the URL from their docs
+2. Add an API key if your server requires one
+3. Click "Load Models" and pick a model that supports tool calling
+
+**Note:** Ollama rejects requests from browser extensions by default. Start it with
+\`OLLAMA_ORIGINS=chrome-extension://*\` to allow them.
+        `.trim();
     } else {
         return `
 **How to get Vertex AI credentials:**
@@ -327,7 +476,7 @@ export function getProviderInstructions(provider: AIProvider): string {
 export async function hasAnyProviderConfigured(): Promise<boolean> {
     const hasVertex = await hasVertexCredentials();
     const hasGoogle = await hasGoogleApiKey();
-    return hasVertex || hasGoogle;
+    return hasVertex || hasGoogle || await hasOpenAICompatibleConfig();
 }
 
 /**
@@ -1,9 +1,9 @@
 /**
  * Type definitions for AI Provider configuration
- * Supports both Google Generative AI and Vertex AI providers
+ * Supports Google Generative AI, Vertex AI and OpenAI-compatible providers
  */
 
-export type AIProvider = 'google' | 'vertex';
+export type AIProvider = 'google' | 'vertex' | 'openai-compatible';
 
 /**
  * Vertex AI service account credentials
@@ -17,6 +17,23 @@ export interface VertexCredentials {
     privateKeyId?: string;
 }
 
+/**
+ * OpenAI-compatible endpoint settings
+ * Works with hosted gateways and local servers such as Ollama, llama.cpp and LM Studio
+ */
+export interface OpenAICompatibleConfig {
+    /** API root including the version path, e.g. http://localhost:11434/v1 */
+    baseUrl: string;
+    /** Optional; most local servers don't need one */
+    apiKey?: string;
+    /** Display name shown in the model selector, e.g. "Ollama" */
+    name?: string;
+    /** Model used for chat requests */
+    model: string;
+    /** Models discovered from the server's /models endpoint */
+    models?: string[];
+}
+
 /**
  * Provider configuration
  * Contains provider type and associated credentials
@@ -25,6 +42,7 @@ export interface ProviderConfig {
     provider: AIProvider;
     googleApiKey?: string;
     vertexCredentials?: VertexCredentials;
+    openAICompatible?: OpenAICompatibleConfig;
 }
 
 /**
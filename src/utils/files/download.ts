@@ -0,0 +1,24 @@
+/**
+ * Browser download helper for generated text files
+ */
+
+/**
+ * Trigger a download of in-memory text content
+ *
+ * @param content - File contents
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+}
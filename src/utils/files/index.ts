@@ -1,5 +1,6 @@
 // File Processing Utilities
 
+export * from './download';
 export * from './fileIconMapper';
 export * from './fileProcessor';
 export * from './localFileReader';
@@ -3,8 +3,18 @@
  * 
  * Provides utilities for managing the visibility of the Ask AI floating button
  * based on user preferences and drag-to-delete actions.
+ * Per-domain hiding is stored as Ask AI button rules in the site rules engine.
  */
 
+import {
+    getSiteRulesSettings,
+    isFeatureAllowedOnSite,
+    normalizeSitePattern,
+    saveSiteRulesSettings,
+    setSiteFeaturesPaused,
+    type SiteRule,
+} from './siteRules';
+
 export interface VisibilitySettings {
     hiddenDomains: string[];           // Domains where button is hidden
     hiddenForSession: boolean;         // Session-based hide (cleared on browser restart)
@@ -12,11 +22,27 @@ export interface VisibilitySettings {
 }
 
 const STORAGE_KEYS = {
-    HIDDEN_DOMAINS: 'askAiButton.hiddenDomains',
     HIDDEN_FOR_SESSION: 'askAiButton.hiddenForSession',
     PERMANENTLY_HIDDEN: 'askAiButton.permanentlyHidden',
 } as const;
 
+function isButtonBlockRule(rule: SiteRule): boolean {
+    return rule.action === 'block' && rule.features.includes('askAiButton');
+}
+
+/**
+ * Stop matching block rules from hiding the button; rules left without features are removed
+ */
+async function removeButtonFromBlockRules(matches: (rule: SiteRule) => boolean): Promise<void> {
+    const settings = await getSiteRulesSettings();
+    const rules = settings.rules
+        .map(rule => isButtonBlockRule(rule) && matches(rule)
+            ? { ...rule, features: rule.features.filter(feature => feature !== 'askAiButton') }
+            : rule)
+        .filter(rule => rule.features.length > 0);
+    await saveSiteRulesSettings({ ...settings, rules });
+}
+
 /**
  * Get the current domain from a URL
  */
@@ -37,16 +63,16 @@ export function getCurrentDomain(url?: string): string {
 export async function getVisibilitySettings(): Promise<VisibilitySettings> {
     try {
         const result = await chrome.storage.local.get([
-            STORAGE_KEYS.HIDDEN_DOMAINS,
             STORAGE_KEYS.PERMANENTLY_HIDDEN,
         ]);
+        const siteRules = await getSiteRulesSettings();
 
         const sessionResult = await chrome.storage.session.get([
             STORAGE_KEYS.HIDDEN_FOR_SESSION,
         ]);
 
         return {
-            hiddenDomains: result[STORAGE_KEYS.HIDDEN_DOMAINS] || [],
+            hiddenDomains: [...new Set(siteRules.rules.filter(isButtonBlockRule).map(rule => rule.pattern))],
             permanentlyHidden: result[STORAGE_KEYS.PERMANENTLY_HIDDEN] || false,
             hiddenForSession: sessionResult[STORAGE_KEYS.HIDDEN_FOR_SESSION] || false,
         };
@@ -72,18 +98,8 @@ export async function hideForCurrentPage(url?: string): Promise<void> {
             return;
         }
 
-        const settings = await getVisibilitySettings();
-
-        // Add domain if not already in the list
-        if (!settings.hiddenDomains.includes(domain)) {
-            settings.hiddenDomains.push(domain);
-
-            await chrome.storage.local.set({
-                [STORAGE_KEYS.HIDDEN_DOMAINS]: settings.hiddenDomains,
-            });
-
-            console.log(`[AskAI Visibility] Hidden for domain: ${domain}`);
-        }
+        await setSiteFeaturesPaused(domain, true, ['askAiButton']);
+        console.log(`[AskAI Visibility] Hidden for domain: ${domain}`);
     } catch (error) {
         console.error('[AskAI Visibility] Error hiding for current page:', error);
     }
@@ -139,9 +155,9 @@ export async function shouldShowButton(url?: string): Promise<boolean> {
             return false;
         }
 
-        // Check if current domain is hidden
+        // Check site rules (hidden domains and sensitive sites)
         const domain = getCurrentDomain(url);
-        if (domain && settings.hiddenDomains.includes(domain)) {
+        if (domain && !(await isFeatureAllowedOnSite('askAiButton', domain))) {
             console.log(`[AskAI Visibility] Button hidden for domain: ${domain}`);
             return false;
         }
@@ -176,13 +192,8 @@ export async function clearSessionHide(): Promise<void> {
  */
 export async function removeDomainFromHidden(domain: string): Promise<void> {
     try {
-        const settings = await getVisibilitySettings();
-
-        settings.hiddenDomains = settings.hiddenDomains.filter(d => d !== domain);
-
-        await chrome.storage.local.set({
-            [STORAGE_KEYS.HIDDEN_DOMAINS]: settings.hiddenDomains,
-        });
+        const pattern = normalizeSitePattern(domain);
+        await removeButtonFromBlockRules(rule => rule.pattern === pattern);
 
         console.log(`[AskAI Visibility] Removed domain from hidden list: ${domain}`);
     } catch (error) {
@@ -212,9 +223,7 @@ export async function reEnableButton(): Promise<void> {
  */
 export async function clearAllHiddenDomains(): Promise<void> {
     try {
-        await chrome.storage.local.set({
-            [STORAGE_KEYS.HIDDEN_DOMAINS]: [],
-        });
+        await removeButtonFromBlockRules(() => true);
 
         console.log('[AskAI Visibility] All hidden domains cleared');
     } catch (error) {
@@ -1,6 +1,7 @@
 // Settings & Storage Utilities
 
 export * from './ask-ai-button-visibility';
+export * from './siteRules';
 export * from './askCommandSettings';
 export * from './localPdfDismissals';
 export * from './loggerConfig';
@@ -8,5 +9,9 @@ export * from './settingsStorage';
 export * from './textSummarizerSettings';
 export * from './writeCommandSettings';
 export * from './rewriteSettings';
+export * from './writingStyleSettings';
 export * from './searchSettings';
 export * from './researchWorkflowSettings';
+export * from './usageSettings';
+export * from './toolApprovalSettings';
+export * from './memorySettings';
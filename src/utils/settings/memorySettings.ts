@@ -0,0 +1,48 @@
+/**
+ * Memory Settings
+ * Controls how saved memories are added to the system prompt
+ */
+import { createLogger } from '~logger';
+
+const log = createLogger('MemorySettings', 'STORAGE');
+
+export const MEMORY_SETTINGS_STORAGE_KEY = 'memorySettings';
+
+export interface MemorySettings {
+    /** Add relevant memories to the system prompt of every chat */
+    autoInject: boolean;
+    /** Most facts to add per request; behavior memories are always added */
+    maxInjected: number;
+}
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+    autoInject: true,
+    maxInjected: 5,
+};
+
+/**
+ * Get the current memory settings from storage
+ */
+export async function getMemorySettings(): Promise<MemorySettings> {
+    try {
+        const result = await chrome.storage.local.get(MEMORY_SETTINGS_STORAGE_KEY);
+        const stored = (result[MEMORY_SETTINGS_STORAGE_KEY] || {}) as Partial<MemorySettings>;
+        return { ...DEFAULT_MEMORY_SETTINGS, ...stored };
+    } catch (error) {
+        log.error('Failed to get settings:', error);
+        return DEFAULT_MEMORY_SETTINGS;
+    }
+}
+
+/**
+ * Save memory settings to storage
+ */
+export async function saveMemorySettings(settings: MemorySettings): Promise<void> {
+    try {
+        await chrome.storage.local.set({ [MEMORY_SETTINGS_STORAGE_KEY]: settings });
+        log.info('Settings saved', settings);
+    } catch (error) {
+        log.error('Failed to save settings:', error);
+        throw error;
+    }
+}
@@ -3,7 +3,13 @@
  * Settings storage for the text rewrite feature
  */
 import { createLogger } from '~logger';
-import type { RewritePreset } from '@/types';
+import type {
+    BuiltInRewritePreset,
+    CustomRewritePreset,
+    CustomRewritePresetId,
+    RewritePreset,
+    RewritePresetIcon,
+} from '@/types';
 
 const log = createLogger('RewriteSettings', 'STORAGE');
 
@@ -16,6 +22,12 @@ export interface RewriteSettings {
     showPresets: boolean;
     /** Default preset to use (null = show all options) */
     defaultPreset: RewritePreset | null;
+    /** User-defined presets */
+    customPresets: CustomRewritePreset[];
+    /** Display order of built-in and custom presets */
+    presetOrder: RewritePreset[];
+    /** Presets shown directly in the tooltip; the rest sit behind "More" */
+    pinnedPresets: RewritePreset[];
     /** Minimum text length to trigger rewrite tooltip */
     minSelectionLength: number;
     // Gemini Tool settings
@@ -28,10 +40,47 @@ export interface RewriteSettings {
     enableSupermemorySearch: boolean;
 }
 
+/**
+ * Built-in presets as shown in the tooltip, in their default order
+ */
+export const BUILT_IN_REWRITE_PRESETS: Array<{
+    id: BuiltInRewritePreset;
+    label: string;
+    icon: RewritePresetIcon;
+    color: string;
+}> = [
+    { id: 'shorter', label: 'Shorter', icon: 'minimize', color: '#3b82f6' },
+    { id: 'longer', label: 'Expand', icon: 'maximize', color: '#8b5cf6' },
+    { id: 'professional', label: 'Professional', icon: 'briefcase', color: '#06b6d4' },
+    { id: 'casual', label: 'Friendly', icon: 'smile', color: '#f59e0b' },
+    { id: 'improve', label: 'Improve', icon: 'sparkles', color: '#10b981' },
+    { id: 'simplify', label: 'Simplify', icon: 'zap', color: '#ef4444' },
+    { id: 'enthusiastic', label: 'Enthusiastic', icon: 'megaphone', color: '#ec4899' },
+    { id: 'conversational', label: 'Conversational', icon: 'message', color: '#14b8a6' },
+];
+
+export const CUSTOM_PRESET_COLOR = '#6366f1';
+
+/**
+ * A preset resolved for display: built-in or custom, with its pin state
+ */
+export interface RewritePresetOption {
+    id: RewritePreset;
+    label: string;
+    icon: RewritePresetIcon;
+    color: string;
+    pinned: boolean;
+    /** Instruction prompt, only set for custom presets */
+    instruction?: string;
+}
+
 export const DEFAULT_REWRITE_SETTINGS: RewriteSettings = {
     enabled: true,
     showPresets: true,
     defaultPreset: null,
+    customPresets: [],
+    presetOrder: BUILT_IN_REWRITE_PRESETS.map(preset => preset.id),
+    pinnedPresets: ['shorter', 'longer', 'professional', 'casual', 'improve', 'simplify'],
     minSelectionLength: 10,
     enableUrlContext: false,
     enableGoogleSearch: false,
@@ -84,3 +133,51 @@ export async function updateRewriteSetting<K extends keyof RewriteSettings>(
     await saveRewriteSettings(updated);
     return updated;
 }
+
+export function isCustomRewritePreset(preset: RewritePreset): preset is CustomRewritePresetId {
+    return preset.startsWith('custom-');
+}
+
+export function createCustomPresetId(): CustomRewritePresetId {
+    return `custom-${crypto.randomUUID()}`;
+}
+
+/**
+ * All presets in display order. Presets missing from the saved order
+ * (e.g. built-ins added in an update) are appended.
+ */
+export function getRewritePresetOptions(settings: RewriteSettings): RewritePresetOption[] {
+    const options = new Map<RewritePreset, RewritePresetOption>();
+    for (const preset of BUILT_IN_REWRITE_PRESETS) {
+        options.set(preset.id, { ...preset, pinned: settings.pinnedPresets.includes(preset.id) });
+    }
+    for (const preset of settings.customPresets) {
+        options.set(preset.id, {
+            id: preset.id,
+            label: preset.name,
+            icon: preset.icon,
+            color: CUSTOM_PRESET_COLOR,
+            pinned: settings.pinnedPresets.includes(preset.id),
+            instruction: preset.instruction,
+        });
+    }
+
+    const ordered: RewritePresetOption[] = [];
+    for (const id of [...settings.presetOrder, ...options.keys()]) {
+        const option = options.get(id);
+        if (option) {
+            ordered.push(option);
+            options.delete(id);
+        }
+    }
+    return ordered;
+}
+
+/**
+ * Look up the instruction of a custom preset
+ */
+export async function getCustomPresetInstruction(preset: RewritePreset): Promise<string | null> {
+    if (!isCustomRewritePreset(preset)) return null;
+    const settings = await getRewriteSettings();
+    return settings.customPresets.find(custom => custom.id === preset)?.instruction ?? null;
+}
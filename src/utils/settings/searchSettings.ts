@@ -1,5 +1,5 @@
 import { createLogger } from '~logger';
-import type { SearchProviderType, SearchDepth } from '@/search/types';
+import type { SearchProviderType, SearchProviderConfig, SearchDepth } from '@/search/types';
 
 const log = createLogger('SearchSettings', 'SETTINGS');
 
@@ -18,11 +18,25 @@ export interface SearchSettings {
     maxResults: number;
     /** Whether to include images in results */
     includeImages: boolean;
+    /** Providers tried in order when the default provider fails */
+    fallbackProviders: SearchProviderType[];
+    /** Base URL of the SearXNG instance (e.g. https://searx.example.com) */
+    searxngBaseUrl: string;
+    /** Whether search results and retrieved pages are cached */
+    cacheEnabled: boolean;
+    /** Time to live for cached search results, in minutes */
+    cacheTtlMinutes: number;
+    /** Size budget for the search cache, in megabytes */
+    cacheMaxSizeMB: number;
 }
 
 /** API keys for search providers (stored separately for security) */
 export interface SearchApiKeys {
     tavily?: string;
+    brave?: string;
+    searxng?: string;
+    exa?: string;
+    serper?: string;
 }
 
 /** Default search settings */
@@ -32,6 +46,11 @@ export const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
     defaultSearchDepth: 'basic',
     maxResults: 10,
     includeImages: true,
+    fallbackProviders: [],
+    searxngBaseUrl: '',
+    cacheEnabled: true,
+    cacheTtlMinutes: 60,
+    cacheMaxSizeMB: 20,
 };
 
 /** Default API keys (empty) */
@@ -118,20 +137,46 @@ export async function getApiKeyForProvider(
     provider: SearchProviderType
 ): Promise<string | undefined> {
     const keys = await getSearchApiKeys();
-    switch (provider) {
-        case 'tavily':
-            return keys.tavily;
-        default:
-            return undefined;
-    }
+    return keys[provider];
 }
 
 /**
  * Check if a provider has a valid API key configured.
+ * SearXNG needs no key, so it counts as configured once its base URL is set.
  */
 export async function hasApiKeyForProvider(
     provider: SearchProviderType
 ): Promise<boolean> {
+    if (provider === 'searxng') {
+        const settings = await getSearchSettings();
+        return settings.searxngBaseUrl.trim().length > 0;
+    }
     const key = await getApiKeyForProvider(provider);
     return Boolean(key && key.trim().length > 0);
 }
+
+/**
+ * Resolve the provider fallback chain: the default provider followed by
+ * the configured fallbacks, skipping any without credentials.
+ */
+export async function getSearchProviderChain(
+    settings?: SearchSettings
+): Promise<SearchProviderConfig[]> {
+    const resolved = settings ?? (await getSearchSettings());
+    const keys = await getSearchApiKeys();
+    const order = [resolved.defaultProvider, ...resolved.fallbackProviders].filter(
+        (provider, index, all) => all.indexOf(provider) === index
+    );
+
+    const chain: SearchProviderConfig[] = [];
+    for (const type of order) {
+        const apiKey = keys[type]?.trim() ?? '';
+        if (type === 'searxng') {
+            const baseUrl = resolved.searxngBaseUrl.trim();
+            if (baseUrl) chain.push({ type, apiKey, baseUrl });
+        } else if (apiKey) {
+            chain.push({ type, apiKey });
+        }
+    }
+    return chain;
+}
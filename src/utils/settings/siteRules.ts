@@ -0,0 +1,331 @@
+/**
+ * Site Rules
+ * Per-site allow/block rules for the in-page features (Ask AI button, /write, /ask,
+ * rewriter tooltip, summarizer), with default blocks for sensitive sites
+ */
+import { createLogger } from '~logger';
+
+const log = createLogger('SiteRules', 'STORAGE');
+
+export const SITE_RULES_STORAGE_KEY = 'siteRules';
+
+/** Storage key of the Ask AI button's old per-domain hide list, migrated into rules */
+const LEGACY_HIDDEN_DOMAINS_KEY = 'askAiButton.hiddenDomains';
+
+export type SiteFeature = 'askAiButton' | 'writeCommand' | 'askCommand' | 'rewriter' | 'summarizer';
+
+export const SITE_FEATURES: Array<{ id: SiteFeature; label: string }> = [
+    { id: 'askAiButton', label: 'Ask AI button' },
+    { id: 'writeCommand', label: '/write' },
+    { id: 'askCommand', label: '/ask' },
+    { id: 'rewriter', label: 'Rewriter' },
+    { id: 'summarizer', label: 'Summarizer' },
+];
+
+export const ALL_SITE_FEATURES: SiteFeature[] = SITE_FEATURES.map(feature => feature.id);
+
+export type SiteRuleAction = 'allow' | 'block';
+
+export interface SiteRule {
+    id: string;
+    /**
+     * Hostname pattern. 'example.com' matches the domain and its subdomains;
+     * '*' is a wildcard, e.g. '*.example.com' (subdomains only) or 'intranet.*'
+     */
+    pattern: string;
+    action: SiteRuleAction;
+    features: SiteFeature[];
+    createdAt: number;
+}
+
+export type SensitiveSiteCategory = 'banking' | 'payments' | 'passwordManagers';
+
+export const SENSITIVE_SITE_CATEGORIES: Record<SensitiveSiteCategory, { label: string; patterns: string[] }> = {
+    banking: {
+        label: 'Banking & investing',
+        patterns: [
+            '*.bank',
+            'chase.com',
+            'bankofamerica.com',
+            'wellsfargo.com',
+            'citi.com',
+            'capitalone.com',
+            'usbank.com',
+            'pnc.com',
+            'ally.com',
+            'americanexpress.com',
+            'discover.com',
+            'hsbc.com',
+            'hsbc.co.uk',
+            'barclays.co.uk',
+            'lloydsbank.com',
+            'natwest.com',
+            'santander.com',
+            'santander.co.uk',
+            'ing.com',
+            'schwab.com',
+            'fidelity.com',
+            'vanguard.com',
+            'robinhood.com',
+        ],
+    },
+    payments: {
+        label: 'Payments & crypto',
+        patterns: [
+            'paypal.com',
+            'venmo.com',
+            'wise.com',
+            'revolut.com',
+            'pay.google.com',
+            'dashboard.stripe.com',
+            'checkout.stripe.com',
+            'coinbase.com',
+            'kraken.com',
+            'binance.com',
+        ],
+    },
+    passwordManagers: {
+        label: 'Password managers',
+        patterns: [
+            '1password.com',
+            'lastpass.com',
+            'bitwarden.com',
+            'dashlane.com',
+            'keepersecurity.com',
+            'nordpass.com',
+            'passwords.google.com',
+            'pass.proton.me',
+        ],
+    },
+};
+
+export interface SiteRulesSettings {
+    rules: SiteRule[];
+    /** Features that only run on sites with a matching allow rule */
+    allowListOnly: SiteFeature[];
+    /** Sensitive categories where every feature is off unless a rule allows it */
+    blockedCategories: SensitiveSiteCategory[];
+}
+
+export const DEFAULT_SITE_RULES_SETTINGS: SiteRulesSettings = {
+    rules: [],
+    allowListOnly: [],
+    blockedCategories: ['banking', 'payments', 'passwordManagers'],
+};
+
+export interface SiteRuleDecision {
+    allowed: boolean;
+    /** What decided: a user rule, a sensitive category, allow-list-only mode, or nothing */
+    reason: 'rule' | 'sensitive' | 'allow-list' | 'default';
+    rule?: SiteRule;
+    category?: SensitiveSiteCategory;
+}
+
+/**
+ * Reduce a pattern or URL to a bare lowercase hostname pattern
+ */
+export function normalizeSitePattern(pattern: string): string {
+    return pattern
+        .trim()
+        .toLowerCase()
+        .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+        .replace(/[/?#].*$/, '')
+        .replace(/:\d+$/, '')
+        .replace(/^www\./, '');
+}
+
+/**
+ * Check whether a hostname matches a site pattern
+ */
+export function matchesSitePattern(hostname: string, pattern: string): boolean {
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+    const normalized = normalizeSitePattern(pattern);
+    if (!normalized) return false;
+
+    if (!normalized.includes('*')) {
+        return host === normalized || host.endsWith(`.${normalized}`);
+    }
+
+    const source = normalized
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}$`).test(host);
+}
+
+/** More literal characters = more specific */
+function getPatternSpecificity(pattern: string): number {
+    return normalizeSitePattern(pattern).replace(/\*/g, '').length;
+}
+
+/**
+ * Decide whether a feature may run on a hostname.
+ * The most specific matching rule wins (block wins a tie); without one,
+ * sensitive categories block and allow-list-only features stay off.
+ */
+export function evaluateSiteRules(
+    settings: SiteRulesSettings,
+    feature: SiteFeature,
+    hostname: string
+): SiteRuleDecision {
+    if (!hostname) return { allowed: true, reason: 'default' };
+
+    const rule = settings.rules
+        .filter(candidate => candidate.features.includes(feature) && matchesSitePattern(hostname, candidate.pattern))
+        .sort((a, b) =>
+            getPatternSpecificity(b.pattern) - getPatternSpecificity(a.pattern) ||
+            (a.action === b.action ? 0 : a.action === 'block' ? -1 : 1)
+        )[0];
+    if (rule) {
+        return { allowed: rule.action === 'allow', reason: 'rule', rule };
+    }
+
+    const category = settings.blockedCategories.find(id =>
+        SENSITIVE_SITE_CATEGORIES[id]?.patterns.some(pattern => matchesSitePattern(hostname, pattern))
+    );
+    if (category) {
+        return { allowed: false, reason: 'sensitive', category };
+    }
+
+    if (settings.allowListOnly.includes(feature)) {
+        return { allowed: false, reason: 'allow-list' };
+    }
+
+    return { allowed: true, reason: 'default' };
+}
+
+/**
+ * Move the Ask AI button's old hidden-domain list into block rules
+ */
+async function migrateLegacyHiddenDomains(settings: SiteRulesSettings): Promise<SiteRulesSettings> {
+    const legacy = await chrome.storage.local.get(LEGACY_HIDDEN_DOMAINS_KEY);
+    const domains: unknown = legacy[LEGACY_HIDDEN_DOMAINS_KEY];
+    if (!Array.isArray(domains)) return settings;
+
+    const migrated: SiteRulesSettings = {
+        ...settings,
+        rules: [
+            ...settings.rules,
+            ...domains
+                .filter((domain): domain is string => typeof domain === 'string' && !!normalizeSitePattern(domain))
+                .filter(domain => !settings.rules.some(rule =>
+                    rule.action === 'block' &&
+                    rule.pattern === normalizeSitePattern(domain) &&
+                    rule.features.includes('askAiButton')
+                ))
+                .map((domain): SiteRule => ({
+                    id: crypto.randomUUID(),
+                    pattern: normalizeSitePattern(domain),
+                    action: 'block',
+                    features: ['askAiButton'],
+                    createdAt: Date.now(),
+                })),
+        ],
+    };
+    await chrome.storage.local.set({ [SITE_RULES_STORAGE_KEY]: migrated });
+    await chrome.storage.local.remove(LEGACY_HIDDEN_DOMAINS_KEY);
+    log.info('Migrated Ask AI hidden domains to site rules', { count: domains.length });
+    return migrated;
+}
+
+/**
+ * Get site rules from storage
+ */
+export async function getSiteRulesSettings(): Promise<SiteRulesSettings> {
+    try {
+        const result = await chrome.storage.local.get(SITE_RULES_STORAGE_KEY);
+        const settings = { ...DEFAULT_SITE_RULES_SETTINGS, ...(result[SITE_RULES_STORAGE_KEY] || {}) };
+        return await migrateLegacyHiddenDomains(settings);
+    } catch (error) {
+        log.error('Failed to get settings:', error);
+        return DEFAULT_SITE_RULES_SETTINGS;
+    }
+}
+
+/**
+ * Save site rules to storage
+ */
+export async function saveSiteRulesSettings(settings: SiteRulesSettings): Promise<void> {
+    try {
+        await chrome.storage.local.set({ [SITE_RULES_STORAGE_KEY]: settings });
+        log.info('Settings saved');
+    } catch (error) {
+        log.error('Failed to save settings:', error);
+        throw error;
+    }
+}
+
+/**
+ * Add a rule; returns the updated settings
+ */
+export async function addSiteRule(rule: Pick<SiteRule, 'pattern' | 'action' | 'features'>): Promise<SiteRulesSettings> {
+    const settings = await getSiteRulesSettings();
+    const updated: SiteRulesSettings = {
+        ...settings,
+        rules: [...settings.rules, {
+            ...rule,
+            id: crypto.randomUUID(),
+            pattern: normalizeSitePattern(rule.pattern),
+            createdAt: Date.now(),
+        }],
+    };
+    await saveSiteRulesSettings(updated);
+    return updated;
+}
+
+/**
+ * Remove a rule; returns the updated settings
+ */
+export async function removeSiteRule(id: string): Promise<SiteRulesSettings> {
+    const settings = await getSiteRulesSettings();
+    const updated = { ...settings, rules: settings.rules.filter(rule => rule.id !== id) };
+    await saveSiteRulesSettings(updated);
+    return updated;
+}
+
+/**
+ * Check whether a feature may run on a site (defaults to the current page)
+ */
+export async function isFeatureAllowedOnSite(feature: SiteFeature, hostname = window.location.hostname): Promise<boolean> {
+    const settings = await getSiteRulesSettings();
+    return evaluateSiteRules(settings, feature, hostname).allowed;
+}
+
+/**
+ * Pause or resume features on one hostname, e.g. from the side panel quick toggle.
+ * Replaces earlier rules for exactly this hostname; resuming only adds an allow rule
+ * when a broader rule or default would still block.
+ */
+export async function setSiteFeaturesPaused(
+    hostname: string,
+    paused: boolean,
+    features: SiteFeature[] = ALL_SITE_FEATURES
+): Promise<SiteRulesSettings> {
+    const pattern = normalizeSitePattern(hostname);
+    const settings = await getSiteRulesSettings();
+
+    const rules = settings.rules
+        .map(rule => rule.pattern === pattern
+            ? { ...rule, features: rule.features.filter(feature => !features.includes(feature)) }
+            : rule)
+        .filter(rule => rule.features.length > 0);
+
+    const remaining = { ...settings, rules };
+    const toAdd = paused
+        ? features
+        : features.filter(feature => !evaluateSiteRules(remaining, feature, pattern).allowed);
+
+    const updated: SiteRulesSettings = toAdd.length === 0 ? remaining : {
+        ...remaining,
+        rules: [...rules, {
+            id: crypto.randomUUID(),
+            pattern,
+            action: paused ? 'block' : 'allow',
+            features: toAdd,
+            createdAt: Date.now(),
+        }],
+    };
+    await saveSiteRulesSettings(updated);
+    log.info(paused ? 'Paused features on site' : 'Resumed features on site', { pattern, features });
+    return updated;
+}
@@ -0,0 +1,102 @@
+/**
+ * Tool Approval Settings
+ * Which tool risk levels require confirmation, and the user's "always allow" rules
+ */
+import { createLogger } from '~logger';
+
+const log = createLogger('ToolApprovalSettings', 'STORAGE');
+
+export const TOOL_APPROVAL_STORAGE_KEY = 'toolApprovalSettings';
+
+/**
+ * How much a tool call can change outside the conversation
+ * - read-only: only reads tabs, pages or history
+ * - reversible: changes browser state the user can easily undo
+ * - destructive: deletes data or runs arbitrary code
+ * - external: acts on websites or third-party services
+ */
+export type ToolRiskLevel = 'read-only' | 'reversible' | 'destructive' | 'external';
+
+export interface ToolApprovalRule {
+    id: string;
+    /** 'domain' rules match the hostname a tool acts on, 'mcp-server' rules match every tool of a server */
+    scope: 'domain' | 'mcp-server';
+    /** Hostname or MCP server id */
+    value: string;
+    /** Limits a rule to one tool; omitted means any tool */
+    toolName?: string;
+    createdAt: number;
+}
+
+export interface ToolApprovalSettings {
+    /** When false, every tool runs without confirmation */
+    enabled: boolean;
+    requireApprovalFor: ToolRiskLevel[];
+    rules: ToolApprovalRule[];
+}
+
+export const DEFAULT_TOOL_APPROVAL_SETTINGS: ToolApprovalSettings = {
+    enabled: true,
+    requireApprovalFor: ['destructive', 'external'],
+    rules: [],
+};
+
+/**
+ * Get the current tool approval settings from storage
+ */
+export async function getToolApprovalSettings(): Promise<ToolApprovalSettings> {
+    try {
+        const result = await chrome.storage.local.get(TOOL_APPROVAL_STORAGE_KEY);
+        const stored = (result[TOOL_APPROVAL_STORAGE_KEY] || {}) as Partial<ToolApprovalSettings>;
+        return {
+            ...DEFAULT_TOOL_APPROVAL_SETTINGS,
+            ...stored,
+            rules: stored.rules ?? [],
+        };
+    } catch (error) {
+        log.error('Failed to get settings:', error);
+        return DEFAULT_TOOL_APPROVAL_SETTINGS;
+    }
+}
+
+/**
+ * Save tool approval settings to storage
+ */
+export async function saveToolApprovalSettings(settings: ToolApprovalSettings): Promise<void> {
+    try {
+        await chrome.storage.local.set({ [TOOL_APPROVAL_STORAGE_KEY]: settings });
+        log.info('Settings saved', {
+            enabled: settings.enabled,
+            requireApprovalFor: settings.requireApprovalFor,
+            rules: settings.rules.length,
+        });
+    } catch (error) {
+        log.error('Failed to save settings:', error);
+        throw error;
+    }
+}
+
+/**
+ * Add an "always allow" rule, skipping exact duplicates
+ */
+export async function addToolApprovalRule(
+    rule: Omit<ToolApprovalRule, 'id' | 'createdAt'>
+): Promise<ToolApprovalRule> {
+    const settings = await getToolApprovalSettings();
+    const existing = settings.rules.find(r =>
+        r.scope === rule.scope && r.value === rule.value && r.toolName === rule.toolName
+    );
+    if (existing) return existing;
+
+    const created: ToolApprovalRule = { ...rule, id: crypto.randomUUID(), createdAt: Date.now() };
+    await saveToolApprovalSettings({ ...settings, rules: [...settings.rules, created] });
+    return created;
+}
+
+/**
+ * Remove an "always allow" rule
+ */
+export async function removeToolApprovalRule(id: string): Promise<void> {
+    const settings = await getToolApprovalSettings();
+    await saveToolApprovalSettings({ ...settings, rules: settings.rules.filter(rule => rule.id !== id) });
+}
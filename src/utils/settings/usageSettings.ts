@@ -0,0 +1,73 @@
+/**
+ * Usage Settings
+ * Price table and monthly budgets for the usage dashboard
+ */
+import { createLogger } from '~logger';
+import type { ModelPrice, UsageLimits } from '@/types/ai/usage';
+
+const log = createLogger('UsageSettings', 'STORAGE');
+
+export const USAGE_SETTINGS_STORAGE_KEY = 'usageSettings';
+
+export interface UsageSettings {
+    /** USD per one million tokens, keyed by modelId */
+    prices: Record<string, ModelPrice>;
+    /** Optional monthly budgets; unset fields mean no limit */
+    limits: Pick<UsageLimits, 'maxTokensPerMonth' | 'maxCostPerMonth'>;
+    /** Show a warning in the composer once this percent of a budget is used */
+    warnAtPercent: number;
+}
+
+/**
+ * Published Gemini API list prices (USD per 1M tokens, standard context tier).
+ * Users can override these in settings when pricing changes.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, cachedInput: 0.075 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40, cachedInput: 0.025 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00, cachedInput: 0.31 },
+    'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+    'gemini-3-pro-preview': { input: 2.00, output: 12.00, cachedInput: 0.20 },
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    prices: DEFAULT_MODEL_PRICES,
+    limits: {},
+    warnAtPercent: 80,
+};
+
+/**
+ * Get the current usage settings from storage
+ */
+export async function getUsageSettings(): Promise<UsageSettings> {
+    try {
+        const result = await chrome.storage.local.get(USAGE_SETTINGS_STORAGE_KEY);
+        const stored = (result[USAGE_SETTINGS_STORAGE_KEY] || {}) as Partial<UsageSettings>;
+        return {
+            ...DEFAULT_USAGE_SETTINGS,
+            ...stored,
+            prices: stored.prices ?? DEFAULT_MODEL_PRICES,
+            limits: stored.limits ?? {},
+        };
+    } catch (error) {
+        log.error('Failed to get settings:', error);
+        return DEFAULT_USAGE_SETTINGS;
+    }
+}
+
+/**
+ * Save usage settings to storage
+ */
+export async function saveUsageSettings(settings: UsageSettings): Promise<void> {
+    try {
+        await chrome.storage.local.set({ [USAGE_SETTINGS_STORAGE_KEY]: settings });
+        log.info('Settings saved', {
+            pricedModels: Object.keys(settings.prices).length,
+            maxTokensPerMonth: settings.limits.maxTokensPerMonth,
+            maxCostPerMonth: settings.limits.maxCostPerMonth,
+        });
+    } catch (error) {
+        log.error('Failed to save settings:', error);
+        throw error;
+    }
+}
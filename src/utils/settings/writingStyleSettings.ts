@@ -0,0 +1,174 @@
+/**
+ * Writing Style Settings
+ * Storage for the personal writing style profile used by /write and the rewriter
+ */
+import { createLogger } from '~logger';
+
+const log = createLogger('WritingStyleSettings', 'STORAGE');
+
+export const WRITING_STYLE_STORAGE_KEY = 'writingStyleProfile';
+
+export type WritingStylePlatform = 'general' | 'gmail' | 'slack' | 'linkedin' | 'github';
+
+export interface WritingStyleSample {
+    id: string;
+    text: string;
+    platform: WritingStylePlatform;
+    /** Pasted in settings, or a /write draft the user inserted */
+    source: 'pasted' | 'accepted';
+    createdAt: number;
+}
+
+export interface WritingStyleProfile {
+    /** Whether style guidance is added to /write and rewrite prompts */
+    enabled: boolean;
+    /** Save /write drafts as samples when they are inserted */
+    captureAcceptedDrafts: boolean;
+    samples: WritingStyleSample[];
+    /** Style guidance per platform, summarized from samples and editable */
+    guidance: Record<WritingStylePlatform, string>;
+}
+
+/**
+ * Platforms with their own guidance. Pages that match none use 'general'.
+ * `platform` is the name reported by the /write platform detector.
+ */
+export const WRITING_STYLE_PLATFORMS: Array<{
+    id: WritingStylePlatform;
+    label: string;
+    platform?: string;
+    domainPattern?: RegExp;
+}> = [
+    { id: 'general', label: 'General' },
+    { id: 'gmail', label: 'Gmail', platform: 'Gmail', domainPattern: /(^|\.)mail\.google\.com$/ },
+    { id: 'slack', label: 'Slack', platform: 'Slack', domainPattern: /(^|\.)slack\.com$/ },
+    { id: 'linkedin', label: 'LinkedIn', platform: 'LinkedIn', domainPattern: /(^|\.)linkedin\.com$/ },
+    { id: 'github', label: 'GitHub', platform: 'GitHub', domainPattern: /(^|\.)github\.com$/ },
+];
+
+/** Samples kept per platform; the oldest accepted drafts are dropped first */
+export const MAX_STYLE_SAMPLES_PER_PLATFORM = 20;
+export const MAX_STYLE_SAMPLE_LENGTH = 4000;
+const MIN_STYLE_SAMPLE_LENGTH = 40;
+
+export const DEFAULT_WRITING_STYLE_PROFILE: WritingStyleProfile = {
+    enabled: true,
+    captureAcceptedDrafts: false,
+    samples: [],
+    guidance: {
+        general: '',
+        gmail: '',
+        slack: '',
+        linkedin: '',
+        github: '',
+    },
+};
+
+/**
+ * Get the writing style profile from storage
+ */
+export async function getWritingStyleProfile(): Promise<WritingStyleProfile> {
+    try {
+        const result = await chrome.storage.local.get(WRITING_STYLE_STORAGE_KEY);
+        const stored: Partial<WritingStyleProfile> = result[WRITING_STYLE_STORAGE_KEY] || {};
+        return {
+            ...DEFAULT_WRITING_STYLE_PROFILE,
+            ...stored,
+            guidance: { ...DEFAULT_WRITING_STYLE_PROFILE.guidance, ...(stored.guidance || {}) },
+        };
+    } catch (error) {
+        log.error('Failed to get profile:', error);
+        return DEFAULT_WRITING_STYLE_PROFILE;
+    }
+}
+
+/**
+ * Save the writing style profile to storage
+ */
+export async function saveWritingStyleProfile(profile: WritingStyleProfile): Promise<void> {
+    try {
+        await chrome.storage.local.set({ [WRITING_STYLE_STORAGE_KEY]: profile });
+        log.info('Profile saved');
+    } catch (error) {
+        log.error('Failed to save profile:', error);
+        throw error;
+    }
+}
+
+/**
+ * Update a specific writing style setting
+ */
+export async function updateWritingStyleSetting<K extends keyof WritingStyleProfile>(
+    key: K,
+    value: WritingStyleProfile[K]
+): Promise<WritingStyleProfile> {
+    const current = await getWritingStyleProfile();
+    const updated = { ...current, [key]: value };
+    await saveWritingStyleProfile(updated);
+    return updated;
+}
+
+/**
+ * Map a detected platform name or page domain to a style platform
+ */
+export function resolveStylePlatform(context?: { platform?: string; domain?: string }): WritingStylePlatform {
+    const match = WRITING_STYLE_PLATFORMS.find(entry =>
+        (context?.platform && entry.platform === context.platform) ||
+        (context?.domain && entry.domainPattern?.test(context.domain))
+    );
+    return match?.id ?? 'general';
+}
+
+/**
+ * Add a sample, trimming the platform's samples to the limit.
+ * Returns the updated profile, or null when the text is too short to learn from.
+ */
+export async function addWritingStyleSample(
+    sample: Pick<WritingStyleSample, 'text' | 'platform' | 'source'>
+): Promise<WritingStyleProfile | null> {
+    const text = sample.text.trim().slice(0, MAX_STYLE_SAMPLE_LENGTH);
+    if (text.length < MIN_STYLE_SAMPLE_LENGTH) return null;
+
+    const profile = await getWritingStyleProfile();
+    if (profile.samples.some(existing => existing.platform === sample.platform && existing.text === text)) {
+        return profile;
+    }
+
+    let samples = [...profile.samples, {
+        id: crypto.randomUUID(),
+        text,
+        platform: sample.platform,
+        source: sample.source,
+        createdAt: Date.now(),
+    }];
+
+    const forPlatform = samples.filter(existing => existing.platform === sample.platform);
+    if (forPlatform.length > MAX_STYLE_SAMPLES_PER_PLATFORM) {
+        // Pasted samples were chosen deliberately, so drop accepted drafts first
+        const oldest = [...forPlatform].sort((a, b) =>
+            (a.source === b.source ? 0 : a.source === 'accepted' ? -1 : 1) || a.createdAt - b.createdAt
+        )[0];
+        samples = samples.filter(existing => existing.id !== oldest?.id);
+    }
+
+    const updated = { ...profile, samples };
+    await saveWritingStyleProfile(updated);
+    return updated;
+}
+
+/**
+ * Style guidance to add to a prompt for this page, or null when there is none.
+ * Platform guidance is combined with the general guidance.
+ */
+export async function getStyleGuidance(context?: { platform?: string; domain?: string }): Promise<string | null> {
+    const profile = await getWritingStyleProfile();
+    if (!profile.enabled) return null;
+
+    const platform = resolveStylePlatform(context);
+    const parts = [
+        profile.guidance.general.trim(),
+        platform !== 'general' ? profile.guidance[platform].trim() : '',
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join('\n\n') : null;
+}
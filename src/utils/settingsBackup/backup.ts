@@ -0,0 +1,257 @@
+/**
+ * Settings Backup
+ * Export every registered setting to a signed JSON file and restore it,
+ * migrating older files and validating each value first
+ */
+import { createLogger } from '~logger';
+import {
+    applySnapshot,
+    collectSettings,
+    findSettingsEntryForKey,
+    restoreSnapshotSecrets,
+    SETTINGS_PROFILES_STORAGE_KEY,
+    validateSnapshot,
+    type SettingsEntryId,
+    type SettingsSnapshot,
+} from './registry';
+import { signBackup, verifyBackup, type BackupSignature } from './signing';
+
+const log = createLogger('SettingsBackup', 'STORAGE');
+
+export const SETTINGS_BACKUP_FORMAT = 'chrome-ai-settings';
+export const SETTINGS_BACKUP_VERSION = 1;
+
+/** Fields covered by the signature */
+interface SettingsBackupContent {
+    format: typeof SETTINGS_BACKUP_FORMAT;
+    version: number;
+    exportedAt: number;
+    includesSecrets: boolean;
+    data: SettingsSnapshot;
+}
+
+/** Shape of an exported settings file */
+export interface SettingsBackupFile extends SettingsBackupContent {
+    signature?: BackupSignature;
+}
+
+/** A parsed and validated backup, ready to restore */
+export interface SettingsBackupPreview {
+    snapshot: SettingsSnapshot;
+    entryIds: SettingsEntryId[];
+    exportedAt: number | null;
+    includesSecrets: boolean;
+    /**
+     * Whether this browser made the file. Anyone can re-sign or strip a signature,
+     * so 'other-browser' and 'unsigned' files are equally untrusted.
+     */
+    signedBy: 'this-browser' | 'other-browser' | 'unsigned';
+    /** Values that were skipped because they were unknown or invalid */
+    warnings: string[];
+}
+
+type BackupMigration = (file: Record<string, unknown>) => Record<string, unknown>;
+
+/** Legacy key of the Ask AI button's per-domain hide list, now site rules */
+const LEGACY_HIDDEN_DOMAINS_KEY = 'askAiButton.hiddenDomains';
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const BACKUP_MIGRATIONS: Record<number, BackupMigration> = {
+    // Version 0: a raw chrome.storage.local dump, keyed by storage key
+    0: (dump) => {
+        const data: Record<string, Record<string, unknown>> = {};
+        for (const [key, value] of Object.entries(dump)) {
+            const entry = findSettingsEntryForKey(key);
+            if (entry && entry.source === 'local') {
+                data[entry.id] = { ...(data[entry.id] ?? {}), [key]: value };
+            }
+        }
+
+        const hiddenDomains = dump[LEGACY_HIDDEN_DOMAINS_KEY];
+        if (Array.isArray(hiddenDomains) && hiddenDomains.length > 0) {
+            const features = data.features ?? {};
+            const siteRules = (features.siteRules ?? {}) as { rules?: unknown[] };
+            data.features = {
+                ...features,
+                siteRules: {
+                    ...siteRules,
+                    rules: [
+                        ...(siteRules.rules ?? []),
+                        ...hiddenDomains
+                            .filter((domain): domain is string => typeof domain === 'string')
+                            .map(domain => ({
+                                id: crypto.randomUUID(),
+                                pattern: domain.toLowerCase().replace(/^www\./, ''),
+                                action: 'block',
+                                features: ['askAiButton'],
+                                createdAt: Date.now(),
+                            })),
+                    ],
+                },
+            };
+        }
+
+        return {
+            format: SETTINGS_BACKUP_FORMAT,
+            version: 1,
+            exportedAt: null,
+            includesSecrets: true,
+            data,
+        };
+    },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function migrateBackup(file: Record<string, unknown>): Record<string, unknown> {
+    let migrated = file;
+    let version = file.format === SETTINGS_BACKUP_FORMAT && typeof file.version === 'number' ? file.version : 0;
+
+    if (version > SETTINGS_BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of the extension');
+    }
+
+    while (version < SETTINGS_BACKUP_VERSION) {
+        const migration = BACKUP_MIGRATIONS[version];
+        if (!migration) {
+            throw new Error(`Backups from version ${version} can't be imported`);
+        }
+        migrated = migration(migrated);
+        version++;
+    }
+    return migrated;
+}
+
+/**
+ * Serialize all settings for download
+ *
+ * @param options.includeSecrets - Include API keys, private keys and MCP header values
+ */
+export async function createSettingsBackup(options: { includeSecrets: boolean }): Promise<string> {
+    const content: SettingsBackupContent = {
+        format: SETTINGS_BACKUP_FORMAT,
+        version: SETTINGS_BACKUP_VERSION,
+        exportedAt: Date.now(),
+        includesSecrets: options.includeSecrets,
+        data: await collectSettings({ includeSecrets: options.includeSecrets }),
+    };
+
+    const file: SettingsBackupFile = { ...content, signature: await signBackup(content) };
+    log.info('Settings backup created', { includesSecrets: options.includeSecrets });
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse, verify, migrate and validate a backup file
+ *
+ * @throws Error when the file is unreadable, from a newer version, or was changed after signing
+ */
+export async function parseSettingsBackup(json: string): Promise<SettingsBackupPreview> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+    if (!isRecord(parsed)) {
+        throw new Error('Expected a settings backup');
+    }
+
+    let signedBy: SettingsBackupPreview['signedBy'] = 'unsigned';
+    if (parsed.format === SETTINGS_BACKUP_FORMAT && isRecord(parsed.signature)) {
+        const { signature, ...content } = parsed;
+        const result = await verifyBackup(content, signature as unknown as BackupSignature);
+        if (!result.valid) {
+            throw new Error('The backup was changed after it was exported');
+        }
+        signedBy = result.fromThisBrowser ? 'this-browser' : 'other-browser';
+    }
+
+    const migrated = migrateBackup(parsed);
+    const { snapshot, errors } = validateSnapshot(migrated.data);
+    const entryIds = (Object.keys(snapshot) as SettingsEntryId[])
+        .filter(id => Object.keys(snapshot[id] ?? {}).length > 0);
+    if (entryIds.length === 0) {
+        throw new Error(errors[0] ?? 'The backup contains no settings');
+    }
+
+    return {
+        snapshot,
+        entryIds,
+        exportedAt: typeof migrated.exportedAt === 'number' ? migrated.exportedAt : null,
+        includesSecrets: migrated.includesSecrets === true,
+        signedBy,
+        warnings: errors,
+    };
+}
+
+/** Settings that run code, automations or connections without asking, by entry and storage key */
+const AUTOMATION_SETTINGS: Array<{ entryId: SettingsEntryId; key: string; label: string }> = [
+    { entryId: 'workflows', key: 'customWorkflows', label: 'custom workflows' },
+    { entryId: 'workflows', key: 'scheduledTasks', label: 'scheduled tasks' },
+    { entryId: 'workflows', key: 'browserMacros', label: 'macros' },
+    { entryId: 'mcp', key: 'customMcpServers', label: 'MCP servers' },
+];
+
+function hasItems(value: unknown): boolean {
+    return Array.isArray(value) && value.length > 0;
+}
+
+/**
+ * Automation settings in the chosen sections of a file this browser didn't make.
+ * These need the user's explicit confirmation before they are restored.
+ *
+ * @returns Labels of the automation settings, empty when no confirmation is needed
+ */
+export function getUntrustedAutomationSettings(
+    preview: SettingsBackupPreview,
+    entryIds: SettingsEntryId[] = preview.entryIds
+): string[] {
+    if (preview.signedBy === 'this-browser') return [];
+
+    const profiles = entryIds.includes('profiles')
+        ? ((preview.snapshot.profiles?.[SETTINGS_PROFILES_STORAGE_KEY] as { profiles?: Array<{ snapshot?: SettingsSnapshot }> } | undefined)?.profiles ?? [])
+        : [];
+    return AUTOMATION_SETTINGS
+        .filter(({ entryId, key }) =>
+            (entryIds.includes(entryId) && hasItems(preview.snapshot[entryId]?.[key])) ||
+            profiles.some(profile => hasItems(profile.snapshot?.[entryId]?.[key])))
+        .map(({ label }) => label);
+}
+
+/**
+ * Replace the chosen sections with the backup's values.
+ * Secrets missing from a backup made without them keep their current values.
+ *
+ * @param options.confirmedAutomation - The user confirmed restoring automation settings from an untrusted file
+ * @returns Ids of the restored sections
+ * @throws Error when automation settings from an untrusted file weren't confirmed
+ */
+export async function restoreSettingsBackup(
+    preview: SettingsBackupPreview,
+    entryIds: SettingsEntryId[] = preview.entryIds,
+    options: { confirmedAutomation?: boolean } = {}
+): Promise<SettingsEntryId[]> {
+    const automation = getUntrustedAutomationSettings(preview, entryIds);
+    if (automation.length > 0 && !options.confirmedAutomation) {
+        throw new Error(`Confirm restoring ${automation.join(', ')} from a file this browser didn't make`);
+    }
+
+    const selected: SettingsSnapshot = {};
+    for (const id of entryIds) {
+        const values = preview.snapshot[id];
+        if (values) selected[id] = values;
+    }
+
+    const snapshot = preview.includesSecrets
+        ? selected
+        : restoreSnapshotSecrets(selected, await collectSettings({ entryIds, includeSecrets: true }));
+
+    const restored = await applySnapshot(snapshot, { replace: true, keepSecrets: !preview.includesSecrets });
+    log.info('Settings backup restored', { entries: restored, signedBy: preview.signedBy });
+    return restored;
+}
@@ -0,0 +1,11 @@
+/**
+ * Settings Backup Utilities
+ * Settings registry, signed backup and restore, and switchable profiles.
+ * Kept apart from '@/utils/settings' because it reads the IndexedDB settings table,
+ * which content scripts don't need.
+ */
+
+export * from './registry';
+export * from './signing';
+export * from './backup';
+export * from './profiles';
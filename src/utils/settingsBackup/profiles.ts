@@ -0,0 +1,176 @@
+/**
+ * Settings Profiles
+ * Named sets of provider, tools, MCP servers and feature settings (e.g. "Work" and
+ * "Personal") that are switched together
+ */
+import { createLogger } from '~logger';
+import {
+    applySnapshot,
+    collectSettings,
+    PROFILE_SETTINGS_ENTRY_IDS,
+    SETTINGS_PROFILES_STORAGE_KEY,
+    type SettingsSnapshot,
+} from './registry';
+
+const log = createLogger('SettingsProfiles', 'STORAGE');
+
+export const MAX_SETTINGS_PROFILE_NAME_LENGTH = 32;
+
+export interface SettingsProfile {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Profile-scoped settings, including secrets */
+    snapshot: SettingsSnapshot;
+}
+
+export interface SettingsProfilesState {
+    /** Profile whose settings are currently applied; changes are saved back into it on switch */
+    activeProfileId: string | null;
+    profiles: SettingsProfile[];
+}
+
+export const DEFAULT_SETTINGS_PROFILES_STATE: SettingsProfilesState = {
+    activeProfileId: null,
+    profiles: [],
+};
+
+/**
+ * Get profiles from storage
+ */
+export async function getSettingsProfiles(): Promise<SettingsProfilesState> {
+    try {
+        const result = await chrome.storage.local.get(SETTINGS_PROFILES_STORAGE_KEY);
+        return { ...DEFAULT_SETTINGS_PROFILES_STATE, ...(result[SETTINGS_PROFILES_STORAGE_KEY] || {}) };
+    } catch (error) {
+        log.error('Failed to get profiles:', error);
+        return DEFAULT_SETTINGS_PROFILES_STATE;
+    }
+}
+
+/**
+ * Save profiles to storage
+ */
+export async function saveSettingsProfiles(state: SettingsProfilesState): Promise<void> {
+    try {
+        await chrome.storage.local.set({ [SETTINGS_PROFILES_STORAGE_KEY]: state });
+        log.info('Profiles saved');
+    } catch (error) {
+        log.error('Failed to save profiles:', error);
+        throw error;
+    }
+}
+
+function validateProfileName(state: SettingsProfilesState, name: string, id?: string): string {
+    const trimmed = name.trim().slice(0, MAX_SETTINGS_PROFILE_NAME_LENGTH);
+    if (!trimmed) {
+        throw new Error('Give the profile a name');
+    }
+    if (state.profiles.some(profile => profile.id !== id && profile.name.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+    return trimmed;
+}
+
+function captureProfileSettings(): Promise<SettingsSnapshot> {
+    return collectSettings({ entryIds: PROFILE_SETTINGS_ENTRY_IDS, includeSecrets: true });
+}
+
+/**
+ * Save the current settings as a new profile and make it active
+ */
+export async function createSettingsProfile(name: string): Promise<SettingsProfilesState> {
+    const state = await getSettingsProfiles();
+    const now = Date.now();
+    const profile: SettingsProfile = {
+        id: crypto.randomUUID(),
+        name: validateProfileName(state, name),
+        createdAt: now,
+        updatedAt: now,
+        snapshot: await captureProfileSettings(),
+    };
+
+    const updated = { activeProfileId: profile.id, profiles: [...state.profiles, profile] };
+    await saveSettingsProfiles(updated);
+    log.info('Profile created', { id: profile.id });
+    return updated;
+}
+
+/**
+ * Rename a profile
+ */
+export async function renameSettingsProfile(id: string, name: string): Promise<SettingsProfilesState> {
+    const state = await getSettingsProfiles();
+    const trimmed = validateProfileName(state, name, id);
+    const updated = {
+        ...state,
+        profiles: state.profiles.map(profile => profile.id === id
+            ? { ...profile, name: trimmed, updatedAt: Date.now() }
+            : profile),
+    };
+    await saveSettingsProfiles(updated);
+    return updated;
+}
+
+/**
+ * Delete a profile. The current settings stay as they are.
+ */
+export async function deleteSettingsProfile(id: string): Promise<SettingsProfilesState> {
+    const state = await getSettingsProfiles();
+    const updated = {
+        activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+        profiles: state.profiles.filter(profile => profile.id !== id),
+    };
+    await saveSettingsProfiles(updated);
+    log.info('Profile deleted', { id });
+    return updated;
+}
+
+/**
+ * Overwrite a profile with the current settings
+ */
+export async function updateSettingsProfileFromCurrent(id: string): Promise<SettingsProfilesState> {
+    const state = await getSettingsProfiles();
+    const snapshot = await captureProfileSettings();
+    const updated = {
+        ...state,
+        profiles: state.profiles.map(profile => profile.id === id
+            ? { ...profile, snapshot, updatedAt: Date.now() }
+            : profile),
+    };
+    await saveSettingsProfiles(updated);
+    return updated;
+}
+
+/**
+ * Switch to a profile.
+ * The active profile first keeps any changes made since it was applied, then the
+ * target's provider, tools, MCP servers and feature settings replace the current ones.
+ */
+export async function switchSettingsProfile(id: string): Promise<SettingsProfilesState> {
+    const state = await getSettingsProfiles();
+    const target = state.profiles.find(profile => profile.id === id);
+    if (!target) {
+        throw new Error('Profile not found');
+    }
+    if (state.activeProfileId === id) return state;
+
+    const current = await captureProfileSettings();
+    const profiles = state.profiles.map(profile => profile.id === state.activeProfileId
+        ? { ...profile, snapshot: current, updatedAt: Date.now() }
+        : profile);
+
+    // Sections added to the registry after the profile was saved are left as they are
+    const snapshot: SettingsSnapshot = Object.fromEntries(
+        PROFILE_SETTINGS_ENTRY_IDS
+            .filter(entryId => target.snapshot[entryId])
+            .map(entryId => [entryId, target.snapshot[entryId]])
+    );
+    await applySnapshot(snapshot, { replace: true });
+
+    const updated = { activeProfileId: id, profiles };
+    await saveSettingsProfiles(updated);
+    log.info('Switched profile', { id });
+    return updated;
+}
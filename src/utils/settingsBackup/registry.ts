@@ -0,0 +1,670 @@
+/**
+ * Settings Registry
+ * One list of every stored setting: where it lives, which parts are secret,
+ * whether it belongs to a profile, and how to validate it on import
+ */
+import { getAllSettings, updateSettings, db, type Settings } from '../../db';
+import {
+    getNextRunAt,
+    getScheduledTasks,
+    isValidCron,
+    syncScheduledTaskAlarm,
+    SCHEDULED_TASK_ALARM_PREFIX,
+    SCHEDULED_TASKS_STORAGE_KEY,
+} from '@/workflows/scheduled';
+import { validatePipelineDefinition } from '@/workflows/pipeline/validation';
+import { createLogger } from '~logger';
+
+const log = createLogger('SettingsRegistry', 'STORAGE');
+
+export const SETTINGS_PROFILES_STORAGE_KEY = 'settingsProfiles';
+
+export type SettingsEntryId =
+    | 'provider'
+    | 'tools'
+    | 'mcp'
+    | 'features'
+    | 'writingStyle'
+    | 'search'
+    | 'workflows'
+    | 'memory'
+    | 'logging'
+    | 'app'
+    | 'profiles';
+
+/** Stored values of one entry, keyed by storage key */
+export type SettingsEntryValues = Record<string, unknown>;
+
+/** Stored values of several entries, keyed by entry id */
+export type SettingsSnapshot = Partial<Record<SettingsEntryId, SettingsEntryValues>>;
+
+export interface SettingsEntry {
+    id: SettingsEntryId;
+    label: string;
+    description: string;
+    /** chrome.storage.local, or the settings table in IndexedDB */
+    source: 'local' | 'dexie';
+    keys: string[];
+    /** Matches keys created per item, e.g. one flag per MCP server */
+    keyPattern?: RegExp;
+    /** Switched together when changing profiles */
+    profile: boolean;
+    /** Keys whose whole value is a secret; left out of exports without secrets */
+    secretKeys?: string[];
+    /** Remove secret fields from a value before export */
+    redact?: (key: string, value: unknown) => unknown;
+    /** Put back the current secret fields into an imported value that had them removed */
+    restoreSecrets?: (key: string, imported: unknown, current: unknown) => unknown;
+    /** Return an error message for an invalid value */
+    validate: (key: string, value: unknown) => string | null;
+    /** Drop invalid parts of a valid value, reporting each */
+    normalize?: (key: string, value: unknown) => { value: unknown; errors: string[] };
+}
+
+// ============================================================================
+// Validation helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(key: string, value: unknown): string | null {
+    return isRecord(value) ? null : `${key} should be an object`;
+}
+
+function expectArray(key: string, value: unknown): string | null {
+    return Array.isArray(value) ? null : `${key} should be a list`;
+}
+
+function expectBoolean(key: string, value: unknown): string | null {
+    return typeof value === 'boolean' ? null : `${key} should be true or false`;
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Check every item of a list; the first invalid item is reported
+ */
+function expectItems(
+    key: string,
+    value: unknown,
+    validateItem: (item: Record<string, unknown>) => string | null
+): string | null {
+    const error = expectArray(key, value);
+    if (error) return error;
+    for (const [index, item] of (value as unknown[]).entries()) {
+        const itemError = isRecord(item) ? validateItem(item) : 'is not an object';
+        if (itemError) return `${key} item ${index + 1} ${itemError}`;
+    }
+    return null;
+}
+
+/** Fields evaluateSiteRules reads; missing top-level fields fall back to defaults */
+function validateSiteRules(key: string, value: unknown): string | null {
+    const error = expectObject(key, value);
+    if (error) return error;
+    const settings = value as Record<string, unknown>;
+    for (const field of ['allowListOnly', 'blockedCategories']) {
+        if (settings[field] !== undefined && !isStringList(settings[field])) return `${key}.${field} should be a list of names`;
+    }
+    if (settings.rules === undefined) return null;
+    return expectItems(`${key}.rules`, settings.rules, rule => {
+        if (typeof rule.id !== 'string' || typeof rule.pattern !== 'string') return 'has no id or pattern';
+        if (rule.action !== 'allow' && rule.action !== 'block') return 'should allow or block';
+        return isStringList(rule.features) ? null : 'has no feature list';
+    });
+}
+
+/** Fields the scheduler and alarm sync read */
+function validateScheduledTaskItem(task: Record<string, unknown>): string | null {
+    if (typeof task.id !== 'string' || typeof task.name !== 'string' || typeof task.prompt !== 'string') {
+        return 'has no id, name or prompt';
+    }
+    const schedule = task.schedule;
+    const validSchedule = isRecord(schedule) && (
+        (schedule.kind === 'cron' && typeof schedule.expression === 'string' && isValidCron(schedule.expression)) ||
+        (schedule.kind === 'once' && typeof schedule.at === 'number')
+    );
+    if (!validSchedule) return 'has an invalid schedule';
+    if (!isStringList(task.allowedTools)) return 'has no tool list';
+    if (typeof task.enabled !== 'boolean') return 'has no enabled flag';
+    return task.nextRunAt === null || typeof task.nextRunAt === 'number' ? null : 'has an invalid next run time';
+}
+
+/** Fields the workflow registry and runner read */
+function validateCustomWorkflowItem(workflow: Record<string, unknown>): string | null {
+    if (typeof workflow.id !== 'string' || typeof workflow.name !== 'string') return 'has no id or name';
+    if (typeof workflow.systemPrompt !== 'string') return 'has no system prompt';
+    if (!isStringList(workflow.allowedTools)) return 'has no tool list';
+    if (workflow.stepCount !== undefined && typeof workflow.stepCount !== 'number') return 'has an invalid step count';
+    if (workflow.pipeline === undefined) return null;
+    const pipelineError = validatePipelineDefinition(workflow.pipeline);
+    return pipelineError ? `has an invalid pipeline: ${pipelineError}` : null;
+}
+
+function validateWorkflowsEntry(key: string, value: unknown): string | null {
+    switch (key) {
+        case 'siteProfiles':
+            return expectObject(key, value);
+        case 'scheduledTasks':
+            return expectItems(key, value, validateScheduledTaskItem);
+        case 'customWorkflows':
+            return expectItems(key, value, validateCustomWorkflowItem);
+        default:
+            return expectArray(key, value);
+    }
+}
+
+/**
+ * Profiles are applied as they are on switch, so each profile's snapshot gets
+ * the same checks as an imported backup. Profiles that fail them are dropped.
+ */
+function normalizeProfiles(_key: string, value: unknown): { value: unknown; errors: string[] } {
+    const state = value as Record<string, unknown>;
+    const errors: string[] = [];
+    const profiles = (state.profiles as unknown[]).filter((profile): profile is Record<string, unknown> => {
+        if (!isRecord(profile) || typeof profile.id !== 'string' || typeof profile.name !== 'string') {
+            errors.push('Skipped a profile without an id or name');
+            return false;
+        }
+        const result = validateSnapshot(profile.snapshot);
+        const unsupported = Object.keys(result.snapshot)
+            .filter(id => !PROFILE_SETTINGS_ENTRY_IDS.includes(id as SettingsEntryId));
+        const problem = result.errors[0] ?? (unsupported.length > 0 ? `includes sections profiles don't hold (${unsupported.join(', ')})` : null);
+        if (problem) {
+            errors.push(`Skipped profile "${profile.name}": ${problem}`);
+            return false;
+        }
+        return true;
+    });
+
+    const activeProfileId = profiles.some(profile => profile.id === state.activeProfileId) ? state.activeProfileId : null;
+    return { value: { ...state, activeProfileId, profiles }, errors };
+}
+
+// ============================================================================
+// Secret helpers
+// ============================================================================
+
+function getPath(value: unknown, path: string[]): unknown {
+    return path.reduce<unknown>((current, part) => isRecord(current) ? current[part] : undefined, value);
+}
+
+function setPath(value: Record<string, unknown>, path: string[], next: unknown): Record<string, unknown> {
+    const [head, ...rest] = path;
+    if (head === undefined) return value;
+    if (rest.length === 0) {
+        const copy = { ...value };
+        if (next === undefined) delete copy[head];
+        else copy[head] = next;
+        return copy;
+    }
+    const child = value[head];
+    if (!isRecord(child)) return value;
+    return { ...value, [head]: setPath(child, rest, next) };
+}
+
+/**
+ * Redact and restore handlers for secret fields given as dot paths per storage key
+ */
+function secretFields(fields: Record<string, string[]>): Pick<SettingsEntry, 'redact' | 'restoreSecrets'> {
+    return {
+        redact: (key, value) => {
+            if (!isRecord(value)) return value;
+            return (fields[key] ?? []).reduce(
+                (redacted, path) => setPath(redacted, path.split('.'), undefined),
+                value
+            );
+        },
+        restoreSecrets: (key, imported, current) => {
+            if (!isRecord(imported)) return imported;
+            return (fields[key] ?? []).reduce((restored, path) => {
+                const parts = path.split('.');
+                const secret = getPath(current, parts);
+                return secret === undefined || getPath(restored, parts) !== undefined
+                    ? restored
+                    : setPath(restored, parts, secret);
+            }, imported);
+        },
+    };
+}
+
+interface StoredMcpHeader {
+    key: string;
+    value: string;
+}
+
+/** Custom MCP server headers often carry API tokens, so their values are secret */
+const mcpHeaderSecrets: Pick<SettingsEntry, 'redact' | 'restoreSecrets'> = {
+    redact: (key, value) => {
+        if (key !== 'customMcpServers' || !Array.isArray(value)) return value;
+        return value.map(server => isRecord(server) && Array.isArray(server.headers)
+            ? { ...server, headers: (server.headers as StoredMcpHeader[]).map(header => ({ ...header, value: '' })) }
+            : server);
+    },
+    restoreSecrets: (key, imported, current) => {
+        if (key !== 'customMcpServers' || !Array.isArray(imported)) return imported;
+        const currentServers = Array.isArray(current) ? current.filter(isRecord) : [];
+        return imported.map(server => {
+            if (!isRecord(server) || !Array.isArray(server.headers)) return server;
+            const existing = currentServers.find(candidate => candidate.id === server.id);
+            const existingHeaders = Array.isArray(existing?.headers) ? existing.headers as StoredMcpHeader[] : [];
+            return {
+                ...server,
+                headers: (server.headers as StoredMcpHeader[]).map(header => header.value
+                    ? header
+                    : { ...header, value: existingHeaders.find(candidate => candidate.key === header.key)?.value ?? '' }),
+            };
+        });
+    },
+};
+
+/** Profiles hold full snapshots, so their secrets follow the rest of the registry */
+const profileSecrets: Pick<SettingsEntry, 'redact' | 'restoreSecrets'> = {
+    redact: (_key, value) => {
+        if (!isRecord(value) || !Array.isArray(value.profiles)) return value;
+        return {
+            ...value,
+            profiles: value.profiles.map(profile => isRecord(profile) && isRecord(profile.snapshot)
+                ? { ...profile, snapshot: redactSnapshot(profile.snapshot as SettingsSnapshot) }
+                : profile),
+        };
+    },
+    restoreSecrets: (_key, imported, current) => {
+        if (!isRecord(imported) || !Array.isArray(imported.profiles)) return imported;
+        const currentProfiles = isRecord(current) && Array.isArray(current.profiles) ? current.profiles.filter(isRecord) : [];
+        return {
+            ...imported,
+            profiles: imported.profiles.map(profile => {
+                if (!isRecord(profile) || !isRecord(profile.snapshot)) return profile;
+                const existing = currentProfiles.find(candidate => candidate.id === profile.id);
+                return {
+                    ...profile,
+                    snapshot: restoreSnapshotSecrets(
+                        profile.snapshot as SettingsSnapshot,
+                        isRecord(existing?.snapshot) ? existing.snapshot as SettingsSnapshot : {}
+                    ),
+                };
+            }),
+        };
+    },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const SETTINGS_REGISTRY: SettingsEntry[] = [
+    {
+        id: 'provider',
+        label: 'AI provider',
+        description: 'Provider, model and credentials',
+        source: 'local',
+        keys: ['ai_provider_config'],
+        profile: true,
+        ...secretFields({
+            ai_provider_config: [
+                'googleApiKey',
+                'vertexCredentials.privateKey',
+                'vertexCredentials.privateKeyId',
+                'openAICompatible.apiKey',
+            ],
+        }),
+        validate: (key, value) => expectObject(key, value) ??
+            (typeof (value as Record<string, unknown>).provider === 'string' ? null : `${key} has no provider`),
+    },
+    {
+        id: 'tools',
+        label: 'Tools & chat',
+        description: 'Enabled tools, tool call limit, approvals and voice',
+        source: 'local',
+        keys: ['userSettings', 'toolApprovalSettings'],
+        profile: true,
+        ...secretFields({ userSettings: ['supermemoryApiKey'] }),
+        validate: expectObject,
+    },
+    {
+        id: 'mcp',
+        label: 'MCP servers',
+        description: 'Custom servers, which servers are on and their disabled tools',
+        source: 'local',
+        keys: ['customMcpServers', 'webmcp.tools.disabled'],
+        keyPattern: /^mcp\..+\.(enabled|tools\.disabled)$/,
+        profile: true,
+        ...mcpHeaderSecrets,
+        validate: (key, value) => key.endsWith('.enabled') ? expectBoolean(key, value) : expectArray(key, value),
+    },
+    {
+        id: 'features',
+        label: 'In-page features',
+        description: 'Rewriter, /write, /ask, summarizer, Ask AI button and site rules',
+        source: 'local',
+        keys: [
+            'rewriteSettings',
+            'writeCommandSettings',
+            'askCommandSettings',
+            'textSummarizerSettings',
+            'siteRules',
+            'askAiButton.permanentlyHidden',
+            'askAiButtonPosition',
+        ],
+        profile: true,
+        validate: (key, value) => {
+            if (key === 'askAiButton.permanentlyHidden') return expectBoolean(key, value);
+            if (key === 'siteRules') return validateSiteRules(key, value);
+            return expectObject(key, value);
+        },
+    },
+    {
+        id: 'writingStyle',
+        label: 'Writing style',
+        description: 'Style samples and guidance',
+        source: 'local',
+        keys: ['writingStyleProfile'],
+        profile: false,
+        validate: expectObject,
+    },
+    {
+        id: 'search',
+        label: 'Search & research',
+        description: 'Search providers, API keys and research defaults',
+        source: 'local',
+        keys: ['searchSettings', 'searchApiKeys', 'researchWorkflowSettings'],
+        profile: false,
+        secretKeys: ['searchApiKeys'],
+        validate: expectObject,
+    },
+    {
+        id: 'workflows',
+        label: 'Workflows & automation',
+        description: 'Custom workflows, scheduled tasks, macros and site profiles',
+        source: 'local',
+        keys: ['customWorkflows', 'scheduledTasks', 'browserMacros', 'siteProfiles'],
+        profile: false,
+        validate: validateWorkflowsEntry,
+    },
+    {
+        id: 'memory',
+        label: 'Memory & usage',
+        description: 'Memory, Supermemory and usage budget settings',
+        source: 'local',
+        keys: [
+            'memorySettings',
+            'usageSettings',
+            'supermemory:enabled',
+            'supermemory:apiKey',
+            'supermemory:autoExtraction',
+            'supermemory:autoExtractionMinMessages',
+            'supermemory:contentMemoryEnabled',
+            'supermemory:contentMemorySources',
+        ],
+        profile: false,
+        secretKeys: ['supermemory:apiKey'],
+        validate: (key, value) => {
+            if (key === 'supermemory:apiKey') return typeof value === 'string' ? null : `${key} should be text`;
+            if (key === 'supermemory:autoExtractionMinMessages') return typeof value === 'number' ? null : `${key} should be a number`;
+            if (key.startsWith('supermemory:')) return typeof value === 'boolean' || isRecord(value) ? null : `${key} is invalid`;
+            return expectObject(key, value);
+        },
+    },
+    {
+        id: 'logging',
+        label: 'Logging',
+        description: 'Log levels and categories',
+        source: 'local',
+        keys: ['logger_config'],
+        profile: false,
+        validate: expectObject,
+    },
+    {
+        id: 'app',
+        label: 'App preferences',
+        description: 'Theme, generation defaults and pause state',
+        source: 'dexie',
+        keys: ['theme', 'voiceEnabled', 'autoSave', 'maxTokens', 'temperature', 'paused'],
+        profile: false,
+        validate: (key, value) => {
+            if (key === 'theme') return ['light', 'dark', 'system'].includes(value as string) ? null : `${key} is invalid`;
+            if (key === 'maxTokens' || key === 'temperature') return typeof value === 'number' ? null : `${key} should be a number`;
+            return expectBoolean(key, value);
+        },
+    },
+    {
+        id: 'profiles',
+        label: 'Settings profiles',
+        description: 'Saved profiles and which one is active',
+        source: 'local',
+        keys: [SETTINGS_PROFILES_STORAGE_KEY],
+        profile: false,
+        ...profileSecrets,
+        validate: (key, value) => expectObject(key, value) ??
+            (Array.isArray((value as Record<string, unknown>).profiles) ? null : `${key} has no profile list`),
+        normalize: normalizeProfiles,
+    },
+];
+
+export const PROFILE_SETTINGS_ENTRY_IDS: SettingsEntryId[] = SETTINGS_REGISTRY
+    .filter(entry => entry.profile)
+    .map(entry => entry.id);
+
+export function getSettingsEntry(id: string): SettingsEntry | undefined {
+    return SETTINGS_REGISTRY.find(entry => entry.id === id);
+}
+
+/**
+ * Find the entry that owns a storage key
+ */
+export function findSettingsEntryForKey(key: string): SettingsEntry | undefined {
+    return SETTINGS_REGISTRY.find(entry => entry.keys.includes(key) || entry.keyPattern?.test(key));
+}
+
+// ============================================================================
+// Reading and writing
+// ============================================================================
+
+async function readEntry(entry: SettingsEntry): Promise<SettingsEntryValues> {
+    if (entry.source === 'dexie') {
+        const all: Record<string, unknown> = { ...(await getAllSettings()) };
+        return Object.fromEntries(entry.keys.filter(key => all[key] !== undefined).map(key => [key, all[key]]));
+    }
+
+    const stored = entry.keyPattern
+        ? await chrome.storage.local.get(null)
+        : await chrome.storage.local.get(entry.keys);
+    return Object.fromEntries(Object.entries(stored).filter(([key, value]) =>
+        value !== undefined && (entry.keys.includes(key) || entry.keyPattern?.test(key))
+    ));
+}
+
+/**
+ * Read the current values of the given entries (all entries by default)
+ */
+export async function collectSettings(
+    options: { entryIds?: SettingsEntryId[]; includeSecrets?: boolean } = {}
+): Promise<SettingsSnapshot> {
+    const entries = options.entryIds
+        ? SETTINGS_REGISTRY.filter(entry => options.entryIds!.includes(entry.id))
+        : SETTINGS_REGISTRY;
+
+    const snapshot: SettingsSnapshot = {};
+    for (const entry of entries) {
+        snapshot[entry.id] = await readEntry(entry);
+    }
+    return options.includeSecrets ? snapshot : redactSnapshot(snapshot);
+}
+
+/**
+ * Remove secret keys and fields from a snapshot
+ */
+export function redactSnapshot(snapshot: SettingsSnapshot): SettingsSnapshot {
+    const redacted: SettingsSnapshot = {};
+    for (const [id, values] of Object.entries(snapshot) as Array<[SettingsEntryId, SettingsEntryValues]>) {
+        const entry = getSettingsEntry(id);
+        if (!entry) continue;
+        redacted[id] = Object.fromEntries(Object.entries(values)
+            .filter(([key]) => !entry.secretKeys?.includes(key))
+            .map(([key, value]) => [key, entry.redact ? entry.redact(key, value) : value]));
+    }
+    return redacted;
+}
+
+/**
+ * Fill secrets left out of an imported snapshot from another snapshot, usually the current settings
+ */
+export function restoreSnapshotSecrets(imported: SettingsSnapshot, current: SettingsSnapshot): SettingsSnapshot {
+    const restored: SettingsSnapshot = {};
+    for (const [id, values] of Object.entries(imported) as Array<[SettingsEntryId, SettingsEntryValues]>) {
+        const entry = getSettingsEntry(id);
+        if (!entry) continue;
+        const currentValues = current[id] ?? {};
+        const withSecrets: SettingsEntryValues = Object.fromEntries(Object.entries(values).map(([key, value]) => [
+            key,
+            entry.restoreSecrets ? entry.restoreSecrets(key, value, currentValues[key]) : value,
+        ]));
+        for (const key of entry.secretKeys ?? []) {
+            if (withSecrets[key] === undefined && currentValues[key] !== undefined) {
+                withSecrets[key] = currentValues[key];
+            }
+        }
+        restored[id] = withSecrets;
+    }
+    return restored;
+}
+
+/**
+ * Check a snapshot against the registry.
+ * Unknown entries and keys are dropped; invalid values are dropped and reported.
+ */
+export function validateSnapshot(snapshot: unknown): { snapshot: SettingsSnapshot; errors: string[] } {
+    const errors: string[] = [];
+    const valid: SettingsSnapshot = {};
+    if (!isRecord(snapshot)) {
+        return { snapshot: valid, errors: ['Settings data should be an object'] };
+    }
+
+    for (const [id, values] of Object.entries(snapshot)) {
+        const entry = getSettingsEntry(id);
+        if (!entry) {
+            errors.push(`Skipped unknown section "${id}"`);
+            continue;
+        }
+        if (!isRecord(values)) {
+            errors.push(`${entry.label}: expected an object`);
+            continue;
+        }
+
+        const entryValues: SettingsEntryValues = {};
+        for (const [key, value] of Object.entries(values)) {
+            if (!entry.keys.includes(key) && !entry.keyPattern?.test(key)) {
+                errors.push(`${entry.label}: skipped unknown setting "${key}"`);
+                continue;
+            }
+            const error = entry.validate(key, value);
+            if (error) {
+                errors.push(`${entry.label}: ${error}`);
+                continue;
+            }
+            if (entry.normalize) {
+                const normalized = entry.normalize(key, value);
+                errors.push(...normalized.errors.map(message => `${entry.label}: ${message}`));
+                entryValues[key] = normalized.value;
+                continue;
+            }
+            entryValues[key] = value;
+        }
+        valid[entry.id] = entryValues;
+    }
+    return { snapshot: valid, errors };
+}
+
+/**
+ * Write a snapshot to storage.
+ * With `replace`, keys an entry owns that are missing from the snapshot are removed
+ * so they fall back to defaults; secret keys are kept when `keepSecrets` is set.
+ */
+export async function applySnapshot(
+    snapshot: SettingsSnapshot,
+    options: { replace: boolean; keepSecrets?: boolean }
+): Promise<SettingsEntryId[]> {
+    const applied: SettingsEntryId[] = [];
+
+    for (const [id, values] of Object.entries(snapshot) as Array<[SettingsEntryId, SettingsEntryValues]>) {
+        const entry = getSettingsEntry(id);
+        if (!entry) continue;
+
+        const current = await readEntry(entry);
+        const stale = options.replace
+            ? Object.keys(current).filter(key =>
+                !(key in values) && !(options.keepSecrets && entry.secretKeys?.includes(key)))
+            : [];
+
+        if (entry.source === 'dexie') {
+            await updateSettings(values as Partial<Settings>);
+            if (stale.length > 0) await db.settings.bulkDelete(stale);
+        } else {
+            await chrome.storage.local.set(values);
+            if (stale.length > 0) await chrome.storage.local.remove(stale);
+        }
+        applied.push(entry.id);
+
+        if (entry.id === 'mcp') {
+            await syncMcpServers(current, await readEntry(entry));
+        } else if (entry.id === 'workflows') {
+            await syncScheduledTasks();
+        }
+    }
+
+    log.info('Settings applied', { entries: applied, replace: options.replace });
+    return applied;
+}
+
+// ============================================================================
+// Background sync after applying
+// ============================================================================
+
+/**
+ * Reload custom servers in the background and connect or disconnect servers whose switch changed
+ */
+async function syncMcpServers(before: SettingsEntryValues, after: SettingsEntryValues): Promise<void> {
+    try {
+        await chrome.runtime.sendMessage({ type: 'mcp/custom-servers/reload' });
+
+        const enabledKeys = new Set([...Object.keys(before), ...Object.keys(after)]
+            .filter(key => /^mcp\..+\.enabled$/.test(key)));
+        for (const key of enabledKeys) {
+            const enabled = after[key] === true;
+            if ((before[key] === true) === enabled) continue;
+            const serverId = key.slice('mcp.'.length, -'.enabled'.length);
+            await chrome.runtime.sendMessage({ type: `mcp/${serverId}/${enabled ? 'enable' : 'disable'}` });
+        }
+    } catch (error) {
+        log.warn('Failed to sync MCP servers after applying settings:', error);
+    }
+}
+
+/**
+ * Recreate scheduled task alarms for the restored tasks
+ */
+async function syncScheduledTasks(): Promise<void> {
+    const tasks = await getScheduledTasks();
+    const taskIds = new Set(tasks.map(task => task.id));
+
+    const alarms = await chrome.alarms.getAll();
+    await Promise.all(alarms
+        .filter(alarm => alarm.name.startsWith(SCHEDULED_TASK_ALARM_PREFIX) &&
+            !taskIds.has(alarm.name.slice(SCHEDULED_TASK_ALARM_PREFIX.length)))
+        .map(alarm => chrome.alarms.clear(alarm.name)));
+
+    // Restored tasks continue from now instead of catching up on runs missed since the backup
+    const now = Date.now();
+    const rescheduled = tasks.map(task => task.nextRunAt !== null && task.nextRunAt < now
+        ? { ...task, nextRunAt: getNextRunAt(task.schedule, now) }
+        : task);
+    if (rescheduled.some((task, index) => task !== tasks[index])) {
+        await chrome.storage.local.set({ [SCHEDULED_TASKS_STORAGE_KEY]: rescheduled });
+    }
+    await Promise.all(rescheduled.map(task => syncScheduledTaskAlarm(task)));
+}
@@ -0,0 +1,106 @@
+/**
+ * Backup Signing
+ * ECDSA P-256 signatures for settings backups. Each install keeps its own key pair,
+ * so an import can tell whether this browser made a file. The public key travels
+ * in the file, so anyone can edit a file and re-sign it with their own key, or
+ * strip the signature: a signature only proves a file came from this browser,
+ * never that a file from elsewhere is unmodified.
+ */
+import { createLogger } from '~logger';
+
+const log = createLogger('SettingsBackup-Signing', 'STORAGE');
+
+const SIGNING_KEY_STORAGE_KEY = 'settingsBackupSigningKey';
+
+const ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export const BACKUP_SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+export interface BackupSignature {
+    algorithm: typeof BACKUP_SIGNATURE_ALGORITHM;
+    publicKey: JsonWebKey;
+    /** Base64 signature over the canonical JSON of the signed fields */
+    value: string;
+}
+
+interface StoredSigningKey {
+    publicKey: JsonWebKey;
+    privateKey: JsonWebKey;
+}
+
+/**
+ * JSON with object keys sorted, so the same data always gives the same bytes
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+    }
+    if (typeof value === 'object' && value !== null) {
+        const entries = Object.entries(value)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<StoredSigningKey> {
+    const result = await chrome.storage.local.get(SIGNING_KEY_STORAGE_KEY);
+    const stored = result[SIGNING_KEY_STORAGE_KEY] as StoredSigningKey | undefined;
+    if (stored?.publicKey && stored.privateKey) return stored;
+
+    const pair = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify']);
+    const created: StoredSigningKey = {
+        publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+        privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+    };
+    await chrome.storage.local.set({ [SIGNING_KEY_STORAGE_KEY]: created });
+    log.info('Created backup signing key');
+    return created;
+}
+
+/**
+ * Sign data with this install's key
+ */
+export async function signBackup(data: unknown): Promise<BackupSignature> {
+    const { publicKey, privateKey } = await getSigningKey();
+    const key = await crypto.subtle.importKey('jwk', privateKey, ALGORITHM, false, ['sign']);
+    const signature = await crypto.subtle.sign(SIGN_PARAMS, key, new TextEncoder().encode(canonicalJson(data)));
+    return { algorithm: BACKUP_SIGNATURE_ALGORITHM, publicKey, value: toBase64(signature) };
+}
+
+/**
+ * Check a signature against the key embedded with it
+ *
+ * @returns Whether the signature is valid, and whether this install made it
+ */
+export async function verifyBackup(
+    data: unknown,
+    signature: BackupSignature
+): Promise<{ valid: boolean; fromThisBrowser: boolean }> {
+    try {
+        const key = await crypto.subtle.importKey('jwk', signature.publicKey, ALGORITHM, false, ['verify']);
+        const valid = await crypto.subtle.verify(
+            SIGN_PARAMS,
+            key,
+            fromBase64(signature.value),
+            new TextEncoder().encode(canonicalJson(data))
+        );
+        const { publicKey } = await getSigningKey();
+        const fromThisBrowser = publicKey.x === signature.publicKey.x && publicKey.y === signature.publicKey.y;
+        return { valid, fromThisBrowser: valid && fromThisBrowser };
+    } catch (error) {
+        log.warn('Failed to verify backup signature:', error);
+        return { valid: false, fromThisBrowser: false };
+    }
+}
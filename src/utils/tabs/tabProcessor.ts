@@ -1,4 +1,5 @@
 import { captureTabSnapshot } from './tabSnapshot';
+import { readMCPResource } from '@/ai/mcp/proxy';
 import type { TabAttachmentData } from '@/components/features/chat/components/attachments';
 import { createLogger } from '~logger';
 
@@ -23,6 +24,10 @@ export interface ProcessedTab {
 export async function processTabForMessage(
   tabData: TabAttachmentData
 ): Promise<ProcessedTab> {
+  if (tabData.mcpResource) {
+    return processMcpResourceForMessage(tabData);
+  }
+
   const tabId = parseInt(tabData.id, 10);
 
   log.info('Processing tab for message', {
@@ -44,6 +49,37 @@ export async function processTabForMessage(
   };
 }
 
+/**
+ * Read an MCP resource attachment through the background connection
+ * Resources share the tab attachment pipeline, with the URI as URL
+ */
+async function processMcpResourceForMessage(
+  tabData: TabAttachmentData
+): Promise<ProcessedTab> {
+  const { serverId, serverName } = tabData.mcpResource!;
+
+  log.info('Processing MCP resource for message', {
+    serverId,
+    uri: tabData.url
+  });
+
+  const processed: ProcessedTab = {
+    id: tabData.id,
+    title: `${tabData.title} (${serverName})`,
+    url: tabData.url,
+    content: null,
+    favicon: tabData.favIconUrl
+  };
+
+  try {
+    processed.content = await readMCPResource(serverId, tabData.url);
+  } catch (error) {
+    processed.error = error instanceof Error ? error.message : 'Failed to read resource';
+  }
+
+  return processed;
+}
+
 /**
  * Process multiple tabs in parallel
  */
@@ -0,0 +1,191 @@
+/**
+ * Custom Workflows
+ * User-defined workflows persisted in chrome.storage.local and registered
+ * alongside the built-in workflows so they appear in the slash command menu
+ */
+
+import { createLogger } from '~logger';
+import { getWorkflow, registerWorkflow, unregisterWorkflow } from './registry';
+import type { CustomWorkflowDefinition, CustomWorkflowInput, WorkflowDefinition } from './types';
+import { getPipelineToolNames, validatePipelineDefinition } from './pipeline/validation';
+
+const log = createLogger('CustomWorkflows');
+
+export const CUSTOM_WORKFLOWS_STORAGE_KEY = 'customWorkflows';
+
+export const DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT = 10;
+export const MAX_CUSTOM_WORKFLOW_STEP_COUNT = 50;
+
+/** Slash command ids must match parseWorkflowCommand's /\w+/ pattern */
+const WORKFLOW_ID_PATTERN = /^[a-z0-9_]+$/;
+
+/**
+ * Check whether a workflow was created by the user
+ */
+export function isCustomWorkflow(workflow: WorkflowDefinition): workflow is CustomWorkflowDefinition {
+    return (workflow as Partial<CustomWorkflowDefinition>).isCustom === true;
+}
+
+/**
+ * Validate a workflow before saving
+ *
+ * @param input - Workflow fields from the editor
+ * @param previousId - Current id when editing an existing workflow
+ * @returns Error message, or null when valid
+ */
+export function validateCustomWorkflow(input: CustomWorkflowInput, previousId?: string): string | null {
+    if (!input.name.trim()) return 'Name is required';
+    if (!WORKFLOW_ID_PATTERN.test(input.id)) {
+        return 'Command can only contain lowercase letters, numbers and underscores';
+    }
+    if (input.pipeline) {
+        // Pipelines declare their own tools per stage; the system prompt is an optional default
+        const pipelineError = validatePipelineDefinition(input.pipeline);
+        if (pipelineError) return `Pipeline: ${pipelineError}`;
+    } else {
+        if (!input.systemPrompt.trim()) return 'System prompt is required';
+        if (input.allowedTools.length === 0) return 'Select at least one tool';
+    }
+
+    const stepCount = input.stepCount ?? DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT;
+    if (!Number.isInteger(stepCount) || stepCount < 1 || stepCount > MAX_CUSTOM_WORKFLOW_STEP_COUNT) {
+        return `Step count must be between 1 and ${MAX_CUSTOM_WORKFLOW_STEP_COUNT}`;
+    }
+
+    const existing = getWorkflow(input.id);
+    if (existing && input.id !== previousId) {
+        return isCustomWorkflow(existing)
+            ? `You already have a workflow using /${input.id}`
+            : `/${input.id} is used by a built-in workflow`;
+    }
+    return null;
+}
+
+/**
+ * Get all custom workflows from storage
+ */
+export async function getCustomWorkflows(): Promise<CustomWorkflowDefinition[]> {
+    try {
+        const result = await chrome.storage.local.get(CUSTOM_WORKFLOWS_STORAGE_KEY);
+        return (result[CUSTOM_WORKFLOWS_STORAGE_KEY] as CustomWorkflowDefinition[] | undefined) ?? [];
+    } catch (err) {
+        log.error('Failed to load custom workflows', err);
+        return [];
+    }
+}
+
+async function persistCustomWorkflows(workflows: CustomWorkflowDefinition[]): Promise<void> {
+    await chrome.storage.local.set({ [CUSTOM_WORKFLOWS_STORAGE_KEY]: workflows });
+}
+
+/**
+ * Register all stored custom workflows
+ * Built-in workflows win on id conflicts so a stale entry can't shadow them
+ *
+ * @returns The workflows that were registered
+ */
+export async function loadCustomWorkflows(): Promise<CustomWorkflowDefinition[]> {
+    const workflows = await getCustomWorkflows();
+    const registered: CustomWorkflowDefinition[] = [];
+
+    for (const workflow of workflows) {
+        const existing = getWorkflow(workflow.id);
+        if (existing && !isCustomWorkflow(existing)) {
+            log.warn('Skipping custom workflow that conflicts with a built-in workflow', { id: workflow.id });
+            continue;
+        }
+        registerWorkflow(workflow);
+        registered.push(workflow);
+    }
+
+    return registered;
+}
+
+/**
+ * Create or update a custom workflow and register it immediately
+ *
+ * @param input - Workflow fields from the editor
+ * @param previousId - Current id when editing; renaming the command re-registers it
+ * @returns The saved workflow
+ * @throws Error when the workflow is invalid
+ */
+export async function saveCustomWorkflow(
+    input: CustomWorkflowInput,
+    previousId?: string
+): Promise<CustomWorkflowDefinition> {
+    const error = validateCustomWorkflow(input, previousId);
+    if (error) {
+        throw new Error(error);
+    }
+
+    const workflows = await getCustomWorkflows();
+    const existing = previousId ? workflows.find(w => w.id === previousId) : undefined;
+    const now = Date.now();
+
+    const workflow: CustomWorkflowDefinition = {
+        id: input.id,
+        name: input.name.trim(),
+        description: input.description.trim(),
+        icon: input.icon.trim() || '⚡',
+        allowedTools: [...new Set([...input.allowedTools, ...(input.pipeline ? getPipelineToolNames(input.pipeline) : [])])],
+        systemPrompt: input.systemPrompt,
+        color: input.color,
+        stepCount: input.stepCount ?? DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT,
+        pipeline: input.pipeline,
+        isCustom: true,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+
+    const next = existing
+        ? workflows.map(w => (w.id === previousId ? workflow : w))
+        : [...workflows, workflow];
+    await persistCustomWorkflows(next);
+
+    if (previousId && previousId !== workflow.id) {
+        unregisterWorkflow(previousId);
+    }
+    registerWorkflow(workflow);
+
+    log.info('Custom workflow saved', { id: workflow.id, tools: workflow.allowedTools.length });
+    return workflow;
+}
+
+/**
+ * Delete a custom workflow and remove it from the registry
+ */
+export async function deleteCustomWorkflow(id: string): Promise<void> {
+    const workflows = await getCustomWorkflows();
+    await persistCustomWorkflows(workflows.filter(w => w.id !== id));
+
+    const registered = getWorkflow(id);
+    if (registered && isCustomWorkflow(registered)) {
+        unregisterWorkflow(id);
+    }
+    log.info('Custom workflow deleted', { id });
+}
+
+/**
+ * Duplicate any workflow (built-in or custom) as a new custom workflow
+ *
+ * @returns The saved copy with a unique command id
+ */
+export async function duplicateWorkflow(source: WorkflowDefinition): Promise<CustomWorkflowDefinition> {
+    const baseId = source.id.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+    let id = `${baseId}_copy`;
+    for (let n = 2; getWorkflow(id); n++) {
+        id = `${baseId}_copy${n}`;
+    }
+
+    return saveCustomWorkflow({
+        id,
+        name: `${source.name} (copy)`,
+        description: source.description,
+        icon: source.icon,
+        allowedTools: source.allowedTools,
+        systemPrompt: source.systemPrompt,
+        color: source.color,
+        stepCount: Math.min(source.stepCount ?? DEFAULT_CUSTOM_WORKFLOW_STEP_COUNT, MAX_CUSTOM_WORKFLOW_STEP_COUNT),
+        pipeline: source.pipeline,
+    });
+}
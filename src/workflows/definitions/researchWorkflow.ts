@@ -23,7 +23,7 @@ function generateRanksArray(minimumSources: number): string {
 }
 
 function generateTabIdExamples(minimumSources: number): string {
-   return Array.from({ length: minimumSources }, (_, i) => `   → switchTabs({tabId: ${101 + i}}) → readPageContent()`).join('\n');
+   return Array.from({ length: minimumSources }, (_, i) => 101 + i).join(', ');
 }
 
 /**
@@ -48,7 +48,7 @@ WORKFLOW OBJECTIVE:
 
 AVAILABLE TOOLS (FULL ACCESS FOR RESEARCH):
 - Navigation: navigateTo, switchTabs, getActiveTab, openTab, getAllTabs
-- Content Extraction: readPageContent, extractText, getSearchResults
+- Content Extraction: readTabs, readPageContent, extractText, getSearchResults
 - Search: chromeSearch, searchHistory, openSearchResult
 - Interaction: clickByText, typeInField, pressKey, scrollPage
 - Tab Management: applyTabGroups, organizeTabsByContext
@@ -87,17 +87,20 @@ TOOL USAGE PLAYBOOK FOR RESEARCH:
    → openSearchResult({ranks: [${ranksArray}]})
    → This opens ${minimumSources} tabs, returns: {tabs: [{rank: 1, tabId: 101, url: '...', title: '...'}, ...]}
    
-   Step 5: Read each tab one by one
-${tabIdExamples}
-   → (repeat for all opened tabs)
+   Step 5: Read all opened tabs at once, in parallel
+   → readTabs({tabIds: [${tabIdExamples}]})
+   → Returns {sources: [{id: 1, title, url, content}, ...]}; sources marked duplicateOf repeat an earlier one
    
-   Step 6: Synthesize findings from all sources
+   Step 6: Synthesize findings from all sources, citing facts as [id](url)
    
    Step 7: Save important discoveries
 
 3. CONTENT EXTRACTION:
+   • readTabs - Read many tabs or URLs in one step without switching tabs (PREFERRED for sources)
+     - Each source gets a citation id that stays the same for the rest of the research
+     - Counts every distinct source read (duplicates excluded) toward the minimum
    • readPageContent - Extract basic text content from current page
-     - MUST call after EVERY switchTabs to get current page context
+     - Use when you need the page you just switched to or interacted with
    • extractText - Advanced page analysis with structure
    • getActiveTab - Check which tab you're currently on (URL, title)
 
@@ -116,11 +119,11 @@ ${tabIdExamples}
 CRITICAL RULES:
  DO NOT call openSearchResult unless on google.com/search or bing.com/search
  DO NOT call switchTabs without url or tabId parameter
- DO NOT skip readPageContent after switching tabs
+ DO NOT read sources one by one with switchTabs + readPageContent when readTabs can read them together
  DO NOT stop before visiting ${minimumSources}+ sources
  DO NOT finish workflow without calling generatePDF (MANDATORY)
  ALWAYS verify current page with getActiveTab before using page-specific tools
- ALWAYS call readPageContent after switchTabs to get updated context
+ ALWAYS cite facts as [id](url) using the ids returned by readTabs
  ALWAYS use openSearchResult({ranks: [${ranksArray}]}) to open multiple tabs efficiently
  ALWAYS call generatePDF after gathering research - this is NOT optional
  Organize research tabs by topic at the end
@@ -161,7 +164,7 @@ WORKFLOW EXECUTION SEQUENCE:
    - Use the template structure to guide what information to gather
 2. Navigate to Google → Get search results
 3. Open ${minimumSources}+ relevant sources with openSearchResult
-4. Switch to each tab and read content thoroughly
+4. Read all opened tabs with a single readTabs call
 5. Extract and synthesize key information from all sources **following template structure**
 6. Show BRIEF 2-3 sentence summary in chat
 7. **MANDATORY**: Call generatePDF with full report content (DO NOT SKIP THIS STEP)
@@ -200,11 +203,12 @@ QUALITY STANDARDS:
 - Cross-reference facts across sources before including
 - Focus on actionable, practical insights
 - Include complete findings in PDF (Summary, Key Findings, Sources, Ideas, Implementation Plan)
+- Pass the sources you cited to generatePDF as sources: [{id, title, url}]; it appends the numbered reference list, so refer to sources by [id] in the report
 
 POST-RESEARCH INTERACTION:
 
 1. **Show brief summary** (2-3 sentences only)
-2. **Generate PDF** → Use generatePDF with full report content (displays as interactive attachment with Open/Download buttons)
+2. **Generate PDF** → Use generatePDF with full report content and the cited sources (displays as interactive attachment with Open/Download buttons)
 3. **Mark complete** → Add [WORKFLOW_COMPLETE] after PDF is generated
 
 REPORT GENERATION:
@@ -251,6 +255,7 @@ export function createResearchWorkflow(settings: ResearchWorkflowSettings): Work
          'getAllTabs',
 
          // Content extraction
+         'readTabs',
          'readPageContent',
          'extractText',
          'getSearchResults',
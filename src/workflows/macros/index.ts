@@ -0,0 +1,34 @@
+/**
+ * Browser Macros
+ * Recorded click/type/key/navigation routines that replay through the
+ * existing browser tools, exposed as `macro_{id}` tools and `/{id}` commands
+ */
+
+export * from './types';
+export {
+    getPlaceholderNames,
+    syncMacroParameters,
+    fillStepInput,
+    resolveParameterValues,
+    PARAMETER_NAME_PATTERN,
+} from './params';
+export {
+    MACROS_STORAGE_KEY,
+    MACRO_TOOL_PREFIX,
+    MAX_MACRO_STEPS,
+    getMacroToolName,
+    isMacroToolName,
+    isMacroWorkflow,
+    toMacroId,
+    validateMacro,
+    getMacros,
+    getMacro,
+    createMacroWorkflow,
+    loadMacroWorkflows,
+    saveMacro,
+    deleteMacro,
+    recordMacroRun,
+} from './storage';
+export { replayMacro, getMacroRun, subscribeToMacroRuns } from './replay';
+export { getMacroTools, describeMacroStep, summarizeMacroRun } from './tools';
+export { startMacroRecording, stopMacroRecording, getMacroRecording } from './recording';
@@ -0,0 +1,78 @@
+/**
+ * Macro Parameters
+ * Step inputs reference parameters as `{{name}}`; values are filled in when the macro runs
+ */
+
+import type { MacroParameter, MacroStep } from './types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export const PARAMETER_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Names of all placeholders used by the steps, in order of first use
+ */
+export function getPlaceholderNames(steps: MacroStep[]): string[] {
+    const names = new Set<string>();
+    for (const step of steps) {
+        for (const value of Object.values(step.input)) {
+            if (typeof value !== 'string') continue;
+            for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+                names.add(match[1]!);
+            }
+        }
+    }
+    return [...names];
+}
+
+/**
+ * Match the parameter list to the placeholders in the steps
+ * Keeps descriptions and defaults of parameters that are still used
+ */
+export function syncMacroParameters(steps: MacroStep[], parameters: MacroParameter[]): MacroParameter[] {
+    return getPlaceholderNames(steps).map(name =>
+        parameters.find(parameter => parameter.name === name) ?? { name, description: '' }
+    );
+}
+
+/**
+ * Fill placeholders in a step's string inputs
+ *
+ * @throws Error when a placeholder has no value
+ */
+export function fillStepInput(input: Record<string, unknown>, values: Record<string, string>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(input).map(([key, value]) => {
+        if (typeof value !== 'string') return [key, value];
+        return [key, value.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+            const filled = values[name];
+            if (filled === undefined) {
+                throw new Error(`Missing value for parameter "${name}"`);
+            }
+            return filled;
+        })];
+    }));
+}
+
+/**
+ * Combine caller-provided values with parameter defaults
+ *
+ * @returns Values by name, and the required parameters that are still missing
+ */
+export function resolveParameterValues(
+    parameters: MacroParameter[],
+    provided: Record<string, unknown>
+): { values: Record<string, string>; missing: string[] } {
+    const values: Record<string, string> = {};
+    const missing: string[] = [];
+    for (const parameter of parameters) {
+        const value = provided[parameter.name];
+        if (value !== undefined && value !== null && value !== '') {
+            values[parameter.name] = String(value);
+        } else if (parameter.defaultValue !== undefined) {
+            values[parameter.name] = parameter.defaultValue;
+        } else {
+            missing.push(parameter.name);
+        }
+    }
+    return { values, missing };
+}
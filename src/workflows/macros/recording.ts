@@ -0,0 +1,45 @@
+/**
+ * Macro Recording
+ * Side panel helpers that drive the background recorder (see src/background/macros)
+ */
+
+import type { MacroRecording } from './types';
+
+interface RecordingResponse {
+    success: boolean;
+    recording?: MacroRecording | null;
+    error?: string;
+}
+
+async function sendRecordingMessage(message: Record<string, unknown>): Promise<MacroRecording | null> {
+    const response = await chrome.runtime.sendMessage(message) as RecordingResponse | undefined;
+    if (!response?.success) {
+        throw new Error(response?.error ?? 'The background worker did not respond');
+    }
+    return response.recording ?? null;
+}
+
+/**
+ * Start recording the user's actions on a tab
+ */
+export async function startMacroRecording(tabId: number): Promise<MacroRecording> {
+    const recording = await sendRecordingMessage({ type: 'macro/recording/start', payload: { tabId } });
+    if (!recording) throw new Error('Recording could not be started');
+    return recording;
+}
+
+/**
+ * Stop recording
+ *
+ * @returns The recorded session, or null when nothing was being recorded
+ */
+export function stopMacroRecording(): Promise<MacroRecording | null> {
+    return sendRecordingMessage({ type: 'macro/recording/stop' });
+}
+
+/**
+ * Recording in progress, if any
+ */
+export function getMacroRecording(): Promise<MacroRecording | null> {
+    return sendRecordingMessage({ type: 'macro/recording/status' });
+}
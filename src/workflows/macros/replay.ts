@@ -0,0 +1,183 @@
+/**
+ * Macro Replay
+ * Runs a macro's steps through the registered browser tools, one at a time,
+ * and stops at the first step that fails (e.g. the text to click is gone).
+ * Progress is published so the chat can show each step's status live.
+ */
+
+import { createLogger } from '~logger';
+import { getTool } from '@/ai/tools/registryUtils';
+import { fillStepInput, resolveParameterValues } from './params';
+import { recordMacroRun } from './storage';
+import type { Macro, MacroRun, MacroRunStep } from './types';
+
+const log = createLogger('MacroReplay', 'TOOLS_EXECUTION');
+
+/** Time for a click or key press to start a navigation before we check the page */
+const STEP_SETTLE_MS = 500;
+const PAGE_LOAD_TIMEOUT_MS = 15000;
+const PAGE_LOAD_POLL_MS = 250;
+
+// Latest run per macro id
+const runs = new Map<string, MacroRun>();
+const listeners = new Set<() => void>();
+
+function publish(run: MacroRun): MacroRun {
+    runs.set(run.macroId, run);
+    listeners.forEach(listener => listener());
+    return run;
+}
+
+/**
+ * Latest run of a macro, if it ran since the side panel opened
+ */
+export function getMacroRun(macroId: string): MacroRun | undefined {
+    return runs.get(macroId);
+}
+
+/**
+ * Listen for replay progress
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToMacroRuns(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until the active tab has finished loading, or give up after a timeout
+ */
+async function waitForActiveTabLoad(abortSignal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + PAGE_LOAD_TIMEOUT_MS;
+    while (Date.now() < deadline && !abortSignal?.aborted) {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab || tab.status === 'complete') return;
+        await delay(PAGE_LOAD_POLL_MS);
+    }
+}
+
+/**
+ * Browser tools report failures as `{ error }` or `{ success: false }` instead of throwing
+ */
+function getStepError(output: unknown): string | null {
+    if (!output || typeof output !== 'object') return null;
+    const result = output as { error?: unknown; success?: unknown; message?: unknown };
+    if (!result.error && result.success !== false) return null;
+    if (typeof result.error === 'string') return result.error;
+    if (typeof result.message === 'string') return result.message;
+    return 'Step failed';
+}
+
+function updateStep(run: MacroRun, index: number, changes: Partial<MacroRunStep>): MacroRun {
+    return publish({
+        ...run,
+        steps: run.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+}
+
+function finish(run: MacroRun, status: MacroRun['status'], error?: string): MacroRun {
+    return publish({
+        ...run,
+        status,
+        error,
+        finishedAt: Date.now(),
+        steps: run.steps.map(step => (step.status === 'pending' ? { ...step, status: 'skipped' } : step)),
+    });
+}
+
+/**
+ * Run the steps in order, stopping at the first failure
+ */
+async function runSteps(
+    run: MacroRun,
+    macro: Macro,
+    values: Record<string, string>,
+    abortSignal?: AbortSignal
+): Promise<MacroRun> {
+    for (const [index, step] of macro.steps.entries()) {
+        if (abortSignal?.aborted) {
+            return finish(run, 'cancelled', 'Replay was cancelled');
+        }
+
+        let input: Record<string, unknown>;
+        try {
+            input = fillStepInput(step.input, values);
+        } catch (error) {
+            run = updateStep(run, index, { status: 'failed', error: (error as Error).message });
+            return finish(run, 'failed', `Step ${index + 1}: ${(error as Error).message}`);
+        }
+        run = updateStep(run, index, { input, status: 'running' });
+
+        let stepError: string | null;
+        const tool = getTool(step.toolName);
+        if (!tool) {
+            stepError = `${step.toolName} is not available`;
+        } else {
+            const parsed = tool.inputSchema.safeParse(input);
+            if (!parsed.success) {
+                stepError = `Invalid input: ${parsed.error.message}`;
+            } else {
+                try {
+                    stepError = getStepError(await tool.execute(parsed.data, abortSignal));
+                } catch (error) {
+                    stepError = error instanceof Error ? error.message : String(error);
+                }
+            }
+        }
+
+        if (stepError) {
+            log.warn('Macro step failed', { id: macro.id, step: index + 1, tool: step.toolName, error: stepError });
+            run = updateStep(run, index, { status: 'failed', error: stepError });
+            return finish(run, abortSignal?.aborted ? 'cancelled' : 'failed', `Step ${index + 1} (${step.toolName}): ${stepError}`);
+        }
+
+        run = updateStep(run, index, { status: 'success' });
+        await delay(STEP_SETTLE_MS);
+        await waitForActiveTabLoad(abortSignal);
+    }
+
+    return finish(run, 'success');
+}
+
+/**
+ * Replay a macro on the active tab
+ *
+ * @param values - Parameter values by name; defaults fill the rest
+ * @returns The finished run; failures are reported in it rather than thrown
+ */
+export async function replayMacro(
+    macro: Macro,
+    values: Record<string, unknown>,
+    abortSignal?: AbortSignal
+): Promise<MacroRun> {
+    let run = publish({
+        runId: crypto.randomUUID(),
+        macroId: macro.id,
+        macroName: macro.name,
+        status: 'running',
+        steps: macro.steps.map(step => ({ toolName: step.toolName, input: step.input, status: 'pending' })),
+        startedAt: Date.now(),
+    });
+
+    const { values: filled, missing } = resolveParameterValues(macro.parameters, values);
+    if (missing.length > 0) {
+        run = finish(run, 'failed', `Missing values for: ${missing.join(', ')}`);
+    } else {
+        log.info('Replaying macro', { id: macro.id, steps: macro.steps.length });
+        run = await runSteps(run, macro, filled, abortSignal);
+    }
+
+    try {
+        await recordMacroRun(run);
+    } catch (error) {
+        log.error('Failed to record macro run', error);
+    }
+    return run;
+}
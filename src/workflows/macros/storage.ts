@@ -0,0 +1,226 @@
+/**
+ * Macro Storage
+ * Macros live in chrome.storage.local. Each one is also registered as a
+ * workflow so `/{id}` replays it from the chat.
+ */
+
+import { createLogger } from '~logger';
+import { getWorkflow, registerWorkflow, unregisterWorkflow } from '../registry';
+import type { WorkflowDefinition } from '../types';
+import { PARAMETER_NAME_PATTERN, syncMacroParameters } from './params';
+import { MACRO_STEP_TOOLS } from './types';
+import type { Macro, MacroInput, MacroRun, MacroWorkflowDefinition } from './types';
+
+const log = createLogger('Macros', 'STORAGE');
+
+export const MACROS_STORAGE_KEY = 'browserMacros';
+
+/** Tools created for macros are named `macro_{id}` */
+export const MACRO_TOOL_PREFIX = 'macro_';
+
+export const MAX_MACRO_STEPS = 100;
+
+/** Same rule as custom workflows, since the id doubles as a slash command */
+const MACRO_ID_PATTERN = /^[a-z0-9_]+$/;
+
+/**
+ * Name of the tool that replays a macro
+ */
+export function getMacroToolName(macroId: string): string {
+    return MACRO_TOOL_PREFIX + macroId;
+}
+
+export function isMacroToolName(toolName: string): boolean {
+    return toolName.startsWith(MACRO_TOOL_PREFIX);
+}
+
+/**
+ * Check whether a workflow is the slash command of a macro
+ */
+export function isMacroWorkflow(workflow: WorkflowDefinition): workflow is MacroWorkflowDefinition {
+    return typeof (workflow as Partial<MacroWorkflowDefinition>).macroId === 'string';
+}
+
+/**
+ * Turn a name into a valid macro id, e.g. "Export weekly report" -> "export_weekly_report"
+ */
+export function toMacroId(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+}
+
+/**
+ * Validate a macro before saving
+ *
+ * @param previousId - Current id when editing an existing macro
+ * @returns Error message, or null when valid
+ */
+export function validateMacro(input: MacroInput, previousId?: string): string | null {
+    if (!input.name.trim()) return 'Name is required';
+    if (!MACRO_ID_PATTERN.test(input.id)) {
+        return 'Command can only contain lowercase letters, numbers and underscores';
+    }
+    if (input.steps.length === 0) return 'Record at least one step';
+    if (input.steps.length > MAX_MACRO_STEPS) return `Macros can have at most ${MAX_MACRO_STEPS} steps`;
+
+    const unknownStep = input.steps.find(step => !(MACRO_STEP_TOOLS as readonly string[]).includes(step.toolName));
+    if (unknownStep) return `Unsupported step: ${unknownStep.toolName}`;
+
+    const badParameter = input.parameters.find(parameter => !PARAMETER_NAME_PATTERN.test(parameter.name));
+    if (badParameter) return `Invalid parameter name "${badParameter.name}"`;
+
+    const existing = getWorkflow(input.id);
+    if (existing && input.id !== previousId) {
+        return isMacroWorkflow(existing)
+            ? `You already have a macro using /${input.id}`
+            : `/${input.id} is already used by a workflow`;
+    }
+    return null;
+}
+
+/**
+ * Get all macros from storage
+ */
+export async function getMacros(): Promise<Macro[]> {
+    try {
+        const result = await chrome.storage.local.get(MACROS_STORAGE_KEY);
+        return (result[MACROS_STORAGE_KEY] as Macro[] | undefined) ?? [];
+    } catch (error) {
+        log.error('Failed to load macros', error);
+        return [];
+    }
+}
+
+/**
+ * Get a macro by id
+ */
+export async function getMacro(id: string): Promise<Macro | undefined> {
+    const macros = await getMacros();
+    return macros.find(macro => macro.id === id);
+}
+
+async function persistMacros(macros: Macro[]): Promise<void> {
+    await chrome.storage.local.set({ [MACROS_STORAGE_KEY]: macros });
+}
+
+/**
+ * Slash command that asks the agent to run the macro's tool
+ */
+export function createMacroWorkflow(macro: Macro): MacroWorkflowDefinition {
+    const toolName = getMacroToolName(macro.id);
+    const parameterLines = macro.parameters.map(parameter => {
+        const detail = parameter.description || 'no description';
+        return parameter.defaultValue !== undefined
+            ? `- ${parameter.name}: ${detail} (default: "${parameter.defaultValue}")`
+            : `- ${parameter.name}: ${detail} (required)`;
+    });
+
+    return {
+        id: macro.id,
+        macroId: macro.id,
+        name: macro.name,
+        description: macro.description || `Replay ${macro.steps.length} recorded steps`,
+        icon: '⏺️',
+        allowedTools: [toolName],
+        systemPrompt: `You replay the recorded browser macro "${macro.name}".
+
+Call ${toolName} exactly once.
+${parameterLines.length > 0
+                ? `Take its parameters from the user's message:\n${parameterLines.join('\n')}\nIf a required value is missing, ask the user for it instead of guessing.`
+                : 'It takes no parameters.'}
+
+When it finishes, report the result in one or two sentences. If a step failed, say which step and why, and do not retry it.`,
+        stepCount: 3,
+    };
+}
+
+/**
+ * Register the slash commands of all stored macros
+ * Existing workflows win on id conflicts so a stale macro can't shadow them
+ *
+ * @returns The macros that were registered
+ */
+export async function loadMacroWorkflows(): Promise<Macro[]> {
+    const macros = await getMacros();
+    const registered: Macro[] = [];
+
+    for (const macro of macros) {
+        const existing = getWorkflow(macro.id);
+        if (existing && !isMacroWorkflow(existing)) {
+            log.warn('Skipping macro that conflicts with a workflow', { id: macro.id });
+            continue;
+        }
+        registerWorkflow(createMacroWorkflow(macro));
+        registered.push(macro);
+    }
+
+    return registered;
+}
+
+/**
+ * Create or update a macro and register its slash command
+ *
+ * @param previousId - Current id when editing; renaming the command re-registers it
+ * @returns The saved macro
+ * @throws Error when the macro is invalid
+ */
+export async function saveMacro(input: MacroInput, previousId?: string): Promise<Macro> {
+    const error = validateMacro(input, previousId);
+    if (error) {
+        throw new Error(error);
+    }
+
+    const macros = await getMacros();
+    const existing = previousId ? macros.find(macro => macro.id === previousId) : undefined;
+    const now = Date.now();
+
+    const macro: Macro = {
+        id: input.id,
+        name: input.name.trim(),
+        description: input.description.trim(),
+        steps: input.steps,
+        parameters: syncMacroParameters(input.steps, input.parameters),
+        lastRun: existing?.lastRun,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+
+    const next = existing
+        ? macros.map(m => (m.id === previousId ? macro : m))
+        : [...macros, macro];
+    await persistMacros(next);
+
+    if (previousId && previousId !== macro.id) {
+        unregisterWorkflow(previousId);
+    }
+    registerWorkflow(createMacroWorkflow(macro));
+
+    log.info('Macro saved', { id: macro.id, steps: macro.steps.length, parameters: macro.parameters.length });
+    return macro;
+}
+
+/**
+ * Delete a macro and remove its slash command
+ */
+export async function deleteMacro(id: string): Promise<void> {
+    const macros = await getMacros();
+    await persistMacros(macros.filter(macro => macro.id !== id));
+
+    const registered = getWorkflow(id);
+    if (registered && isMacroWorkflow(registered)) {
+        unregisterWorkflow(id);
+    }
+    log.info('Macro deleted', { id });
+}
+
+/**
+ * Store the outcome of a finished replay on the macro
+ */
+export async function recordMacroRun(run: MacroRun): Promise<void> {
+    if (run.status === 'running') return;
+    const macros = await getMacros();
+    const macro = macros.find(m => m.id === run.macroId);
+    if (!macro) return;
+
+    macro.lastRun = { at: run.finishedAt ?? Date.now(), status: run.status, error: run.error };
+    await persistMacros(macros);
+}
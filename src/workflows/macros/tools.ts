@@ -0,0 +1,104 @@
+/**
+ * Macro Tools
+ * Every saved macro becomes a `macro_{id}` tool the agent can call, with one
+ * string argument per macro parameter
+ */
+
+import { z } from 'zod';
+import { createLogger } from '~logger';
+import { replayMacro } from './replay';
+import { getMacro, getMacroToolName, getMacros } from './storage';
+import type { Macro, MacroRun, MacroStep } from './types';
+
+const log = createLogger('MacroTools', 'TOOLS_EXECUTION');
+
+/**
+ * Short description of a step, e.g. `click "Export"`
+ */
+export function describeMacroStep(step: Pick<MacroStep, 'toolName' | 'input'>): string {
+    const { input } = step;
+    switch (step.toolName) {
+        case 'navigateTo':
+            return `open ${String(input.url ?? '')}`;
+        case 'clickByText':
+            return `click "${String(input.text ?? '')}"`;
+        case 'typeInField':
+            return input.target
+                ? `type "${String(input.text ?? '')}" into ${String(input.target)}`
+                : `type "${String(input.text ?? '')}"`;
+        case 'pressKey':
+            return `press ${String(input.key ?? '')}`;
+    }
+}
+
+function describeMacro(macro: Macro): string {
+    const outline = macro.steps.slice(0, 8).map(describeMacroStep).join(' → ');
+    const more = macro.steps.length > 8 ? ` → … (${macro.steps.length} steps)` : '';
+    return `Replay the user's recorded browser macro "${macro.name}"${macro.description ? `: ${macro.description}` : ''}.
+Steps: ${outline}${more}.
+Runs the steps on the active tab and stops at the first step that fails. Use when the user asks for this routine instead of doing the steps yourself.`;
+}
+
+function createInputSchema(macro: Macro) {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const parameter of macro.parameters) {
+        const description = parameter.description || `Value for {{${parameter.name}}}`;
+        shape[parameter.name] = parameter.defaultValue !== undefined
+            ? z.string().optional().describe(`${description} (default: "${parameter.defaultValue}")`)
+            : z.string().describe(description);
+    }
+    return z.object(shape);
+}
+
+/**
+ * Result sent back to the model and rendered by the macro run card
+ */
+export function summarizeMacroRun(run: MacroRun) {
+    const completedSteps = run.steps.filter(step => step.status === 'success').length;
+    const failedIndex = run.steps.findIndex(step => step.status === 'failed');
+    const failedStep = run.steps[failedIndex];
+
+    return {
+        success: run.status === 'success',
+        macro: run.macroName,
+        status: run.status,
+        completedSteps,
+        totalSteps: run.steps.length,
+        steps: run.steps.map((step, index) => ({
+            step: index + 1,
+            action: describeMacroStep(step),
+            status: step.status,
+            ...(step.error ? { error: step.error } : {}),
+        })),
+        ...(run.error ? { error: run.error } : {}),
+        ...(failedStep ? {
+            feedback: `Stopped at step ${failedIndex + 1} (${describeMacroStep(failedStep)}). The page may have changed since the macro was recorded; tell the user instead of retrying.`,
+        } : {}),
+    };
+}
+
+/**
+ * Build AI SDK tools for all saved macros
+ */
+export async function getMacroTools(): Promise<Record<string, unknown>> {
+    const macros = await getMacros();
+    const tools: Record<string, unknown> = {};
+
+    for (const macro of macros) {
+        tools[getMacroToolName(macro.id)] = {
+            description: describeMacro(macro),
+            inputSchema: createInputSchema(macro),
+            execute: async (input: Record<string, unknown>, { abortSignal }: { abortSignal?: AbortSignal } = {}) => {
+                log.info('Running macro tool', { id: macro.id });
+                // Re-read so edits made while the chat was open are used
+                const latest = await getMacro(macro.id);
+                if (!latest) {
+                    return { success: false, error: `Macro "${macro.name}" no longer exists` };
+                }
+                return summarizeMacroRun(await replayMacro(latest, input ?? {}, abortSignal));
+            },
+        };
+    }
+
+    return tools;
+}
@@ -0,0 +1,103 @@
+// Browser macro types
+
+import type { WorkflowDefinition } from '../types';
+
+/**
+ * Tools a macro step can replay. Recordings are translated into calls to
+ * these existing tools, so replay behaves like the agent doing the same steps.
+ */
+export const MACRO_STEP_TOOLS = ['navigateTo', 'clickByText', 'typeInField', 'pressKey'] as const;
+
+export type MacroStepTool = typeof MACRO_STEP_TOOLS[number];
+
+/**
+ * One recorded action, stored as the tool call that replays it.
+ * String inputs may contain `{{parameter}}` placeholders.
+ */
+export interface MacroStep {
+    id: string;
+    toolName: MacroStepTool;
+    input: Record<string, unknown>;
+}
+
+/**
+ * Value filled into `{{name}}` placeholders when the macro runs
+ */
+export interface MacroParameter {
+    name: string;
+    description: string;
+    /** Used when the caller leaves the parameter out; required otherwise */
+    defaultValue?: string;
+}
+
+export type MacroRunStatus = 'running' | 'success' | 'failed' | 'cancelled';
+
+export type MacroStepStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+// Recorded routine persisted in chrome.storage.local
+export interface Macro {
+    /** Slash command and tool id, e.g. "export_report" for /export_report */
+    id: string;
+    name: string;
+    description: string;
+    steps: MacroStep[];
+    parameters: MacroParameter[];
+    lastRun?: {
+        at: number;
+        status: Exclude<MacroRunStatus, 'running'>;
+        error?: string;
+    };
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Editable fields of a macro
+export type MacroInput = Pick<Macro, 'id' | 'name' | 'description' | 'steps' | 'parameters'>;
+
+/**
+ * Progress of one step during a replay
+ */
+export interface MacroRunStep {
+    toolName: MacroStepTool;
+    /** Input after parameters were filled in */
+    input: Record<string, unknown>;
+    status: MacroStepStatus;
+    error?: string;
+}
+
+/**
+ * A replay in progress or finished; the chat card renders it step by step
+ */
+export interface MacroRun {
+    runId: string;
+    macroId: string;
+    macroName: string;
+    status: MacroRunStatus;
+    steps: MacroRunStep[];
+    startedAt: number;
+    finishedAt?: number;
+    error?: string;
+}
+
+/**
+ * Recording session kept by the background worker while the user acts on a tab
+ */
+export interface MacroRecording {
+    tabId: number;
+    startedAt: number;
+    steps: MacroStep[];
+    /** Actions that have no replayable tool call, e.g. clicks on icon-only buttons */
+    skippedActions: number;
+}
+
+/**
+ * What the recorder content script reports for one user action
+ */
+export type RecordedAction =
+    | { kind: 'step'; toolName: MacroStepTool; input: Record<string, unknown> }
+    | { kind: 'skipped'; reason: string };
+
+// Workflow registered for a macro so it shows up as a slash command
+export interface MacroWorkflowDefinition extends WorkflowDefinition {
+    macroId: string;
+}
@@ -0,0 +1,417 @@
+/**
+ * Pipeline Runner
+ *
+ * Executes a workflow's pipeline stage by stage. The run is written to
+ * IndexedDB after every transition, so closing the side panel mid-run leaves
+ * a record that can be resumed from the stage that was interrupted.
+ * Confirmation stages end execution with status 'waiting'; approving them
+ * resumes the run from the following stage. Tool stages whose call needs the
+ * user's approval wait the same way and run once approved.
+ */
+
+import { generateText, stepCountIs } from 'ai';
+import { createLogger } from '~logger';
+import { getPipelineRun, recordUsage, savePipelineRun, type PipelineRun, type PipelineStageState } from '~/db';
+import { initializeModel, type ModelInitResult } from '@/ai/core/modelFactory';
+import { getToolApprovalRequirement } from '@/ai/tools/approval/gate';
+import { withUnattendedToolApproval } from '@/ai/tools/approval/wrap';
+import { setupRemoteTools } from '@/ai/tools/manager';
+import { getWorkflow } from '../registry';
+import type { WorkflowDefinition } from '../types';
+import { evaluateCondition, renderTemplate, resolveArgs } from './template';
+import { coerceValue, parsePipelineInputs } from './values';
+import {
+    PIPELINE_END,
+    type PipelineDefinition,
+    type PipelineOutputSpec,
+    type PipelineStage,
+} from './types';
+
+const log = createLogger('Workflow-Pipeline');
+
+const DEFAULT_PIPELINE_MODEL = 'gemini-2.5-flash';
+const DEFAULT_AGENT_MAX_STEPS = 10;
+
+/** Upper bound on stage executions per run, so a branch cycle cannot spin forever */
+const MAX_STAGE_EXECUTIONS = 100;
+
+export type PipelineWorkflow = WorkflowDefinition & { pipeline: PipelineDefinition };
+
+type PipelineRunListener = (run: PipelineRun) => void;
+
+type StageOutcome = { type: 'next'; stageId: string | null } | { type: 'wait' };
+
+const listeners = new Set<PipelineRunListener>();
+
+/** Runs executing in this page, keyed by run ID */
+const controllers = new Map<string, AbortController>();
+
+/**
+ * Check whether a workflow runs as a pipeline
+ */
+export function isPipelineWorkflow(workflow: WorkflowDefinition | undefined): workflow is PipelineWorkflow {
+    return !!workflow?.pipeline && workflow.pipeline.stages.length > 0;
+}
+
+/**
+ * Subscribe to run updates
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToPipelineRuns(listener: PipelineRunListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Whether a run is currently executing in this page
+ * Active runs that are not executing were interrupted and can be resumed
+ */
+export function isPipelineRunExecuting(runId: string): boolean {
+    return controllers.has(runId);
+}
+
+function defaultOutput(stage: PipelineStage): PipelineOutputSpec {
+    switch (stage.kind) {
+        case 'tool':
+            return { key: stage.id, type: 'json' };
+        case 'branch':
+        case 'confirm':
+            return { key: stage.id, type: 'boolean' };
+        default:
+            return { key: stage.id, type: 'string' };
+    }
+}
+
+function outputSpec(stage: PipelineStage): PipelineOutputSpec {
+    return stage.output ?? defaultOutput(stage);
+}
+
+function nextStageId(pipeline: PipelineDefinition, stage: PipelineStage, target?: string): string | null {
+    if (target === PIPELINE_END) return null;
+    if (target) return target;
+    const index = pipeline.stages.findIndex(s => s.id === stage.id);
+    return pipeline.stages[index + 1]?.id ?? null;
+}
+
+function updateStage(run: PipelineRun, stageId: string, updates: Partial<PipelineStageState>): void {
+    run.stages = run.stages.map(stage => (stage.id === stageId ? { ...stage, ...updates } : stage));
+}
+
+async function persist(run: PipelineRun): Promise<void> {
+    run.updatedAt = Date.now();
+    await savePipelineRun(run);
+    const snapshot: PipelineRun = { ...run, stages: run.stages.map(stage => ({ ...stage })) };
+    listeners.forEach(listener => listener(snapshot));
+}
+
+async function recordStageUsage(
+    run: PipelineRun,
+    modelId: string,
+    provider: ModelInitResult['provider'],
+    usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number; cachedInputTokens?: number; reasoningTokens?: number }
+): Promise<void> {
+    if (provider === 'local') return;
+    try {
+        await recordUsage({
+            timestamp: Date.now(),
+            modelId,
+            provider,
+            threadId: run.threadId ?? undefined,
+            workflowId: run.workflowId,
+            inputTokens: usage.inputTokens ?? 0,
+            outputTokens: usage.outputTokens ?? 0,
+            totalTokens: usage.totalTokens ?? 0,
+            cachedInputTokens: usage.cachedInputTokens,
+            reasoningTokens: usage.reasoningTokens,
+        });
+    } catch (error) {
+        log.warn('Failed to record pipeline usage', error instanceof Error ? error.message : String(error));
+    }
+}
+
+async function loadTools(workflow: WorkflowDefinition, names: string[], signal: AbortSignal): Promise<Record<string, any>> {
+    const { tools } = await setupRemoteTools({ ...workflow, allowedTools: names }, '', signal);
+    return tools;
+}
+
+/**
+ * Run a single stage and store its output in the run context
+ *
+ * @param approved - The user approved this stage's tool call while the run was waiting
+ */
+async function executeStage(
+    stage: PipelineStage,
+    run: PipelineRun,
+    workflow: PipelineWorkflow,
+    signal: AbortSignal,
+    approved: boolean
+): Promise<StageOutcome> {
+    const { pipeline } = workflow;
+    const output = outputSpec(stage);
+    let value: unknown;
+
+    switch (stage.kind) {
+        case 'branch': {
+            const matched = evaluateCondition(stage.condition, run.context);
+            run.context[output.key] = matched;
+            log.info('Branch evaluated', { stage: stage.id, matched });
+            return { type: 'next', stageId: nextStageId(pipeline, stage, matched ? stage.then : stage.else) };
+        }
+
+        case 'confirm':
+            return { type: 'wait' };
+
+        case 'tool': {
+            const tools = await loadTools(workflow, [stage.tool], signal);
+            const tool = tools[stage.tool];
+            if (!tool?.execute) {
+                throw new Error(`Tool "${stage.tool}" is not available`);
+            }
+            const args = resolveArgs(stage.args ?? {}, run.context);
+            if (!approved && await getToolApprovalRequirement({ toolName: stage.tool, input: args })) {
+                log.info('Tool stage needs approval', { stage: stage.id, tool: stage.tool });
+                return { type: 'wait' };
+            }
+            value = await tool.execute(args, {
+                toolCallId: crypto.randomUUID(),
+                messages: [],
+                abortSignal: signal,
+            });
+            if (value && typeof value === 'object' && 'error' in value && (value as { error?: unknown }).error) {
+                throw new Error(String((value as { error: unknown }).error));
+            }
+            break;
+        }
+
+        case 'prompt':
+        case 'agent': {
+            const modelId = stage.model ?? DEFAULT_PIPELINE_MODEL;
+            const { model, provider, modelName } = await initializeModel(modelId, 'remote');
+            // Approval cards only render in the chat stream, so tools needing approval are refused here
+            const tools = stage.kind === 'agent'
+                ? withUnattendedToolApproval(await loadTools(workflow, stage.tools, signal))
+                : undefined;
+
+            const result = await generateText({
+                model,
+                system: stage.system ?? workflow.systemPrompt,
+                prompt: renderTemplate(stage.prompt, run.context),
+                abortSignal: signal,
+                ...(tools && {
+                    tools,
+                    stopWhen: stepCountIs(stage.kind === 'agent' ? stage.maxSteps ?? DEFAULT_AGENT_MAX_STEPS : 1),
+                }),
+            });
+            await recordStageUsage(run, modelName, provider, result.totalUsage);
+            value = result.text;
+            break;
+        }
+    }
+
+    run.context[output.key] = coerceValue(value, output.type, `Output of "${stage.label}"`);
+    return { type: 'next', stageId: nextStageId(pipeline, stage) };
+}
+
+/**
+ * Build the final chat message for a completed run
+ */
+function buildResult(run: PipelineRun, pipeline: PipelineDefinition): string {
+    if (pipeline.result) {
+        return renderTemplate(pipeline.result, run.context);
+    }
+
+    const lastOutputStage = run.stages
+        .filter(state => state.status === 'completed')
+        .map(state => pipeline.stages.find(stage => stage.id === state.id))
+        .filter((stage): stage is PipelineStage => !!stage && stage.kind !== 'branch' && stage.kind !== 'confirm')
+        .pop();
+    if (!lastOutputStage) return 'Workflow completed.';
+
+    const value = run.context[outputSpec(lastOutputStage).key];
+    return typeof value === 'string' ? value : '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+/**
+ * Execute stages from run.currentStageId until the run finishes or waits
+ *
+ * @param approvedStageId - Tool stage the user just approved, which runs without asking again
+ */
+async function executeRun(run: PipelineRun, workflow: PipelineWorkflow, approvedStageId?: string): Promise<PipelineRun> {
+    const controller = new AbortController();
+    controllers.set(run.id, controller);
+    const { signal } = controller;
+
+    try {
+        while (run.currentStageId) {
+            const stageId = run.currentStageId;
+            const stage = workflow.pipeline.stages.find(s => s.id === stageId);
+            if (!stage) {
+                throw new Error(`Unknown stage "${stageId}"`);
+            }
+            if (run.executedStageCount >= MAX_STAGE_EXECUTIONS) {
+                throw new Error(`Stopped after ${MAX_STAGE_EXECUTIONS} stages; check branch targets for loops`);
+            }
+
+            run.executedStageCount++;
+            updateStage(run, stage.id, { status: 'running', startedAt: Date.now(), error: undefined });
+            await persist(run);
+
+            log.info('Running stage', { runId: run.id, stage: stage.id, kind: stage.kind });
+            const outcome = await executeStage(stage, run, workflow, signal, stage.id === approvedStageId);
+            approvedStageId = undefined;
+
+            // Cancelled while the stage ran - cancelPipelineRun has already saved the record
+            if (signal.aborted) {
+                return { ...run, status: 'cancelled' };
+            }
+
+            if (outcome.type === 'wait') {
+                updateStage(run, stage.id, { status: 'waiting' });
+                run.status = 'waiting';
+                await persist(run);
+                return run;
+            }
+
+            updateStage(run, stage.id, { status: 'completed', completedAt: Date.now() });
+            run.currentStageId = outcome.stageId;
+        }
+
+        run.stages = run.stages.map(stage => (stage.status === 'pending' ? { ...stage, status: 'skipped' } : stage));
+        run.status = 'completed';
+        run.result = buildResult(run, workflow.pipeline);
+        await persist(run);
+        log.info('Pipeline completed', { runId: run.id, workflowId: run.workflowId });
+        return run;
+    } catch (error) {
+        if (signal.aborted) {
+            return { ...run, status: 'cancelled' };
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        log.error('Pipeline stage failed', { runId: run.id, stage: run.currentStageId, error: message });
+        if (run.currentStageId) {
+            updateStage(run, run.currentStageId, { status: 'failed', completedAt: Date.now(), error: message });
+        }
+        run.status = 'failed';
+        run.error = message;
+        await persist(run);
+        return run;
+    } finally {
+        controllers.delete(run.id);
+    }
+}
+
+/**
+ * Start a pipeline run for a workflow
+ *
+ * @param workflow - Workflow with a pipeline definition
+ * @param prompt - Text the user typed after the slash command
+ * @param threadId - Thread the result is posted to
+ * @returns The run once it completes, fails or waits for confirmation
+ * @throws Error when the inputs are missing or invalid (no run is created)
+ */
+export async function startPipelineRun(
+    workflow: PipelineWorkflow,
+    prompt: string,
+    threadId: string | null
+): Promise<PipelineRun> {
+    const inputs = parsePipelineInputs(workflow.pipeline.inputs, prompt);
+    const now = Date.now();
+
+    const run: PipelineRun = {
+        id: crypto.randomUUID(),
+        workflowId: workflow.id,
+        threadId,
+        status: 'running',
+        prompt,
+        context: { ...inputs },
+        stages: workflow.pipeline.stages.map(stage => ({ id: stage.id, label: stage.label, status: 'pending' })),
+        currentStageId: workflow.pipeline.stages[0]!.id,
+        executedStageCount: 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    log.info('Starting pipeline', { runId: run.id, workflowId: workflow.id, inputs: Object.keys(inputs) });
+    return executeRun(run, workflow);
+}
+
+/**
+ * Continue an interrupted run, or answer a confirmation stage
+ *
+ * @param runId - Run to resume
+ * @param approved - Answer for a run waiting on confirmation; false cancels the run
+ * @returns The run once it completes, fails or waits again
+ * @throws Error when the run does not exist, has ended or is already executing
+ */
+export async function resumePipelineRun(runId: string, approved = true): Promise<PipelineRun> {
+    const run = await getPipelineRun(runId);
+    if (!run || (run.status !== 'running' && run.status !== 'waiting')) {
+        throw new Error('This workflow run has already finished');
+    }
+    if (controllers.has(runId)) {
+        throw new Error('This workflow run is already in progress');
+    }
+
+    const workflow = getWorkflow(run.workflowId);
+    if (!isPipelineWorkflow(workflow)) {
+        run.status = 'failed';
+        run.error = `Workflow /${run.workflowId} is no longer available`;
+        await persist(run);
+        return run;
+    }
+
+    if (run.status === 'waiting' && run.currentStageId) {
+        const stage = workflow.pipeline.stages.find(s => s.id === run.currentStageId);
+        if (!approved || !stage) {
+            updateStage(run, run.currentStageId, { status: 'failed', completedAt: Date.now(), error: 'Declined' });
+            run.status = 'cancelled';
+            await persist(run);
+            return run;
+        }
+        if (stage.kind === 'tool') {
+            run.status = 'running';
+            log.info('Running approved tool stage', { runId, stage: stage.id });
+            return executeRun(run, workflow, stage.id);
+        }
+        run.context[outputSpec(stage).key] = true;
+        updateStage(run, stage.id, { status: 'completed', completedAt: Date.now() });
+        run.currentStageId = nextStageId(workflow.pipeline, stage);
+    }
+
+    run.status = 'running';
+    log.info('Resuming pipeline', { runId, stage: run.currentStageId });
+    return executeRun(run, workflow);
+}
+
+/**
+ * Cancel a run, aborting the stage in progress if it is executing here
+ */
+export async function cancelPipelineRun(runId: string): Promise<void> {
+    controllers.get(runId)?.abort();
+    const run = await getPipelineRun(runId);
+    if (!run || (run.status !== 'running' && run.status !== 'waiting')) return;
+
+    if (run.currentStageId) {
+        updateStage(run, run.currentStageId, { status: 'failed', completedAt: Date.now(), error: 'Cancelled' });
+    }
+    run.status = 'cancelled';
+    await persist(run);
+    log.info('Pipeline cancelled', { runId });
+}
+
+/**
+ * Render the message for a waiting run: a confirmation stage's text, or the tool call awaiting approval
+ */
+export function getConfirmationMessage(run: PipelineRun): string | null {
+    const workflow = getWorkflow(run.workflowId);
+    const stage = workflow?.pipeline?.stages.find(s => s.id === run.currentStageId);
+    if (stage?.kind === 'tool') {
+        const args = JSON.stringify(resolveArgs(stage.args ?? {}, run.context));
+        return `Allow "${stage.label}" to run ${stage.tool} with ${args.length > 200 ? `${args.slice(0, 200)}…` : args}?`;
+    }
+    return stage?.kind === 'confirm' ? renderTemplate(stage.message, run.context) : null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Pipeline Templates
+ * Resolves {{path}} placeholders and branch conditions against a run's context
+ */
+
+import type { PipelineCondition } from './types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * Look up a dotted path such as "tab.url" or "results.0.title"
+ */
+export function resolvePath(context: Record<string, unknown>, path: string): unknown {
+    let current: unknown = context;
+    for (const segment of path.split('.')) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Replace every {{path}} in a template with the context value
+ * Objects are inserted as JSON; missing values become empty strings
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => stringify(resolvePath(context, path)));
+}
+
+/**
+ * Resolve templates inside tool arguments
+ * A string that is exactly one placeholder keeps the referenced value's type,
+ * so "{{tab.id}}" passes a number rather than "42"
+ */
+export function resolveArgs(value: unknown, context: Record<string, unknown>): unknown {
+    if (typeof value === 'string') {
+        const whole = WHOLE_PLACEHOLDER_PATTERN.exec(value);
+        return whole ? resolvePath(context, whole[1]!) : renderTemplate(value, context);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => resolveArgs(item, context));
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, resolveArgs(item, context)])
+        );
+    }
+    return value;
+}
+
+/**
+ * Evaluate a branch condition
+ */
+export function evaluateCondition(condition: PipelineCondition, context: Record<string, unknown>): boolean {
+    const actual = resolvePath(context, condition.path);
+    const expected = condition.value;
+
+    switch (condition.op) {
+        case 'exists':
+            return actual !== undefined && actual !== null;
+        case 'truthy':
+            return Boolean(actual);
+        case 'equals':
+            return actual === expected || stringify(actual) === stringify(expected);
+        case 'notEquals':
+            return !(actual === expected || stringify(actual) === stringify(expected));
+        case 'contains':
+            if (Array.isArray(actual)) return actual.includes(expected);
+            return stringify(actual).toLowerCase().includes(stringify(expected).toLowerCase());
+        case 'gt':
+            return Number(actual) > Number(expected);
+        case 'lt':
+            return Number(actual) < Number(expected);
+    }
+}
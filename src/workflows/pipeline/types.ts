@@ -0,0 +1,102 @@
+// Declarative workflow pipeline types
+//
+// A pipeline is an ordered list of stages. Each stage reads from a shared
+// context (the parsed inputs plus every earlier stage's output) through
+// {{path}} templates and writes its own output back under `output.key`.
+//
+// Example:
+//   {
+//     inputs: [{ name: 'topic', type: 'string', required: true }],
+//     stages: [
+//       { id: 'tab', kind: 'tool', label: 'Read tab', tool: 'getActiveTab', output: { key: 'tab', type: 'json' } },
+//       { id: 'check', kind: 'branch', label: 'On YouTube?',
+//         condition: { path: 'tab.url', op: 'contains', value: 'youtube.com' }, else: 'summary' },
+//       { id: 'ok', kind: 'confirm', label: 'Confirm', message: 'Create notes for {{tab.title}}?' },
+//       { id: 'summary', kind: 'prompt', label: 'Summarize', prompt: 'Summarize {{tab.title}} for {{topic}}' },
+//     ],
+//   }
+
+export type PipelineValueType = 'string' | 'number' | 'boolean' | 'json';
+
+// A typed value the user supplies when invoking the workflow
+export interface PipelineInputSpec {
+    name: string;
+    type: PipelineValueType;
+    description?: string;
+    required?: boolean;
+    default?: unknown;
+}
+
+// Where and as what type a stage stores its result in the context
+export interface PipelineOutputSpec {
+    key: string;
+    type: PipelineValueType;
+}
+
+interface PipelineStageBase {
+    id: string;
+    label: string;
+    // Defaults to the stage id; tools store 'json', branches and confirmations 'boolean', others 'string'
+    output?: PipelineOutputSpec;
+}
+
+// Single model call, no tools
+export interface PromptStage extends PipelineStageBase {
+    kind: 'prompt';
+    prompt: string;
+    system?: string;
+    model?: string;
+}
+
+// Direct call to an extension, agent or MCP tool with templated arguments
+export interface ToolStage extends PipelineStageBase {
+    kind: 'tool';
+    tool: string;
+    args?: Record<string, unknown>;
+}
+
+// Nested agent loop with its own prompt, tools and step limit
+export interface AgentStage extends PipelineStageBase {
+    kind: 'agent';
+    prompt: string;
+    system?: string;
+    tools: string[];
+    maxSteps?: number;
+    model?: string;
+}
+
+export type PipelineConditionOp = 'equals' | 'notEquals' | 'contains' | 'exists' | 'truthy' | 'gt' | 'lt';
+
+export interface PipelineCondition {
+    path: string;
+    op: PipelineConditionOp;
+    value?: unknown;
+}
+
+// Jump to another stage; omitted targets fall through to the next stage,
+// PIPELINE_END finishes the run
+export interface BranchStage extends PipelineStageBase {
+    kind: 'branch';
+    condition: PipelineCondition;
+    then?: string;
+    else?: string;
+}
+
+// Pause until the user approves; rejecting cancels the run
+export interface ConfirmStage extends PipelineStageBase {
+    kind: 'confirm';
+    message: string;
+}
+
+export type PipelineStage = PromptStage | ToolStage | AgentStage | BranchStage | ConfirmStage;
+
+export type PipelineStageKind = PipelineStage['kind'];
+
+export interface PipelineDefinition {
+    inputs: PipelineInputSpec[];
+    stages: PipelineStage[];
+    // Template for the final chat message; defaults to the last stage's output
+    result?: string;
+}
+
+export const PIPELINE_END = '$end';
@@ -0,0 +1,119 @@
+/**
+ * Pipeline Validation
+ * Structural checks for pipeline definitions written by hand or pasted as JSON
+ */
+
+import { PIPELINE_END, type PipelineDefinition, type PipelineStage } from './types';
+
+const VALUE_TYPES = ['string', 'number', 'boolean', 'json'];
+const CONDITION_OPS = ['equals', 'notEquals', 'contains', 'exists', 'truthy', 'gt', 'lt'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateStage(stage: Record<string, unknown>, stageIds: Set<string>): string | null {
+    const name = `Stage "${String(stage.id)}"`;
+
+    if (typeof stage.label !== 'string' || !stage.label.trim()) return `${name} needs a label`;
+    if (stage.output !== undefined) {
+        if (!isRecord(stage.output) || typeof stage.output.key !== 'string' || !VALUE_TYPES.includes(String(stage.output.type))) {
+            return `${name} output needs a key and a type (${VALUE_TYPES.join(', ')})`;
+        }
+    }
+
+    switch (stage.kind) {
+        case 'prompt':
+            return typeof stage.prompt === 'string' && stage.prompt.trim() ? null : `${name} needs a prompt`;
+        case 'agent':
+            if (typeof stage.prompt !== 'string' || !stage.prompt.trim()) return `${name} needs a prompt`;
+            if (!Array.isArray(stage.tools) || stage.tools.length === 0) return `${name} needs at least one tool`;
+            return null;
+        case 'tool':
+            if (typeof stage.tool !== 'string' || !stage.tool) return `${name} needs a tool name`;
+            return stage.args === undefined || isRecord(stage.args) ? null : `${name} args must be an object`;
+        case 'confirm':
+            return typeof stage.message === 'string' && stage.message.trim() ? null : `${name} needs a message`;
+        case 'branch': {
+            const condition = stage.condition;
+            if (!isRecord(condition) || typeof condition.path !== 'string' || !CONDITION_OPS.includes(String(condition.op))) {
+                return `${name} needs a condition with a path and an op (${CONDITION_OPS.join(', ')})`;
+            }
+            for (const target of [stage.then, stage.else]) {
+                if (target !== undefined && target !== PIPELINE_END && !stageIds.has(String(target))) {
+                    return `${name} branches to unknown stage "${String(target)}"`;
+                }
+            }
+            return null;
+        }
+        default:
+            return `${name} has unknown kind "${String(stage.kind)}"`;
+    }
+}
+
+/**
+ * Validate a pipeline definition
+ *
+ * @returns Error message, or null when valid
+ */
+export function validatePipelineDefinition(pipeline: unknown): string | null {
+    if (!isRecord(pipeline)) return 'Pipeline must be an object';
+    if (!Array.isArray(pipeline.stages) || pipeline.stages.length === 0) return 'Pipeline needs at least one stage';
+    if (pipeline.inputs !== undefined && !Array.isArray(pipeline.inputs)) return 'Pipeline inputs must be a list';
+
+    for (const input of (pipeline.inputs as unknown[] | undefined) ?? []) {
+        if (!isRecord(input) || typeof input.name !== 'string' || !/^\w+$/.test(input.name)) {
+            return 'Each input needs a name made of letters, numbers and underscores';
+        }
+        if (!VALUE_TYPES.includes(String(input.type))) {
+            return `Input "${input.name}" must have a type (${VALUE_TYPES.join(', ')})`;
+        }
+    }
+
+    const stageIds = new Set<string>();
+    for (const stage of pipeline.stages as unknown[]) {
+        if (!isRecord(stage) || typeof stage.id !== 'string' || !stage.id) return 'Each stage needs an id';
+        if (stageIds.has(stage.id)) return `Stage id "${stage.id}" is used twice`;
+        stageIds.add(stage.id);
+    }
+
+    for (const stage of pipeline.stages as Record<string, unknown>[]) {
+        const error = validateStage(stage, stageIds);
+        if (error) return error;
+    }
+
+    if (pipeline.result !== undefined && typeof pipeline.result !== 'string') return 'Pipeline result must be a template string';
+    return null;
+}
+
+/**
+ * Parse and validate pipeline JSON
+ *
+ * @throws Error with a readable message when the JSON or the pipeline is invalid
+ */
+export function parsePipelineDefinition(json: string): PipelineDefinition {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('Pipeline is not valid JSON');
+    }
+
+    const error = validatePipelineDefinition(parsed);
+    if (error) throw new Error(error);
+
+    const pipeline = parsed as PipelineDefinition;
+    return { ...pipeline, inputs: pipeline.inputs ?? [], stages: pipeline.stages as PipelineStage[] };
+}
+
+/**
+ * Tools a pipeline calls, so they can be listed in the workflow's allowed tools
+ */
+export function getPipelineToolNames(pipeline: PipelineDefinition): string[] {
+    const names = pipeline.stages.flatMap(stage => {
+        if (stage.kind === 'tool') return [stage.tool];
+        if (stage.kind === 'agent') return stage.tools;
+        return [];
+    });
+    return [...new Set(names)];
+}
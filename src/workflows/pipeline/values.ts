@@ -0,0 +1,86 @@
+/**
+ * Pipeline Values
+ * Typed coercion for pipeline inputs and stage outputs
+ */
+
+import type { PipelineInputSpec, PipelineValueType } from './types';
+
+const NAMED_INPUT_PATTERN = /(\w+)=("([^"]*)"|'([^']*)'|\S+)/g;
+
+/**
+ * Parse JSON that a model may have wrapped in a markdown code fence
+ */
+function parseJson(text: string): unknown {
+    const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(text.trim());
+    return JSON.parse(fenced ? fenced[1]! : text);
+}
+
+/**
+ * Convert a value to the declared pipeline type
+ *
+ * @param label - Name used in error messages
+ * @throws Error when the value cannot be represented as the type
+ */
+export function coerceValue(value: unknown, type: PipelineValueType, label: string): unknown {
+    switch (type) {
+        case 'string':
+            if (value === undefined || value === null) return '';
+            return typeof value === 'string' ? value : JSON.stringify(value);
+        case 'number': {
+            const num = typeof value === 'number' ? value : Number(String(value).trim());
+            if (value === '' || !Number.isFinite(num)) {
+                throw new Error(`${label} must be a number`);
+            }
+            return num;
+        }
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            if (/^(true|yes|1)$/i.test(String(value).trim())) return true;
+            if (/^(false|no|0)$/i.test(String(value).trim())) return false;
+            throw new Error(`${label} must be true or false`);
+        case 'json':
+            if (typeof value !== 'string') return value;
+            try {
+                return parseJson(value);
+            } catch {
+                throw new Error(`${label} is not valid JSON`);
+            }
+    }
+}
+
+/**
+ * Parse the text typed after a pipeline's slash command into typed inputs
+ *
+ * Inputs can be named (`url=https://... depth=3`, quotes allowed); whatever
+ * text remains fills the first unset string input.
+ *
+ * @throws Error when a required input is missing or a value has the wrong type
+ */
+export function parsePipelineInputs(specs: PipelineInputSpec[], text: string): Record<string, unknown> {
+    const known = new Set(specs.map(spec => spec.name));
+    const raw: Record<string, unknown> = {};
+
+    const remainder = text.replace(NAMED_INPUT_PATTERN, (match, name: string, value: string, dq?: string, sq?: string) => {
+        if (!known.has(name)) return match;
+        raw[name] = dq ?? sq ?? value;
+        return '';
+    }).trim();
+
+    if (remainder) {
+        const freeText = specs.find(spec => spec.type === 'string' && raw[spec.name] === undefined);
+        if (freeText) raw[freeText.name] = remainder;
+    }
+
+    const inputs: Record<string, unknown> = {};
+    for (const spec of specs) {
+        const value = raw[spec.name] ?? spec.default;
+        if (value === undefined || value === '') {
+            if (spec.required) {
+                throw new Error(`Missing required input "${spec.name}"${spec.description ? ` (${spec.description})` : ''}`);
+            }
+            continue;
+        }
+        inputs[spec.name] = coerceValue(value, spec.type, `Input "${spec.name}"`);
+    }
+    return inputs;
+}
@@ -7,6 +7,8 @@ import { useEffect } from 'react';
 import { registerWorkflow } from './registry';
 import { getResearchWorkflowWithSettings } from './definitions/researchWorkflow';
 import { youtubeToNotionWorkflow } from './definitions/youtubeToNotionWorkflow';
+import { loadCustomWorkflows } from './customWorkflows';
+import { loadMacroWorkflows } from './macros';
 import { createLogger } from '~logger';
 
 const log = createLogger('Workflow-Registration');
@@ -42,9 +44,15 @@ export function useRegisterAllWorkflows() {
             // registerWorkflow(summarizeWorkflow);
             // etc.
 
+            // Register user-defined workflows after built-ins so id conflicts are detected
+            const customWorkflows = await loadCustomWorkflows();
+
+            // Recorded macros come last; their slash commands never shadow a workflow
+            const macros = await loadMacroWorkflows();
+
             log.info('✅ All workflows registered', {
-                count: 2, // Update as more workflows are added
-                workflows: ['research', 'youtube-to-notion']
+                count: 2 + customWorkflows.length + macros.length,
+                workflows: ['research', 'youtube-to-notion', ...customWorkflows.map(w => w.id), ...macros.map(m => m.id)]
             });
         };
 
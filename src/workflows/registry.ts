@@ -11,6 +11,13 @@ export function registerWorkflow(workflow: WorkflowDefinition): void {
     workflows.set(workflow.id, workflow);
 }
 
+/**
+ * Remove a workflow from the registry
+ */
+export function unregisterWorkflow(id: string): void {
+    workflows.delete(id);
+}
+
 /**
  * Get a specific workflow by ID
  */
@@ -0,0 +1,158 @@
+/**
+ * Cron Expressions
+ * Parses standard 5-field cron expressions (minute hour day-of-month month
+ * day-of-week) and computes the next matching time in local time.
+ * Supports `*`, lists, ranges and steps, e.g. `0 9 * * 1-5` or `*\/15 8-18 * * *`.
+ */
+
+interface CronField {
+    values: Set<number>;
+    /** Field was `*` (or `*` with a step) */
+    wildcard: boolean;
+}
+
+export interface CronExpression {
+    minutes: CronField;
+    hours: CronField;
+    daysOfMonth: CronField;
+    months: CronField;
+    daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+];
+
+/** Give up looking for a match after this many days (covers Feb 29 schedules) */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseNumber(value: string, name: string, min: number, max: number): number {
+    const number = Number(value);
+    if (!/^\d+$/.test(value) || number < min || number > max) {
+        throw new Error(`Invalid ${name} "${value}" (expected ${min}-${max})`);
+    }
+    return number;
+}
+
+function parseField(field: string, name: string, min: number, max: number): CronField {
+    const values = new Set<number>();
+    let wildcard = false;
+
+    for (const part of field.split(',')) {
+        const [range = '', stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : parseNumber(stepText, `${name} step`, 1, max);
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            wildcard = true;
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            const [from = '', to = ''] = range.split('-');
+            start = parseNumber(from, name, min, max);
+            end = parseNumber(to, name, min, max);
+            if (start > end) {
+                throw new Error(`Invalid ${name} range "${range}"`);
+            }
+        } else {
+            start = parseNumber(range, name, min, max);
+            end = stepText === undefined ? start : max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return { values, wildcard };
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+        const range = FIELD_RANGES[index]!;
+        return parseField(field, range.name, range.min, range.max);
+    }) as [CronField, CronField, CronField, CronField, CronField];
+
+    // Both 0 and 7 mean Sunday
+    if (daysOfWeek.values.delete(7)) {
+        daysOfWeek.values.add(0);
+    }
+
+    return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+    try {
+        parseCron(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.values.has(date.getDate());
+    const dayOfWeek = cron.daysOfWeek.values.has(date.getDay());
+
+    // Standard cron: when both day fields are restricted, either may match
+    if (!cron.daysOfMonth.wildcard && !cron.daysOfWeek.wildcard) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Compute the first time strictly after `from` that matches the expression
+ *
+ * @returns Epoch ms, or null when nothing matches (e.g. `0 0 31 2 *`)
+ */
+export function getNextCronRun(expression: string | CronExpression, from: number = Date.now()): number | null {
+    const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+    const hours = [...cron.hours.values].sort((a, b) => a - b);
+    const minutes = [...cron.minutes.values].sort((a, b) => a - b);
+
+    const start = new Date(from);
+    start.setSeconds(0, 0);
+    start.setMinutes(start.getMinutes() + 1);
+
+    const day = new Date(start);
+    day.setHours(0, 0, 0, 0);
+
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, day.setDate(day.getDate() + 1)) {
+        if (!cron.months.values.has(day.getMonth() + 1) || !matchesDay(cron, day)) {
+            continue;
+        }
+
+        for (const hour of hours) {
+            for (const minute of minutes) {
+                const candidate = new Date(day);
+                candidate.setHours(hour, minute, 0, 0);
+                // Skip times that don't exist on DST changes
+                if (candidate.getHours() !== hour) continue;
+                if (candidate.getTime() >= start.getTime()) {
+                    return candidate.getTime();
+                }
+            }
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,21 @@
+/**
+ * Scheduled Tasks
+ * Agent runs on a cron or natural-language schedule, executed by the
+ * background worker (see src/background/scheduler)
+ */
+
+export * from './types';
+export { parseCron, isValidCron, getNextCronRun } from './cron';
+export { parseSchedule, getNextRunAt, MIN_INTERVAL_MINUTES } from './schedule';
+export {
+    SCHEDULED_TASKS_STORAGE_KEY,
+    SCHEDULED_TASK_ALARM_PREFIX,
+    validateScheduledTask,
+    getScheduledTasks,
+    getScheduledTask,
+    syncScheduledTaskAlarm,
+    saveScheduledTask,
+    deleteScheduledTask,
+    setScheduledTaskEnabled,
+    recordScheduledTaskRun,
+} from './storage';
@@ -0,0 +1,140 @@
+/**
+ * Schedule Parsing
+ * Turns what the user typed into a TaskSchedule. Accepts cron expressions,
+ * recurring phrases ("every weekday at 9am", "every Monday at 8:30",
+ * "every 2 hours", "monthly on the 1st") and one-time dates understood by
+ * chrono-node ("tomorrow at 5pm", "in 30 minutes").
+ */
+
+import * as chrono from 'chrono-node';
+import { getNextCronRun, isValidCron } from './cron';
+import type { TaskSchedule } from './types';
+
+/** Agent runs are expensive; don't allow anything tighter than this */
+export const MIN_INTERVAL_MINUTES = 15;
+
+const DEFAULT_HOUR = 9;
+
+const RECURRING_PATTERN = /\b(every|each|daily|hourly|weekly|monthly|weekdays?|weekends?)\b/;
+const INTERVAL_PATTERN = /\bevery\s+(\d+)\s*(minutes?|mins?|hours?|hrs?)\b/;
+const DAY_NAME_PATTERN = /\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\b/g;
+const DAY_OF_MONTH_PATTERN = /\bon the (\d{1,2})(?:st|nd|rd|th)?\b/;
+
+const DAY_INDEX: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+const SCHEDULE_HELP = 'Try "every weekday at 9am", "every Monday at 8:30", "every 2 hours", "tomorrow at 5pm" or a cron expression like "0 9 * * 1-5".';
+
+/**
+ * Find the time of day in a phrase, defaulting to 9:00
+ */
+function parseTimeOfDay(text: string): { hour: number; minute: number } {
+    for (const result of chrono.parse(text)) {
+        if (result.start.isCertain('hour')) {
+            return {
+                hour: result.start.get('hour') ?? DEFAULT_HOUR,
+                minute: result.start.get('minute') ?? 0,
+            };
+        }
+    }
+    return { hour: DEFAULT_HOUR, minute: 0 };
+}
+
+function parseInterval(amountText: string, unit: string): string {
+    const amount = Number(amountText);
+    const minutes = unit.startsWith('h') ? amount * 60 : amount;
+    if (minutes < MIN_INTERVAL_MINUTES) {
+        throw new Error(`Tasks can run at most every ${MIN_INTERVAL_MINUTES} minutes`);
+    }
+    if (minutes < 60) {
+        return `*/${minutes} * * * *`;
+    }
+    if (minutes % 60 !== 0 || minutes / 60 > 23) {
+        throw new Error('Use a whole number of hours between 1 and 23, or a cron expression');
+    }
+    return minutes === 60 ? '0 * * * *' : `0 */${minutes / 60} * * *`;
+}
+
+/**
+ * Convert a recurring phrase to a cron expression
+ */
+function recurringToCron(text: string): string {
+    const interval = text.match(INTERVAL_PATTERN);
+    if (interval) {
+        return parseInterval(interval[1]!, interval[2]!);
+    }
+    if (/\b(hourly|every hour)\b/.test(text)) {
+        return '0 * * * *';
+    }
+
+    const { hour, minute } = parseTimeOfDay(text);
+    const time = `${minute} ${hour}`;
+
+    if (/\b(monthly|every month)\b/.test(text)) {
+        const dayOfMonth = Number(text.match(DAY_OF_MONTH_PATTERN)?.[1] ?? 1);
+        if (dayOfMonth < 1 || dayOfMonth > 31) {
+            throw new Error(`Invalid day of month "${dayOfMonth}"`);
+        }
+        return `${time} ${dayOfMonth} * *`;
+    }
+    if (/\bweekdays?\b/.test(text)) {
+        return `${time} * * 1-5`;
+    }
+    if (/\bweekends?\b/.test(text)) {
+        return `${time} * * 0,6`;
+    }
+
+    const days = [...text.matchAll(DAY_NAME_PATTERN)]
+        .map(match => DAY_INDEX[match[1]!])
+        .filter((day): day is number => day !== undefined);
+    if (days.length > 0) {
+        return `${time} * * ${[...new Set(days)].sort().join(',')}`;
+    }
+    if (/\b(weekly|every week)\b/.test(text)) {
+        return `${time} * * 1`;
+    }
+    return `${time} * * *`;
+}
+
+/**
+ * Parse schedule text
+ *
+ * @param text - Cron expression or natural-language schedule
+ * @param now - Reference time for relative dates
+ * @throws Error explaining what's accepted when the text can't be understood
+ */
+export function parseSchedule(text: string, now: number = Date.now()): TaskSchedule {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        throw new Error(`Schedule is required. ${SCHEDULE_HELP}`);
+    }
+
+    if (isValidCron(trimmed)) {
+        return { kind: 'cron', expression: trimmed };
+    }
+
+    const lower = trimmed.toLowerCase();
+    if (RECURRING_PATTERN.test(lower)) {
+        return { kind: 'cron', expression: recurringToCron(lower) };
+    }
+
+    const date = chrono.parseDate(trimmed, new Date(now), { forwardDate: true });
+    if (!date) {
+        throw new Error(`Couldn't understand "${trimmed}". ${SCHEDULE_HELP}`);
+    }
+    if (date.getTime() <= now) {
+        throw new Error('That time is in the past');
+    }
+    return { kind: 'once', at: date.getTime() };
+}
+
+/**
+ * Next time a schedule fires after `from`
+ *
+ * @returns Epoch ms, or null when a one-time schedule has passed
+ */
+export function getNextRunAt(schedule: TaskSchedule, from: number = Date.now()): number | null {
+    if (schedule.kind === 'once') {
+        return schedule.at > from ? schedule.at : null;
+    }
+    return getNextCronRun(schedule.expression, from);
+}
@@ -0,0 +1,171 @@
+/**
+ * Scheduled Task Storage
+ * Tasks live in chrome.storage.local; each enabled task has a chrome alarm
+ * named `scheduled-task:{id}` that the background worker handles.
+ */
+
+import { createLogger } from '~logger';
+import { getNextRunAt, parseSchedule } from './schedule';
+import type { ScheduledTask, ScheduledTaskInput, ScheduledTaskRun } from './types';
+
+const log = createLogger('ScheduledTasks', 'STORAGE');
+
+export const SCHEDULED_TASKS_STORAGE_KEY = 'scheduledTasks';
+export const SCHEDULED_TASK_ALARM_PREFIX = 'scheduled-task:';
+
+/** "/research quantum batteries" runs the research workflow with "quantum batteries" */
+const WORKFLOW_COMMAND_PATTERN = /^\/([\w-]+)\s+([\s\S]+)$/;
+
+/**
+ * Validate editable task fields
+ *
+ * @returns Error message, or null when valid
+ */
+export function validateScheduledTask(input: ScheduledTaskInput): string | null {
+    if (!input.name.trim()) return 'Name is required';
+    if (!input.prompt.trim()) return 'Prompt is required';
+    try {
+        parseSchedule(input.scheduleText);
+    } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid schedule';
+    }
+    return null;
+}
+
+/**
+ * Get all scheduled tasks from storage
+ */
+export async function getScheduledTasks(): Promise<ScheduledTask[]> {
+    try {
+        const result = await chrome.storage.local.get(SCHEDULED_TASKS_STORAGE_KEY);
+        return (result[SCHEDULED_TASKS_STORAGE_KEY] as ScheduledTask[] | undefined) ?? [];
+    } catch (error) {
+        log.error('Failed to load scheduled tasks', error);
+        return [];
+    }
+}
+
+/**
+ * Get a scheduled task by id
+ */
+export async function getScheduledTask(id: string): Promise<ScheduledTask | undefined> {
+    const tasks = await getScheduledTasks();
+    return tasks.find(task => task.id === id);
+}
+
+async function persistScheduledTasks(tasks: ScheduledTask[]): Promise<void> {
+    await chrome.storage.local.set({ [SCHEDULED_TASKS_STORAGE_KEY]: tasks });
+}
+
+/**
+ * Create, replace or clear the alarm for a task
+ */
+export async function syncScheduledTaskAlarm(task: ScheduledTask): Promise<void> {
+    const alarmName = SCHEDULED_TASK_ALARM_PREFIX + task.id;
+    await chrome.alarms.clear(alarmName);
+    if (task.enabled && task.nextRunAt) {
+        await chrome.alarms.create(alarmName, { when: task.nextRunAt });
+    }
+}
+
+/**
+ * Replace a stored task and update its alarm
+ */
+async function putScheduledTask(task: ScheduledTask): Promise<ScheduledTask> {
+    const tasks = await getScheduledTasks();
+    const index = tasks.findIndex(existing => existing.id === task.id);
+    if (index === -1) {
+        tasks.push(task);
+    } else {
+        tasks[index] = task;
+    }
+    await persistScheduledTasks(tasks);
+    await syncScheduledTaskAlarm(task);
+    return task;
+}
+
+/**
+ * Create or update a scheduled task
+ *
+ * @param input - Task fields from the editor or the scheduleTask tool; a prompt
+ *   starting with a slash command selects that workflow
+ * @param id - Existing task id when editing
+ * @returns The saved task
+ * @throws Error when the task is invalid or the id does not exist
+ */
+export async function saveScheduledTask(input: ScheduledTaskInput, id?: string): Promise<ScheduledTask> {
+    const error = validateScheduledTask(input);
+    if (error) {
+        throw new Error(error);
+    }
+
+    const existing = id ? await getScheduledTask(id) : undefined;
+    if (id && !existing) {
+        throw new Error('Scheduled task not found');
+    }
+
+    const now = Date.now();
+    const schedule = parseSchedule(input.scheduleText, now);
+    const command = input.workflowId ? null : input.prompt.trim().match(WORKFLOW_COMMAND_PATTERN);
+    const task: ScheduledTask = {
+        ...existing,
+        id: existing?.id ?? crypto.randomUUID(),
+        name: input.name.trim(),
+        prompt: command ? command[2]!.trim() : input.prompt.trim(),
+        scheduleText: input.scheduleText.trim(),
+        schedule,
+        workflowId: command ? command[1] : input.workflowId || undefined,
+        allowedTools: [...new Set(input.allowedTools)],
+        enabled: input.enabled,
+        nextRunAt: getNextRunAt(schedule, now),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+
+    await putScheduledTask(task);
+    log.info('Scheduled task saved', { id: task.id, schedule: task.schedule, nextRunAt: task.nextRunAt });
+    return task;
+}
+
+/**
+ * Delete a scheduled task and its alarm
+ */
+export async function deleteScheduledTask(id: string): Promise<void> {
+    const tasks = await getScheduledTasks();
+    await persistScheduledTasks(tasks.filter(task => task.id !== id));
+    await chrome.alarms.clear(SCHEDULED_TASK_ALARM_PREFIX + id);
+    log.info('Scheduled task deleted', { id });
+}
+
+/**
+ * Pause or resume a task; resuming recomputes the next run
+ */
+export async function setScheduledTaskEnabled(id: string, enabled: boolean): Promise<ScheduledTask> {
+    const task = await getScheduledTask(id);
+    if (!task) {
+        throw new Error('Scheduled task not found');
+    }
+    return putScheduledTask({
+        ...task,
+        enabled,
+        nextRunAt: enabled ? getNextRunAt(task.schedule) : task.nextRunAt,
+        updatedAt: Date.now(),
+    });
+}
+
+/**
+ * Record the outcome of a run and schedule the next one
+ * One-time tasks are disabled once they have run
+ */
+export async function recordScheduledTaskRun(id: string, run: ScheduledTaskRun): Promise<ScheduledTask | undefined> {
+    const task = await getScheduledTask(id);
+    if (!task) return undefined;
+
+    const nextRunAt = getNextRunAt(task.schedule, Math.max(run.at, Date.now()));
+    return putScheduledTask({
+        ...task,
+        lastRun: run,
+        nextRunAt,
+        enabled: task.enabled && nextRunAt !== null,
+    });
+}
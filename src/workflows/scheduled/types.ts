@@ -0,0 +1,54 @@
+// Scheduled task types
+
+/**
+ * Browser tools the background worker can run without the side panel open.
+ * Page-interaction tools need the side panel, so scheduled runs are limited
+ * to these plus connected MCP server tools.
+ */
+export const SCHEDULED_TASK_BROWSER_TOOLS = ['getAllTabs', 'readTab', 'openTab', 'searchHistory'] as const;
+
+/**
+ * When a task runs
+ * - cron: recurring, standard 5-field cron expression in local time
+ * - once: a single run at an epoch ms timestamp
+ */
+export type TaskSchedule =
+    | { kind: 'cron'; expression: string }
+    | { kind: 'once'; at: number };
+
+export type ScheduledTaskStatus = 'success' | 'error';
+
+export interface ScheduledTaskRun {
+    at: number;
+    status: ScheduledTaskStatus;
+    /** Thread holding the result */
+    threadId?: string;
+    error?: string;
+}
+
+// Agent run persisted in chrome.storage.local and executed by the background worker
+export interface ScheduledTask {
+    id: string;
+    name: string;
+    /** Prompt sent to the agent on every run */
+    prompt: string;
+    /** Schedule as the user typed it, e.g. "every weekday at 9am" */
+    scheduleText: string;
+    schedule: TaskSchedule;
+    /** Workflow whose system prompt and step limit are used */
+    workflowId?: string;
+    /** Tools the agent may call; empty means every background tool */
+    allowedTools: string[];
+    enabled: boolean;
+    /** Next alarm time; null when a one-time task has run */
+    nextRunAt: number | null;
+    lastRun?: ScheduledTaskRun;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Editable fields of a scheduled task
+export type ScheduledTaskInput = Pick<
+    ScheduledTask,
+    'name' | 'prompt' | 'scheduleText' | 'workflowId' | 'allowedTools' | 'enabled'
+>;
@@ -1,5 +1,7 @@
 // Workflow system types and interfaces
 
+import type { PipelineDefinition } from './pipeline/types';
+
 export interface WorkflowDefinition {
     id: string;
     name: string;
@@ -10,4 +12,18 @@ export interface WorkflowDefinition {
     color?: string; // Optional theme color
     stepCount?: number; // Optional step count limit (defaults to 10 if not specified)
     comingSoon?: boolean; // Optional flag to mark workflow as coming soon
+    pipeline?: PipelineDefinition; // Optional staged pipeline, run by the pipeline runner instead of a single agent loop
+}
+
+// User-created workflow persisted in chrome.storage.local
+export interface CustomWorkflowDefinition extends WorkflowDefinition {
+    isCustom: true;
+    createdAt: number;
+    updatedAt: number;
 }
+
+// Editable fields of a custom workflow
+export type CustomWorkflowInput = Pick<
+    WorkflowDefinition,
+    'id' | 'name' | 'description' | 'icon' | 'allowedTools' | 'systemPrompt' | 'color' | 'stepCount' | 'pipeline'
+>;